@@ -2,58 +2,267 @@ import Anthropic from '@anthropic-ai/sdk';
 import { configManager } from '../../config/manager.js';
 import { createLogger } from '../../utils/logger.js';
 import type { AIAgent, AIContext, AIDecision } from '../agent.js';
-import { processAIDecision } from '../decision-processor.js';
-import { buildAnalysisPrompt } from '../prompt-builder.js';
+import { decisionJsonSchema } from '../decision-processor.js';
+import { buildAnalysisPrompt, buildRepairPrompt, buildToolGuidance } from '../prompt-builder.js';
+import {
+  DECISION_TOOL_NAME,
+  decideWithRepair,
+  structuredOutputEnabled,
+} from '../structured-output.js';
+import { ToolSession, toolInputSchema } from '../tools.js';
+import { type AIResponse, getAIUsageMeter } from '../usage.js';
 
 const log = createLogger('ai-anthropic');
 
 export class AnthropicAdapter implements AIAgent {
+  /** @param model Overrides the configured model, e.g. for an ensemble member */
+  constructor(private readonly model?: string) {}
+
   async analyze(context: AIContext): Promise<AIDecision | null> {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) throw new Error('ANTHROPIC_API_KEY not set');
+    if (configManager.get<boolean>('ai.tools.enabled')) return this.analyzeWithTools(context);
 
-    const client = new Anthropic({ apiKey });
-    const model = configManager.get<string>('ai.model');
+    const model = this.model ?? configManager.get<string>('ai.model');
     const temperature = configManager.get<number>('ai.temperature');
 
+    const structured = structuredOutputEnabled();
+
     const { system, user } = buildAnalysisPrompt(context);
 
-    log.info({ symbol: context.symbol, model }, 'Calling Anthropic API');
+    const text = await getAIUsageMeter().track(
+      {
+        provider: 'anthropic',
+        model,
+        params: { temperature, maxTokens: 2048, ...(structured ? { structured } : {}) },
+        system,
+        user,
+        label: context.symbol,
+      },
+      'analysis',
+      async () => {
+        const client = createClient();
+        log.info({ symbol: context.symbol, model }, 'Calling Anthropic API');
 
-    const response = await client.messages.create({
-      model,
-      max_tokens: 2048,
-      temperature,
-      system,
-      messages: [{ role: 'user', content: user }],
-    });
+        const response = await client.messages.create({
+          model,
+          max_tokens: 2048,
+          temperature,
+          system,
+          messages: [{ role: 'user', content: user }],
+          ...(structured
+            ? { tools: [decisionTool()], tool_choice: { type: 'tool', name: DECISION_TOOL_NAME } }
+            : {}),
+        });
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
+        return toResponse(response);
+      },
+    );
 
     log.debug(
       { symbol: context.symbol, responseLength: text.length },
       'Anthropic response received',
     );
 
-    return processAIDecision(text);
+    return decideWithRepair(model, text, (previous, errors) =>
+      this.repair({ model, temperature, system, user, symbol: context.symbol }, previous, errors),
+    );
   }
 
-  async rawChat(system: string, user: string): Promise<string> {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) throw new Error('ANTHROPIC_API_KEY not set');
+  /**
+   * Agentic analysis: the model may call tools for more data before it
+   * decides. Every round is its own metered call; after `ai.tools.maxRounds`
+   * rounds, or once the call cap is hit, tools are switched off and the
+   * model has to answer. With structured output the answer goes through the
+   * decision tool, which the final round forces.
+   */
+  private async analyzeWithTools(context: AIContext): Promise<AIDecision | null> {
+    const model = this.model ?? configManager.get<string>('ai.model');
+    const temperature = configManager.get<number>('ai.temperature');
+    const maxRounds = configManager.get<number>('ai.tools.maxRounds') ?? 3;
+    const structured = structuredOutputEnabled();
+
+    const session = new ToolSession();
+    const prompt = buildAnalysisPrompt(context);
+    const system = prompt.system + buildToolGuidance(session.maxCalls);
+    const tools: Anthropic.Tool[] = session.tools.map((t) => ({
+      name: t.name,
+      description: t.description,
+      input_schema: toolInputSchema(t) as Anthropic.Tool.InputSchema,
+    }));
+    if (structured) tools.push(decisionTool());
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt.user }];
 
-    const client = new Anthropic({ apiKey });
-    const model = configManager.get<string>('ai.model');
+    for (let round = 1; ; round++) {
+      const final = round > maxRounds || session.exhausted;
+      const text = await getAIUsageMeter().track(
+        {
+          provider: 'anthropic',
+          model,
+          params: {
+            temperature,
+            maxTokens: 2048,
+            tools: tools.map((t) => t.name),
+            final,
+            ...(structured ? { structured } : {}),
+          },
+          system,
+          user: JSON.stringify(messages),
+          label: context.symbol,
+        },
+        'analysis',
+        async () => {
+          log.info({ symbol: context.symbol, model, round }, 'Calling Anthropic API with tools');
+          const response = await createClient().messages.create({
+            model,
+            max_tokens: 2048,
+            temperature,
+            system,
+            messages,
+            tools,
+            tool_choice: !final
+              ? { type: 'auto' }
+              : structured
+                ? { type: 'tool', name: DECISION_TOOL_NAME }
+                : { type: 'none' },
+          });
+          // The whole content is kept so a replayed round yields the same tool calls
+          return { ...toResponse(response), text: JSON.stringify(response.content) };
+        },
+      );
+
+      const content = JSON.parse(text) as Anthropic.ContentBlock[];
+      const calls = content.filter(
+        (b): b is Anthropic.ToolUseBlock => b.type === 'tool_use' && b.name !== DECISION_TOOL_NAME,
+      );
+      const submitted = content.some((b) => b.type === 'tool_use' && b.name === DECISION_TOOL_NAME);
+      if (final || submitted || calls.length === 0) {
+        log.debug(
+          { symbol: context.symbol, rounds: round, toolCalls: session.trace.length },
+          'Anthropic tool loop finished',
+        );
+        const decision = await decideWithRepair(model, answerText(content), (previous, errors) =>
+          this.repair(
+            { model, temperature, system, user: prompt.user, symbol: context.symbol },
+            previous,
+            errors,
+          ),
+        );
+        return decision && { ...decision, toolTrace: session.trace };
+      }
+
+      messages.push({ role: 'assistant', content });
+      const results = await session.execute(
+        round,
+        calls.map((c) => ({ id: c.id, name: c.name, input: c.input })),
+      );
+      messages.push({
+        role: 'user',
+        content: results.map((r) => ({
+          type: 'tool_result' as const,
+          tool_use_id: r.id,
+          content: r.content,
+          is_error: r.isError,
+        })),
+      });
+    }
+  }
+
+  /** Send a decision that failed validation back with its errors; the retry is metered like any call. */
+  private repair(
+    call: { model: string; temperature: number; system: string; user: string; symbol: string },
+    previous: string,
+    errors: string[],
+  ): Promise<string> {
+    const { model, temperature, system, symbol } = call;
+    const structured = structuredOutputEnabled();
+    const messages: Anthropic.MessageParam[] = [
+      { role: 'user', content: call.user },
+      { role: 'assistant', content: previous || '(empty response)' },
+      { role: 'user', content: buildRepairPrompt(errors) },
+    ];
+
+    return getAIUsageMeter().track(
+      {
+        provider: 'anthropic',
+        model,
+        params: {
+          temperature,
+          maxTokens: 2048,
+          repair: true,
+          ...(structured ? { structured } : {}),
+        },
+        system,
+        user: JSON.stringify(messages),
+        label: symbol,
+      },
+      'analysis',
+      async () => {
+        log.info({ symbol, model }, 'Calling Anthropic API to repair decision');
+        const response = await createClient().messages.create({
+          model,
+          max_tokens: 2048,
+          temperature,
+          system,
+          messages,
+          ...(structured
+            ? { tools: [decisionTool()], tool_choice: { type: 'tool', name: DECISION_TOOL_NAME } }
+            : {}),
+        });
+        return toResponse(response);
+      },
+    );
+  }
+
+  async rawChat(system: string, user: string): Promise<string> {
+    const model = this.model ?? configManager.get<string>('ai.model');
     const temperature = configManager.get<number>('ai.temperature');
 
-    const response = await client.messages.create({
-      model,
-      max_tokens: 4096,
-      temperature,
-      system,
-      messages: [{ role: 'user', content: user }],
-    });
+    return getAIUsageMeter().track(
+      { provider: 'anthropic', model, params: { temperature, maxTokens: 4096 }, system, user },
+      'chat',
+      async () => {
+        const client = createClient();
+        const response = await client.messages.create({
+          model,
+          max_tokens: 4096,
+          temperature,
+          system,
+          messages: [{ role: 'user', content: user }],
+        });
 
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+        return toResponse(response);
+      },
+    );
   }
 }
+
+function createClient(): Anthropic {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) throw new Error('ANTHROPIC_API_KEY not set');
+  return new Anthropic({ apiKey });
+}
+
+/** The tool a structured decision is submitted through; its input is the decision itself */
+function decisionTool(): Anthropic.Tool {
+  return {
+    name: DECISION_TOOL_NAME,
+    description: 'Submit the final trading decision.',
+    input_schema: decisionJsonSchema() as Anthropic.Tool.InputSchema,
+  };
+}
+
+/** The decision as JSON when it was submitted through the decision tool, else the reply's text */
+function answerText(content: Anthropic.ContentBlock[]): string {
+  const submitted = content.find(
+    (b): b is Anthropic.ToolUseBlock => b.type === 'tool_use' && b.name === DECISION_TOOL_NAME,
+  );
+  if (submitted) return JSON.stringify(submitted.input);
+  return content.map((b) => (b.type === 'text' ? b.text : '')).join('');
+}
+
+function toResponse(response: Anthropic.Message): AIResponse {
+  return {
+    text: answerText(response.content),
+    inputTokens: response.usage?.input_tokens ?? 0,
+    outputTokens: response.usage?.output_tokens ?? 0,
+  };
+}
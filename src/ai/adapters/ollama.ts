@@ -2,60 +2,148 @@ import axios from 'axios';
 import { configManager } from '../../config/manager.js';
 import { createLogger } from '../../utils/logger.js';
 import type { AIAgent, AIContext, AIDecision } from '../agent.js';
-import { processAIDecision } from '../decision-processor.js';
-import { buildAnalysisPrompt } from '../prompt-builder.js';
+import { decisionJsonSchema } from '../decision-processor.js';
+import { buildAnalysisPrompt, buildRepairPrompt } from '../prompt-builder.js';
+import { decideWithRepair, structuredOutputEnabled } from '../structured-output.js';
+import { type AIResponse, getAIUsageMeter } from '../usage.js';
 
 const log = createLogger('ai-ollama');
 
 export class OllamaAdapter implements AIAgent {
+  /** @param model Overrides the configured model, e.g. for an ensemble member */
+  constructor(private readonly model?: string) {}
+
   async analyze(context: AIContext): Promise<AIDecision | null> {
     const baseUrl = configManager.get<string>('ai.ollama.baseUrl');
-    const model = configManager.get<string>('ai.ollama.model');
+    const model = this.model ?? configManager.get<string>('ai.ollama.model');
     const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
 
-    const { system, user } = buildAnalysisPrompt(context);
+    const structured = structuredOutputEnabled();
 
-    log.info({ symbol: context.symbol, model, baseUrl }, 'Calling Ollama API');
+    const { system, user } = buildAnalysisPrompt(context);
 
-    const response = await axios.post(
-      `${baseUrl}/api/chat`,
+    const text = await getAIUsageMeter().track(
       {
+        provider: 'ollama',
         model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        stream: false,
-        format: 'json',
+        params: { format: 'json', ...(structured ? { structured } : {}) },
+        system,
+        user,
+        label: context.symbol,
       },
-      { timeout },
-    );
+      'analysis',
+      async () => {
+        log.info({ symbol: context.symbol, model, baseUrl }, 'Calling Ollama API');
 
-    const text: string = response.data.message.content;
+        const response = await axios.post(
+          `${baseUrl}/api/chat`,
+          {
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user },
+            ],
+            stream: false,
+            format: decisionFormat(),
+          },
+          { timeout },
+        );
+
+        return toResponse(response.data);
+      },
+    );
 
     log.debug({ symbol: context.symbol, responseLength: text.length }, 'Ollama response received');
 
-    return processAIDecision(text);
+    return decideWithRepair(model, text, (previous, errors) =>
+      this.repair({ model, system, user, symbol: context.symbol }, previous, errors),
+    );
   }
 
-  async rawChat(system: string, user: string): Promise<string> {
+  /** Send a decision that failed validation back with its errors; the retry is metered like any call. */
+  private repair(
+    call: { model: string; system: string; user: string; symbol: string },
+    previous: string,
+    errors: string[],
+  ): Promise<string> {
+    const { model, system, symbol } = call;
     const baseUrl = configManager.get<string>('ai.ollama.baseUrl');
-    const model = configManager.get<string>('ai.ollama.model');
     const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
+    const structured = structuredOutputEnabled();
+    const messages = [
+      { role: 'user', content: call.user },
+      { role: 'assistant', content: previous },
+      { role: 'user', content: buildRepairPrompt(errors) },
+    ];
 
-    const response = await axios.post(
-      `${baseUrl}/api/chat`,
+    return getAIUsageMeter().track(
       {
+        provider: 'ollama',
         model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        stream: false,
+        params: { format: 'json', repair: true, ...(structured ? { structured } : {}) },
+        system,
+        user: JSON.stringify(messages),
+        label: symbol,
+      },
+      'analysis',
+      async () => {
+        log.info({ symbol, model }, 'Calling Ollama API to repair decision');
+        const response = await axios.post(
+          `${baseUrl}/api/chat`,
+          {
+            model,
+            messages: [{ role: 'system', content: system }, ...messages],
+            stream: false,
+            format: decisionFormat(),
+          },
+          { timeout },
+        );
+        return toResponse(response.data);
       },
-      { timeout },
     );
+  }
 
-    return response.data.message.content;
+  async rawChat(system: string, user: string): Promise<string> {
+    const baseUrl = configManager.get<string>('ai.ollama.baseUrl');
+    const model = this.model ?? configManager.get<string>('ai.ollama.model');
+    const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
+
+    return getAIUsageMeter().track(
+      { provider: 'ollama', model, params: {}, system, user },
+      'chat',
+      async () => {
+        const response = await axios.post(
+          `${baseUrl}/api/chat`,
+          {
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user },
+            ],
+            stream: false,
+          },
+          { timeout },
+        );
+
+        return toResponse(response.data);
+      },
+    );
   }
 }
+
+/** Ollama takes a JSON schema as `format` to constrain the reply; plain JSON mode otherwise */
+function decisionFormat(): Record<string, unknown> | 'json' {
+  return structuredOutputEnabled() ? decisionJsonSchema() : 'json';
+}
+
+function toResponse(data: {
+  message: { content: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}): AIResponse {
+  return {
+    text: data.message.content,
+    inputTokens: data.prompt_eval_count ?? 0,
+    outputTokens: data.eval_count ?? 0,
+  };
+}
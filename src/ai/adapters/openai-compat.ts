@@ -2,75 +2,299 @@ import axios from 'axios';
 import { configManager } from '../../config/manager.js';
 import { createLogger } from '../../utils/logger.js';
 import type { AIAgent, AIContext, AIDecision } from '../agent.js';
-import { processAIDecision } from '../decision-processor.js';
-import { buildAnalysisPrompt } from '../prompt-builder.js';
+import { decisionJsonSchema } from '../decision-processor.js';
+import { buildAnalysisPrompt, buildRepairPrompt, buildToolGuidance } from '../prompt-builder.js';
+import { decideWithRepair, structuredOutputEnabled } from '../structured-output.js';
+import { ToolSession, toolInputSchema } from '../tools.js';
+import { type AIResponse, getAIUsageMeter } from '../usage.js';
 
 const log = createLogger('ai-openai-compat');
 
 export class OpenAICompatibleAdapter implements AIAgent {
+  /** @param model Overrides the configured model, e.g. for an ensemble member */
+  constructor(private readonly model?: string) {}
+
   async analyze(context: AIContext): Promise<AIDecision | null> {
+    if (configManager.get<boolean>('ai.tools.enabled')) return this.analyzeWithTools(context);
+
     const baseUrl = configManager.get<string>('ai.openaiCompat.baseUrl');
-    const model = configManager.get<string>('ai.openaiCompat.model');
+    const model = this.model ?? configManager.get<string>('ai.openaiCompat.model');
     const apiKey = configManager.get<string>('ai.openaiCompat.apiKey');
     const temperature = configManager.get<number>('ai.temperature');
     const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
+    const structured = structuredOutputEnabled();
 
     const { system, user } = buildAnalysisPrompt(context);
 
-    log.info({ symbol: context.symbol, model, baseUrl }, 'Calling OpenAI-compatible API');
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (apiKey) {
-      headers.Authorization = `Bearer ${apiKey}`;
-    }
-
-    const response = await axios.post(
-      `${baseUrl}/chat/completions`,
+    const text = await getAIUsageMeter().track(
       {
+        provider: 'openai-compatible',
         model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        temperature,
+        params: { temperature, ...(structured ? { structured } : {}) },
+        system,
+        user,
+        label: context.symbol,
       },
-      { headers, timeout },
-    );
+      'analysis',
+      async () => {
+        log.info({ symbol: context.symbol, model, baseUrl }, 'Calling OpenAI-compatible API');
+
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+        };
+        if (apiKey) {
+          headers.Authorization = `Bearer ${apiKey}`;
+        }
 
-    const text: string = response.data.choices[0].message.content;
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          {
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user },
+            ],
+            temperature,
+            ...(structured ? { response_format: decisionResponseFormat() } : {}),
+          },
+          { headers, timeout },
+        );
+
+        return toResponse(response.data);
+      },
+    );
 
     log.debug(
       { symbol: context.symbol, responseLength: text.length },
       'OpenAI-compatible response received',
     );
 
-    return processAIDecision(text);
+    return decideWithRepair(model, text, (previous, errors) =>
+      this.repair({ model, system, user, symbol: context.symbol }, previous, errors),
+    );
   }
 
-  async rawChat(system: string, user: string): Promise<string> {
+  /**
+   * Agentic analysis over function calling: the model may call tools for
+   * more data before it decides. After `ai.tools.maxRounds` rounds, or once
+   * the call cap is hit, tool choice is set to none and the model has to answer,
+   * constrained to the decision schema when structured output is on.
+   */
+  private async analyzeWithTools(context: AIContext): Promise<AIDecision | null> {
     const baseUrl = configManager.get<string>('ai.openaiCompat.baseUrl');
-    const model = configManager.get<string>('ai.openaiCompat.model');
+    const model = this.model ?? configManager.get<string>('ai.openaiCompat.model');
     const apiKey = configManager.get<string>('ai.openaiCompat.apiKey');
+    const temperature = configManager.get<number>('ai.temperature');
     const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
+    const maxRounds = configManager.get<number>('ai.tools.maxRounds') ?? 3;
+    const structured = structuredOutputEnabled();
 
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
     if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
-    const response = await axios.post(
-      `${baseUrl}/chat/completions`,
+    const session = new ToolSession();
+    const prompt = buildAnalysisPrompt(context);
+    const system = prompt.system + buildToolGuidance(session.maxCalls);
+    const tools = session.tools.map((t) => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: toolInputSchema(t) },
+    }));
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt.user }];
+
+    for (let round = 1; ; round++) {
+      const final = round > maxRounds || session.exhausted;
+      const text = await getAIUsageMeter().track(
+        {
+          provider: 'openai-compatible',
+          model,
+          params: {
+            temperature,
+            tools: session.tools.map((t) => t.name),
+            final,
+            ...(structured ? { structured } : {}),
+          },
+          system,
+          user: JSON.stringify(messages),
+          label: context.symbol,
+        },
+        'analysis',
+        async () => {
+          log.info(
+            { symbol: context.symbol, model, baseUrl, round },
+            'Calling OpenAI-compatible API with tools',
+          );
+          const response = await axios.post(
+            `${baseUrl}/chat/completions`,
+            {
+              model,
+              messages: [{ role: 'system', content: system }, ...messages],
+              temperature,
+              tools,
+              tool_choice: final ? 'none' : 'auto',
+              ...(final && structured ? { response_format: decisionResponseFormat() } : {}),
+            },
+            { headers, timeout },
+          );
+          // The whole message is kept so a replayed round yields the same tool calls
+          return {
+            ...toResponse(response.data),
+            text: JSON.stringify(response.data.choices[0].message),
+          };
+        },
+      );
+
+      const message = JSON.parse(text) as ChatMessage;
+      const calls = message.tool_calls ?? [];
+      if (final || calls.length === 0) {
+        log.debug(
+          { symbol: context.symbol, rounds: round, toolCalls: session.trace.length },
+          'OpenAI-compatible tool loop finished',
+        );
+        const decision = await decideWithRepair(model, message.content ?? '', (previous, errors) =>
+          this.repair(
+            { model, system, user: prompt.user, symbol: context.symbol },
+            previous,
+            errors,
+          ),
+        );
+        return decision && { ...decision, toolTrace: session.trace };
+      }
+
+      messages.push(message);
+      const results = await session.execute(
+        round,
+        calls.map((c) => ({ id: c.id, name: c.function.name, input: parseArguments(c) })),
+      );
+      for (const r of results) {
+        messages.push({ role: 'tool', tool_call_id: r.id, content: r.content });
+      }
+    }
+  }
+
+  /** Send a decision that failed validation back with its errors; the retry is metered like any call. */
+  private repair(
+    call: { model: string; system: string; user: string; symbol: string },
+    previous: string,
+    errors: string[],
+  ): Promise<string> {
+    const { model, system, symbol } = call;
+    const baseUrl = configManager.get<string>('ai.openaiCompat.baseUrl');
+    const apiKey = configManager.get<string>('ai.openaiCompat.apiKey');
+    const temperature = configManager.get<number>('ai.temperature');
+    const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
+    const structured = structuredOutputEnabled();
+    const messages: ChatMessage[] = [
+      { role: 'user', content: call.user },
+      { role: 'assistant', content: previous },
+      { role: 'user', content: buildRepairPrompt(errors) },
+    ];
+
+    return getAIUsageMeter().track(
       {
+        provider: 'openai-compatible',
         model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        temperature: configManager.get<number>('ai.temperature'),
+        params: { temperature, repair: true, ...(structured ? { structured } : {}) },
+        system,
+        user: JSON.stringify(messages),
+        label: symbol,
+      },
+      'analysis',
+      async () => {
+        log.info({ symbol, model }, 'Calling OpenAI-compatible API to repair decision');
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          {
+            model,
+            messages: [{ role: 'system', content: system }, ...messages],
+            temperature,
+            ...(structured ? { response_format: decisionResponseFormat() } : {}),
+          },
+          { headers, timeout },
+        );
+        return toResponse(response.data);
       },
-      { headers, timeout },
     );
+  }
+
+  async rawChat(system: string, user: string): Promise<string> {
+    const baseUrl = configManager.get<string>('ai.openaiCompat.baseUrl');
+    const model = this.model ?? configManager.get<string>('ai.openaiCompat.model');
+    const apiKey = configManager.get<string>('ai.openaiCompat.apiKey');
+    const temperature = configManager.get<number>('ai.temperature');
+    const timeout = configManager.get<number>('ai.timeoutSeconds') * 1000;
 
-    return response.data.choices[0].message.content;
+    return getAIUsageMeter().track(
+      {
+        provider: 'openai-compatible',
+        model,
+        params: { temperature },
+        system,
+        user,
+      },
+      'chat',
+      async () => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          {
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user },
+            ],
+            temperature,
+          },
+          { headers, timeout },
+        );
+
+        return toResponse(response.data);
+      },
+    );
+  }
+}
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+/** Constrains the reply to the decision schema on servers that support JSON schema output */
+function decisionResponseFormat() {
+  return {
+    type: 'json_schema',
+    json_schema: { name: 'trading_decision', strict: true, schema: decisionJsonSchema() },
+  };
+}
+
+/** Arguments arrive as a JSON string; anything unparseable is left for the tool's validation to reject */
+function parseArguments(call: ChatToolCall): unknown {
+  try {
+    return JSON.parse(call.function.arguments || '{}');
+  } catch {
+    return call.function.arguments;
   }
 }
+
+function toResponse(data: {
+  choices: Array<{ message: { content: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}): AIResponse {
+  return {
+    text: data.choices[0].message.content,
+    inputTokens: data.usage?.prompt_tokens ?? 0,
+    outputTokens: data.usage?.completion_tokens ?? 0,
+  };
+}
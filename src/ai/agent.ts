@@ -3,6 +3,8 @@ import { createLogger } from '../utils/logger.js';
 import { AnthropicAdapter } from './adapters/anthropic.js';
 import { OllamaAdapter } from './adapters/ollama.js';
 import { OpenAICompatibleAdapter } from './adapters/openai-compat.js';
+import { EnsembleAgent, type EnsembleVerdict } from './ensemble.js';
+import type { ToolCallRecord } from './tools.js';
 
 const log = createLogger('ai-agent');
 
@@ -84,6 +86,7 @@ export interface AIContext {
       pnlPct: number;
       entryPrice: number;
       currentPrice: number;
+      direction?: 'LONG' | 'SHORT';
     }>;
   };
   marketContext: {
@@ -98,6 +101,8 @@ export interface AIContext {
     minStopLossPct: number;
     maxRiskPerTradePct: number;
     dailyLossLimitPct: number;
+    /** A SELL on a symbol not held opens a short; a BUY on a held short covers it */
+    shortSellingAllowed?: boolean;
   };
   correlationWarnings?: string[];
   portfolioCorrelations?: Array<{
@@ -130,6 +135,10 @@ export interface AIDecision {
   suggestedTakeProfitPct: number;
   urgency: 'immediate' | 'wait_for_dip' | 'no_rush';
   exitConditions: string;
+  /** Set when the decision was voted on by several models */
+  ensemble?: EnsembleVerdict;
+  /** Tool calls the model made before deciding, in agentic mode */
+  toolTrace?: ToolCallRecord[];
 }
 
 export interface AIAgent {
@@ -137,9 +146,9 @@ export interface AIAgent {
   rawChat(system: string, user: string): Promise<string>;
 }
 
-/** Resolve the actual model name based on the active AI provider */
-export function getActiveModelName(): string {
-  const provider = configManager.get<string>('ai.provider');
+/** Model name a provider runs, honouring an explicit override */
+export function modelNameFor(provider: string, model?: string): string {
+  if (model) return model;
   switch (provider) {
     case 'ollama':
       return configManager.get<string>('ai.ollama.model');
@@ -150,15 +159,37 @@ export function getActiveModelName(): string {
   }
 }
 
-export function createAIAgent(): AIAgent {
+/** Resolve the actual model name based on the active AI provider */
+export function getActiveModelName(): string {
   const provider = configManager.get<string>('ai.provider');
-  log.info({ provider }, 'Creating AI agent');
+  return provider === 'ensemble' ? 'ensemble' : modelNameFor(provider);
+}
+
+/** A single-model agent for a provider, optionally overriding its configured model */
+export function createProviderAgent(provider: string, model?: string): AIAgent {
   switch (provider) {
     case 'ollama':
-      return new OllamaAdapter();
+      return new OllamaAdapter(model);
     case 'openai-compatible':
-      return new OpenAICompatibleAdapter();
+      return new OpenAICompatibleAdapter(model);
     default:
-      return new AnthropicAdapter();
+      return new AnthropicAdapter(model);
+  }
+}
+
+export function createAIAgent(): AIAgent {
+  const provider = configManager.get<string>('ai.provider');
+  log.info({ provider }, 'Creating AI agent');
+  if (provider === 'ensemble') {
+    const members = (
+      configManager.get<Array<{ provider: string; model?: string }>>('ai.ensemble.members') ?? []
+    ).map((m) => ({
+      provider: m.provider,
+      model: modelNameFor(m.provider, m.model),
+      agent: createProviderAgent(m.provider, m.model),
+    }));
+    log.info({ members: members.map((m) => `${m.provider}:${m.model}`) }, 'Ensemble members');
+    return new EnsembleAgent(members);
   }
+  return createProviderAgent(provider);
 }
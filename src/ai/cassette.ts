@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto';
+import { configManager } from '../config/manager.js';
+import {
+  getCassetteCounts,
+  getCassetteEntry,
+  getLatestCassetteEntryFor,
+  markCassetteReplayed,
+  recordCassetteEntry,
+} from '../db/repositories/ai-cassette.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('ai-cassette');
+
+/** Misses kept for the status endpoint */
+const MAX_RECENT_MISSES = 50;
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/** One model call as the adapters make it. */
+export interface AICall {
+  provider: string;
+  model: string;
+  /** Everything besides the prompt that shapes the response: temperature, max tokens, format */
+  params: Record<string, unknown>;
+  system: string;
+  user: string;
+  /** What the call is about, e.g. the analysed symbol; lets a miss tell a changed prompt from a new one */
+  label?: string;
+}
+
+export interface CassetteMiss {
+  at: string;
+  provider: string;
+  model: string;
+  label: string | null;
+  promptHash: string;
+  /**
+   * `prompt_changed`: the subject was recorded with a different prompt;
+   * `params_changed`: same prompt, different model parameters;
+   * `new`: nothing recorded for the subject.
+   */
+  reason: 'new' | 'prompt_changed' | 'params_changed';
+  previousPromptHash: string | null;
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly miss: CassetteMiss) {
+    super(
+      `No recorded AI response for ${miss.provider}/${miss.model}` +
+        `${miss.label ? ` (${miss.label})` : ''}: ${miss.reason.replace('_', ' ')}`,
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function promptHash(call: Pick<AICall, 'system' | 'user'>): string {
+  return sha256(JSON.stringify([call.system, call.user]));
+}
+
+/** Identity of a call: provider, model, parameters (in key order) and prompt. */
+export function cassetteKey(call: AICall): string {
+  const params = Object.entries(call.params)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return sha256(JSON.stringify([call.provider, call.model, params, call.system, call.user]));
+}
+
+/**
+ * Record/replay layer for model calls. In `record` mode every response is
+ * stored under a hash of the call; in `replay` mode stored responses are
+ * returned without touching the network, so analyses and research runs
+ * reproduce byte for byte. A replay miss means the call no longer matches
+ * any recording — usually a prompt change that could alter decisions — and
+ * is logged and kept for the status endpoint before either failing the
+ * call or, with `ai.cassette.onMiss = live`, going live and recording it.
+ */
+export class AICassette {
+  private hits = 0;
+  private recorded = 0;
+  private missCount = 0;
+  private recentMisses: CassetteMiss[] = [];
+
+  getMode(): CassetteMode {
+    const mode = configManager.get<string>('ai.cassette.mode');
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  async run(call: AICall, send: () => Promise<string>): Promise<string> {
+    const mode = this.getMode();
+    if (mode === 'off') return send();
+
+    const key = cassetteKey(call);
+    if (mode === 'replay') {
+      const entry = getCassetteEntry(key);
+      if (entry) {
+        markCassetteReplayed(entry.id);
+        this.hits++;
+        log.debug({ model: call.model, label: call.label }, 'Replayed AI response');
+        return entry.response;
+      }
+
+      const miss = this.recordMiss(call);
+      if (configManager.get<string>('ai.cassette.onMiss') !== 'live') {
+        throw new CassetteMissError(miss);
+      }
+    }
+
+    const response = await send();
+    recordCassetteEntry({
+      key,
+      promptHash: promptHash(call),
+      provider: call.provider,
+      model: call.model,
+      params: call.params,
+      label: call.label,
+      response,
+    });
+    this.recorded++;
+    return response;
+  }
+
+  getStatus() {
+    return {
+      mode: this.getMode(),
+      hits: this.hits,
+      misses: this.missCount,
+      recorded: this.recorded,
+      recentMisses: [...this.recentMisses].reverse(),
+      recordings: getCassetteCounts(),
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.recorded = 0;
+    this.missCount = 0;
+    this.recentMisses = [];
+  }
+
+  private recordMiss(call: AICall): CassetteMiss {
+    const hash = promptHash(call);
+    const previous = call.label ? getLatestCassetteEntryFor(call.label, call.model) : undefined;
+    const miss: CassetteMiss = {
+      at: new Date().toISOString(),
+      provider: call.provider,
+      model: call.model,
+      label: call.label ?? null,
+      promptHash: hash,
+      reason: !previous
+        ? 'new'
+        : previous.promptHash === hash
+          ? 'params_changed'
+          : 'prompt_changed',
+      previousPromptHash: previous?.promptHash ?? null,
+    };
+
+    this.missCount++;
+    this.recentMisses.push(miss);
+    if (this.recentMisses.length > MAX_RECENT_MISSES) this.recentMisses.shift();
+    log.warn(
+      { model: call.model, label: call.label, reason: miss.reason, promptHash: hash.slice(0, 12) },
+      'AI cassette miss',
+    );
+    return miss;
+  }
+}
+
+let instance: AICassette | null = null;
+
+export function getAICassette(): AICassette {
+  if (!instance) instance = new AICassette();
+  return instance;
+}
@@ -33,6 +33,25 @@ function extractJson(raw: string): string {
   return text.trim();
 }
 
+/** JSON schema of a decision, for providers that can constrain their output to one */
+export function decisionJsonSchema(): Record<string, unknown> {
+  const { $schema: _, ...schema } = z.toJSONSchema(aiDecisionSchema);
+  return { ...schema, additionalProperties: false };
+}
+
+/** Why a response is not a valid decision, one line per problem; empty when it is. */
+export function decisionErrors(rawText: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(rawText));
+  } catch (err) {
+    return [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`];
+  }
+  const result = aiDecisionSchema.safeParse(parsed);
+  if (result.success) return [];
+  return result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+}
+
 export function processAIDecision(rawText: string): AIDecision | null {
   try {
     const jsonStr = extractJson(rawText);
@@ -56,10 +75,7 @@ export function processAIDecision(rawText: string): AIDecision | null {
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    log.error(
-      { err: message, rawText: rawText.slice(0, 500) },
-      'Failed to parse AI decision — returning null (no trade)',
-    );
+    log.error({ err: message, rawText: rawText.slice(0, 500) }, 'Failed to parse AI decision');
     return null;
   }
 }
@@ -0,0 +1,218 @@
+import { configManager } from '../config/manager.js';
+import { getHealthMetrics } from '../monitoring/health-metrics.js';
+import { type ModelStats, ModelTracker } from '../monitoring/model-tracker.js';
+import { createLogger } from '../utils/logger.js';
+import type { AIAgent, AIContext, AIDecision } from './agent.js';
+
+const log = createLogger('ai-ensemble');
+
+export type EnsembleStrategy = 'majority' | 'conviction' | 'accuracy';
+
+/** Weight of a model with too little history for its accuracy to mean anything */
+const DEFAULT_ACCURACY_WEIGHT = 0.5;
+const MIN_ACCURACY_SAMPLES = 10;
+/** Keeps a model that has been wrong so far from being silenced outright */
+const MIN_ACCURACY_WEIGHT = 0.05;
+
+const DIRECTION: Record<AIDecision['decision'], number> = { BUY: 1, SELL: -1, HOLD: 0 };
+
+export interface EnsembleMember {
+  provider: string;
+  model: string;
+  agent: AIAgent;
+}
+
+/** One member's answer to the shared context; `decision` is null when it failed or was unparseable */
+export interface MemberVote {
+  provider: string;
+  model: string;
+  decision: AIDecision | null;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface EnsembleVerdict {
+  strategy: EnsembleStrategy;
+  /** Share of the voting weight that went against the final decision, 0 (unanimous) to 1 */
+  disagreement: number;
+  votes: MemberVote[];
+}
+
+/** Voting weight per model from its tracked accuracy. */
+export function accuracyWeights(stats: ModelStats[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const s of stats) {
+    if (s.totalPredictions < MIN_ACCURACY_SAMPLES) continue;
+    weights[s.model] = Math.max(MIN_ACCURACY_WEIGHT, s.accuracy);
+  }
+  return weights;
+}
+
+/**
+ * Combine member decisions into one.
+ *
+ * - `majority`: most votes wins, a tie is a HOLD; conviction is the mean of the winning side.
+ * - `conviction`: BUY and SELL convictions pull against each other and HOLDs dilute them;
+ *   the sign of the average picks the side and its size is the conviction.
+ * - `accuracy`: like majority, with each vote weighted by the model's tracked accuracy.
+ */
+export function combineDecisions(
+  votes: MemberVote[],
+  strategy: EnsembleStrategy,
+  weights: Record<string, number> = {},
+): { decision: AIDecision; disagreement: number } | null {
+  const valid = votes.filter((v): v is MemberVote & { decision: AIDecision } => !!v.decision);
+  if (valid.length === 0) return null;
+
+  const weightOf = (vote: MemberVote) =>
+    strategy === 'accuracy' ? (weights[vote.model] ?? DEFAULT_ACCURACY_WEIGHT) : 1;
+  const totalWeight = valid.reduce((sum, v) => sum + weightOf(v), 0);
+  const weightedMean = (items: typeof valid, value: (d: AIDecision) => number) => {
+    const weight = items.reduce((sum, v) => sum + weightOf(v), 0);
+    return items.reduce((sum, v) => sum + weightOf(v) * value(v.decision), 0) / weight;
+  };
+
+  let side: AIDecision['decision'];
+  let conviction: number;
+  if (strategy === 'conviction') {
+    const score = weightedMean(valid, (d) => DIRECTION[d.decision] * d.conviction);
+    side = score > 0 ? 'BUY' : score < 0 ? 'SELL' : 'HOLD';
+    conviction = Math.abs(score);
+  } else {
+    const tally = new Map<AIDecision['decision'], number>();
+    for (const v of valid) {
+      tally.set(v.decision.decision, (tally.get(v.decision.decision) ?? 0) + weightOf(v));
+    }
+    const ranked = [...tally].sort((a, b) => b[1] - a[1]);
+    side = ranked.length > 1 && ranked[0][1] === ranked[1][1] ? 'HOLD' : ranked[0][0];
+    const winners = valid.filter((v) => v.decision.decision === side);
+    conviction = winners.length > 0 ? weightedMean(winners, (d) => d.conviction) : 0;
+  }
+
+  const agreeing = valid.filter((v) => v.decision.decision === side);
+  const agreeingWeight = agreeing.reduce((sum, v) => sum + weightOf(v), 0);
+  // Sizing and exits come from the members that back the decision
+  const basis = agreeing.length > 0 ? agreeing : valid;
+  const lead = [...basis].sort((a, b) => b.decision.conviction - a.decision.conviction)[0];
+
+  const reasoning = [
+    `Ensemble (${strategy}): ${side} — ${agreeing.length}/${valid.length} members agree`,
+    ...valid.map(
+      (v) =>
+        `[${v.model}] ${v.decision.decision} (${v.decision.conviction}): ${v.decision.reasoning}`,
+    ),
+  ].join('\n');
+
+  return {
+    decision: {
+      decision: side,
+      conviction: Math.round(conviction * 100) / 100,
+      reasoning,
+      risks: [...new Set(valid.flatMap((v) => v.decision.risks))],
+      suggestedStopLossPct: weightedMean(basis, (d) => d.suggestedStopLossPct),
+      suggestedPositionSizePct: weightedMean(basis, (d) => d.suggestedPositionSizePct),
+      suggestedTakeProfitPct: weightedMean(basis, (d) => d.suggestedTakeProfitPct),
+      urgency: lead.decision.urgency,
+      exitConditions: lead.decision.exitConditions,
+    },
+    disagreement: Math.round((1 - agreeingWeight / totalWeight) * 1000) / 1000,
+  };
+}
+
+/**
+ * Sends the same context to several models in parallel and votes on
+ * their answers. Every member's own decision travels with the result in
+ * `decision.ensemble` so it can be stored and scored alongside the
+ * combined one.
+ */
+export class EnsembleAgent implements AIAgent {
+  constructor(
+    private members: EnsembleMember[],
+    private loadModelStats: () => ModelStats[] = () => new ModelTracker().getModelStats(),
+  ) {}
+
+  async analyze(context: AIContext): Promise<AIDecision | null> {
+    const strategy = configManager.get<EnsembleStrategy>('ai.ensemble.strategy') ?? 'majority';
+    const minResponses = configManager.get<number>('ai.ensemble.minResponses') ?? 1;
+    const maxDisagreement = configManager.get<number>('ai.ensemble.maxDisagreement') ?? 1;
+
+    log.info(
+      { symbol: context.symbol, strategy, members: this.members.map((m) => m.model) },
+      'Polling ensemble',
+    );
+    const votes = await Promise.all(this.members.map((member) => this.poll(member, context)));
+
+    const answered = votes.filter((v) => v.decision).length;
+    if (answered < minResponses) {
+      log.warn({ symbol: context.symbol, answered, minResponses }, 'Ensemble quorum not reached');
+      return null;
+    }
+
+    const combined = combineDecisions(votes, strategy, this.weightsFor(strategy));
+    if (!combined) return null;
+    const { decision, disagreement } = combined;
+
+    if (decision.decision !== 'HOLD' && disagreement > maxDisagreement) {
+      log.info(
+        { symbol: context.symbol, decision: decision.decision, disagreement, maxDisagreement },
+        'Ensemble too divided — holding',
+      );
+      decision.reasoning = `Held: disagreement ${disagreement} above ${maxDisagreement}\n${decision.reasoning}`;
+      decision.decision = 'HOLD';
+    }
+
+    log.info(
+      {
+        symbol: context.symbol,
+        decision: decision.decision,
+        conviction: decision.conviction,
+        disagreement,
+      },
+      'Ensemble decision',
+    );
+    return { ...decision, ensemble: { strategy, disagreement, votes } };
+  }
+
+  /** Free-form chat goes to the first member that answers. */
+  async rawChat(system: string, user: string): Promise<string> {
+    let lastError: unknown = new Error('Ensemble has no members');
+    for (const member of this.members) {
+      try {
+        return await member.agent.rawChat(system, user);
+      } catch (err) {
+        log.warn({ model: member.model, err }, 'Ensemble member chat failed — trying next');
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  private async poll(member: EnsembleMember, context: AIContext): Promise<MemberVote> {
+    const started = Date.now();
+    const vote = { provider: member.provider, model: member.model };
+    if (getHealthMetrics().isModelQuarantined(member.model)) {
+      return { ...vote, decision: null, error: 'quarantined', latencyMs: 0 };
+    }
+    try {
+      const decision = await member.agent.analyze(context);
+      return { ...vote, decision, latencyMs: Date.now() - started };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      log.warn(
+        { symbol: context.symbol, model: member.model, err: error },
+        'Ensemble member failed',
+      );
+      return { ...vote, decision: null, error, latencyMs: Date.now() - started };
+    }
+  }
+
+  private weightsFor(strategy: EnsembleStrategy): Record<string, number> {
+    if (strategy !== 'accuracy') return {};
+    try {
+      return accuracyWeights(this.loadModelStats());
+    } catch (err) {
+      log.warn({ err }, 'Model accuracy unavailable — weighting members equally');
+      return {};
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { getDb } from '../db/index.js';
 import { aiResearch } from '../db/schema.js';
 import { createLogger } from '../utils/logger.js';
 import type { AIAgent } from './agent.js';
+import { runAIJob } from './usage.js';
 
 const log = createLogger('market-research');
 
@@ -137,7 +138,9 @@ export class MarketResearcher {
       const systemPrompt =
         'You are a market research analyst. Respond ONLY with valid JSON matching the schema provided. No additional text, explanations, or markdown outside the JSON.';
 
-      const rawResponse = await this.aiAgent.rawChat(systemPrompt, prompt);
+      const rawResponse = await runAIJob('research', () =>
+        this.aiAgent.rawChat(systemPrompt, prompt),
+      );
 
       // Parse AI response
       const results = this.parseResearchResponse(rawResponse, options?.symbols);
@@ -119,7 +119,7 @@ Respond ONLY with valid JSON matching the exact schema provided. No additional t
   const positions = p.existingPositions
     .map(
       (pos) =>
-        `  - ${pos.symbol}: entry $${fmt(pos.entryPrice)} → $${fmt(pos.currentPrice)} (${pos.pnlPct >= 0 ? '+' : ''}${fmtPct(pos.pnlPct)})`,
+        `  - ${pos.symbol}${pos.direction === 'SHORT' ? ' (SHORT)' : ''}: entry $${fmt(pos.entryPrice)} → $${fmt(pos.currentPrice)} (${pos.pnlPct >= 0 ? '+' : ''}${fmtPct(pos.pnlPct)})`,
     )
     .join('\n');
 
@@ -242,7 +242,11 @@ RISK CONSTRAINTS:
 - Max Position Size: ${fmtPct(r.maxPositionSizePct)} of portfolio
 - Stop-Loss Range: ${fmtPct(r.minStopLossPct)} to ${fmtPct(r.maxStopLossPct)}
 - Max Risk Per Trade: ${fmtPct(r.maxRiskPerTradePct)} of portfolio
-- Daily Loss Limit: ${fmtPct(r.dailyLossLimitPct)} of portfolio
+- Daily Loss Limit: ${fmtPct(r.dailyLossLimitPct)} of portfolio${
+    r.shortSellingAllowed
+      ? '\n- Short Selling: allowed. SELL on a symbol not held opens a short (stop-loss above, take-profit below the entry); BUY on a held short covers it. Shorts pay daily borrow and overnight fees.'
+      : ''
+  }
 
 Respond with JSON:
 {
@@ -259,3 +263,19 @@ Respond with JSON:
 
   return { system, user };
 }
+
+/** Appended to the analysis system prompt when the model may call tools. */
+export function buildToolGuidance(maxCalls: number): string {
+  return `
+
+TOOLS:
+You can call the provided tools for data the context above lacks: another candle timeframe, recent news, peer fundamentals, correlation with current holdings, or journal notes on this symbol. You have at most ${maxCalls} tool calls in total; only make one when the answer could change your decision. Once you have enough, stop calling tools and respond with the JSON decision alone.`;
+}
+
+/** Follow-up asking the model to fix a decision that failed validation. */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response was not a valid decision:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Respond again with the corrected decision as a single JSON object matching the schema exactly. No text outside the JSON.`;
+}
@@ -29,6 +29,12 @@ export interface ModelComparison {
     sampleSize: number;
     bestDecision: string;
   }>;
+  /** Accuracy on inputs that several models answered, e.g. ensemble members on one signal */
+  headToHead: Array<{
+    model: string;
+    accuracy: number;
+    sampleSize: number;
+  }>;
   recommendation: string;
 }
 
@@ -467,7 +473,7 @@ export class AISelfImprovement {
   async compareModels(): Promise<ModelComparison> {
     const enabled = configManager.get<boolean>('aiSelfImprovement.enabled');
     if (!enabled) {
-      return { models: [], recommendation: 'AI self-improvement is disabled' };
+      return { models: [], headToHead: [], recommendation: 'AI self-improvement is disabled' };
     }
 
     const feedbackWindow = configManager.get<number>('aiSelfImprovement.feedbackWindow');
@@ -560,7 +566,31 @@ export class AISelfImprovement {
       }
     }
 
-    return { models, recommendation };
+    return { models, headToHead: this.compareOnSharedInputs(predictions), recommendation };
+  }
+
+  /** Accuracy per model, counting only inputs at least two models were asked about */
+  private compareOnSharedInputs(predictions: PredictionRecord[]): ModelComparison['headToHead'] {
+    const byInput = new Map<string, PredictionRecord[]>();
+    for (const pred of predictions) {
+      const key = `${pred.symbol}|${pred.signalTimestamp}`;
+      byInput.set(key, [...(byInput.get(key) ?? []), pred]);
+    }
+
+    const tally = new Map<string, { correct: number; total: number }>();
+    for (const preds of byInput.values()) {
+      if (new Set(preds.map((p) => p.aiModel)).size < 2) continue;
+      for (const pred of preds) {
+        const t = tally.get(pred.aiModel) ?? { correct: 0, total: 0 };
+        t.total++;
+        if (pred.actualOutcome === 'correct') t.correct++;
+        tally.set(pred.aiModel, t);
+      }
+    }
+
+    return [...tally]
+      .map(([model, t]) => ({ model, accuracy: t.correct / t.total, sampleSize: t.total }))
+      .sort((a, b) => b.accuracy - a.accuracy);
   }
 
   /**
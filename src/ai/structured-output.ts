@@ -0,0 +1,50 @@
+import { configManager } from '../config/manager.js';
+import { getHealthMetrics } from '../monitoring/health-metrics.js';
+import { createLogger } from '../utils/logger.js';
+import type { AIDecision } from './agent.js';
+import { decisionErrors, processAIDecision } from './decision-processor.js';
+
+const log = createLogger('ai-structured');
+
+/** Name of the tool Anthropic models are forced to answer through */
+export const DECISION_TOOL_NAME = 'submit_decision';
+
+/** Whether adapters should ask providers for schema-constrained output */
+export function structuredOutputEnabled(): boolean {
+  return configManager.get<boolean>('ai.structuredOutput.enabled') === true;
+}
+
+/**
+ * Validate a model's decision, sending the validation errors back through
+ * `repair` up to `ai.structuredOutput.maxRepairs` times when it does not
+ * parse. The outcome counts towards the model's parse health, which
+ * quarantines models that keep failing.
+ */
+export async function decideWithRepair(
+  model: string,
+  text: string,
+  repair: (previous: string, errors: string[]) => Promise<string>,
+): Promise<AIDecision | null> {
+  const maxRepairs = configManager.get<number>('ai.structuredOutput.maxRepairs') ?? 1;
+
+  let decision = processAIDecision(text);
+  let attempts = 0;
+  while (!decision && attempts < maxRepairs) {
+    attempts++;
+    const errors = decisionErrors(text);
+    log.info({ model, attempt: attempts, errors }, 'Asking model to repair its decision');
+    text = await repair(text, errors);
+    decision = processAIDecision(text);
+  }
+
+  getHealthMetrics().recordModelParse(
+    model,
+    { success: decision !== null, repaired: attempts > 0 },
+    {
+      failureRate: configManager.get<number>('ai.quarantine.failureRate') ?? 0.5,
+      minSamples: configManager.get<number>('ai.quarantine.minSamples') ?? 10,
+      durationMs: (configManager.get<number>('ai.quarantine.minutes') ?? 60) * 60_000,
+    },
+  );
+  return decision;
+}
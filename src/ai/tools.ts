@@ -0,0 +1,277 @@
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { z } from 'zod';
+import { CorrelationAnalyzer } from '../analysis/correlation.js';
+import { createMultiTimeframeAnalyzer } from '../analysis/multi-timeframe.js';
+import { configManager } from '../config/manager.js';
+import { CANDLE_TIMEFRAMES, getCandleStore } from '../data/candle-store.js';
+import { getDb } from '../db/index.js';
+import { getEntriesForSymbol } from '../db/repositories/journal.js';
+import { fundamentalCache, newsCache } from '../db/schema.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('ai-tools');
+
+/** Longest tool result handed back to the model, in characters */
+const MAX_RESULT_CHARS = 4000;
+/** Trace entries keep this much of each result; the model saw the full one */
+const MAX_TRACE_OUTPUT_CHARS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BAR_MINUTES: Record<(typeof CANDLE_TIMEFRAMES)[number], number> = {
+  '1d': 1440,
+  '1h': 60,
+  '15m': 15,
+  '5m': 5,
+  '1m': 1,
+};
+
+/** Data the model can ask for during an analysis. */
+export interface AITool {
+  name: string;
+  description: string;
+  input: z.ZodType;
+  run(input: never): unknown | Promise<unknown>;
+}
+
+/** A tool call as the model made it; `input` is unvalidated */
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface ToolResult {
+  id: string;
+  content: string;
+  isError: boolean;
+}
+
+/** One executed tool call, stored with the signal */
+export interface ToolCallRecord {
+  round: number;
+  name: string;
+  input: unknown;
+  output: string;
+  error?: string;
+  latencyMs: number;
+}
+
+function defineTool<T extends z.ZodType>(tool: {
+  name: string;
+  description: string;
+  input: T;
+  run(input: z.infer<T>): unknown | Promise<unknown>;
+}): AITool {
+  return tool;
+}
+
+const symbolInput = z.string().min(1).max(20).describe('Ticker symbol, e.g. AAPL');
+
+export const AI_TOOLS: AITool[] = [
+  defineTool({
+    name: 'get_timeframe_analysis',
+    description:
+      'Technical score (0-100) and signal for a symbol on another candle timeframe, with the price range and the latest bars.',
+    input: z.object({
+      symbol: symbolInput,
+      timeframe: z.enum(CANDLE_TIMEFRAMES),
+      bars: z.number().int().min(10).max(300).default(100).describe('Bars to analyse'),
+    }),
+    async run({ symbol, timeframe, bars }) {
+      const store = getCandleStore();
+      // Markets are shut most of the clock, so look back well past bars × bar length
+      const lookbackMs =
+        timeframe === '1d'
+          ? bars * 1.5 * DAY_MS
+          : bars * BAR_MINUTES[timeframe] * 4 * 60_000 + 4 * DAY_MS;
+      const from = new Date(Date.now() - lookbackMs).toISOString();
+      const candles = (
+        timeframe === '1d'
+          ? await store.load(symbol, from.slice(0, 10), new Date().toISOString().slice(0, 10))
+          : store.getCandles(symbol, from, undefined, { timeframe })
+      ).slice(-bars);
+      if (candles.length === 0) return { symbol, timeframe, error: 'No candles stored' };
+
+      const first = candles[0];
+      const last = candles[candles.length - 1];
+      return {
+        symbol,
+        ...createMultiTimeframeAnalyzer().scoreTimeframe(timeframe, candles),
+        from: first.date,
+        to: last.date,
+        lastClose: last.close,
+        changePct: round(((last.close - first.close) / first.close) * 100),
+        high: Math.max(...candles.map((c) => c.high)),
+        low: Math.min(...candles.map((c) => c.low)),
+        recentBars: candles.slice(-5),
+      };
+    },
+  }),
+  defineTool({
+    name: 'get_recent_news',
+    description: 'Latest cached news headlines for a symbol with their sentiment scores (-1 to 1).',
+    input: z.object({ symbol: symbolInput, limit: z.number().int().min(1).max(20).default(10) }),
+    run({ symbol, limit }) {
+      return getDb()
+        .select({
+          title: newsCache.title,
+          source: newsCache.source,
+          publishedAt: newsCache.publishedAt,
+          sentiment: newsCache.sentimentScore,
+        })
+        .from(newsCache)
+        .where(eq(newsCache.symbol, symbol))
+        .orderBy(desc(newsCache.publishedAt))
+        .limit(limit)
+        .all();
+    },
+  }),
+  defineTool({
+    name: 'get_peer_fundamentals',
+    description:
+      'Valuation and quality metrics for other cached stocks in the same sector, for relative comparison.',
+    input: z.object({ symbol: symbolInput, limit: z.number().int().min(1).max(15).default(8) }),
+    run({ symbol, limit }) {
+      const db = getDb();
+      const own = db
+        .select()
+        .from(fundamentalCache)
+        .where(eq(fundamentalCache.symbol, symbol))
+        .orderBy(desc(fundamentalCache.fetchedAt))
+        .get();
+      if (!own?.sector) return { symbol, error: 'Sector unknown — no cached fundamentals' };
+
+      const rows = db
+        .select()
+        .from(fundamentalCache)
+        .where(and(eq(fundamentalCache.sector, own.sector), ne(fundamentalCache.symbol, symbol)))
+        .orderBy(desc(fundamentalCache.fetchedAt))
+        .all();
+      // Latest row per peer
+      const peers = [...new Map(rows.reverse().map((r) => [r.symbol, r])).values()]
+        .sort((a, b) => (b.marketCap ?? 0) - (a.marketCap ?? 0))
+        .slice(0, limit);
+
+      const metrics = (r: typeof own) => ({
+        symbol: r.symbol,
+        industry: r.industry,
+        peRatio: r.peRatio,
+        forwardPE: r.forwardPE,
+        revenueGrowthYoY: r.revenueGrowthYoY,
+        profitMargin: r.profitMargin,
+        debtToEquity: r.debtToEquity,
+        marketCap: r.marketCap,
+      });
+      return { sector: own.sector, self: metrics(own), peers: peers.map(metrics) };
+    },
+  }),
+  defineTool({
+    name: 'get_portfolio_correlation',
+    description:
+      'Return correlation between a symbol and each current holding, flagging pairs above the configured limit.',
+    input: z.object({ symbol: symbolInput }),
+    run({ symbol }) {
+      return new CorrelationAnalyzer().checkCorrelationWithPortfolio(symbol).map((c) => ({
+        holding: c.symbol2,
+        correlation: round(c.correlation, 3),
+        highlyCorrelated: c.isHighlyCorrelated,
+      }));
+    },
+  }),
+  defineTool({
+    name: 'get_journal_entries',
+    description: 'Recent trade journal notes written about a symbol, newest first.',
+    input: z.object({ symbol: symbolInput, limit: z.number().int().min(1).max(20).default(10) }),
+    run({ symbol, limit }) {
+      return getEntriesForSymbol(symbol, limit).map((e) => ({
+        createdAt: e.createdAt,
+        note: e.note,
+        tags: e.tags,
+      }));
+    },
+  }),
+];
+
+/** Tools offered to the model, narrowed by `ai.tools.allowed` when set */
+export function enabledTools(): AITool[] {
+  const allowed = configManager.get<string[]>('ai.tools.allowed') ?? [];
+  return allowed.length > 0 ? AI_TOOLS.filter((t) => allowed.includes(t.name)) : AI_TOOLS;
+}
+
+/** JSON schema of a tool's input, as both Anthropic and OpenAI-style APIs take it */
+export function toolInputSchema(tool: AITool): Record<string, unknown> {
+  const { $schema: _, ...schema } = z.toJSONSchema(tool.input, { io: 'input' });
+  return schema;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…[truncated]` : text;
+}
+
+/**
+ * Tool calls made during one analysis. Caps the total number of calls,
+ * turns bad input and failures into error results the model can read, and
+ * keeps the trace that is stored with the signal.
+ */
+export class ToolSession {
+  readonly trace: ToolCallRecord[] = [];
+
+  constructor(
+    readonly tools: AITool[] = enabledTools(),
+    readonly maxCalls: number = configManager.get<number>('ai.tools.maxCalls') ?? 8,
+  ) {}
+
+  get exhausted(): boolean {
+    return this.trace.length >= this.maxCalls;
+  }
+
+  async execute(round: number, calls: ToolCall[]): Promise<ToolResult[]> {
+    const results: ToolResult[] = [];
+    for (const call of calls) {
+      if (this.exhausted) {
+        results.push({
+          id: call.id,
+          content: 'Tool call limit reached — decide with the data you have.',
+          isError: true,
+        });
+        continue;
+      }
+      results.push(await this.run(round, call));
+    }
+    return results;
+  }
+
+  private async run(round: number, call: ToolCall): Promise<ToolResult> {
+    const started = Date.now();
+    let output: string;
+    let error: string | undefined;
+
+    const tool = this.tools.find((t) => t.name === call.name);
+    const parsed = tool?.input.safeParse(call.input);
+    if (!tool) {
+      error = `Unknown tool: ${call.name}`;
+    } else if (!parsed?.success) {
+      error = `Invalid input: ${parsed?.error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')}`;
+    } else {
+      try {
+        output = truncate(JSON.stringify(await tool.run(parsed.data as never)), MAX_RESULT_CHARS);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        log.warn({ tool: call.name, err: error }, 'AI tool failed');
+      }
+    }
+    output ??= JSON.stringify({ error });
+
+    const latencyMs = Date.now() - started;
+    this.trace.push({
+      round,
+      name: call.name,
+      input: call.input,
+      output: truncate(output, MAX_TRACE_OUTPUT_CHARS),
+      ...(error ? { error } : {}),
+      latencyMs,
+    });
+    log.debug({ tool: call.name, round, latencyMs, error }, 'AI tool call');
+    return { id: call.id, content: output, isError: !!error };
+  }
+}
@@ -0,0 +1,238 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { configManager } from '../config/manager.js';
+import {
+  type AIUsageSummary,
+  getAISpendSince,
+  getAIUsageSummary,
+  recordAIUsage,
+} from '../db/repositories/ai-usage.js';
+import { formatCurrency } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import type { AIDecision } from './agent.js';
+import { type AICall, getAICassette } from './cassette.js';
+
+const log = createLogger('ai-usage');
+
+/** What a model call was made for; callers other than the analysis loop tag theirs with runAIJob */
+export type AIJob = 'analysis' | 'reevaluation' | 'research' | 'chat';
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** A live model response with the token counts the provider reported. */
+export interface AIResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * How far the AI budget has stepped the bot down:
+ * `reduced` analyses fewer symbols per loop, `fallback` also switches to the
+ * cheaper fallback model, `technical_only` stops calling models at all.
+ */
+export type BudgetLevel = 'normal' | 'reduced' | 'fallback' | 'technical_only';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  spentTodayUsd: number;
+  spentMonthUsd: number;
+  /** 0 means no cap */
+  dailyCapUsd: number;
+  monthlyCapUsd: number;
+  /** Largest share of a cap spent, 0 when neither is set */
+  utilization: number;
+}
+
+const jobContext = new AsyncLocalStorage<AIJob>();
+
+/** Run `fn` with every model call it makes accounted to `job`. */
+export function runAIJob<T>(job: AIJob, fn: () => Promise<T>): Promise<T> {
+  return jobContext.run(job, fn);
+}
+
+/**
+ * Price of a model from the table: an exact entry, else the longest key the
+ * model name starts with, so `claude-sonnet-4` covers dated snapshots.
+ * Unlisted models (e.g. local Ollama ones) cost nothing.
+ */
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function estimateCost(
+  model: string,
+  usage: Pick<AIResponse, 'inputTokens' | 'outputTokens'>,
+  prices: Record<string, ModelPrice>,
+): number {
+  const price = priceFor(model, prices);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function budgetLevel(
+  utilization: number,
+  thresholds: { reduceAt: number; fallbackAt: number },
+): BudgetLevel {
+  if (utilization >= 1) return 'technical_only';
+  if (utilization >= thresholds.fallbackAt) return 'fallback';
+  if (utilization >= thresholds.reduceAt) return 'reduced';
+  return 'normal';
+}
+
+/**
+ * Decision from the technical score alone, used when no model may be called:
+ * the AI budget is spent, or the models to hand are quarantined.
+ * Scores at or above the buy threshold buy, its mirror image sells, the rest hold.
+ */
+export function technicalOnlyDecision(technicalScore: number, buyScore: number): AIDecision {
+  const decision: AIDecision['decision'] =
+    technicalScore >= buyScore ? 'BUY' : technicalScore <= 100 - buyScore ? 'SELL' : 'HOLD';
+  return {
+    decision,
+    conviction:
+      decision === 'BUY' ? technicalScore : decision === 'SELL' ? 100 - technicalScore : 0,
+    reasoning: `Technical-only (no AI model available): technical score ${technicalScore}`,
+    risks: ['No AI review: decided on technical indicators alone'],
+    suggestedStopLossPct: 0.05,
+    suggestedPositionSizePct: 0.1,
+    suggestedTakeProfitPct: 0.15,
+    urgency: 'no_rush',
+    exitConditions: '',
+  };
+}
+
+function startOfDay(now: Date): string {
+  return `${now.toISOString().slice(0, 10)}T00:00:00.000Z`;
+}
+
+function startOfMonth(now: Date): string {
+  return `${now.toISOString().slice(0, 7)}-01T00:00:00.000Z`;
+}
+
+/**
+ * Per-call accounting for model calls: tokens, latency and estimated cost,
+ * stored by model, job and symbol, plus the budget caps that step the bot
+ * down as spend approaches them. Calls go through the cassette, so replayed
+ * responses cost nothing and are not counted.
+ */
+export class AIUsageMeter {
+  /**
+   * Make a model call and account for it. `job` applies unless the caller
+   * runs inside runAIJob; the symbol comes from the call's label.
+   */
+  async track(call: AICall, job: AIJob, send: () => Promise<AIResponse>): Promise<string> {
+    return getAICassette().run(call, async () => {
+      const started = Date.now();
+      try {
+        const response = await send();
+        this.record(call, job, Date.now() - started, response);
+        return response.text;
+      } catch (err) {
+        this.record(call, job, Date.now() - started, null);
+        throw err;
+      }
+    });
+  }
+
+  getBudgetStatus(now = new Date()): BudgetStatus {
+    const dailyCapUsd = configManager.get<number>('ai.budget.dailyUsd') ?? 0;
+    const monthlyCapUsd = configManager.get<number>('ai.budget.monthlyUsd') ?? 0;
+    const spentTodayUsd = getAISpendSince(startOfDay(now));
+    const spentMonthUsd = getAISpendSince(startOfMonth(now));
+
+    const utilization = Math.max(
+      dailyCapUsd > 0 ? spentTodayUsd / dailyCapUsd : 0,
+      monthlyCapUsd > 0 ? spentMonthUsd / monthlyCapUsd : 0,
+    );
+    return {
+      level: budgetLevel(utilization, {
+        reduceAt: configManager.get<number>('ai.budget.reduceAtPct') ?? 0.7,
+        fallbackAt: configManager.get<number>('ai.budget.fallbackAtPct') ?? 0.9,
+      }),
+      spentTodayUsd,
+      spentMonthUsd,
+      dailyCapUsd,
+      monthlyCapUsd,
+      utilization: Math.round(utilization * 1000) / 1000,
+    };
+  }
+
+  /** Budget state with today's and this month's usage, for the status endpoint. */
+  getStatus(now = new Date()): {
+    budget: BudgetStatus;
+    today: AIUsageSummary;
+    month: AIUsageSummary['totals'];
+  } {
+    return {
+      budget: this.getBudgetStatus(now),
+      today: getAIUsageSummary(startOfDay(now)),
+      month: getAIUsageSummary(startOfMonth(now)).totals,
+    };
+  }
+
+  /** Telegram lines (HTML) for the daily summary. */
+  formatDailySummary(now = new Date()): string {
+    const budget = this.getBudgetStatus(now);
+    const { totals, byJob, bySymbol } = getAIUsageSummary(startOfDay(now));
+    const cap = (spent: number, limit: number) =>
+      limit > 0 ? `${formatCurrency(spent)} / ${formatCurrency(limit)}` : formatCurrency(spent);
+
+    const lines = [
+      '<b>AI Usage:</b>',
+      `Calls: ${totals?.calls ?? 0} (${totals?.failures ?? 0} failed), avg ${Math.round(totals?.avgLatencyMs ?? 0)}ms`,
+      `Tokens: ${totals?.inputTokens ?? 0} in / ${totals?.outputTokens ?? 0} out`,
+      `Cost today: ${cap(budget.spentTodayUsd, budget.dailyCapUsd)}`,
+      `Cost this month: ${cap(budget.spentMonthUsd, budget.monthlyCapUsd)}`,
+    ];
+    if (budget.level !== 'normal') lines.push(`Budget mode: ${budget.level.replace('_', '-')}`);
+    if (byJob.length > 1) {
+      lines.push(`By job: ${byJob.map((j) => `${j.job} ${formatCurrency(j.cost)}`).join(', ')}`);
+    }
+    if (bySymbol.length > 0) {
+      lines.push(
+        `Top symbols: ${bySymbol
+          .slice(0, 3)
+          .map((s) => `${s.symbol} ${formatCurrency(s.cost)}`)
+          .join(', ')}`,
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private record(call: AICall, job: AIJob, latencyMs: number, response: AIResponse | null): void {
+    const usage = {
+      inputTokens: response?.inputTokens ?? 0,
+      outputTokens: response?.outputTokens ?? 0,
+    };
+    try {
+      const prices = configManager.get<Record<string, ModelPrice>>('ai.pricing') ?? {};
+      recordAIUsage({
+        provider: call.provider,
+        model: call.model,
+        job: jobContext.getStore() ?? job,
+        symbol: call.label ?? null,
+        ...usage,
+        latencyMs,
+        cost: estimateCost(call.model, usage, prices),
+        success: response !== null,
+      });
+    } catch (err) {
+      log.warn({ err, model: call.model }, 'Failed to record AI usage');
+    }
+  }
+}
+
+let instance: AIUsageMeter | null = null;
+
+export function getAIUsageMeter(): AIUsageMeter {
+  if (!instance) instance = new AIUsageMeter();
+  return instance;
+}
@@ -42,7 +42,7 @@ export class CorrelationAnalyzer {
   }
 
   /** Get price returns for a symbol from the price cache */
-  private getReturns(symbol: string, lookbackDays: number): number[] {
+  getReturns(symbol: string, lookbackDays: number): number[] {
     const db = getDb();
     const prices = db
       .select()
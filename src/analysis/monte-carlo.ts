@@ -49,7 +49,7 @@ interface SimulationRun {
 
 // ── Seeded Random Number Generator (for reproducible tests) ──────────────
 
-class SeededRandom {
+export class SeededRandom {
   private seed: number;
 
   constructor(seed: number) {
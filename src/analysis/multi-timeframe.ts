@@ -117,6 +117,20 @@ export class MultiTimeframeAnalyzer {
     };
   }
 
+  /**
+   * Scores one timeframe from its own candles, e.g. stored intraday bars,
+   * regardless of `multiTimeframe.enabled`.
+   */
+  scoreTimeframe(timeframe: string, candles: OHLCVCandle[]): TimeframeScore {
+    const score = this.scoreFn(candles);
+    return {
+      timeframe,
+      score,
+      signal: this.getTimeframeSignal(score),
+      candleCount: candles.length,
+    };
+  }
+
   /**
    * Extracts appropriate candles for a given timeframe.
    * For daily: uses all candles directly
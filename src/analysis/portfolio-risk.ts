@@ -0,0 +1,280 @@
+import { eq } from 'drizzle-orm';
+import { configManager } from '../config/manager.js';
+import { getDb } from '../db/index.js';
+import { positions } from '../db/schema.js';
+import { accountValue } from '../utils/currency.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import { CorrelationAnalyzer } from './correlation.js';
+import { getPortfolioOptimizer, type PortfolioOptimizer } from './portfolio-optimizer.js';
+
+const log = createLogger('portfolio-risk');
+
+/** Fewest aligned daily returns a symbol needs to be part of the risk model */
+const MIN_OBSERVATIONS = 20;
+
+// ── Interfaces ────────────────────────────────────────────────────────────
+
+export type VaRMethod = 'historical' | 'parametric';
+
+export interface RiskMeasures {
+  /** One-day loss not exceeded at the confidence level, as a positive amount */
+  var: number;
+  /** Mean one-day loss beyond the VaR (expected shortfall) */
+  cvar: number;
+}
+
+export interface RiskModel {
+  /** Daily returns per modelled symbol, aligned on the most recent days, oldest first */
+  returns: Map<string, number[]>;
+  covariance: Map<string, Map<string, number>>;
+  observations: number;
+  /** Symbols left out for lack of price history */
+  missing: string[];
+}
+
+export interface PositionRisk {
+  symbol: string;
+  /** Position value in account currency; negative for shorts */
+  exposure: number;
+  /** Parametric VaR of the position on its own */
+  standaloneVaR: number;
+  /** Share of the portfolio's parametric VaR; contributions sum to the total */
+  contribution: number;
+}
+
+export interface PortfolioRiskReport {
+  accountType: 'INVEST' | 'ISA' | null;
+  portfolioValue: number;
+  confidence: number;
+  method: VaRMethod;
+  observations: number;
+  grossExposure: number;
+  netExposure: number;
+  historical: RiskMeasures;
+  parametric: RiskMeasures;
+  /** VaR of the configured method as a fraction of portfolio value */
+  varPct: number;
+  limitPct: number;
+  /** Fraction of the VaR budget in use; null when no budget is set */
+  budgetUsed: number | null;
+  positions: PositionRisk[];
+  missing: string[];
+}
+
+// ── Statistics ────────────────────────────────────────────────────────────
+
+/** Inverse of the standard normal CDF (Acklam's rational approximation). */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`Probability must be in (0, 1), got ${p}`);
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/** VaR and CVaR read straight off a sample of daily P&L. */
+export function historicalRisk(pnls: number[], confidence: number): RiskMeasures {
+  if (pnls.length === 0) return { var: 0, cvar: 0 };
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const tailSize = Math.max(1, Math.ceil(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, tailSize);
+  return {
+    var: Math.max(0, -sorted[tailSize - 1]),
+    cvar: Math.max(0, -tail.reduce((sum, pnl) => sum + pnl, 0) / tail.length),
+  };
+}
+
+/** VaR and CVaR of a zero-mean normal P&L with standard deviation `sigma`. */
+export function parametricRisk(sigma: number, confidence: number): RiskMeasures {
+  const z = normalQuantile(confidence);
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  return { var: z * sigma, cvar: (sigma * density) / (1 - confidence) };
+}
+
+// ── Analyzer ──────────────────────────────────────────────────────────────
+
+/**
+ * One-day value at risk and expected shortfall of a book of positions,
+ * both from replaying recent daily returns (historical) and from their
+ * covariance under a normal assumption (parametric).
+ */
+export class PortfolioRiskAnalyzer {
+  constructor(
+    private correlation: CorrelationAnalyzer = new CorrelationAnalyzer(),
+    private optimizer: PortfolioOptimizer = getPortfolioOptimizer(),
+  ) {}
+
+  /** Open positions' values in account currency by symbol, shorts negative. */
+  getExposures(accountType?: 'INVEST' | 'ISA'): Map<string, number> {
+    const rows = getDb()
+      .select()
+      .from(positions)
+      .where(accountType ? eq(positions.accountType, accountType) : undefined)
+      .all();
+    const exposures = new Map<string, number>();
+    for (const row of rows) {
+      exposures.set(row.symbol, (exposures.get(row.symbol) ?? 0) + accountValue(row));
+    }
+    return exposures;
+  }
+
+  /** Returns and covariance for `symbols`; null when none has enough history. */
+  buildModel(symbols: string[], lookbackDays?: number): RiskModel | null {
+    const lookback = lookbackDays ?? configManager.get<number>('risk.varLookbackDays');
+    const series = new Map<string, number[]>();
+    const missing: string[] = [];
+    for (const symbol of new Set(symbols)) {
+      const returns = this.correlation.getReturns(symbol, lookback);
+      if (returns.length >= MIN_OBSERVATIONS) series.set(symbol, returns);
+      else missing.push(symbol);
+    }
+    if (missing.length > 0) {
+      log.debug({ missing }, 'Insufficient price history for VaR; symbols left out');
+    }
+    if (series.size === 0) return null;
+
+    const observations = Math.min(...[...series.values()].map((r) => r.length));
+    const returns = new Map([...series].map(([symbol, r]) => [symbol, r.slice(-observations)]));
+    return {
+      returns,
+      covariance: this.optimizer.calculateCovarianceMatrix(returns),
+      observations,
+      missing,
+    };
+  }
+
+  /** Historical and parametric risk of `exposures`; symbols outside the model are ignored. */
+  measure(
+    model: RiskModel,
+    exposures: Map<string, number>,
+    confidence: number,
+  ): Record<VaRMethod, RiskMeasures> {
+    const held = [...exposures].filter(([symbol]) => model.returns.has(symbol));
+
+    const pnls = new Array<number>(model.observations).fill(0);
+    for (const [symbol, exposure] of held) {
+      const returns = model.returns.get(symbol) ?? [];
+      for (let t = 0; t < model.observations; t++) pnls[t] += exposure * returns[t];
+    }
+
+    let variance = 0;
+    for (const [s1, e1] of held) {
+      for (const [s2, e2] of held) {
+        variance += e1 * e2 * (model.covariance.get(s1)?.get(s2) ?? 0);
+      }
+    }
+
+    return {
+      historical: historicalRisk(pnls, confidence),
+      parametric: parametricRisk(Math.sqrt(Math.max(0, variance)), confidence),
+    };
+  }
+
+  /** Risk dashboard for an account's open positions, or all of them. */
+  report(accountType: 'INVEST' | 'ISA' | undefined, portfolioValue: number): PortfolioRiskReport {
+    const confidence = configManager.get<number>('risk.varConfidence');
+    const method = configManager.get<VaRMethod>('risk.varMethod');
+    const limitPct = configManager.get<number>('risk.maxPortfolioVaRPct');
+
+    const exposures = this.getExposures(accountType);
+    const values = [...exposures.values()];
+    const model = this.buildModel([...exposures.keys()]);
+    const empty = { var: 0, cvar: 0 };
+    const measures = model
+      ? this.measure(model, exposures, confidence)
+      : { historical: empty, parametric: empty };
+    const varPct = portfolioValue > 0 ? measures[method].var / portfolioValue : 0;
+
+    return {
+      accountType: accountType ?? null,
+      portfolioValue: round(portfolioValue, 2),
+      confidence,
+      method,
+      observations: model?.observations ?? 0,
+      grossExposure: round(
+        values.reduce((sum, v) => sum + Math.abs(v), 0),
+        2,
+      ),
+      netExposure: round(
+        values.reduce((sum, v) => sum + v, 0),
+        2,
+      ),
+      historical: roundMeasures(measures.historical),
+      parametric: roundMeasures(measures.parametric),
+      varPct: round(varPct, 4),
+      limitPct,
+      budgetUsed: limitPct > 0 ? round(varPct / limitPct, 4) : null,
+      positions: model ? this.positionRisk(model, exposures, confidence) : [],
+      missing: model ? model.missing : [...exposures.keys()],
+    };
+  }
+
+  /**
+   * Standalone and component parametric VaR per position. A position's
+   * component is its exposure times the marginal VaR of adding to it.
+   */
+  private positionRisk(
+    model: RiskModel,
+    exposures: Map<string, number>,
+    confidence: number,
+  ): PositionRisk[] {
+    const z = normalQuantile(confidence);
+    const held = [...exposures].filter(([symbol]) => model.returns.has(symbol));
+
+    const covTimesExposure = new Map<string, number>();
+    let variance = 0;
+    for (const [s1, e1] of held) {
+      let sum = 0;
+      for (const [s2, e2] of held) sum += e2 * (model.covariance.get(s1)?.get(s2) ?? 0);
+      covTimesExposure.set(s1, sum);
+      variance += e1 * sum;
+    }
+    const sigma = Math.sqrt(Math.max(0, variance));
+
+    return held
+      .map(([symbol, exposure]) => ({
+        symbol,
+        exposure: round(exposure, 2),
+        standaloneVaR: round(
+          z * Math.abs(exposure) * Math.sqrt(model.covariance.get(symbol)?.get(symbol) ?? 0),
+          2,
+        ),
+        contribution: round(
+          sigma > 0 ? (z * exposure * (covTimesExposure.get(symbol) ?? 0)) / sigma : 0,
+          2,
+        ),
+      }))
+      .sort((a, b) => b.contribution - a.contribution);
+  }
+}
+
+function roundMeasures(measures: RiskMeasures): RiskMeasures {
+  return { var: round(measures.var, 2), cvar: round(measures.cvar, 2) };
+}
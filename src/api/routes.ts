@@ -1,22 +1,46 @@
 import { and, desc, eq, gte, lte, sql } from 'drizzle-orm';
-import { Router } from 'express';
+import express, { type Response, Router } from 'express';
 import { z } from 'zod';
+import { getAICassette } from '../ai/cassette.js';
 import { getAISelfImprovement } from '../ai/self-improvement.js';
+import { getAIUsageMeter } from '../ai/usage.js';
 import { CorrelationAnalyzer } from '../analysis/correlation.js';
 import { createMonteCarloSimulator } from '../analysis/monte-carlo.js';
 import { getPortfolioOptimizer } from '../analysis/portfolio-optimizer.js';
+import { PortfolioRiskAnalyzer } from '../analysis/portfolio-risk.js';
 import { getRegimeDetector } from '../analysis/regime-detector.js';
 import { createBacktestEngine } from '../backtest/engine.js';
+import { generateHtmlReport } from '../backtest/html-report.js';
+import {
+  BacktestOptimizer,
+  buildCandidates,
+  exportOptimizationProfile,
+  splitWalkForward,
+} from '../backtest/optimizer.js';
 import {
   formatEquityCurve,
+  generateComparisonSummary,
   generateSummary,
   generateSymbolBreakdown,
 } from '../backtest/reporter.js';
-import type { BacktestConfig } from '../backtest/types.js';
+import {
+  compareBacktestRuns,
+  hashBacktestConfig,
+  loadBacktestRun,
+  saveBacktestRun,
+} from '../backtest/run-store.js';
+import type { BacktestConfig, BacktestRunInfo, OptimizationConfig } from '../backtest/types.js';
 import { configManager } from '../config/manager.js';
 import { getStrategyProfileManager } from '../config/strategy-profiles.js';
+import { CANDLE_TIMEFRAMES, getCandleStore } from '../data/candle-store.js';
+import { getPriceStreamer } from '../data/price-streamer.js';
 import { getDb } from '../db/index.js';
+import { deleteBacktestRun, listBacktestRuns } from '../db/repositories/backtest-runs.js';
+import { listCandleCoverage } from '../db/repositories/candles.js';
+import { getDividends } from '../db/repositories/dividends.js';
+import { getHistoryImports } from '../db/repositories/history-imports.js';
 import { getRecentEntries as getRecentJournalEntries } from '../db/repositories/journal.js';
+import { getOptimizationRun, listOptimizationRuns } from '../db/repositories/optimization-runs.js';
 import {
   getOrderById,
   getOrderCount,
@@ -25,19 +49,24 @@ import {
 } from '../db/repositories/orders.js';
 import * as schema from '../db/schema.js';
 import { getConditionalOrderManager } from '../execution/conditional-orders.js';
+import type { ImportSummary } from '../execution/history-importer.js';
 import { getPairLockManager } from '../execution/pair-locks.js';
+import { getPieManager, type PieRebalanceResult } from '../execution/pie-manager.js';
 import { getRiskParitySizer } from '../execution/risk-parity.js';
 import { getRoiThreshold, parseRoiTable } from '../execution/roi-table.js';
 import { getPerformanceAttributor } from '../monitoring/attribution.js';
 import { getAuditLogger } from '../monitoring/audit-log.js';
+import { getExecutionQualityAnalyzer } from '../monitoring/execution-quality.js';
 import { getHealthMetrics } from '../monitoring/health-metrics.js';
 import { PerformanceTracker } from '../monitoring/performance.js';
 import { getReportGenerator } from '../monitoring/report-generator.js';
 import { getTaxTracker } from '../monitoring/tax-tracker.js';
 import { getTradeJournalManager } from '../monitoring/trade-journal.js';
+import { accountValue } from '../utils/currency.js';
+import type { ExchangeCode } from '../utils/exchanges.js';
 import { safeJsonParse } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
-import { getMarketTimes } from '../utils/market-hours.js';
+import { getExchangeTimes, getMarketTimes } from '../utils/market-hours.js';
 
 const configUpdateSchema = z.object({
   value: z
@@ -80,10 +109,121 @@ const backtestSchema = z.object({
   trailingStop: z.boolean().default(false),
   commission: z.number().min(0).default(0),
   entryThreshold: z.number().min(0).max(1).default(0.6),
+  mode: z.enum(['technical', 'pipeline']).default('technical'),
+  configOverrides: z.record(z.string(), z.unknown()).optional(),
+  exitConditions: z.string().max(1000).optional(),
+  signalSource: z.enum(['score', 'recorded']).default('score'),
+  aiModel: z.string().max(100).optional(),
+  fillModel: z
+    .object({
+      spreadBps: z.number().min(0).max(500).optional(),
+      slippage: z
+        .discriminatedUnion('type', [
+          z.object({ type: z.literal('pct'), pct: z.number().min(0).max(0.1) }),
+          z.object({
+            type: z.literal('atr'),
+            atrMultiple: z.number().min(0).max(5),
+            period: z.number().int().min(2).max(100).optional(),
+          }),
+        ])
+        .optional(),
+      gapThroughStops: z.boolean().optional(),
+      maxParticipationRate: z.number().min(0.001).max(1).optional(),
+      accountCurrency: z.string().length(3).optional(),
+      fxFeePct: z.number().min(0).max(0.05).optional(),
+    })
+    .optional(),
+  allowShort: z.boolean().optional(),
+  shortFinancingAnnualPct: z.number().min(0).max(0.5).optional(),
+});
+
+const backtestRunSchema = backtestSchema.extend({
+  label: z.string().min(1).max(100).optional(),
+});
+
+const numericRangeSchema = z.union([
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive() }),
+  z.array(z.number()).min(1).max(50),
+]);
+
+const optimizeSchema = z.object({
+  base: backtestSchema,
+  space: z.object({
+    stopLossPct: numericRangeSchema.optional(),
+    entryThreshold: numericRangeSchema.optional(),
+    maxPositions: numericRangeSchema.optional(),
+    trailingStop: z.array(z.boolean()).min(1).max(2).optional(),
+    roiTable: z.array(z.record(z.string(), z.number())).min(1).max(20).optional(),
+  }),
+  method: z.enum(['grid', 'random']).default('grid'),
+  objective: z.enum(['sharpe', 'calmar', 'sqn', 'profitFactor']).default('sharpe'),
+  maxEvaluations: z.number().int().min(1).max(1000).optional(),
+  seed: z.number().int().optional(),
+  walkForward: z
+    .object({
+      windows: z.number().int().min(1).max(20),
+      inSamplePct: z.number().min(0.5).max(0.95),
+    })
+    .optional(),
+  minTrades: z.number().int().min(0).optional(),
+});
+
+const exportProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+const candleRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+const candleImportSchema = z.object({
+  format: z.enum(['csv', 'json', 'jsonl']),
+  content: z.string().min(1).max(50_000_000),
+  // Room for exchange-suffixed symbols such as VOD.L
+  symbol: z.string().min(1).max(20).optional(),
+  timeframe: z.enum(CANDLE_TIMEFRAMES).default('1d'),
+  splitAdjusted: z.boolean().default(false),
+  dividendAdjusted: z.boolean().default(false),
 });
 
+const historyImportSchema = z.object({
+  account: z.enum(['INVEST', 'ISA']),
+  /** A Trading212 CSV export; omit to run an API history pass instead */
+  content: z.string().min(1).max(50_000_000).optional(),
+});
+
+const accountQuerySchema = z.object({
+  account: z.enum(['INVEST', 'ISA']).optional(),
+});
+
+/** Parse the optional `?account=` filter; responds 400 and returns null when invalid. */
+function parseAccountFilter(
+  query: unknown,
+  res: Response,
+): { account: 'INVEST' | 'ISA' | undefined } | null {
+  const parsed = accountQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'account must be INVEST or ISA' });
+    return null;
+  }
+  return { account: parsed.data.account };
+}
+
 const log = createLogger('api-routes');
 
+export interface AccountSummary {
+  accountType: 'INVEST' | 'ISA';
+  strategyProfile: string | null;
+  cashAvailable: number | null;
+  portfolioValue: number | null;
+  lossCooldownUntil: string | null;
+}
+
 export interface BotCallbacks {
   getStatus: () => { paused: boolean; startedAt: string };
   setPaused: (paused: boolean) => void;
@@ -97,6 +237,12 @@ export interface BotCallbacks {
   runResearch: (params?: { focus?: string; symbols?: string[] }) => Promise<unknown>;
   getResearchReports: () => unknown[];
   getModelStats: () => unknown[];
+  /** Accounts the bot is trading; absent when not connected to a multi-account bot */
+  getAccounts?: () => AccountSummary[];
+  /** Recompute the account's pie allocation now and write it to Trading212 */
+  rebalancePie?: (accountType: 'INVEST' | 'ISA') => Promise<PieRebalanceResult>;
+  /** Import account history from the broker, or from CSV export `content` when given */
+  importHistory?: (accountType: 'INVEST' | 'ISA', content?: string) => Promise<ImportSummary>;
 }
 
 let callbacks: BotCallbacks = {
@@ -116,6 +262,7 @@ let callbacks: BotCallbacks = {
   runResearch: async () => null,
   getResearchReports: () => [],
   getModelStats: () => [],
+  getAccounts: () => [],
 };
 
 export function registerBotCallbacks(cb: BotCallbacks): void {
@@ -137,15 +284,21 @@ export function createRouter(): Router {
   });
 
   // ── Portfolio ────────────────────────────────────────────────────────
-  router.get('/api/portfolio', (_req, res) => {
+  router.get('/api/portfolio', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
     try {
       const db = getDb();
-      const positionRows = db.select().from(schema.positions).all();
+      const positionRows = db
+        .select()
+        .from(schema.positions)
+        .where(filter.account ? eq(schema.positions.accountType, filter.account) : undefined)
+        .all();
 
       let totalValue = 0;
       let totalPnl = 0;
       for (const p of positionRows) {
-        const currentVal = (p.currentPrice ?? p.entryPrice) * p.shares;
+        const currentVal = accountValue(p);
         totalValue += currentVal;
         totalPnl += p.pnl ?? 0;
       }
@@ -157,7 +310,11 @@ export function createRouter(): Router {
         .limit(1)
         .get();
 
-      const cashAvailable = cashRow?.cashBalance ?? 0;
+      // daily_metrics holds combined cash; a single account reports its own live balance
+      const accountCash = filter.account
+        ? callbacks.getAccounts?.().find((a) => a.accountType === filter.account)?.cashAvailable
+        : undefined;
+      const cashAvailable = accountCash ?? cashRow?.cashBalance ?? 0;
 
       // Enrich positions with ROI threshold info if enabled
       const roiEnabled = configManager.get<boolean>('exit.roiEnabled');
@@ -188,6 +345,7 @@ export function createRouter(): Router {
         totalValue: totalValue + cashAvailable,
         pnl: totalPnl,
         roiEnabled,
+        account: filter.account ?? null,
       });
     } catch (err) {
       log.error({ err }, 'Error fetching portfolio');
@@ -197,11 +355,14 @@ export function createRouter(): Router {
 
   // ── Trades (list with filters) ──────────────────────────────────────
   router.get('/api/trades', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
     try {
       const db = getDb();
       const { symbol, from, to, side, limit, offset } = req.query;
 
       const conditions = [];
+      if (filter.account) conditions.push(eq(schema.trades.accountType, filter.account));
       if (symbol) conditions.push(eq(schema.trades.symbol, String(symbol)));
       if (side) conditions.push(eq(schema.trades.side, String(side) as 'BUY' | 'SELL'));
       if (from) conditions.push(gte(schema.trades.entryTime, String(from)));
@@ -330,19 +491,24 @@ export function createRouter(): Router {
   });
 
   // ── Performance metrics ─────────────────────────────────────────────
-  router.get('/api/performance', (_req, res) => {
+  router.get('/api/performance', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
     try {
       const tracker = new PerformanceTracker();
-      const metrics = tracker.getMetrics();
+      const metrics = tracker.getMetrics(filter.account);
 
       const db = getDb();
+      const closed = sql`${schema.trades.exitPrice} IS NOT NULL`;
       const allClosed = db
         .select()
         .from(schema.trades)
-        .where(sql`${schema.trades.exitPrice} IS NOT NULL`)
+        .where(filter.account ? and(closed, eq(schema.trades.accountType, filter.account)) : closed)
         .all();
 
       const totalPnl = allClosed.reduce((sum, t) => sum + (t.pnl ?? 0), 0);
+      const fxPnl = allClosed.reduce((sum, t) => sum + (t.fxPnl ?? 0), 0);
+      const dividendIncome = tracker.getDividendIncome(filter.account);
 
       res.json({
         winRate: metrics.winRate,
@@ -360,6 +526,11 @@ export function createRouter(): Router {
         avgLoss: metrics.avgLoss,
         totalTrades: metrics.totalTrades,
         totalPnl,
+        pricePnl: totalPnl - fxPnl,
+        fxPnl,
+        dividendIncome,
+        totalReturn: totalPnl + dividendIncome,
+        currencies: tracker.getCurrencyBreakdown(filter.account),
         avgHoldDuration: metrics.avgHoldDuration,
         bestTrade: metrics.bestTrade,
         worstTrade: metrics.worstTrade,
@@ -387,6 +558,110 @@ export function createRouter(): Router {
     }
   });
 
+  // ── Dividends ───────────────────────────────────────────────────────
+  router.get('/api/dividends', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
+    const year = req.query.year != null ? Number(req.query.year) : undefined;
+    if (year != null && !Number.isInteger(year)) {
+      res.status(400).json({ error: 'year must be an integer' });
+      return;
+    }
+    try {
+      const dividends = getDividends({
+        accountType: filter.account,
+        from: year != null ? `${year}-01-01` : undefined,
+        to: year != null ? `${year}-12-31T23:59:59.999Z` : undefined,
+      });
+      const total = dividends.reduce((sum, d) => sum + d.amount, 0);
+      res.json({ dividends, total });
+    } catch (err) {
+      log.error({ err }, 'Error fetching dividends');
+      res.status(500).json({ error: 'Failed to fetch dividends' });
+    }
+  });
+
+  // ── Pie mode ────────────────────────────────────────────────────────
+  router.get('/api/pies', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
+    const since = typeof req.query.since === 'string' ? req.query.since : undefined;
+    try {
+      const pieManager = getPieManager();
+      const accounts = filter.account ? [filter.account] : (['INVEST', 'ISA'] as const);
+      const pies = accounts
+        .map((accountType) => ({ accountType, ...pieManager.getStatus(accountType, since) }))
+        .filter((status) => status.pie != null);
+      res.json({ pies });
+    } catch (err) {
+      log.error({ err }, 'Error fetching pies');
+      res.status(500).json({ error: 'Failed to fetch pies' });
+    }
+  });
+
+  router.post('/api/pies/rebalance', async (req, res) => {
+    const filter = parseAccountFilter({ account: req.body?.account }, res);
+    if (!filter) return;
+    if (!filter.account) {
+      res.status(400).json({ error: 'account is required' });
+      return;
+    }
+    if (!callbacks.rebalancePie) {
+      res.status(503).json({ error: 'Not connected to bot' });
+      return;
+    }
+    // Same conditions the scheduled pie job runs under: it writes to the live account
+    const refusal = !configManager.get<boolean>('pies.enabled')
+      ? 'Pie mode is disabled'
+      : configManager.get<boolean>('execution.paperBroker.enabled')
+        ? 'Pies are not supported by the paper broker'
+        : configManager.get<boolean>('execution.dryRun')
+          ? 'Pies are not changed in dry run'
+          : null;
+    if (refusal) {
+      res.status(409).json({ error: refusal });
+      return;
+    }
+    try {
+      res.json(await callbacks.rebalancePie(filter.account));
+    } catch (err) {
+      log.error({ err }, 'Error rebalancing pie');
+      res.status(500).json({ error: 'Failed to rebalance pie' });
+    }
+  });
+
+  // ── Account history import ──────────────────────────────────────────
+  router.get('/api/history/imports', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
+    try {
+      res.json({ imports: getHistoryImports(filter.account) });
+    } catch (err) {
+      log.error({ err }, 'Error fetching history imports');
+      res.status(500).json({ error: 'Failed to fetch history imports' });
+    }
+  });
+
+  router.post('/api/history/import', async (req, res) => {
+    try {
+      const parsed = historyImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
+        return;
+      }
+      if (!callbacks.importHistory) {
+        res.status(503).json({ error: 'Not connected to bot' });
+        return;
+      }
+
+      const { account, content } = parsed.data;
+      res.json(await callbacks.importHistory(account, content));
+    } catch (err) {
+      log.error({ err }, 'Error importing account history');
+      res.status(500).json({ error: 'Failed to import account history' });
+    }
+  });
+
   // ── Pairlist (current) ──────────────────────────────────────────────
   router.get('/api/pairlist', (_req, res) => {
     try {
@@ -492,6 +767,11 @@ export function createRouter(): Router {
         environment: configManager.get<string>('t212.environment'),
         dryRun: configManager.get<boolean>('execution.dryRun'),
         marketTimes,
+        exchanges: getExchangeTimes(
+          configManager.get<ExchangeCode[] | null>('pairlist.exchanges') ?? ['US'],
+        ),
+        accounts: callbacks.getAccounts?.() ?? [],
+        ai: getAIUsageMeter().getStatus(),
       });
     } catch (err) {
       log.error({ err }, 'Error fetching status');
@@ -499,6 +779,16 @@ export function createRouter(): Router {
     }
   });
 
+  // ── Accounts ────────────────────────────────────────────────────────
+  router.get('/api/accounts', (_req, res) => {
+    try {
+      res.json({ accounts: callbacks.getAccounts?.() ?? [] });
+    } catch (err) {
+      log.error({ err }, 'Error fetching accounts');
+      res.status(500).json({ error: 'Failed to fetch accounts' });
+    }
+  });
+
   // ── Config (all, grouped by category) ───────────────────────────────
   router.get('/api/config', (_req, res) => {
     try {
@@ -710,6 +1000,16 @@ export function createRouter(): Router {
     }
   });
 
+  // ── AI cassette (record/replay hits and misses) ──────────────────
+  router.get('/api/ai/cassette', (_req, res) => {
+    try {
+      res.json(getAICassette().getStatus());
+    } catch (err) {
+      log.error({ err }, 'Error fetching AI cassette status');
+      res.status(500).json({ error: 'Failed to fetch AI cassette status' });
+    }
+  });
+
   // ── Pairlist: Static symbols management ───────────────────────────
   router.post('/api/pairlist/static', (req, res) => {
     try {
@@ -786,20 +1086,76 @@ export function createRouter(): Router {
     }
   });
 
+  // ── Portfolio risk (VaR / expected shortfall) ─────────────────────
+  router.get('/api/risk/portfolio', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
+    try {
+      let portfolioValue = (callbacks.getAccounts?.() ?? [])
+        .filter((a) => !filter.account || a.accountType === filter.account)
+        .reduce((sum, a) => sum + (a.portfolioValue ?? 0), 0);
+      if (portfolioValue <= 0) {
+        // No live balance from the bot; fall back to the last recorded value
+        const metrics = getDb()
+          .select({ portfolioValue: schema.dailyMetrics.portfolioValue })
+          .from(schema.dailyMetrics)
+          .orderBy(desc(schema.dailyMetrics.date))
+          .limit(1)
+          .get();
+        portfolioValue = metrics?.portfolioValue ?? 0;
+      }
+      res.json(new PortfolioRiskAnalyzer().report(filter.account, portfolioValue));
+    } catch (err) {
+      log.error({ err }, 'Error computing portfolio risk');
+      res.status(500).json({ error: 'Failed to compute portfolio risk' });
+    }
+  });
+
+  // ── Execution quality (slippage, latency, implementation shortfall) ──
+  router.get('/api/execution/quality', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
+    try {
+      const days = Math.min(365, Math.max(1, Number(req.query.days) || 30));
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      res.json(
+        getExecutionQualityAnalyzer().getReport(
+          from.toISOString(),
+          to.toISOString(),
+          filter.account,
+        ),
+      );
+    } catch (err) {
+      log.error({ err }, 'Error analyzing execution quality');
+      res.status(500).json({ error: 'Failed to analyze execution quality' });
+    }
+  });
+
+  // ── Price streaming ─────────────────────────────────────────────────
+  router.get('/api/streaming/feeds', (_req, res) => {
+    const streamer = getPriceStreamer();
+    res.json({ running: streamer.isRunning(), routes: streamer.getFeedRoutes() });
+  });
+
   // ── Orders (list with filters) ──────────────────────────────────────
   router.get('/api/orders', (req, res) => {
+    const filter = parseAccountFilter({ account: req.query.account }, res);
+    if (!filter) return;
     try {
       const { symbol, status, limit } = req.query;
       const filters = {
         symbol: symbol ? String(symbol) : undefined,
         status: status ? String(status) : undefined,
         limit: limit ? Number(limit) : undefined,
+        accountType: filter.account,
       };
 
       const rows = getRecentOrders(filters);
       const total = getOrderCount({
         symbol: filters.symbol,
         status: filters.status,
+        accountType: filters.accountType,
       });
 
       res.json({ orders: rows, total });
@@ -866,17 +1222,27 @@ export function createRouter(): Router {
   // ── Backtest ────────────────────────────────────────────────────────
   router.post('/api/backtest', async (req, res) => {
     try {
-      const parsed = backtestSchema.safeParse(req.body);
+      const parsed = backtestRunSchema.safeParse(req.body);
       if (!parsed.success) {
         res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
         return;
       }
 
-      const backtestConfig: BacktestConfig = parsed.data;
+      const { label, ...backtestConfig }: { label?: string } & BacktestConfig = parsed.data;
       const engine = await createBacktestEngine(backtestConfig);
       const result = await engine.run();
 
+      // A storage failure shouldn't cost the caller the result they waited for
+      let run: BacktestRunInfo | null = null;
+      try {
+        run = saveBacktestRun(result, label);
+      } catch (err) {
+        log.error({ err }, 'Error saving backtest run');
+      }
+
       res.json({
+        runId: run?.id ?? null,
+        configHash: run?.configHash ?? hashBacktestConfig(backtestConfig),
         summary: generateSummary(result),
         symbolBreakdown: generateSymbolBreakdown(result),
         equityCurve: formatEquityCurve(result),
@@ -884,6 +1250,9 @@ export function createRouter(): Router {
         trades: result.trades,
         config: result.config,
         dailyReturns: result.dailyReturns,
+        pipeline: result.pipeline,
+        replay: result.replay,
+        costs: result.costs,
       });
     } catch (err) {
       log.error({ err }, 'Error running backtest');
@@ -891,6 +1260,254 @@ export function createRouter(): Router {
     }
   });
 
+  // ── Persisted backtest runs ─────────────────────────────────────────
+  router.get('/api/backtest/runs', (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const configHash =
+        typeof req.query.configHash === 'string' ? req.query.configHash : undefined;
+      const runs = listBacktestRuns(limit, configHash).map((run) => ({
+        ...run,
+        symbols: safeJsonParse(run.symbols, []),
+        metrics: safeJsonParse(run.metrics, null),
+      }));
+      res.json({ runs });
+    } catch (err) {
+      log.error({ err }, 'Error listing backtest runs');
+      res.status(500).json({ error: 'Failed to list backtest runs' });
+    }
+  });
+
+  router.get('/api/backtest/runs/compare', (req, res) => {
+    try {
+      const a = Number(req.query.a);
+      const b = Number(req.query.b);
+      if (!Number.isInteger(a) || !Number.isInteger(b)) {
+        res.status(400).json({ error: 'Query parameters a and b must be run ids' });
+        return;
+      }
+
+      const diff = compareBacktestRuns(a, b);
+      if (!diff) {
+        res.status(404).json({ error: 'Backtest run not found' });
+        return;
+      }
+      res.json({ ...diff, summary: generateComparisonSummary(diff.comparison) });
+    } catch (err) {
+      log.error({ err }, 'Error comparing backtest runs');
+      res.status(500).json({ error: 'Failed to compare backtest runs' });
+    }
+  });
+
+  router.get('/api/backtest/runs/:id', (req, res) => {
+    try {
+      const run = loadBacktestRun(Number(req.params.id));
+      if (!run) {
+        res.status(404).json({ error: 'Backtest run not found' });
+        return;
+      }
+      res.json({ ...run.info, ...run.result, summary: generateSummary(run.result) });
+    } catch (err) {
+      log.error({ err }, 'Error fetching backtest run');
+      res.status(500).json({ error: 'Failed to fetch backtest run' });
+    }
+  });
+
+  router.get('/api/backtest/runs/:id/report.html', (req, res) => {
+    try {
+      const run = loadBacktestRun(Number(req.params.id));
+      if (!run) {
+        res.status(404).json({ error: 'Backtest run not found' });
+        return;
+      }
+      res.attachment(`backtest-${run.info.id}.html`);
+      res.type('html').send(generateHtmlReport(run.result, run.info));
+    } catch (err) {
+      log.error({ err }, 'Error exporting backtest report');
+      res.status(500).json({ error: 'Failed to export backtest report' });
+    }
+  });
+
+  router.delete('/api/backtest/runs/:id', (req, res) => {
+    try {
+      if (!deleteBacktestRun(Number(req.params.id))) {
+        res.status(404).json({ error: 'Backtest run not found' });
+        return;
+      }
+      res.json({ deleted: true });
+    } catch (err) {
+      log.error({ err }, 'Error deleting backtest run');
+      res.status(500).json({ error: 'Failed to delete backtest run' });
+    }
+  });
+
+  // ── Backtest optimisation (hyperopt) ───────────────────────────────
+  router.post('/api/backtest/optimize', async (req, res) => {
+    try {
+      const parsed = optimizeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
+        return;
+      }
+
+      const optimizationConfig: OptimizationConfig = parsed.data;
+      try {
+        buildCandidates(optimizationConfig);
+        if (optimizationConfig.walkForward) {
+          const { startDate, endDate } = optimizationConfig.base;
+          splitWalkForward(startDate, endDate, optimizationConfig.walkForward);
+        }
+      } catch (err) {
+        res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+        return;
+      }
+
+      const optimizer = new BacktestOptimizer();
+      res.json(await optimizer.run(optimizationConfig));
+    } catch (err) {
+      log.error({ err }, 'Error running backtest optimisation');
+      res.status(500).json({ error: 'Failed to run backtest optimisation' });
+    }
+  });
+
+  router.get('/api/backtest/optimize/runs', (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const runs = listOptimizationRuns(limit).map((run) => ({
+        ...run,
+        symbols: safeJsonParse(run.symbols, []),
+        bestParams: safeJsonParse(run.bestParams, null),
+      }));
+      res.json({ runs });
+    } catch (err) {
+      log.error({ err }, 'Error listing optimisation runs');
+      res.status(500).json({ error: 'Failed to list optimisation runs' });
+    }
+  });
+
+  router.get('/api/backtest/optimize/runs/:id', (req, res) => {
+    try {
+      const run = getOptimizationRun(Number(req.params.id));
+      if (!run) {
+        res.status(404).json({ error: 'Optimisation run not found' });
+        return;
+      }
+      res.json({
+        ...run,
+        symbols: safeJsonParse(run.symbols, []),
+        baseConfig: safeJsonParse(run.baseConfig, null),
+        parameterSpace: safeJsonParse(run.parameterSpace, null),
+        trials: safeJsonParse(run.trials, []),
+        windows: safeJsonParse(run.windows, null),
+        bestParams: safeJsonParse(run.bestParams, null),
+      });
+    } catch (err) {
+      log.error({ err }, 'Error fetching optimisation run');
+      res.status(500).json({ error: 'Failed to fetch optimisation run' });
+    }
+  });
+
+  router.post('/api/backtest/optimize/runs/:id/export', (req, res) => {
+    try {
+      const parsed = exportProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
+        return;
+      }
+
+      const runId = Number(req.params.id);
+      if (!getOptimizationRun(runId)) {
+        res.status(404).json({ error: 'Optimisation run not found' });
+        return;
+      }
+
+      try {
+        const exported = exportOptimizationProfile(
+          runId,
+          parsed.data.name,
+          parsed.data.description,
+        );
+        res.json({ name: parsed.data.name, ...exported });
+      } catch (err) {
+        res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      }
+    } catch (err) {
+      log.error({ err }, 'Error exporting optimisation profile');
+      res.status(500).json({ error: 'Failed to export optimisation profile' });
+    }
+  });
+
+  // ── Candle store ───────────────────────────────────────────────────
+  router.get('/api/candles', (_req, res) => {
+    try {
+      res.json({ coverage: listCandleCoverage() });
+    } catch (err) {
+      log.error({ err }, 'Error listing candle coverage');
+      res.status(500).json({ error: 'Failed to list candle coverage' });
+    }
+  });
+
+  router.get('/api/candles/:symbol/gaps', (req, res) => {
+    try {
+      const parsed = candleRangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid query' });
+        return;
+      }
+
+      const symbol = req.params.symbol.toUpperCase();
+      const to = parsed.data.to ?? new Date().toISOString().slice(0, 10);
+      const store = getCandleStore();
+      res.json({
+        symbol,
+        coverage: store.getCoverage(symbol),
+        gaps: store.findGaps(symbol, parsed.data.from, to),
+      });
+    } catch (err) {
+      log.error({ err }, 'Error detecting candle gaps');
+      res.status(500).json({ error: 'Failed to detect candle gaps' });
+    }
+  });
+
+  router.post('/api/candles/:symbol/top-up', async (req, res) => {
+    try {
+      const parsed = candleRangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
+        return;
+      }
+
+      const result = await getCandleStore().topUp(
+        req.params.symbol.toUpperCase(),
+        parsed.data.from,
+      );
+      res.json(result);
+    } catch (err) {
+      log.error({ err }, 'Error topping up candles');
+      res.status(500).json({ error: 'Failed to top up candles' });
+    }
+  });
+
+  router.post('/api/candles/import', express.json({ limit: '50mb' }), (req, res) => {
+    try {
+      const parsed = candleImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message ?? 'Invalid request body' });
+        return;
+      }
+
+      const { format, content, ...options } = parsed.data;
+      try {
+        res.json(getCandleStore().importText(content, format, options));
+      } catch (err) {
+        res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      }
+    } catch (err) {
+      log.error({ err }, 'Error importing candles');
+      res.status(500).json({ error: 'Failed to import candles' });
+    }
+  });
+
   // ── Market Regime ──────────────────────────────────────────────────
   router.get('/regime', (_req, res) => {
     try {
@@ -1039,11 +1656,11 @@ export function createRouter(): Router {
   });
 
   // ── Tax Tracking ─────────────────────────────────────────────────
-  router.get('/tax/summary', (req, res) => {
+  router.get('/tax/summary', async (req, res) => {
     try {
       const tracker = getTaxTracker();
       const year = Number(req.query.year) || new Date().getFullYear();
-      res.json(tracker.getYearlyTaxSummary(year));
+      res.json(await tracker.getYearlyTaxSummary(year));
     } catch (err) {
       log.error({ err }, 'Error generating tax summary');
       res.status(500).json({ error: 'Failed to generate tax summary' });
@@ -31,7 +31,14 @@ export class ApiServer {
         credentials: true,
       }),
     );
-    this.app.use(express.json({ limit: '10kb' }));
+    // Candle imports carry whole files and parse their own body once authenticated.
+    // Matched the way the router matches: trailing slash and case ignored.
+    const jsonParser = express.json({ limit: '10kb' });
+    this.app.use((req, res, next) =>
+      req.path.replace(/\/+$/, '').toLowerCase() === '/api/candles/import'
+        ? next()
+        : jsonParser(req, res, next),
+    );
 
     // Authentication
     this.app.use(authMiddleware);
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { configManager } from '../../config/manager.js';
 import { createLogger } from '../../utils/logger.js';
 import { ApiError, AuthError, RateLimitError } from './errors.js';
+import { type RequestQueueStats, RequestScheduler } from './request-scheduler.js';
 import {
   type AccountCash,
   AccountCashSchema,
@@ -15,6 +16,8 @@ import {
   type Environment,
   type Exchange,
   ExchangeSchema,
+  type ExportReport,
+  ExportReportSchema,
   type ExportRequest,
   type HistoricalOrder,
   HistoricalOrderSchema,
@@ -37,18 +40,29 @@ import {
 
 const log = createLogger('trading212');
 
+/** Public surface of the client, implemented by both the live client and the paper broker. */
+export type Trading212Api = Pick<Trading212Client, keyof Trading212Client>;
+
 export class Trading212Client {
   private baseUrl: string;
   private apiKey: string;
   private lastRateLimitInfo: Map<string, RateLimitInfo> = new Map();
+  private scheduler: RequestScheduler | null = null;
 
-  constructor(apiKey: string) {
+  /** `name` labels the client's request queue in health metrics, e.g. `t212:ISA`. */
+  constructor(apiKey: string, name = 'trading212') {
     this.apiKey = apiKey;
     const environment = configManager.get<Environment>('t212.environment');
     this.baseUrl =
       environment === 'demo'
         ? 'https://demo.trading212.com/api/v0'
         : 'https://live.trading212.com/api/v0';
+    if (configManager.get<boolean>('t212.requestScheduler.enabled')) {
+      this.scheduler = new RequestScheduler(name, {
+        maxConcurrent: configManager.get<number>('t212.requestScheduler.maxConcurrent'),
+        maxRetries: configManager.get<number>('t212.requestScheduler.maxRetries'),
+      });
+    }
     log.info({ environment }, 'Trading212 client initialized');
   }
 
@@ -81,7 +95,18 @@ export class Trading212Client {
     };
   }
 
-  private async request<T>(
+  private request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    schema?: z.ZodSchema<T>,
+  ): Promise<T> {
+    if (!this.scheduler) return this.send(endpoint, options, schema);
+    return this.scheduler.schedule(options.method ?? 'GET', endpoint, () =>
+      this.send(endpoint, options, schema),
+    );
+  }
+
+  private async send<T>(
     endpoint: string,
     options: RequestInit = {},
     schema?: z.ZodSchema<T>,
@@ -102,6 +127,7 @@ export class Trading212Client {
     const rateLimitInfo = this.extractRateLimitInfo(response.headers);
     if (rateLimitInfo) {
       this.lastRateLimitInfo.set(endpoint, rateLimitInfo);
+      this.scheduler?.observe(options.method ?? 'GET', endpoint, rateLimitInfo);
       if (rateLimitInfo.remaining <= 2) {
         log.warn({ endpoint, remaining: rateLimitInfo.remaining }, 'Rate limit nearly exhausted');
       }
@@ -152,6 +178,11 @@ export class Trading212Client {
     return this.lastRateLimitInfo.get(endpoint) || null;
   }
 
+  /** Depth and rate-limit state of the request queue; null when the scheduler is off. */
+  getQueueStats(): RequestQueueStats | null {
+    return this.scheduler?.getStats() ?? null;
+  }
+
   // Account Management
   async getAccountInfo(): Promise<AccountInfo> {
     return this.request('/equity/account/info', {}, AccountInfoSchema);
@@ -318,4 +349,21 @@ export class Trading212Client {
       body: JSON.stringify(exportRequest),
     });
   }
+
+  async getExports(): Promise<ExportReport[]> {
+    return this.request('/history/exports', {}, z.array(ExportReportSchema));
+  }
+
+  /** Fetch a finished export's CSV. The link is pre-signed, so no auth headers are sent. */
+  async downloadExport(downloadLink: string): Promise<string> {
+    const response = await fetch(downloadLink);
+    if (!response.ok) {
+      throw new ApiError(
+        `Export download failed (${response.status})`,
+        response.status,
+        await response.text(),
+      );
+    }
+    return response.text();
+  }
 }
@@ -96,6 +96,21 @@ export class ValidationError extends Trading212Error {
   }
 }
 
+/**
+ * Whether the broker answered and refused the request (a 4xx other than a
+ * request timeout), so nothing was placed. Network errors, timeouts and 5xx
+ * responses can follow an order the broker already accepted.
+ */
+export function isBrokerRejection(error: unknown): boolean {
+  return (
+    error instanceof Trading212Error &&
+    error.statusCode != null &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 408
+  );
+}
+
 /**
  * Serialize error for JSON responses
  */
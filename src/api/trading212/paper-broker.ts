@@ -0,0 +1,793 @@
+import { round } from '../../utils/helpers.js';
+import { createLogger } from '../../utils/logger.js';
+import type { Trading212Api } from './client.js';
+import { ApiError, RateLimitError } from './errors.js';
+import { T212_RATE_LIMITS } from './rate-limits.js';
+import type { RequestQueueStats } from './request-scheduler.js';
+import type {
+  AccountCash,
+  AccountInfo,
+  AccountSummary,
+  CreatePieRequest,
+  Dividend,
+  Exchange,
+  ExportReport,
+  ExportRequest,
+  HistoricalOrder,
+  Instrument,
+  LimitOrderRequest,
+  MarketOrderRequest,
+  Order,
+  Pie,
+  Position,
+  RateLimitInfo,
+  StopLimitOrderRequest,
+  StopOrderRequest,
+  Transaction,
+} from './types.js';
+
+const log = createLogger('paper-broker');
+
+type OrderType = Order['type'];
+type OrderSide = Order['side'];
+export type PaperOrderStatus = 'NEW' | 'WORKING' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+interface PaperOrder {
+  id: number;
+  ticker: string;
+  type: OrderType;
+  side: OrderSide;
+  /** Always positive; the side carries the direction */
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeValidity: 'DAY' | 'GTC';
+  status: PaperOrderStatus;
+  /** Stop and stop-limit orders, once the stop price has traded */
+  triggered: boolean;
+  /** Cash held back for a resting BUY */
+  reserved: number;
+  filledQuantity: number;
+  filledValue: number;
+  createdAt: string;
+  updatedAt: string;
+  rejectReason?: string;
+}
+
+interface PaperPosition {
+  ticker: string;
+  /** Negative for a short */
+  quantity: number;
+  averagePrice: number;
+  initialFillDate: string;
+}
+
+interface Quote {
+  price: number;
+  at: number;
+}
+
+interface RateWindow {
+  start: number;
+  used: number;
+}
+
+export interface PaperBrokerOptions {
+  initialCash?: number;
+  currency?: string;
+  /** Full bid/ask spread in basis points around the quote; buys pay half, sells receive half */
+  spreadBps?: number;
+  /** Throw RateLimitError when a call exceeds Trading212's published limit for its endpoint */
+  enforceRateLimits?: boolean;
+  /**
+   * Let sells exceed the holding and open a short, as a CFD account would.
+   * Margin and borrow fees are left to the risk guard and position tracker.
+   */
+  allowShort?: boolean;
+  /** Pulls last prices for tickers with working orders or positions */
+  quoteProvider?: (tickers: string[]) => Promise<Map<string, number>>;
+  /** Quotes older than this are refreshed from the provider before they are used */
+  quoteMaxAgeMs?: number;
+  /** Source for instrument and exchange metadata (typically the real client) */
+  metadata?: Pick<Trading212Api, 'getInstruments' | 'getExchanges'>;
+  now?: () => number;
+}
+
+const DEFAULT_QUOTE_MAX_AGE_MS = 15_000;
+
+/**
+ * Local stand-in for Trading212 with the same surface as `Trading212Client`.
+ *
+ * Orders follow the live lifecycle (NEW -> WORKING -> FILLED / CANCELLED /
+ * REJECTED) and fill against quotes pushed via `updateQuote()` or pulled from
+ * the quote provider, so order polling, replacement, sync and broker-side stops
+ * run through the same code paths as live. As on Trading212, a negative
+ * quantity is a sell. State lives in memory; a restart opens a fresh account.
+ */
+export class PaperBroker implements Trading212Api {
+  private cash: number;
+  private readonly currency: string;
+  private readonly spreadBps: number;
+  private readonly enforceRateLimits: boolean;
+  private readonly allowShort: boolean;
+  private readonly quoteMaxAgeMs: number;
+  private readonly quoteProvider: PaperBrokerOptions['quoteProvider'];
+  private readonly metadata: PaperBrokerOptions['metadata'];
+  private readonly now: () => number;
+
+  private orders = new Map<number, PaperOrder>();
+  private positions = new Map<string, PaperPosition>();
+  private quotes = new Map<string, Quote>();
+  private transactions: Transaction[] = [];
+  private realizedPnl = 0;
+  private nextOrderId = 1;
+  private rateWindows = new Map<string, RateWindow>();
+  private lastRateLimitInfo = new Map<string, RateLimitInfo>();
+  private intervalHandle: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: PaperBrokerOptions = {}) {
+    this.cash = options.initialCash ?? 10_000;
+    this.currency = options.currency ?? 'USD';
+    this.spreadBps = options.spreadBps ?? 0;
+    this.enforceRateLimits = options.enforceRateLimits ?? false;
+    this.allowShort = options.allowShort ?? false;
+    this.quoteMaxAgeMs = options.quoteMaxAgeMs ?? DEFAULT_QUOTE_MAX_AGE_MS;
+    this.quoteProvider = options.quoteProvider;
+    this.metadata = options.metadata;
+    this.now = options.now ?? Date.now;
+
+    this.transactions.push({
+      amount: this.cash,
+      dateTime: this.isoNow(),
+      type: 'DEPOSIT',
+      currency: this.currency,
+      reference: 'paper-initial-deposit',
+    });
+    log.info({ initialCash: this.cash, currency: this.currency }, 'Paper broker initialized');
+  }
+
+  // ── Quote stream ─────────────────────────────────────────────────────
+
+  /** Feed a last-traded price; working orders for the ticker are matched against it. */
+  updateQuote(ticker: string, price: number): void {
+    if (!(price > 0)) return;
+    this.quotes.set(ticker, { price, at: this.now() });
+    this.matchOrders(ticker);
+  }
+
+  /** Poll the quote provider on an interval so resting orders trigger without callers polling. */
+  start(intervalSeconds: number): void {
+    if (this.intervalHandle || !this.quoteProvider) return;
+    this.intervalHandle = setInterval(() => {
+      this.refreshQuotes(true).catch((err) => log.warn({ err }, 'Paper quote refresh failed'));
+    }, intervalSeconds * 1000);
+    log.info({ intervalSeconds }, 'Paper broker quote polling started');
+  }
+
+  stop(): void {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  // ── Rate limits ──────────────────────────────────────────────────────
+
+  getRateLimitInfo(endpoint: string): RateLimitInfo | null {
+    return this.lastRateLimitInfo.get(endpoint) ?? null;
+  }
+
+  /** Simulated calls never queue; rate limits are enforced inline when enabled. */
+  getQueueStats(): RequestQueueStats | null {
+    return null;
+  }
+
+  // ── Account ──────────────────────────────────────────────────────────
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    this.hit('GET /equity/account/info', '/equity/account/info');
+    return { id: 0, currencyCode: this.currency };
+  }
+
+  async getAccountCash(): Promise<AccountCash> {
+    this.hit('GET /equity/account/cash', '/equity/account/cash');
+    await this.refreshQuotes();
+    const { invested, value, ppl } = this.portfolioTotals();
+    const reserved = this.reservedCash();
+    return {
+      free: round(this.cash - reserved),
+      total: round(this.cash + value),
+      availableToTrade: round(this.cash - reserved),
+      reservedForOrders: round(reserved),
+      invested: round(invested),
+      ppl: round(ppl),
+      result: round(this.realizedPnl),
+      inPies: 0,
+      pieCash: 0,
+      blocked: 0,
+    };
+  }
+
+  async getAccountSummary(): Promise<AccountSummary> {
+    this.hit('GET /equity/account/summary', '/equity/account/summary');
+    await this.refreshQuotes();
+    const { invested, value, ppl } = this.portfolioTotals();
+    const reserved = this.reservedCash();
+    return {
+      id: 0,
+      currency: this.currency,
+      cash: {
+        availableToTrade: round(this.cash - reserved),
+        inPies: 0,
+        reservedForOrders: round(reserved),
+      },
+      investments: {
+        currentValue: round(value),
+        totalCost: round(invested),
+        unrealizedProfitLoss: round(ppl),
+        realizedProfitLoss: round(this.realizedPnl),
+      },
+      totalValue: round(this.cash + value),
+    };
+  }
+
+  // ── Portfolio ────────────────────────────────────────────────────────
+
+  async getPortfolio(): Promise<Position[]> {
+    this.hit('GET /equity/portfolio', '/equity/portfolio');
+    await this.refreshQuotes();
+    return [...this.positions.values()].map((p) => this.toPosition(p));
+  }
+
+  async getPosition(ticker: string): Promise<Position> {
+    this.hit('GET /equity/portfolio/:ticker', `/equity/portfolio/${encodeURIComponent(ticker)}`);
+    await this.refreshQuotes();
+    const position = this.positions.get(ticker);
+    if (!position) throw apiError(404, 'PositionNotFound', `No open position for ${ticker}`);
+    return this.toPosition(position);
+  }
+
+  // ── Orders ───────────────────────────────────────────────────────────
+
+  async getOrders(): Promise<Order[]> {
+    this.hit('GET /equity/orders', '/equity/orders');
+    await this.refreshQuotes();
+    return [...this.orders.values()]
+      .filter((o) => o.status === 'NEW' || o.status === 'WORKING')
+      .map((o) => this.toOrder(o));
+  }
+
+  async getOrder(orderId: number): Promise<Order> {
+    this.hit('GET /equity/orders/:id', `/equity/orders/${orderId}`);
+    await this.refreshQuotes();
+    return this.toOrder(this.requireOrder(orderId));
+  }
+
+  async cancelOrder(orderId: number): Promise<void> {
+    this.hit('DELETE /equity/orders/:id', `/equity/orders/${orderId}`);
+    const order = this.requireOrder(orderId);
+    if (order.status !== 'NEW' && order.status !== 'WORKING') {
+      throw apiError(400, 'OrderNotCancellable', `Order ${orderId} is already ${order.status}`);
+    }
+    this.close(order, 'CANCELLED');
+    log.info({ orderId, ticker: order.ticker }, 'Paper order cancelled');
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<Order> {
+    this.hit('POST /equity/orders/market', '/equity/orders/market');
+    return this.submit('MARKET', order.ticker, order.quantity, order.timeValidity ?? 'DAY');
+  }
+
+  async placeLimitOrder(order: LimitOrderRequest): Promise<Order> {
+    this.hit('POST /equity/orders/limit', '/equity/orders/limit');
+    return this.submit('LIMIT', order.ticker, order.quantity, order.timeValidity ?? 'DAY', {
+      limitPrice: order.limitPrice,
+    });
+  }
+
+  async placeStopOrder(order: StopOrderRequest): Promise<Order> {
+    this.hit('POST /equity/orders/stop', '/equity/orders/stop');
+    return this.submit('STOP', order.ticker, order.quantity, order.timeValidity ?? 'GTC', {
+      stopPrice: order.stopPrice,
+    });
+  }
+
+  async placeStopLimitOrder(order: StopLimitOrderRequest): Promise<Order> {
+    this.hit('POST /equity/orders/stop_limit', '/equity/orders/stop_limit');
+    return this.submit('STOP_LIMIT', order.ticker, order.quantity, order.timeValidity ?? 'GTC', {
+      limitPrice: order.limitPrice,
+      stopPrice: order.stopPrice,
+    });
+  }
+
+  // ── Metadata ─────────────────────────────────────────────────────────
+
+  async getInstruments(): Promise<Instrument[]> {
+    this.hit('GET /equity/metadata/instruments', '/equity/metadata/instruments');
+    return this.metadata ? this.metadata.getInstruments() : [];
+  }
+
+  async getExchanges(): Promise<Exchange[]> {
+    this.hit('GET /equity/metadata/exchanges', '/equity/metadata/exchanges');
+    return this.metadata ? this.metadata.getExchanges() : [];
+  }
+
+  // ── Pies (not simulated) ─────────────────────────────────────────────
+
+  async getPies(): Promise<Pie[]> {
+    return [];
+  }
+
+  async getPie(pieId: number): Promise<Pie> {
+    throw apiError(404, 'PieNotFound', `Pie ${pieId} not found`);
+  }
+
+  async createPie(_pie: CreatePieRequest): Promise<Pie> {
+    throw apiError(501, 'NotSupported', 'Pies are not supported by the paper broker');
+  }
+
+  async updatePie(pieId: number, _pie: Partial<CreatePieRequest>): Promise<Pie> {
+    throw apiError(404, 'PieNotFound', `Pie ${pieId} not found`);
+  }
+
+  async deletePie(pieId: number): Promise<void> {
+    throw apiError(404, 'PieNotFound', `Pie ${pieId} not found`);
+  }
+
+  // ── History ──────────────────────────────────────────────────────────
+
+  async getOrderHistory(params?: {
+    cursor?: number;
+    limit?: number;
+    ticker?: string;
+  }): Promise<{ items: HistoricalOrder[]; nextPagePath?: string }> {
+    this.hit('GET /equity/history/orders', '/equity/history/orders');
+    const closed = [...this.orders.values()]
+      .filter((o) => o.status === 'FILLED' || o.status === 'CANCELLED' || o.status === 'REJECTED')
+      .filter((o) => !params?.ticker || o.ticker === params.ticker)
+      .sort((a, b) => b.id - a.id)
+      .filter((o) => !params?.cursor || o.id < params.cursor);
+
+    const limit = params?.limit ?? 20;
+    const page = closed.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((o) => this.toHistoricalOrder(o)),
+      nextPagePath:
+        closed.length > limit && last
+          ? `/api/v0/equity/history/orders?cursor=${last.id}&limit=${limit}`
+          : undefined,
+    };
+  }
+
+  async getDividends(): Promise<{ items: Dividend[]; nextPagePath?: string }> {
+    this.hit('GET /history/dividends', '/history/dividends');
+    return { items: [] };
+  }
+
+  async getTransactions(): Promise<{ items: Transaction[]; nextPagePath?: string }> {
+    this.hit('GET /history/transactions', '/history/transactions');
+    return { items: [...this.transactions].reverse() };
+  }
+
+  async requestExport(_exportRequest: ExportRequest): Promise<{ reportId: number }> {
+    throw apiError(501, 'NotSupported', 'Exports are not supported by the paper broker');
+  }
+
+  async getExports(): Promise<ExportReport[]> {
+    this.hit('GET /history/exports', '/history/exports');
+    return [];
+  }
+
+  async downloadExport(_downloadLink: string): Promise<string> {
+    throw apiError(501, 'NotSupported', 'Exports are not supported by the paper broker');
+  }
+
+  // ── Order handling ───────────────────────────────────────────────────
+
+  private async submit(
+    type: OrderType,
+    ticker: string,
+    signedQuantity: number,
+    timeValidity: 'DAY' | 'GTC',
+    prices: { limitPrice?: number; stopPrice?: number } = {},
+  ): Promise<Order> {
+    if (!Number.isFinite(signedQuantity) || signedQuantity === 0) {
+      throw apiError(400, 'InvalidQuantity', 'Quantity must be a non-zero number');
+    }
+    for (const [name, value] of Object.entries(prices)) {
+      if (!(value > 0)) throw apiError(400, 'InvalidPrice', `${name} must be positive`);
+    }
+
+    const side: OrderSide = signedQuantity < 0 ? 'SELL' : 'BUY';
+    const quantity = Math.abs(signedQuantity);
+
+    if (side === 'SELL' && !this.allowShort) {
+      const available = this.availableToSell(ticker);
+      if (quantity > available + 1e-9) {
+        throw apiError(
+          400,
+          'SellingEquityNotOwned',
+          `Cannot sell ${quantity} ${ticker}: ${available} available`,
+        );
+      }
+    }
+
+    let quote = this.quotes.get(ticker);
+    if (type === 'MARKET' && (!quote || this.isStale(quote))) {
+      await this.refreshQuotes(false, [ticker]);
+      quote = this.quotes.get(ticker);
+    }
+
+    // Cash a BUY needs up front: the worst price it can fill at
+    const reserveAt =
+      type === 'MARKET'
+        ? quote
+          ? this.askFor(quote.price)
+          : undefined
+        : (prices.limitPrice ?? prices.stopPrice);
+    const reserved = side === 'BUY' && reserveAt != null ? quantity * reserveAt : 0;
+    if (side === 'BUY' && reserved > this.cash - this.reservedCash() + 1e-9) {
+      throw apiError(
+        400,
+        'InsufficientFreeForStocksBuy',
+        `Insufficient free cash for ${quantity} ${ticker}`,
+      );
+    }
+
+    const now = this.isoNow();
+    const order: PaperOrder = {
+      id: this.nextOrderId++,
+      ticker,
+      type,
+      side,
+      quantity,
+      ...prices,
+      timeValidity,
+      status: 'NEW',
+      triggered: false,
+      reserved,
+      filledQuantity: 0,
+      filledValue: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+    log.info({ orderId: order.id, ticker, type, side, quantity, ...prices }, 'Paper order placed');
+
+    // The placement response shows the order as accepted; matching happens after it
+    const response = this.toOrder(order);
+    if (quote) this.match(order, quote.price);
+    return response;
+  }
+
+  private matchOrders(ticker: string): void {
+    const quote = this.quotes.get(ticker);
+    if (!quote) return;
+    for (const order of this.orders.values()) {
+      if (order.ticker === ticker) this.match(order, quote.price);
+    }
+  }
+
+  private match(order: PaperOrder, price: number): void {
+    if (order.status !== 'NEW' && order.status !== 'WORKING') return;
+
+    if (
+      order.timeValidity === 'DAY' &&
+      order.createdAt.slice(0, 10) !== this.isoNow().slice(0, 10)
+    ) {
+      this.close(order, 'CANCELLED');
+      log.info({ orderId: order.id, ticker: order.ticker }, 'Paper DAY order expired');
+      return;
+    }
+
+    const buy = order.side === 'BUY';
+    const fillPrice = buy ? this.askFor(price) : this.bidFor(price);
+
+    if ((order.type === 'STOP' || order.type === 'STOP_LIMIT') && !order.triggered) {
+      const stop = order.stopPrice ?? 0;
+      order.triggered = buy ? price >= stop : price <= stop;
+      if (!order.triggered) {
+        this.markWorking(order);
+        return;
+      }
+      log.info({ orderId: order.id, ticker: order.ticker, price, stop }, 'Paper stop triggered');
+    }
+
+    if (order.type === 'LIMIT' || order.type === 'STOP_LIMIT') {
+      const limit = order.limitPrice ?? 0;
+      const marketable = buy ? fillPrice <= limit : fillPrice >= limit;
+      if (!marketable) {
+        this.markWorking(order);
+        return;
+      }
+    }
+
+    this.fill(order, fillPrice);
+  }
+
+  private fill(order: PaperOrder, price: number): void {
+    const value = order.quantity * price;
+    const position = this.positions.get(order.ticker);
+
+    if (order.side === 'BUY') {
+      // The order's own reservation is spendable; other orders' are not
+      const free = this.cash - this.reservedCash() + order.reserved;
+      if (value > free + 1e-9) {
+        this.close(order, 'REJECTED', 'InsufficientFreeForStocksBuy');
+        log.warn({ orderId: order.id, ticker: order.ticker, value, free }, 'Paper buy rejected');
+        return;
+      }
+    } else if (!this.allowShort && (!position || position.quantity < order.quantity - 1e-9)) {
+      this.close(order, 'REJECTED', 'SellingEquityNotOwned');
+      log.warn({ orderId: order.id, ticker: order.ticker }, 'Paper sell rejected');
+      return;
+    }
+
+    const delta = order.side === 'BUY' ? order.quantity : -order.quantity;
+    this.cash -= delta * price;
+    this.applyToPosition(order.ticker, position, delta, price);
+
+    order.filledQuantity = order.quantity;
+    order.filledValue = value;
+    this.close(order, 'FILLED');
+    log.info(
+      {
+        orderId: order.id,
+        ticker: order.ticker,
+        side: order.side,
+        quantity: order.quantity,
+        price,
+      },
+      'Paper order filled',
+    );
+  }
+
+  /**
+   * Move a position by a signed fill. Fills against the position realize
+   * P&L on the shares they close; fills with it average in; a fill that
+   * flips a long to a short (or back) restarts the position at the fill price.
+   */
+  private applyToPosition(
+    ticker: string,
+    position: PaperPosition | undefined,
+    delta: number,
+    price: number,
+  ): void {
+    const held = position?.quantity ?? 0;
+    const quantity = held + delta;
+
+    if (position && Math.sign(delta) !== Math.sign(held)) {
+      const closed = Math.min(Math.abs(delta), Math.abs(held));
+      this.realizedPnl += (price - position.averagePrice) * closed * Math.sign(held);
+    }
+
+    if (Math.abs(quantity) <= 1e-9) {
+      this.positions.delete(ticker);
+    } else if (!position || Math.sign(quantity) !== Math.sign(held)) {
+      this.positions.set(ticker, {
+        ticker,
+        quantity,
+        averagePrice: price,
+        initialFillDate: this.isoNow(),
+      });
+    } else if (Math.abs(quantity) > Math.abs(held)) {
+      position.averagePrice =
+        (position.averagePrice * Math.abs(held) + price * Math.abs(delta)) / Math.abs(quantity);
+      position.quantity = quantity;
+    } else {
+      position.quantity = quantity;
+    }
+  }
+
+  private markWorking(order: PaperOrder): void {
+    if (order.status === 'NEW') {
+      order.status = 'WORKING';
+      order.updatedAt = this.isoNow();
+    }
+  }
+
+  private close(order: PaperOrder, status: PaperOrderStatus, reason?: string): void {
+    order.status = status;
+    order.reserved = 0;
+    order.rejectReason = reason;
+    order.updatedAt = this.isoNow();
+  }
+
+  private requireOrder(orderId: number): PaperOrder {
+    const order = this.orders.get(orderId);
+    if (!order) throw apiError(404, 'OrderNotFound', `Order ${orderId} not found`);
+    return order;
+  }
+
+  private reservedCash(): number {
+    let total = 0;
+    for (const order of this.orders.values()) total += order.reserved;
+    return total;
+  }
+
+  /** Shares not already committed to working sell orders. */
+  private availableToSell(ticker: string): number {
+    const held = this.positions.get(ticker)?.quantity ?? 0;
+    let pending = 0;
+    for (const order of this.orders.values()) {
+      if (
+        order.ticker === ticker &&
+        order.side === 'SELL' &&
+        (order.status === 'NEW' || order.status === 'WORKING')
+      ) {
+        pending += order.quantity;
+      }
+    }
+    return Math.max(0, held - pending);
+  }
+
+  // ── Quotes ───────────────────────────────────────────────────────────
+
+  /**
+   * Pull quotes for tickers with working orders or positions. Only stale quotes
+   * are fetched unless `force` is set.
+   */
+  private async refreshQuotes(force = false, tickers?: string[]): Promise<void> {
+    if (!this.quoteProvider) return;
+
+    const wanted = new Set(tickers ?? []);
+    if (!tickers) {
+      for (const order of this.orders.values()) {
+        if (order.status === 'NEW' || order.status === 'WORKING') wanted.add(order.ticker);
+      }
+      for (const ticker of this.positions.keys()) wanted.add(ticker);
+    }
+    const due = [...wanted].filter((t) => {
+      const quote = this.quotes.get(t);
+      return force || !quote || this.isStale(quote);
+    });
+    if (due.length === 0) return;
+
+    try {
+      const prices = await this.quoteProvider(due);
+      for (const [ticker, price] of prices) this.updateQuote(ticker, price);
+    } catch (err) {
+      log.warn({ err, tickers: due }, 'Paper broker quote provider failed');
+    }
+  }
+
+  private isStale(quote: Quote): boolean {
+    return this.now() - quote.at > this.quoteMaxAgeMs;
+  }
+
+  private askFor(price: number): number {
+    return price * (1 + this.spreadBps / 20_000);
+  }
+
+  private bidFor(price: number): number {
+    return price * (1 - this.spreadBps / 20_000);
+  }
+
+  // ── Rate limiting ────────────────────────────────────────────────────
+
+  /** Count a call against its endpoint's window and record the headers live would return. */
+  private hit(key: string, endpoint: string): void {
+    const limits = T212_RATE_LIMITS[key];
+    if (!limits) return;
+    const [limit, period] = limits;
+    const now = this.now();
+
+    let window = this.rateWindows.get(key);
+    if (!window || now - window.start >= period * 1000) {
+      window = { start: now, used: 0 };
+      this.rateWindows.set(key, window);
+    }
+    const reset = Math.ceil((window.start + period * 1000) / 1000);
+
+    if (this.enforceRateLimits && window.used >= limit) {
+      throw RateLimitError.fromHeaders({
+        'x-ratelimit-limit': String(limit),
+        'x-ratelimit-period': String(period),
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(reset),
+        'x-ratelimit-used': String(window.used),
+      });
+    }
+
+    window.used++;
+    this.lastRateLimitInfo.set(endpoint, {
+      limit,
+      period,
+      remaining: Math.max(0, limit - window.used),
+      reset,
+      used: window.used,
+    });
+  }
+
+  // ── Response shapes ──────────────────────────────────────────────────
+
+  private portfolioTotals(): { invested: number; value: number; ppl: number } {
+    let invested = 0;
+    let value = 0;
+    for (const position of this.positions.values()) {
+      const price = this.quotes.get(position.ticker)?.price ?? position.averagePrice;
+      invested += position.quantity * position.averagePrice;
+      value += position.quantity * price;
+    }
+    return { invested, value, ppl: value - invested };
+  }
+
+  private toPosition(position: PaperPosition): Position {
+    const currentPrice = this.quotes.get(position.ticker)?.price ?? position.averagePrice;
+    const available = this.availableToSell(position.ticker);
+    return {
+      ticker: position.ticker,
+      quantity: position.quantity,
+      averagePrice: round(position.averagePrice, 6),
+      currentPrice,
+      ppl: round((currentPrice - position.averagePrice) * position.quantity),
+      initialFillDate: position.initialFillDate,
+      quantityAvailableForTrading: available,
+      maxSell: available,
+      pieQuantity: 0,
+      frontend: 'API',
+    };
+  }
+
+  private toOrder(order: PaperOrder): Order {
+    const sign = order.side === 'SELL' ? -1 : 1;
+    return {
+      id: order.id,
+      ticker: order.ticker,
+      type: order.type,
+      side: order.side,
+      status: order.status,
+      quantity: sign * order.quantity,
+      filledQuantity: sign * order.filledQuantity,
+      ...(order.filledQuantity > 0 ? { filledValue: round(order.filledValue, 6) } : {}),
+      ...(order.limitPrice != null ? { limitPrice: order.limitPrice } : {}),
+      ...(order.stopPrice != null ? { stopPrice: order.stopPrice } : {}),
+      timeValidity: order.timeValidity,
+      createdAt: order.createdAt,
+      currency: this.currency,
+      strategy: 'QUANTITY',
+      extendedHours: false,
+      initiatedFrom: 'API',
+    };
+  }
+
+  private toHistoricalOrder(order: PaperOrder): HistoricalOrder {
+    const sign = order.side === 'SELL' ? -1 : 1;
+    return {
+      id: order.id,
+      ticker: order.ticker,
+      type: order.type,
+      status: order.status,
+      dateCreated: order.createdAt,
+      dateModified: order.updatedAt,
+      ...(order.status === 'FILLED'
+        ? {
+            dateExecuted: order.updatedAt,
+            fillPrice: round(order.filledValue / order.filledQuantity, 6),
+            filledQuantity: sign * order.filledQuantity,
+            filledValue: round(order.filledValue, 6),
+            fillType: 'TOTV',
+          }
+        : {}),
+      orderedQuantity: sign * order.quantity,
+      ...(order.limitPrice != null ? { limitPrice: order.limitPrice } : {}),
+      ...(order.stopPrice != null ? { stopPrice: order.stopPrice } : {}),
+      timeValidity: order.timeValidity,
+      executor: 'API',
+    };
+  }
+
+  private isoNow(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+/** Mirrors the error the real client raises for a non-2xx response. */
+function apiError(status: number, code: string, message: string): ApiError {
+  return new ApiError(
+    `Trading 212 API Error (${status}): ${message}`,
+    status,
+    JSON.stringify({ code, message }),
+  );
+}
@@ -0,0 +1,40 @@
+/** Trading212's published limits as [requests, period in seconds] per endpoint. */
+export const T212_RATE_LIMITS: Record<string, [number, number]> = {
+  'GET /equity/account/info': [1, 30],
+  'GET /equity/account/cash': [1, 2],
+  'GET /equity/account/summary': [1, 5],
+  'GET /equity/portfolio': [1, 5],
+  'GET /equity/portfolio/:ticker': [1, 1],
+  'GET /equity/orders': [1, 5],
+  'GET /equity/orders/:id': [1, 1],
+  'DELETE /equity/orders/:id': [50, 60],
+  'POST /equity/orders/market': [50, 60],
+  'POST /equity/orders/limit': [1, 2],
+  'POST /equity/orders/stop': [1, 2],
+  'POST /equity/orders/stop_limit': [1, 2],
+  'GET /equity/metadata/instruments': [1, 50],
+  'GET /equity/metadata/exchanges': [1, 30],
+  'GET /equity/pies': [1, 30],
+  'GET /equity/pies/:id': [1, 5],
+  'POST /equity/pies': [1, 5],
+  'POST /equity/pies/:id': [1, 5],
+  'DELETE /equity/pies/:id': [1, 5],
+  'GET /equity/history/orders': [6, 60],
+  'GET /history/dividends': [6, 60],
+  'GET /history/transactions': [6, 60],
+  'POST /history/exports': [1, 30],
+  'GET /history/exports': [1, 60],
+};
+
+/**
+ * The rate-limit key of a request: method and path with the query string
+ * dropped and IDs and tickers replaced by placeholders, e.g.
+ * `GET /equity/orders/:id`. Limits apply per key, not per URL.
+ */
+export function rateLimitKey(method: string, endpoint: string): string {
+  const path = endpoint
+    .split('?')[0]
+    .replace(/^\/equity\/portfolio\/[^/]+$/, '/equity/portfolio/:ticker')
+    .replace(/^\/equity\/(orders|pies)\/\d+$/, '/equity/$1/:id');
+  return `${method.toUpperCase()} ${path}`;
+}
@@ -0,0 +1,284 @@
+import { createLogger } from '../../utils/logger.js';
+import { RateLimitError } from './errors.js';
+import { rateLimitKey, T212_RATE_LIMITS } from './rate-limits.js';
+import type { RateLimitInfo } from './types.js';
+
+const log = createLogger('request-scheduler');
+
+/** First retry delay after a 429 whose reset time has already passed; doubles per attempt. */
+const BASE_BACKOFF_MS = 1_000;
+
+export type RequestPriority = 'critical' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { critical: 0, normal: 1, low: 2 };
+
+export interface RequestSchedulerOptions {
+  /** Requests allowed on the wire at once across all endpoints */
+  maxConcurrent: number;
+  /** Times a rate-limited request is re-queued before its 429 is surfaced */
+  maxRetries: number;
+}
+
+export interface RequestQueueStats {
+  name: string;
+  queued: number;
+  inFlight: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  /** GETs answered by an identical request already queued or in flight */
+  coalesced: number;
+  /** 429 responses seen since start */
+  rateLimited: number;
+  /** Endpoint keys waiting out a rate-limit reset */
+  blockedEndpoints: string[];
+}
+
+interface Bucket {
+  capacity: number;
+  refillPerMs: number;
+  tokens: number;
+  updatedAt: number;
+  blockedUntil: number;
+}
+
+interface QueuedRequest {
+  key: string;
+  priority: RequestPriority;
+  seq: number;
+  attempts: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * The priority a request is queued with: placing and cancelling orders
+ * beats polling, and polling beats history, metadata and pie calls.
+ */
+export function requestPriority(method: string, endpoint: string): RequestPriority {
+  const path = endpoint.split('?')[0];
+  if (method.toUpperCase() !== 'GET' && path.startsWith('/equity/orders')) return 'critical';
+  if (
+    path.startsWith('/equity/history') ||
+    path.startsWith('/history') ||
+    path.startsWith('/equity/metadata') ||
+    path.startsWith('/equity/pies')
+  ) {
+    return 'low';
+  }
+  return 'normal';
+}
+
+/**
+ * Central queue for one Trading212 account's requests. Each endpoint gets a
+ * token bucket seeded from the published limits and kept in step with the
+ * x-ratelimit headers, so calls wait for their own endpoint instead of
+ * tripping a 429. Waiting requests run by priority, identical GETs share one
+ * response, and a 429 parks the endpoint until its reset before retrying.
+ */
+export class RequestScheduler {
+  private buckets = new Map<string, Bucket>();
+  private queue: QueuedRequest[] = [];
+  private pendingReads = new Map<string, Promise<unknown>>();
+  private inFlight = 0;
+  private seq = 0;
+  private coalesced = 0;
+  private rateLimited = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private name: string,
+    private options: RequestSchedulerOptions,
+  ) {}
+
+  /**
+   * Queue `run` behind the endpoint's rate limit. A GET for a URL that is
+   * already queued or in flight returns that request's result instead.
+   */
+  schedule<T>(method: string, endpoint: string, run: () => Promise<T>): Promise<T> {
+    const upper = method.toUpperCase();
+    const readKey = `${upper} ${endpoint}`;
+    if (upper === 'GET') {
+      const pending = this.pendingReads.get(readKey);
+      if (pending) {
+        this.coalesced++;
+        return pending as Promise<T>;
+      }
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        key: rateLimitKey(upper, endpoint),
+        priority: requestPriority(upper, endpoint),
+        seq: this.seq++,
+        attempts: 0,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+
+    if (upper === 'GET') {
+      this.pendingReads.set(readKey, promise);
+      const clear = () => this.pendingReads.delete(readKey);
+      promise.then(clear, clear);
+    }
+
+    this.pump();
+    return promise;
+  }
+
+  /** Align an endpoint's bucket with the rate-limit headers of its latest response. */
+  observe(method: string, endpoint: string, info: RateLimitInfo): void {
+    const key = rateLimitKey(method, endpoint);
+    const now = Date.now();
+    const bucket = this.bucketFor(key, now) ?? this.createBucket(key, info.limit, info.period, now);
+    if (info.limit > 0 && info.period > 0) {
+      bucket.capacity = info.limit;
+      bucket.refillPerMs = info.limit / (info.period * 1000);
+    }
+    bucket.tokens = Math.min(bucket.tokens, info.remaining);
+    if (info.remaining <= 0 && info.reset * 1000 > now) {
+      bucket.blockedUntil = Math.max(bucket.blockedUntil, info.reset * 1000);
+    }
+  }
+
+  getStats(): RequestQueueStats {
+    const now = Date.now();
+    const queuedByPriority: Record<RequestPriority, number> = { critical: 0, normal: 0, low: 0 };
+    for (const request of this.queue) queuedByPriority[request.priority]++;
+
+    return {
+      name: this.name,
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      queuedByPriority,
+      coalesced: this.coalesced,
+      rateLimited: this.rateLimited,
+      blockedEndpoints: [...this.buckets]
+        .filter(([, bucket]) => bucket.blockedUntil > now)
+        .map(([key]) => key),
+    };
+  }
+
+  /** Keep the queue ordered by priority, then by arrival. */
+  private enqueue(request: QueuedRequest): void {
+    const rank = PRIORITY_RANK[request.priority];
+    const index = this.queue.findIndex(
+      (queued) =>
+        PRIORITY_RANK[queued.priority] > rank ||
+        (PRIORITY_RANK[queued.priority] === rank && queued.seq > request.seq),
+    );
+    if (index === -1) this.queue.push(request);
+    else this.queue.splice(index, 0, request);
+  }
+
+  /** Start every queued request whose endpoint has a token, then sleep until the next one does. */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let wakeAt = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < this.queue.length && this.inFlight < this.options.maxConcurrent; ) {
+      const request = this.queue[i];
+      const waitMs = this.waitFor(request.key, now);
+      if (waitMs > 0) {
+        wakeAt = Math.min(wakeAt, now + waitMs);
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      this.start(request, now);
+    }
+
+    if (this.queue.length > 0 && Number.isFinite(wakeAt)) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, wakeAt - Date.now()));
+    }
+  }
+
+  private start(request: QueuedRequest, now: number): void {
+    const bucket = this.bucketFor(request.key, now);
+    if (bucket) bucket.tokens -= 1;
+    this.inFlight++;
+    request.attempts++;
+
+    request
+      .run()
+      .then(request.resolve, (err) => this.handleFailure(request, err))
+      .finally(() => {
+        this.inFlight--;
+        this.pump();
+      });
+  }
+
+  private handleFailure(request: QueuedRequest, err: unknown): void {
+    if (!(err instanceof RateLimitError)) {
+      request.reject(err);
+      return;
+    }
+
+    this.rateLimited++;
+    const now = Date.now();
+    const resetMs = err.resetAt * 1000;
+    const until = resetMs > now ? resetMs : now + BASE_BACKOFF_MS * 2 ** (request.attempts - 1);
+    const bucket = this.bucketFor(request.key, now) ?? this.createBucket(request.key, 0, 0, now);
+    bucket.tokens = 0;
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, until);
+
+    if (request.attempts > this.options.maxRetries) {
+      log.warn({ queue: this.name, key: request.key }, 'Rate limited — retries exhausted');
+      request.reject(err);
+      return;
+    }
+    log.warn(
+      { queue: this.name, key: request.key, retryInMs: until - now, attempt: request.attempts },
+      'Rate limited — request re-queued',
+    );
+    this.enqueue(request);
+  }
+
+  /** Milliseconds until `key` may send again; 0 when it can go now. */
+  private waitFor(key: string, now: number): number {
+    const bucket = this.bucketFor(key, now);
+    if (!bucket) return 0;
+    if (bucket.blockedUntil > now) return bucket.blockedUntil - now;
+    if (bucket.tokens >= 1) return 0;
+    // A bucket created from a 429 without limit headers only knows its reset time
+    if (bucket.refillPerMs <= 0) return 0;
+    return Math.ceil((1 - bucket.tokens) / bucket.refillPerMs);
+  }
+
+  /** The endpoint's bucket, refilled to `now`. Unknown endpoints have none until headers arrive. */
+  private bucketFor(key: string, now: number): Bucket | null {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const limits = T212_RATE_LIMITS[key];
+      if (!limits) return null;
+      bucket = this.createBucket(key, limits[0], limits[1], now);
+    }
+    if (bucket.refillPerMs > 0) {
+      bucket.tokens = Math.min(
+        bucket.capacity,
+        bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs,
+      );
+    } else if (bucket.blockedUntil <= now) {
+      bucket.tokens = Math.max(bucket.tokens, 1);
+    }
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private createBucket(key: string, limit: number, periodSeconds: number, now: number): Bucket {
+    const bucket: Bucket = {
+      capacity: Math.max(limit, 1),
+      refillPerMs: limit > 0 && periodSeconds > 0 ? limit / (periodSeconds * 1000) : 0,
+      tokens: Math.max(limit, 1),
+      updatedAt: now,
+      blockedUntil: 0,
+    };
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
@@ -300,6 +300,17 @@ export const ExportRequestSchema = z.object({
   timeTo: z.string(),
 });
 
+export const ExportReportSchema = z
+  .object({
+    reportId: z.number(),
+    status: z.string(), // 'Queued', 'Processing', 'Running', 'Canceled', 'Failed', 'Finished'
+    downloadLink: z.string().optional(),
+    timeFrom: z.string().optional(),
+    timeTo: z.string().optional(),
+    dataIncluded: z.object({}).passthrough().optional(),
+  })
+  .passthrough();
+
 // Rate limit info
 export interface RateLimitInfo {
   limit: number;
@@ -327,3 +338,4 @@ export type HistoricalOrder = z.infer<typeof HistoricalOrderSchema>;
 export type Dividend = z.infer<typeof DividendSchema>;
 export type Transaction = z.infer<typeof TransactionSchema>;
 export type ExportRequest = z.infer<typeof ExportRequestSchema>;
+export type ExportReport = z.infer<typeof ExportReportSchema>;
@@ -1,3 +1,5 @@
+import { configManager } from '../config/manager.js';
+import { type CandleStore, getCandleStore } from '../data/candle-store.js';
 import { YahooFinanceClient } from '../data/yahoo-finance.js';
 import { createLogger } from '../utils/logger.js';
 import type { Candle } from './types.js';
@@ -6,9 +8,12 @@ const log = createLogger('backtest-data-loader');
 
 export class BacktestDataLoader {
   private yahooClient: YahooFinanceClient;
+  private candleStore: CandleStore | null;
 
-  constructor(yahooClient?: YahooFinanceClient) {
+  /** With a candleStore, history is read from (and topped up into) the local store. */
+  constructor(yahooClient?: YahooFinanceClient, candleStore?: CandleStore) {
     this.yahooClient = yahooClient ?? new YahooFinanceClient();
+    this.candleStore = candleStore ?? null;
   }
 
   /**
@@ -28,10 +33,12 @@ export class BacktestDataLoader {
 
     log.info({ symbol, startDate, endDate, lookbackDays: totalDays }, 'Loading OHLCV data');
 
-    const rawCandles = await this.yahooClient.getHistoricalData(symbol, totalDays);
+    const rawCandles = this.candleStore
+      ? await this.candleStore.load(symbol, lookbackStart.toISOString().slice(0, 10), endDate)
+      : await this.yahooClient.getHistoricalData(symbol, totalDays);
 
     if (rawCandles.length === 0) {
-      log.warn({ symbol }, 'No data returned from Yahoo Finance');
+      log.warn({ symbol }, 'No OHLCV data available');
       return [];
     }
 
@@ -107,3 +114,11 @@ export class BacktestDataLoader {
     return commonDates.sort();
   }
 }
+
+/** Data loader for production backtests, honouring `data.candleStore.enabled`. */
+export function createBacktestDataLoader(): BacktestDataLoader {
+  if (!configManager.get<boolean>('data.candleStore.enabled')) {
+    return new BacktestDataLoader();
+  }
+  return new BacktestDataLoader(undefined, getCandleStore());
+}
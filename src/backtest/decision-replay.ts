@@ -0,0 +1,254 @@
+import { and, gte, inArray, isNotNull, lte } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import { modelPerformance, signals } from '../db/schema.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('backtest-decision-replay');
+
+export interface RecordedDecision {
+  symbol: string;
+  timestamp: string;
+  decision: 'BUY' | 'SELL' | 'HOLD';
+  /** 0-100, as produced by the AI agent */
+  conviction: number;
+  aiModel: string | null;
+  reasoning: string | null;
+  source: 'signals' | 'model_performance';
+}
+
+/** A run of consecutive trading days with no recorded decision for a symbol. */
+export interface ReplayCoverageGap {
+  symbol: string;
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface ReplayReport {
+  model: string | null;
+  decisionsLoaded: number;
+  decisionsUsed: number;
+  symbolDays: number;
+  coveredSymbolDays: number;
+  coveragePct: number;
+  gaps: ReplayCoverageGap[];
+}
+
+/**
+ * Load stored AI decisions for the given symbols and date range.
+ *
+ * `signals` is the primary source (it carries reasoning and every decision,
+ * including HOLDs). `model_performance` only fills symbol/days that have no
+ * signal row, which covers predictions recorded after signals were pruned.
+ */
+export function loadRecordedDecisions(
+  symbols: string[],
+  startDate: string,
+  endDate: string,
+  model?: string,
+): RecordedDecision[] {
+  if (symbols.length === 0) return [];
+
+  const db = getDb();
+  const from = `${startDate}T00:00:00.000Z`;
+  const to = `${endDate}T23:59:59.999Z`;
+
+  const signalRows = db
+    .select({
+      symbol: signals.symbol,
+      timestamp: signals.timestamp,
+      decision: signals.decision,
+      aiScore: signals.aiScore,
+      aiModel: signals.aiModel,
+      aiReasoning: signals.aiReasoning,
+    })
+    .from(signals)
+    .where(
+      and(
+        inArray(signals.symbol, symbols),
+        gte(signals.timestamp, from),
+        lte(signals.timestamp, to),
+        isNotNull(signals.decision),
+        isNotNull(signals.aiScore),
+      ),
+    )
+    .all();
+
+  const predictionRows = db
+    .select({
+      symbol: modelPerformance.symbol,
+      timestamp: modelPerformance.signalTimestamp,
+      decision: modelPerformance.decision,
+      conviction: modelPerformance.conviction,
+      aiModel: modelPerformance.aiModel,
+    })
+    .from(modelPerformance)
+    .where(
+      and(
+        inArray(modelPerformance.symbol, symbols),
+        gte(modelPerformance.signalTimestamp, from),
+        lte(modelPerformance.signalTimestamp, to),
+      ),
+    )
+    .all();
+
+  const decisions: RecordedDecision[] = [];
+  const seenDays = new Set<string>();
+
+  for (const row of signalRows) {
+    if (!row.decision || row.aiScore == null) continue;
+    if (model && row.aiModel !== model) continue;
+    decisions.push({
+      symbol: row.symbol,
+      timestamp: row.timestamp,
+      decision: row.decision,
+      conviction: row.aiScore,
+      aiModel: row.aiModel,
+      reasoning: row.aiReasoning,
+      source: 'signals',
+    });
+    seenDays.add(`${row.symbol}|${row.timestamp.slice(0, 10)}`);
+  }
+
+  for (const row of predictionRows) {
+    if (model && row.aiModel !== model) continue;
+    if (seenDays.has(`${row.symbol}|${row.timestamp.slice(0, 10)}`)) continue;
+    decisions.push({
+      symbol: row.symbol,
+      timestamp: row.timestamp,
+      decision: row.decision,
+      conviction: row.conviction,
+      aiModel: row.aiModel,
+      reasoning: null,
+      source: 'model_performance',
+    });
+  }
+
+  decisions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  log.info(
+    {
+      symbols: symbols.length,
+      fromSignals: signalRows.length,
+      fromPredictions: predictionRows.length,
+      loaded: decisions.length,
+      model: model ?? null,
+    },
+    'Recorded AI decisions loaded',
+  );
+
+  return decisions;
+}
+
+/**
+ * Replays recorded AI decisions on a backtest's trading calendar.
+ *
+ * Each decision is assigned to the last trading session on or before its
+ * timestamp (a weekend decision belongs to Friday's session), and the latest
+ * decision per symbol and session wins. The engine then acts on it at the next
+ * session's open, exactly like a score-based signal, so no decision is ever
+ * executed before it was made.
+ */
+export class DecisionReplay {
+  private readonly decisions: RecordedDecision[];
+  private readonly model: string | null;
+  private bySession = new Map<string, RecordedDecision>();
+  private used = 0;
+
+  constructor(decisions: RecordedDecision[], model?: string | null) {
+    this.decisions = decisions;
+    this.model = model ?? null;
+  }
+
+  static fromDatabase(
+    symbols: string[],
+    startDate: string,
+    endDate: string,
+    model?: string,
+  ): DecisionReplay {
+    return new DecisionReplay(loadRecordedDecisions(symbols, startDate, endDate, model), model);
+  }
+
+  /** Map every decision onto the given (sorted) trading dates. */
+  align(tradingDates: string[]): void {
+    this.bySession.clear();
+    this.used = 0;
+    if (tradingDates.length === 0) return;
+
+    const sorted = [...this.decisions].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const decision of sorted) {
+      const session = lastSessionOnOrBefore(tradingDates, decision.timestamp.slice(0, 10));
+      if (!session) continue;
+      this.bySession.set(`${decision.symbol}|${session}`, decision);
+    }
+  }
+
+  /** The decision that applies to `symbol` for the session on `date`, if any. */
+  get(symbol: string, date: string): RecordedDecision | undefined {
+    return this.bySession.get(`${symbol}|${date}`);
+  }
+
+  /** Record that a decision resulted in a fill (entry or exit). */
+  markUsed(): void {
+    this.used++;
+  }
+
+  buildReport(symbols: string[], tradingDates: string[]): ReplayReport {
+    const gaps: ReplayCoverageGap[] = [];
+    let covered = 0;
+
+    for (const symbol of symbols) {
+      let gapStart: string | null = null;
+      let gapEnd: string | null = null;
+      let gapDays = 0;
+
+      for (const date of tradingDates) {
+        if (this.bySession.has(`${symbol}|${date}`)) {
+          covered++;
+          if (gapStart && gapEnd) {
+            gaps.push({ symbol, from: gapStart, to: gapEnd, days: gapDays });
+          }
+          gapStart = null;
+          gapEnd = null;
+          gapDays = 0;
+          continue;
+        }
+        gapStart ??= date;
+        gapEnd = date;
+        gapDays++;
+      }
+
+      if (gapStart && gapEnd) {
+        gaps.push({ symbol, from: gapStart, to: gapEnd, days: gapDays });
+      }
+    }
+
+    const symbolDays = symbols.length * tradingDates.length;
+    return {
+      model: this.model,
+      decisionsLoaded: this.decisions.length,
+      decisionsUsed: this.used,
+      symbolDays,
+      coveredSymbolDays: covered,
+      coveragePct: symbolDays > 0 ? round(covered / symbolDays, 4) : 0,
+      gaps,
+    };
+  }
+}
+
+function lastSessionOnOrBefore(tradingDates: string[], day: string): string | null {
+  let lo = 0;
+  let hi = tradingDates.length - 1;
+  let found: string | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (tradingDates[mid] <= day) {
+      found = tradingDates[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
@@ -1,5 +1,15 @@
+import { ATR } from 'technicalindicators';
 import type { OHLCVCandle } from '../data/yahoo-finance.js';
 import { getRoiThreshold } from '../execution/roi-table.js';
+import {
+  directionalReturn,
+  isStopHit,
+  isTargetHit,
+  isTighterStop,
+  shortFinancingCost,
+  stopPriceFor,
+  targetPriceFor,
+} from '../execution/short-selling.js';
 import {
   calculateMaxDrawdown,
   computeCalmar,
@@ -10,7 +20,9 @@ import {
 } from '../monitoring/performance.js';
 import { round } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
-import { BacktestDataLoader } from './data-loader.js';
+import { BacktestDataLoader, createBacktestDataLoader } from './data-loader.js';
+import { DecisionReplay, type ReplayReport } from './decision-replay.js';
+import { createFillModel, type Fill, type FillModel } from './fill-model.js';
 import type {
   BacktestConfig,
   BacktestMetrics,
@@ -18,6 +30,7 @@ import type {
   BacktestResult,
   BacktestTrade,
   Candle,
+  CostReport,
   EntrySignal,
 } from './types.js';
 
@@ -36,16 +49,36 @@ export interface BacktestEngineOptions {
   config: BacktestConfig;
   scoreFn?: ScoreFn;
   dataLoader?: BacktestDataLoader;
+  /** Replay stored AI decisions instead of calling scoreFn. */
+  decisionReplay?: DecisionReplay;
+  /** Overrides the model built from `config.fillModel`. */
+  fillModel?: FillModel;
 }
 
 export class BacktestEngine {
-  private config: BacktestConfig;
-  private cash: number;
-  private positions: Map<string, BacktestPosition>;
-  private trades: BacktestTrade[];
-  private equityCurve: { date: string; equity: number }[];
-  private scoreFn: ScoreFn;
-  private dataLoader: BacktestDataLoader;
+  protected config: BacktestConfig;
+  protected cash: number;
+  protected positions: Map<string, BacktestPosition>;
+  protected trades: BacktestTrade[];
+  protected equityCurve: { date: string; equity: number }[];
+  protected scoreFn: ScoreFn;
+  protected dataLoader: BacktestDataLoader;
+  protected decisionReplay: DecisionReplay | null;
+  protected fillModel: FillModel;
+  protected costTotals = {
+    spread: 0,
+    slippage: 0,
+    fx: 0,
+    commission: 0,
+    financing: 0,
+    gapFills: 0,
+    partialFills: 0,
+  };
+  private replayReport: ReplayReport | undefined;
+  private dateIndex = new Map<string, Map<string, Candle>>();
+  /** symbol -> date -> ATR as of the previous close */
+  private atrIndex = new Map<string, Map<string, number>>();
+  private liquidating = false;
 
   constructor(options: BacktestEngineOptions) {
     this.config = options.config;
@@ -54,6 +87,8 @@ export class BacktestEngine {
     this.trades = [];
     this.equityCurve = [];
     this.dataLoader = options.dataLoader ?? new BacktestDataLoader();
+    this.decisionReplay = options.decisionReplay ?? null;
+    this.fillModel = options.fillModel ?? createFillModel(options.config.fillModel);
 
     // Default scoreFn: lazy-load the real scorer to avoid circular dependency issues
     this.scoreFn =
@@ -104,6 +139,12 @@ export class BacktestEngine {
 
     // 3. Build date-indexed maps for fast lookup
     const dateIndexed = this.buildDateIndex(allData);
+    this.dateIndex = dateIndexed;
+    if (this.fillModel.atrPeriod != null) {
+      this.atrIndex = buildAtrIndex(allData, this.fillModel.atrPeriod);
+    }
+    this.decisionReplay?.align(tradingDates);
+    await this.prepare(allData, tradingDates);
 
     // 4. Iterate day by day
     for (let i = 0; i < tradingDates.length; i++) {
@@ -111,8 +152,17 @@ export class BacktestEngine {
       const prices = dateIndexed.get(date);
       if (!prices) continue;
 
+      this.onDayStart(date, prices);
+      if (i > 0) this.accrueFinancing(tradingDates[i - 1], date, prices);
+
+      // Recorded AI SELLs from the previous session fill at today's open
+      if (this.decisionReplay && i > 0) {
+        this.applyRecordedExits(tradingDates[i - 1], date, prices);
+      }
+
       // a. Check exit conditions first (FreqTrade pattern: exits before entries)
       this.checkExits(date, prices);
+      this.manageOpenPositions(date, prices);
 
       // b. Generate entry signals (only if we have room for more positions)
       if (this.positions.size < config.maxPositions) {
@@ -133,6 +183,9 @@ export class BacktestEngine {
           if (!nextDayCandle) continue;
 
           this.executeEntry(signal, nextDayCandle.open, nextDate);
+          if (this.decisionReplay && this.positions.has(signal.symbol)) {
+            this.decisionReplay.markUsed();
+          }
         }
       }
 
@@ -148,6 +201,18 @@ export class BacktestEngine {
       this.closeAllPositions(lastDate, lastPrices, 'end_of_data');
     }
 
+    if (this.decisionReplay) {
+      this.replayReport = this.decisionReplay.buildReport([...allData.keys()], tradingDates);
+      log.info(
+        {
+          coveragePct: this.replayReport.coveragePct,
+          gaps: this.replayReport.gaps.length,
+          decisionsUsed: this.replayReport.decisionsUsed,
+        },
+        'Recorded decision coverage',
+      );
+    }
+
     log.info(
       { trades: this.trades.length, finalEquity: this.computeEquityFromCash() },
       'Backtest complete',
@@ -156,6 +221,21 @@ export class BacktestEngine {
     return this.buildResult();
   }
 
+  /** Hook for subclasses: runs once after data is loaded, before the first day. */
+  protected async prepare(_allData: Map<string, Candle[]>, _tradingDates: string[]): Promise<void> {
+    // no-op in the plain technical backtest
+  }
+
+  /** Hook for subclasses: runs at the start of each trading day. */
+  protected onDayStart(_date: string, _prices: Map<string, Candle>): void {
+    // no-op in the plain technical backtest
+  }
+
+  /** Hook for subclasses: scale-ins and partial exits, after exits and before entries. */
+  protected manageOpenPositions(_date: string, _prices: Map<string, Candle>): void {
+    // no-op in the plain technical backtest
+  }
+
   private buildDateIndex(allData: Map<string, Candle[]>): Map<string, Map<string, Candle>> {
     const index = new Map<string, Map<string, Candle>>();
 
@@ -173,41 +253,63 @@ export class BacktestEngine {
     return index;
   }
 
-  private checkExits(date: string, prices: Map<string, Candle>): void {
+  protected checkExits(date: string, prices: Map<string, Candle>): void {
     const symbolsToClose: { symbol: string; price: number; reason: string }[] = [];
 
     for (const [symbol, position] of this.positions) {
       const candle = prices.get(symbol);
       if (!candle) continue;
 
-      // Check stop-loss: candle low breaches stop price
-      if (candle.low <= position.stopLoss) {
-        symbolsToClose.push({ symbol, price: position.stopLoss, reason: 'stoploss' });
+      // Remainder of an exit the participation cap cut short
+      if (position.pendingExitReason) {
+        symbolsToClose.push({ symbol, price: candle.open, reason: position.pendingExitReason });
+        continue;
+      }
+
+      // Shorts are stopped by the high and take profit at the low
+      const { direction } = position;
+      const short = direction === 'SHORT';
+      const adverse = short ? candle.high : candle.low;
+      const favourable = short ? candle.low : candle.high;
+      const stopSide = short ? 'above' : 'below';
+      const targetSide = short ? 'below' : 'above';
+
+      // Check stop-loss: the adverse extreme breaches the stop price
+      if (isStopHit(adverse, position.stopLoss, direction)) {
+        const price = this.levelFillPrice(candle, position.stopLoss, stopSide);
+        symbolsToClose.push({ symbol, price, reason: 'stoploss' });
         continue;
       }
 
-      // Check take-profit: candle high reaches take-profit price
-      if (position.takeProfit != null && candle.high >= position.takeProfit) {
-        symbolsToClose.push({ symbol, price: position.takeProfit, reason: 'takeprofit' });
+      // Check take-profit: the favourable extreme reaches the take-profit price
+      if (position.takeProfit != null && isTargetHit(favourable, position.takeProfit, direction)) {
+        const price = this.levelFillPrice(candle, position.takeProfit, targetSide);
+        symbolsToClose.push({ symbol, price, reason: 'takeprofit' });
         continue;
       }
 
-      // Update trailing stop
-      if (this.config.trailingStop && candle.high > position.highWaterMark) {
-        position.highWaterMark = candle.high;
-        const newTrailingStop = position.highWaterMark * (1 - this.config.stopLossPct);
-        if (position.trailingStop == null || newTrailingStop > position.trailingStop) {
+      // Update trailing stop from the best price seen since entry
+      const mark = short ? (position.lowWaterMark ?? position.entryPrice) : position.highWaterMark;
+      if (this.config.trailingStop && isTighterStop(favourable, mark, direction)) {
+        if (short) position.lowWaterMark = favourable;
+        else position.highWaterMark = favourable;
+        const newTrailingStop = stopPriceFor(favourable, this.config.stopLossPct, direction);
+        if (
+          position.trailingStop == null ||
+          isTighterStop(newTrailingStop, position.trailingStop, direction)
+        ) {
           position.trailingStop = newTrailingStop;
-          // Update stop-loss to trailing stop if it's higher
-          if (position.trailingStop > position.stopLoss) {
+          // Move the stop-loss to the trailing stop if it's tighter
+          if (isTighterStop(position.trailingStop, position.stopLoss, direction)) {
             position.stopLoss = position.trailingStop;
           }
         }
       }
 
       // Check trailing stop (may have been updated above)
-      if (position.trailingStop != null && candle.low <= position.trailingStop) {
-        symbolsToClose.push({ symbol, price: position.trailingStop, reason: 'trailing_stop' });
+      if (position.trailingStop != null && isStopHit(adverse, position.trailingStop, direction)) {
+        const price = this.levelFillPrice(candle, position.trailingStop, stopSide);
+        symbolsToClose.push({ symbol, price, reason: 'trailing_stop' });
         continue;
       }
 
@@ -219,7 +321,7 @@ export class BacktestEngine {
         const threshold = getRoiThreshold(this.config.roiTable, tradeMinutes);
 
         if (threshold != null) {
-          const currentProfitPct = (candle.close - position.entryPrice) / position.entryPrice;
+          const currentProfitPct = directionalReturn(position.entryPrice, candle.close, direction);
           if (currentProfitPct >= threshold) {
             symbolsToClose.push({ symbol, price: candle.close, reason: 'roi_table' });
           }
@@ -233,7 +335,43 @@ export class BacktestEngine {
     }
   }
 
-  private generateSignals(date: string, allData: Map<string, Candle[]>): EntrySignal[] {
+  /**
+   * Where a stop (level below) or target (level above) fills. With gap-through
+   * enabled, an open already past the level fills at the open.
+   */
+  private levelFillPrice(candle: Candle, level: number, side: 'below' | 'above'): number {
+    if (!this.fillModel.gapThroughStops) return level;
+    const gapped = side === 'below' ? candle.open < level : candle.open > level;
+    if (!gapped) return level;
+    this.costTotals.gapFills++;
+    return candle.open;
+  }
+
+  /**
+   * Close held positions whose recorded decision for the previous session was
+   * against them: SELL for longs, BUY for shorts.
+   */
+  private applyRecordedExits(
+    decisionDate: string,
+    date: string,
+    prices: Map<string, Candle>,
+  ): void {
+    for (const [symbol, position] of [...this.positions]) {
+      const decision = this.decisionReplay?.get(symbol, decisionDate);
+      const candle = prices.get(symbol);
+      const exitDecision = position.direction === 'SHORT' ? 'BUY' : 'SELL';
+      if (decision?.decision !== exitDecision || !candle) continue;
+
+      this.decisionReplay?.markUsed();
+      this.executeExit(symbol, candle.open, date, exitDecision === 'SELL' ? 'ai_sell' : 'ai_cover');
+    }
+  }
+
+  protected generateSignals(date: string, allData: Map<string, Candle[]>): EntrySignal[] {
+    if (this.decisionReplay) {
+      return this.generateRecordedSignals(date, allData);
+    }
+
     const signals: EntrySignal[] = [];
 
     for (const [symbol, candles] of allData) {
@@ -259,13 +397,21 @@ export class BacktestEngine {
       // Normalize score to 0-1 range (scorer returns 0-100)
       const normalizedScore = score / 100;
 
+      const lastCandle = candlesUpToDate[candlesUpToDate.length - 1];
       if (normalizedScore >= this.config.entryThreshold) {
-        const lastCandle = candlesUpToDate[candlesUpToDate.length - 1];
         signals.push({
           symbol,
           score: normalizedScore,
           price: lastCandle.close,
         });
+      } else if (this.config.allowShort && 1 - normalizedScore >= this.config.entryThreshold) {
+        // Mirror image of a long entry: as bearish as a long is bullish
+        signals.push({
+          symbol,
+          score: 1 - normalizedScore,
+          price: lastCandle.close,
+          direction: 'SHORT',
+        });
       }
     }
 
@@ -273,7 +419,38 @@ export class BacktestEngine {
     return signals.sort((a, b) => b.score - a.score);
   }
 
-  private executeEntry(signal: EntrySignal, entryPrice: number, date: string): void {
+  /**
+   * Entry signals from recorded AI BUY decisions (and SELLs, as shorts, when
+   * allowed), ranked by conviction.
+   */
+  private generateRecordedSignals(date: string, allData: Map<string, Candle[]>): EntrySignal[] {
+    const signals: EntrySignal[] = [];
+
+    for (const [symbol, candles] of allData) {
+      if (this.positions.has(symbol)) continue;
+
+      const decision = this.decisionReplay?.get(symbol, date);
+      const short = decision?.decision === 'SELL' && this.config.allowShort;
+      if (!decision || (decision.decision !== 'BUY' && !short)) continue;
+
+      const score = decision.conviction / 100;
+      if (score < this.config.entryThreshold) continue;
+
+      const candle = candles.find((c) => c.date === date);
+      if (!candle) continue;
+
+      signals.push({
+        symbol,
+        score,
+        price: candle.close,
+        ...(short ? { direction: 'SHORT' } : {}),
+      });
+    }
+
+    return signals.sort((a, b) => b.score - a.score);
+  }
+
+  protected executeEntry(signal: EntrySignal, entryPrice: number, date: string): void {
     const equity = this.computeEquityFromCash();
     const maxPositionValue = this.config.maxPositionSizePct * equity;
     const positionValue = Math.min(maxPositionValue, this.cash);
@@ -283,18 +460,40 @@ export class BacktestEngine {
     const shares = Math.floor(positionValue / entryPrice);
     if (shares <= 0) return;
 
-    const cost = shares * entryPrice + this.config.commission;
-    if (cost > this.cash) return;
+    this.openPosition(signal, entryPrice, date, shares, this.config.stopLossPct);
+  }
 
-    const stopLoss = entryPrice * (1 - this.config.stopLossPct);
+  protected openPosition(
+    signal: EntrySignal,
+    entryPrice: number,
+    date: string,
+    shares: number,
+    stopLossPct: number,
+  ): BacktestPosition | null {
+    const direction = signal.direction ?? 'LONG';
+    const short = direction === 'SHORT';
+    const fill = this.quoteFill(short ? 'SELL' : 'BUY', signal.symbol, shares, entryPrice, date);
+    if (fill.shares <= 0) return null;
+
+    // A short's proceeds are credited, but the same amount of cash must back it
+    const cost = fill.shares * fill.price + this.config.commission;
+    if (cost > this.cash) return null;
+
+    const refPrice = entryPrice;
+    entryPrice = fill.price;
+    const stopLoss = stopPriceFor(entryPrice, stopLossPct, direction);
     const takeProfit =
-      this.config.takeProfitPct != null ? entryPrice * (1 + this.config.takeProfitPct) : undefined;
+      this.config.takeProfitPct != null
+        ? targetPriceFor(entryPrice, this.config.takeProfitPct, direction)
+        : undefined;
 
-    this.cash -= cost;
+    this.cash += short ? fill.shares * fill.price - this.config.commission : -cost;
+    this.bookFill(fill, shares);
 
     const position: BacktestPosition = {
       symbol: signal.symbol,
-      shares,
+      ...(short ? { direction, lowWaterMark: entryPrice, financingCost: 0 } : {}),
+      shares: fill.shares,
       entryPrice,
       entryTime: date,
       stopLoss,
@@ -302,6 +501,7 @@ export class BacktestEngine {
       takeProfit,
       highWaterMark: entryPrice,
       technicalScore: signal.score,
+      entryRefPrice: refPrice,
     };
 
     this.positions.set(signal.symbol, position);
@@ -309,7 +509,8 @@ export class BacktestEngine {
     log.debug(
       {
         symbol: signal.symbol,
-        shares,
+        direction,
+        shares: position.shares,
         entryPrice,
         stopLoss,
         takeProfit,
@@ -317,28 +518,56 @@ export class BacktestEngine {
       },
       'Entry executed',
     );
+
+    return position;
   }
 
-  private executeExit(symbol: string, exitPrice: number, date: string, reason: string): void {
+  protected executeExit(symbol: string, exitPrice: number, date: string, reason: string): void {
     const position = this.positions.get(symbol);
     if (!position) return;
 
-    const grossPnl = (exitPrice - position.entryPrice) * position.shares;
-    const pnl = grossPnl - this.config.commission;
-    const pnlPct = (exitPrice - position.entryPrice) / position.entryPrice;
+    const { direction } = position;
+    const short = direction === 'SHORT';
+    const fill = this.quoteFill(
+      short ? 'BUY' : 'SELL',
+      symbol,
+      position.shares,
+      exitPrice,
+      date,
+      this.liquidating,
+    );
+    if (fill.shares <= 0) {
+      position.pendingExitReason = reason;
+      return;
+    }
+
+    const refPrice = exitPrice;
+    exitPrice = fill.price;
+    const shares = fill.shares;
+    const signed = short ? -shares : shares;
+    // Financing was paid from cash as it accrued; the trade carries its share of it
+    const financingCost = short
+      ? ((position.financingCost ?? 0) * shares) / position.shares
+      : undefined;
+    const grossPnl = (refPrice - (position.entryRefPrice ?? position.entryPrice)) * signed;
+    const pnl =
+      (exitPrice - position.entryPrice) * signed - this.config.commission - (financingCost ?? 0);
+    const pnlPct = directionalReturn(position.entryPrice, exitPrice, direction);
 
     const entryMs = new Date(position.entryTime).getTime();
     const exitMs = new Date(date).getTime();
     const holdMinutes = (exitMs - entryMs) / 60000;
 
-    this.cash += position.shares * exitPrice - this.config.commission;
+    this.cash += signed * exitPrice - this.config.commission;
+    this.bookFill(fill, position.shares);
 
     const trade: BacktestTrade = {
       symbol,
-      side: 'SELL',
+      side: short ? 'BUY' : 'SELL',
+      ...(short ? { direction, financingCost: round(financingCost ?? 0, 2) } : {}),
       entryPrice: position.entryPrice,
       exitPrice,
-      shares: position.shares,
+      shares,
       entryTime: position.entryTime,
       exitTime: date,
       pnl: round(pnl, 2),
@@ -346,10 +575,18 @@ export class BacktestEngine {
       exitReason: reason,
       holdMinutes: Math.round(holdMinutes),
       technicalScore: position.technicalScore,
+      grossPnl: round(grossPnl, 2),
     };
 
     this.trades.push(trade);
-    this.positions.delete(symbol);
+    if (shares < position.shares) {
+      position.shares -= shares;
+      if (financingCost != null)
+        position.financingCost = (position.financingCost ?? 0) - financingCost;
+      position.pendingExitReason = reason;
+    } else {
+      this.positions.delete(symbol);
+    }
 
     log.debug(
       {
@@ -366,33 +603,91 @@ export class BacktestEngine {
 
   private closeAllPositions(date: string, prices: Map<string, Candle>, reason: string): void {
     const symbols = [...this.positions.keys()];
-    for (const symbol of symbols) {
-      const candle = prices.get(symbol);
-      if (candle) {
-        this.executeExit(symbol, candle.close, date, reason);
+    this.liquidating = true;
+    try {
+      for (const symbol of symbols) {
+        const candle = prices.get(symbol);
+        if (candle) {
+          this.executeExit(symbol, candle.close, date, reason);
+        }
       }
+    } finally {
+      this.liquidating = false;
+    }
+  }
+
+  /** Price a fill through the fill model, using the bar traded on `date`. */
+  protected quoteFill(
+    side: 'BUY' | 'SELL',
+    symbol: string,
+    shares: number,
+    price: number,
+    date: string,
+    ignoreParticipation = false,
+  ): Fill {
+    const candle = this.dateIndex.get(date)?.get(symbol);
+    if (!candle) {
+      return { shares, price, spreadCost: 0, slippageCost: 0, fxCost: 0 };
     }
+    return this.fillModel.fill({
+      side,
+      shares,
+      price,
+      candle,
+      atr: this.atrIndex.get(symbol)?.get(date) ?? null,
+      ignoreParticipation,
+    });
+  }
+
+  /** Add a committed fill's frictions (and one commission) to the cost totals. */
+  protected bookFill(fill: Fill, requestedShares: number): void {
+    this.costTotals.spread += fill.spreadCost;
+    this.costTotals.slippage += fill.slippageCost;
+    this.costTotals.fx += fill.fxCost;
+    this.costTotals.commission += this.config.commission;
+    if (fill.shares < requestedShares) this.costTotals.partialFills++;
+  }
+
+  /** Charge shorts the borrow and overnight fees for the calendar days since `prevDate`. */
+  private accrueFinancing(prevDate: string, date: string, prices: Map<string, Candle>): void {
+    const rate = this.config.shortFinancingAnnualPct ?? 0;
+    if (rate <= 0) return;
+    const days = (new Date(date).getTime() - new Date(prevDate).getTime()) / 86_400_000;
+
+    for (const [symbol, position] of this.positions) {
+      if (position.direction !== 'SHORT') continue;
+      const price = prices.get(symbol)?.open ?? position.entryPrice;
+      const fee = shortFinancingCost(position.shares * price, days, rate);
+      position.financingCost = (position.financingCost ?? 0) + fee;
+      this.cash -= fee;
+      this.costTotals.financing += fee;
+    }
+  }
+
+  /** Shares with a sign: shorts are owed back, so they count against equity. */
+  private signedShares(position: BacktestPosition): number {
+    return position.direction === 'SHORT' ? -position.shares : position.shares;
   }
 
-  private computeEquity(prices: Map<string, Candle>): number {
+  protected computeEquity(prices: Map<string, Candle>): number {
     let positionValue = 0;
     for (const [symbol, position] of this.positions) {
       const candle = prices.get(symbol);
       const price = candle ? candle.close : position.entryPrice;
-      positionValue += price * position.shares;
+      positionValue += price * this.signedShares(position);
     }
     return round(this.cash + positionValue, 2);
   }
 
-  private computeEquityFromCash(): number {
+  protected computeEquityFromCash(): number {
     let positionValue = 0;
     for (const position of this.positions.values()) {
-      positionValue += position.entryPrice * position.shares;
+      positionValue += position.entryPrice * this.signedShares(position);
     }
     return this.cash + positionValue;
   }
 
-  private buildResult(): BacktestResult {
+  protected buildResult(): BacktestResult {
     const metrics = this.computeMetrics();
     const dailyReturns = this.computeDailyReturns();
 
@@ -402,6 +697,31 @@ export class BacktestEngine {
       metrics,
       equityCurve: this.equityCurve,
       dailyReturns,
+      costs: this.buildCostReport(),
+      ...(this.replayReport ? { replay: this.replayReport } : {}),
+    };
+  }
+
+  private buildCostReport(): CostReport {
+    const { spread, slippage, fx, commission, financing, gapFills, partialFills } = this.costTotals;
+    const totalCosts = spread + slippage + fx + commission + financing;
+    const grossPnl = this.trades.reduce((sum, t) => sum + (t.grossPnl ?? t.pnl), 0);
+    const netPnl = grossPnl - totalCosts;
+    const capital = this.config.initialCapital;
+
+    return {
+      grossPnl: round(grossPnl, 2),
+      netPnl: round(netPnl, 2),
+      grossReturnPct: round(grossPnl / capital, 4),
+      netReturnPct: round(netPnl / capital, 4),
+      totalCosts: round(totalCosts, 2),
+      spread: round(spread, 2),
+      slippage: round(slippage, 2),
+      fx: round(fx, 2),
+      commission: round(commission, 2),
+      financing: round(financing, 2),
+      gapFills,
+      partialFills,
     };
   }
 
@@ -533,8 +853,33 @@ export class BacktestEngine {
   }
 }
 
+/** ATR as of each bar's previous close, keyed by the date the fill happens on. */
+function buildAtrIndex(
+  allData: Map<string, Candle[]>,
+  period: number,
+): Map<string, Map<string, number>> {
+  const result = new Map<string, Map<string, number>>();
+  for (const [symbol, candles] of allData) {
+    const values = ATR.calculate({
+      high: candles.map((c) => c.high),
+      low: candles.map((c) => c.low),
+      close: candles.map((c) => c.close),
+      period,
+    });
+    const byDate = new Map<string, number>();
+    // values[k] is the ATR at the close of candles[k + period]; it applies to the next bar
+    for (let k = 0; k < values.length; k++) {
+      const next = candles[k + period + 1];
+      if (next) byDate.set(next.date, values[k]);
+    }
+    result.set(symbol, byDate);
+  }
+  return result;
+}
+
 /**
  * Factory that creates a BacktestEngine with the real scorer loaded.
+ * Returns a PipelineBacktestEngine when `config.mode` is 'pipeline'.
  * Use this in production; use the constructor directly in tests.
  */
 export async function createBacktestEngine(
@@ -542,9 +887,29 @@ export async function createBacktestEngine(
   dataLoader?: BacktestDataLoader,
 ): Promise<BacktestEngine> {
   const { scoreTechnicals } = await import('../analysis/technical/scorer.js');
+  dataLoader ??= createBacktestDataLoader();
+  const decisionReplay =
+    config.signalSource === 'recorded'
+      ? DecisionReplay.fromDatabase(
+          config.symbols,
+          config.startDate,
+          config.endDate,
+          config.aiModel,
+        )
+      : undefined;
+  if (config.mode === 'pipeline') {
+    const { PipelineBacktestEngine } = await import('./pipeline-engine.js');
+    return new PipelineBacktestEngine({
+      config,
+      scoreFn: scoreTechnicals,
+      dataLoader,
+      decisionReplay,
+    });
+  }
   return new BacktestEngine({
     config,
     scoreFn: scoreTechnicals,
     dataLoader,
+    decisionReplay,
   });
 }
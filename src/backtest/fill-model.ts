@@ -0,0 +1,129 @@
+import type { Candle, FillModelConfig } from './types.js';
+
+export interface FillRequest {
+  side: 'BUY' | 'SELL';
+  shares: number;
+  /** Price the order would fill at with no market friction */
+  price: number;
+  /** Bar the fill happens in; its volume drives spread width and participation */
+  candle: Candle;
+  /** ATR as of the previous close, when the model asks for one */
+  atr: number | null;
+  /** Ignore the participation cap (forced liquidation at the end of a run) */
+  ignoreParticipation?: boolean;
+}
+
+export interface Fill {
+  /** May be less than requested when the participation cap binds */
+  shares: number;
+  /** Per-share price including spread, slippage and FX fee */
+  price: number;
+  /** Currency cost of each friction for the filled shares */
+  spreadCost: number;
+  slippageCost: number;
+  fxCost: number;
+}
+
+/** Turns a frictionless order into the fill a broker would actually give. */
+export interface FillModel {
+  /** Stops that gap through fill at the open rather than the stop price */
+  readonly gapThroughStops: boolean;
+  /** ATR lookback the engine should supply with each request, or null when unused */
+  readonly atrPeriod: number | null;
+  fill(request: FillRequest): Fill;
+}
+
+/** Trading212's currency conversion fee on non-USD accounts */
+export const T212_FX_FEE_PCT = 0.0015;
+
+const DEFAULT_SPREAD_BPS = 2;
+const DEFAULT_ATR_PERIOD = 14;
+// Quoted spreads hold near spreadBps down to this daily dollar volume, then widen
+const LIQUID_DOLLAR_VOLUME = 50_000_000;
+const MAX_LIQUIDITY_MULTIPLIER = 20;
+const TICK_SIZE = 0.01;
+
+/** Fills every order in full at the requested price (the engine's original behaviour). */
+export class IdealFillModel implements FillModel {
+  readonly gapThroughStops = false;
+  readonly atrPeriod = null;
+
+  fill(request: FillRequest): Fill {
+    return {
+      shares: request.shares,
+      price: request.price,
+      spreadCost: 0,
+      slippageCost: 0,
+      fxCost: 0,
+    };
+  }
+}
+
+/**
+ * Market-friction model for daily bars:
+ * - half the bid/ask spread on every fill, wider for illiquid and low-priced names
+ * - slippage as a fixed percentage of price or a multiple of ATR
+ * - at most `maxParticipationRate` of the bar's volume per fill
+ * - the Trading212 FX fee on both legs when the account is not in USD
+ */
+export class RealisticFillModel implements FillModel {
+  readonly gapThroughStops: boolean;
+  readonly atrPeriod: number | null;
+  private readonly spreadBps: number;
+  private readonly fxFeePct: number;
+
+  constructor(private readonly config: FillModelConfig) {
+    this.gapThroughStops = config.gapThroughStops ?? true;
+    this.atrPeriod =
+      config.slippage?.type === 'atr' ? (config.slippage.period ?? DEFAULT_ATR_PERIOD) : null;
+    this.spreadBps = config.spreadBps ?? DEFAULT_SPREAD_BPS;
+
+    const currency = (config.accountCurrency ?? 'USD').toUpperCase();
+    this.fxFeePct = currency === 'USD' ? 0 : (config.fxFeePct ?? T212_FX_FEE_PCT);
+  }
+
+  fill(request: FillRequest): Fill {
+    const { side, price, candle } = request;
+
+    let shares = request.shares;
+    const cap = this.config.maxParticipationRate;
+    if (cap != null && !request.ignoreParticipation) {
+      shares = Math.min(shares, Math.floor(candle.volume * cap));
+    }
+
+    const halfSpread = (price * this.spreadFraction(candle)) / 2;
+    const slippage = this.slippagePerShare(price, request.atr);
+    const direction = side === 'BUY' ? 1 : -1;
+    const marketPrice = Math.max(TICK_SIZE, price + direction * (halfSpread + slippage));
+    const fxPerShare = marketPrice * this.fxFeePct;
+
+    return {
+      shares,
+      price: marketPrice + direction * fxPerShare,
+      spreadCost: halfSpread * shares,
+      slippageCost: slippage * shares,
+      fxCost: fxPerShare * shares,
+    };
+  }
+
+  private spreadFraction(candle: Candle): number {
+    const dollarVolume = Math.max(candle.close * candle.volume, 1);
+    const liquidity = Math.min(
+      MAX_LIQUIDITY_MULTIPLIER,
+      Math.max(1, Math.sqrt(LIQUID_DOLLAR_VOLUME / dollarVolume)),
+    );
+    const quoted = (this.spreadBps / 10_000) * liquidity;
+    return Math.max(quoted, TICK_SIZE / Math.max(candle.close, TICK_SIZE));
+  }
+
+  private slippagePerShare(price: number, atr: number | null): number {
+    const slippage = this.config.slippage;
+    if (!slippage) return 0;
+    if (slippage.type === 'pct') return price * slippage.pct;
+    return atr != null ? atr * slippage.atrMultiple : 0;
+  }
+}
+
+export function createFillModel(config?: FillModelConfig): FillModel {
+  return config ? new RealisticFillModel(config) : new IdealFillModel();
+}
@@ -0,0 +1,238 @@
+import { formatCurrency, formatPercent, round } from '../utils/helpers.js';
+import type { BacktestResult, BacktestRunInfo } from './types.js';
+
+export interface MonthlyReturn {
+  /** YYYY-MM */
+  month: string;
+  returnPct: number;
+}
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = 40;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Month-over-month returns from the equity curve. Each month runs from the
+ * previous month's last equity point (initial capital for the first month).
+ */
+export function computeMonthlyReturns(
+  equityCurve: { date: string; equity: number }[],
+  initialCapital: number,
+): MonthlyReturn[] {
+  const monthEnds = new Map<string, number>();
+  for (const point of equityCurve) {
+    monthEnds.set(point.date.slice(0, 7), point.equity);
+  }
+
+  const result: MonthlyReturn[] = [];
+  let previous = initialCapital;
+  for (const [month, equity] of monthEnds) {
+    result.push({ month, returnPct: previous > 0 ? round(equity / previous - 1, 4) : 0 });
+    previous = equity;
+  }
+  return result;
+}
+
+/**
+ * Render a result as a standalone HTML page: summary, equity curve, drawdown,
+ * monthly returns heatmap and trade list. Charts are inline SVG so the file
+ * opens offline and can be shared as a single attachment.
+ */
+export function generateHtmlReport(result: BacktestResult, info?: BacktestRunInfo): string {
+  const { config, metrics } = result;
+  const title = info
+    ? info.label
+      ? `Backtest #${info.id}: ${info.label}`
+      : `Backtest #${info.id}`
+    : 'Backtest Report';
+
+  const provenance: [string, string][] = [
+    ['Period', `${config.startDate} to ${config.endDate}`],
+    ['Symbols', config.symbols.join(', ')],
+    ['Mode', config.mode ?? 'technical'],
+  ];
+  if (info) {
+    provenance.push(
+      ['Data Range', `${info.dataStart ?? 'N/A'} to ${info.dataEnd ?? 'N/A'}`],
+      ['Config Hash', info.configHash],
+      ['Code Version', info.codeVersion],
+      ['Created', info.createdAt],
+    );
+  }
+
+  const summary: [string, string][] = [
+    ['Initial Capital', formatCurrency(config.initialCapital)],
+    ['Final Equity', formatCurrency(metrics.finalEquity)],
+    ['Return', formatPercent(metrics.returnPct)],
+    ['Total P&L', formatCurrency(metrics.totalPnl)],
+    ['Trades', String(metrics.totalTrades)],
+    ['Win Rate', formatPercent(metrics.winRate)],
+    ['Max Drawdown', formatPercent(metrics.maxDrawdownPct)],
+    ['Sharpe', formatNullable(metrics.sharpeRatio)],
+    ['Sortino', formatNullable(metrics.sortinoRatio)],
+    ['Calmar', formatNullable(metrics.calmarRatio)],
+    ['SQN', formatNullable(metrics.sqn)],
+    ['Profit Factor', formatNullable(metrics.profitFactor)],
+  ];
+  if (result.costs) {
+    summary.push(
+      ['Gross P&L', formatCurrency(result.costs.grossPnl)],
+      ['Net P&L', formatCurrency(result.costs.netPnl)],
+      ['Total Costs', formatCurrency(result.costs.totalCosts)],
+    );
+  }
+
+  const equity = result.equityCurve.map((p) => ({ date: p.date, value: p.equity }));
+  let peak = config.initialCapital;
+  const drawdown = result.equityCurve.map((p) => {
+    peak = Math.max(peak, p.equity);
+    return { date: p.date, value: peak > 0 ? -(peak - p.equity) / peak : 0 };
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 24px; color: #1f2933; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #d9e2ec; padding-bottom: 4px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { padding: 4px 8px; text-align: right; border-bottom: 1px solid #eef2f6; }
+th:first-child, td:first-child { text-align: left; }
+.kv td:first-child { color: #52606d; }
+.grid { display: flex; gap: 48px; flex-wrap: wrap; }
+.pos { color: #0e7c3a; }
+.neg { color: #b42318; }
+.heat td { text-align: center; min-width: 52px; }
+svg { background: #fafbfc; border: 1px solid #eef2f6; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="grid">
+${keyValueTable(provenance)}
+${keyValueTable(summary)}
+</div>
+<h2>Equity Curve</h2>
+${lineChart(equity, '#2563eb', formatCurrency)}
+<h2>Drawdown</h2>
+${lineChart(drawdown, '#b42318', formatPercent, true)}
+<h2>Monthly Returns</h2>
+${monthlyHeatmap(computeMonthlyReturns(result.equityCurve, config.initialCapital))}
+<h2>Trades (${result.trades.length})</h2>
+${tradeTable(result)}
+</body>
+</html>
+`;
+}
+
+function keyValueTable(rows: [string, string][]): string {
+  const body = rows
+    .map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+  return `<table class="kv">\n${body}\n</table>`;
+}
+
+function lineChart(
+  points: { date: string; value: number }[],
+  color: string,
+  formatValue: (n: number) => string,
+  fill = false,
+): string {
+  if (points.length === 0) return '<p>No data.</p>';
+
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values, fill ? 0 : Number.POSITIVE_INFINITY);
+  const max = Math.max(...values, fill ? 0 : Number.NEGATIVE_INFINITY);
+  const span = max - min || 1;
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const coords = points.map((p, i) => {
+    const x = CHART_PADDING + (points.length > 1 ? (i / (points.length - 1)) * innerWidth : 0);
+    const y = CHART_PADDING + ((max - p.value) / span) * innerHeight;
+    return `${round(x, 1)},${round(y, 1)}`;
+  });
+  const baseline = round(CHART_PADDING + (max / span) * innerHeight, 1);
+  const shape = fill
+    ? `<polygon points="${CHART_PADDING},${baseline} ${coords.join(' ')} ${CHART_PADDING + innerWidth},${baseline}" fill="${color}" fill-opacity="0.25" stroke="${color}" stroke-width="1"/>`
+    : `<polyline points="${coords.join(' ')}" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+
+  const first = points[0].date;
+  const last = points[points.length - 1].date;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">
+${shape}
+<text x="4" y="${CHART_PADDING}" font-size="11">${escapeHtml(formatValue(max))}</text>
+<text x="4" y="${CHART_HEIGHT - CHART_PADDING}" font-size="11">${escapeHtml(formatValue(min))}</text>
+<text x="${CHART_PADDING}" y="${CHART_HEIGHT - 12}" font-size="11">${escapeHtml(first)}</text>
+<text x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT - 12}" font-size="11" text-anchor="end">${escapeHtml(last)}</text>
+</svg>`;
+}
+
+function monthlyHeatmap(monthly: MonthlyReturn[]): string {
+  if (monthly.length === 0) return '<p>No data.</p>';
+
+  const byYear = new Map<string, Map<number, number>>();
+  for (const { month, returnPct } of monthly) {
+    const year = month.slice(0, 4);
+    const row = byYear.get(year) ?? new Map<number, number>();
+    row.set(Number(month.slice(5, 7)) - 1, returnPct);
+    byYear.set(year, row);
+  }
+
+  const header = `<tr><th>Year</th>${MONTHS.map((m) => `<th>${m}</th>`).join('')}<th>Total</th></tr>`;
+  const rows = [...byYear.entries()].map(([year, row]) => {
+    const cells = MONTHS.map((_, i) => {
+      const value = row.get(i);
+      if (value == null) return '<td></td>';
+      return `<td style="background:${heatColor(value)}">${escapeHtml(formatPercent(value))}</td>`;
+    });
+    const yearReturn = [...row.values()].reduce((acc, r) => acc * (1 + r), 1) - 1;
+    return `<tr><td>${year}</td>${cells.join('')}<td style="background:${heatColor(yearReturn)}">${escapeHtml(formatPercent(yearReturn))}</td></tr>`;
+  });
+
+  return `<table class="heat">\n${header}\n${rows.join('\n')}\n</table>`;
+}
+
+/** Green for gains, red for losses; saturates at ±10% a month. */
+function heatColor(returnPct: number): string {
+  const intensity = Math.min(Math.abs(returnPct) / 0.1, 1);
+  const alpha = round(0.1 + intensity * 0.6, 2);
+  return returnPct >= 0 ? `rgba(14,124,58,${alpha})` : `rgba(180,35,24,${alpha})`;
+}
+
+function tradeTable(result: BacktestResult): string {
+  if (result.trades.length === 0) return '<p>No trades.</p>';
+
+  const header =
+    '<tr><th>Symbol</th><th>Entry</th><th>Exit</th><th>Shares</th><th>Entry Price</th>' +
+    '<th>Exit Price</th><th>P&amp;L</th><th>P&amp;L %</th><th>Reason</th></tr>';
+  const rows = result.trades.map((t) => {
+    const cls = t.pnl >= 0 ? 'pos' : 'neg';
+    return (
+      `<tr><td>${escapeHtml(t.symbol)}</td><td>${escapeHtml(t.entryTime)}</td>` +
+      `<td>${escapeHtml(t.exitTime)}</td><td>${t.shares}</td>` +
+      `<td>${round(t.entryPrice, 2)}</td><td>${round(t.exitPrice, 2)}</td>` +
+      `<td class="${cls}">${escapeHtml(formatCurrency(t.pnl))}</td>` +
+      `<td class="${cls}">${escapeHtml(formatPercent(t.pnlPct))}</td>` +
+      `<td>${escapeHtml(t.exitReason)}</td></tr>`
+    );
+  });
+
+  return `<table>\n${header}\n${rows.join('\n')}\n</table>`;
+}
+
+function formatNullable(n: number | null): string {
+  return n != null ? String(n) : 'N/A';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,435 @@
+import { SeededRandom } from '../analysis/monte-carlo.js';
+import { validateConfigValue } from '../config/schema-validator.js';
+import * as runRepo from '../db/repositories/optimization-runs.js';
+import * as profileRepo from '../db/repositories/strategy-profiles.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import { BacktestDataLoader, createBacktestDataLoader } from './data-loader.js';
+import { type BacktestEngine, createBacktestEngine } from './engine.js';
+import type {
+  BacktestConfig,
+  BacktestMetrics,
+  Candle,
+  NumericRange,
+  OptimizationConfig,
+  OptimizationObjective,
+  OptimizationParams,
+  OptimizationResult,
+  OptimizationTrial,
+  ParameterSpace,
+  WalkForwardConfig,
+  WalkForwardWindow,
+} from './types.js';
+
+const log = createLogger('backtest-optimizer');
+
+const DEFAULT_RANDOM_SAMPLES = 50;
+const DEFAULT_GRID_LIMIT = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OBJECTIVE_METRIC: Record<OptimizationObjective, keyof BacktestMetrics> = {
+  sharpe: 'sharpeRatio',
+  calmar: 'calmarRatio',
+  sqn: 'sqn',
+  profitFactor: 'profitFactor',
+};
+
+export type EngineFactory = (
+  config: BacktestConfig,
+  dataLoader: BacktestDataLoader,
+) => Promise<BacktestEngine>;
+
+export interface BacktestOptimizerOptions {
+  dataLoader?: BacktestDataLoader;
+  /** Builds the engine for each trial. Defaults to createBacktestEngine. */
+  engineFactory?: EngineFactory;
+  /** Store the run in `optimization_runs` (default true) */
+  persist?: boolean;
+}
+
+/**
+ * Serves every trial from one up-front load, so a sweep of hundreds of
+ * backtests hits Yahoo once per symbol instead of once per trial.
+ */
+class CachingDataLoader extends BacktestDataLoader {
+  private cache = new Map<string, Candle[]>();
+
+  constructor(private readonly inner: BacktestDataLoader) {
+    super();
+  }
+
+  override async loadMultiple(
+    symbols: string[],
+    startDate: string,
+    endDate: string,
+  ): Promise<Map<string, Candle[]>> {
+    const missing = symbols.filter((s) => !this.cache.has(s));
+    if (missing.length > 0) {
+      const loaded = await this.inner.loadMultiple(missing, startDate, endDate);
+      for (const symbol of missing) {
+        this.cache.set(symbol, loaded.get(symbol) ?? []);
+      }
+    }
+
+    const result = new Map<string, Candle[]>();
+    for (const symbol of symbols) {
+      const candles = this.cache.get(symbol);
+      if (candles && candles.length > 0) result.set(symbol, candles);
+    }
+    return result;
+  }
+}
+
+/**
+ * Hyperparameter search over BacktestConfig, in the spirit of freqtrade's
+ * hyperopt: grid or random search, optionally inside rolling walk-forward
+ * windows where each window's in-sample winner is scored out-of-sample.
+ */
+export class BacktestOptimizer {
+  private dataLoader: BacktestDataLoader;
+  private engineFactory: EngineFactory;
+  private persist: boolean;
+
+  constructor(options: BacktestOptimizerOptions = {}) {
+    this.dataLoader = options.dataLoader ?? createBacktestDataLoader();
+    this.engineFactory = options.engineFactory ?? createBacktestEngine;
+    this.persist = options.persist ?? true;
+  }
+
+  async run(config: OptimizationConfig): Promise<OptimizationResult> {
+    const candidates = buildCandidates(config);
+    const { base } = config;
+
+    log.info(
+      {
+        method: config.method,
+        objective: config.objective,
+        candidates: candidates.length,
+        walkForwardWindows: config.walkForward?.windows ?? 0,
+      },
+      'Starting backtest optimisation',
+    );
+
+    const loader = new CachingDataLoader(this.dataLoader);
+    await loader.loadMultiple(base.symbols, base.startDate, base.endDate);
+
+    const trials: OptimizationTrial[] = [];
+    let result: OptimizationResult;
+
+    if (config.walkForward) {
+      const windows: WalkForwardWindow[] = [];
+      const periods = splitWalkForward(base.startDate, base.endDate, config.walkForward);
+
+      for (const [index, period] of periods.entries()) {
+        const windowTrials: OptimizationTrial[] = [];
+        for (const params of candidates) {
+          const { trial } = await this.evaluate(config, params, period.inSample, loader);
+          windowTrials.push({ ...trial, window: index });
+        }
+        trials.push(...windowTrials);
+
+        const winner = pickBest(windowTrials);
+        let outOfSampleScore: number | null = null;
+        let outOfSampleMetrics: BacktestMetrics | null = null;
+        if (winner) {
+          const oos = await this.evaluate(config, winner.params, period.outOfSample, loader);
+          outOfSampleScore = oos.trial.score;
+          outOfSampleMetrics = oos.metrics;
+        }
+
+        windows.push({
+          index,
+          inSample: period.inSample,
+          outOfSample: period.outOfSample,
+          bestParams: winner?.params ?? null,
+          inSampleScore: winner?.score ?? null,
+          outOfSampleScore,
+          outOfSampleMetrics,
+        });
+      }
+
+      const scored = windows.map((w) => w.outOfSampleScore).filter((s): s is number => s != null);
+      const latest = windows[windows.length - 1];
+
+      result = {
+        runId: null,
+        method: config.method,
+        objective: config.objective,
+        trials,
+        bestParams: latest?.bestParams ?? null,
+        bestScore: latest?.outOfSampleScore ?? null,
+        windows,
+        outOfSampleMeanScore:
+          scored.length > 0 ? round(scored.reduce((a, b) => a + b, 0) / scored.length, 4) : null,
+      };
+    } else {
+      const period = { startDate: base.startDate, endDate: base.endDate };
+      for (const params of candidates) {
+        const { trial } = await this.evaluate(config, params, period, loader);
+        trials.push(trial);
+      }
+
+      const winner = pickBest(trials);
+      result = {
+        runId: null,
+        method: config.method,
+        objective: config.objective,
+        trials,
+        bestParams: winner?.params ?? null,
+        bestScore: winner?.score ?? null,
+      };
+    }
+
+    if (this.persist) {
+      result.runId = runRepo.insertOptimizationRun({
+        method: config.method,
+        objective: config.objective,
+        symbols: base.symbols,
+        startDate: base.startDate,
+        endDate: base.endDate,
+        baseConfig: base,
+        parameterSpace: config.space,
+        trials: result.trials,
+        windows: result.windows,
+        bestParams: result.bestParams,
+        bestScore: result.bestScore,
+      });
+    }
+
+    log.info(
+      {
+        runId: result.runId,
+        trials: trials.length,
+        bestParams: result.bestParams,
+        bestScore: result.bestScore,
+      },
+      'Backtest optimisation complete',
+    );
+
+    return result;
+  }
+
+  private async evaluate(
+    config: OptimizationConfig,
+    params: OptimizationParams,
+    period: { startDate: string; endDate: string },
+    loader: BacktestDataLoader,
+  ): Promise<{ trial: OptimizationTrial; metrics: BacktestMetrics }> {
+    const engine = await this.engineFactory(
+      { ...config.base, ...params, startDate: period.startDate, endDate: period.endDate },
+      loader,
+    );
+    const { metrics } = await engine.run();
+
+    return {
+      trial: {
+        params,
+        score: scoreMetrics(metrics, config.objective, config.minTrades),
+        totalTrades: metrics.totalTrades,
+        returnPct: metrics.returnPct,
+        maxDrawdownPct: metrics.maxDrawdownPct,
+      },
+      metrics,
+    };
+  }
+}
+
+/** Objective value for a run, or null when it is undefined or too few trades closed. */
+export function scoreMetrics(
+  metrics: BacktestMetrics,
+  objective: OptimizationObjective,
+  minTrades = 1,
+): number | null {
+  if (metrics.totalTrades < minTrades) return null;
+  const value = metrics[OBJECTIVE_METRIC[objective]];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function pickBest(trials: OptimizationTrial[]): OptimizationTrial | null {
+  let best: OptimizationTrial | null = null;
+  for (const trial of trials) {
+    if (trial.score == null) continue;
+    if (best?.score == null || trial.score > best.score) best = trial;
+  }
+  return best;
+}
+
+function expandRange(name: string, range: NumericRange): number[] {
+  if (Array.isArray(range)) return [...new Set(range)];
+
+  if (range.step <= 0 || range.max < range.min) {
+    throw new Error(`Invalid range for ${name}: need step > 0 and max >= min`);
+  }
+  const values: number[] = [];
+  for (let i = 0; range.min + i * range.step <= range.max + 1e-9; i++) {
+    values.push(round(range.min + i * range.step, 6));
+  }
+  return values;
+}
+
+function dimensions(space: ParameterSpace): [keyof OptimizationParams, unknown[]][] {
+  const dims: [keyof OptimizationParams, unknown[]][] = [];
+  if (space.stopLossPct) dims.push(['stopLossPct', expandRange('stopLossPct', space.stopLossPct)]);
+  if (space.entryThreshold) {
+    dims.push(['entryThreshold', expandRange('entryThreshold', space.entryThreshold)]);
+  }
+  if (space.maxPositions) {
+    dims.push(['maxPositions', expandRange('maxPositions', space.maxPositions).map(Math.round)]);
+  }
+  if (space.trailingStop) dims.push(['trailingStop', [...new Set(space.trailingStop)]]);
+  if (space.roiTable) dims.push(['roiTable', space.roiTable]);
+  return dims.filter(([, values]) => values.length > 0);
+}
+
+/** Parameter sets to evaluate, in a deterministic order for a given seed. */
+export function buildCandidates(config: OptimizationConfig): OptimizationParams[] {
+  const dims = dimensions(config.space);
+  if (dims.length === 0) {
+    throw new Error('Parameter space is empty');
+  }
+
+  const gridSize = dims.reduce((n, [, values]) => n * values.length, 1);
+
+  if (config.method === 'grid') {
+    const limit = config.maxEvaluations ?? DEFAULT_GRID_LIMIT;
+    if (gridSize > limit) {
+      throw new Error(
+        `Grid search would run ${gridSize} backtests (limit ${limit}); narrow the space or use random search`,
+      );
+    }
+
+    let combos: OptimizationParams[] = [{}];
+    for (const [key, values] of dims) {
+      combos = combos.flatMap((combo) => values.map((value) => ({ ...combo, [key]: value })));
+    }
+    return combos;
+  }
+
+  const samples = Math.min(config.maxEvaluations ?? DEFAULT_RANDOM_SAMPLES, gridSize);
+  const rng = config.seed != null ? new SeededRandom(config.seed) : null;
+  const pick = (n: number) => (rng ? rng.nextInt(n) : Math.floor(Math.random() * n));
+
+  const seen = new Set<string>();
+  const combos: OptimizationParams[] = [];
+  for (let attempt = 0; combos.length < samples && attempt < samples * 20; attempt++) {
+    const combo: OptimizationParams = {};
+    for (const [key, values] of dims) {
+      Object.assign(combo, { [key]: values[pick(values.length)] });
+    }
+    const id = JSON.stringify(combo);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    combos.push(combo);
+  }
+  return combos;
+}
+
+/**
+ * Split [startDate, endDate] into rolling windows. Each window is an
+ * in-sample block followed by an out-of-sample block; windows advance by
+ * one out-of-sample length, so the out-of-sample blocks tile the tail of the
+ * range without overlap.
+ */
+export function splitWalkForward(
+  startDate: string,
+  endDate: string,
+  walkForward: WalkForwardConfig,
+): {
+  inSample: { startDate: string; endDate: string };
+  outOfSample: { startDate: string; endDate: string };
+}[] {
+  const { windows, inSamplePct } = walkForward;
+  if (windows < 1 || inSamplePct <= 0 || inSamplePct >= 1) {
+    throw new Error('Walk-forward needs windows >= 1 and 0 < inSamplePct < 1');
+  }
+
+  const startMs = Date.parse(startDate);
+  const totalDays = Math.floor((Date.parse(endDate) - startMs) / DAY_MS) + 1;
+  const outOfSampleDays = Math.floor(totalDays / (windows + inSamplePct / (1 - inSamplePct)));
+  const inSampleDays = totalDays - windows * outOfSampleDays;
+  if (outOfSampleDays < 1 || inSampleDays < 1) {
+    throw new Error(`Date range too short for ${windows} walk-forward windows`);
+  }
+
+  const day = (offset: number) => new Date(startMs + offset * DAY_MS).toISOString().slice(0, 10);
+
+  return Array.from({ length: windows }, (_, k) => {
+    const offset = k * outOfSampleDays;
+    return {
+      inSample: { startDate: day(offset), endDate: day(offset + inSampleDays - 1) },
+      outOfSample: {
+        startDate: day(offset + inSampleDays),
+        endDate: day(offset + inSampleDays + outOfSampleDays - 1),
+      },
+    };
+  });
+}
+
+/**
+ * Map optimised backtest parameters onto live config keys. Parameters with
+ * no live counterpart (the technical entry threshold, the backtest trailing
+ * stop) are returned separately so they can be documented, not applied.
+ */
+export function paramsToProfileConfig(params: OptimizationParams): {
+  config: Record<string, unknown>;
+  backtestOnly: Record<string, unknown>;
+} {
+  const config: Record<string, unknown> = {};
+  const backtestOnly: Record<string, unknown> = {};
+
+  if (params.maxPositions != null) config['risk.maxPositions'] = params.maxPositions;
+  if (params.stopLossPct != null) config['risk.maxStopLossPct'] = params.stopLossPct;
+  if (params.roiTable != null) {
+    config['exit.roiEnabled'] = true;
+    config['exit.roiTable'] = params.roiTable;
+  }
+  if (params.entryThreshold != null) backtestOnly.entryThreshold = params.entryThreshold;
+  if (params.trailingStop != null) backtestOnly.trailingStop = params.trailingStop;
+
+  return { config, backtestOnly };
+}
+
+/** Save a run's best parameter set as a (non-active) strategy profile. */
+export function exportOptimizationProfile(
+  runId: number,
+  name: string,
+  description?: string,
+): { profileId: number; config: Record<string, unknown> } {
+  const run = runRepo.getOptimizationRun(runId);
+  if (!run) {
+    throw new Error(`Optimisation run not found: ${runId}`);
+  }
+  if (!run.bestParams) {
+    throw new Error(`Optimisation run ${runId} has no scored parameter set`);
+  }
+  if (profileRepo.getProfileByName(name)) {
+    throw new Error(`Strategy profile already exists: ${name}`);
+  }
+
+  const { config, backtestOnly } = paramsToProfileConfig(JSON.parse(run.bestParams));
+  if (Object.keys(config).length === 0) {
+    throw new Error(`Optimisation run ${runId} tuned no parameters that map to live config`);
+  }
+  for (const [key, value] of Object.entries(config)) {
+    const validation = validateConfigValue(key, value);
+    if (!validation.valid) {
+      throw new Error(`Invalid value for config key "${key}": ${validation.error}`);
+    }
+  }
+
+  const notes = [`Exported from optimisation run #${runId} (${run.objective} ${run.bestScore})`];
+  if (Object.keys(backtestOnly).length > 0) {
+    notes.push(`backtest-only parameters: ${JSON.stringify(backtestOnly)}`);
+  }
+
+  const profileId = profileRepo.createProfile({
+    name,
+    description: description ?? notes.join('; '),
+    config,
+    active: false,
+  });
+  runRepo.markOptimizationRunExported(runId, name);
+
+  log.info({ runId, name, profileId, keys: Object.keys(config) }, 'Optimised profile exported');
+  return { profileId, config };
+}
@@ -0,0 +1,653 @@
+import { eq } from 'drizzle-orm';
+import { getRegimeDetector, type RegimeAnalysis } from '../analysis/regime-detector.js';
+import {
+  calcADX,
+  calcATR,
+  calcBollingerBands,
+  calcCCI,
+  calcEMA,
+  calcMACD,
+  calcMFI,
+  calcRSI,
+  calcSMA,
+} from '../analysis/technical/indicators.js';
+import { positions, trades } from '../db/schema.js';
+import { getDCAManager } from '../execution/dca-manager.js';
+import {
+  type ExitCondition,
+  type ExitContext,
+  evaluateExitConditions,
+  parseExitConditionText,
+} from '../execution/exit-condition-dsl.js';
+import { getPartialExitManager } from '../execution/partial-exit-manager.js';
+import { getProtectionManager } from '../execution/protections.js';
+import { type PortfolioState, RiskGuard, type TradeProposal } from '../execution/risk-guard.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import { BacktestEngine, type BacktestEngineOptions } from './engine.js';
+import { SimulationContext } from './simulation.js';
+import type {
+  BacktestPosition,
+  BacktestResult,
+  Candle,
+  EntrySignal,
+  PipelineReport,
+  PipelineStage,
+} from './types.js';
+
+const log = createLogger('backtest-pipeline');
+
+/** Benchmark used for regime detection, matching the live `/regime` endpoint. */
+const REGIME_SYMBOL = 'SPY';
+
+/** Simulated fills happen at the US session open (entries) and close (everything else). */
+const SESSION_OPEN_UTC = 'T13:30:00.000Z';
+const SESSION_CLOSE_UTC = 'T20:00:00.000Z';
+
+/** Keep the per-rejection detail bounded; totals are always tracked per stage. */
+const MAX_REJECTIONS_REPORTED = 500;
+
+export interface PipelineBacktestEngineOptions extends BacktestEngineOptions {
+  /** Pre-built sandbox; one is created from the config overrides when omitted. */
+  simulation?: SimulationContext;
+}
+
+/**
+ * Backtest that replays history through the live execution modules.
+ *
+ * Entry candidates still come from the ScoreFn, but every entry then passes
+ * through the same gates the bot uses (regime adjustments, ProtectionManager
+ * pair locks, RiskGuard.validateTrade, losing-streak sizing), and open
+ * positions are managed by DCAManager, PartialExitManager and the exit-condition
+ * DSL. Those modules read a scratch database and a simulated clock provided by
+ * SimulationContext, so they run unmodified and never touch live state.
+ */
+export class PipelineBacktestEngine extends BacktestEngine {
+  private simulation: SimulationContext | null;
+  private riskGuard = new RiskGuard();
+  private exitConditions: ExitCondition[];
+  private history = new Map<string, Candle[]>();
+  private regimeCandles: Candle[] = [];
+  private regime: RegimeAnalysis | null = null;
+  private markedEquity = 0;
+  private previousEquity = 0;
+  private peakEquity = 0;
+  private report: PipelineReport = {
+    rejections: [],
+    rejectionsByStage: { regime: 0, daily_loss: 0, protection: 0, risk_guard: 0 },
+    dcaFills: 0,
+    partialExits: 0,
+    conditionExits: 0,
+    regimeDays: {},
+  };
+
+  constructor(options: PipelineBacktestEngineOptions) {
+    super(options);
+    this.simulation = options.simulation ?? null;
+    this.exitConditions = options.config.exitConditions
+      ? parseExitConditionText(options.config.exitConditions)
+      : [];
+  }
+
+  protected override async prepare(allData: Map<string, Candle[]>): Promise<void> {
+    const { config } = this;
+
+    this.simulation ??= new SimulationContext({
+      'risk.maxPositions': config.maxPositions,
+      'risk.maxPositionSizePct': config.maxPositionSizePct,
+      'execution.dryRun': true,
+      ...config.configOverrides,
+    });
+    this.history = allData;
+    this.markedEquity = config.initialCapital;
+    this.previousEquity = config.initialCapital;
+    this.peakEquity = config.initialCapital;
+
+    if (this.simulation.get<boolean>('regime.enabled')) {
+      const benchmark =
+        allData.get(REGIME_SYMBOL) ??
+        (await this.dataLoader.loadMultiple([REGIME_SYMBOL], config.startDate, config.endDate)).get(
+          REGIME_SYMBOL,
+        );
+      this.regimeCandles = benchmark ?? [];
+      if (this.regimeCandles.length === 0) {
+        log.warn('Regime detection enabled but no benchmark data; running without regime gating');
+      }
+    }
+
+    log.info(
+      {
+        exitConditions: this.exitConditions.length,
+        regimeCandles: this.regimeCandles.length,
+        overrides: Object.keys(config.configOverrides ?? {}),
+      },
+      'Pipeline backtest prepared',
+    );
+  }
+
+  protected override onDayStart(date: string, prices: Map<string, Candle>): void {
+    const sim = this.sim();
+    sim.setTime(`${date}${SESSION_CLOSE_UTC}`);
+
+    this.previousEquity =
+      this.equityCurve.length > 0
+        ? this.equityCurve[this.equityCurve.length - 1].equity
+        : this.config.initialCapital;
+    this.markedEquity = this.computeEquity(prices);
+    this.peakEquity = Math.max(this.peakEquity, this.markedEquity);
+
+    if (this.regimeCandles.length > 0) {
+      const upToDate = this.regimeCandles.filter((c) => c.date <= date);
+      this.regime = sim.run(() => getRegimeDetector().detect(upToDate));
+      if (this.regime) {
+        this.report.regimeDays[this.regime.regime] =
+          (this.report.regimeDays[this.regime.regime] ?? 0) + 1;
+      }
+    }
+
+    // Mark the simulated positions table to the close so the modules see current prices
+    sim.run(() => {
+      const db = sim.db;
+      for (const [symbol, position] of this.positions) {
+        const candle = prices.get(symbol);
+        if (!candle) continue;
+        db.update(positions)
+          .set({
+            currentPrice: candle.close,
+            pnl: (candle.close - position.entryPrice) * position.shares,
+            pnlPct: (candle.close - position.entryPrice) / position.entryPrice,
+            stopLoss: position.stopLoss,
+            trailingStop: position.trailingStop ?? null,
+            updatedAt: new Date(sim.time).toISOString(),
+          })
+          .where(eq(positions.symbol, symbol))
+          .run();
+      }
+    });
+  }
+
+  protected override checkExits(date: string, prices: Map<string, Candle>): void {
+    super.checkExits(date, prices);
+
+    if (this.exitConditions.length === 0) return;
+
+    for (const [symbol, position] of [...this.positions]) {
+      const candles = (this.history.get(symbol) ?? []).filter((c) => c.date <= date);
+      const candle = prices.get(symbol);
+      if (!candle || candles.length === 0) continue;
+
+      const context = this.buildExitContext(position, candles, date);
+      const result = evaluateExitConditions(this.exitConditions, context);
+      if (result.shouldExit) {
+        this.report.conditionExits++;
+        this.executeExit(
+          symbol,
+          candle.close,
+          date,
+          `exit_condition: ${result.triggeredConditions.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  protected override manageOpenPositions(date: string, prices: Map<string, Candle>): void {
+    const sim = this.sim();
+
+    for (const [symbol, position] of [...this.positions]) {
+      const candle = prices.get(symbol);
+      if (!candle) continue;
+      const price = candle.close;
+
+      // DCA before partial exits, matching the live monitor loop
+      const dca = sim.run(() =>
+        getDCAManager().evaluatePosition(
+          symbol,
+          price,
+          {
+            symbol,
+            shares: position.shares,
+            entryPrice: position.entryPrice,
+            entryTime: `${position.entryTime}${SESSION_OPEN_UTC}`,
+            dcaCount: position.dcaCount ?? 0,
+            totalInvested: position.totalInvested ?? null,
+          },
+          { cashAvailable: this.cash },
+        ),
+      );
+      if (dca.shouldDCA && dca.shares && dca.newAvgPrice) {
+        this.fillDCA(position, dca.shares, price, date);
+      }
+
+      const row = sim.run(() =>
+        sim.db.select().from(positions).where(eq(positions.symbol, symbol)).get(),
+      );
+      if (!row) continue;
+
+      const partial = sim.run(() => getPartialExitManager().evaluatePosition(row));
+      if (partial.shouldExit && partial.sharesToSell) {
+        this.fillPartialExit(position, partial.sharesToSell, price, date);
+      }
+    }
+  }
+
+  protected override generateSignals(date: string, allData: Map<string, Candle[]>): EntrySignal[] {
+    const adjustments = this.regime?.details.adjustments;
+    if (adjustments && !adjustments.newEntriesAllowed) {
+      this.reject(date, '*', 'regime', `New entries blocked in ${this.regime?.regime} regime`);
+      return [];
+    }
+
+    // The live modules driven here size and guard longs only
+    const signals = super.generateSignals(date, allData).filter((s) => s.direction !== 'SHORT');
+    const thresholdBump = (adjustments?.entryThresholdAdjustment ?? 0) / 100;
+    if (thresholdBump <= 0) return signals;
+
+    const threshold = this.config.entryThreshold + thresholdBump;
+    return signals.filter((s) => {
+      if (s.score >= threshold) return true;
+      this.reject(
+        date,
+        s.symbol,
+        'regime',
+        `Score ${s.score.toFixed(2)} below regime-adjusted threshold ${threshold.toFixed(2)}`,
+      );
+      return false;
+    });
+  }
+
+  protected override executeEntry(signal: EntrySignal, entryPrice: number, date: string): void {
+    const sim = this.sim();
+    sim.setTime(`${date}${SESSION_OPEN_UTC}`);
+
+    const adjustments = this.regime?.details.adjustments;
+    const stopLossPct = this.config.stopLossPct * (adjustments?.stopLossMultiplier ?? 1);
+    const portfolio = this.buildPortfolioState();
+
+    const verdict = sim.run(
+      ():
+        | { allowed: true; shares: number }
+        | { allowed: false; stage: PipelineStage; reason: string } => {
+        if (this.riskGuard.checkDailyLoss(portfolio)) {
+          return { allowed: false, stage: 'daily_loss', reason: 'Daily loss limit breached' };
+        }
+
+        const protection = getProtectionManager().canTrade(signal.symbol);
+        if (!protection.allowed) {
+          return {
+            allowed: false,
+            stage: 'protection',
+            reason: protection.reason ?? 'Pair locked',
+          };
+        }
+
+        const positionValue = Math.min(
+          this.config.maxPositionSizePct *
+            portfolio.portfolioValue *
+            (adjustments?.positionSizeMultiplier ?? 1),
+          this.cash,
+        );
+        const shares = Math.floor(positionValue / entryPrice);
+        if (shares <= 0) {
+          return { allowed: false, stage: 'risk_guard', reason: 'Position size rounds to zero' };
+        }
+
+        const proposal: TradeProposal = {
+          symbol: signal.symbol,
+          side: 'BUY',
+          shares,
+          price: entryPrice,
+          stopLossPct,
+          positionSizePct: (shares * entryPrice) / portfolio.portfolioValue,
+        };
+        const validation = this.riskGuard.validateTrade(proposal, portfolio);
+        if (!validation.allowed) {
+          return {
+            allowed: false,
+            stage: 'risk_guard',
+            reason: validation.reason ?? 'Rejected by risk guard',
+          };
+        }
+
+        // Streak reduction is applied after validation, as in executeApprovedPlan
+        const streakMultiplier = this.riskGuard.getLosingStreakMultiplier();
+        return {
+          allowed: true,
+          shares:
+            streakMultiplier < 1 ? Math.max(1, Math.floor(shares * streakMultiplier)) : shares,
+        };
+      },
+    );
+
+    if (!verdict.allowed) {
+      this.reject(date, signal.symbol, verdict.stage, verdict.reason);
+      return;
+    }
+
+    const position = this.openPosition(signal, entryPrice, date, verdict.shares, stopLossPct);
+    if (!position) return;
+    position.dcaCount = 0;
+    position.partialExitCount = 0;
+    position.totalInvested = position.shares * position.entryPrice;
+    const fillPrice = position.entryPrice;
+
+    sim.run(() => {
+      const now = new Date(sim.time).toISOString();
+      const accountType = sim.get<'INVEST' | 'ISA'>('t212.accountType');
+      sim.db
+        .insert(trades)
+        .values({
+          symbol: position.symbol,
+          t212Ticker: position.symbol,
+          side: 'BUY',
+          shares: position.shares,
+          entryPrice: fillPrice,
+          entryTime: now,
+          stopLoss: position.stopLoss,
+          takeProfit: position.takeProfit ?? null,
+          convictionScore: signal.score * 100,
+          intendedPrice: entryPrice,
+          slippage: (fillPrice - entryPrice) / entryPrice,
+          accountType,
+        })
+        .run();
+      sim.db
+        .insert(positions)
+        .values({
+          symbol: position.symbol,
+          t212Ticker: position.symbol,
+          shares: position.shares,
+          entryPrice: fillPrice,
+          entryTime: now,
+          currentPrice: entryPrice,
+          pnl: 0,
+          pnlPct: 0,
+          stopLoss: position.stopLoss,
+          trailingStop: position.trailingStop ?? null,
+          takeProfit: position.takeProfit ?? null,
+          convictionScore: signal.score * 100,
+          accountType,
+          dcaCount: 0,
+          totalInvested: position.totalInvested,
+          partialExitCount: 0,
+          updatedAt: now,
+        })
+        .run();
+    });
+  }
+
+  protected override executeExit(
+    symbol: string,
+    exitPrice: number,
+    date: string,
+    reason: string,
+  ): void {
+    const position = this.positions.get(symbol);
+    if (!position) return;
+
+    const tradeCount = this.trades.length;
+    super.executeExit(symbol, exitPrice, date, reason);
+    // No trade means the participation cap left nothing to sell today
+    const trade = this.trades.length > tradeCount ? this.trades[this.trades.length - 1] : null;
+    if (!trade) return;
+
+    const closed = !this.positions.has(symbol);
+    const pnlPct = (trade.exitPrice - position.entryPrice) / position.entryPrice;
+
+    const sim = this.sim();
+    sim.run(() => {
+      this.recordSell(position, trade.shares, trade.exitPrice, reason, exitPrice);
+      if (closed) {
+        sim.db.delete(positions).where(eq(positions.symbol, symbol)).run();
+        getProtectionManager().evaluateAfterClose(symbol, reason, pnlPct);
+      } else {
+        sim.db
+          .update(positions)
+          .set({ shares: position.shares, updatedAt: new Date(sim.time).toISOString() })
+          .where(eq(positions.symbol, symbol))
+          .run();
+      }
+    });
+  }
+
+  protected override buildResult(): BacktestResult {
+    return { ...super.buildResult(), pipeline: this.report };
+  }
+
+  // ── Simulated fills ─────────────────────────────────────────────────
+
+  private fillDCA(
+    position: BacktestPosition,
+    requestedShares: number,
+    intendedPrice: number,
+    date: string,
+  ): void {
+    const fill = this.quoteFill('BUY', position.symbol, requestedShares, intendedPrice, date);
+    const { shares, price } = fill;
+    if (shares <= 0) return;
+
+    const cost = shares * price + this.config.commission;
+    if (cost > this.cash) return;
+
+    this.cash -= cost;
+    this.bookFill(fill, requestedShares);
+    const totalShares = position.shares + shares;
+    position.totalInvested =
+      (position.totalInvested ?? position.shares * position.entryPrice) + shares * price;
+    position.entryRefPrice =
+      ((position.entryRefPrice ?? position.entryPrice) * position.shares + shares * intendedPrice) /
+      totalShares;
+    // Re-average on the actual fill; the DCA manager's figure assumes the close
+    position.entryPrice = (position.entryPrice * position.shares + shares * price) / totalShares;
+    position.shares = totalShares;
+    position.dcaCount = (position.dcaCount ?? 0) + 1;
+    this.report.dcaFills++;
+
+    const sim = this.sim();
+    sim.run(() => {
+      const now = new Date(sim.time).toISOString();
+      sim.db
+        .insert(trades)
+        .values({
+          symbol: position.symbol,
+          t212Ticker: position.symbol,
+          side: 'BUY',
+          shares,
+          entryPrice: price,
+          entryTime: now,
+          intendedPrice,
+          slippage: (price - intendedPrice) / intendedPrice,
+          accountType: sim.get<'INVEST' | 'ISA'>('t212.accountType'),
+          dcaRound: position.dcaCount,
+        })
+        .run();
+      sim.db
+        .update(positions)
+        .set({
+          shares: position.shares,
+          entryPrice: position.entryPrice,
+          dcaCount: position.dcaCount,
+          totalInvested: position.totalInvested,
+          updatedAt: now,
+        })
+        .where(eq(positions.symbol, position.symbol))
+        .run();
+    });
+
+    log.debug(
+      { symbol: position.symbol, shares, price, round: position.dcaCount },
+      'Simulated DCA fill',
+    );
+  }
+
+  private fillPartialExit(
+    position: BacktestPosition,
+    requestedShares: number,
+    intendedPrice: number,
+    date: string,
+  ): void {
+    const fill = this.quoteFill('SELL', position.symbol, requestedShares, intendedPrice, date);
+    const { shares, price } = fill;
+    if (shares <= 0) return;
+
+    const pnl = (price - position.entryPrice) * shares - this.config.commission;
+    const pnlPct = (price - position.entryPrice) / position.entryPrice;
+    const grossPnl = (intendedPrice - (position.entryRefPrice ?? position.entryPrice)) * shares;
+    const isFirst = (position.partialExitCount ?? 0) === 0;
+
+    this.cash += shares * price - this.config.commission;
+    this.bookFill(fill, requestedShares);
+    position.shares -= shares;
+    position.partialExitCount = (position.partialExitCount ?? 0) + 1;
+    this.report.partialExits++;
+
+    const sim = this.sim();
+    if (isFirst && sim.get<boolean>('partialExit.moveStopToBreakeven')) {
+      position.stopLoss = Math.max(position.stopLoss, position.entryPrice);
+    }
+
+    this.trades.push({
+      symbol: position.symbol,
+      side: 'SELL',
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      shares,
+      entryTime: position.entryTime,
+      exitTime: date,
+      pnl: round(pnl, 2),
+      pnlPct: round(pnlPct, 4),
+      exitReason: 'partial_exit',
+      holdMinutes: Math.round(
+        (new Date(date).getTime() - new Date(position.entryTime).getTime()) / 60000,
+      ),
+      technicalScore: position.technicalScore,
+      grossPnl: round(grossPnl, 2),
+    });
+
+    sim.run(() => {
+      this.recordSell(position, shares, price, 'partial_exit', intendedPrice);
+      sim.db
+        .update(positions)
+        .set({
+          shares: position.shares,
+          stopLoss: position.stopLoss,
+          partialExitCount: position.partialExitCount,
+          updatedAt: new Date(sim.time).toISOString(),
+        })
+        .where(eq(positions.symbol, position.symbol))
+        .run();
+    });
+  }
+
+  /** Insert the SELL row the order manager would have written. Call inside `sim.run`. */
+  private recordSell(
+    position: BacktestPosition,
+    shares: number,
+    exitPrice: number,
+    reason: string,
+    intendedPrice: number,
+  ): void {
+    const sim = this.sim();
+    sim.db
+      .insert(trades)
+      .values({
+        symbol: position.symbol,
+        t212Ticker: position.symbol,
+        side: 'SELL',
+        shares,
+        entryPrice: position.entryPrice,
+        exitPrice,
+        pnl: (exitPrice - position.entryPrice) * shares,
+        pnlPct: (exitPrice - position.entryPrice) / position.entryPrice,
+        entryTime: `${position.entryTime}${SESSION_OPEN_UTC}`,
+        exitTime: new Date(sim.time).toISOString(),
+        exitReason: reason,
+        intendedPrice,
+        slippage: (intendedPrice - exitPrice) / intendedPrice,
+        accountType: sim.get<'INVEST' | 'ISA'>('t212.accountType'),
+      })
+      .run();
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────────
+
+  private sim(): SimulationContext {
+    if (!this.simulation) {
+      throw new Error('Simulation context not prepared. Call run() first.');
+    }
+    return this.simulation;
+  }
+
+  private buildPortfolioState(): PortfolioState {
+    return {
+      cashAvailable: this.cash,
+      portfolioValue: this.markedEquity,
+      openPositions: this.positions.size,
+      todayPnl: this.markedEquity - this.previousEquity,
+      todayPnlPct:
+        this.previousEquity > 0
+          ? (this.markedEquity - this.previousEquity) / this.previousEquity
+          : 0,
+      sectorExposure: {},
+      sectorExposureValue: {},
+      peakValue: this.peakEquity,
+    };
+  }
+
+  private buildExitContext(
+    position: BacktestPosition,
+    candles: Candle[],
+    date: string,
+  ): ExitContext {
+    const last = candles[candles.length - 1];
+    const previous = candles.length > 1 ? candles[candles.length - 2] : undefined;
+    const closes = candles.map((c) => c.close);
+    const highs = candles.map((c) => c.high);
+    const lows = candles.map((c) => c.low);
+    const volumes = candles.map((c) => c.volume);
+    const recentVolumes = volumes.slice(-20);
+    const hoursHeld =
+      (new Date(date).getTime() - new Date(position.entryTime).getTime()) / 3_600_000;
+
+    const macd = calcMACD(closes);
+    const bollinger = calcBollingerBands(closes);
+    const indicators: ExitContext['indicators'] = {};
+    const assign = (key: keyof ExitContext['indicators'], value: number | null | undefined) => {
+      if (value != null) indicators[key] = value;
+    };
+    assign('RSI', calcRSI(closes));
+    assign('SMA20', calcSMA(closes, 20));
+    assign('SMA50', calcSMA(closes, 50));
+    assign('SMA200', calcSMA(closes, 200));
+    assign('EMA12', calcEMA(closes, 12));
+    assign('EMA26', calcEMA(closes, 26));
+    assign('MACD', macd?.value);
+    assign('MACD_SIGNAL', macd?.signal);
+    assign('MACD_HISTOGRAM', macd?.histogram);
+    assign('ATR', calcATR(highs, lows, closes));
+    assign('ADX', calcADX(highs, lows, closes));
+    assign('BB_UPPER', bollinger?.upper);
+    assign('BB_LOWER', bollinger?.lower);
+    assign('CCI', calcCCI(highs, lows, closes));
+    assign('MFI', calcMFI(highs, lows, closes, volumes));
+
+    return {
+      currentPrice: last.close,
+      previousPrice: previous?.close,
+      entryPrice: position.entryPrice,
+      pnlPct: ((last.close - position.entryPrice) / position.entryPrice) * 100,
+      pnlAbs: (last.close - position.entryPrice) * position.shares,
+      daysHeld: hoursHeld / 24,
+      hoursHeld,
+      indicators,
+      volume: last.volume,
+      avgVolume: recentVolumes.reduce((a, b) => a + b, 0) / recentVolumes.length,
+    };
+  }
+
+  private reject(date: string, symbol: string, stage: PipelineStage, reason: string): void {
+    this.report.rejectionsByStage[stage]++;
+    if (this.report.rejections.length < MAX_REJECTIONS_REPORTED) {
+      this.report.rejections.push({ date, symbol, stage, reason });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { formatCurrency, formatPercent, round } from '../utils/helpers.js';
-import type { BacktestResult } from './types.js';
+import type { BacktestComparison, BacktestMetrics, BacktestResult, MetricDiff } from './types.js';
 
 /**
  * Generate a text summary suitable for console output or Telegram.
@@ -42,6 +42,20 @@ export function generateSummary(result: BacktestResult): string {
     `Expectancy: ${metrics.expectancy != null ? formatCurrency(metrics.expectancy) : 'N/A'}`,
   );
 
+  if (result.costs && result.costs.totalCosts > 0) {
+    const { costs } = result;
+    lines.push('');
+    lines.push('--- Costs ---');
+    lines.push(
+      `Gross P&L: ${formatCurrency(costs.grossPnl)} (${formatPercent(costs.grossReturnPct)})`,
+    );
+    lines.push(`Net P&L: ${formatCurrency(costs.netPnl)} (${formatPercent(costs.netReturnPct)})`);
+    lines.push(
+      `Spread: ${formatCurrency(costs.spread)} | Slippage: ${formatCurrency(costs.slippage)} | FX: ${formatCurrency(costs.fx)} | Commission: ${formatCurrency(costs.commission)}${costs.financing ? ` | Financing: ${formatCurrency(costs.financing)}` : ''}`,
+    );
+    lines.push(`Gap Fills: ${costs.gapFills} | Partial Fills: ${costs.partialFills}`);
+  }
+
   if (metrics.bestTrade) {
     lines.push('');
     lines.push(
@@ -121,6 +135,85 @@ export function formatEquityCurve(result: BacktestResult): {
   };
 }
 
+type ComparableMetric = Exclude<keyof BacktestMetrics, 'bestTrade' | 'worstTrade'>;
+
+/** Metrics compared across runs; 'higher'/'lower' is the better direction, null is neutral. */
+const COMPARED_METRICS: [ComparableMetric, 'higher' | 'lower' | null][] = [
+  ['finalEquity', 'higher'],
+  ['returnPct', 'higher'],
+  ['totalPnl', 'higher'],
+  ['totalTrades', null],
+  ['winRate', 'higher'],
+  ['avgWin', 'higher'],
+  ['avgLoss', 'higher'],
+  ['maxDrawdownPct', 'lower'],
+  ['sharpeRatio', 'higher'],
+  ['sortinoRatio', 'higher'],
+  ['calmarRatio', 'higher'],
+  ['sqn', 'higher'],
+  ['profitFactor', 'higher'],
+  ['expectancy', 'higher'],
+  ['avgHoldMinutes', null],
+];
+
+/**
+ * Diff two results metric-by-metric (b relative to a) and list the config keys that changed.
+ */
+export function compareResults(a: BacktestResult, b: BacktestResult): BacktestComparison {
+  const metrics: MetricDiff[] = COMPARED_METRICS.map(([metric, better]) =>
+    diffMetric(metric, a.metrics[metric], b.metrics[metric], better),
+  );
+  if (a.costs || b.costs) {
+    metrics.push(
+      diffMetric('totalCosts', a.costs?.totalCosts ?? null, b.costs?.totalCosts ?? null, 'lower'),
+    );
+  }
+
+  const configA = a.config as unknown as Record<string, unknown>;
+  const configB = b.config as unknown as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(configA), ...Object.keys(configB)])].sort();
+  const configChanges = keys
+    .filter((key) => JSON.stringify(configA[key]) !== JSON.stringify(configB[key]))
+    .map((key) => ({ key, a: configA[key], b: configB[key] }));
+
+  return { metrics, configChanges, sameConfig: configChanges.length === 0 };
+}
+
+/**
+ * Render a comparison as text, one metric per line.
+ */
+export function generateComparisonSummary(comparison: BacktestComparison): string {
+  const lines: string[] = ['=== Backtest Comparison (B vs A) ==='];
+  for (const diff of comparison.metrics) {
+    const marker = diff.improved === true ? ' +' : diff.improved === false ? ' -' : '';
+    lines.push(
+      `${diff.metric}: ${diff.a ?? 'N/A'} -> ${diff.b ?? 'N/A'} (Δ ${diff.delta ?? 'N/A'})${marker}`,
+    );
+  }
+  lines.push('');
+  if (comparison.sameConfig) {
+    lines.push('Config: identical');
+  } else {
+    lines.push('--- Config Changes ---');
+    for (const change of comparison.configChanges) {
+      lines.push(`${change.key}: ${JSON.stringify(change.a)} -> ${JSON.stringify(change.b)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function diffMetric(
+  metric: string,
+  a: number | null,
+  b: number | null,
+  better: 'higher' | 'lower' | null,
+): MetricDiff {
+  if (a == null || b == null) return { metric, a, b, delta: null, improved: null };
+  const delta = round(b - a, 4);
+  const improved = better == null || delta === 0 ? null : delta > 0 === (better === 'higher');
+  return { metric, a, b, delta, improved };
+}
+
 function formatHoldTime(minutes: number): string {
   if (minutes < 60) return `${Math.round(minutes)}m`;
   const hours = Math.floor(minutes / 60);
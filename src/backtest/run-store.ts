@@ -0,0 +1,142 @@
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  type BacktestRunRow,
+  getBacktestRun,
+  insertBacktestRun,
+} from '../db/repositories/backtest-runs.js';
+import { safeJsonParse } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import { compareResults } from './reporter.js';
+import type {
+  BacktestComparison,
+  BacktestConfig,
+  BacktestResult,
+  BacktestRunInfo,
+} from './types.js';
+
+const log = createLogger('backtest-runs');
+
+export interface StoredBacktestRun {
+  info: BacktestRunInfo;
+  result: BacktestResult;
+}
+
+let cachedCodeVersion: string | null = null;
+
+/**
+ * Stable hash of a backtest config: keys are sorted at every level so two
+ * configs that differ only in property order hash the same.
+ */
+export function hashBacktestConfig(config: BacktestConfig): string {
+  return createHash('sha256').update(canonicalJson(config)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Package version plus the git commit, e.g. `1.0.0+3f2c1ab`. Containers without
+ * a git checkout can pass the commit in GIT_COMMIT.
+ */
+export function getCodeVersion(): string {
+  if (cachedCodeVersion) return cachedCodeVersion;
+
+  let version = process.env.npm_package_version ?? 'unknown';
+  if (version === 'unknown') {
+    try {
+      const pkg = JSON.parse(readFileSync(join(process.cwd(), 'package.json'), 'utf-8'));
+      version = pkg.version ?? version;
+    } catch {
+      // Running outside the project directory
+    }
+  }
+
+  let commit = process.env.GIT_COMMIT?.slice(0, 12) ?? null;
+  if (!commit) {
+    try {
+      commit =
+        execFileSync('git', ['rev-parse', '--short', 'HEAD'], {
+          stdio: ['ignore', 'pipe', 'ignore'],
+          timeout: 2000,
+        })
+          .toString()
+          .trim() || null;
+    } catch {
+      // Not a git checkout
+    }
+  }
+
+  cachedCodeVersion = commit ? `${version}+${commit}` : version;
+  return cachedCodeVersion;
+}
+
+/** Persist a finished backtest with its provenance. */
+export function saveBacktestRun(result: BacktestResult, label?: string): BacktestRunInfo {
+  const { config, equityCurve } = result;
+  const configHash = hashBacktestConfig(config);
+  const codeVersion = getCodeVersion();
+  const dataStart = equityCurve[0]?.date ?? null;
+  const dataEnd = equityCurve[equityCurve.length - 1]?.date ?? null;
+
+  const id = insertBacktestRun({
+    label: label ?? null,
+    configHash,
+    codeVersion,
+    mode: config.mode ?? 'technical',
+    symbols: config.symbols,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    dataStart,
+    dataEnd,
+    config,
+    metrics: result.metrics,
+    result,
+  });
+
+  log.info({ id, configHash, codeVersion }, 'Backtest run saved');
+  const row = getBacktestRun(id);
+  if (!row) throw new Error(`Backtest run ${id} was not persisted`);
+  return toRunInfo(row);
+}
+
+export function loadBacktestRun(id: number): StoredBacktestRun | null {
+  const row = getBacktestRun(id);
+  if (!row) return null;
+  const result = safeJsonParse<BacktestResult | null>(row.result, null);
+  if (!result) return null;
+  return { info: toRunInfo(row), result };
+}
+
+/** Diff run `bId` against run `aId`; null when either run is missing. */
+export function compareBacktestRuns(
+  aId: number,
+  bId: number,
+): { a: BacktestRunInfo; b: BacktestRunInfo; comparison: BacktestComparison } | null {
+  const a = loadBacktestRun(aId);
+  const b = loadBacktestRun(bId);
+  if (!a || !b) return null;
+  return { a: a.info, b: b.info, comparison: compareResults(a.result, b.result) };
+}
+
+function toRunInfo(row: BacktestRunRow): BacktestRunInfo {
+  return {
+    id: row.id,
+    label: row.label,
+    configHash: row.configHash,
+    codeVersion: row.codeVersion,
+    dataStart: row.dataStart,
+    dataEnd: row.dataEnd,
+    createdAt: row.createdAt,
+  };
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,78 @@
+import { CONFIG_DEFAULTS } from '../config/defaults.js';
+import { configManager } from '../config/manager.js';
+import { validateConfigValue } from '../config/schema-validator.js';
+import { type AppDatabase, createDatabase, withDatabase } from '../db/index.js';
+import { withClock } from '../utils/clock.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('backtest-simulation');
+
+/**
+ * Sandbox in which the live execution modules can be driven during a backtest.
+ *
+ * A context owns a scratch in-memory database, a frozen snapshot of the
+ * current configuration (plus any candidate overrides) and a simulated clock.
+ * `run()` swaps all three in for the duration of a synchronous callback, so
+ * RiskGuard, ProtectionManager, PairLockManager, DCAManager and friends read
+ * simulated state without any change to their code paths.
+ */
+export class SimulationContext {
+  readonly db: AppDatabase;
+  private readonly settings: Record<string, unknown>;
+  private clockMs = 0;
+
+  constructor(overrides: Record<string, unknown> = {}, db?: AppDatabase) {
+    for (const [key, value] of Object.entries(overrides)) {
+      const validation = validateConfigValue(key, value);
+      if (!validation.valid) {
+        throw new Error(`Invalid value for config key "${key}": ${validation.error}`);
+      }
+    }
+
+    this.settings = { ...snapshotConfig(), ...overrides };
+    this.db = db ?? createDatabase(':memory:');
+
+    log.debug({ overrides: Object.keys(overrides) }, 'Simulation context created');
+  }
+
+  /** Move the simulated clock. Accepts epoch ms, an ISO timestamp or YYYY-MM-DD. */
+  setTime(time: number | string): void {
+    this.clockMs = typeof time === 'number' ? time : new Date(time).getTime();
+  }
+
+  get time(): number {
+    return this.clockMs;
+  }
+
+  /** Read a config value as the simulated modules will see it. */
+  get<T>(key: string): T {
+    return this.settings[key] as T;
+  }
+
+  /**
+   * Run a synchronous callback inside the simulation. Never pass an async
+   * function: the scratch database and simulated clock are restored as soon as
+   * the callback returns, so work after its first await would hit live state.
+   */
+  run<T>(fn: () => T): T {
+    return withDatabase(this.db, () =>
+      configManager.withOverrides(this.settings, () => withClock(this.clockMs, fn)),
+    );
+  }
+}
+
+/**
+ * Capture every known config key as currently resolved (env → DB → default),
+ * falling back to the default when the live database is unavailable.
+ */
+function snapshotConfig(): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const def of CONFIG_DEFAULTS) {
+    try {
+      snapshot[def.key] = configManager.get(def.key);
+    } catch {
+      snapshot[def.key] = JSON.parse(def.value);
+    }
+  }
+  return snapshot;
+}
@@ -1,3 +1,5 @@
+import type { ReplayReport } from './decision-replay.js';
+
 export interface BacktestConfig {
   symbols: string[];
   startDate: string;
@@ -11,11 +13,53 @@ export interface BacktestConfig {
   trailingStop: boolean;
   commission: number;
   entryThreshold: number;
+  /**
+   * 'technical' (default) ranks entries by score and applies the stop/ROI rules above.
+   * 'pipeline' additionally drives the live execution modules (risk guard, protections,
+   * DCA, partial exits, exit-condition DSL, regime adjustments) in a simulated sandbox.
+   */
+  mode?: 'technical' | 'pipeline';
+  /** Config keys pinned for the simulated live modules (pipeline mode only). */
+  configOverrides?: Record<string, unknown>;
+  /** Exit-condition DSL text evaluated against every open position (pipeline mode only). */
+  exitConditions?: string;
+  /**
+   * Where entry/exit decisions come from. 'score' (default) computes the technical
+   * score; 'recorded' replays stored AI decisions from `signals`/`model_performance`.
+   */
+  signalSource?: 'score' | 'recorded';
+  /** Only replay decisions made by this model (signalSource 'recorded' only). */
+  aiModel?: string;
+  /** Market-friction model for fills; omitted means frictionless fills at the requested price. */
+  fillModel?: FillModelConfig;
+  /**
+   * Open shorts on bearish signals: scores at or below 1 - entryThreshold, or
+   * recorded SELLs on symbols not held (technical mode only).
+   */
+  allowShort?: boolean;
+  /** Annual borrow plus overnight financing charged on short value (default 0) */
+  shortFinancingAnnualPct?: number;
+}
+
+export interface FillModelConfig {
+  /** Quoted spread in basis points for a liquid name; widens as daily dollar volume drops */
+  spreadBps?: number;
+  slippage?: { type: 'pct'; pct: number } | { type: 'atr'; atrMultiple: number; period?: number };
+  /** Stops and take-profits the open gaps through fill at the open (default true) */
+  gapThroughStops?: boolean;
+  /** Max share of a bar's volume a single fill may take (0-1); the rest fills on later bars */
+  maxParticipationRate?: number;
+  /** Account currency; anything but USD pays the FX fee on both legs */
+  accountCurrency?: string;
+  /** FX conversion fee (default: Trading212's 0.15%) */
+  fxFeePct?: number;
 }
 
 export interface BacktestTrade {
   symbol: string;
+  /** The closing side: SELL for longs, BUY for covered shorts */
   side: 'BUY' | 'SELL';
+  direction?: 'LONG' | 'SHORT';
   entryPrice: number;
   exitPrice: number;
   shares: number;
@@ -26,10 +70,15 @@ export interface BacktestTrade {
   exitReason: string;
   holdMinutes: number;
   technicalScore: number;
+  /** P&L at frictionless prices, before spread, slippage, FX fees and commission */
+  grossPnl?: number;
+  /** Short financing charged while the position was open (already in pnl) */
+  financingCost?: number;
 }
 
 export interface BacktestPosition {
   symbol: string;
+  direction?: 'LONG' | 'SHORT';
   shares: number;
   entryPrice: number;
   entryTime: string;
@@ -37,7 +86,18 @@ export interface BacktestPosition {
   trailingStop?: number;
   takeProfit?: number;
   highWaterMark: number;
+  /** Lowest low since entry; trails the stop of a short */
+  lowWaterMark?: number;
   technicalScore: number;
+  dcaCount?: number;
+  partialExitCount?: number;
+  totalInvested?: number;
+  /** Frictionless (pre-cost) average entry price */
+  entryRefPrice?: number;
+  /** Set when an exit was only partly filled; the rest goes at the next open */
+  pendingExitReason?: string;
+  /** Short financing charged so far and not yet attributed to a trade */
+  financingCost?: number;
 }
 
 export interface BacktestResult {
@@ -46,6 +106,47 @@ export interface BacktestResult {
   metrics: BacktestMetrics;
   equityCurve: { date: string; equity: number }[];
   dailyReturns: number[];
+  pipeline?: PipelineReport;
+  replay?: ReplayReport;
+  costs?: CostReport;
+}
+
+/** Gross (frictionless) vs net results and where the difference went. */
+export interface CostReport {
+  grossPnl: number;
+  netPnl: number;
+  grossReturnPct: number;
+  netReturnPct: number;
+  totalCosts: number;
+  spread: number;
+  slippage: number;
+  fx: number;
+  commission: number;
+  /** Borrow and overnight fees on shorts */
+  financing: number;
+  /** Stops/targets that filled at a gapped open instead of their level */
+  gapFills: number;
+  /** Fills cut short by the participation cap */
+  partialFills: number;
+}
+
+export type PipelineStage = 'regime' | 'daily_loss' | 'protection' | 'risk_guard';
+
+export interface PipelineRejection {
+  date: string;
+  symbol: string;
+  stage: PipelineStage;
+  reason: string;
+}
+
+/** What the live execution modules did during a pipeline-mode backtest. */
+export interface PipelineReport {
+  rejections: PipelineRejection[];
+  rejectionsByStage: Record<PipelineStage, number>;
+  dcaFills: number;
+  partialExits: number;
+  conditionExits: number;
+  regimeDays: Record<string, number>;
 }
 
 export interface BacktestMetrics {
@@ -84,6 +185,116 @@ export interface Candle {
 
 export interface EntrySignal {
   symbol: string;
+  /** Signal strength (0-1); for shorts, how bearish */
   score: number;
   price: number;
+  direction?: 'LONG' | 'SHORT';
+}
+
+// ── Optimisation (hyperopt) ──────────────────────────────────────────────
+
+/** Either an inclusive stepped range or an explicit list of candidate values. */
+export type NumericRange = { min: number; max: number; step: number } | number[];
+
+export interface ParameterSpace {
+  stopLossPct?: NumericRange;
+  entryThreshold?: NumericRange;
+  maxPositions?: NumericRange;
+  trailingStop?: boolean[];
+  /** Candidate ROI tables, each {minutes: minProfitRatio} */
+  roiTable?: Record<string, number>[];
+}
+
+export type OptimizationParams = Partial<
+  Pick<
+    BacktestConfig,
+    'stopLossPct' | 'entryThreshold' | 'maxPositions' | 'trailingStop' | 'roiTable'
+  >
+>;
+
+export type OptimizationObjective = 'sharpe' | 'calmar' | 'sqn' | 'profitFactor';
+
+export interface WalkForwardConfig {
+  /** Number of rolling in-sample/out-of-sample windows */
+  windows: number;
+  /** Share of each window used for in-sample search (e.g. 0.75) */
+  inSamplePct: number;
+}
+
+export interface OptimizationConfig {
+  base: BacktestConfig;
+  space: ParameterSpace;
+  method: 'grid' | 'random';
+  objective: OptimizationObjective;
+  /** Random: number of samples (default 50). Grid: upper bound on combinations (default 500). */
+  maxEvaluations?: number;
+  /** Seed for random search, for reproducible runs */
+  seed?: number;
+  walkForward?: WalkForwardConfig;
+  /** Trials with fewer closed trades than this are unscored (default 1) */
+  minTrades?: number;
+}
+
+export interface OptimizationTrial {
+  params: OptimizationParams;
+  score: number | null;
+  totalTrades: number;
+  returnPct: number;
+  maxDrawdownPct: number;
+  /** Walk-forward window index; absent for a single-period run */
+  window?: number;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: { startDate: string; endDate: string };
+  outOfSample: { startDate: string; endDate: string };
+  bestParams: OptimizationParams | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+}
+
+export interface OptimizationResult {
+  runId: number | null;
+  method: 'grid' | 'random';
+  objective: OptimizationObjective;
+  trials: OptimizationTrial[];
+  /** Single period: best trial. Walk-forward: winner of the most recent window. */
+  bestParams: OptimizationParams | null;
+  bestScore: number | null;
+  windows?: WalkForwardWindow[];
+  /** Mean out-of-sample score across walk-forward windows */
+  outOfSampleMeanScore?: number | null;
+}
+
+// ── Persisted runs ───────────────────────────────────────────────────────
+
+/** Provenance stored alongside a persisted backtest result. */
+export interface BacktestRunInfo {
+  id: number;
+  label: string | null;
+  configHash: string;
+  codeVersion: string;
+  /** First and last trading day actually simulated (may be narrower than requested) */
+  dataStart: string | null;
+  dataEnd: string | null;
+  createdAt: string;
+}
+
+export interface MetricDiff {
+  metric: string;
+  a: number | null;
+  b: number | null;
+  /** b - a; null when either side is missing */
+  delta: number | null;
+  /** Whether b is better than a for this metric; null when equal or not comparable */
+  improved: boolean | null;
+}
+
+export interface BacktestComparison {
+  metrics: MetricDiff[];
+  /** Config keys whose values differ between the two runs */
+  configChanges: { key: string; a: unknown; b: unknown }[];
+  sameConfig: boolean;
 }
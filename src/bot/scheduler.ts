@@ -1,7 +1,8 @@
 import cron from 'node-cron';
 import { getHealthMetrics } from '../monitoring/health-metrics.js';
+import type { ExchangeCode } from '../utils/exchanges.js';
 import { createLogger } from '../utils/logger.js';
-import { getMarketStatus, isUSMarketOpen } from '../utils/market-hours.js';
+import { getMarketStatus, isAnyMarketOpen } from '../utils/market-hours.js';
 
 const log = createLogger('scheduler');
 
@@ -15,11 +16,17 @@ interface ScheduledJob {
 export class Scheduler {
   private jobs: ScheduledJob[] = [];
   private onJobFailureCb?: (jobName: string, error: unknown) => void;
+  private exchanges: ExchangeCode[] = ['US'];
 
   setOnJobFailure(cb: (jobName: string, error: unknown) => void): void {
     this.onJobFailureCb = cb;
   }
 
+  /** Exchanges whose sessions count as market hours for `marketHoursOnly` jobs. */
+  setExchanges(exchanges: ExchangeCode[]): void {
+    this.exchanges = exchanges.length > 0 ? exchanges : ['US'];
+  }
+
   registerJob(
     name: string,
     cronExpression: string,
@@ -27,7 +34,7 @@ export class Scheduler {
     marketHoursOnly = false,
   ): void {
     const wrappedHandler = async () => {
-      if (marketHoursOnly && !isUSMarketOpen()) {
+      if (marketHoursOnly && !isAnyMarketOpen(this.exchanges)) {
         log.debug({ job: name, marketStatus: getMarketStatus() }, 'Skipping job — market closed');
         return;
       }
@@ -14,6 +14,39 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'trading212',
     description: 'INVEST | ISA',
   },
+  {
+    key: 't212.accounts',
+    value: '[]',
+    category: 'trading212',
+    description:
+      'Accounts traded side by side, e.g. [{"accountType":"ISA","apiKeyEnv":"TRADING212_ISA_API_KEY","strategyProfile":"conservative","overrides":{"risk.maxPositions":3}}]. Empty uses t212.accountType with TRADING212_API_KEY',
+  },
+  {
+    key: 't212.accountCurrency',
+    value: '"USD"',
+    category: 'trading212',
+    description:
+      'Currency the account is denominated in; positions in other currencies are converted at live FX rates',
+  },
+  {
+    key: 't212.requestScheduler.enabled',
+    value: 'true',
+    category: 'trading212',
+    description:
+      'Queue Trading212 requests per endpoint within its rate limit, order placement and cancels first',
+  },
+  {
+    key: 't212.requestScheduler.maxConcurrent',
+    value: '4',
+    category: 'trading212',
+    description: 'Requests one account may have in flight at once',
+  },
+  {
+    key: 't212.requestScheduler.maxRetries',
+    value: '3',
+    category: 'trading212',
+    description: 'Times a rate-limited (429) request is retried after the limit resets',
+  },
 
   // Pairlist
   {
@@ -22,6 +55,13 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'pairlist',
     description: 'Enable pairlist pipeline',
   },
+  {
+    key: 'pairlist.exchanges',
+    value: '["US"]',
+    category: 'pairlist',
+    description:
+      'Exchanges to trade: US, LSE, XETRA, EURONEXT_PARIS, EURONEXT_AMSTERDAM, BORSA_ITALIANA, BME, SIX',
+  },
   {
     key: 'pairlist.refreshMinutes',
     value: '30',
@@ -239,7 +279,7 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     key: 'ai.provider',
     value: '"anthropic"',
     category: 'ai',
-    description: 'anthropic | ollama | openai-compatible',
+    description: 'anthropic | ollama | openai-compatible | ensemble',
   },
   {
     key: 'ai.model',
@@ -297,6 +337,149 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     description: 'Previous signals sent to AI',
   },
   { key: 'ai.temperature', value: '0.1', category: 'ai', description: 'AI temperature' },
+  {
+    key: 'ai.ensemble.members',
+    value: '[{"provider":"anthropic"},{"provider":"ollama"}]',
+    category: 'ai',
+    description: 'Ensemble models: provider plus optional model override',
+  },
+  {
+    key: 'ai.ensemble.strategy',
+    value: '"majority"',
+    category: 'ai',
+    description: 'Ensemble vote: majority | conviction (weighted average) | accuracy (tracked)',
+  },
+  {
+    key: 'ai.ensemble.minResponses',
+    value: '1',
+    category: 'ai',
+    description: 'Members that must answer for the ensemble to decide',
+  },
+  {
+    key: 'ai.ensemble.maxDisagreement',
+    value: '1',
+    category: 'ai',
+    description: 'Hold when more than this share of the vote dissents (0-1)',
+  },
+  {
+    key: 'ai.cassette.mode',
+    value: '"off"',
+    category: 'ai',
+    description: 'Record model responses, replay them offline, or off',
+  },
+  {
+    key: 'ai.cassette.onMiss',
+    value: '"fail"',
+    category: 'ai',
+    description: 'On a replay miss: fail the call, or go live and record it',
+  },
+  {
+    key: 'ai.tools.enabled',
+    value: 'false',
+    category: 'ai',
+    description:
+      'Let the model call tools (timeframes, news, peers, correlation, journal) before deciding; Anthropic and OpenAI-compatible only',
+  },
+  {
+    key: 'ai.tools.maxRounds',
+    value: '3',
+    category: 'ai',
+    description: 'Tool-calling rounds before the model must answer',
+  },
+  {
+    key: 'ai.tools.maxCalls',
+    value: '8',
+    category: 'ai',
+    description: 'Tool calls allowed per analysis',
+  },
+  {
+    key: 'ai.tools.allowed',
+    value: '[]',
+    category: 'ai',
+    description: 'Tools offered to the model (empty = all)',
+  },
+  {
+    key: 'ai.structuredOutput.enabled',
+    value: 'true',
+    category: 'ai',
+    description:
+      'Constrain decisions to the JSON schema natively: forced tool on Anthropic, json_schema response format on OpenAI-compatible, schema format on Ollama',
+  },
+  {
+    key: 'ai.structuredOutput.maxRepairs',
+    value: '1',
+    category: 'ai',
+    description: 'Times an invalid decision is sent back to the model with its validation errors',
+  },
+  {
+    key: 'ai.quarantine.failureRate',
+    value: '0.5',
+    category: 'ai',
+    description: 'Share of recent unparseable decisions that quarantines a model',
+  },
+  {
+    key: 'ai.quarantine.minSamples',
+    value: '10',
+    category: 'ai',
+    description: 'Decisions a model must have made before it can be quarantined',
+  },
+  {
+    key: 'ai.quarantine.minutes',
+    value: '60',
+    category: 'ai',
+    description:
+      'How long a quarantined model is left out (ensemble members skipped, single model replaced by the fallback)',
+  },
+  {
+    key: 'ai.pricing',
+    value:
+      '{"claude-opus-4-5":{"input":5,"output":25},"claude-opus-4":{"input":15,"output":75},"claude-sonnet-4":{"input":3,"output":15},"claude-haiku-4-5":{"input":1,"output":5},"claude-3-5-haiku":{"input":0.8,"output":4}}',
+    category: 'ai',
+    description:
+      'USD per million input/output tokens by model name or prefix; unlisted models are free',
+  },
+  {
+    key: 'ai.budget.dailyUsd',
+    value: '0',
+    category: 'ai',
+    description: 'Daily AI spend cap in USD (0 = no cap)',
+  },
+  {
+    key: 'ai.budget.monthlyUsd',
+    value: '0',
+    category: 'ai',
+    description: 'Monthly AI spend cap in USD (0 = no cap)',
+  },
+  {
+    key: 'ai.budget.reduceAtPct',
+    value: '0.7',
+    category: 'ai',
+    description: 'Share of a cap spent before fewer symbols are analysed per loop',
+  },
+  {
+    key: 'ai.budget.reducedSymbolsPct',
+    value: '0.5',
+    category: 'ai',
+    description: 'Share of the tradable symbols still analysed once the budget is reduced',
+  },
+  {
+    key: 'ai.budget.fallbackAtPct',
+    value: '0.9',
+    category: 'ai',
+    description: 'Share of a cap spent before switching to the fallback model',
+  },
+  {
+    key: 'ai.budget.fallback',
+    value: '{"provider":"anthropic","model":"claude-haiku-4-5"}',
+    category: 'ai',
+    description: 'Cheaper model used near the budget cap: provider plus optional model override',
+  },
+  {
+    key: 'ai.budget.technicalBuyScore',
+    value: '70',
+    category: 'ai',
+    description: 'Technical score to buy at once the budget is spent (sell at 100 minus this)',
+  },
 
   // Risk
   { key: 'risk.maxPositions', value: '5', category: 'risk', description: 'Max open positions' },
@@ -354,6 +537,44 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'risk',
     description: 'Max sector exposure as % of portfolio value',
   },
+  {
+    key: 'risk.maxGrossExposurePct',
+    value: '1.5',
+    category: 'risk',
+    description: 'Max long plus short position value as a multiple of portfolio value',
+  },
+  {
+    key: 'risk.maxNetExposurePct',
+    value: '1',
+    category: 'risk',
+    description:
+      'Max long minus short position value (either way) as a multiple of portfolio value',
+  },
+  {
+    key: 'risk.maxPortfolioVaRPct',
+    value: '0.03',
+    category: 'risk',
+    description:
+      'Max one-day portfolio value at risk as % of portfolio value; new trades are sized down to fit (0 = off)',
+  },
+  {
+    key: 'risk.varConfidence',
+    value: '0.95',
+    category: 'risk',
+    description: 'Confidence level for value at risk and expected shortfall',
+  },
+  {
+    key: 'risk.varMethod',
+    value: '"historical"',
+    category: 'risk',
+    description: 'VaR the budget is enforced on: historical or parametric',
+  },
+  {
+    key: 'risk.varLookbackDays',
+    value: '120',
+    category: 'risk',
+    description: 'Days of daily returns the VaR model is estimated from',
+  },
 
   // Execution
   {
@@ -414,6 +635,18 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'dataSources',
     description: 'News check interval outside market hours',
   },
+  {
+    key: 'data.candleStore.enabled',
+    value: 'true',
+    category: 'dataSources',
+    description: 'Serve backtest history from the local candle store (topped up from Yahoo)',
+  },
+  {
+    key: 'data.candleStore.offline',
+    value: 'false',
+    category: 'dataSources',
+    description: 'Never fetch candles from the network; use stored bars only',
+  },
 
   // Trade planning
   {
@@ -647,6 +880,46 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     description: 'Max replacement attempts per original order',
   },
 
+  // Execution - Broker-side protective stops
+  {
+    key: 'execution.brokerStops.trailing',
+    value: 'false',
+    category: 'execution',
+    description: 'Move the Trading212 stop order up as the trailing stop ratchets',
+  },
+  {
+    key: 'execution.brokerStops.minAmendPct',
+    value: '0.005',
+    category: 'execution',
+    description: 'Min trailing stop rise (0.5%) before the broker stop is re-placed',
+  },
+
+  // Execution - Paper broker (simulated Trading212 account)
+  {
+    key: 'execution.paperBroker.enabled',
+    value: 'false',
+    category: 'execution',
+    description: 'Route orders to the local paper broker instead of Trading212, also in dry run',
+  },
+  {
+    key: 'execution.paperBroker.initialCash',
+    value: '10000',
+    category: 'execution',
+    description: 'Starting cash of the paper account (in-memory, reset on restart)',
+  },
+  {
+    key: 'execution.paperBroker.spreadBps',
+    value: '5',
+    category: 'execution',
+    description: 'Simulated bid/ask spread in basis points around the quote',
+  },
+  {
+    key: 'execution.paperBroker.enforceRateLimits',
+    value: 'false',
+    category: 'execution',
+    description: 'Reject calls exceeding Trading212 rate limits with a 429 error',
+  },
+
   // Exit - Time-based ROI table
   {
     key: 'exit.roiEnabled',
@@ -661,6 +934,13 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     description:
       'ROI table: {minutes: minProfitRatio}. Trade exits when profit exceeds threshold for its age.',
   },
+  {
+    key: 'exit.conditions',
+    value: '""',
+    category: 'exit',
+    description:
+      'Exit rules checked on every price tick, e.g. "profit > 8% or days held > 10". Indicator rules only apply in backtests',
+  },
 
   // DCA (Dollar Cost Averaging)
   {
@@ -834,6 +1114,152 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'tax',
     description: 'Min unrealized loss ($) to suggest tax-loss harvest',
   },
+  {
+    key: 'tax.dividendRate',
+    value: '0.15',
+    category: 'tax',
+    description: 'Tax rate on dividend income (15%)',
+  },
+
+  // Dividends
+  {
+    key: 'dividends.enabled',
+    value: 'true',
+    category: 'dividends',
+    description: 'Sync dividend payments from Trading212 and attribute them to positions',
+  },
+  {
+    key: 'dividends.syncIntervalHours',
+    value: '6',
+    category: 'dividends',
+    description: 'Hours between dividend history syncs',
+  },
+  {
+    key: 'dividends.policy',
+    value: '"cash"',
+    category: 'dividends',
+    description:
+      'What to do with dividends: "cash" keeps them for the next entry, "reinvest" buys more of the paying position',
+  },
+
+  // History import
+  {
+    key: 'historyImport.enabled',
+    value: 'false',
+    category: 'historyImport',
+    description:
+      'Backfill orders, trades, tax lots and cash transactions from the full Trading212 history, including trades placed in the app',
+  },
+  {
+    key: 'historyImport.intervalHours',
+    value: '24',
+    category: 'historyImport',
+    description: 'Hours between history import passes (each resumes where the last one stopped)',
+  },
+  {
+    key: 'historyImport.maxPagesPerRun',
+    value: '20',
+    category: 'historyImport',
+    description: 'History pages fetched per source in one pass (50 items per page)',
+  },
+
+  // Pie mode
+  {
+    key: 'pies.enabled',
+    value: 'false',
+    category: 'pies',
+    description:
+      'Manage a bot-owned Trading212 Pie as a long-horizon sleeve, allocated by the optimizer or risk parity',
+  },
+  {
+    key: 'pies.name',
+    value: '"Trader212 Core"',
+    category: 'pies',
+    description: 'Name of the bot-owned pie',
+  },
+  {
+    key: 'pies.symbols',
+    value: '[]',
+    category: 'pies',
+    description: 'Instruments the pie holds (symbols, e.g. ["SPY", "QQQ", "VUSA.L"])',
+  },
+  {
+    key: 'pies.method',
+    value: '"riskParity"',
+    category: 'pies',
+    description:
+      'How instrument shares are set: "riskParity" (inverse volatility), "maxSharpe" or "minVariance"',
+  },
+  {
+    key: 'pies.lookbackDays',
+    value: '180',
+    category: 'pies',
+    description: 'Days of daily history used to compute the allocation',
+  },
+  {
+    key: 'pies.maxInstrumentShare',
+    value: '0.35',
+    category: 'pies',
+    description: 'Largest share of the pie any one instrument may get',
+  },
+  {
+    key: 'pies.goal',
+    value: '0',
+    category: 'pies',
+    description: 'Pie goal value in account currency (0 = no goal)',
+  },
+  {
+    key: 'pies.dividendCashAction',
+    value: '"REINVEST"',
+    category: 'pies',
+    description: 'What the pie does with dividends: "REINVEST" or "TO_ACCOUNT_CASH"',
+  },
+  {
+    key: 'pies.rebalanceIntervalDays',
+    value: '30',
+    category: 'pies',
+    description: 'Days between recomputing the pie allocation',
+  },
+  {
+    key: 'pies.minShareChange',
+    value: '0.03',
+    category: 'pies',
+    description:
+      'Smallest change in any instrument share that rewrites the pie (keeps turnover low)',
+  },
+
+  // Short selling
+  {
+    key: 'shorts.enabled',
+    value: 'false',
+    category: 'shorts',
+    description:
+      'Open short positions on high-conviction AI SELLs for symbols not held. Paper broker or dry run only — the Trading212 equity API is long-only',
+  },
+  {
+    key: 'shorts.minConviction',
+    value: '75',
+    category: 'shorts',
+    description: 'Minimum AI conviction for a SELL to open a short',
+  },
+  {
+    key: 'shorts.marginPct',
+    value: '0.2',
+    category: 'shorts',
+    description: 'Free cash a short must leave as margin, as a share of its value',
+  },
+  {
+    key: 'shorts.borrowFeeAnnualPct',
+    value: '0.03',
+    category: 'shorts',
+    description: 'Annual stock borrow fee on the value of open shorts',
+  },
+  {
+    key: 'shorts.overnightFeeAnnualPct',
+    value: '0.025',
+    category: 'shorts',
+    description: 'Annual CFD overnight financing charged on the value of open shorts',
+  },
 
   // Monte Carlo Simulation
   {
@@ -988,6 +1414,56 @@ export const CONFIG_DEFAULTS: ConfigDefault[] = [
     category: 'streaming',
     description: 'Price polling interval in seconds (5-300)',
   },
+  {
+    key: 'streaming.exitDebounceSeconds',
+    value: '30',
+    category: 'streaming',
+    description:
+      'Ignore ticks for a symbol this long after an exit order so it is not closed twice',
+  },
+  {
+    key: 'streaming.feeds',
+    value: '["polling"]',
+    category: 'streaming',
+    description:
+      'Quote feeds in failover order: polling (Yahoo), finnhub (websocket trades), replay (stored candles; dry run/paper only)',
+  },
+  {
+    key: 'streaming.staleAfterSeconds',
+    value: '120',
+    category: 'streaming',
+    description: 'Move a symbol to the next feed after this long without a quote',
+  },
+  {
+    key: 'streaming.failbackSeconds',
+    value: '300',
+    category: 'streaming',
+    description: 'Retry a failed or stale feed after this many seconds',
+  },
+  {
+    key: 'streaming.replaySpeed',
+    value: '60',
+    category: 'streaming',
+    description: 'Replay speed as a multiple of real time (0 = as fast as possible)',
+  },
+  {
+    key: 'streaming.replayFrom',
+    value: '""',
+    category: 'streaming',
+    description: 'First date of stored candles to replay (YYYY-MM-DD, empty = all)',
+  },
+  {
+    key: 'streaming.replayTo',
+    value: '""',
+    category: 'streaming',
+    description: 'Last date of stored candles to replay (YYYY-MM-DD, empty = all)',
+  },
+  {
+    key: 'streaming.replayTimeframe',
+    value: '"5m"',
+    category: 'streaming',
+    description: 'Candle timeframe the replay feed plays back',
+  },
 
   // Monitoring
   {
@@ -11,6 +11,7 @@ const log = createLogger('config');
 export class ConfigManager {
   private cache = new Map<string, { value: unknown; expiresAt: number }>();
   private cacheTTL = 30_000;
+  private overrides: Map<string, unknown> | null = null;
 
   async seedDefaults(): Promise<void> {
     const db = getDb();
@@ -32,6 +33,8 @@ export class ConfigManager {
   }
 
   get<T>(key: string): T {
+    if (this.overrides?.has(key)) return this.overrides.get(key) as T;
+
     const envOverride = this.getEnvOverride(key);
     if (envOverride !== undefined) return envOverride as T;
 
@@ -117,6 +120,22 @@ export class ConfigManager {
     return db.select().from(config).all();
   }
 
+  /**
+   * Run a synchronous callback with some keys pinned to fixed values.
+   * Overrides win over env vars, the cache and the database, and are
+   * dropped again as soon as the callback returns. Used by simulations to
+   * evaluate the live modules under a candidate configuration.
+   */
+  withOverrides<T>(overrides: Record<string, unknown>, fn: () => T): T {
+    const previous = this.overrides;
+    this.overrides = new Map([...(previous ?? []), ...Object.entries(overrides)]);
+    try {
+      return fn();
+    } finally {
+      this.overrides = previous;
+    }
+  }
+
   invalidateCache(key?: string): void {
     if (key) {
       this.cache.delete(key);
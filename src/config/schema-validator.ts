@@ -1,9 +1,34 @@
 import { z } from 'zod';
+import { EXCHANGE_CODES, type ExchangeCode } from '../utils/exchanges.js';
 
 // ── Trading212 ───────────────────────────────────────────────────────────────
+const t212AccountSchema = z.object({
+  accountType: z.enum(['INVEST', 'ISA']),
+  apiKeyEnv: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9_]*$/)
+    .optional(),
+  strategyProfile: z.string().min(1).max(100).optional(),
+  overrides: z.record(z.string(), z.unknown()).optional(),
+});
+
 const t212Schemas = new Map<string, z.ZodType>([
   ['t212.environment', z.enum(['demo', 'live'])],
   ['t212.accountType', z.enum(['INVEST', 'ISA'])],
+  ['t212.accountCurrency', z.string().regex(/^[A-Z]{3}$/)],
+  ['t212.requestScheduler.enabled', z.boolean()],
+  ['t212.requestScheduler.maxConcurrent', z.number().int().min(1).max(20)],
+  ['t212.requestScheduler.maxRetries', z.number().int().min(0).max(10)],
+  [
+    't212.accounts',
+    z
+      .array(t212AccountSchema)
+      .max(2)
+      .refine(
+        (accounts) => new Set(accounts.map((a) => a.accountType)).size === accounts.length,
+        'Each account type may only be listed once',
+      ),
+  ],
 ]);
 
 // ── Pairlist ─────────────────────────────────────────────────────────────────
@@ -18,6 +43,10 @@ const pairlistFilterEnum = z.enum([
 
 const pairlistSchemas = new Map<string, z.ZodType>([
   ['pairlist.enabled', z.boolean()],
+  [
+    'pairlist.exchanges',
+    z.array(z.enum(EXCHANGE_CODES as [ExchangeCode, ...ExchangeCode[]])).min(1),
+  ],
   ['pairlist.refreshMinutes', z.number().int().min(1).max(1440)],
   ['pairlist.filters', z.array(pairlistFilterEnum)],
   ['pairlist.volume.minAvgDailyVolume', z.number().int().min(0).max(100_000_000)],
@@ -48,6 +77,8 @@ const dataSchemas = new Map<string, z.ZodType>([
   ['data.earningsBlackoutDays', z.number().int().min(0).max(30)],
   ['data.newsMonitoring.enabled', z.boolean()],
   ['data.newsMonitoring.offHoursIntervalMinutes', z.number().int().min(1).max(1440)],
+  ['data.candleStore.enabled', z.boolean()],
+  ['data.candleStore.offline', z.boolean()],
 ]);
 
 // ── Analysis ─────────────────────────────────────────────────────────────────
@@ -76,7 +107,7 @@ const analysisSchemas = new Map<string, z.ZodType>([
 // ── AI ───────────────────────────────────────────────────────────────────────
 const aiSchemas = new Map<string, z.ZodType>([
   ['ai.enabled', z.boolean()],
-  ['ai.provider', z.enum(['anthropic', 'ollama', 'openai-compatible'])],
+  ['ai.provider', z.enum(['anthropic', 'ollama', 'openai-compatible', 'ensemble'])],
   ['ai.model', z.string().min(1).max(200)],
   ['ai.ollama.baseUrl', z.string().url()],
   ['ai.ollama.model', z.string().min(1).max(200)],
@@ -88,6 +119,60 @@ const aiSchemas = new Map<string, z.ZodType>([
   ['ai.includeHistoricalSignals', z.boolean()],
   ['ai.historicalSignalCount', z.number().int().min(1).max(100)],
   ['ai.temperature', z.number().min(0).max(2)],
+  [
+    'ai.ensemble.members',
+    z
+      .array(
+        z.object({
+          provider: z.enum(['anthropic', 'ollama', 'openai-compatible']),
+          model: z.string().min(1).max(200).optional(),
+        }),
+      )
+      .min(1)
+      .max(10),
+  ],
+  ['ai.ensemble.strategy', z.enum(['majority', 'conviction', 'accuracy'])],
+  ['ai.ensemble.minResponses', z.number().int().min(1).max(10)],
+  ['ai.ensemble.maxDisagreement', z.number().min(0).max(1)],
+  ['ai.cassette.mode', z.enum(['off', 'record', 'replay'])],
+  ['ai.cassette.onMiss', z.enum(['fail', 'live'])],
+  ['ai.tools.enabled', z.boolean()],
+  ['ai.tools.maxRounds', z.number().int().min(1).max(10)],
+  ['ai.tools.maxCalls', z.number().int().min(1).max(30)],
+  [
+    'ai.tools.allowed',
+    z.array(
+      z.enum([
+        'get_timeframe_analysis',
+        'get_recent_news',
+        'get_peer_fundamentals',
+        'get_portfolio_correlation',
+        'get_journal_entries',
+      ]),
+    ),
+  ],
+  ['ai.structuredOutput.enabled', z.boolean()],
+  ['ai.structuredOutput.maxRepairs', z.number().int().min(0).max(3)],
+  ['ai.quarantine.failureRate', z.number().gt(0).max(1)],
+  ['ai.quarantine.minSamples', z.number().int().min(1).max(20)],
+  ['ai.quarantine.minutes', z.number().int().min(1)],
+  [
+    'ai.pricing',
+    z.record(z.string().min(1), z.object({ input: z.number().min(0), output: z.number().min(0) })),
+  ],
+  ['ai.budget.dailyUsd', z.number().min(0)],
+  ['ai.budget.monthlyUsd', z.number().min(0)],
+  ['ai.budget.reduceAtPct', z.number().min(0).max(1)],
+  ['ai.budget.reducedSymbolsPct', z.number().min(0.05).max(1)],
+  ['ai.budget.fallbackAtPct', z.number().min(0).max(1)],
+  [
+    'ai.budget.fallback',
+    z.object({
+      provider: z.enum(['anthropic', 'ollama', 'openai-compatible']),
+      model: z.string().min(1).max(200).optional(),
+    }),
+  ],
+  ['ai.budget.technicalBuyScore', z.number().min(50).max(100)],
   ['ai.research.enabled', z.boolean()],
   ['ai.research.intervalMinutes', z.number().int().min(1).max(1440)],
   ['ai.research.topStocksCount', z.number().int().min(1).max(500)],
@@ -105,6 +190,12 @@ const riskSchemas = new Map<string, z.ZodType>([
   ['risk.maxSectorConcentration', z.number().int().min(1).max(50)],
   ['risk.maxDailyTrades', z.number().int().min(1).max(1000)],
   ['risk.maxSectorValuePct', z.number().min(0.01).max(1)],
+  ['risk.maxGrossExposurePct', z.number().min(0.1).max(5)],
+  ['risk.maxNetExposurePct', z.number().min(0.1).max(5)],
+  ['risk.maxPortfolioVaRPct', z.number().min(0).max(1)],
+  ['risk.varConfidence', z.number().min(0.5).max(0.999)],
+  ['risk.varMethod', z.enum(['historical', 'parametric'])],
+  ['risk.varLookbackDays', z.number().int().min(20).max(1000)],
   ['risk.lossCooldownMinutes', z.number().int().min(0).max(1440)],
   ['risk.lossCooldownSizeFactor', z.number().min(0).max(1)],
   ['risk.streakReductionThreshold', z.number().int().min(1).max(50)],
@@ -132,6 +223,12 @@ const executionSchemas = new Map<string, z.ZodType>([
   ['execution.orderReplacement.replaceAfterSeconds', z.number().int().min(1).max(600)],
   ['execution.orderReplacement.priceDeviationPct', z.number().min(0.0001).max(0.1)],
   ['execution.orderReplacement.maxReplacements', z.number().int().min(1).max(20)],
+  ['execution.brokerStops.trailing', z.boolean()],
+  ['execution.brokerStops.minAmendPct', z.number().min(0).max(0.1)],
+  ['execution.paperBroker.enabled', z.boolean()],
+  ['execution.paperBroker.initialCash', z.number().min(1)],
+  ['execution.paperBroker.spreadBps', z.number().min(0).max(1000)],
+  ['execution.paperBroker.enforceRateLimits', z.boolean()],
 ]);
 
 // ── Protection ───────────────────────────────────────────────────────────────
@@ -157,6 +254,7 @@ const protectionSchemas = new Map<string, z.ZodType>([
 const exitSchemas = new Map<string, z.ZodType>([
   ['exit.roiEnabled', z.boolean()],
   ['exit.roiTable', z.record(z.string(), z.number().min(-1).max(10))],
+  ['exit.conditions', z.string().max(1000)],
 ]);
 
 // ── DCA ──────────────────────────────────────────────────────────────────────
@@ -219,6 +317,43 @@ const taxSchemas = new Map<string, z.ZodType>([
   ['tax.shortTermRate', z.number().min(0).max(1)],
   ['tax.longTermRate', z.number().min(0).max(1)],
   ['tax.harvestThreshold', z.number().min(-1_000_000).max(0)],
+  ['tax.dividendRate', z.number().min(0).max(1)],
+]);
+
+// ── Dividends ────────────────────────────────────────────────────────────────
+const dividendSchemas = new Map<string, z.ZodType>([
+  ['dividends.enabled', z.boolean()],
+  ['dividends.syncIntervalHours', z.number().int().min(1).max(24)],
+  ['dividends.policy', z.enum(['cash', 'reinvest'])],
+]);
+
+// ── History import ───────────────────────────────────────────────────────────
+const historyImportSchemas = new Map<string, z.ZodType>([
+  ['historyImport.enabled', z.boolean()],
+  ['historyImport.intervalHours', z.number().int().min(1).max(168)],
+  ['historyImport.maxPagesPerRun', z.number().int().min(1).max(500)],
+]);
+
+// ── Pie mode ─────────────────────────────────────────────────────────────────
+const pieSchemas = new Map<string, z.ZodType>([
+  ['pies.enabled', z.boolean()],
+  ['pies.name', z.string().min(1).max(50)],
+  ['pies.symbols', z.array(z.string().min(1)).max(50)],
+  ['pies.method', z.enum(['riskParity', 'maxSharpe', 'minVariance'])],
+  ['pies.lookbackDays', z.number().int().min(30).max(1000)],
+  ['pies.maxInstrumentShare', z.number().min(0.02).max(1)],
+  ['pies.goal', z.number().min(0)],
+  ['pies.dividendCashAction', z.enum(['REINVEST', 'TO_ACCOUNT_CASH'])],
+  ['pies.rebalanceIntervalDays', z.number().int().min(1).max(365)],
+  ['pies.minShareChange', z.number().min(0).max(0.5)],
+]);
+
+const shortSchemas = new Map<string, z.ZodType>([
+  ['shorts.enabled', z.boolean()],
+  ['shorts.minConviction', z.number().min(0).max(100)],
+  ['shorts.marginPct', z.number().min(0).max(1)],
+  ['shorts.borrowFeeAnnualPct', z.number().min(0).max(1)],
+  ['shorts.overnightFeeAnnualPct', z.number().min(0).max(1)],
 ]);
 
 // ── Monte Carlo ──────────────────────────────────────────────────────────────
@@ -274,6 +409,14 @@ const webResearchSchemas = new Map<string, z.ZodType>([
 const streamingSchemas = new Map<string, z.ZodType>([
   ['streaming.enabled', z.boolean()],
   ['streaming.intervalSeconds', z.number().int().min(5).max(300)],
+  ['streaming.exitDebounceSeconds', z.number().int().min(0).max(3600)],
+  ['streaming.feeds', z.array(z.enum(['polling', 'finnhub', 'replay'])).min(1)],
+  ['streaming.staleAfterSeconds', z.number().int().min(10).max(3600)],
+  ['streaming.failbackSeconds', z.number().int().min(30).max(86400)],
+  ['streaming.replaySpeed', z.number().min(0).max(100000)],
+  ['streaming.replayFrom', z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/)],
+  ['streaming.replayTo', z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/)],
+  ['streaming.replayTimeframe', z.enum(['1d', '1h', '15m', '5m', '1m'])],
 ]);
 
 // ── Monitoring ───────────────────────────────────────────────────────────────
@@ -306,6 +449,10 @@ export const configSchemas: Map<string, z.ZodType> = new Map([
   ...attributionSchemas,
   ...riskParitySchemas,
   ...taxSchemas,
+  ...dividendSchemas,
+  ...historyImportSchemas,
+  ...pieSchemas,
+  ...shortSchemas,
   ...monteCarloSchemas,
   ...portfolioOptSchemas,
   ...socialSentimentSchemas,
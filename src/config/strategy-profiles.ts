@@ -129,6 +129,21 @@ export class StrategyProfileManager {
     return profileId;
   }
 
+  /** Config stored in a profile, for scoping it to one account instead of applying it globally. */
+  getProfileConfig(name: string): Record<string, unknown> {
+    const profile = profileRepo.getProfileByName(name);
+    if (!profile) {
+      throw new Error(`Strategy profile not found: ${name}`);
+    }
+
+    try {
+      return JSON.parse(profile.config);
+    } catch (err) {
+      log.error({ name, err }, 'Failed to parse profile config');
+      throw new Error(`Invalid profile config for ${name}`);
+    }
+  }
+
   getActiveProfileName(): string | null {
     const activeProfile = profileRepo.getActiveProfile();
     return activeProfile ? activeProfile.name : null;
@@ -0,0 +1,482 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { configManager } from '../config/manager.js';
+import * as candleRepo from '../db/repositories/candles.js';
+import { type ExchangeCode, exchangeForSymbol, isTradingDay } from '../utils/exchanges.js';
+import { createLogger } from '../utils/logger.js';
+import { type OHLCVCandle, YahooFinanceClient } from './yahoo-finance.js';
+
+const log = createLogger('candle-store');
+
+export const CANDLE_TIMEFRAMES = ['1d', '1h', '15m', '5m', '1m'] as const;
+export type CandleTimeframe = (typeof CANDLE_TIMEFRAMES)[number];
+
+/** A run of consecutive sessions on the symbol's exchange with no stored daily bar. */
+export interface CandleGap {
+  from: string;
+  to: string;
+  missingDays: number;
+}
+
+export interface TopUpResult {
+  symbol: string;
+  mode: 'backfill' | 'incremental' | 'readjusted' | 'unchanged';
+  fetched: number;
+  stored: number;
+}
+
+export type CandleFileFormat = 'csv' | 'json' | 'jsonl';
+
+export interface CandleImportOptions {
+  /** Symbol for every row; required unless the file has a symbol/ticker column */
+  symbol?: string;
+  timeframe?: CandleTimeframe;
+  splitAdjusted?: boolean;
+  dividendAdjusted?: boolean;
+}
+
+export interface CandleImportResult {
+  imported: number;
+  skipped: number;
+  symbols: string[];
+}
+
+export interface GetCandlesOptions {
+  timeframe?: CandleTimeframe;
+  /** Scale OHLC by adjClose/close for bars that carry an adjusted close */
+  adjustDividends?: boolean;
+}
+
+// Yahoo's chart endpoint returns split-adjusted OHLC; dividends only show up in adjclose
+const YAHOO_FLAGS = { splitAdjusted: true, dividendAdjusted: false };
+const TOP_UP_OVERLAP_DAYS = 7;
+// Stored vs fresh close beyond this means Yahoo re-adjusted history (split since last top-up)
+const READJUST_TOLERANCE = 0.005;
+// Holidays and weekends mean the first bar can legitimately start a few days after `from`
+const BACKFILL_SLACK_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FILE_FORMATS: Record<string, CandleFileFormat> = {
+  '.csv': 'csv',
+  '.txt': 'csv',
+  '.json': 'json',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+};
+
+const COLUMN_ALIASES: Record<string, string> = {
+  date: 'timestamp',
+  datetime: 'timestamp',
+  time: 'timestamp',
+  timestamp: 'timestamp',
+  ticker: 'symbol',
+  symbol: 'symbol',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  adjclose: 'adjClose',
+  adjustedclose: 'adjClose',
+  volume: 'volume',
+};
+
+/**
+ * Persistent OHLCV history in the `candles` table.
+ *
+ * Daily bars are topped up incrementally from Yahoo; when the overlapping
+ * bars no longer match what was stored (Yahoo re-adjusts history after a
+ * split) the whole series is refetched. Bars can also be imported from
+ * CSV/JSON exports, so backtests can run offline against a fixed dataset.
+ */
+export class CandleStore {
+  private yahooClient: YahooFinanceClient;
+
+  constructor(yahooClient?: YahooFinanceClient) {
+    this.yahooClient = yahooClient ?? new YahooFinanceClient();
+  }
+
+  getCandles(
+    symbol: string,
+    from?: string,
+    to?: string,
+    options: GetCandlesOptions = {},
+  ): OHLCVCandle[] {
+    const timeframe = options.timeframe ?? '1d';
+    return candleRepo.getCandles(symbol, timeframe, from, to).map((row) => {
+      const factor =
+        options.adjustDividends && row.adjClose != null && !row.dividendAdjusted && row.close > 0
+          ? row.adjClose / row.close
+          : 1;
+      return {
+        date: row.timestamp,
+        open: row.open * factor,
+        high: row.high * factor,
+        low: row.low * factor,
+        close: row.close * factor,
+        volume: row.volume,
+      };
+    });
+  }
+
+  getCoverage(symbol: string, timeframe: CandleTimeframe = '1d') {
+    return candleRepo.getCandleCoverage(symbol, timeframe);
+  }
+
+  /**
+   * Stored daily bars for a backtest or analysis run. Unless
+   * `data.candleStore.offline` is set, missing history is fetched first.
+   */
+  async load(symbol: string, from: string, to: string): Promise<OHLCVCandle[]> {
+    const offline = configManager.get<boolean>('data.candleStore.offline');
+    if (!offline && this.needsTopUp(symbol, from, to)) {
+      try {
+        await this.topUp(symbol, from);
+      } catch (err) {
+        log.warn({ symbol, err }, 'Candle top-up failed, using stored bars');
+      }
+    }
+    return this.getCandles(symbol, from, to);
+  }
+
+  /** Fetch whatever daily history is missing for `symbol` since `from`. */
+  async topUp(symbol: string, from: string): Promise<TopUpResult> {
+    const today = toDateString(Date.now());
+    const coverage = candleRepo.getCandleCoverage(symbol, '1d');
+
+    if (!coverage || this.needsBackfill(symbol, from, coverage)) {
+      const start = coverage && coverage.first < from ? coverage.first : from;
+      const fetched = await this.yahooClient.getHistoricalData(symbol, daysBetween(start, today));
+      const stored = this.storeYahooBars(symbol, fetched);
+      candleRepo.recordCandleBackfill(symbol, '1d', start, fetched[0]?.date.slice(0, 10) ?? null);
+      log.info({ symbol, from: start, stored }, 'Candle history backfilled');
+      return { symbol, mode: 'backfill', fetched: fetched.length, stored };
+    }
+
+    if (coverage.last >= today) {
+      return { symbol, mode: 'unchanged', fetched: 0, stored: 0 };
+    }
+
+    const fetched = await this.yahooClient.getHistoricalData(
+      symbol,
+      daysBetween(coverage.last, today) + TOP_UP_OVERLAP_DAYS,
+    );
+    if (fetched.length === 0) {
+      return { symbol, mode: 'unchanged', fetched: 0, stored: 0 };
+    }
+
+    if (this.isReadjusted(symbol, fetched)) {
+      const full = await this.yahooClient.getHistoricalData(
+        symbol,
+        daysBetween(coverage.first, today),
+      );
+      const stored = this.storeYahooBars(symbol, full);
+      log.info({ symbol, stored }, 'Candle history re-adjusted by source, refetched');
+      return { symbol, mode: 'readjusted', fetched: full.length, stored };
+    }
+
+    const stored = this.storeYahooBars(symbol, fetched);
+    log.debug({ symbol, stored }, 'Candle history topped up');
+    return { symbol, mode: 'incremental', fetched: fetched.length, stored };
+  }
+
+  /** Sessions in [from, to] on the symbol's exchange that have no stored daily bar. */
+  findGaps(symbol: string, from: string, to: string): CandleGap[] {
+    const exchange = exchangeForSymbol(symbol).code;
+    const stored = new Set(
+      candleRepo.getCandles(symbol, '1d', from, to).map((row) => row.timestamp.slice(0, 10)),
+    );
+
+    const gaps: CandleGap[] = [];
+    let current: CandleGap | null = null;
+    for (const day of tradingDaysBetween(from, to, exchange)) {
+      if (stored.has(day)) {
+        current = null;
+        continue;
+      }
+      if (current) {
+        current.to = day;
+        current.missingDays++;
+      } else {
+        current = { from: day, to: day, missingDays: 1 };
+        gaps.push(current);
+      }
+    }
+    return gaps;
+  }
+
+  /**
+   * Import bars from a file. The format follows the extension: `.csv`/`.txt`,
+   * `.json` or `.jsonl`/`.ndjson` (see importText).
+   */
+  importFile(path: string, options: CandleImportOptions = {}): CandleImportResult {
+    const ext = extname(path).toLowerCase();
+    const format = FILE_FORMATS[ext];
+    if (!format) {
+      throw new Error(`Unsupported candle file format: ${ext} (expected .csv, .json or .jsonl)`);
+    }
+
+    const result = this.importText(readFileSync(path, 'utf-8'), format, options);
+    log.info({ path, ...result }, 'Candle file imported');
+    return result;
+  }
+
+  /**
+   * Import bars from text. `csv` needs a header row; `json` is an array of
+   * row objects or column arrays such as `{"date": [...], "close": [...]}`
+   * (the layout columnar/Parquet export tools write); `jsonl` is one row
+   * object per line.
+   */
+  importText(
+    text: string,
+    format: CandleFileFormat,
+    options: CandleImportOptions = {},
+  ): CandleImportResult {
+    let rows: Record<string, unknown>[];
+    if (format === 'csv') {
+      rows = parseCsv(text);
+    } else if (format === 'json') {
+      rows = parseJsonRows(JSON.parse(text));
+    } else {
+      rows = text
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line));
+    }
+    return this.importRows(rows, options);
+  }
+
+  importRows(
+    rows: Record<string, unknown>[],
+    options: CandleImportOptions = {},
+  ): CandleImportResult {
+    const timeframe = options.timeframe ?? '1d';
+    const updatedAt = new Date().toISOString();
+    const inserts: candleRepo.CandleInsert[] = [];
+    const symbols = new Set<string>();
+    let skipped = 0;
+
+    for (const raw of rows) {
+      const row = normalizeColumns(raw);
+      const symbol = options.symbol ?? (typeof row.symbol === 'string' ? row.symbol : undefined);
+      if (!symbol) {
+        throw new Error('Candle import needs a symbol option or a symbol/ticker column');
+      }
+
+      const timestamp = normalizeTimestamp(row.timestamp, timeframe);
+      const open = toNumber(row.open);
+      const high = toNumber(row.high);
+      const low = toNumber(row.low);
+      const close = toNumber(row.close);
+      if (
+        !timestamp ||
+        open == null ||
+        high == null ||
+        low == null ||
+        close == null ||
+        high < low ||
+        close <= 0
+      ) {
+        skipped++;
+        continue;
+      }
+
+      symbols.add(symbol.toUpperCase());
+      inserts.push({
+        symbol: symbol.toUpperCase(),
+        timeframe,
+        timestamp,
+        open,
+        high,
+        low,
+        close,
+        volume: toNumber(row.volume) ?? 0,
+        adjClose: toNumber(row.adjClose),
+        splitAdjusted: options.splitAdjusted ?? false,
+        dividendAdjusted: options.dividendAdjusted ?? false,
+        source: 'import',
+        updatedAt,
+      });
+    }
+
+    candleRepo.upsertCandles(inserts);
+    return { imported: inserts.length, skipped, symbols: [...symbols] };
+  }
+
+  private needsTopUp(symbol: string, from: string, to: string): boolean {
+    const coverage = candleRepo.getCandleCoverage(symbol, '1d');
+    if (!coverage || this.needsBackfill(symbol, from, coverage)) return true;
+
+    // Only completed sessions can be stored, so stop the check at yesterday
+    const yesterday = addDays(toDateString(Date.now()), -1);
+    const lastNeeded = lastTradingDayOnOrBefore(
+      to < yesterday ? to : yesterday,
+      exchangeForSymbol(symbol).code,
+    );
+    return lastNeeded != null && coverage.last.slice(0, 10) < lastNeeded;
+  }
+
+  /**
+   * Whether stored history starts too late for `from`. A symbol that listed
+   * after `from` never has earlier bars, so once the source has been asked
+   * for history from `from` or before, the stored start is all there is.
+   */
+  private needsBackfill(
+    symbol: string,
+    from: string,
+    coverage: candleRepo.CandleCoverage,
+  ): boolean {
+    if (coverage.first <= addDays(from, BACKFILL_SLACK_DAYS)) return false;
+    const backfill = candleRepo.getCandleBackfill(symbol, '1d');
+    return !backfill || backfill.requestedFrom > from.slice(0, 10);
+  }
+
+  private isReadjusted(symbol: string, fetched: OHLCVCandle[]): boolean {
+    const storedByDate = new Map(
+      candleRepo
+        .getCandles(symbol, '1d', fetched[0].date, fetched[fetched.length - 1].date)
+        .filter((row) => row.source === 'yahoo')
+        .map((row) => [row.timestamp, row.close]),
+    );
+
+    return fetched.some((bar) => {
+      const storedClose = storedByDate.get(bar.date);
+      return storedClose != null && Math.abs(bar.close / storedClose - 1) > READJUST_TOLERANCE;
+    });
+  }
+
+  private storeYahooBars(symbol: string, bars: OHLCVCandle[]): number {
+    const updatedAt = new Date().toISOString();
+    return candleRepo.upsertCandles(
+      bars.map((bar) => ({
+        symbol,
+        timeframe: '1d',
+        timestamp: bar.date,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume,
+        adjClose: null,
+        ...YAHOO_FLAGS,
+        source: 'yahoo',
+        updatedAt,
+      })),
+    );
+  }
+}
+
+// ── Parsing helpers ──────────────────────────────────────────────────────
+
+function parseCsv(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]);
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    const row: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      row[name] = cells[i];
+    });
+    return row;
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+function parseJsonRows(data: unknown): Record<string, unknown>[] {
+  if (Array.isArray(data)) return data as Record<string, unknown>[];
+  if (!data || typeof data !== 'object') {
+    throw new Error('Candle JSON must be an array of rows or an object of columns');
+  }
+
+  // Columnar layout: { column: [values...] } or { column: { index: value } }
+  const columns = Object.entries(data as Record<string, unknown>).map(
+    ([name, values]) =>
+      [name, Array.isArray(values) ? values : Object.values(values as object)] as const,
+  );
+  const length = Math.max(0, ...columns.map(([, values]) => values.length));
+  return Array.from({ length }, (_, i) =>
+    Object.fromEntries(columns.map(([name, values]) => [name, values[i]])),
+  );
+}
+
+function normalizeColumns(raw: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    const key = COLUMN_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')];
+    if (key && row[key] === undefined) row[key] = value;
+  }
+  return row;
+}
+
+function normalizeTimestamp(value: unknown, timeframe: CandleTimeframe): string | null {
+  if (value == null || value === '') return null;
+
+  let ms: number;
+  if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+    const n = Number(value);
+    ms = n < 1e12 ? n * 1000 : n; // epoch seconds or milliseconds
+  } else {
+    const text = String(value);
+    if (timeframe === '1d' && /^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+    ms = Date.parse(text);
+  }
+
+  if (!Number.isFinite(ms)) return null;
+  const iso = new Date(ms).toISOString();
+  return timeframe === '1d' ? iso.slice(0, 10) : iso;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// ── Calendar helpers ─────────────────────────────────────────────────────
+
+function toDateString(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(Date.parse(date.slice(0, 10)) + days * DAY_MS);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.ceil((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS) + 1;
+}
+
+/** Whether a YYYY-MM-DD date is a session on the exchange's calendar. */
+function isSession(date: string, exchange: ExchangeCode): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  return isTradingDay(exchange, { year, month, day });
+}
+
+function tradingDaysBetween(from: string, to: string, exchange: ExchangeCode): string[] {
+  const days: string[] = [];
+  for (let day = from.slice(0, 10); day <= to.slice(0, 10); day = addDays(day, 1)) {
+    if (isSession(day, exchange)) days.push(day);
+  }
+  return days;
+}
+
+function lastTradingDayOnOrBefore(date: string, exchange: ExchangeCode): string | null {
+  let day = date.slice(0, 10);
+  for (let i = 0; i < 10; i++, day = addDays(day, -1)) {
+    if (isSession(day, exchange)) return day;
+  }
+  return null;
+}
+
+let instance: CandleStore | null = null;
+
+export function getCandleStore(): CandleStore {
+  if (!instance) {
+    instance = new CandleStore();
+  }
+  return instance;
+}
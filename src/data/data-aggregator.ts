@@ -1,3 +1,4 @@
+import { exchangeForSymbol } from '../utils/exchanges.js';
 import { createLogger } from '../utils/logger.js';
 import type { EarningsEvent, FinnhubClient, FinnhubNews, InsiderTx } from './finnhub.js';
 import type { MarketauxArticle, MarketauxClient } from './marketaux.js';
@@ -53,6 +54,9 @@ export class DataAggregator {
       .toISOString()
       .split('T')[0];
 
+    // Finnhub's symbol endpoints only cover US listings; other exchanges use Yahoo data
+    const usListed = exchangeForSymbol(symbol).code === 'US';
+
     const [
       candlesResult,
       finnhubQuoteResult,
@@ -64,12 +68,12 @@ export class DataAggregator {
       marketCtxResult,
     ] = await Promise.allSettled([
       this.yahoo.getHistoricalData(symbol),
-      this.finnhub.getQuote(symbol),
+      usListed ? this.finnhub.getQuote(symbol) : Promise.resolve(null),
       this.getCachedFundamentals(symbol),
-      this.finnhub.getCompanyNews(symbol, thirtyDaysAgo, today),
+      usListed ? this.finnhub.getCompanyNews(symbol, thirtyDaysAgo, today) : Promise.resolve([]),
       this.marketaux.getNews([symbol]),
       this.finnhub.getEarningsCalendar(today, thirtyDaysAhead),
-      this.finnhub.getInsiderTransactions(symbol),
+      usListed ? this.finnhub.getInsiderTransactions(symbol) : Promise.resolve([]),
       this.yahoo.getMarketContext(),
     ]);
 
@@ -0,0 +1,63 @@
+import { normalizeCurrency } from '../utils/currency.js';
+import { createLogger } from '../utils/logger.js';
+import { YahooFinanceClient } from './yahoo-finance.js';
+
+const log = createLogger('fx-rates');
+
+const CACHE_TTL_MS = 15 * 60_000;
+
+type RateFetcher = (pairSymbol: string) => Promise<number | null>;
+
+/**
+ * Exchange rates from Yahoo's `EURUSD=X` style pairs, cached for a few
+ * minutes. Rates returned here convert one quote unit (pence for GBX) into
+ * the target currency.
+ */
+export class FxRateService {
+  private cache = new Map<string, { rate: number; fetchedAt: number }>();
+  private fetchRate: RateFetcher;
+
+  constructor(fetchRate?: RateFetcher) {
+    const yahoo = new YahooFinanceClient();
+    this.fetchRate =
+      fetchRate ??
+      (async (pairSymbol) => {
+        const quote = await yahoo.getQuote(pairSymbol);
+        return quote && quote.price > 0 ? quote.price : null;
+      });
+  }
+
+  /** Account-currency value of one unit of `quoteCurrency`, or null when unavailable. */
+  async getRate(quoteCurrency: string, accountCurrency: string): Promise<number | null> {
+    const from = normalizeCurrency(quoteCurrency);
+    const to = normalizeCurrency(accountCurrency);
+    const unitFactor = from.unit / to.unit;
+    if (from.currency === to.currency) return unitFactor;
+
+    const pair = `${from.currency}${to.currency}`;
+    const cached = this.cache.get(pair);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.rate * unitFactor;
+    }
+
+    try {
+      const rate = await this.fetchRate(`${pair}=X`);
+      if (rate == null) {
+        log.warn({ pair }, 'FX rate unavailable');
+        return cached ? cached.rate * unitFactor : null;
+      }
+      this.cache.set(pair, { rate, fetchedAt: Date.now() });
+      return rate * unitFactor;
+    } catch (err) {
+      log.error({ pair, err }, 'Failed to fetch FX rate');
+      return cached ? cached.rate * unitFactor : null;
+    }
+  }
+}
+
+let instance: FxRateService | null = null;
+
+export function getFxRateService(): FxRateService {
+  if (!instance) instance = new FxRateService();
+  return instance;
+}
@@ -1,6 +1,15 @@
 import { EventEmitter } from 'node:events';
 import { configManager } from '../config/manager.js';
+import { isStopHit, isTargetHit } from '../execution/short-selling.js';
 import { createLogger } from '../utils/logger.js';
+import {
+  createQuoteFeed,
+  FailoverQuoteFeed,
+  type FeedRoute,
+  type Quote,
+  type QuoteFeed,
+  type QuotePoller,
+} from './quote-feed.js';
 
 const log = createLogger('price-streamer');
 
@@ -26,6 +35,8 @@ export interface PositionForStreaming {
   trailingStop: number | null;
   takeProfitPrice: number | null;
   currentPrice: number | null;
+  /** SHORT flips the stop and target checks; defaults to LONG */
+  direction?: string | null;
 }
 
 export interface PriceStreamerEvents {
@@ -34,21 +45,35 @@ export interface PriceStreamerEvents {
   error: [Error];
 }
 
+/**
+ * Streams prices for held positions from a `QuoteFeed` and flags stops
+ * and targets as they are crossed. Positions are re-read every
+ * `streaming.intervalSeconds` to keep the feed's subscriptions current.
+ */
 export class PriceStreamer extends EventEmitter<PriceStreamerEvents> {
   private intervalHandle: ReturnType<typeof setInterval> | null = null;
   private lastPrices = new Map<string, number>();
+  private positions = new Map<string, PositionForStreaming>();
   private getPositionsFn: (() => PositionForStreaming[]) | null = null;
-  private quoteFn: ((symbols: string[]) => Promise<Map<string, number>>) | null = null;
+  private quoteFn: QuotePoller | null = null;
+  private feed: QuoteFeed | null = null;
+  private customFeed: QuoteFeed | null = null;
   private running = false;
 
   setPositionProvider(fn: () => PositionForStreaming[]): void {
     this.getPositionsFn = fn;
   }
 
-  setQuoteProvider(fn: (symbols: string[]) => Promise<Map<string, number>>): void {
+  /** Quote source for the polling feed */
+  setQuoteProvider(fn: QuotePoller): void {
     this.quoteFn = fn;
   }
 
+  /** Stream from `feed` instead of the feeds in `streaming.feeds`; takes effect on start */
+  setFeed(feed: QuoteFeed | null): void {
+    this.customFeed = feed;
+  }
+
   start(): void {
     if (this.running) return;
 
@@ -61,9 +86,20 @@ export class PriceStreamer extends EventEmitter<PriceStreamerEvents> {
     const intervalSeconds = configManager.get<number>('streaming.intervalSeconds');
     this.running = true;
 
-    this.pollPrices();
-    this.intervalHandle = setInterval(() => this.pollPrices(), intervalSeconds * 1000);
-    log.info({ intervalSeconds }, 'Price streamer started');
+    const feed =
+      this.customFeed ??
+      createQuoteFeed(async (symbols) => (this.quoteFn ? this.quoteFn(symbols) : new Map()));
+    feed.on('quote', (quote) => this.onQuote(quote));
+    feed.on('error', (err) => {
+      log.error({ err, feed: feed.name }, 'Price feed error');
+      this.emit('error', err);
+    });
+    this.feed = feed;
+
+    this.refreshPositions();
+    feed.start();
+    this.intervalHandle = setInterval(() => this.refreshPositions(), intervalSeconds * 1000);
+    log.info({ intervalSeconds, feed: feed.name }, 'Price streamer started');
   }
 
   stop(): void {
@@ -71,8 +107,14 @@ export class PriceStreamer extends EventEmitter<PriceStreamerEvents> {
       clearInterval(this.intervalHandle);
       this.intervalHandle = null;
     }
+    if (this.feed) {
+      this.feed.stop();
+      this.feed.removeAllListeners();
+      this.feed = null;
+    }
     this.running = false;
     this.lastPrices.clear();
+    this.positions.clear();
     log.info('Price streamer stopped');
   }
 
@@ -80,65 +122,71 @@ export class PriceStreamer extends EventEmitter<PriceStreamerEvents> {
     return this.running;
   }
 
-  private async pollPrices(): Promise<void> {
-    if (!this.getPositionsFn || !this.quoteFn) return;
+  /** Feed each streamed symbol is on and whether its quotes have gone stale */
+  getFeedRoutes(): FeedRoute[] {
+    return this.feed instanceof FailoverQuoteFeed ? this.feed.getRoutes() : [];
+  }
+
+  private refreshPositions(): void {
+    if (!this.getPositionsFn || !this.feed) return;
 
     try {
       const positions = this.getPositionsFn();
-      if (positions.length === 0) return;
-
-      const symbols = positions.map((p) => p.symbol);
-      const quotes = await this.quoteFn(symbols);
-
-      for (const pos of positions) {
-        const price = quotes.get(pos.symbol);
-        if (price === undefined) continue;
-
-        const previousPrice = this.lastPrices.get(pos.symbol) ?? pos.currentPrice ?? pos.entryPrice;
-        const changePct = previousPrice > 0 ? (price - previousPrice) / previousPrice : 0;
-
-        this.lastPrices.set(pos.symbol, price);
-
-        this.emit('price_update', {
-          symbol: pos.symbol,
-          price,
-          previousPrice,
-          changePct,
-          timestamp: new Date().toISOString(),
-        });
-
-        if (pos.stopLossPrice != null && price <= pos.stopLossPrice) {
-          this.emit('stop_triggered', {
-            symbol: pos.symbol,
-            currentPrice: price,
-            stopPrice: pos.stopLossPrice,
-            stopType: 'stop_loss',
-          });
-        }
-
-        if (pos.trailingStop != null && price <= pos.trailingStop) {
-          this.emit('stop_triggered', {
-            symbol: pos.symbol,
-            currentPrice: price,
-            stopPrice: pos.trailingStop,
-            stopType: 'trailing_stop',
-          });
-        }
-
-        if (pos.takeProfitPrice != null && price >= pos.takeProfitPrice) {
-          this.emit('stop_triggered', {
-            symbol: pos.symbol,
-            currentPrice: price,
-            stopPrice: pos.takeProfitPrice,
-            stopType: 'take_profit',
-          });
-        }
+      this.positions = new Map(positions.map((p) => [p.symbol, p]));
+      for (const symbol of this.lastPrices.keys()) {
+        if (!this.positions.has(symbol)) this.lastPrices.delete(symbol);
       }
+      this.feed.subscribe([...this.positions.keys()]);
     } catch (err) {
-      log.error({ err }, 'Price poll failed');
+      log.error({ err }, 'Position refresh failed');
       this.emit('error', err instanceof Error ? err : new Error(String(err)));
     }
   }
+
+  private onQuote({ symbol, price }: Quote): void {
+    const pos = this.positions.get(symbol);
+    if (!pos) return;
+
+    const previousPrice = this.lastPrices.get(symbol) ?? pos.currentPrice ?? pos.entryPrice;
+    const changePct = previousPrice > 0 ? (price - previousPrice) / previousPrice : 0;
+
+    this.lastPrices.set(symbol, price);
+
+    this.emit('price_update', {
+      symbol,
+      price,
+      previousPrice,
+      changePct,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (pos.stopLossPrice != null && isStopHit(price, pos.stopLossPrice, pos.direction)) {
+      this.emit('stop_triggered', {
+        symbol,
+        currentPrice: price,
+        stopPrice: pos.stopLossPrice,
+        stopType: 'stop_loss',
+      });
+    }
+
+    if (pos.trailingStop != null && isStopHit(price, pos.trailingStop, pos.direction)) {
+      this.emit('stop_triggered', {
+        symbol,
+        currentPrice: price,
+        stopPrice: pos.trailingStop,
+        stopType: 'trailing_stop',
+      });
+    }
+
+    if (pos.takeProfitPrice != null && isTargetHit(price, pos.takeProfitPrice, pos.direction)) {
+      this.emit('stop_triggered', {
+        symbol,
+        currentPrice: price,
+        stopPrice: pos.takeProfitPrice,
+        stopType: 'take_profit',
+      });
+    }
+  }
 }
 
 let instance: PriceStreamer | null = null;
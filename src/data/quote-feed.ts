@@ -0,0 +1,575 @@
+import { EventEmitter } from 'node:events';
+import WebSocket from 'ws';
+import { configManager } from '../config/manager.js';
+import { createFinnhubRotator } from '../utils/key-rotator.js';
+import { createLogger } from '../utils/logger.js';
+import { type CandleTimeframe, getCandleStore } from './candle-store.js';
+import type { OHLCVCandle } from './yahoo-finance.js';
+
+const log = createLogger('quote-feed');
+
+const FINNHUB_WS_URL = 'wss://ws.finnhub.io';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Interfaces ────────────────────────────────────────────────────────────
+
+export type QuoteFeedName = 'polling' | 'finnhub' | 'replay';
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  timestamp: string;
+}
+
+export interface StaleQuote {
+  symbol: string;
+  feed: string;
+  lastQuoteAt: string | null;
+}
+
+export interface QuoteFeedEvents {
+  quote: [Quote];
+  error: [Error];
+  /** The feed lost its source (socket closed, no credentials) and stopped itself */
+  down: [string];
+  /** A replay tape ran out */
+  end: [];
+  /** A symbol went without a quote for longer than the stale threshold */
+  stale: [StaleQuote];
+}
+
+/**
+ * A source of live prices for a changing set of symbols. Feeds push
+ * quotes as they arrive; `subscribe` replaces the symbol set and may be
+ * called before or after `start`.
+ */
+export interface QuoteFeed extends EventEmitter<QuoteFeedEvents> {
+  readonly name: string;
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+  subscribe(symbols: string[]): void;
+}
+
+export type QuotePoller = (symbols: string[]) => Promise<Map<string, number>>;
+
+function diffSymbols(current: Set<string>, next: Set<string>) {
+  return {
+    added: [...next].filter((s) => !current.has(s)),
+    removed: [...current].filter((s) => !next.has(s)),
+  };
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+// ── Polling ───────────────────────────────────────────────────────────────
+
+/** Asks a quote endpoint for every subscribed symbol on a fixed interval. */
+export class PollingQuoteFeed extends EventEmitter<QuoteFeedEvents> implements QuoteFeed {
+  readonly name = 'polling';
+  private symbols = new Set<string>();
+  private intervalHandle: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private poll: QuotePoller,
+    private intervalSeconds: () => number,
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.intervalHandle) return;
+    this.intervalHandle = setInterval(() => this.fetch(), this.intervalSeconds() * 1000);
+    void this.fetch();
+  }
+
+  stop(): void {
+    if (this.intervalHandle) clearInterval(this.intervalHandle);
+    this.intervalHandle = null;
+  }
+
+  isRunning(): boolean {
+    return this.intervalHandle !== null;
+  }
+
+  subscribe(symbols: string[]): void {
+    const next = new Set(symbols);
+    const { added } = diffSymbols(this.symbols, next);
+    this.symbols = next;
+    // New symbols get a price now rather than on the next interval
+    if (this.isRunning() && added.length > 0) void this.fetch(added);
+  }
+
+  private async fetch(symbols = [...this.symbols]): Promise<void> {
+    if (symbols.length === 0) return;
+    try {
+      const prices = await this.poll(symbols);
+      const timestamp = new Date().toISOString();
+      for (const [symbol, price] of prices) {
+        if (this.symbols.has(symbol)) this.emit('quote', { symbol, price, timestamp });
+      }
+    } catch (err) {
+      this.emit('error', toError(err));
+    }
+  }
+}
+
+// ── Finnhub trade stream ──────────────────────────────────────────────────
+
+interface FinnhubTradeMessage {
+  type: 'trade' | 'ping' | 'error';
+  data?: Array<{ s: string; p: number; t: number; v: number }>;
+  msg?: string;
+}
+
+export interface FinnhubQuoteFeedOptions {
+  token?: string | null;
+  url?: string;
+  /** Trades are coalesced to the last price per symbol and flushed this often */
+  throttleMs?: number;
+  connect?: (url: string) => WebSocket;
+}
+
+/**
+ * Finnhub's websocket trade stream. Every print is a trade, so quotes are
+ * coalesced per symbol and flushed at most once per `throttleMs`. The
+ * free tier streams US listings only; other symbols go stale and are
+ * picked up by the next feed.
+ */
+export class FinnhubQuoteFeed extends EventEmitter<QuoteFeedEvents> implements QuoteFeed {
+  readonly name = 'finnhub';
+  private symbols = new Set<string>();
+  private socket: WebSocket | null = null;
+  private open = false;
+  private pending = new Map<string, Quote>();
+  private flushHandle: ReturnType<typeof setInterval> | null = null;
+  private token: string | null;
+  private url: string;
+  private throttleMs: number;
+  private connect: (url: string) => WebSocket;
+
+  constructor(options: FinnhubQuoteFeedOptions = {}) {
+    super();
+    this.token = options.token !== undefined ? options.token : createFinnhubRotator().getKey();
+    this.url = options.url ?? FINNHUB_WS_URL;
+    this.throttleMs = options.throttleMs ?? 1_000;
+    this.connect = options.connect ?? ((url) => new WebSocket(url));
+  }
+
+  start(): void {
+    if (this.socket) return;
+    if (!this.token) {
+      this.emit('down', 'No Finnhub API key configured');
+      return;
+    }
+
+    const socket = this.connect(`${this.url}?token=${this.token}`);
+    this.socket = socket;
+    socket.on('open', () => {
+      this.open = true;
+      for (const symbol of this.symbols) this.send('subscribe', symbol);
+      this.flushHandle = setInterval(() => this.flush(), this.throttleMs);
+      log.info({ symbols: this.symbols.size }, 'Finnhub trade stream connected');
+    });
+    socket.on('message', (raw) => this.onMessage(String(raw)));
+    socket.on('error', (err) => this.emit('error', toError(err)));
+    socket.on('close', (code) => {
+      if (this.socket !== socket) return;
+      this.teardown();
+      this.emit('down', `Finnhub socket closed (${code})`);
+    });
+  }
+
+  stop(): void {
+    const socket = this.socket;
+    this.teardown();
+    socket?.close();
+  }
+
+  isRunning(): boolean {
+    return this.socket !== null;
+  }
+
+  subscribe(symbols: string[]): void {
+    const next = new Set(symbols);
+    const { added, removed } = diffSymbols(this.symbols, next);
+    this.symbols = next;
+    if (!this.open) return;
+    for (const symbol of removed) {
+      this.send('unsubscribe', symbol);
+      this.pending.delete(symbol);
+    }
+    for (const symbol of added) this.send('subscribe', symbol);
+  }
+
+  private onMessage(raw: string): void {
+    let message: FinnhubTradeMessage;
+    try {
+      message = JSON.parse(raw) as FinnhubTradeMessage;
+    } catch {
+      log.debug({ raw }, 'Ignoring unparseable Finnhub message');
+      return;
+    }
+
+    if (message.type === 'error') {
+      this.emit('error', new Error(message.msg ?? 'Finnhub stream error'));
+      return;
+    }
+    if (message.type !== 'trade') return;
+
+    for (const trade of message.data ?? []) {
+      if (!this.symbols.has(trade.s) || !(trade.p > 0)) continue;
+      const previous = this.pending.get(trade.s);
+      if (previous && new Date(previous.timestamp).getTime() > trade.t) continue;
+      this.pending.set(trade.s, {
+        symbol: trade.s,
+        price: trade.p,
+        timestamp: new Date(trade.t).toISOString(),
+      });
+    }
+  }
+
+  private flush(): void {
+    const quotes = [...this.pending.values()];
+    this.pending.clear();
+    for (const quote of quotes) this.emit('quote', quote);
+  }
+
+  private send(type: 'subscribe' | 'unsubscribe', symbol: string): void {
+    this.socket?.send(JSON.stringify({ type, symbol }));
+  }
+
+  private teardown(): void {
+    if (this.flushHandle) clearInterval(this.flushHandle);
+    this.flushHandle = null;
+    this.socket = null;
+    this.open = false;
+    this.pending.clear();
+  }
+}
+
+// ── Replay ────────────────────────────────────────────────────────────────
+
+export type ReplaySource = Quote[] | ((symbols: string[]) => Quote[]);
+
+/**
+ * Four ticks per bar along the usual intrabar path — open, low, high,
+ * close for an up bar and open, high, low, close for a down bar — spread
+ * evenly across the bar so stops and targets see the extremes.
+ */
+export function candlesToQuotes(symbol: string, candles: OHLCVCandle[]): Quote[] {
+  const quotes: Quote[] = [];
+  for (let i = 0; i < candles.length; i++) {
+    const bar = candles[i];
+    const start = new Date(bar.date).getTime();
+    const next = candles[i + 1] ? new Date(candles[i + 1].date).getTime() : Number.NaN;
+    const previous = i > 0 ? new Date(candles[i - 1].date).getTime() : Number.NaN;
+    const span = next - start || start - previous || DAY_MS;
+    const path =
+      bar.close >= bar.open
+        ? [bar.open, bar.low, bar.high, bar.close]
+        : [bar.open, bar.high, bar.low, bar.close];
+    path.forEach((price, step) => {
+      quotes.push({
+        symbol,
+        price,
+        timestamp: new Date(start + (span * step) / path.length).toISOString(),
+      });
+    });
+  }
+  return quotes;
+}
+
+/**
+ * Plays back recorded quotes in timestamp order. `speed` is the multiple
+ * of real time between ticks (60 plays an hour in a minute); 0 plays the
+ * tape as fast as timers fire. The tape is loaded when the feed starts,
+ * so symbols subscribed later have no data and go stale.
+ */
+export class ReplayQuoteFeed extends EventEmitter<QuoteFeedEvents> implements QuoteFeed {
+  readonly name = 'replay';
+  private symbols = new Set<string>();
+  private tape: Quote[] = [];
+  private cursor = 0;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private source: ReplaySource,
+    private speed = 1,
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const quotes = typeof this.source === 'function' ? this.source([...this.symbols]) : this.source;
+    this.tape = [...quotes].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    );
+    this.cursor = 0;
+    log.info({ ticks: this.tape.length, speed: this.speed }, 'Replay started');
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.running = false;
+  }
+
+  /** Stays true after the tape ends so a supervisor does not rewind it */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  subscribe(symbols: string[]): void {
+    this.symbols = new Set(symbols);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.scheduleNext();
+    }
+  }
+
+  /** Ticks played so far and the tape length */
+  getProgress(): { played: number; total: number } {
+    return { played: this.cursor, total: this.tape.length };
+  }
+
+  private scheduleNext(): void {
+    this.timer = null;
+    if (!this.running) return;
+    if (this.cursor >= this.tape.length) {
+      log.info({ ticks: this.tape.length }, 'Replay finished');
+      this.emit('end');
+      return;
+    }
+
+    const tick = this.tape[this.cursor];
+    const previous = this.tape[this.cursor - 1] ?? tick;
+    const gap = new Date(tick.timestamp).getTime() - new Date(previous.timestamp).getTime();
+    const delay = this.speed > 0 ? gap / this.speed : 0;
+    this.timer = setTimeout(() => {
+      this.cursor++;
+      if (this.symbols.has(tick.symbol)) this.emit('quote', tick);
+      this.scheduleNext();
+    }, delay);
+  }
+}
+
+// ── Failover ──────────────────────────────────────────────────────────────
+
+export interface FailoverOptions {
+  /** A symbol with no quote for this long moves to the next feed */
+  staleAfterMs: number;
+  /** How long a failed feed is skipped before symbols are routed back to it */
+  failbackMs: number;
+}
+
+export interface FeedRoute {
+  symbol: string;
+  feed: string;
+  lastQuoteAt: string | null;
+  stale: boolean;
+}
+
+/**
+ * Routes each symbol to the first feed, in priority order, that is up and
+ * has not gone stale for it. A feed that reports itself down loses all
+ * its symbols; a symbol that goes quiet moves on alone. Either way the
+ * preferred feed is retried after `failbackMs`. When every feed has
+ * failed a symbol stays on the last one and keeps being reported stale.
+ */
+export class FailoverQuoteFeed extends EventEmitter<QuoteFeedEvents> implements QuoteFeed {
+  readonly name = 'failover';
+  private symbols = new Set<string>();
+  private routes = new Map<string, number>();
+  private routedAt = new Map<string, number>();
+  private lastQuoteAt = new Map<string, number>();
+  private bannedUntil = new Map<string, number>();
+  private downUntil = new Map<number, number>();
+  private checkHandle: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private feeds: QuoteFeed[],
+    private options: FailoverOptions,
+  ) {
+    super();
+    if (feeds.length === 0) throw new Error('FailoverQuoteFeed needs at least one feed');
+    feeds.forEach((feed, index) => {
+      feed.on('quote', (quote) => this.onQuote(index, quote));
+      feed.on('error', (err) => this.emit('error', err));
+      feed.on('down', (reason) => this.onDown(index, reason));
+    });
+  }
+
+  start(): void {
+    if (this.checkHandle) return;
+    const checkMs = Math.max(1_000, this.options.staleAfterMs / 4);
+    this.checkHandle = setInterval(() => this.checkStale(), checkMs);
+    this.reroute();
+  }
+
+  stop(): void {
+    if (this.checkHandle) clearInterval(this.checkHandle);
+    this.checkHandle = null;
+    for (const feed of this.feeds) feed.stop();
+    this.routes.clear();
+    this.routedAt.clear();
+  }
+
+  isRunning(): boolean {
+    return this.checkHandle !== null;
+  }
+
+  subscribe(symbols: string[]): void {
+    this.symbols = new Set(symbols);
+    for (const map of [this.routes, this.routedAt, this.lastQuoteAt]) {
+      for (const symbol of map.keys()) if (!this.symbols.has(symbol)) map.delete(symbol);
+    }
+    if (this.isRunning()) this.reroute();
+  }
+
+  getRoutes(): FeedRoute[] {
+    const now = Date.now();
+    return [...this.symbols].map((symbol) => {
+      const last = this.lastQuoteAt.get(symbol);
+      return {
+        symbol,
+        feed: this.feeds[this.routes.get(symbol) ?? 0].name,
+        lastQuoteAt: last ? new Date(last).toISOString() : null,
+        stale: last === undefined || now - last > this.options.staleAfterMs,
+      };
+    });
+  }
+
+  private onQuote(index: number, quote: Quote): void {
+    // During a handover the old feed may still deliver; only the routed one counts
+    if (this.routes.get(quote.symbol) !== index) return;
+    this.lastQuoteAt.set(quote.symbol, Date.now());
+    this.emit('quote', quote);
+  }
+
+  private onDown(index: number, reason: string): void {
+    log.warn({ feed: this.feeds[index].name, reason }, 'Quote feed down — failing over');
+    this.downUntil.set(index, Date.now() + this.options.failbackMs);
+    // A feed can go down from inside start(), which reroute() itself calls
+    queueMicrotask(() => {
+      if (this.isRunning()) this.reroute();
+    });
+  }
+
+  private checkStale(): void {
+    const now = Date.now();
+    for (const symbol of this.symbols) {
+      const index = this.routes.get(symbol);
+      if (index === undefined) continue;
+      const since = Math.max(this.lastQuoteAt.get(symbol) ?? 0, this.routedAt.get(symbol) ?? 0);
+      if (now - since <= this.options.staleAfterMs) continue;
+
+      const last = this.lastQuoteAt.get(symbol);
+      const stale = {
+        symbol,
+        feed: this.feeds[index].name,
+        lastQuoteAt: last ? new Date(last).toISOString() : null,
+      };
+      log.warn(stale, 'Stale quotes');
+      this.emit('stale', stale);
+      this.bannedUntil.set(`${index}:${symbol}`, now + this.options.failbackMs);
+      // Restart the clock so a symbol with nowhere left to go is reported once per window
+      this.routedAt.set(symbol, now);
+    }
+    this.reroute();
+  }
+
+  private pick(symbol: string, now: number): number {
+    for (let i = 0; i < this.feeds.length; i++) {
+      if ((this.downUntil.get(i) ?? 0) > now) continue;
+      if ((this.bannedUntil.get(`${i}:${symbol}`) ?? 0) > now) continue;
+      return i;
+    }
+    return this.feeds.length - 1;
+  }
+
+  private reroute(): void {
+    const now = Date.now();
+    for (const symbol of this.symbols) {
+      const index = this.pick(symbol, now);
+      const current = this.routes.get(symbol);
+      if (current === index) continue;
+      if (current !== undefined) {
+        log.info(
+          { symbol, from: this.feeds[current].name, to: this.feeds[index].name },
+          'Quote feed switched',
+        );
+      }
+      this.routes.set(symbol, index);
+      this.routedAt.set(symbol, now);
+    }
+
+    this.feeds.forEach((feed, index) => {
+      const assigned = [...this.symbols].filter((s) => this.routes.get(s) === index);
+      feed.subscribe(assigned);
+      if (assigned.length > 0 && !feed.isRunning()) feed.start();
+      else if (assigned.length === 0 && feed.isRunning()) feed.stop();
+    });
+  }
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────
+
+/** Replay tape for `symbols` from stored candles in the configured window. */
+function candleTape(symbols: string[]): Quote[] {
+  const from = configManager.get<string>('streaming.replayFrom') || undefined;
+  const to = configManager.get<string>('streaming.replayTo') || undefined;
+  const timeframe = configManager.get<CandleTimeframe>('streaming.replayTimeframe') ?? '5m';
+  const store = getCandleStore();
+  return symbols.flatMap((symbol) =>
+    candlesToQuotes(symbol, store.getCandles(symbol, from, to, { timeframe })),
+  );
+}
+
+/**
+ * The feeds listed in `streaming.feeds`, in priority order, behind a
+ * failover. Replay is refused outside dry run and paper trading, where
+ * historical prices would close real positions.
+ */
+export function createQuoteFeed(poll: QuotePoller): FailoverQuoteFeed {
+  const names = configManager.get<QuoteFeedName[]>('streaming.feeds') ?? ['polling'];
+  const simulated =
+    configManager.get<boolean>('execution.dryRun') ||
+    configManager.get<boolean>('execution.paperBroker.enabled');
+
+  const polling = () =>
+    new PollingQuoteFeed(poll, () => configManager.get<number>('streaming.intervalSeconds'));
+
+  const feeds: QuoteFeed[] = [];
+  for (const name of names) {
+    if (name === 'polling') {
+      feeds.push(polling());
+    } else if (name === 'finnhub') {
+      feeds.push(new FinnhubQuoteFeed());
+    } else if (name === 'replay') {
+      if (!simulated) {
+        log.warn('Replay quote feed ignored — only allowed in dry run or paper trading');
+        continue;
+      }
+      feeds.push(
+        new ReplayQuoteFeed(candleTape, configManager.get<number>('streaming.replaySpeed') ?? 1),
+      );
+    }
+  }
+  if (feeds.length === 0) feeds.push(polling());
+
+  return new FailoverQuoteFeed(feeds, {
+    staleAfterMs: (configManager.get<number>('streaming.staleAfterSeconds') ?? 120) * 1000,
+    failbackMs: (configManager.get<number>('streaming.failbackSeconds') ?? 300) * 1000,
+  });
+}
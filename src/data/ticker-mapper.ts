@@ -1,3 +1,9 @@
+import {
+  EXCHANGE_CODES,
+  type ExchangeCode,
+  exchangeForTicker,
+  symbolForTicker,
+} from '../utils/exchanges.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('ticker-mapper');
@@ -7,6 +13,9 @@ export interface StockInfo {
   t212Ticker: string;
   name: string;
   minTradeQuantity?: number;
+  exchange: ExchangeCode;
+  /** Quote currency as Trading212 reports it (GBX for pence) */
+  currency: string;
 }
 
 /** Minimal interface for the Trading212 client — avoids hard dependency on the implementation. */
@@ -18,6 +27,7 @@ export interface Trading212ClientLike {
       shortName?: string;
       minTradeQuantity?: number;
       type?: string;
+      currencyCode?: string;
     }>
   >;
 }
@@ -39,9 +49,9 @@ export class TickerMapper {
       this.stockInfoMap.clear();
 
       for (const inst of instruments) {
-        if (!inst.ticker.endsWith('_US_EQ')) continue;
-
-        const symbol = inst.ticker.replace(/_US_EQ$/, '');
+        const exchange = exchangeForTicker(inst.ticker);
+        const symbol = symbolForTicker(inst.ticker);
+        if (!exchange || !symbol) continue;
 
         this.symbolToT212.set(symbol, inst.ticker);
         this.t212ToSymbol.set(inst.ticker, symbol);
@@ -50,6 +60,8 @@ export class TickerMapper {
           t212Ticker: inst.ticker,
           name: inst.name ?? inst.shortName ?? symbol,
           minTradeQuantity: inst.minTradeQuantity,
+          exchange: exchange.code,
+          currency: inst.currencyCode ?? exchange.currency,
         });
       }
 
@@ -87,8 +99,14 @@ export class TickerMapper {
   }
 
   getUSEquities(): StockInfo[] {
+    return this.getEquities(['US']);
+  }
+
+  /** Equities listed on any of the given exchanges (all supported exchanges by default). */
+  getEquities(exchanges: ExchangeCode[] = EXCHANGE_CODES): StockInfo[] {
     this.ensureLoaded();
-    return Array.from(this.stockInfoMap.values());
+    const wanted = new Set(exchanges);
+    return Array.from(this.stockInfoMap.values()).filter((info) => wanted.has(info.exchange));
   }
 
   getStockInfo(symbol: string): StockInfo | null {
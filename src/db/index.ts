@@ -8,7 +8,9 @@ const Database = require('better-sqlite3');
 
 const log = createLogger('database');
 
-let db: ReturnType<typeof drizzle<typeof schema>>;
+export type AppDatabase = ReturnType<typeof drizzle<typeof schema>>;
+
+let db: AppDatabase;
 
 export function getDb() {
   if (!db) {
@@ -17,7 +19,7 @@ export function getDb() {
   return db;
 }
 
-export function initDatabase(dbPath?: string): ReturnType<typeof drizzle<typeof schema>> {
+export function initDatabase(dbPath?: string): AppDatabase {
   const resolvedPath = dbPath || process.env.DB_PATH || './data/trader212.db';
   log.info({ path: resolvedPath }, 'Initializing database');
 
@@ -36,7 +38,38 @@ export function initDatabase(dbPath?: string): ReturnType<typeof drizzle<typeof
   return db;
 }
 
+/**
+ * Open a standalone database with the full schema without replacing the
+ * process-wide instance. Defaults to an in-memory database, which is what
+ * simulations use as their scratch ledger.
+ */
+export function createDatabase(dbPath = ':memory:'): AppDatabase {
+  const sqlite = new Database(dbPath);
+  sqlite.pragma('foreign_keys = ON');
+
+  const instance = drizzle(sqlite, { schema });
+  createTables(sqlite);
+  return instance;
+}
+
+/**
+ * Run a synchronous callback with getDb() pointing at `instance`.
+ * The previous database is restored before returning, so the swap can never
+ * leak across an await into unrelated work.
+ */
+export function withDatabase<T>(instance: AppDatabase, fn: () => T): T {
+  const previous = db;
+  db = instance;
+  try {
+    return fn();
+  } finally {
+    db = previous;
+  }
+}
+
 function createTables(sqlite: InstanceType<typeof Database>) {
+  scopePositionsToAccount(sqlite);
+
   sqlite.exec(`
     CREATE TABLE IF NOT EXISTS trades (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -62,6 +95,11 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       dcaRound INTEGER,
       journalNotes TEXT,
       journalTags TEXT,
+      currency TEXT, accountCurrency TEXT, entryFxRate REAL, exitFxRate REAL,
+      pricePnl REAL, fxPnl REAL,
+      origin TEXT NOT NULL DEFAULT 'bot' CHECK(origin IN ('bot','manual')),
+      direction TEXT NOT NULL DEFAULT 'LONG' CHECK(direction IN ('LONG','SHORT')),
+      financingCost REAL,
       createdAt TEXT DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -85,12 +123,13 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       executed INTEGER DEFAULT 0,
       aiReasoning TEXT, aiModel TEXT,
       suggestedStopLossPct REAL, suggestedPositionSizePct REAL, suggestedTakeProfitPct REAL,
-      extraIndicators TEXT, newsHeadlines TEXT
+      extraIndicators TEXT, newsHeadlines TEXT,
+      aiDisagreement REAL, aiVotes TEXT, aiToolTrace TEXT
     );
 
     CREATE TABLE IF NOT EXISTS positions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      symbol TEXT NOT NULL UNIQUE,
+      symbol TEXT NOT NULL,
       t212Ticker TEXT NOT NULL,
       shares REAL NOT NULL,
       entryPrice REAL NOT NULL,
@@ -100,8 +139,13 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       convictionScore REAL, stopOrderId TEXT, takeProfitOrderId TEXT, aiExitConditions TEXT,
       accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
       dcaCount INTEGER DEFAULT 0, totalInvested REAL, partialExitCount INTEGER DEFAULT 0,
+      currency TEXT, accountCurrency TEXT, entryFxRate REAL, currentFxRate REAL,
+      pricePnl REAL, fxPnl REAL, dividendIncome REAL,
+      direction TEXT NOT NULL DEFAULT 'LONG' CHECK(direction IN ('LONG','SHORT')),
+      financingCost REAL, financingAccruedAt TEXT,
       updatedAt TEXT
     );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_positions_symbol_account ON positions(symbol, accountType);
 
     CREATE TABLE IF NOT EXISTS price_cache (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -182,6 +226,7 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       t212Ticker TEXT NOT NULL,
       status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','approved','rejected','executed','expired')),
       side TEXT NOT NULL CHECK(side IN ('BUY','SELL')),
+      direction TEXT NOT NULL DEFAULT 'LONG' CHECK(direction IN ('LONG','SHORT')),
       entryPrice REAL NOT NULL,
       shares INTEGER NOT NULL,
       positionValue REAL NOT NULL,
@@ -268,6 +313,8 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       orderTag TEXT,
       replacedByOrderId INTEGER,
       accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      t212Ticker TEXT,
+      origin TEXT NOT NULL DEFAULT 'bot' CHECK(origin IN ('bot','manual')),
       createdAt TEXT NOT NULL,
       updatedAt TEXT,
       filledAt TEXT
@@ -298,6 +345,8 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       pnl REAL,
       holdingPeriod TEXT CHECK(holdingPeriod IN ('short','long')),
       accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      dividendIncome REAL,
+      origin TEXT NOT NULL DEFAULT 'bot' CHECK(origin IN ('bot','manual')),
       createdAt TEXT NOT NULL
     );
     CREATE INDEX IF NOT EXISTS idx_tax_lots_symbol ON tax_lots(symbol, saleDate);
@@ -361,7 +410,283 @@ function createTables(sqlite: InstanceType<typeof Database>) {
       severity TEXT NOT NULL DEFAULT 'info'
     );
     CREATE INDEX IF NOT EXISTS idx_audit_ts ON audit_log(timestamp, eventType);
+
+    CREATE TABLE IF NOT EXISTS optimization_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      method TEXT NOT NULL CHECK(method IN ('grid','random')),
+      objective TEXT NOT NULL,
+      symbols TEXT NOT NULL,
+      startDate TEXT NOT NULL,
+      endDate TEXT NOT NULL,
+      baseConfig TEXT NOT NULL,
+      parameterSpace TEXT NOT NULL,
+      trials TEXT NOT NULL,
+      windows TEXT,
+      bestParams TEXT,
+      bestScore REAL,
+      exportedProfile TEXT,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_optimization_runs_created ON optimization_runs(createdAt);
+
+    CREATE TABLE IF NOT EXISTS candles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      symbol TEXT NOT NULL,
+      timeframe TEXT NOT NULL DEFAULT '1d',
+      timestamp TEXT NOT NULL,
+      open REAL NOT NULL,
+      high REAL NOT NULL,
+      low REAL NOT NULL,
+      close REAL NOT NULL,
+      volume REAL NOT NULL DEFAULT 0,
+      adjClose REAL,
+      splitAdjusted INTEGER NOT NULL DEFAULT 0,
+      dividendAdjusted INTEGER NOT NULL DEFAULT 0,
+      source TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_candles_symbol_tf_ts ON candles(symbol, timeframe, timestamp);
+
+    CREATE TABLE IF NOT EXISTS candle_backfills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      symbol TEXT NOT NULL,
+      timeframe TEXT NOT NULL DEFAULT '1d',
+      requestedFrom TEXT NOT NULL,
+      firstAvailable TEXT,
+      updatedAt TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_candle_backfills_symbol_tf ON candle_backfills(symbol, timeframe);
+
+    CREATE TABLE IF NOT EXISTS backtest_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      label TEXT,
+      configHash TEXT NOT NULL,
+      codeVersion TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      symbols TEXT NOT NULL,
+      startDate TEXT NOT NULL,
+      endDate TEXT NOT NULL,
+      dataStart TEXT,
+      dataEnd TEXT,
+      config TEXT NOT NULL,
+      metrics TEXT NOT NULL,
+      result TEXT NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_backtest_runs_created ON backtest_runs(createdAt);
+    CREATE INDEX IF NOT EXISTS idx_backtest_runs_hash ON backtest_runs(configHash);
+
+    CREATE TABLE IF NOT EXISTS dividends (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      reference TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      t212Ticker TEXT NOT NULL,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      paidOn TEXT NOT NULL,
+      amount REAL NOT NULL,
+      quantity REAL NOT NULL,
+      grossAmountPerShare REAL,
+      currency TEXT,
+      type TEXT,
+      positionId INTEGER,
+      reinvestedAt TEXT,
+      createdAt TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_dividends_ref ON dividends(accountType, reference);
+    CREATE INDEX IF NOT EXISTS idx_dividends_symbol ON dividends(symbol, paidOn);
+
+    CREATE TABLE IF NOT EXISTS order_intents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      localOrderId INTEGER,
+      symbol TEXT NOT NULL,
+      t212Ticker TEXT NOT NULL,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      side TEXT NOT NULL CHECK(side IN ('BUY','SELL')),
+      orderType TEXT NOT NULL CHECK(orderType IN ('market','limit','stop')),
+      purpose TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      price REAL,
+      context TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','submitted','completed','failed','reconciled')),
+      t212OrderId TEXT,
+      resolution TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_order_intents_status ON order_intents(status, accountType);
+
+    CREATE TABLE IF NOT EXISTS account_transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      reference TEXT NOT NULL,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      type TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT,
+      dateTime TEXT NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_account_transactions_ref ON account_transactions(accountType, reference);
+    CREATE INDEX IF NOT EXISTS idx_account_transactions_time ON account_transactions(dateTime);
+
+    CREATE TABLE IF NOT EXISTS history_imports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      source TEXT NOT NULL CHECK(source IN ('orders','transactions')),
+      status TEXT NOT NULL CHECK(status IN ('running','completed')),
+      cursor INTEGER,
+      newestSeen TEXT,
+      stopAt TEXT,
+      pages INTEGER NOT NULL DEFAULT 0,
+      imported INTEGER NOT NULL DEFAULT 0,
+      startedAt TEXT NOT NULL,
+      updatedAt TEXT,
+      completedAt TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_history_imports_source ON history_imports(accountType, source);
+
+    CREATE TABLE IF NOT EXISTS managed_pies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      pieId INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      method TEXT NOT NULL,
+      instrumentShares TEXT NOT NULL,
+      goal REAL,
+      createdAt TEXT NOT NULL,
+      rebalancedAt TEXT NOT NULL,
+      checkedAt TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_managed_pies_account ON managed_pies(accountType);
+
+    CREATE TABLE IF NOT EXISTS pie_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      accountType TEXT NOT NULL CHECK(accountType IN ('INVEST','ISA')),
+      pieId INTEGER NOT NULL,
+      timestamp TEXT NOT NULL,
+      value REAL,
+      invested REAL,
+      result REAL,
+      returnPct REAL,
+      cash REAL,
+      progress REAL,
+      drift REAL NOT NULL,
+      currentShares TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_pie_snapshots_pie ON pie_snapshots(pieId, timestamp);
+
+    CREATE TABLE IF NOT EXISTS ai_cassette (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL,
+      promptHash TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      params TEXT NOT NULL,
+      label TEXT,
+      response TEXT NOT NULL,
+      recordedAt TEXT NOT NULL,
+      replays INTEGER NOT NULL DEFAULT 0,
+      lastReplayedAt TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_cassette_key ON ai_cassette(key);
+    CREATE INDEX IF NOT EXISTS idx_ai_cassette_label ON ai_cassette(label, model);
+
+    CREATE TABLE IF NOT EXISTS ai_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      job TEXT NOT NULL,
+      symbol TEXT,
+      inputTokens INTEGER NOT NULL DEFAULT 0,
+      outputTokens INTEGER NOT NULL DEFAULT 0,
+      latencyMs INTEGER NOT NULL,
+      cost REAL NOT NULL DEFAULT 0,
+      success INTEGER NOT NULL DEFAULT 1
+    );
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_ts ON ai_usage(timestamp);
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_symbol ON ai_usage(symbol, job);
   `);
 
+  addMissingColumns(sqlite);
+
   log.debug('All tables created/verified');
 }
+
+/**
+ * Positions used to be unique per symbol, which stops two accounts holding the
+ * same one. SQLite cannot drop a column constraint, so an old table is rebuilt
+ * from its own definition without it; createTables then adds the
+ * (symbol, accountType) index.
+ */
+function scopePositionsToAccount(sqlite: InstanceType<typeof Database>) {
+  const table = sqlite
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'positions'")
+    .get() as { sql: string } | undefined;
+  if (!table?.sql.includes('symbol TEXT NOT NULL UNIQUE')) return;
+
+  sqlite.transaction(() => {
+    sqlite.exec('ALTER TABLE positions RENAME TO positions_old');
+    sqlite.exec(table.sql.replace('symbol TEXT NOT NULL UNIQUE', 'symbol TEXT NOT NULL'));
+    sqlite.exec('INSERT INTO positions SELECT * FROM positions_old');
+    sqlite.exec('DROP TABLE positions_old');
+  })();
+  log.info('Positions made unique per account instead of per symbol');
+}
+
+/**
+ * Columns added after a table was first released. CREATE TABLE IF NOT EXISTS
+ * leaves existing databases untouched, so these are added in place.
+ */
+const ADDED_COLUMNS: Record<string, Array<[name: string, type: string]>> = {
+  trades: [
+    ['currency', 'TEXT'],
+    ['accountCurrency', 'TEXT'],
+    ['entryFxRate', 'REAL'],
+    ['exitFxRate', 'REAL'],
+    ['pricePnl', 'REAL'],
+    ['fxPnl', 'REAL'],
+    ['origin', "TEXT NOT NULL DEFAULT 'bot'"],
+    ['direction', "TEXT NOT NULL DEFAULT 'LONG'"],
+    ['financingCost', 'REAL'],
+  ],
+  positions: [
+    ['currency', 'TEXT'],
+    ['accountCurrency', 'TEXT'],
+    ['entryFxRate', 'REAL'],
+    ['currentFxRate', 'REAL'],
+    ['pricePnl', 'REAL'],
+    ['fxPnl', 'REAL'],
+    ['dividendIncome', 'REAL'],
+    ['direction', "TEXT NOT NULL DEFAULT 'LONG'"],
+    ['financingCost', 'REAL'],
+    ['financingAccruedAt', 'TEXT'],
+  ],
+  signals: [
+    ['aiDisagreement', 'REAL'],
+    ['aiVotes', 'TEXT'],
+    ['aiToolTrace', 'TEXT'],
+  ],
+  trade_plans: [['direction', "TEXT NOT NULL DEFAULT 'LONG'"]],
+  tax_lots: [
+    ['dividendIncome', 'REAL'],
+    ['origin', "TEXT NOT NULL DEFAULT 'bot'"],
+  ],
+  orders: [
+    ['t212Ticker', 'TEXT'],
+    ['origin', "TEXT NOT NULL DEFAULT 'bot'"],
+  ],
+  managed_pies: [['checkedAt', 'TEXT']],
+};
+
+function addMissingColumns(sqlite: InstanceType<typeof Database>) {
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    const info = sqlite.pragma(`table_info(${table})`) as Array<{ name: string }>;
+    const existing = new Set(info.map((c) => c.name));
+    if (existing.size === 0) continue;
+    for (const [name, type] of columns) {
+      if (existing.has(name)) continue;
+      sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+      log.info({ table, column: name }, 'Added column');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { accountTransactions } from '../schema.js';
+
+export interface AccountTransactionInsert {
+  reference: string;
+  accountType: 'INVEST' | 'ISA';
+  type: string;
+  amount: number;
+  currency?: string | null;
+  dateTime: string;
+}
+
+export type AccountTransaction = typeof accountTransactions.$inferSelect;
+
+export interface AccountTransactionFilter {
+  from?: string;
+  to?: string;
+  accountType?: 'INVEST' | 'ISA';
+  type?: string;
+}
+
+/** Insert a cash transaction. Returns null when it was already recorded. */
+export function insertAccountTransaction(
+  data: AccountTransactionInsert,
+): AccountTransaction | null {
+  const db = getDb();
+
+  const result = db
+    .insert(accountTransactions)
+    .values({
+      ...data,
+      currency: data.currency ?? null,
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  return result ?? null;
+}
+
+export function getAccountTransactions(
+  filter: AccountTransactionFilter = {},
+): AccountTransaction[] {
+  const db = getDb();
+  const conditions = [];
+  if (filter.from) conditions.push(gte(accountTransactions.dateTime, filter.from));
+  if (filter.to) conditions.push(lte(accountTransactions.dateTime, filter.to));
+  if (filter.accountType) conditions.push(eq(accountTransactions.accountType, filter.accountType));
+  if (filter.type) conditions.push(eq(accountTransactions.type, filter.type));
+
+  return db
+    .select()
+    .from(accountTransactions)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(accountTransactions.dateTime)
+    .all();
+}
@@ -0,0 +1,81 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { aiCassette } from '../schema.js';
+
+export type CassetteRow = typeof aiCassette.$inferSelect;
+
+export interface CassetteRecording {
+  key: string;
+  promptHash: string;
+  provider: string;
+  model: string;
+  params: Record<string, unknown>;
+  label?: string | null;
+  response: string;
+}
+
+/** Store a response; recording the same call again replaces it. */
+export function recordCassetteEntry(data: CassetteRecording): void {
+  const db = getDb();
+  const recordedAt = new Date().toISOString();
+  db.insert(aiCassette)
+    .values({
+      ...data,
+      params: JSON.stringify(data.params),
+      label: data.label ?? null,
+      recordedAt,
+    })
+    .onConflictDoUpdate({
+      target: aiCassette.key,
+      set: { response: data.response, recordedAt, replays: 0, lastReplayedAt: null },
+    })
+    .run();
+}
+
+export function getCassetteEntry(key: string): CassetteRow | undefined {
+  const db = getDb();
+  return db.select().from(aiCassette).where(eq(aiCassette.key, key)).get();
+}
+
+export function markCassetteReplayed(id: number): void {
+  const db = getDb();
+  db.update(aiCassette)
+    .set({
+      replays: sql`${aiCassette.replays} + 1`,
+      lastReplayedAt: new Date().toISOString(),
+    })
+    .where(eq(aiCassette.id, id))
+    .run();
+}
+
+/** Latest recording for the same subject and model, used to tell a changed prompt from a new one. */
+export function getLatestCassetteEntryFor(label: string, model: string): CassetteRow | undefined {
+  const db = getDb();
+  return db
+    .select()
+    .from(aiCassette)
+    .where(and(eq(aiCassette.label, label), eq(aiCassette.model, model)))
+    .orderBy(desc(aiCassette.recordedAt))
+    .limit(1)
+    .get();
+}
+
+/** Recorded calls per provider and model. */
+export function getCassetteCounts() {
+  const db = getDb();
+  return db
+    .select({
+      provider: aiCassette.provider,
+      model: aiCassette.model,
+      entries: sql<number>`count(*)`,
+      replays: sql<number>`coalesce(sum(${aiCassette.replays}), 0)`,
+    })
+    .from(aiCassette)
+    .groupBy(aiCassette.provider, aiCassette.model)
+    .all();
+}
+
+export function clearCassette(): number {
+  const db = getDb();
+  return db.delete(aiCassette).run().changes;
+}
@@ -0,0 +1,70 @@
+import { and, desc, gte, lt, sql } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { aiUsage } from '../schema.js';
+
+export type AIUsageRow = typeof aiUsage.$inferSelect;
+export type NewAIUsage = Omit<typeof aiUsage.$inferInsert, 'id' | 'timestamp'>;
+
+export function recordAIUsage(data: NewAIUsage): void {
+  const db = getDb();
+  db.insert(aiUsage)
+    .values({ ...data, timestamp: new Date().toISOString() })
+    .run();
+}
+
+/** Estimated spend in USD since `from` (ISO timestamp). */
+export function getAISpendSince(from: string): number {
+  const db = getDb();
+  const row = db
+    .select({ cost: sql<number>`coalesce(sum(${aiUsage.cost}), 0)` })
+    .from(aiUsage)
+    .where(gte(aiUsage.timestamp, from))
+    .get();
+  return row?.cost ?? 0;
+}
+
+const usageTotals = () => ({
+  calls: sql<number>`count(*)`,
+  failures: sql<number>`coalesce(sum(case when ${aiUsage.success} = 0 then 1 else 0 end), 0)`,
+  inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`,
+  outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`,
+  cost: sql<number>`coalesce(sum(${aiUsage.cost}), 0)`,
+  avgLatencyMs: sql<number>`coalesce(avg(${aiUsage.latencyMs}), 0)`,
+});
+
+/** Call, token, cost and latency totals in [from, to), overall and by model, job and symbol. */
+export function getAIUsageSummary(from: string, to?: string) {
+  const db = getDb();
+  const range = to
+    ? and(gte(aiUsage.timestamp, from), lt(aiUsage.timestamp, to))
+    : gte(aiUsage.timestamp, from);
+  const totals = usageTotals();
+
+  return {
+    totals: db.select(totals).from(aiUsage).where(range).get(),
+    byModel: db
+      .select({ provider: aiUsage.provider, model: aiUsage.model, ...totals })
+      .from(aiUsage)
+      .where(range)
+      .groupBy(aiUsage.provider, aiUsage.model)
+      .orderBy(desc(sql`sum(${aiUsage.cost})`))
+      .all(),
+    byJob: db
+      .select({ job: aiUsage.job, ...totals })
+      .from(aiUsage)
+      .where(range)
+      .groupBy(aiUsage.job)
+      .orderBy(desc(sql`sum(${aiUsage.cost})`))
+      .all(),
+    bySymbol: db
+      .select({ symbol: aiUsage.symbol, ...totals })
+      .from(aiUsage)
+      .where(and(range, sql`${aiUsage.symbol} is not null`))
+      .groupBy(aiUsage.symbol)
+      .orderBy(desc(sql`sum(${aiUsage.cost})`))
+      .limit(10)
+      .all(),
+  };
+}
+
+export type AIUsageSummary = ReturnType<typeof getAIUsageSummary>;
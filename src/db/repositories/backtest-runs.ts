@@ -0,0 +1,81 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { backtestRuns } from '../schema.js';
+
+export type BacktestRunRow = typeof backtestRuns.$inferSelect;
+
+export interface BacktestRunData {
+  label?: string | null;
+  configHash: string;
+  codeVersion: string;
+  mode: string;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  dataStart: string | null;
+  dataEnd: string | null;
+  config: unknown;
+  metrics: unknown;
+  result: unknown;
+}
+
+export function insertBacktestRun(data: BacktestRunData): number {
+  const db = getDb();
+  const row = db
+    .insert(backtestRuns)
+    .values({
+      label: data.label ?? null,
+      configHash: data.configHash,
+      codeVersion: data.codeVersion,
+      mode: data.mode,
+      symbols: JSON.stringify(data.symbols),
+      startDate: data.startDate,
+      endDate: data.endDate,
+      dataStart: data.dataStart,
+      dataEnd: data.dataEnd,
+      config: JSON.stringify(data.config),
+      metrics: JSON.stringify(data.metrics),
+      result: JSON.stringify(data.result),
+      createdAt: new Date().toISOString(),
+    })
+    .returning({ id: backtestRuns.id })
+    .get();
+
+  return row.id;
+}
+
+export function getBacktestRun(id: number): BacktestRunRow | undefined {
+  const db = getDb();
+  return db.select().from(backtestRuns).where(eq(backtestRuns.id, id)).get();
+}
+
+/** Most recent runs first, without the (large) result payload. */
+export function listBacktestRuns(limit = 50, configHash?: string) {
+  const db = getDb();
+  return db
+    .select({
+      id: backtestRuns.id,
+      label: backtestRuns.label,
+      configHash: backtestRuns.configHash,
+      codeVersion: backtestRuns.codeVersion,
+      mode: backtestRuns.mode,
+      symbols: backtestRuns.symbols,
+      startDate: backtestRuns.startDate,
+      endDate: backtestRuns.endDate,
+      dataStart: backtestRuns.dataStart,
+      dataEnd: backtestRuns.dataEnd,
+      metrics: backtestRuns.metrics,
+      createdAt: backtestRuns.createdAt,
+    })
+    .from(backtestRuns)
+    .where(and(configHash ? eq(backtestRuns.configHash, configHash) : undefined))
+    .orderBy(desc(backtestRuns.createdAt), desc(backtestRuns.id))
+    .limit(limit)
+    .all();
+}
+
+export function deleteBacktestRun(id: number): boolean {
+  const db = getDb();
+  const result = db.delete(backtestRuns).where(eq(backtestRuns.id, id)).run();
+  return result.changes > 0;
+}
@@ -0,0 +1,140 @@
+import { and, asc, count, eq, gte, lte, max, min, sql } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { candleBackfills, candles } from '../schema.js';
+
+export type CandleRow = typeof candles.$inferSelect;
+export type CandleInsert = typeof candles.$inferInsert;
+export type CandleBackfill = typeof candleBackfills.$inferSelect;
+
+export interface CandleCoverage {
+  symbol: string;
+  timeframe: string;
+  first: string;
+  last: string;
+  count: number;
+}
+
+// 14 bound columns per row keeps each statement well under SQLite's variable limit
+const UPSERT_BATCH_SIZE = 500;
+
+/** Insert bars, replacing any existing bar for the same symbol/timeframe/timestamp. */
+export function upsertCandles(rows: CandleInsert[]): number {
+  if (rows.length === 0) return 0;
+  const db = getDb();
+
+  db.transaction((tx) => {
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      tx.insert(candles)
+        .values(rows.slice(i, i + UPSERT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [candles.symbol, candles.timeframe, candles.timestamp],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            adjClose: sql`excluded.adjClose`,
+            splitAdjusted: sql`excluded.splitAdjusted`,
+            dividendAdjusted: sql`excluded.dividendAdjusted`,
+            source: sql`excluded.source`,
+            updatedAt: sql`excluded.updatedAt`,
+          },
+        })
+        .run();
+    }
+  });
+
+  return rows.length;
+}
+
+/** Bars for a symbol in ascending time order; `from`/`to` are inclusive timestamp prefixes. */
+export function getCandles(symbol: string, timeframe = '1d', from?: string, to?: string) {
+  const db = getDb();
+  const conditions = [eq(candles.symbol, symbol), eq(candles.timeframe, timeframe)];
+  if (from) conditions.push(gte(candles.timestamp, from));
+  // Intraday timestamps extend past the date, so compare against the end of `to`
+  if (to) conditions.push(lte(candles.timestamp, to.length === 10 ? `${to}T23:59:59.999Z` : to));
+
+  return db
+    .select()
+    .from(candles)
+    .where(and(...conditions))
+    .orderBy(asc(candles.timestamp))
+    .all();
+}
+
+export function getCandleCoverage(symbol: string, timeframe = '1d'): CandleCoverage | null {
+  const db = getDb();
+  const row = db
+    .select({ first: min(candles.timestamp), last: max(candles.timestamp), count: count() })
+    .from(candles)
+    .where(and(eq(candles.symbol, symbol), eq(candles.timeframe, timeframe)))
+    .get();
+
+  if (!row?.first || !row.last) return null;
+  return { symbol, timeframe, first: row.first, last: row.last, count: row.count };
+}
+
+export function listCandleCoverage(): CandleCoverage[] {
+  const db = getDb();
+  return db
+    .select({
+      symbol: candles.symbol,
+      timeframe: candles.timeframe,
+      first: min(candles.timestamp),
+      last: max(candles.timestamp),
+      count: count(),
+    })
+    .from(candles)
+    .groupBy(candles.symbol, candles.timeframe)
+    .orderBy(asc(candles.symbol), asc(candles.timeframe))
+    .all()
+    .map((row) => ({ ...row, first: row.first ?? '', last: row.last ?? '' }));
+}
+
+export function deleteCandles(symbol: string, timeframe?: string): void {
+  const db = getDb();
+  const conditions = [eq(candles.symbol, symbol)];
+  if (timeframe) conditions.push(eq(candles.timeframe, timeframe));
+  db.delete(candles)
+    .where(and(...conditions))
+    .run();
+
+  // Without its bars the history has to be fetched again
+  const backfills = [eq(candleBackfills.symbol, symbol)];
+  if (timeframe) backfills.push(eq(candleBackfills.timeframe, timeframe));
+  db.delete(candleBackfills)
+    .where(and(...backfills))
+    .run();
+}
+
+/** The last full-history request for a symbol, if any. */
+export function getCandleBackfill(symbol: string, timeframe = '1d'): CandleBackfill | null {
+  const db = getDb();
+  return (
+    db
+      .select()
+      .from(candleBackfills)
+      .where(and(eq(candleBackfills.symbol, symbol), eq(candleBackfills.timeframe, timeframe)))
+      .get() ?? null
+  );
+}
+
+/** Record that history from `requestedFrom` was asked for and where the source's bars began. */
+export function recordCandleBackfill(
+  symbol: string,
+  timeframe: string,
+  requestedFrom: string,
+  firstAvailable: string | null,
+): void {
+  const db = getDb();
+  const updatedAt = new Date().toISOString();
+  db.insert(candleBackfills)
+    .values({ symbol, timeframe, requestedFrom, firstAvailable, updatedAt })
+    .onConflictDoUpdate({
+      target: [candleBackfills.symbol, candleBackfills.timeframe],
+      set: { requestedFrom, firstAvailable, updatedAt },
+    })
+    .run();
+}
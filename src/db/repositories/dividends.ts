@@ -0,0 +1,126 @@
+import { and, eq, gte, inArray, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { dividends } from '../schema.js';
+
+export interface DividendInsert {
+  reference: string;
+  symbol: string;
+  t212Ticker: string;
+  accountType: 'INVEST' | 'ISA';
+  paidOn: string;
+  amount: number;
+  quantity: number;
+  grossAmountPerShare?: number | null;
+  currency?: string | null;
+  type?: string | null;
+  positionId?: number | null;
+}
+
+export interface DividendRecord {
+  id: number;
+  reference: string;
+  symbol: string;
+  t212Ticker: string;
+  accountType: 'INVEST' | 'ISA';
+  paidOn: string;
+  amount: number;
+  quantity: number;
+  grossAmountPerShare: number | null;
+  currency: string | null;
+  type: string | null;
+  positionId: number | null;
+  reinvestedAt: string | null;
+  createdAt: string;
+}
+
+export interface DividendFilter {
+  from?: string;
+  to?: string;
+  accountType?: 'INVEST' | 'ISA';
+  symbol?: string;
+}
+
+/** Insert a dividend event. Returns null when it was already recorded. */
+export function insertDividend(data: DividendInsert): DividendRecord | null {
+  const db = getDb();
+
+  const result = db
+    .insert(dividends)
+    .values({
+      ...data,
+      grossAmountPerShare: data.grossAmountPerShare ?? null,
+      currency: data.currency ?? null,
+      type: data.type ?? null,
+      positionId: data.positionId ?? null,
+      reinvestedAt: null,
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  return result ?? null;
+}
+
+export function hasDividend(accountType: 'INVEST' | 'ISA', reference: string): boolean {
+  const db = getDb();
+  const row = db
+    .select({ id: dividends.id })
+    .from(dividends)
+    .where(and(eq(dividends.accountType, accountType), eq(dividends.reference, reference)))
+    .get();
+  return row != null;
+}
+
+function filterConditions(filter: DividendFilter) {
+  const conditions = [];
+  if (filter.from) conditions.push(gte(dividends.paidOn, filter.from));
+  if (filter.to) conditions.push(lte(dividends.paidOn, filter.to));
+  if (filter.accountType) conditions.push(eq(dividends.accountType, filter.accountType));
+  if (filter.symbol) conditions.push(eq(dividends.symbol, filter.symbol));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export function getDividends(filter: DividendFilter = {}): DividendRecord[] {
+  const db = getDb();
+  return db
+    .select()
+    .from(dividends)
+    .where(filterConditions(filter))
+    .orderBy(dividends.paidOn)
+    .all();
+}
+
+/** Sum of dividends received, in account currency. */
+export function getDividendTotal(filter: DividendFilter = {}): number {
+  const db = getDb();
+  const row = db
+    .select({ total: sql<number>`COALESCE(SUM(${dividends.amount}), 0)` })
+    .from(dividends)
+    .where(filterConditions(filter))
+    .get();
+  return row?.total ?? 0;
+}
+
+/** Dividends credited to an open position and not yet reinvested. */
+export function getUnreinvestedDividends(accountType: 'INVEST' | 'ISA'): DividendRecord[] {
+  const db = getDb();
+  return db
+    .select()
+    .from(dividends)
+    .where(
+      and(
+        eq(dividends.accountType, accountType),
+        isNotNull(dividends.positionId),
+        isNull(dividends.reinvestedAt),
+      ),
+    )
+    .orderBy(dividends.paidOn)
+    .all();
+}
+
+export function markReinvested(ids: number[], reinvestedAt: string): void {
+  if (ids.length === 0) return;
+  const db = getDb();
+  db.update(dividends).set({ reinvestedAt }).where(inArray(dividends.id, ids)).run();
+}
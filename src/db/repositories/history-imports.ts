@@ -0,0 +1,88 @@
+import { and, eq } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { historyImports } from '../schema.js';
+
+export type HistoryImportSource = 'orders' | 'transactions';
+
+export type HistoryImport = typeof historyImports.$inferSelect;
+
+export interface HistoryImportProgress {
+  cursor: number | null;
+  newestSeen: string | null;
+  pages: number;
+  imported: number;
+  completed: boolean;
+}
+
+export function getHistoryImport(
+  accountType: 'INVEST' | 'ISA',
+  source: HistoryImportSource,
+): HistoryImport | undefined {
+  const db = getDb();
+  return db
+    .select()
+    .from(historyImports)
+    .where(and(eq(historyImports.accountType, accountType), eq(historyImports.source, source)))
+    .get();
+}
+
+/**
+ * Start a new pass from the newest page. A pass after a completed one stops
+ * at that pass's newest item, so only newer history is fetched again.
+ */
+export function startHistoryImport(
+  accountType: 'INVEST' | 'ISA',
+  source: HistoryImportSource,
+): HistoryImport {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const previous = getHistoryImport(accountType, source);
+  const pass = {
+    status: 'running' as const,
+    cursor: null,
+    newestSeen: null,
+    stopAt: previous?.status === 'completed' ? previous.newestSeen : (previous?.stopAt ?? null),
+    pages: 0,
+    imported: 0,
+    startedAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+
+  return db
+    .insert(historyImports)
+    .values({ accountType, source, ...pass })
+    .onConflictDoUpdate({
+      target: [historyImports.accountType, historyImports.source],
+      set: pass,
+    })
+    .returning()
+    .get();
+}
+
+/** Save progress after each page so an interrupted pass resumes where it stopped. */
+export function saveHistoryImportProgress(id: number, progress: HistoryImportProgress): void {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.update(historyImports)
+    .set({
+      cursor: progress.cursor,
+      newestSeen: progress.newestSeen,
+      pages: progress.pages,
+      imported: progress.imported,
+      status: progress.completed ? 'completed' : 'running',
+      updatedAt: now,
+      ...(progress.completed && { completedAt: now }),
+    })
+    .where(eq(historyImports.id, id))
+    .run();
+}
+
+export function getHistoryImports(accountType?: 'INVEST' | 'ISA'): HistoryImport[] {
+  const db = getDb();
+  return db
+    .select()
+    .from(historyImports)
+    .where(accountType ? eq(historyImports.accountType, accountType) : undefined)
+    .all();
+}
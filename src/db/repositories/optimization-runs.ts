@@ -0,0 +1,78 @@
+import { desc, eq } from 'drizzle-orm';
+import { getDb } from '../index.js';
+import { optimizationRuns } from '../schema.js';
+
+export type OptimizationRunRow = typeof optimizationRuns.$inferSelect;
+
+export interface OptimizationRunData {
+  method: 'grid' | 'random';
+  objective: string;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  baseConfig: unknown;
+  parameterSpace: unknown;
+  trials: unknown[];
+  windows?: unknown[];
+  bestParams: unknown | null;
+  bestScore: number | null;
+}
+
+export function insertOptimizationRun(data: OptimizationRunData): number {
+  const db = getDb();
+  const result = db
+    .insert(optimizationRuns)
+    .values({
+      method: data.method,
+      objective: data.objective,
+      symbols: JSON.stringify(data.symbols),
+      startDate: data.startDate,
+      endDate: data.endDate,
+      baseConfig: JSON.stringify(data.baseConfig),
+      parameterSpace: JSON.stringify(data.parameterSpace),
+      trials: JSON.stringify(data.trials),
+      windows: data.windows ? JSON.stringify(data.windows) : null,
+      bestParams: data.bestParams != null ? JSON.stringify(data.bestParams) : null,
+      bestScore: data.bestScore,
+      createdAt: new Date().toISOString(),
+    })
+    .returning({ id: optimizationRuns.id })
+    .get();
+
+  return result.id;
+}
+
+export function getOptimizationRun(id: number): OptimizationRunRow | undefined {
+  const db = getDb();
+  return db.select().from(optimizationRuns).where(eq(optimizationRuns.id, id)).get();
+}
+
+/** Most recent runs first, without the (large) trials and windows payloads. */
+export function listOptimizationRuns(limit = 50) {
+  const db = getDb();
+  return db
+    .select({
+      id: optimizationRuns.id,
+      method: optimizationRuns.method,
+      objective: optimizationRuns.objective,
+      symbols: optimizationRuns.symbols,
+      startDate: optimizationRuns.startDate,
+      endDate: optimizationRuns.endDate,
+      bestParams: optimizationRuns.bestParams,
+      bestScore: optimizationRuns.bestScore,
+      exportedProfile: optimizationRuns.exportedProfile,
+      createdAt: optimizationRuns.createdAt,
+    })
+    .from(optimizationRuns)
+    .orderBy(desc(optimizationRuns.createdAt), desc(optimizationRuns.id))
+    .limit(limit)
+    .all();
+}
+
+export function markOptimizationRunExported(id: number, profileName: string): void {
+  const db = getDb();
+  db.update(optimizationRuns)
+    .set({ exportedProfile: profileName })
+    .where(eq(optimizationRuns.id, id))
+    .run();
+}
@@ -0,0 +1,147 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { safeJsonParse } from '../../utils/helpers.js';
+import { getDb } from '../index.js';
+import { orderIntents } from '../schema.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type OrderIntentRow = typeof orderIntents.$inferSelect;
+
+export type OrderIntentStatus = 'pending' | 'submitted' | 'completed' | 'failed' | 'reconciled';
+
+/** What the startup reconciliation needs to rebuild trades and positions for an order. */
+export interface IntentContext {
+  stopLossPct?: number;
+  takeProfitPct?: number;
+  aiReasoning?: string;
+  conviction?: number;
+  aiModel?: string;
+  exitReason?: string;
+  currency?: string;
+  accountCurrency?: string;
+  fxRate?: number;
+  /** SHORT when the order opens or covers a short, whose entry is a sell */
+  direction?: 'LONG' | 'SHORT';
+}
+
+export interface OrderIntent extends Omit<OrderIntentRow, 'context'> {
+  context: IntentContext;
+}
+
+export interface NewOrderIntent {
+  localOrderId?: number;
+  symbol: string;
+  t212Ticker: string;
+  accountType: 'INVEST' | 'ISA';
+  side: 'BUY' | 'SELL';
+  orderType: 'market' | 'limit' | 'stop';
+  purpose: string;
+  quantity: number;
+  price?: number;
+  context?: IntentContext;
+}
+
+/** Intents whose outcome the local records may not reflect yet. */
+const UNRESOLVED: OrderIntentStatus[] = ['pending', 'submitted'];
+
+function toIntent(row: OrderIntentRow): OrderIntent {
+  return { ...row, context: safeJsonParse<IntentContext>(row.context, {}) };
+}
+
+// ── Repository functions ───────────────────────────────────────────────────
+
+/** Record an order before it is sent to the broker. Returns the intent ID. */
+export function recordIntent(intent: NewOrderIntent): number {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const result = db
+    .insert(orderIntents)
+    .values({
+      localOrderId: intent.localOrderId ?? null,
+      symbol: intent.symbol,
+      t212Ticker: intent.t212Ticker,
+      accountType: intent.accountType,
+      side: intent.side,
+      orderType: intent.orderType,
+      purpose: intent.purpose,
+      quantity: intent.quantity,
+      price: intent.price ?? null,
+      context: intent.context ? JSON.stringify(intent.context) : null,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .run();
+
+  return Number(result.lastInsertRowid);
+}
+
+/** The broker accepted the order; local records are still to be written. */
+export function markIntentSubmitted(id: number, t212OrderId: string): void {
+  const db = getDb();
+  db.update(orderIntents)
+    .set({ status: 'submitted', t212OrderId, updatedAt: new Date().toISOString() })
+    .where(eq(orderIntents.id, id))
+    .run();
+}
+
+/**
+ * Local records for the order are written. Call inside the transaction that
+ * writes them so the intent and its effects commit together.
+ */
+export function completeIntent(id: number): void {
+  const db = getDb();
+  db.update(orderIntents)
+    .set({ status: 'completed', updatedAt: new Date().toISOString() })
+    .where(eq(orderIntents.id, id))
+    .run();
+}
+
+/**
+ * The order never reached the broker. Only a still-pending intent is failed:
+ * once submitted, the broker's state decides the outcome. Call it only when
+ * the broker refused the order; after a transport error the intent stays
+ * pending so startup reconciliation checks the broker for it.
+ */
+export function abandonIntent(id: number, reason: string): void {
+  const db = getDb();
+  db.update(orderIntents)
+    .set({ status: 'failed', resolution: reason, updatedAt: new Date().toISOString() })
+    .where(and(eq(orderIntents.id, id), eq(orderIntents.status, 'pending')))
+    .run();
+}
+
+/** Close an intent with the outcome found by reconciliation. */
+export function resolveIntent(
+  id: number,
+  status: 'completed' | 'failed' | 'reconciled',
+  resolution: string,
+  t212OrderId?: string,
+): void {
+  const db = getDb();
+  db.update(orderIntents)
+    .set({
+      status,
+      resolution,
+      ...(t212OrderId !== undefined && { t212OrderId }),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(orderIntents.id, id))
+    .run();
+}
+
+/** Intents left pending or submitted, oldest first. */
+export function getUnresolvedIntents(accountType?: 'INVEST' | 'ISA'): OrderIntent[] {
+  const db = getDb();
+  const conditions = [inArray(orderIntents.status, UNRESOLVED)];
+  if (accountType) conditions.push(eq(orderIntents.accountType, accountType));
+
+  return db
+    .select()
+    .from(orderIntents)
+    .where(and(...conditions))
+    .orderBy(orderIntents.createdAt)
+    .all()
+    .map(toIntent);
+}
@@ -1,4 +1,4 @@
-import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { and, desc, eq, gte, inArray, isNull, lte, sql } from 'drizzle-orm';
 import { getDb } from '../index.js';
 import { orders } from '../schema.js';
 
@@ -24,8 +24,19 @@ export interface NewOrder {
   requestedQuantity: number;
   requestedPrice?: number;
   stopPrice?: number;
-  orderTag: string; // 'entry' | 'exit' | 'dca' | 'stoploss' | 'take_profit' | 'partial_exit'
+  orderTag: string; // 'entry' | 'exit' | 'dca' | 'dividend_reinvest' | 'stoploss' | 'take_profit' | 'partial_exit' | 'history_import'
   accountType: 'INVEST' | 'ISA';
+  t212Ticker?: string;
+  origin?: 'bot' | 'manual';
+}
+
+/** An order that already filled at the broker, e.g. from a history import. */
+export interface FilledOrder extends NewOrder {
+  t212OrderId: string;
+  filledQuantity: number;
+  filledPrice: number;
+  filledAt: string;
+  createdAt: string;
 }
 
 export interface OrderUpdate {
@@ -59,6 +70,8 @@ export function createOrder(order: NewOrder): number {
       stopPrice: order.stopPrice ?? null,
       orderTag: order.orderTag,
       accountType: order.accountType,
+      t212Ticker: order.t212Ticker ?? null,
+      origin: order.origin ?? 'bot',
       createdAt: now,
       updatedAt: now,
     })
@@ -67,6 +80,38 @@ export function createOrder(order: NewOrder): number {
   return Number(result.lastInsertRowid);
 }
 
+/** Record an order that filled at the broker in one write. Returns the order ID. */
+export function insertFilledOrder(order: FilledOrder): number {
+  const db = getDb();
+
+  const result = db
+    .insert(orders)
+    .values({
+      tradeId: order.tradeId ?? null,
+      positionId: order.positionId ?? null,
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      status: 'filled',
+      requestedQuantity: order.requestedQuantity,
+      filledQuantity: order.filledQuantity,
+      requestedPrice: order.requestedPrice ?? null,
+      filledPrice: order.filledPrice,
+      stopPrice: order.stopPrice ?? null,
+      t212OrderId: order.t212OrderId,
+      orderTag: order.orderTag,
+      accountType: order.accountType,
+      t212Ticker: order.t212Ticker ?? null,
+      origin: order.origin ?? 'bot',
+      createdAt: order.createdAt,
+      updatedAt: new Date().toISOString(),
+      filledAt: order.filledAt,
+    })
+    .run();
+
+  return Number(result.lastInsertRowid);
+}
+
 /** Update order status and/or fill information. */
 export function updateOrderStatus(orderId: number, updates: OrderUpdate): void {
   const db = getDb();
@@ -120,12 +165,17 @@ export function getOrdersBySymbol(symbol: string): Order[] {
 }
 
 /** Get all open (unfilled) orders -- pending, open, or partially_filled. */
-export function getOpenOrders(): Order[] {
+export function getOpenOrders(accountType?: 'INVEST' | 'ISA'): Order[] {
   const db = getDb();
   return db
     .select()
     .from(orders)
-    .where(inArray(orders.status, ['pending', 'open', 'partially_filled']))
+    .where(
+      and(
+        inArray(orders.status, ['pending', 'open', 'partially_filled']),
+        accountType ? eq(orders.accountType, accountType) : undefined,
+      ),
+    )
     .orderBy(desc(orders.createdAt))
     .all();
 }
@@ -136,6 +186,59 @@ export function getOrderByT212Id(t212OrderId: string): Order | undefined {
   return db.select().from(orders).where(eq(orders.t212OrderId, t212OrderId)).get();
 }
 
+/**
+ * A filled order for the same fill: same symbol, side and quantity, filled
+ * within `windowMs` of `filledAt`. Matches fills whose broker IDs differ
+ * between sources (the CSV export uses its own IDs).
+ */
+export function findFilledOrder(match: {
+  accountType: 'INVEST' | 'ISA';
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  filledAt: string;
+  windowMs: number;
+}): Order | undefined {
+  const db = getDb();
+  const at = Date.parse(match.filledAt);
+  return db
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.accountType, match.accountType),
+        eq(orders.symbol, match.symbol),
+        eq(orders.side, match.side),
+        eq(orders.status, 'filled'),
+        gte(orders.filledAt, new Date(at - match.windowMs).toISOString()),
+        lte(orders.filledAt, new Date(at + match.windowMs).toISOString()),
+      ),
+    )
+    .all()
+    .find((o) => Math.abs((o.filledQuantity ?? 0) - match.quantity) < 1e-9);
+}
+
+/** Filled orders with this tag that no trade records yet, oldest fill first. */
+export function getFilledOrdersWithoutTrade(
+  orderTag: string,
+  accountType: 'INVEST' | 'ISA',
+): Order[] {
+  const db = getDb();
+  return db
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.orderTag, orderTag),
+        eq(orders.accountType, accountType),
+        eq(orders.status, 'filled'),
+        isNull(orders.tradeId),
+      ),
+    )
+    .orderBy(orders.filledAt, orders.id)
+    .all();
+}
+
 /** Get order by local ID. */
 export function getOrderById(orderId: number): Order | undefined {
   const db = getDb();
@@ -159,13 +262,19 @@ export function cancelOrder(orderId: number, reason: string): void {
 
 /** Get recent orders with optional filters. */
 export function getRecentOrders(
-  filters: { symbol?: string; status?: OrderStatus | string; limit?: number } = {},
+  filters: {
+    symbol?: string;
+    status?: OrderStatus | string;
+    accountType?: 'INVEST' | 'ISA';
+    limit?: number;
+  } = {},
 ): Order[] {
   const db = getDb();
   const conditions = [];
 
   if (filters.symbol) conditions.push(eq(orders.symbol, filters.symbol));
   if (filters.status) conditions.push(eq(orders.status, filters.status as OrderStatus));
+  if (filters.accountType) conditions.push(eq(orders.accountType, filters.accountType));
 
   const where = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -180,13 +289,14 @@ export function getRecentOrders(
 
 /** Get total order count with optional filters. */
 export function getOrderCount(
-  filters: { symbol?: string; status?: OrderStatus | string } = {},
+  filters: { symbol?: string; status?: OrderStatus | string; accountType?: 'INVEST' | 'ISA' } = {},
 ): number {
   const db = getDb();
   const conditions = [];
 
   if (filters.symbol) conditions.push(eq(orders.symbol, filters.symbol));
   if (filters.status) conditions.push(eq(orders.status, filters.status as OrderStatus));
+  if (filters.accountType) conditions.push(eq(orders.accountType, filters.accountType));
 
   const where = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -0,0 +1,125 @@
+import { and, eq, gte } from 'drizzle-orm';
+import { safeJsonParse } from '../../utils/helpers.js';
+import { getDb } from '../index.js';
+import { managedPies, pieSnapshots } from '../schema.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Target share of the pie per Trading212 ticker; shares sum to 1. */
+export type InstrumentShares = Record<string, number>;
+
+export interface ManagedPie {
+  id: number;
+  accountType: 'INVEST' | 'ISA';
+  pieId: number;
+  name: string;
+  method: string;
+  instrumentShares: InstrumentShares;
+  goal: number | null;
+  createdAt: string;
+  rebalancedAt: string;
+  /** Last time the allocation was recomputed, including checks that left it unchanged */
+  checkedAt: string | null;
+}
+
+export interface ManagedPieUpsert {
+  accountType: 'INVEST' | 'ISA';
+  pieId: number;
+  name: string;
+  method: string;
+  instrumentShares: InstrumentShares;
+  goal?: number | null;
+}
+
+export interface PieSnapshotInsert {
+  accountType: 'INVEST' | 'ISA';
+  pieId: number;
+  value: number | null;
+  invested: number | null;
+  result: number | null;
+  returnPct: number | null;
+  cash: number | null;
+  progress: number | null;
+  drift: number;
+  currentShares: InstrumentShares;
+}
+
+export interface PieSnapshot extends PieSnapshotInsert {
+  id: number;
+  timestamp: string;
+}
+
+// ── Repository functions ───────────────────────────────────────────────────
+
+export function getManagedPie(accountType: 'INVEST' | 'ISA'): ManagedPie | null {
+  const db = getDb();
+  const row = db.select().from(managedPies).where(eq(managedPies.accountType, accountType)).get();
+  if (!row) return null;
+  return { ...row, instrumentShares: safeJsonParse<InstrumentShares>(row.instrumentShares, {}) };
+}
+
+/** Record the account's pie after it was created or its shares were rewritten. */
+export function saveManagedPie(pie: ManagedPieUpsert): void {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const values = {
+    pieId: pie.pieId,
+    name: pie.name,
+    method: pie.method,
+    instrumentShares: JSON.stringify(pie.instrumentShares),
+    goal: pie.goal ?? null,
+    rebalancedAt: now,
+    checkedAt: now,
+  };
+
+  db.insert(managedPies)
+    .values({ accountType: pie.accountType, ...values, createdAt: now })
+    .onConflictDoUpdate({ target: managedPies.accountType, set: values })
+    .run();
+}
+
+/** Note a recomputation that left the pie's shares as they were. */
+export function markManagedPieChecked(accountType: 'INVEST' | 'ISA'): void {
+  const db = getDb();
+  db.update(managedPies)
+    .set({ checkedAt: new Date().toISOString() })
+    .where(eq(managedPies.accountType, accountType))
+    .run();
+}
+
+export function deleteManagedPie(accountType: 'INVEST' | 'ISA'): void {
+  const db = getDb();
+  db.delete(managedPies).where(eq(managedPies.accountType, accountType)).run();
+}
+
+export function insertPieSnapshot(snapshot: PieSnapshotInsert): PieSnapshot {
+  const db = getDb();
+  const row = db
+    .insert(pieSnapshots)
+    .values({
+      ...snapshot,
+      currentShares: JSON.stringify(snapshot.currentShares),
+      timestamp: new Date().toISOString(),
+    })
+    .returning()
+    .get();
+  return { ...row, currentShares: snapshot.currentShares };
+}
+
+/** Snapshots of a pie since `from`, oldest first. */
+export function getPieSnapshots(pieId: number, from?: string): PieSnapshot[] {
+  const db = getDb();
+  const conditions = [eq(pieSnapshots.pieId, pieId)];
+  if (from) conditions.push(gte(pieSnapshots.timestamp, from));
+
+  return db
+    .select()
+    .from(pieSnapshots)
+    .where(and(...conditions))
+    .orderBy(pieSnapshots.timestamp)
+    .all()
+    .map((row) => ({
+      ...row,
+      currentShares: safeJsonParse<InstrumentShares>(row.currentShares, {}),
+    }));
+}
@@ -8,6 +8,7 @@ export interface TaxLotInsert {
   costBasis: number;
   purchaseDate: string;
   accountType: 'INVEST' | 'ISA';
+  origin?: 'bot' | 'manual';
 }
 
 export interface TaxLotClose {
@@ -28,6 +29,8 @@ export interface TaxLot {
   pnl: number | null;
   holdingPeriod: 'short' | 'long' | null;
   accountType: 'INVEST' | 'ISA';
+  dividendIncome?: number | null;
+  origin?: 'bot' | 'manual';
   createdAt: string;
 }
 
@@ -155,3 +158,13 @@ export async function getYearSummary(year: number): Promise<YearSummary> {
 
   return summary;
 }
+
+/** Credit a share of a dividend to a lot. */
+export async function addLotDividendIncome(id: number, amount: number): Promise<void> {
+  const db = getDb();
+
+  db.update(taxLots)
+    .set({ dividendIncome: sql`COALESCE(${taxLots.dividendIncome}, 0) + ${amount}` })
+    .where(eq(taxLots.id, id))
+    .run();
+}
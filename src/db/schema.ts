@@ -1,4 +1,4 @@
-import { index, integer, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { index, integer, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export const trades = sqliteTable(
   'trades',
@@ -26,6 +26,22 @@ export const trades = sqliteTable(
     dcaRound: integer('dcaRound'),
     journalNotes: text('journalNotes'),
     journalTags: text('journalTags'), // JSON array
+    // Multi-currency accounting; null means the instrument trades in account currency
+    currency: text('currency'),
+    accountCurrency: text('accountCurrency'),
+    entryFxRate: real('entryFxRate'), // account currency per quote unit
+    exitFxRate: real('exitFxRate'),
+    pricePnl: real('pricePnl'),
+    fxPnl: real('fxPnl'),
+    // 'bot' for orders this bot placed, 'manual' for ones placed in the Trading212 app
+    origin: text('origin', { enum: ['bot', 'manual'] })
+      .notNull()
+      .default('bot'),
+    // SHORT trades open with a SELL and close with a BUY
+    direction: text('direction', { enum: ['LONG', 'SHORT'] })
+      .notNull()
+      .default('LONG'),
+    financingCost: real('financingCost'), // borrow and overnight fees, already deducted from pnl
     createdAt: text('createdAt').default('CURRENT_TIMESTAMP'),
   },
   (table) => [
@@ -79,31 +95,52 @@ export const signals = sqliteTable('signals', {
   suggestedTakeProfitPct: real('suggestedTakeProfitPct'),
   extraIndicators: text('extraIndicators'),
   newsHeadlines: text('newsHeadlines'),
+  aiDisagreement: real('aiDisagreement'), // share of the ensemble vote against the decision
+  aiVotes: text('aiVotes'), // JSON: each ensemble member's own decision
+  aiToolTrace: text('aiToolTrace'), // JSON: tool calls made before deciding, in agentic mode
 });
 
-export const positions = sqliteTable('positions', {
-  id: integer('id').primaryKey({ autoIncrement: true }),
-  symbol: text('symbol').notNull().unique(),
-  t212Ticker: text('t212Ticker').notNull(),
-  shares: real('shares').notNull(),
-  entryPrice: real('entryPrice').notNull(),
-  entryTime: text('entryTime').notNull(),
-  currentPrice: real('currentPrice'),
-  pnl: real('pnl'),
-  pnlPct: real('pnlPct'),
-  stopLoss: real('stopLoss'),
-  trailingStop: real('trailingStop'),
-  takeProfit: real('takeProfit'),
-  convictionScore: real('convictionScore'),
-  stopOrderId: text('stopOrderId'),
-  takeProfitOrderId: text('takeProfitOrderId'),
-  aiExitConditions: text('aiExitConditions'),
-  accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
-  dcaCount: integer('dcaCount').default(0),
-  totalInvested: real('totalInvested'),
-  partialExitCount: integer('partialExitCount').default(0),
-  updatedAt: text('updatedAt'),
-});
+export const positions = sqliteTable(
+  'positions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    symbol: text('symbol').notNull(),
+    t212Ticker: text('t212Ticker').notNull(),
+    shares: real('shares').notNull(),
+    entryPrice: real('entryPrice').notNull(),
+    entryTime: text('entryTime').notNull(),
+    currentPrice: real('currentPrice'),
+    pnl: real('pnl'),
+    pnlPct: real('pnlPct'),
+    stopLoss: real('stopLoss'),
+    trailingStop: real('trailingStop'),
+    takeProfit: real('takeProfit'),
+    convictionScore: real('convictionScore'),
+    stopOrderId: text('stopOrderId'),
+    takeProfitOrderId: text('takeProfitOrderId'),
+    aiExitConditions: text('aiExitConditions'),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    dcaCount: integer('dcaCount').default(0),
+    totalInvested: real('totalInvested'),
+    partialExitCount: integer('partialExitCount').default(0),
+    // Prices and pnlPct stay in the quote currency; pnl is in account currency
+    currency: text('currency'),
+    accountCurrency: text('accountCurrency'),
+    entryFxRate: real('entryFxRate'), // account currency per quote unit
+    currentFxRate: real('currentFxRate'),
+    pricePnl: real('pricePnl'),
+    fxPnl: real('fxPnl'),
+    dividendIncome: real('dividendIncome'), // account currency, credited by dividend sync
+    direction: text('direction', { enum: ['LONG', 'SHORT'] })
+      .notNull()
+      .default('LONG'),
+    financingCost: real('financingCost'), // account currency, accrued daily on shorts
+    financingAccruedAt: text('financingAccruedAt'),
+    updatedAt: text('updatedAt'),
+  },
+  // One row per symbol in each account
+  (table) => [uniqueIndex('idx_positions_symbol_account').on(table.symbol, table.accountType)],
+);
 
 export const priceCache = sqliteTable(
   'price_cache',
@@ -239,6 +276,10 @@ export const tradePlans = sqliteTable(
       .notNull()
       .default('pending'),
     side: text('side', { enum: ['BUY', 'SELL'] }).notNull(),
+    // With SHORT, a SELL plan opens the position and a BUY plan covers it
+    direction: text('direction', { enum: ['LONG', 'SHORT'] })
+      .notNull()
+      .default('LONG'),
     entryPrice: real('entryPrice').notNull(),
     shares: integer('shares').notNull(),
     positionValue: real('positionValue').notNull(),
@@ -346,9 +387,13 @@ export const orders = sqliteTable(
     stopPrice: real('stopPrice'), // trigger price for stop orders
     t212OrderId: text('t212OrderId'), // exchange order ID
     cancelReason: text('cancelReason'),
-    orderTag: text('orderTag'), // 'entry', 'exit', 'dca', 'stoploss', 'take_profit', 'partial_exit'
+    orderTag: text('orderTag'), // 'entry', 'exit', 'dca', 'dividend_reinvest', 'stoploss', 'take_profit', 'partial_exit'
     replacedByOrderId: integer('replacedByOrderId'), // FK to orders.id (for order replacement chain)
     accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    t212Ticker: text('t212Ticker'), // set on imported orders, which have no position to look it up
+    origin: text('origin', { enum: ['bot', 'manual'] })
+      .notNull()
+      .default('bot'),
     createdAt: text('createdAt').notNull(),
     updatedAt: text('updatedAt'),
     filledAt: text('filledAt'),
@@ -389,6 +434,10 @@ export const taxLots = sqliteTable(
     pnl: real('pnl'),
     holdingPeriod: text('holdingPeriod', { enum: ['short', 'long'] }),
     accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    dividendIncome: real('dividendIncome'), // share of dividends paid while the lot was open
+    origin: text('origin', { enum: ['bot', 'manual'] })
+      .notNull()
+      .default('bot'),
     createdAt: text('createdAt').notNull(),
   },
   (table) => [index('idx_tax_lots_symbol').on(table.symbol, table.saleDate)],
@@ -475,3 +524,264 @@ export const auditLog = sqliteTable(
   },
   (table) => [index('idx_audit_ts').on(table.timestamp, table.eventType)],
 );
+
+// ── Backtest Optimisation Runs (hyperopt) ───────────────────────────────
+export const optimizationRuns = sqliteTable(
+  'optimization_runs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    method: text('method', { enum: ['grid', 'random'] }).notNull(),
+    objective: text('objective').notNull(), // 'sharpe' | 'calmar' | 'sqn' | 'profitFactor'
+    symbols: text('symbols').notNull(), // JSON array
+    startDate: text('startDate').notNull(),
+    endDate: text('endDate').notNull(),
+    baseConfig: text('baseConfig').notNull(), // JSON BacktestConfig
+    parameterSpace: text('parameterSpace').notNull(), // JSON ParameterSpace
+    trials: text('trials').notNull(), // JSON OptimizationTrial[]
+    windows: text('windows'), // JSON WalkForwardWindow[] (walk-forward runs only)
+    bestParams: text('bestParams'), // JSON OptimizationParams
+    bestScore: real('bestScore'),
+    exportedProfile: text('exportedProfile'), // strategy profile name, once exported
+    createdAt: text('createdAt').notNull(),
+  },
+  (table) => [index('idx_optimization_runs_created').on(table.createdAt)],
+);
+
+// ── Candle Store (persistent OHLCV history) ─────────────────────────────
+export const candles = sqliteTable(
+  'candles',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    symbol: text('symbol').notNull(),
+    timeframe: text('timeframe').notNull().default('1d'), // '1d' | '1h' | '15m' | '5m' | '1m'
+    timestamp: text('timestamp').notNull(), // YYYY-MM-DD for daily bars, ISO-8601 for intraday
+    open: real('open').notNull(),
+    high: real('high').notNull(),
+    low: real('low').notNull(),
+    close: real('close').notNull(),
+    volume: real('volume').notNull().default(0),
+    adjClose: real('adjClose'), // split + dividend adjusted close, when the source provides it
+    splitAdjusted: integer('splitAdjusted', { mode: 'boolean' }).notNull().default(false),
+    dividendAdjusted: integer('dividendAdjusted', { mode: 'boolean' }).notNull().default(false),
+    source: text('source').notNull(), // 'yahoo' | 'import'
+    updatedAt: text('updatedAt').notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_candles_symbol_tf_ts').on(table.symbol, table.timeframe, table.timestamp),
+  ],
+);
+
+// Earliest history the source was asked for, so later IPOs are not refetched on every load
+export const candleBackfills = sqliteTable(
+  'candle_backfills',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    symbol: text('symbol').notNull(),
+    timeframe: text('timeframe').notNull().default('1d'),
+    requestedFrom: text('requestedFrom').notNull(), // YYYY-MM-DD the backfill asked for
+    firstAvailable: text('firstAvailable'), // first bar the source returned, null if none
+    updatedAt: text('updatedAt').notNull(),
+  },
+  (table) => [uniqueIndex('idx_candle_backfills_symbol_tf').on(table.symbol, table.timeframe)],
+);
+
+// ── Backtest Runs (persisted results for comparison and export) ─────────
+export const backtestRuns = sqliteTable(
+  'backtest_runs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    label: text('label'),
+    configHash: text('configHash').notNull(), // sha256 prefix of the canonical BacktestConfig
+    codeVersion: text('codeVersion').notNull(), // package version + git commit
+    mode: text('mode').notNull(), // 'technical' | 'pipeline'
+    symbols: text('symbols').notNull(), // JSON array
+    startDate: text('startDate').notNull(), // requested range
+    endDate: text('endDate').notNull(),
+    dataStart: text('dataStart'), // first and last trading day actually simulated
+    dataEnd: text('dataEnd'),
+    config: text('config').notNull(), // JSON BacktestConfig
+    metrics: text('metrics').notNull(), // JSON BacktestMetrics
+    result: text('result').notNull(), // JSON BacktestResult
+    createdAt: text('createdAt').notNull(),
+  },
+  (table) => [
+    index('idx_backtest_runs_created').on(table.createdAt),
+    index('idx_backtest_runs_hash').on(table.configHash),
+  ],
+);
+
+// ── Dividends (synced from Trading212 dividend history) ─────────────────
+export const dividends = sqliteTable(
+  'dividends',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    reference: text('reference').notNull(), // Trading212 reference, or a key derived from the event
+    symbol: text('symbol').notNull(),
+    t212Ticker: text('t212Ticker').notNull(),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    paidOn: text('paidOn').notNull(),
+    amount: real('amount').notNull(), // net amount credited, in account currency
+    quantity: real('quantity').notNull(), // shares the dividend was paid on
+    grossAmountPerShare: real('grossAmountPerShare'), // in the instrument's currency
+    currency: text('currency'),
+    type: text('type'),
+    positionId: integer('positionId'), // open position credited, if any
+    reinvestedAt: text('reinvestedAt'),
+    createdAt: text('createdAt').notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_dividends_ref').on(table.accountType, table.reference),
+    index('idx_dividends_symbol').on(table.symbol, table.paidOn),
+  ],
+);
+
+// ── Order intents (write-ahead log of broker orders) ────────────────────
+export const orderIntents = sqliteTable(
+  'order_intents',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    localOrderId: integer('localOrderId'), // FK to orders.id
+    symbol: text('symbol').notNull(),
+    t212Ticker: text('t212Ticker').notNull(),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    side: text('side', { enum: ['BUY', 'SELL'] }).notNull(),
+    orderType: text('orderType', { enum: ['market', 'limit', 'stop'] }).notNull(),
+    purpose: text('purpose').notNull(), // order tag: 'entry', 'exit', 'dca', 'stoploss', ...
+    quantity: real('quantity').notNull(),
+    price: real('price'), // intended price, or the limit/stop level
+    context: text('context'), // JSON: what is needed to rebuild the local records
+    // 'pending' (broker not reached yet), 'submitted' (broker accepted, local records not written),
+    // 'completed', 'failed', 'reconciled' (resolved by the startup pass)
+    status: text('status', {
+      enum: ['pending', 'submitted', 'completed', 'failed', 'reconciled'],
+    })
+      .notNull()
+      .default('pending'),
+    t212OrderId: text('t212OrderId'),
+    resolution: text('resolution'),
+    createdAt: text('createdAt').notNull(),
+    updatedAt: text('updatedAt'),
+  },
+  (table) => [index('idx_order_intents_status').on(table.status, table.accountType)],
+);
+
+// ── Account transactions (deposits, withdrawals, fees, interest) ────────
+export const accountTransactions = sqliteTable(
+  'account_transactions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    reference: text('reference').notNull(), // Trading212 reference, or a key derived from the event
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    type: text('type').notNull(), // 'DEPOSIT', 'WITHDRAW', 'FEE', 'INTEREST', ...
+    amount: real('amount').notNull(), // signed, in account currency
+    currency: text('currency'),
+    dateTime: text('dateTime').notNull(),
+    createdAt: text('createdAt').notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_account_transactions_ref').on(table.accountType, table.reference),
+    index('idx_account_transactions_time').on(table.dateTime),
+  ],
+);
+
+// ── History imports (resumable backfill progress per account and source) ─
+export const historyImports = sqliteTable(
+  'history_imports',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    source: text('source', { enum: ['orders', 'transactions'] }).notNull(),
+    // 'running' while pages remain (resume from cursor), 'completed' once history is exhausted
+    status: text('status', { enum: ['running', 'completed'] }).notNull(),
+    cursor: integer('cursor'), // next page to fetch
+    newestSeen: text('newestSeen'), // newest item of the current pass; the next pass stops there
+    stopAt: text('stopAt'), // newest item of the previous pass; this pass stops there
+    pages: integer('pages').notNull().default(0),
+    imported: integer('imported').notNull().default(0),
+    startedAt: text('startedAt').notNull(),
+    updatedAt: text('updatedAt'),
+    completedAt: text('completedAt'),
+  },
+  (table) => [uniqueIndex('idx_history_imports_source').on(table.accountType, table.source)],
+);
+
+// ── Managed pies (bot-owned Trading212 Pie per account) ─────────────────
+export const managedPies = sqliteTable(
+  'managed_pies',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    pieId: integer('pieId').notNull(), // Trading212 pie ID
+    name: text('name').notNull(),
+    method: text('method').notNull(), // allocation method that produced the shares
+    instrumentShares: text('instrumentShares').notNull(), // JSON: { t212Ticker: share }
+    goal: real('goal'),
+    createdAt: text('createdAt').notNull(),
+    rebalancedAt: text('rebalancedAt').notNull(), // last time the shares were written
+    checkedAt: text('checkedAt'), // last recomputation, changed or not
+  },
+  (table) => [uniqueIndex('idx_managed_pies_account').on(table.accountType)],
+);
+
+// ── Pie snapshots (value, return and drift of a managed pie over time) ──
+export const pieSnapshots = sqliteTable(
+  'pie_snapshots',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    accountType: text('accountType', { enum: ['INVEST', 'ISA'] }).notNull(),
+    pieId: integer('pieId').notNull(),
+    timestamp: text('timestamp').notNull(),
+    value: real('value'),
+    invested: real('invested'),
+    result: real('result'), // value - invested
+    returnPct: real('returnPct'),
+    cash: real('cash'),
+    progress: real('progress'), // towards the goal, 0..1
+    drift: real('drift').notNull(), // half the summed |current - target| share gaps
+    currentShares: text('currentShares').notNull(), // JSON: { t212Ticker: share }
+  },
+  (table) => [index('idx_pie_snapshots_pie').on(table.pieId, table.timestamp)],
+);
+
+// ── AI cassette (recorded model responses for offline replay) ───────────
+export const aiCassette = sqliteTable(
+  'ai_cassette',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    key: text('key').notNull(), // hash of provider, model, params and prompt
+    promptHash: text('promptHash').notNull(), // hash of the prompt alone
+    provider: text('provider').notNull(),
+    model: text('model').notNull(),
+    params: text('params').notNull(), // JSON: temperature, max tokens, ...
+    label: text('label'), // what the call was about, e.g. the analysed symbol
+    response: text('response').notNull(), // raw model output, before parsing
+    recordedAt: text('recordedAt').notNull(),
+    replays: integer('replays').notNull().default(0),
+    lastReplayedAt: text('lastReplayedAt'),
+  },
+  (table) => [
+    uniqueIndex('idx_ai_cassette_key').on(table.key),
+    index('idx_ai_cassette_label').on(table.label, table.model),
+  ],
+);
+
+export const aiUsage = sqliteTable(
+  'ai_usage',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    timestamp: text('timestamp').notNull(),
+    provider: text('provider').notNull(),
+    model: text('model').notNull(),
+    job: text('job').notNull(), // analysis | reevaluation | research | chat
+    symbol: text('symbol'),
+    inputTokens: integer('inputTokens').notNull().default(0),
+    outputTokens: integer('outputTokens').notNull().default(0),
+    latencyMs: integer('latencyMs').notNull(),
+    cost: real('cost').notNull().default(0), // USD, estimated from ai.pricing
+    success: integer('success', { mode: 'boolean' }).notNull().default(true),
+  },
+  (table) => [
+    index('idx_ai_usage_ts').on(table.timestamp),
+    index('idx_ai_usage_symbol').on(table.symbol, table.job),
+  ],
+);
@@ -0,0 +1,124 @@
+import type { Trading212Api } from '../api/trading212/client.js';
+import { configManager } from '../config/manager.js';
+import { getStrategyProfileManager } from '../config/strategy-profiles.js';
+import { createLogger } from '../utils/logger.js';
+import { OrderManager } from './order-manager.js';
+import { OrderReplacer } from './order-replacer.js';
+import { OrderSynchronizer } from './order-sync.js';
+import { ProtectiveStops } from './protective-stops.js';
+import { RiskGuard } from './risk-guard.js';
+
+const log = createLogger('accounts');
+
+export type AccountType = 'INVEST' | 'ISA';
+
+export interface AccountDefinition {
+  accountType: AccountType;
+  /** Environment variable holding the account's API key */
+  apiKeyEnv?: string;
+  /** Strategy profile applied to this account only */
+  strategyProfile?: string;
+  /** Config values for this account only, applied on top of the profile */
+  overrides?: Record<string, unknown>;
+}
+
+/**
+ * Accounts to trade, in priority order. An empty `t212.accounts` keeps the
+ * single-account setup: `t212.accountType` with TRADING212_API_KEY.
+ */
+export function getAccountDefinitions(): AccountDefinition[] {
+  const configured = configManager.get<AccountDefinition[] | null>('t212.accounts') ?? [];
+  if (configured.length > 0) return configured;
+
+  return [
+    {
+      accountType: configManager.get<AccountType>('t212.accountType'),
+      apiKeyEnv: 'TRADING212_API_KEY',
+    },
+  ];
+}
+
+export function getApiKeyEnv(definition: AccountDefinition): string {
+  return definition.apiKeyEnv ?? `TRADING212_${definition.accountType}_API_KEY`;
+}
+
+/**
+ * Config layered over the global values for one account: the strategy
+ * profile, then explicit overrides, then the account type itself so code that
+ * reads `t212.accountType` tags rows with the right account.
+ */
+export function resolveAccountOverrides(definition: AccountDefinition): Record<string, unknown> {
+  let profileConfig: Record<string, unknown> = {};
+  if (definition.strategyProfile) {
+    try {
+      profileConfig = getStrategyProfileManager().getProfileConfig(definition.strategyProfile);
+    } catch (err) {
+      log.error(
+        { accountType: definition.accountType, profile: definition.strategyProfile, err },
+        'Account strategy profile unavailable — using global config',
+      );
+    }
+  }
+
+  return {
+    ...profileConfig,
+    ...definition.overrides,
+    't212.accountType': definition.accountType,
+  };
+}
+
+/**
+ * One Trading212 account and the execution state that belongs to it: its own
+ * client, order manager, risk guard, order replacer and sync, broker stops,
+ * loss cool-down and cached cash. Analysis is shared; everything that spends
+ * or protects money is not.
+ */
+export class TradingAccount {
+  readonly accountType: AccountType;
+  readonly strategyProfile: string | null;
+  readonly client: Trading212Api;
+  readonly orderManager: OrderManager;
+  readonly riskGuard: RiskGuard;
+  readonly orderReplacer: OrderReplacer;
+  readonly orderSync: OrderSynchronizer;
+  readonly protectiveStops: ProtectiveStops;
+  /**
+   * Account filter for DB rows. Undefined when this is the only account, which
+   * then owns every row regardless of how it was tagged.
+   */
+  readonly scope: AccountType | undefined;
+
+  lossCooldownUntil: Date | null = null;
+  lastKnownPortfolio: { cash: number; value: number; timestamp: string } | null = null;
+  peakValue = 0;
+
+  private readonly overrides: Record<string, unknown>;
+
+  constructor(definition: AccountDefinition, client: Trading212Api, scoped = true) {
+    this.accountType = definition.accountType;
+    this.strategyProfile = definition.strategyProfile ?? null;
+    this.client = client;
+    this.scope = scoped ? definition.accountType : undefined;
+    this.overrides = resolveAccountOverrides(definition);
+
+    this.orderManager = new OrderManager(this.scope);
+    this.orderManager.setT212Client(client);
+    this.riskGuard = new RiskGuard({ accountType: this.scope });
+    this.orderReplacer = new OrderReplacer(client, this.scope);
+    this.orderSync = new OrderSynchronizer(client, this.scope);
+    this.protectiveStops = new ProtectiveStops(client, this.scope);
+  }
+
+  /** Run synchronous code (risk checks, planning) against this account's config. */
+  withConfig<T>(fn: () => T): T {
+    return configManager.withOverrides(this.overrides, fn);
+  }
+
+  get<T>(key: string): T {
+    return this.withConfig(() => configManager.get<T>(key));
+  }
+
+  isInCooldown(now = new Date()): boolean {
+    return this.lossCooldownUntil != null && now < this.lossCooldownUntil;
+  }
+}
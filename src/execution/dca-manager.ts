@@ -1,11 +1,20 @@
-import { eq } from 'drizzle-orm';
-import type { Trading212Client } from '../api/trading212/client.js';
+import { and, eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { isBrokerRejection } from '../api/trading212/errors.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../db/repositories/order-intents.js';
 import { createOrder, updateOrderStatus } from '../db/repositories/orders.js';
 import { positions, trades } from '../db/schema.js';
+import { currentTimeMs } from '../utils/clock.js';
 import { sleep } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
+import { fillsLocally } from './order-manager.js';
 
 const log = createLogger('dca-manager');
 
@@ -30,6 +39,9 @@ export interface Position {
   totalInvested: number | null;
 }
 
+/** Why a top-up buy is placed; only 'dca' advances the position's DCA round. */
+export type DCAPurpose = 'dca' | 'dividend_reinvest';
+
 export class DCAManager {
   /**
    * Evaluate whether a position should trigger a DCA buy.
@@ -82,7 +94,7 @@ export class DCAManager {
 
     if (lastTrade) {
       const lastTradeTime = new Date(lastTrade.entryTime).getTime();
-      const now = Date.now();
+      const now = currentTimeMs();
       const minutesSince = (now - lastTradeTime) / (1000 * 60);
 
       if (minutesSince < minTimeBetweenMinutes) {
@@ -149,7 +161,9 @@ export class DCAManager {
   }
 
   /**
-   * Execute a DCA buy order and update position accordingly.
+   * Execute a DCA buy order and update position accordingly. Dividend
+   * reinvestment buys go through the same path but are tagged separately and
+   * do not count as a DCA round.
    */
   async executeDCA(
     symbol: string,
@@ -157,18 +171,27 @@ export class DCAManager {
     shares: number,
     price: number,
     accountType: 'INVEST' | 'ISA',
-    t212Client?: Trading212Client,
+    t212Client?: Trading212Api,
+    purpose: DCAPurpose = 'dca',
   ): Promise<{ success: boolean; error?: string }> {
-    const dryRun = configManager.get<boolean>('execution.dryRun');
+    const dryRun = fillsLocally();
     const db = getDb();
 
-    const position = db.select().from(positions).where(eq(positions.symbol, symbol)).get();
+    const position = db
+      .select()
+      .from(positions)
+      .where(and(eq(positions.symbol, symbol), eq(positions.accountType, accountType)))
+      .get();
     if (!position) {
       return { success: false, error: `No position found for ${symbol}` };
     }
 
     const now = new Date().toISOString();
+    const isDCA = purpose === 'dca';
     const dcaRound = (position.dcaCount ?? 0) + 1;
+    const dcaCount = isDCA ? dcaRound : (position.dcaCount ?? 0);
+    const tradeRound = isDCA ? dcaRound : null;
+    const reasoning = isDCA ? `DCA round ${dcaRound}` : 'Dividend reinvestment';
     const dcaInvestment = shares * price;
 
     if (dryRun) {
@@ -179,7 +202,7 @@ export class DCAManager {
         orderType: 'market',
         requestedQuantity: shares,
         requestedPrice: price,
-        orderTag: 'dca',
+        orderTag: purpose,
         accountType,
       });
 
@@ -194,7 +217,8 @@ export class DCAManager {
       log.info(
         {
           symbol,
-          dcaRound,
+          purpose,
+          dcaRound: tradeRound,
           shares,
           price,
           oldAvgPrice: position.entryPrice,
@@ -215,12 +239,12 @@ export class DCAManager {
             shares,
             entryPrice: price,
             entryTime: now,
-            aiReasoning: `DCA round ${dcaRound}`,
+            aiReasoning: reasoning,
             convictionScore: 0,
             intendedPrice: price,
             slippage: 0,
             accountType,
-            dcaRound,
+            dcaRound: tradeRound,
           })
           .run();
 
@@ -229,14 +253,14 @@ export class DCAManager {
           .set({
             shares: totalShares,
             entryPrice: newAvgPrice,
-            dcaCount: dcaRound,
+            dcaCount,
             totalInvested,
             currentPrice: price,
             pnl: (price - newAvgPrice) * totalShares,
             pnlPct: (price - newAvgPrice) / newAvgPrice,
             updatedAt: now,
           })
-          .where(eq(positions.symbol, symbol))
+          .where(eq(positions.id, position.id))
           .run();
       });
 
@@ -263,9 +287,21 @@ export class DCAManager {
       orderType: 'market',
       requestedQuantity: shares,
       requestedPrice: price,
-      orderTag: 'dca',
+      orderTag: purpose,
       accountType,
     });
+    const intentId = recordIntent({
+      localOrderId,
+      symbol,
+      t212Ticker,
+      accountType,
+      side: 'BUY',
+      orderType: 'market',
+      purpose,
+      quantity: shares,
+      price,
+      context: { aiReasoning: reasoning },
+    });
 
     try {
       // Place market buy
@@ -274,8 +310,12 @@ export class DCAManager {
         quantity: shares,
         timeValidity: 'DAY',
       });
+      markIntentSubmitted(intentId, String(order.id));
 
-      log.info({ symbol, orderId: order.id, dcaRound }, 'DCA buy order placed');
+      log.info(
+        { symbol, orderId: order.id, purpose, dcaRound: tradeRound },
+        'DCA buy order placed',
+      );
 
       updateOrderStatus(localOrderId, {
         status: 'open',
@@ -317,12 +357,12 @@ export class DCAManager {
             shares,
             entryPrice: fillPrice,
             entryTime: now,
-            aiReasoning: `DCA round ${dcaRound}`,
+            aiReasoning: reasoning,
             convictionScore: 0,
             intendedPrice: price,
             slippage: buySlippage,
             accountType,
-            dcaRound,
+            dcaRound: tradeRound,
           })
           .run();
 
@@ -331,21 +371,24 @@ export class DCAManager {
           .set({
             shares: totalShares,
             entryPrice: newAvgPrice,
-            dcaCount: dcaRound,
+            dcaCount,
             totalInvested,
             currentPrice: fillPrice,
             pnl: (fillPrice - newAvgPrice) * totalShares,
             pnlPct: (fillPrice - newAvgPrice) / newAvgPrice,
             updatedAt: now,
           })
-          .where(eq(positions.symbol, symbol))
+          .where(eq(positions.id, position.id))
           .run();
+
+        completeIntent(intentId);
       });
 
       log.info(
         {
           symbol,
-          dcaRound,
+          purpose,
+          dcaRound: tradeRound,
           fillPrice,
           shares,
           newAvgPrice,
@@ -360,6 +403,9 @@ export class DCAManager {
         status: 'failed',
         cancelReason: err instanceof Error ? err.message : String(err),
       });
+      if (isBrokerRejection(err)) {
+        abandonIntent(intentId, err instanceof Error ? err.message : String(err));
+      }
       log.error({ symbol, err }, 'Failed to execute DCA buy');
       return {
         success: false,
@@ -368,7 +414,7 @@ export class DCAManager {
     }
   }
 
-  private async waitForFill(client: Trading212Client, orderId: number): Promise<number | null> {
+  private async waitForFill(client: Trading212Api, orderId: number): Promise<number | null> {
     const timeoutSecs = configManager.get<number>('execution.orderTimeoutSeconds');
     const maxAttempts = timeoutSecs * 2; // Poll every 500ms
 
@@ -0,0 +1,206 @@
+import { and, eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import type { Dividend } from '../api/trading212/types.js';
+import { getDb } from '../db/index.js';
+import {
+  type DividendRecord,
+  getUnreinvestedDividends,
+  insertDividend,
+  markReinvested,
+} from '../db/repositories/dividends.js';
+import { addLotDividendIncome, getLotsBySymbol } from '../db/repositories/tax-lots.js';
+import { positions } from '../db/schema.js';
+import { currentFxRate } from '../utils/currency.js';
+import { exchangeForTicker, isExchangeOpen, symbolForTicker } from '../utils/exchanges.js';
+import { parseNextCursor } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import { getDCAManager } from './dca-manager.js';
+
+const log = createLogger('dividend-manager');
+
+const PAGE_SIZE = 50;
+/** Safety cap on history pages read in one sync; the first sync walks the full history. */
+const MAX_PAGES = 100;
+
+/** 'cash' leaves dividends in free cash for the next entry; 'reinvest' tops up the payer. */
+export type DividendPolicy = 'cash' | 'reinvest';
+
+/**
+ * Imports dividend payments from Trading212 and credits each one to the
+ * position and tax lots that earned it. Amounts are in account currency, net
+ * of withholding, as Trading212 reports them.
+ */
+export class DividendManager {
+  /**
+   * Page through the account's dividend history, newest first, until a page
+   * contains an already-recorded payment. Returns the newly recorded ones.
+   * `scope` restricts position matching to one account's rows.
+   */
+  async sync(
+    client: Trading212Api,
+    accountType: AccountType,
+    scope?: AccountType,
+  ): Promise<DividendRecord[]> {
+    const imported: DividendRecord[] = [];
+    let cursor: number | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const { items, nextPagePath } = await client.getDividends({ cursor, limit: PAGE_SIZE });
+
+      let reachedKnown = false;
+      for (const item of items) {
+        const record = await this.recordDividend(item, accountType, scope);
+        if (record) {
+          imported.push(record);
+        } else {
+          reachedKnown = true;
+        }
+      }
+
+      cursor = parseNextCursor(nextPagePath);
+      if (reachedKnown || cursor == null) break;
+    }
+
+    if (imported.length > 0) {
+      const total = imported.reduce((sum, d) => sum + d.amount, 0);
+      log.info({ accountType, count: imported.length, total }, 'Dividends imported');
+    }
+    return imported;
+  }
+
+  /**
+   * Record one payment and attribute it. Returns null when it was already
+   * recorded. Only a position opened before the payment date is credited, so
+   * a first sync over old history does not inflate a newer position.
+   */
+  async recordDividend(
+    item: Dividend,
+    accountType: AccountType,
+    scope?: AccountType,
+  ): Promise<DividendRecord | null> {
+    const db = getDb();
+    const paidAt = new Date(item.paidOn).getTime();
+
+    const position = db
+      .select()
+      .from(positions)
+      .where(
+        scope
+          ? and(eq(positions.t212Ticker, item.ticker), eq(positions.accountType, scope))
+          : eq(positions.t212Ticker, item.ticker),
+      )
+      .get();
+    const holder =
+      position && new Date(position.entryTime).getTime() <= paidAt ? position : undefined;
+
+    const symbol = position?.symbol ?? symbolForTicker(item.ticker) ?? item.ticker;
+    const record = insertDividend({
+      reference: item.reference ?? `${item.ticker}:${item.paidOn}:${item.amount}:${item.quantity}`,
+      symbol,
+      t212Ticker: item.ticker,
+      accountType,
+      paidOn: item.paidOn,
+      amount: item.amount,
+      quantity: item.quantity,
+      grossAmountPerShare: item.grossAmountPerShare,
+      currency: item.tickerCurrency ?? item.currency,
+      type: item.type,
+      positionId: holder?.id,
+    });
+    if (!record) return null;
+
+    if (holder) {
+      db.update(positions)
+        .set({ dividendIncome: (holder.dividendIncome ?? 0) + record.amount })
+        .where(eq(positions.id, holder.id))
+        .run();
+    }
+
+    await this.creditTaxLots(record, accountType);
+
+    log.debug(
+      { symbol, amount: record.amount, paidOn: record.paidOn, positionId: record.positionId },
+      'Dividend recorded',
+    );
+    return record;
+  }
+
+  /**
+   * Buy whole shares of each paying position with its un-reinvested
+   * dividends. Amounts too small for a share keep accumulating; whatever is
+   * left over after a buy stays in cash. Returns the number of shares bought.
+   */
+  async reinvest(client: Trading212Api | undefined, accountType: AccountType): Promise<number> {
+    const db = getDb();
+    const byPosition = new Map<number, DividendRecord[]>();
+    for (const dividend of getUnreinvestedDividends(accountType)) {
+      if (dividend.positionId == null) continue;
+      const group = byPosition.get(dividend.positionId) ?? [];
+      group.push(dividend);
+      byPosition.set(dividend.positionId, group);
+    }
+
+    let sharesBought = 0;
+    for (const [positionId, group] of byPosition) {
+      const position = db.select().from(positions).where(eq(positions.id, positionId)).get();
+      if (!position?.currentPrice) continue;
+
+      const exchange = exchangeForTicker(position.t212Ticker)?.code ?? 'US';
+      if (!isExchangeOpen(exchange)) continue;
+
+      const cash = group.reduce((sum, d) => sum + d.amount, 0);
+      const shares = Math.floor(cash / (position.currentPrice * currentFxRate(position)));
+      if (shares < 1) continue;
+
+      const result = await getDCAManager().executeDCA(
+        position.symbol,
+        position.t212Ticker,
+        shares,
+        position.currentPrice,
+        position.accountType,
+        client,
+        'dividend_reinvest',
+      );
+      if (!result.success) {
+        log.warn({ symbol: position.symbol, error: result.error }, 'Dividend reinvestment failed');
+        continue;
+      }
+
+      markReinvested(
+        group.map((d) => d.id),
+        new Date().toISOString(),
+      );
+      sharesBought += shares;
+      log.info({ symbol: position.symbol, shares, cash }, 'Dividends reinvested');
+    }
+
+    return sharesBought;
+  }
+
+  /** Split a payment across the lots held on the payment date, pro rata by shares. */
+  private async creditTaxLots(record: DividendRecord, accountType: AccountType): Promise<void> {
+    const paidAt = new Date(record.paidOn).getTime();
+    const lots = (await getLotsBySymbol(record.symbol)).filter(
+      (lot) =>
+        lot.accountType === accountType &&
+        new Date(lot.purchaseDate).getTime() <= paidAt &&
+        (lot.saleDate == null || new Date(lot.saleDate).getTime() >= paidAt),
+    );
+    const totalShares = lots.reduce((sum, lot) => sum + lot.shares, 0);
+    if (totalShares <= 0) return;
+
+    for (const lot of lots) {
+      await addLotDividendIncome(lot.id, (record.amount * lot.shares) / totalShares);
+    }
+  }
+}
+
+let instance: DividendManager | null = null;
+
+export function getDividendManager(): DividendManager {
+  if (!instance) {
+    instance = new DividendManager();
+  }
+  return instance;
+}
@@ -0,0 +1,115 @@
+import { configManager } from '../config/manager.js';
+import type { PriceUpdate } from '../data/price-streamer.js';
+import type { positions } from '../db/schema.js';
+import { createLogger } from '../utils/logger.js';
+import type { PositionTracker } from './position-tracker.js';
+
+const log = createLogger('exit-monitor');
+
+type PositionRow = typeof positions.$inferSelect;
+
+export interface PartialExitPlan {
+  shares: number;
+  reason: string;
+}
+
+export interface ExitHandlers {
+  /** Run `fn` under the config of the account holding the position */
+  withConfig: <T>(position: PositionRow, fn: () => T) => T;
+  /** Close the whole position */
+  close: (position: PositionRow, reason: string) => Promise<void>;
+  /** The partial-exit tier the position has reached, if any */
+  partialExitFor: (position: PositionRow) => PartialExitPlan | null;
+  /** Sell part of the position */
+  partialExit: (position: PositionRow, plan: PartialExitPlan) => Promise<void>;
+}
+
+/**
+ * Evaluates stops, targets, ROI, exit rules and partial exits on every
+ * streamed tick instead of waiting for the monitor cron. Each account can
+ * hold the symbol, so every position row is evaluated under its own
+ * account's config. A position is handled by one caller at a time — ticks
+ * and the cron pass share the lock — and once an exit order goes out it is
+ * left alone for `streaming.exitDebounceSeconds`, so a fill that has not
+ * landed yet cannot trigger a second close.
+ */
+export class ExitMonitor {
+  private busy = new Set<number>();
+  private settlingUntil = new Map<number, number>();
+
+  constructor(
+    private tracker: PositionTracker,
+    private handlers: ExitHandlers,
+  ) {}
+
+  async onTick(update: PriceUpdate): Promise<void> {
+    const { symbol, price } = update;
+    try {
+      const marked = await this.tracker.markPrice(symbol, price);
+      await Promise.all(marked.map((position) => this.evaluateTick(position, update)));
+    } catch (err) {
+      log.error({ symbol, err }, 'Tick revaluation failed');
+    }
+  }
+
+  /**
+   * Run an exit for `position` from outside the tick path (the cron safety
+   * net). Returns false without running it when an exit is already in
+   * flight or went out within the debounce window.
+   */
+  exit(position: PositionRow, run: () => Promise<void>): Promise<boolean> {
+    return this.runExclusive(position.id, async () => {
+      this.settle(position.id);
+      await run();
+    });
+  }
+
+  private async evaluateTick(marked: PositionRow, update: PriceUpdate): Promise<void> {
+    const { symbol, accountType } = marked;
+    try {
+      const ran = await this.runExclusive(marked.id, async () => {
+        const position = this.tracker.trailStop(marked);
+
+        const reason = this.handlers.withConfig(position, () =>
+          this.tracker.exitReason(position, update.previousPrice),
+        );
+        if (reason) {
+          log.info(
+            { symbol, accountType, price: update.price, reason },
+            'Exit triggered by price tick',
+          );
+          this.settle(position.id);
+          await this.handlers.close(position, reason);
+          return;
+        }
+
+        const partial = this.handlers.partialExitFor(position);
+        if (partial) {
+          this.settle(position.id);
+          await this.handlers.partialExit(position, partial);
+        }
+      });
+      if (!ran) log.debug({ symbol, accountType }, 'Tick skipped — exit in flight');
+    } catch (err) {
+      log.error({ symbol, accountType, err }, 'Tick exit evaluation failed');
+    }
+  }
+
+  private async runExclusive(positionId: number, run: () => Promise<void>): Promise<boolean> {
+    if (this.busy.has(positionId) || Date.now() < (this.settlingUntil.get(positionId) ?? 0)) {
+      return false;
+    }
+    this.busy.add(positionId);
+    try {
+      await run();
+      return true;
+    } finally {
+      this.busy.delete(positionId);
+    }
+  }
+
+  private settle(positionId: number): void {
+    const seconds = configManager.get<number>('streaming.exitDebounceSeconds') ?? 0;
+    this.settlingUntil.set(positionId, Date.now() + seconds * 1000);
+  }
+}
@@ -0,0 +1,596 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import type { HistoricalOrder, Transaction } from '../api/trading212/types.js';
+import { configManager } from '../config/manager.js';
+import { getDb } from '../db/index.js';
+import { insertAccountTransaction } from '../db/repositories/account-transactions.js';
+import {
+  getHistoryImport,
+  type HistoryImportSource,
+  saveHistoryImportProgress,
+  startHistoryImport,
+} from '../db/repositories/history-imports.js';
+import {
+  findFilledOrder,
+  getFilledOrdersWithoutTrade,
+  getOrderByT212Id,
+  insertFilledOrder,
+  type Order,
+} from '../db/repositories/orders.js';
+import { orders, taxLots, trades } from '../db/schema.js';
+import { holdingPeriod } from '../monitoring/tax-tracker.js';
+import { symbolForTicker } from '../utils/exchanges.js';
+import { parseNextCursor, sleep } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+
+const log = createLogger('history-importer');
+
+/** Order tag of orders recorded from the broker's history rather than placed by the bot */
+export const HISTORY_IMPORT_TAG = 'history_import';
+
+export type TradeOrigin = 'bot' | 'manual';
+
+const PAGE_SIZE = 50;
+/** Trading212 allows six history requests a minute per endpoint */
+const PAGE_DELAY_MS = 10_000;
+/** An imported fill this close to one already on record is the same fill */
+const FILL_MATCH_WINDOW_MS = 60_000;
+const EXPORT_POLL_MS = 60_000;
+const EXPORT_MAX_POLLS = 30;
+
+export interface ImportSummary {
+  accountType: AccountType;
+  orders: number;
+  transactions: number;
+  trades: number;
+  taxLots: number;
+  /** False while older history pages remain for a later pass */
+  complete: boolean;
+}
+
+interface ImportedFill {
+  t212OrderId: string;
+  symbol: string;
+  t212Ticker: string;
+  side: 'BUY' | 'SELL';
+  orderType: 'market' | 'limit' | 'stop';
+  quantity: number;
+  price: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  createdAt: string;
+  filledAt: string;
+  origin: TradeOrigin;
+}
+
+interface PageResult<T> {
+  items: T[];
+  nextPagePath?: string;
+}
+
+function toIso(value: string): string {
+  return new Date(value).toISOString();
+}
+
+function orderTypeOf(type: string | undefined): ImportedFill['orderType'] {
+  if (type === 'LIMIT') return 'limit';
+  if (type === 'STOP' || type === 'STOP_LIMIT') return 'stop';
+  return 'market';
+}
+
+/**
+ * A filled history order as a fill, or null for anything that did not
+ * fill. Trading212 signs quantities (negative for sells) and names the
+ * executor: orders not placed through the API came from the app.
+ */
+function fillFromHistory(order: HistoricalOrder): ImportedFill | null {
+  if (order.status !== 'FILLED' || order.id == null || !order.ticker) return null;
+
+  const signed = order.filledQuantity ?? order.orderedQuantity ?? 0;
+  const quantity = Math.abs(signed);
+  const price =
+    order.fillPrice ??
+    (order.filledValue != null && quantity ? order.filledValue / quantity : null);
+  const filledAt = order.dateExecuted ?? order.dateModified ?? order.dateCreated;
+  if (!quantity || price == null || !filledAt) return null;
+
+  return {
+    t212OrderId: String(order.id),
+    symbol: symbolForTicker(order.ticker) ?? order.ticker,
+    t212Ticker: order.ticker,
+    side: signed < 0 ? 'SELL' : 'BUY',
+    orderType: orderTypeOf(order.type),
+    quantity,
+    price,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    createdAt: toIso(order.dateCreated ?? filledAt),
+    filledAt: toIso(filledAt),
+    origin: order.executor === 'API' ? 'bot' : 'manual',
+  };
+}
+
+/**
+ * Backfills the local records from an account's complete Trading212
+ * history, including trades placed by hand in the app:
+ *
+ * - filled orders become `orders` rows (tagged `history_import`, with their
+ *   origin), then BUY/SELL `trades` and FIFO `tax_lots`
+ * - deposits, withdrawals, fees and interest become `account_transactions`
+ *
+ * Orders the bot already tracks are skipped by broker ID. History is paged
+ * newest first and progress is saved after every page, so a pass cut short
+ * resumes from its cursor and later passes only fetch what is new. Trades
+ * are built oldest fill first once the order history is exhausted, so each
+ * sale meets the purchases before it.
+ */
+export class HistoryImporter {
+  /** One import pass over orders and transactions, bounded by `historyImport.maxPagesPerRun`. */
+  async run(client: Trading212Api, accountType: AccountType): Promise<ImportSummary> {
+    const maxPages = configManager.get<number>('historyImport.maxPagesPerRun');
+
+    const ordersResult = await this.pageThrough(
+      accountType,
+      'orders',
+      maxPages,
+      (cursor) => client.getOrderHistory({ cursor, limit: PAGE_SIZE }),
+      (item: HistoricalOrder) => {
+        const fill = fillFromHistory(item);
+        return fill != null && this.recordFill(fill, accountType);
+      },
+      (item) => item.dateCreated,
+    );
+    const transactionsResult = await this.pageThrough(
+      accountType,
+      'transactions',
+      maxPages,
+      (cursor) => client.getTransactions({ cursor, limit: PAGE_SIZE }),
+      (item: Transaction) => this.recordTransaction(item, accountType),
+      (item) => item.dateTime,
+    );
+
+    const built = ordersResult.complete ? this.buildTrades(accountType) : { trades: 0, taxLots: 0 };
+
+    const summary: ImportSummary = {
+      accountType,
+      orders: ordersResult.imported,
+      transactions: transactionsResult.imported,
+      ...built,
+      complete: ordersResult.complete && transactionsResult.complete,
+    };
+    log.info(summary, 'History import pass finished');
+    return summary;
+  }
+
+  /**
+   * Import a Trading212 CSV export: order rows become orders, trades and tax
+   * lots; cash rows become account transactions. `resolveTicker` maps the
+   * export's plain tickers to instrument tickers (the TickerMapper's).
+   */
+  importCsv(
+    text: string,
+    accountType: AccountType,
+    resolveTicker?: (ticker: string) => string | null,
+  ): ImportSummary {
+    const summary: ImportSummary = {
+      accountType,
+      orders: 0,
+      transactions: 0,
+      trades: 0,
+      taxLots: 0,
+      complete: true,
+    };
+
+    for (const row of parseCsv(text)) {
+      const action = row.action ?? '';
+      const time = row.time ? toIso(`${row.time.replace(' ', 'T')}Z`) : null;
+      if (!time) continue;
+
+      const order = /^(market|limit|stop|stop limit) (buy|sell)$/i.exec(action);
+      if (order) {
+        const quantity = Number(row['no. of shares']);
+        const price = Number(row['price / share']);
+        if (!row.ticker || !quantity || !Number.isFinite(price)) continue;
+
+        const t212Ticker = resolveTicker?.(row.ticker) ?? row.ticker;
+        const fill: ImportedFill = {
+          t212OrderId: row.id || `${row.ticker}:${time}:${action}:${quantity}`,
+          symbol: symbolForTicker(t212Ticker) ?? row.ticker,
+          t212Ticker,
+          side: order[2].toLowerCase() === 'sell' ? 'SELL' : 'BUY',
+          orderType: orderTypeOf(order[1].toUpperCase().replace(' ', '_')),
+          quantity,
+          price,
+          createdAt: time,
+          filledAt: time,
+          // The export does not say who placed an order; ones the bot placed are already on record
+          origin: 'manual',
+        };
+        if (this.recordFill(fill, accountType)) summary.orders++;
+        continue;
+      }
+
+      const amount = Number(row.total);
+      if (action.toLowerCase().startsWith('dividend') || !Number.isFinite(amount)) continue;
+      const recorded = insertAccountTransaction({
+        reference: row.id || `${action}:${time}:${amount}`,
+        accountType,
+        type: action.toUpperCase().replace(/\s+/g, '_'),
+        amount: /withdraw|fee/i.test(action) ? -Math.abs(amount) : amount,
+        currency: row['currency (total)'],
+        dateTime: time,
+      });
+      if (recorded) summary.transactions++;
+    }
+
+    Object.assign(summary, this.buildTrades(accountType));
+    log.info(summary, 'CSV history imported');
+    return summary;
+  }
+
+  /**
+   * Ask Trading212 for a CSV export of `timeFrom`..`timeTo`, wait for it to
+   * finish and import it. Exports reach further back than the order history.
+   */
+  async importExport(
+    client: Trading212Api,
+    accountType: AccountType,
+    timeFrom: string,
+    timeTo: string,
+    resolveTicker?: (ticker: string) => string | null,
+  ): Promise<ImportSummary> {
+    const { reportId } = await client.requestExport({
+      dataIncluded: {
+        includeDividends: false,
+        includeInterest: true,
+        includeOrders: true,
+        includeTransactions: true,
+      },
+      timeFrom,
+      timeTo,
+    });
+    log.info({ accountType, reportId, timeFrom, timeTo }, 'History export requested');
+
+    for (let poll = 0; poll < EXPORT_MAX_POLLS; poll++) {
+      await sleep(EXPORT_POLL_MS);
+      const report = (await client.getExports()).find((r) => r.reportId === reportId);
+      if (report?.status === 'Failed' || report?.status === 'Canceled') {
+        throw new Error(`History export ${reportId} ${report.status.toLowerCase()}`);
+      }
+      if (report?.status === 'Finished' && report.downloadLink) {
+        const csv = await client.downloadExport(report.downloadLink);
+        return this.importCsv(csv, accountType, resolveTicker);
+      }
+    }
+    throw new Error(`History export ${reportId} not ready after ${EXPORT_MAX_POLLS} polls`);
+  }
+
+  /**
+   * Turn imported orders into trades and tax lots, oldest fill first. A BUY
+   * opens a lot; a SELL closes lots FIFO (bot lots included) and records the
+   * realised P&L. Shares sold with no lot to match keep a null exit price,
+   * which leaves them out of closed-trade metrics.
+   */
+  buildTrades(accountType: AccountType): { trades: number; taxLots: number } {
+    const result = { trades: 0, taxLots: 0 };
+    for (const order of getFilledOrdersWithoutTrade(HISTORY_IMPORT_TAG, accountType)) {
+      const built = order.side === 'BUY' ? this.buildBuy(order) : this.buildSell(order);
+      result.trades += built.trades;
+      result.taxLots += built.taxLots;
+    }
+    return result;
+  }
+
+  private async pageThrough<T>(
+    accountType: AccountType,
+    source: HistoryImportSource,
+    maxPages: number,
+    fetchPage: (cursor: number | undefined) => Promise<PageResult<T>>,
+    record: (item: T) => boolean,
+    dateOf: (item: T) => string | undefined,
+  ): Promise<{ imported: number; complete: boolean }> {
+    const existing = getHistoryImport(accountType, source);
+    const state =
+      existing?.status === 'running' ? existing : startHistoryImport(accountType, source);
+    const stopAt = state.stopAt ? Date.parse(state.stopAt) : null;
+
+    let cursor = state.cursor ?? undefined;
+    let newestSeen = state.newestSeen;
+    let pages = state.pages;
+    let imported = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+      if (page > 0) await sleep(PAGE_DELAY_MS);
+      const { items, nextPagePath } = await fetchPage(cursor);
+
+      let reachedKnown = false;
+      for (const item of items) {
+        const at = dateOf(item);
+        if (at && newestSeen == null) newestSeen = toIso(at);
+        if (stopAt != null && at && Date.parse(at) <= stopAt) {
+          reachedKnown = true;
+          continue;
+        }
+        if (record(item)) imported++;
+      }
+
+      cursor = parseNextCursor(nextPagePath);
+      pages++;
+      const completed = reachedKnown || cursor == null || items.length === 0;
+      saveHistoryImportProgress(state.id, {
+        cursor: cursor ?? null,
+        newestSeen,
+        pages,
+        imported: (state.imported ?? 0) + imported,
+        completed,
+      });
+      if (completed) {
+        log.info({ accountType, source, pages, imported }, 'History import reached the end');
+        return { imported, complete: true };
+      }
+    }
+
+    log.info({ accountType, source, pages, imported }, 'History import paused, resumes next pass');
+    return { imported, complete: false };
+  }
+
+  /** Record one fill as an order unless it is already on record. */
+  private recordFill(fill: ImportedFill, accountType: AccountType): boolean {
+    if (getOrderByT212Id(fill.t212OrderId)) return false;
+    const duplicate = findFilledOrder({
+      accountType,
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity: fill.quantity,
+      filledAt: fill.filledAt,
+      windowMs: FILL_MATCH_WINDOW_MS,
+    });
+    if (duplicate) return false;
+
+    insertFilledOrder({
+      symbol: fill.symbol,
+      t212Ticker: fill.t212Ticker,
+      side: fill.side,
+      orderType: fill.orderType,
+      requestedQuantity: fill.quantity,
+      requestedPrice: fill.limitPrice,
+      stopPrice: fill.stopPrice,
+      orderTag: HISTORY_IMPORT_TAG,
+      accountType,
+      origin: fill.origin,
+      t212OrderId: fill.t212OrderId,
+      filledQuantity: fill.quantity,
+      filledPrice: fill.price,
+      filledAt: fill.filledAt,
+      createdAt: fill.createdAt,
+    });
+    return true;
+  }
+
+  private recordTransaction(item: Transaction, accountType: AccountType): boolean {
+    const record = insertAccountTransaction({
+      reference: item.reference ?? `${item.type}:${item.dateTime}:${item.amount}`,
+      accountType,
+      type: item.type,
+      amount: item.amount,
+      currency: item.currency,
+      dateTime: toIso(item.dateTime),
+    });
+    return record != null;
+  }
+
+  private buildBuy(order: Order): { trades: number; taxLots: number } {
+    const db = getDb();
+    const shares = order.filledQuantity ?? order.requestedQuantity;
+    const price = order.filledPrice ?? 0;
+    const filledAt = order.filledAt ?? order.createdAt;
+
+    db.transaction((tx) => {
+      const trade = tx
+        .insert(trades)
+        .values({
+          symbol: order.symbol,
+          t212Ticker: order.t212Ticker ?? order.symbol,
+          side: 'BUY',
+          shares,
+          entryPrice: price,
+          entryTime: filledAt,
+          intendedPrice: order.requestedPrice,
+          accountType: order.accountType,
+          origin: order.origin,
+        })
+        .run();
+
+      tx.insert(taxLots)
+        .values({
+          symbol: order.symbol,
+          shares,
+          costBasis: price,
+          purchaseDate: filledAt,
+          accountType: order.accountType,
+          origin: order.origin,
+          createdAt: new Date().toISOString(),
+        })
+        .run();
+
+      tx.update(orders)
+        .set({ tradeId: Number(trade.lastInsertRowid) })
+        .where(eq(orders.id, order.id))
+        .run();
+    });
+    return { trades: 1, taxLots: 1 };
+  }
+
+  private buildSell(order: Order): { trades: number; taxLots: number } {
+    const db = getDb();
+    const shares = order.filledQuantity ?? order.requestedQuantity;
+    const price = order.filledPrice ?? 0;
+    const soldAt = order.filledAt ?? order.createdAt;
+    const exitReason = order.origin === 'manual' ? 'Manual sale' : 'Imported sale';
+    const now = new Date().toISOString();
+    const result = { trades: 0, taxLots: 0 };
+
+    db.transaction((tx) => {
+      const openLots = tx
+        .select()
+        .from(taxLots)
+        .where(
+          and(
+            eq(taxLots.symbol, order.symbol),
+            eq(taxLots.accountType, order.accountType),
+            isNull(taxLots.saleDate),
+          ),
+        )
+        .orderBy(taxLots.purchaseDate)
+        .all()
+        .filter((lot) => lot.purchaseDate <= soldAt);
+
+      // FIFO: the sold piece of each lot becomes a closed lot, the rest stays open
+      let remaining = shares;
+      let cost = 0;
+      let firstPurchase: string | null = null;
+      for (const lot of openLots) {
+        if (remaining <= 1e-9) break;
+        const take = Math.min(remaining, lot.shares);
+        const closed = {
+          saleDate: soldAt,
+          salePrice: price,
+          pnl: take * (price - lot.costBasis),
+          holdingPeriod: holdingPeriod(lot.purchaseDate, soldAt),
+        };
+
+        if (take < lot.shares) {
+          tx.update(taxLots)
+            .set({ shares: lot.shares - take })
+            .where(eq(taxLots.id, lot.id))
+            .run();
+          tx.insert(taxLots)
+            .values({
+              symbol: lot.symbol,
+              shares: take,
+              costBasis: lot.costBasis,
+              purchaseDate: lot.purchaseDate,
+              accountType: lot.accountType,
+              origin: lot.origin,
+              createdAt: now,
+              ...closed,
+            })
+            .run();
+        } else {
+          tx.update(taxLots).set(closed).where(eq(taxLots.id, lot.id)).run();
+        }
+
+        result.taxLots++;
+        cost += take * lot.costBasis;
+        firstPurchase ??= lot.purchaseDate;
+        remaining -= take;
+      }
+
+      const covered = shares - Math.max(remaining, 0);
+      let tradeId: number | null = null;
+      if (covered > 1e-9 && firstPurchase) {
+        const avgCost = cost / covered;
+        const trade = tx
+          .insert(trades)
+          .values({
+            symbol: order.symbol,
+            t212Ticker: order.t212Ticker ?? order.symbol,
+            side: 'SELL',
+            shares: covered,
+            entryPrice: avgCost,
+            exitPrice: price,
+            pnl: covered * price - cost,
+            pnlPct: avgCost > 0 ? (price - avgCost) / avgCost : null,
+            entryTime: firstPurchase,
+            exitTime: soldAt,
+            exitReason,
+            intendedPrice: order.requestedPrice,
+            accountType: order.accountType,
+            origin: order.origin,
+          })
+          .run();
+        tradeId = Number(trade.lastInsertRowid);
+        result.trades++;
+      }
+
+      if (remaining > 1e-9) {
+        const trade = tx
+          .insert(trades)
+          .values({
+            symbol: order.symbol,
+            t212Ticker: order.t212Ticker ?? order.symbol,
+            side: 'SELL',
+            shares: remaining,
+            entryPrice: price,
+            entryTime: soldAt,
+            exitTime: soldAt,
+            exitReason: `${exitReason} (cost basis unknown)`,
+            accountType: order.accountType,
+            origin: order.origin,
+          })
+          .run();
+        tradeId ??= Number(trade.lastInsertRowid);
+        result.trades++;
+        log.warn(
+          { symbol: order.symbol, shares: remaining, orderId: order.t212OrderId },
+          'Imported sale has no purchase on record for some shares',
+        );
+      }
+
+      tx.update(orders).set({ tradeId }).where(eq(orders.id, order.id)).run();
+    });
+    return result;
+  }
+}
+
+// ── CSV parsing ──────────────────────────────────────────────────────────
+
+/** Rows keyed by lower-cased header. Quoted cells may contain commas (instrument names do). */
+function parseCsv(text: string): Array<Record<string, string>> {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map((name) => name.toLowerCase());
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']));
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+let instance: HistoryImporter | null = null;
+
+export function getHistoryImporter(): HistoryImporter {
+  if (!instance) {
+    instance = new HistoryImporter();
+  }
+  return instance;
+}
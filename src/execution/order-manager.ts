@@ -1,13 +1,31 @@
 import { randomBytes } from 'node:crypto';
-import { eq } from 'drizzle-orm';
-import type { Trading212Client } from '../api/trading212/client.js';
+import { and, eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { isBrokerRejection } from '../api/trading212/errors.js';
 import type { Order } from '../api/trading212/types.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
-import { createOrder, updateOrderStatus } from '../db/repositories/orders.js';
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../db/repositories/order-intents.js';
+import { cancelOrder, createOrder, updateOrderStatus } from '../db/repositories/orders.js';
 import { positions, trades } from '../db/schema.js';
+import { currentFxRate, signedShares, splitPnl } from '../utils/currency.js';
 import { sleep } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import { ProtectiveStops } from './protective-stops.js';
+import {
+  accruedFinancing,
+  directionalReturn,
+  type PositionDirection,
+  shortSellingAvailable,
+  stopPriceFor,
+  targetPriceFor,
+} from './short-selling.js';
 
 const log = createLogger('order-manager');
 
@@ -22,6 +40,13 @@ export interface BuyParams {
   conviction: number;
   aiModel: string;
   accountType: 'INVEST' | 'ISA';
+  /** Quote currency when it differs from the account's */
+  currency?: string;
+  accountCurrency?: string;
+  /** Account currency per quote unit at entry */
+  fxRate?: number;
+  /** SHORT opens the position with a sale; stops sit above and targets below the entry */
+  direction?: PositionDirection;
 }
 
 export interface CloseParams {
@@ -30,6 +55,8 @@ export interface CloseParams {
   shares: number;
   exitReason: string;
   accountType: 'INVEST' | 'ISA';
+  /** Account currency per quote unit at exit; defaults to the position's last rate */
+  fxRate?: number;
 }
 
 export interface OrderResult {
@@ -40,26 +67,55 @@ export interface OrderResult {
   error?: string;
 }
 
+/**
+ * Whether orders are filled locally instead of sent to the account's client.
+ * The paper broker simulates fills itself, so it takes orders in dry run too.
+ */
+export function fillsLocally(): boolean {
+  return (
+    configManager.get<boolean>('execution.dryRun') === true &&
+    configManager.get<boolean>('execution.paperBroker.enabled') !== true
+  );
+}
+
 export class OrderManager {
-  private t212Client: Trading212Client | null = null;
+  private t212Client: Trading212Api | null = null;
+
+  /** @param scope Account whose positions this manager sees; undefined when it is the only one */
+  constructor(private readonly scope?: AccountType) {}
 
-  setT212Client(client: Trading212Client): void {
+  setT212Client(client: Trading212Api): void {
     this.t212Client = client;
   }
 
   async executeBuy(params: BuyParams): Promise<OrderResult> {
-    const dryRun = configManager.get<boolean>('execution.dryRun');
+    const dryRun = fillsLocally();
     const db = getDb();
 
-    const stopLossPrice = params.price * (1 - params.stopLossPct);
-    const takeProfitPrice = params.price * (1 + params.takeProfitPct);
+    const direction = params.direction ?? 'LONG';
+    const short = direction === 'SHORT';
+    if (short && !shortSellingAvailable()) {
+      return { success: false, error: 'Short selling is disabled or needs the paper broker' };
+    }
+    // Shorts open with a sale and are protected by buy orders
+    const entrySide = short ? 'SELL' : 'BUY';
+    const exitSide = short ? 'BUY' : 'SELL';
+
+    const stopLossPrice = stopPriceFor(params.price, params.stopLossPct, direction);
+    const takeProfitPrice = targetPriceFor(params.price, params.takeProfitPct, direction);
     const now = new Date().toISOString();
+    const financing = short ? { financingCost: 0, financingAccruedAt: now } : {};
+    const entryFx = {
+      currency: params.currency ?? null,
+      accountCurrency: params.accountCurrency ?? null,
+      entryFxRate: params.fxRate ?? null,
+    };
 
     if (dryRun) {
       // Create order record for dry-run tracking
       const localOrderId = createOrder({
         symbol: params.symbol,
-        side: 'BUY',
+        side: entrySide,
         orderType: 'market',
         requestedQuantity: params.shares,
         requestedPrice: params.price,
@@ -67,7 +123,7 @@ export class OrderManager {
         accountType: params.accountType,
       });
 
-      const dryT212Id = `dry_run_BUY_${params.symbol}_${Date.now()}`;
+      const dryT212Id = `dry_run_${entrySide}_${params.symbol}_${Date.now()}`;
       const dryTpOrderId =
         params.takeProfitPct > 0
           ? `tp-dry-${Date.now()}-${randomBytes(4).toString('hex')}`
@@ -81,9 +137,10 @@ export class OrderManager {
           stopLoss: stopLossPrice,
           takeProfit: takeProfitPrice,
           takeProfitOrderId: dryTpOrderId,
+          direction,
           mode: 'DRY_RUN',
         },
-        'Simulated BUY order',
+        short ? 'Simulated short sale' : 'Simulated BUY order',
       );
 
       let tradeRowId: number | bigint = 0;
@@ -93,7 +150,7 @@ export class OrderManager {
         const existing = tx
           .select()
           .from(positions)
-          .where(eq(positions.symbol, params.symbol))
+          .where(this.positionFilter(params.symbol))
           .get();
         if (existing) {
           duplicateError = true;
@@ -105,7 +162,8 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
-            side: 'BUY',
+            side: entrySide,
+            direction,
             shares: params.shares,
             entryPrice: params.price,
             entryTime: now,
@@ -117,6 +175,7 @@ export class OrderManager {
             intendedPrice: params.price,
             slippage: 0,
             accountType: params.accountType,
+            ...entryFx,
           })
           .run();
 
@@ -126,6 +185,7 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
+            direction,
             shares: params.shares,
             entryPrice: params.price,
             entryTime: now,
@@ -137,6 +197,9 @@ export class OrderManager {
             convictionScore: params.conviction,
             takeProfitOrderId: dryTpOrderId,
             accountType: params.accountType,
+            ...entryFx,
+            currentFxRate: entryFx.entryFxRate,
+            ...financing,
             updatedAt: now,
           })
           .run();
@@ -165,7 +228,7 @@ export class OrderManager {
     }
 
     // Duplicate protection: check if position already exists (before placing on exchange)
-    const existing = db.select().from(positions).where(eq(positions.symbol, params.symbol)).get();
+    const existing = db.select().from(positions).where(this.positionFilter(params.symbol)).get();
     if (existing) {
       log.warn({ symbol: params.symbol }, 'Position already exists, skipping buy');
       return { success: false, error: `Position already exists for ${params.symbol}` };
@@ -174,25 +237,52 @@ export class OrderManager {
     // Create pending order record before placing on exchange
     const localOrderId = createOrder({
       symbol: params.symbol,
-      side: 'BUY',
+      side: entrySide,
       orderType: 'market',
       requestedQuantity: params.shares,
       requestedPrice: params.price,
       orderTag: 'entry',
       accountType: params.accountType,
     });
+    const intentId = recordIntent({
+      localOrderId,
+      symbol: params.symbol,
+      t212Ticker: params.t212Ticker,
+      accountType: params.accountType,
+      side: entrySide,
+      orderType: 'market',
+      purpose: 'entry',
+      quantity: params.shares,
+      price: params.price,
+      context: {
+        stopLossPct: params.stopLossPct,
+        takeProfitPct: params.takeProfitPct,
+        aiReasoning: params.aiReasoning,
+        conviction: params.conviction,
+        aiModel: params.aiModel,
+        currency: params.currency,
+        accountCurrency: params.accountCurrency,
+        fxRate: params.fxRate,
+        direction,
+      },
+    });
 
     try {
       const client = this.t212Client;
       if (!client) throw new Error('Trading212 client not initialized');
 
       // Place market order
+      // Trading212 sells on a negative quantity
       const order = await client.placeMarketOrder({
         ticker: params.t212Ticker,
-        quantity: params.shares,
+        quantity: short ? -params.shares : params.shares,
         timeValidity: 'DAY',
       });
-      log.info({ symbol: params.symbol, orderId: order.id }, 'Market buy order placed');
+      markIntentSubmitted(intentId, String(order.id));
+      log.info(
+        { symbol: params.symbol, orderId: order.id, direction },
+        short ? 'Market short sale placed' : 'Market buy order placed',
+      );
 
       // Update order with exchange ID and status
       updateOrderStatus(localOrderId, {
@@ -223,8 +313,8 @@ export class OrderManager {
         filledAt: new Date().toISOString(),
       });
 
-      const actualStopLoss = fillPrice * (1 - params.stopLossPct);
-      const actualTakeProfit = fillPrice * (1 + params.takeProfitPct);
+      const actualStopLoss = stopPriceFor(fillPrice, params.stopLossPct, direction);
+      const actualTakeProfit = targetPriceFor(fillPrice, params.takeProfitPct, direction);
 
       // Wait before placing stop order (exchange needs time to settle)
       const stopDelay = configManager.get<number>('execution.stopLossDelay');
@@ -233,47 +323,43 @@ export class OrderManager {
       // Place stop-loss order (GTC so it persists across trading sessions)
       let stopOrderId: string | undefined;
       try {
-        // Track the stop-loss order
-        const slOrderId = createOrder({
-          symbol: params.symbol,
-          side: 'SELL',
-          orderType: 'stop',
-          requestedQuantity: params.shares,
-          stopPrice: actualStopLoss,
-          orderTag: 'stoploss',
-          accountType: params.accountType,
-        });
-
-        const stopOrder = await client.placeStopOrder({
-          ticker: params.t212Ticker,
-          quantity: params.shares,
-          stopPrice: actualStopLoss,
-          timeValidity: 'GTC',
-        });
-        stopOrderId = String(stopOrder.id);
-
-        updateOrderStatus(slOrderId, {
-          status: 'open',
-          t212OrderId: stopOrderId,
-        });
-
-        log.info(
-          { symbol: params.symbol, stopOrderId, stopPrice: actualStopLoss },
-          'Stop-loss order placed',
+        stopOrderId = await new ProtectiveStops(client).place(
+          {
+            symbol: params.symbol,
+            t212Ticker: params.t212Ticker,
+            accountType: params.accountType,
+            direction,
+          },
+          params.shares,
+          actualStopLoss,
         );
       } catch (err) {
         log.error(
           { symbol: params.symbol, err },
           'Failed to place stop-loss — closing unprotected position',
         );
+        const closeIntentId = recordIntent({
+          symbol: params.symbol,
+          t212Ticker: params.t212Ticker,
+          accountType: params.accountType,
+          side: exitSide,
+          orderType: 'market',
+          purpose: 'exit',
+          quantity: params.shares,
+          price: fillPrice,
+          context: { exitReason: 'Stop-loss placement failed', direction },
+        });
         try {
-          await client.placeMarketOrder({
+          const closeOrder = await client.placeMarketOrder({
             ticker: params.t212Ticker,
             quantity: params.shares,
             timeValidity: 'DAY',
           });
+          // Left submitted: startup reconciliation records the close
+          markIntentSubmitted(closeIntentId, String(closeOrder.id));
           log.warn({ symbol: params.symbol }, 'Position closed after stop-loss failure');
         } catch (closeErr) {
+          if (isBrokerRejection(closeErr)) abandonIntent(closeIntentId, String(closeErr));
           log.fatal(
             { symbol: params.symbol, closeErr },
             'FATAL: Cannot close unprotected position — MANUAL INTERVENTION REQUIRED',
@@ -284,17 +370,29 @@ export class OrderManager {
       // Place take-profit limit order (GTC) -- only if takeProfitPct is set
       let takeProfitOrderId: string | undefined;
       if (params.takeProfitPct > 0) {
-        try {
-          const tpLocalId = createOrder({
-            symbol: params.symbol,
-            side: 'SELL',
-            orderType: 'limit',
-            requestedQuantity: params.shares,
-            requestedPrice: actualTakeProfit,
-            orderTag: 'take_profit',
-            accountType: params.accountType,
-          });
+        const tpLocalId = createOrder({
+          symbol: params.symbol,
+          side: exitSide,
+          orderType: 'limit',
+          requestedQuantity: params.shares,
+          requestedPrice: actualTakeProfit,
+          orderTag: 'take_profit',
+          accountType: params.accountType,
+        });
+        const tpIntentId = recordIntent({
+          localOrderId: tpLocalId,
+          symbol: params.symbol,
+          t212Ticker: params.t212Ticker,
+          accountType: params.accountType,
+          side: exitSide,
+          orderType: 'limit',
+          purpose: 'take_profit',
+          quantity: params.shares,
+          price: actualTakeProfit,
+          context: { direction },
+        });
 
+        try {
           const tpOrder = await client.placeLimitOrder({
             ticker: params.t212Ticker,
             quantity: params.shares,
@@ -302,17 +400,22 @@ export class OrderManager {
             timeValidity: 'GTC',
           });
           takeProfitOrderId = String(tpOrder.id);
+          markIntentSubmitted(tpIntentId, takeProfitOrderId);
 
           updateOrderStatus(tpLocalId, {
             status: 'open',
             t212OrderId: takeProfitOrderId,
           });
+          completeIntent(tpIntentId);
 
           log.info(
             { symbol: params.symbol, takeProfitOrderId, takeProfitPrice: actualTakeProfit },
             'Take-profit limit order placed',
           );
         } catch (err) {
+          if (isBrokerRejection(err)) {
+            abandonIntent(tpIntentId, err instanceof Error ? err.message : String(err));
+          }
           log.warn(
             { symbol: params.symbol, err },
             'Failed to place take-profit order — position remains open without TP on exchange',
@@ -321,7 +424,7 @@ export class OrderManager {
       }
 
       // Record trade and position atomically
-      const buySlippage = (fillPrice - params.price) / params.price;
+      const buySlippage = directionalReturn(params.price, fillPrice, direction);
       let tradeRowId: number | bigint = 0;
       db.transaction((tx) => {
         const trade = tx
@@ -329,7 +432,8 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
-            side: 'BUY',
+            side: entrySide,
+            direction,
             shares: params.shares,
             entryPrice: fillPrice,
             entryTime: now,
@@ -341,6 +445,7 @@ export class OrderManager {
             intendedPrice: params.price,
             slippage: buySlippage,
             accountType: params.accountType,
+            ...entryFx,
           })
           .run();
 
@@ -350,6 +455,7 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
+            direction,
             shares: params.shares,
             entryPrice: fillPrice,
             entryTime: now,
@@ -362,9 +468,14 @@ export class OrderManager {
             stopOrderId,
             takeProfitOrderId,
             accountType: params.accountType,
+            ...entryFx,
+            currentFxRate: entryFx.entryFxRate,
+            ...financing,
             updatedAt: now,
           })
           .run();
+
+        completeIntent(intentId);
       });
 
       log.info(
@@ -383,6 +494,9 @@ export class OrderManager {
         status: 'failed',
         cancelReason: err instanceof Error ? err.message : String(err),
       });
+      if (isBrokerRejection(err)) {
+        abandonIntent(intentId, err instanceof Error ? err.message : String(err));
+      }
       log.error({ symbol: params.symbol, err }, 'Failed to execute buy order');
       return {
         success: false,
@@ -393,10 +507,10 @@ export class OrderManager {
   }
 
   async executeClose(params: CloseParams): Promise<OrderResult> {
-    const dryRun = configManager.get<boolean>('execution.dryRun');
+    const dryRun = fillsLocally();
     const db = getDb();
 
-    const position = db.select().from(positions).where(eq(positions.symbol, params.symbol)).get();
+    const position = db.select().from(positions).where(this.positionFilter(params.symbol)).get();
 
     if (!position) {
       log.warn({ symbol: params.symbol }, 'No position found to close');
@@ -404,19 +518,36 @@ export class OrderManager {
     }
 
     const now = new Date().toISOString();
+    const direction = position.direction;
+    const short = direction === 'SHORT';
+    // Covering a short buys it back
+    const exitSide = short ? 'BUY' : 'SELL';
+    const financingCost = short ? accruedFinancing(position) : null;
 
     // Determine order tag based on exit reason
     const orderTag = this.resolveExitOrderTag(params.exitReason);
+    const exitFxRate = params.fxRate ?? currentFxRate(position);
+    const exitFx = {
+      currency: position.currency,
+      accountCurrency: position.accountCurrency,
+      entryFxRate: position.entryFxRate,
+      exitFxRate: position.currency ? exitFxRate : null,
+    };
 
     if (dryRun) {
       const exitPrice = position.currentPrice ?? position.entryPrice;
-      const pnl = (exitPrice - position.entryPrice) * position.shares;
-      const pnlPct = (exitPrice - position.entryPrice) / position.entryPrice;
+      const { pnl, pricePnl, fxPnl } = this.closingPnl(
+        position,
+        exitPrice,
+        exitFxRate,
+        financingCost,
+      );
+      const pnlPct = directionalReturn(position.entryPrice, exitPrice, direction);
 
       // Create order record for dry-run tracking
       const localOrderId = createOrder({
         symbol: params.symbol,
-        side: 'SELL',
+        side: exitSide,
         orderType: 'market',
         requestedQuantity: params.shares,
         requestedPrice: exitPrice,
@@ -424,7 +555,7 @@ export class OrderManager {
         accountType: params.accountType,
       });
 
-      const dryT212Id = `dry_run_SELL_${params.symbol}_${Date.now()}`;
+      const dryT212Id = `dry_run_${exitSide}_${params.symbol}_${Date.now()}`;
 
       log.info(
         {
@@ -446,7 +577,8 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
-            side: 'SELL',
+            side: exitSide,
+            direction,
             shares: params.shares,
             entryPrice: position.entryPrice,
             exitPrice,
@@ -458,10 +590,14 @@ export class OrderManager {
             intendedPrice: exitPrice,
             slippage: 0,
             accountType: params.accountType,
+            ...exitFx,
+            pricePnl,
+            fxPnl,
+            financingCost,
           })
           .run();
 
-        tx.delete(positions).where(eq(positions.symbol, params.symbol)).run();
+        tx.delete(positions).where(this.positionFilter(params.symbol)).run();
       });
 
       // Mark order as filled
@@ -484,32 +620,44 @@ export class OrderManager {
     // Create pending order record
     const localOrderId = createOrder({
       symbol: params.symbol,
-      side: 'SELL',
+      side: exitSide,
       orderType: 'market',
       requestedQuantity: params.shares,
       requestedPrice: position.currentPrice ?? position.entryPrice,
       orderTag,
       accountType: params.accountType,
     });
+    let intentId: number | undefined;
 
     try {
       const client = this.t212Client;
       if (!client) throw new Error('Trading212 client not initialized');
 
-      // Cancel existing stop order if present
-      if (position.stopOrderId) {
-        try {
-          await client.cancelOrder(Number(position.stopOrderId));
-          log.info(
-            { symbol: params.symbol, stopOrderId: position.stopOrderId },
-            'Cancelled stop order',
-          );
-        } catch (err) {
+      // Cancel the broker stop. If it already filled, the position is closed
+      // at the broker and must be reconciled rather than sold again; shares
+      // a partial fill left over are still closed at market.
+      const protectiveStops = new ProtectiveStops(client);
+      const stopCancel = await protectiveStops.cancel(position, 'Position closed by bot');
+      if (stopCancel.outcome === 'filled' && position.stopOrderId) {
+        await protectiveStops.recordFill(
+          position.stopOrderId,
+          stopCancel.fillPrice ?? null,
+          stopCancel.filledQuantity,
+        );
+        const remaining = db.select().from(positions).where(eq(positions.id, position.id)).get();
+        if (remaining) {
+          cancelOrder(localOrderId, 'Broker stop filled part of the position');
           log.warn(
-            { symbol: params.symbol, err },
-            'Failed to cancel stop order (may already be filled)',
+            { symbol: params.symbol, remainingShares: remaining.shares },
+            'Broker stop filled part of the position — closing the rest',
           );
+          return this.executeClose({
+            ...params,
+            shares: Math.min(params.shares, remaining.shares),
+          });
         }
+        cancelOrder(localOrderId, 'Position already closed by broker stop');
+        return { success: true, orderId: position.stopOrderId, localOrderId };
       }
 
       // Cancel existing take-profit order if present
@@ -529,12 +677,28 @@ export class OrderManager {
       }
 
       // Place sell order via market order
+      intentId = recordIntent({
+        localOrderId,
+        symbol: params.symbol,
+        t212Ticker: params.t212Ticker,
+        accountType: params.accountType,
+        side: exitSide,
+        orderType: 'market',
+        purpose: orderTag,
+        quantity: params.shares,
+        price: position.currentPrice ?? position.entryPrice,
+        context: { exitReason: params.exitReason, direction },
+      });
       const order = await client.placeMarketOrder({
         ticker: params.t212Ticker,
         quantity: params.shares,
         timeValidity: 'DAY',
       });
-      log.info({ symbol: params.symbol, orderId: order.id }, 'Market sell order placed');
+      markIntentSubmitted(intentId, String(order.id));
+      log.info(
+        { symbol: params.symbol, orderId: order.id, direction },
+        short ? 'Market cover order placed' : 'Market sell order placed',
+      );
 
       // Update order with exchange ID
       updateOrderStatus(localOrderId, {
@@ -565,12 +729,17 @@ export class OrderManager {
         filledAt: new Date().toISOString(),
       });
 
-      const pnl = (fillPrice - position.entryPrice) * position.shares;
-      const pnlPct = (fillPrice - position.entryPrice) / position.entryPrice;
+      const { pnl, pricePnl, fxPnl } = this.closingPnl(
+        position,
+        fillPrice,
+        exitFxRate,
+        financingCost,
+      );
+      const pnlPct = directionalReturn(position.entryPrice, fillPrice, direction);
 
       // Slippage tracking for sells: intended price is what the bot saw at decision time
       const intendedExitPrice = position.currentPrice ?? position.entryPrice;
-      const sellSlippage = (intendedExitPrice - fillPrice) / intendedExitPrice;
+      const sellSlippage = -directionalReturn(intendedExitPrice, fillPrice, direction);
 
       // Record closing trade and remove position atomically
       db.transaction((tx) => {
@@ -578,7 +747,8 @@ export class OrderManager {
           .values({
             symbol: params.symbol,
             t212Ticker: params.t212Ticker,
-            side: 'SELL',
+            side: exitSide,
+            direction,
             shares: params.shares,
             entryPrice: position.entryPrice,
             exitPrice: fillPrice,
@@ -590,10 +760,15 @@ export class OrderManager {
             intendedPrice: intendedExitPrice,
             slippage: sellSlippage,
             accountType: params.accountType,
+            ...exitFx,
+            pricePnl,
+            fxPnl,
+            financingCost,
           })
           .run();
 
-        tx.delete(positions).where(eq(positions.symbol, params.symbol)).run();
+        tx.delete(positions).where(this.positionFilter(params.symbol)).run();
+        if (intentId != null) completeIntent(intentId);
       });
 
       log.info(
@@ -613,6 +788,9 @@ export class OrderManager {
         status: 'failed',
         cancelReason: err instanceof Error ? err.message : String(err),
       });
+      if (intentId != null && isBrokerRejection(err)) {
+        abandonIntent(intentId, err instanceof Error ? err.message : String(err));
+      }
       log.error({ symbol: params.symbol, err }, 'Failed to execute close order');
       return {
         success: false,
@@ -622,6 +800,30 @@ export class OrderManager {
     }
   }
 
+  /** The symbol's position row, narrowed to this manager's account */
+  private positionFilter(symbol: string) {
+    return this.scope
+      ? and(eq(positions.symbol, symbol), eq(positions.accountType, this.scope))
+      : eq(positions.symbol, symbol);
+  }
+
+  /** P&L of closing the whole position, net of any short financing. */
+  private closingPnl(
+    position: typeof positions.$inferSelect,
+    exitPrice: number,
+    exitFxRate: number,
+    financingCost: number | null,
+  ): { pnl: number; pricePnl: number; fxPnl: number } {
+    const split = splitPnl(
+      signedShares(position),
+      position.entryPrice,
+      exitPrice,
+      position.entryFxRate ?? 1,
+      exitFxRate,
+    );
+    return { ...split, pnl: split.pnl - (financingCost ?? 0) };
+  }
+
   async getCurrentPrice(symbol: string): Promise<number | null> {
     try {
       const { YahooFinanceClient } = await import('../data/yahoo-finance.js');
@@ -649,7 +851,7 @@ export class OrderManager {
     return 'exit';
   }
 
-  private async waitForFill(client: Trading212Client, orderId: number): Promise<number | null> {
+  private async waitForFill(client: Trading212Api, orderId: number): Promise<number | null> {
     const timeoutSecs = configManager.get<number>('execution.orderTimeoutSeconds');
     const maxAttempts = timeoutSecs * 2; // Poll every 500ms
 
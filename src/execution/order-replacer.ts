@@ -1,8 +1,15 @@
 import { eq } from 'drizzle-orm';
-import type { Trading212Client } from '../api/trading212/client.js';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { isBrokerRejection } from '../api/trading212/errors.js';
 import type { Order as T212Order } from '../api/trading212/types.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../db/repositories/order-intents.js';
 import {
   cancelOrder,
   createOrder,
@@ -16,6 +23,7 @@ import {
 import { positions } from '../db/schema.js';
 import { sleep } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
+import { fillsLocally } from './order-manager.js';
 
 const log = createLogger('order-replacer');
 
@@ -38,10 +46,13 @@ export interface ReplaceOrderResult {
 }
 
 export class OrderReplacer {
-  private t212Client: Trading212Client | null;
+  private t212Client: Trading212Api | null;
+  private accountType: 'INVEST' | 'ISA' | undefined;
 
-  constructor(t212Client: Trading212Client | null) {
+  /** With `accountType`, only that account's orders are repriced (they go through this client). */
+  constructor(t212Client: Trading212Api | null, accountType?: 'INVEST' | 'ISA') {
     this.t212Client = t212Client;
+    this.accountType = accountType;
   }
 
   /**
@@ -62,7 +73,7 @@ export class OrderReplacer {
     );
     const maxReplacements = configManager.get<number>('execution.orderReplacement.maxReplacements');
 
-    const openOrders = getOpenOrders();
+    const openOrders = getOpenOrders(this.accountType);
     if (openOrders.length === 0) {
       log.debug('No open orders to check for replacement');
       return result;
@@ -180,7 +191,7 @@ export class OrderReplacer {
       return { success: false, error: `Cannot replace ${order.orderTag} order` };
     }
 
-    const dryRun = configManager.get<boolean>('execution.dryRun');
+    const dryRun = fillsLocally();
 
     if (dryRun) {
       return this.replaceDryRun(order, newPrice);
@@ -391,6 +402,16 @@ export class OrderReplacer {
     }
 
     // Step 5: Place new order at updated price
+    const intentId = recordIntent({
+      symbol: order.symbol,
+      t212Ticker: ticker,
+      accountType: order.accountType as 'INVEST' | 'ISA',
+      side: order.side as 'BUY' | 'SELL',
+      orderType: order.orderType as 'market' | 'limit' | 'stop',
+      purpose: order.orderTag ?? 'entry',
+      quantity: order.requestedQuantity,
+      price: newPrice,
+    });
     try {
       let newT212Order: T212Order;
 
@@ -416,6 +437,8 @@ export class OrderReplacer {
         });
       }
 
+      markIntentSubmitted(intentId, String(newT212Order.id));
+
       // Step 6: Create new order record in DB
       const newOrderId = createOrder({
         symbol: order.symbol,
@@ -436,6 +459,7 @@ export class OrderReplacer {
 
       // Link old order to new one
       setReplacedByOrderId(order.id, newOrderId);
+      completeIntent(intentId);
 
       log.info(
         {
@@ -451,6 +475,9 @@ export class OrderReplacer {
 
       return { success: true, newOrderId };
     } catch (err) {
+      if (isBrokerRejection(err)) {
+        abandonIntent(intentId, err instanceof Error ? err.message : String(err));
+      }
       log.error(
         { orderId: order.id, symbol: order.symbol, err },
         'Failed to place replacement order',
@@ -491,7 +518,7 @@ export class OrderReplacer {
    */
   private async resolveT212Ticker(
     symbol: string,
-    client: Trading212Client,
+    client: Trading212Api,
     t212OrderId: number,
   ): Promise<string | undefined> {
     // Try to get ticker from the T212 order itself
@@ -1,4 +1,4 @@
-import type { Trading212Client } from '../api/trading212/client.js';
+import type { Trading212Api } from '../api/trading212/client.js';
 import type { Order as T212Order } from '../api/trading212/types.js';
 import {
   getOpenOrders,
@@ -7,6 +7,8 @@ import {
   updateOrderStatus,
 } from '../db/repositories/orders.js';
 import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import { ProtectiveStops, type StopFill } from './protective-stops.js';
 
 const log = createLogger('order-sync');
 
@@ -15,6 +17,8 @@ export interface SyncResult {
   filled: number;
   cancelled: number;
   failed: number;
+  /** Positions closed by a broker stop that filled since the last sync */
+  stopFills: StopFill[];
   errors: string[];
 }
 
@@ -23,15 +27,19 @@ export interface SyncResult {
  * and updates local records to match the exchange state.
  */
 export class OrderSynchronizer {
-  private t212Client: Trading212Client;
+  private t212Client: Trading212Api;
+  private accountType: AccountType | undefined;
+  private protectiveStops: ProtectiveStops;
 
-  constructor(t212Client: Trading212Client) {
+  constructor(t212Client: Trading212Api, accountType?: AccountType) {
     this.t212Client = t212Client;
+    this.accountType = accountType;
+    this.protectiveStops = new ProtectiveStops(t212Client, accountType);
   }
 
   /**
    * Sync all open (pending/open/partially_filled) local orders
-   * with the exchange state.
+   * with the exchange state. A filled stop-loss closes its position.
    */
   async syncOpenOrders(): Promise<SyncResult> {
     const result: SyncResult = {
@@ -39,10 +47,11 @@ export class OrderSynchronizer {
       filled: 0,
       cancelled: 0,
       failed: 0,
+      stopFills: [],
       errors: [],
     };
 
-    const openOrders = getOpenOrders();
+    const openOrders = getOpenOrders(this.accountType);
 
     if (openOrders.length === 0) {
       log.debug('No open orders to sync');
@@ -61,6 +70,19 @@ export class OrderSynchronizer {
           if (update.status === 'filled') result.filled++;
           else if (update.status === 'cancelled') result.cancelled++;
           else if (update.status === 'failed') result.failed++;
+
+          if (
+            update.status === 'filled' &&
+            localOrder.orderTag === 'stoploss' &&
+            localOrder.t212OrderId
+          ) {
+            const fill = await this.protectiveStops.recordFill(
+              localOrder.t212OrderId,
+              update.filledPrice ?? null,
+              update.filledQuantity,
+            );
+            if (fill) result.stopFills.push(fill);
+          }
         }
       } catch (err) {
         const msg = `Failed to sync order ${localOrder.id}: ${err instanceof Error ? err.message : String(err)}`;
@@ -1,6 +1,7 @@
 import { and, eq, gte, lte } from 'drizzle-orm';
 import { getDb } from '../db/index.js';
 import { pairLocks } from '../db/schema.js';
+import { currentTimeIso, currentTimeMs } from '../utils/clock.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('pair-locks');
@@ -26,8 +27,8 @@ export class PairLockManager {
     side: '*' | 'long' | 'short' = '*',
   ): void {
     const db = getDb();
-    const lockEnd = new Date(Date.now() + durationMinutes * 60_000).toISOString();
-    const now = new Date().toISOString();
+    const lockEnd = new Date(currentTimeMs() + durationMinutes * 60_000).toISOString();
+    const now = currentTimeIso();
 
     db.insert(pairLocks)
       .values({
@@ -59,7 +60,7 @@ export class PairLockManager {
     side: '*' | 'long' | 'short' = '*',
   ): { locked: boolean; reason?: string } {
     const db = getDb();
-    const now = new Date().toISOString();
+    const now = currentTimeIso();
 
     // Check symbol-specific locks
     const symbolLocks = db
@@ -99,7 +100,7 @@ export class PairLockManager {
    */
   isGlobalLocked(): { locked: boolean; reason?: string } {
     const db = getDb();
-    const now = new Date().toISOString();
+    const now = currentTimeIso();
 
     const globalLocks = db
       .select()
@@ -121,7 +122,7 @@ export class PairLockManager {
    */
   getActiveLocks(): PairLock[] {
     const db = getDb();
-    const now = new Date().toISOString();
+    const now = currentTimeIso();
 
     return db
       .select()
@@ -149,7 +150,7 @@ export class PairLockManager {
    */
   cleanupExpired(): number {
     const db = getDb();
-    const now = new Date().toISOString();
+    const now = currentTimeIso();
 
     // Find expired but still active locks (lockEnd < now)
     const expired = db
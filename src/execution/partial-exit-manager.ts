@@ -1,11 +1,21 @@
-import { eq } from 'drizzle-orm';
-import type { Trading212Client } from '../api/trading212/client.js';
+import { and, eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { isBrokerRejection } from '../api/trading212/errors.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../db/repositories/order-intents.js';
 import { createOrder, updateOrderStatus } from '../db/repositories/orders.js';
 import { positions, trades } from '../db/schema.js';
+import { currentFxRate, splitPnl } from '../utils/currency.js';
 import { sleep } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
+import { fillsLocally } from './order-manager.js';
+import { ProtectiveStops } from './protective-stops.js';
 
 const log = createLogger('partial-exit');
 
@@ -53,9 +63,9 @@ interface PartialExitResult {
 }
 
 export class PartialExitManager {
-  private t212Client: Trading212Client | null = null;
+  private t212Client: Trading212Api | null = null;
 
-  setT212Client(client: Trading212Client): void {
+  setT212Client(client: Trading212Api): void {
     this.t212Client = client;
   }
 
@@ -157,11 +167,16 @@ export class PartialExitManager {
     sharesToSell: number,
     exitReason: string,
     accountType: 'INVEST' | 'ISA',
+    client: Trading212Api | null = this.t212Client,
   ): Promise<PartialExitResult> {
-    const dryRun = configManager.get<boolean>('execution.dryRun');
+    const dryRun = fillsLocally();
     const db = getDb();
 
-    const position = db.select().from(positions).where(eq(positions.symbol, symbol)).get();
+    const position = db
+      .select()
+      .from(positions)
+      .where(and(eq(positions.symbol, symbol), eq(positions.accountType, accountType)))
+      .get();
 
     if (!position) {
       log.warn({ symbol }, 'No position found for partial exit');
@@ -181,7 +196,21 @@ export class PartialExitManager {
 
     const now = new Date().toISOString();
     const exitPrice = position.currentPrice ?? position.entryPrice;
-    const partialPnl = (exitPrice - position.entryPrice) * sharesToSell;
+    const exitFxRate = currentFxRate(position);
+    const fxColumns = {
+      currency: position.currency,
+      accountCurrency: position.accountCurrency,
+      entryFxRate: position.entryFxRate,
+      exitFxRate: position.currency ? exitFxRate : null,
+    };
+    const partialSplit = splitPnl(
+      sharesToSell,
+      position.entryPrice,
+      exitPrice,
+      position.entryFxRate ?? 1,
+      exitFxRate,
+    );
+    const partialPnl = partialSplit.pnl;
     const partialPnlPct = (exitPrice - position.entryPrice) / position.entryPrice;
     const isFirstPartialExit = (position.partialExitCount ?? 0) === 0;
 
@@ -244,6 +273,9 @@ export class PartialExitManager {
             intendedPrice: exitPrice,
             slippage: 0,
             accountType,
+            ...fxColumns,
+            pricePnl: partialSplit.pricePnl,
+            fxPnl: partialSplit.fxPnl,
           })
           .run();
 
@@ -255,7 +287,7 @@ export class PartialExitManager {
             partialExitCount: (position.partialExitCount ?? 0) + 1,
             updatedAt: now,
           })
-          .where(eq(positions.symbol, symbol))
+          .where(eq(positions.id, position.id))
           .run();
       });
 
@@ -272,7 +304,7 @@ export class PartialExitManager {
     }
 
     // Live execution
-    if (!this.t212Client) {
+    if (!client) {
       return { success: false, error: 'T212 client not initialized' };
     }
 
@@ -286,17 +318,27 @@ export class PartialExitManager {
       orderTag: 'partial_exit',
       accountType,
     });
+    const intentId = recordIntent({
+      localOrderId,
+      symbol,
+      t212Ticker,
+      accountType,
+      side: 'SELL',
+      orderType: 'market',
+      purpose: 'partial_exit',
+      quantity: sharesToSell,
+      price: exitPrice,
+      context: { exitReason },
+    });
 
     try {
-      const client = this.t212Client;
-      if (!client) throw new Error('Trading212 client not initialized');
-
       // Place market sell order for partial shares
       const order = await client.placeMarketOrder({
         ticker: t212Ticker,
         quantity: sharesToSell,
         timeValidity: 'DAY',
       });
+      markIntentSubmitted(intentId, String(order.id));
       log.info({ symbol, orderId: order.id, sharesToSell }, 'Partial exit market order placed');
 
       // Update order with exchange ID
@@ -326,67 +368,37 @@ export class PartialExitManager {
         filledAt: new Date().toISOString(),
       });
 
-      const actualPartialPnl = (fillPrice - position.entryPrice) * sharesToSell;
+      const actualSplit = splitPnl(
+        sharesToSell,
+        position.entryPrice,
+        fillPrice,
+        position.entryFxRate ?? 1,
+        exitFxRate,
+      );
+      const actualPartialPnl = actualSplit.pnl;
       const actualPartialPnlPct = (fillPrice - position.entryPrice) / position.entryPrice;
       const intendedExitPrice = position.currentPrice ?? position.entryPrice;
       const sellSlippage = (intendedExitPrice - fillPrice) / intendedExitPrice;
 
       // Determine new stop-loss if this is the first partial exit
       let newStopLoss = position.stopLoss;
+      let brokerStop = position.trailingStop ?? position.stopLoss;
       const moveToBreakeven = configManager.get<boolean>('partialExit.moveStopToBreakeven');
 
       if (moveToBreakeven && isFirstPartialExit && position.stopOrderId) {
         newStopLoss = position.entryPrice;
+        brokerStop = Math.max(position.entryPrice, position.trailingStop ?? 0);
+      }
 
-        // Cancel old stop order
-        try {
-          await client.cancelOrder(Number(position.stopOrderId));
-          log.info({ symbol, oldStopOrderId: position.stopOrderId }, 'Cancelled old stop order');
-        } catch (err) {
-          log.warn({ symbol, err }, 'Failed to cancel old stop order');
-        }
-
-        // Wait before placing new stop (exchange needs time)
-        const stopDelay = configManager.get<number>('execution.stopLossDelay');
-        await sleep(stopDelay);
-
-        // Place new stop at breakeven
-        const newShares = position.shares - sharesToSell;
-        try {
-          const slOrderId = createOrder({
-            symbol,
-            side: 'SELL',
-            orderType: 'stop',
-            requestedQuantity: newShares,
-            stopPrice: newStopLoss,
-            orderTag: 'stoploss',
-            accountType,
-          });
-
-          const stopOrder = await client.placeStopOrder({
-            ticker: t212Ticker,
-            quantity: newShares,
-            stopPrice: newStopLoss,
-            timeValidity: 'GTC',
-          });
-
-          updateOrderStatus(slOrderId, {
-            status: 'open',
-            t212OrderId: String(stopOrder.id),
-          });
-
-          log.info(
-            { symbol, newStopOrderId: stopOrder.id, newStopLoss },
-            'Moved stop to breakeven after first partial exit',
-          );
-
-          // Update position with new stop order ID
-          db.update(positions)
-            .set({ stopOrderId: String(stopOrder.id) })
-            .where(eq(positions.symbol, symbol))
-            .run();
-        } catch (err) {
-          log.error({ symbol, err }, 'Failed to place new stop-loss at breakeven');
+      // Resize the broker stop so it never sells more than the shares left
+      if (position.stopOrderId && brokerStop != null) {
+        const moved = await new ProtectiveStops(client).amend(
+          position,
+          brokerStop,
+          position.shares - sharesToSell,
+        );
+        if (moved && newStopLoss !== position.stopLoss) {
+          log.info({ symbol, newStopLoss }, 'Moved stop to breakeven after first partial exit');
         }
       }
 
@@ -409,6 +421,9 @@ export class PartialExitManager {
             intendedPrice: intendedExitPrice,
             slippage: sellSlippage,
             accountType,
+            ...fxColumns,
+            pricePnl: actualSplit.pricePnl,
+            fxPnl: actualSplit.fxPnl,
           })
           .run();
 
@@ -420,8 +435,10 @@ export class PartialExitManager {
             partialExitCount: (position.partialExitCount ?? 0) + 1,
             updatedAt: now,
           })
-          .where(eq(positions.symbol, symbol))
+          .where(eq(positions.id, position.id))
           .run();
+
+        completeIntent(intentId);
       });
 
       log.info(
@@ -448,6 +465,9 @@ export class PartialExitManager {
         status: 'failed',
         cancelReason: err instanceof Error ? err.message : String(err),
       });
+      if (isBrokerRejection(err)) {
+        abandonIntent(intentId, err instanceof Error ? err.message : String(err));
+      }
       log.error({ symbol, err }, 'Failed to execute partial exit');
       return {
         success: false,
@@ -456,7 +476,7 @@ export class PartialExitManager {
     }
   }
 
-  private async waitForFill(client: Trading212Client, orderId: number): Promise<number | null> {
+  private async waitForFill(client: Trading212Api, orderId: number): Promise<number | null> {
     const timeoutSecs = configManager.get<number>('execution.orderTimeoutSeconds');
     const maxAttempts = timeoutSecs * 2; // Poll every 500ms
 
@@ -0,0 +1,351 @@
+import { getPortfolioOptimizer } from '../analysis/portfolio-optimizer.js';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { ApiError } from '../api/trading212/errors.js';
+import type { CreatePieRequest, Pie } from '../api/trading212/types.js';
+import { configManager } from '../config/manager.js';
+import { getCandleStore } from '../data/candle-store.js';
+import {
+  deleteManagedPie,
+  getManagedPie,
+  getPieSnapshots,
+  type InstrumentShares,
+  insertPieSnapshot,
+  type ManagedPie,
+  markManagedPieChecked,
+  type PieSnapshot,
+  saveManagedPie,
+} from '../db/repositories/pies.js';
+import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import { getRiskParitySizer } from './risk-parity.js';
+
+const log = createLogger('pie-manager');
+
+export type PieAllocationMethod = 'riskParity' | 'maxSharpe' | 'minVariance';
+
+/** Slices below this share are dropped rather than kept as dust. */
+const MIN_SHARE = 0.005;
+/** Shares are sent in 0.1% steps that sum to exactly 1. */
+const SHARE_STEP = 0.001;
+/** Fewest daily closes an instrument needs to be allocated. */
+const MIN_HISTORY_BARS = 30;
+const PIE_ICON = 'Briefcase';
+
+export interface PieRebalanceResult {
+  action: 'created' | 'updated' | 'unchanged' | 'skipped';
+  pieId: number | null;
+  instrumentShares: InstrumentShares;
+  /** Largest change in any instrument's share versus the pie's current targets */
+  maxShareChange: number;
+  reason?: string;
+}
+
+export interface PieStatus {
+  pie: ManagedPie | null;
+  latest: PieSnapshot | null;
+  history: PieSnapshot[];
+}
+
+/**
+ * Runs "pie mode": a bot-owned Trading212 Pie whose instrument shares come
+ * from the PortfolioOptimizer or RiskParitySizer. Trading212 rebalances the
+ * pie itself as money goes in, so the bot only rewrites the target shares,
+ * and only when they moved by `pies.minShareChange` — a low-turnover sleeve
+ * next to the active strategy. Value, return and drift are snapshotted so
+ * the sleeve can be tracked over time.
+ */
+export class PieManager {
+  /**
+   * Recompute the allocation and write it to the account's pie, creating the
+   * pie on first use (or again if it was deleted in the app).
+   * `resolveTicker` maps configured symbols to Trading212 tickers.
+   *
+   * Settings are all read before the first await, so a call made inside
+   * `account.withConfig` runs on that account's `pies.*` overrides.
+   */
+  async rebalance(
+    client: Trading212Api,
+    accountType: AccountType,
+    resolveTicker: (symbol: string) => string | null,
+  ): Promise<PieRebalanceResult> {
+    const method = configManager.get<PieAllocationMethod>('pies.method');
+    const minShareChange = configManager.get<number>('pies.minShareChange');
+    const goal = configManager.get<number>('pies.goal');
+    const request: Omit<CreatePieRequest, 'instrumentShares'> = {
+      name: configManager.get<string>('pies.name'),
+      icon: PIE_ICON,
+      dividendCashAction:
+        configManager.get<CreatePieRequest['dividendCashAction']>('pies.dividendCashAction'),
+      ...(goal > 0 && { goal }),
+    };
+    const target = await this.computeShares(
+      configManager.get<string[]>('pies.symbols'),
+      method,
+      resolveTicker,
+    );
+    const existing = getManagedPie(accountType);
+    if (Object.keys(target).length === 0) {
+      if (existing) markManagedPieChecked(accountType);
+      return {
+        action: 'skipped',
+        pieId: existing?.pieId ?? null,
+        instrumentShares: {},
+        maxShareChange: 0,
+        reason: 'No pie instruments with enough price history',
+      };
+    }
+
+    const pie: CreatePieRequest = { ...request, instrumentShares: target };
+
+    if (existing) {
+      const maxShareChange = shareChange(existing.instrumentShares, target);
+      if (maxShareChange < minShareChange) {
+        // Counts as a rebalance check, so the next one waits a full interval
+        markManagedPieChecked(accountType);
+        log.info(
+          { accountType, pieId: existing.pieId, maxShareChange },
+          'Pie allocation unchanged',
+        );
+        return {
+          action: 'unchanged',
+          pieId: existing.pieId,
+          instrumentShares: target,
+          maxShareChange,
+        };
+      }
+
+      try {
+        await client.updatePie(existing.pieId, pie);
+        this.record(accountType, existing.pieId, pie, method);
+        log.info({ accountType, pieId: existing.pieId, target, maxShareChange }, 'Pie rebalanced');
+        return {
+          action: 'updated',
+          pieId: existing.pieId,
+          instrumentShares: target,
+          maxShareChange,
+        };
+      } catch (err) {
+        if (!(err instanceof ApiError && err.statusCode === 404)) throw err;
+        log.warn(
+          { accountType, pieId: existing.pieId },
+          'Managed pie no longer exists — recreating',
+        );
+        deleteManagedPie(accountType);
+      }
+    }
+
+    const created = await client.createPie(pie);
+    if (created.id == null) throw new Error('Trading212 did not return an ID for the new pie');
+    this.record(accountType, created.id, pie, method);
+    log.info({ accountType, pieId: created.id, target }, 'Managed pie created');
+    return { action: 'created', pieId: created.id, instrumentShares: target, maxShareChange: 1 };
+  }
+
+  /**
+   * Whether the allocation is due for recomputing (`pies.rebalanceIntervalDays`
+   * since it was last checked, whether or not the shares changed then).
+   */
+  isRebalanceDue(accountType: AccountType, now = new Date()): boolean {
+    const pie = getManagedPie(accountType);
+    if (!pie) return true;
+    const intervalMs = configManager.get<number>('pies.rebalanceIntervalDays') * 86_400_000;
+    return now.getTime() - Date.parse(pie.checkedAt ?? pie.rebalancedAt) >= intervalMs;
+  }
+
+  /** Record the pie's value, return and drift from its targets. Returns null without a pie. */
+  async snapshot(client: Trading212Api, accountType: AccountType): Promise<PieSnapshot | null> {
+    const managed = getManagedPie(accountType);
+    if (!managed) return null;
+
+    const [detail, summaries] = await Promise.all([client.getPie(managed.pieId), client.getPies()]);
+    const summary = summaries.find((p) => p.id === managed.pieId);
+    const result = resultOf(summary);
+
+    const currentShares: InstrumentShares = {};
+    let gap = 0;
+    for (const instrument of detail.instruments ?? []) {
+      const current = Number(instrument.currentShare ?? 0);
+      currentShares[instrument.ticker] = current;
+      gap += Math.abs(
+        current - (instrument.expectedShare ?? managed.instrumentShares[instrument.ticker] ?? 0),
+      );
+    }
+
+    const snapshot = {
+      accountType,
+      pieId: managed.pieId,
+      value: result?.priceAvgValue ?? null,
+      invested: result?.priceAvgInvestedValue ?? null,
+      result: result?.priceAvgResult ?? null,
+      returnPct: result?.priceAvgResultCoef ?? null,
+      cash: summary?.cash ?? null,
+      progress: summary?.progress ?? null,
+      // Half the summed gaps: the share of the pie that would have to move
+      drift: gap / 2,
+      currentShares,
+    };
+    log.info(
+      { accountType, pieId: managed.pieId, value: snapshot.value, drift: snapshot.drift },
+      'Pie snapshot recorded',
+    );
+    return insertPieSnapshot(snapshot);
+  }
+
+  getStatus(accountType: AccountType, from?: string): PieStatus {
+    const pie = getManagedPie(accountType);
+    const history = pie ? getPieSnapshots(pie.pieId, from) : [];
+    return { pie, latest: history.at(-1) ?? null, history };
+  }
+
+  /**
+   * Target shares per Trading212 ticker: weights from the configured method,
+   * capped at `pies.maxInstrumentShare`, dust dropped and rounded to steps
+   * that sum to exactly 1.
+   */
+  async computeShares(
+    symbols: string[],
+    method: PieAllocationMethod,
+    resolveTicker: (symbol: string) => string | null,
+  ): Promise<InstrumentShares> {
+    const lookbackDays = configManager.get<number>('pies.lookbackDays');
+    const maxShare = configManager.get<number>('pies.maxInstrumentShare');
+    const to = new Date().toISOString().slice(0, 10);
+    const from = new Date(Date.now() - lookbackDays * 86_400_000).toISOString().slice(0, 10);
+    const candleStore = getCandleStore();
+
+    const tickers = new Map<string, string>();
+    const closes = new Map<string, number[]>();
+    const volatility = new Map<string, number>();
+    for (const symbol of symbols) {
+      const ticker = resolveTicker(symbol);
+      if (!ticker) {
+        log.warn({ symbol }, 'Pie instrument not available on Trading212 — skipped');
+        continue;
+      }
+      const candles = await candleStore.load(symbol, from, to);
+      if (candles.length < MIN_HISTORY_BARS) {
+        log.warn({ symbol, bars: candles.length }, 'Not enough history for pie instrument');
+        continue;
+      }
+      tickers.set(symbol, ticker);
+      closes.set(
+        symbol,
+        candles.map((c) => c.close),
+      );
+      volatility.set(symbol, getRiskParitySizer().getVolatility(candles, lookbackDays));
+    }
+    if (tickers.size === 0) return {};
+
+    let weights: Record<string, number>;
+    if (method === 'riskParity') {
+      weights = {};
+      for (const [symbol, vol] of volatility) {
+        if (vol > 0) weights[symbol] = 1 / vol;
+      }
+    } else {
+      const optimizer = getPortfolioOptimizer();
+      const returns = optimizer.calculateReturns(closes);
+      const constraints = { maxPositionSize: maxShare };
+      weights =
+        method === 'maxSharpe'
+          ? optimizer.optimizeMaxSharpe(returns, undefined, constraints)
+          : optimizer.optimizeMinVariance(returns, constraints);
+    }
+
+    const shares: InstrumentShares = {};
+    for (const [symbol, share] of Object.entries(toShares(weights, maxShare))) {
+      const ticker = tickers.get(symbol);
+      if (ticker) shares[ticker] = share;
+    }
+    return shares;
+  }
+
+  private record(
+    accountType: AccountType,
+    pieId: number,
+    request: CreatePieRequest,
+    method: PieAllocationMethod,
+  ): void {
+    saveManagedPie({
+      accountType,
+      pieId,
+      name: request.name,
+      method,
+      instrumentShares: request.instrumentShares,
+      goal: request.goal ?? null,
+    });
+  }
+}
+
+interface PieResult {
+  priceAvgInvestedValue?: number;
+  priceAvgValue?: number;
+  priceAvgResult?: number;
+  priceAvgResultCoef?: number;
+}
+
+function resultOf(pie: Pie | undefined): PieResult | null {
+  return pie?.result != null && typeof pie.result === 'object' ? (pie.result as PieResult) : null;
+}
+
+/** Largest absolute change in any ticker's share between two allocations. */
+function shareChange(from: InstrumentShares, to: InstrumentShares): number {
+  const tickers = new Set([...Object.keys(from), ...Object.keys(to)]);
+  let max = 0;
+  for (const ticker of tickers) {
+    max = Math.max(max, Math.abs((to[ticker] ?? 0) - (from[ticker] ?? 0)));
+  }
+  return max;
+}
+
+/**
+ * Normalise weights, cap each at `maxShare` (spreading the excess over the
+ * uncapped ones), drop dust and round to SHARE_STEP with the largest
+ * remainders taking the leftover steps.
+ */
+function toShares(weights: Record<string, number>, maxShare: number): Record<string, number> {
+  let entries = Object.entries(weights).filter(([, w]) => w > 0 && Number.isFinite(w));
+  if (entries.length === 0) return {};
+
+  const normalise = () => {
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    entries = entries.map(([s, w]) => [s, w / total]);
+  };
+  normalise();
+
+  // A cap below 1/n cannot be met; equal weights are as close as it gets
+  const cap = Math.max(maxShare, 1 / entries.length);
+  for (let pass = 0; pass < entries.length; pass++) {
+    const excess = entries.reduce((sum, [, w]) => sum + Math.max(0, w - cap), 0);
+    if (excess <= 1e-12) break;
+    const free = entries.reduce((sum, [, w]) => sum + (w < cap ? w : 0), 0);
+    entries = entries.map(([s, w]) => [s, w >= cap ? cap : w + (excess * w) / free]);
+  }
+
+  entries = entries.filter(([, w]) => w >= MIN_SHARE);
+  normalise();
+
+  const steps = Math.round(1 / SHARE_STEP);
+  const floored = entries.map(([s, w]) => ({
+    symbol: s,
+    steps: Math.floor(w * steps),
+    remainder: w * steps - Math.floor(w * steps),
+  }));
+  let leftover = steps - floored.reduce((sum, e) => sum + e.steps, 0);
+  for (const entry of [...floored].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover <= 0) break;
+    entry.steps++;
+    leftover--;
+  }
+
+  return Object.fromEntries(floored.map((e) => [e.symbol, e.steps / steps]));
+}
+
+let instance: PieManager | null = null;
+
+export function getPieManager(): PieManager {
+  if (!instance) {
+    instance = new PieManager();
+  }
+  return instance;
+}
@@ -1,19 +1,40 @@
 import { eq } from 'drizzle-orm';
-import type { Trading212Client } from '../api/trading212/client.js';
+import type { Trading212Api } from '../api/trading212/client.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
 import { positions, trades } from '../db/schema.js';
+import { currentFxRate, signedShares, splitPnl } from '../utils/currency.js';
 import { createLogger } from '../utils/logger.js';
+import {
+  type ExitCondition,
+  evaluateExitConditions,
+  parseExitConditionText,
+} from './exit-condition-dsl.js';
 import { parseRoiTable, shouldExitByRoi } from './roi-table.js';
+import {
+  accruedFinancing,
+  directionalReturn,
+  isStopHit,
+  isTargetHit,
+  isTighterStop,
+  stopPriceFor,
+} from './short-selling.js';
 
 const log = createLogger('position-tracker');
 
+type PositionRow = typeof positions.$inferSelect;
+
 export interface ExitCheckResult {
-  positionsToClose: string[];
-  exitReasons: Record<string, string>;
+  /** Rows to close; accounts can each hold the same symbol, so these are not per symbol */
+  positionsToClose: PositionRow[];
+  /** Exit reason by position id */
+  exitReasons: Record<number, string>;
 }
 
 export class PositionTracker {
+  // Parsed `exit.conditions` by text; accounts can override the rules
+  private exitRulesByText = new Map<string, ExitCondition[]>();
+
   async updatePositions(): Promise<void> {
     const db = getDb();
     const allPositions = db.select().from(positions).all();
@@ -30,19 +51,7 @@ export class PositionTracker {
         const quote = await yahoo.getQuote(pos.symbol);
         if (!quote) continue;
 
-        const pnl = (quote.price - pos.entryPrice) * pos.shares;
-        const pnlPct = (quote.price - pos.entryPrice) / pos.entryPrice;
-
-        db.update(positions)
-          .set({
-            currentPrice: quote.price,
-            pnl,
-            pnlPct,
-            updatedAt: now,
-          })
-          .where(eq(positions.symbol, pos.symbol))
-          .run();
-
+        await this.revalue(pos, quote.price, now);
         updated++;
       } catch (err) {
         log.error({ symbol: pos.symbol, err }, 'Failed to update position price');
@@ -52,16 +61,65 @@ export class PositionTracker {
     log.info({ totalPositions: allPositions.length, updated }, 'Positions updated');
   }
 
-  async syncWithT212(t212Client: Trading212Client): Promise<void> {
+  /**
+   * Revalue every position in `symbol` at a streamed price, one per account
+   * holding it. Returns the updated rows; none when the symbol is no longer held.
+   */
+  async markPrice(symbol: string, price: number): Promise<PositionRow[]> {
+    const held = getDb().select().from(positions).where(eq(positions.symbol, symbol)).all();
+    const now = new Date().toISOString();
+    const marked: PositionRow[] = [];
+    for (const pos of held) marked.push(await this.revalue(pos, price, now));
+    return marked;
+  }
+
+  private async revalue(pos: PositionRow, price: number, now: string): Promise<PositionRow> {
+    // Foreign-currency positions are revalued at the live rate; P&L is in account currency
+    let fx: { currentFxRate: number; pricePnl: number; fxPnl: number } | undefined;
+    if (pos.currency && pos.accountCurrency) {
+      const { getFxRateService } = await import('../data/fx-rates.js');
+      const rate =
+        (await getFxRateService().getRate(pos.currency, pos.accountCurrency)) ?? currentFxRate(pos);
+      const split = splitPnl(signedShares(pos), pos.entryPrice, price, pos.entryFxRate ?? 1, rate);
+      fx = { currentFxRate: rate, pricePnl: split.pricePnl, fxPnl: split.fxPnl };
+    }
+
+    // Net of the short financing booked so far
+    const pnl =
+      (fx ? fx.pricePnl + fx.fxPnl : (price - pos.entryPrice) * signedShares(pos)) -
+      (pos.financingCost ?? 0);
+    const pnlPct = directionalReturn(pos.entryPrice, price, pos.direction);
+
+    const update = { currentPrice: price, pnl, pnlPct, ...fx, updatedAt: now };
+    getDb().update(positions).set(update).where(eq(positions.id, pos.id)).run();
+    return { ...pos, ...update };
+  }
+
+  /**
+   * Reconcile DB positions with the account's T212 portfolio. With several
+   * accounts, pass `accountType` so positions held in the other account are
+   * not mistaken for external closes.
+   */
+  async syncWithT212(t212Client: Trading212Api, accountType?: 'INVEST' | 'ISA'): Promise<void> {
     const db = getDb();
-    const dbPositions = db.select().from(positions).all();
+    const dbPositions = db
+      .select()
+      .from(positions)
+      .where(accountType ? eq(positions.accountType, accountType) : undefined)
+      .all();
     const dbSymbolMap = new Map(dbPositions.map((p) => [p.t212Ticker, p]));
 
     try {
       const t212Positions = await t212Client.getPortfolio();
       const getTicker = (p: (typeof t212Positions)[number]) =>
         p.ticker ?? p.instrument?.ticker ?? '';
-      const t212TickerSet = new Set(t212Positions.map(getTicker));
+      // Shares held in pies belong to the pie sleeve, not to bot positions.
+      // Shorts come back with a negative quantity and are compared by size.
+      const ownQuantity = (p: (typeof t212Positions)[number]) =>
+        Math.abs(p.quantity - (p.quantityInPies ?? p.pieQuantity ?? 0));
+      const t212TickerSet = new Set(
+        t212Positions.filter((p) => ownQuantity(p) > 0.000001).map(getTicker),
+      );
 
       // Check for positions in DB but not in T212 — auto-reconcile
       for (const [ticker, dbPos] of dbSymbolMap) {
@@ -71,15 +129,25 @@ export class PositionTracker {
             'Position in DB but not in T212 — auto-reconciling (external close)',
           );
           const exitPrice = dbPos.currentPrice ?? dbPos.entryPrice;
-          const pnl = (exitPrice - dbPos.entryPrice) * dbPos.shares;
-          const pnlPct = (exitPrice - dbPos.entryPrice) / dbPos.entryPrice;
+          const split = splitPnl(
+            signedShares(dbPos),
+            dbPos.entryPrice,
+            exitPrice,
+            dbPos.entryFxRate ?? 1,
+            currentFxRate(dbPos),
+          );
+          const { pricePnl, fxPnl } = split;
+          const financingCost = dbPos.direction === 'SHORT' ? accruedFinancing(dbPos) : null;
+          const pnl = split.pnl - (financingCost ?? 0);
+          const pnlPct = directionalReturn(dbPos.entryPrice, exitPrice, dbPos.direction);
           const now = new Date().toISOString();
 
           db.insert(trades)
             .values({
               symbol: dbPos.symbol,
               t212Ticker: dbPos.t212Ticker,
-              side: 'SELL',
+              side: dbPos.direction === 'SHORT' ? 'BUY' : 'SELL',
+              direction: dbPos.direction,
               shares: dbPos.shares,
               entryPrice: dbPos.entryPrice,
               exitPrice,
@@ -89,10 +157,17 @@ export class PositionTracker {
               exitTime: now,
               exitReason: 'External close (T212 sync)',
               accountType: dbPos.accountType ?? 'INVEST',
+              currency: dbPos.currency,
+              accountCurrency: dbPos.accountCurrency,
+              entryFxRate: dbPos.entryFxRate,
+              exitFxRate: dbPos.currency ? currentFxRate(dbPos) : null,
+              pricePnl,
+              fxPnl,
+              financingCost,
             })
             .run();
 
-          db.delete(positions).where(eq(positions.symbol, dbPos.symbol)).run();
+          db.delete(positions).where(eq(positions.id, dbPos.id)).run();
           log.info({ symbol: dbPos.symbol, pnl, pnlPct }, 'Position auto-reconciled');
         }
       }
@@ -100,30 +175,32 @@ export class PositionTracker {
       // Check for positions in T212 but not in DB
       for (const t212Pos of t212Positions) {
         const ticker = getTicker(t212Pos);
+        const quantity = ownQuantity(t212Pos);
+        if (quantity <= 0.000001) continue;
         if (!dbSymbolMap.has(ticker)) {
           log.warn(
-            { t212Ticker: ticker, quantity: t212Pos.quantity },
+            { t212Ticker: ticker, quantity },
             'Position in T212 but not tracked in DB — unmanaged position',
           );
         } else {
           // Reconcile quantity differences — update DB to match T212 (source of truth)
           const dbPos = dbSymbolMap.get(ticker);
           if (!dbPos) continue;
-          if (Math.abs(dbPos.shares - t212Pos.quantity) > 0.001) {
+          if (Math.abs(dbPos.shares - quantity) > 0.001) {
             log.warn(
               {
                 symbol: dbPos.symbol,
                 dbShares: dbPos.shares,
-                t212Shares: t212Pos.quantity,
+                t212Shares: quantity,
               },
               'Position quantity mismatch — reconciling DB to match T212',
             );
             db.update(positions)
               .set({
-                shares: t212Pos.quantity,
+                shares: quantity,
                 updatedAt: new Date().toISOString(),
               })
-              .where(eq(positions.symbol, dbPos.symbol))
+              .where(eq(positions.id, dbPos.id))
               .run();
           }
         }
@@ -142,161 +219,252 @@ export class PositionTracker {
     const db = getDb();
     const allPositions = db.select().from(positions).all();
 
-    for (const pos of allPositions) {
-      if (pos.currentPrice == null || pos.stopLoss == null) continue;
-
-      const pnlPct = (pos.currentPrice - pos.entryPrice) / pos.entryPrice;
-
-      // Only trail for profitable positions
-      if (pnlPct <= 0) continue;
+    for (const pos of allPositions) this.trailStop(pos);
+  }
 
-      // Trail by the original stop distance as a percentage
-      const originalStopPct = (pos.entryPrice - pos.stopLoss) / pos.entryPrice;
-      const newTrailingStop = pos.currentPrice * (1 - originalStopPct);
+  /**
+   * Ratchet a profitable position's trailing stop to the original stop
+   * distance from the current price. Returns the row with the stop applied.
+   */
+  trailStop(pos: PositionRow): PositionRow {
+    if (pos.currentPrice == null || pos.stopLoss == null) return pos;
+
+    const pnlPct = directionalReturn(pos.entryPrice, pos.currentPrice, pos.direction);
+
+    // Only trail for profitable positions
+    if (pnlPct <= 0) return pos;
+
+    // Trail by the original stop distance as a percentage
+    const originalStopPct = Math.abs(pos.entryPrice - pos.stopLoss) / pos.entryPrice;
+    const newTrailingStop = stopPriceFor(pos.currentPrice, originalStopPct, pos.direction);
+
+    // Only tighten the stop (up for longs, down for shorts), never loosen it
+    const currentStop = pos.trailingStop ?? pos.stopLoss;
+    if (!isTighterStop(newTrailingStop, currentStop, pos.direction)) return pos;
+
+    const updatedAt = new Date().toISOString();
+    getDb()
+      .update(positions)
+      .set({ trailingStop: newTrailingStop, updatedAt })
+      .where(eq(positions.id, pos.id))
+      .run();
+
+    log.info(
+      {
+        symbol: pos.symbol,
+        oldStop: currentStop,
+        newStop: newTrailingStop,
+        currentPrice: pos.currentPrice,
+        pnlPct: `${(pnlPct * 100).toFixed(2)}%`,
+      },
+      'Trailing stop updated',
+    );
+    return { ...pos, trailingStop: newTrailingStop, updatedAt };
+  }
 
-      // Only move stop up, never down
-      const currentStop = pos.trailingStop ?? pos.stopLoss;
-      if (newTrailingStop > currentStop) {
-        db.update(positions)
-          .set({
-            trailingStop: newTrailingStop,
-            updatedAt: new Date().toISOString(),
-          })
-          .where(eq(positions.symbol, pos.symbol))
-          .run();
+  /**
+   * Book the borrow and overnight fees shorts have run up since they were
+   * last accrued. Runs daily; closes add whatever accrued since. Returns the
+   * total charged.
+   */
+  accrueFinancing(now = new Date()): number {
+    const db = getDb();
+    const shorts = db.select().from(positions).where(eq(positions.direction, 'SHORT')).all();
+    const accruedAt = now.toISOString();
+
+    let charged = 0;
+    for (const pos of shorts) {
+      const financingCost = accruedFinancing(pos, now);
+      charged += financingCost - (pos.financingCost ?? 0);
+      db.update(positions)
+        .set({
+          financingCost,
+          financingAccruedAt: accruedAt,
+          updatedAt: accruedAt,
+        })
+        .where(eq(positions.id, pos.id))
+        .run();
+    }
 
-        log.info(
-          {
-            symbol: pos.symbol,
-            oldStop: currentStop,
-            newStop: newTrailingStop,
-            currentPrice: pos.currentPrice,
-            pnlPct: `${(pnlPct * 100).toFixed(2)}%`,
-          },
-          'Trailing stop updated',
-        );
-      }
+    if (shorts.length > 0) {
+      log.info({ shorts: shorts.length, charged }, 'Short financing accrued');
     }
+    return charged;
   }
 
-  async checkExitConditions(): Promise<ExitCheckResult> {
+  /**
+   * Positions whose exit condition holds at their stored price. Pass
+   * `withConfig` to evaluate each under its own account's overrides.
+   */
+  async checkExitConditions(
+    withConfig: <T>(position: PositionRow, fn: () => T) => T = (_position, fn) => fn(),
+  ): Promise<ExitCheckResult> {
     const db = getDb();
     const allPositions = db.select().from(positions).all();
-    const positionsToClose: string[] = [];
-    const exitReasons: Record<string, string> = {};
+    const positionsToClose: PositionRow[] = [];
+    const exitReasons: Record<number, string> = {};
 
     for (const pos of allPositions) {
-      if (pos.currentPrice == null) continue;
+      const reason = withConfig(pos, () => this.exitReason(pos));
+      if (reason) {
+        positionsToClose.push(pos);
+        exitReasons[pos.id] = reason;
+      }
+    }
 
-      const effectiveStop = pos.trailingStop ?? pos.stopLoss;
+    if (positionsToClose.length > 0) {
+      log.info(
+        { positionsToClose: positionsToClose.map((p) => `${p.symbol} (${p.accountType})`) },
+        'Exit conditions triggered',
+      );
+    }
 
-      // Check stop-loss / trailing stop (highest priority)
-      if (effectiveStop != null && pos.currentPrice <= effectiveStop) {
-        log.warn(
-          {
-            symbol: pos.symbol,
-            currentPrice: pos.currentPrice,
-            stopLevel: effectiveStop,
-          },
-          'Stop-loss triggered',
-        );
-        positionsToClose.push(pos.symbol);
-        exitReasons[pos.symbol] = 'Stop-loss triggered';
-        continue;
-      }
+    return { positionsToClose, exitReasons };
+  }
+
+  /**
+   * Why `pos` should close at its current price, or null to hold. Pass the
+   * previous tick's price so crossing rules in `exit.conditions` can fire.
+   */
+  exitReason(pos: PositionRow, previousPrice?: number): string | null {
+    if (pos.currentPrice == null) return null;
+
+    const effectiveStop = pos.trailingStop ?? pos.stopLoss;
+
+    // Check stop-loss / trailing stop (highest priority)
+    if (effectiveStop != null && isStopHit(pos.currentPrice, effectiveStop, pos.direction)) {
+      log.warn(
+        {
+          symbol: pos.symbol,
+          currentPrice: pos.currentPrice,
+          stopLevel: effectiveStop,
+        },
+        'Stop-loss triggered',
+      );
+      return 'Stop-loss triggered';
+    }
+
+    // Check take-profit
+    if (pos.takeProfit != null && isTargetHit(pos.currentPrice, pos.takeProfit, pos.direction)) {
+      log.info(
+        {
+          symbol: pos.symbol,
+          currentPrice: pos.currentPrice,
+          takeProfit: pos.takeProfit,
+        },
+        'Take-profit triggered',
+      );
+      return 'Take-profit triggered';
+    }
+
+    const pnlPct = directionalReturn(pos.entryPrice, pos.currentPrice, pos.direction);
 
-      // Check take-profit
-      if (pos.takeProfit != null && pos.currentPrice >= pos.takeProfit) {
+    // Check ROI table exit (after stop-loss/take-profit, before AI conditions)
+    const roiEnabled = configManager.get<boolean>('exit.roiEnabled');
+    if (roiEnabled) {
+      const roiTableJson = configManager.get<string>('exit.roiTable');
+      const roiTable = parseRoiTable(
+        typeof roiTableJson === 'string' ? roiTableJson : JSON.stringify(roiTableJson),
+      );
+      const roiResult = shouldExitByRoi(roiTable, pos.entryTime, pnlPct);
+
+      if (roiResult.shouldExit) {
         log.info(
           {
             symbol: pos.symbol,
-            currentPrice: pos.currentPrice,
-            takeProfit: pos.takeProfit,
+            pnlPct: `${(pnlPct * 100).toFixed(2)}%`,
+            threshold: `${((roiResult.threshold ?? 0) * 100).toFixed(2)}%`,
+            tradeMinutes: Math.round(roiResult.tradeMinutes),
           },
-          'Take-profit triggered',
+          'ROI exit triggered',
         );
-        positionsToClose.push(pos.symbol);
-        exitReasons[pos.symbol] = 'Take-profit triggered';
-        continue;
+        return 'roi_table';
       }
+    }
 
-      // Check ROI table exit (after stop-loss/take-profit, before AI conditions)
-      const roiEnabled = configManager.get<boolean>('exit.roiEnabled');
-      if (roiEnabled) {
-        const roiTableJson = configManager.get<string>('exit.roiTable');
-        const roiTable = parseRoiTable(
-          typeof roiTableJson === 'string' ? roiTableJson : JSON.stringify(roiTableJson),
+    // Check exit-condition DSL rules; ticks carry no candles, so indicator rules never fire here
+    const rules = this.exitRules();
+    if (rules.length > 0) {
+      const hoursHeld = (Date.now() - new Date(pos.entryTime).getTime()) / 3_600_000;
+      const result = evaluateExitConditions(rules, {
+        currentPrice: pos.currentPrice,
+        previousPrice,
+        entryPrice: pos.entryPrice,
+        pnlPct: pnlPct * 100,
+        pnlAbs: pos.pnl ?? (pos.currentPrice - pos.entryPrice) * signedShares(pos),
+        daysHeld: hoursHeld / 24,
+        hoursHeld,
+        indicators: {},
+      });
+      if (result.shouldExit) {
+        log.info(
+          { symbol: pos.symbol, conditions: result.triggeredConditions },
+          'Exit condition triggered',
         );
-        const pnlPct = (pos.currentPrice - pos.entryPrice) / pos.entryPrice;
-        const roiResult = shouldExitByRoi(roiTable, pos.entryTime, pnlPct);
-
-        if (roiResult.shouldExit) {
-          log.info(
-            {
-              symbol: pos.symbol,
-              pnlPct: `${(pnlPct * 100).toFixed(2)}%`,
-              threshold: `${((roiResult.threshold ?? 0) * 100).toFixed(2)}%`,
-              tradeMinutes: Math.round(roiResult.tradeMinutes),
-            },
-            'ROI exit triggered',
-          );
-          positionsToClose.push(pos.symbol);
-          exitReasons[pos.symbol] = 'roi_table';
-          continue;
-        }
+        return `exit_condition: ${result.triggeredConditions.join(', ')}`;
       }
+    }
 
-      // Check AI-defined exit conditions (stored as JSON)
-      if (pos.aiExitConditions) {
-        try {
-          const conditions = JSON.parse(pos.aiExitConditions) as {
-            maxHoldDays?: number;
-            priceTarget?: number;
-            stopOnReversal?: boolean;
-          };
-
-          // Max hold duration check
-          if (conditions.maxHoldDays) {
-            const entryDate = new Date(pos.entryTime).getTime();
-            const holdDays = (Date.now() - entryDate) / (1000 * 60 * 60 * 24);
-            if (holdDays >= conditions.maxHoldDays) {
-              log.info(
-                {
-                  symbol: pos.symbol,
-                  holdDays: holdDays.toFixed(1),
-                  maxHoldDays: conditions.maxHoldDays,
-                },
-                'Max hold duration reached',
-              );
-              positionsToClose.push(pos.symbol);
-              exitReasons[pos.symbol] = 'Max hold duration reached';
-              continue;
-            }
-          }
-
-          // AI-specified price target (distinct from take-profit)
-          if (conditions.priceTarget && pos.currentPrice >= conditions.priceTarget) {
+    // Check AI-defined exit conditions (stored as JSON)
+    if (pos.aiExitConditions) {
+      try {
+        const conditions = JSON.parse(pos.aiExitConditions) as {
+          maxHoldDays?: number;
+          priceTarget?: number;
+          stopOnReversal?: boolean;
+        };
+
+        // Max hold duration check
+        if (conditions.maxHoldDays) {
+          const entryDate = new Date(pos.entryTime).getTime();
+          const holdDays = (Date.now() - entryDate) / (1000 * 60 * 60 * 24);
+          if (holdDays >= conditions.maxHoldDays) {
             log.info(
               {
                 symbol: pos.symbol,
-                currentPrice: pos.currentPrice,
-                priceTarget: conditions.priceTarget,
+                holdDays: holdDays.toFixed(1),
+                maxHoldDays: conditions.maxHoldDays,
               },
-              'AI price target reached',
+              'Max hold duration reached',
             );
-            positionsToClose.push(pos.symbol);
-            exitReasons[pos.symbol] = 'AI price target reached';
+            return 'Max hold duration reached';
           }
-        } catch {
-          log.warn({ symbol: pos.symbol }, 'Failed to parse AI exit conditions');
         }
+
+        // AI-specified price target (distinct from take-profit)
+        if (
+          conditions.priceTarget &&
+          isTargetHit(pos.currentPrice, conditions.priceTarget, pos.direction)
+        ) {
+          log.info(
+            {
+              symbol: pos.symbol,
+              currentPrice: pos.currentPrice,
+              priceTarget: conditions.priceTarget,
+            },
+            'AI price target reached',
+          );
+          return 'AI price target reached';
+        }
+      } catch {
+        log.warn({ symbol: pos.symbol }, 'Failed to parse AI exit conditions');
       }
     }
 
-    if (positionsToClose.length > 0) {
-      log.info({ positionsToClose }, 'Exit conditions triggered');
-    }
+    return null;
+  }
 
-    return { positionsToClose, exitReasons };
+  /** Parsed `exit.conditions`, parsed once per distinct text. */
+  private exitRules(): ExitCondition[] {
+    const text = configManager.get<string>('exit.conditions') || '';
+    let rules = this.exitRulesByText.get(text);
+    if (!rules) {
+      rules = parseExitConditionText(text);
+      this.exitRulesByText.set(text, rules);
+      if (text.trim() && rules.length === 0) {
+        log.warn({ conditions: text }, 'exit.conditions did not parse into any rule');
+      }
+    }
+    return rules;
   }
 }
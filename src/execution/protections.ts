@@ -2,6 +2,7 @@ import { and, eq, gte, isNotNull } from 'drizzle-orm';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
 import { trades } from '../db/schema.js';
+import { currentTimeMs } from '../utils/clock.js';
 import { createLogger } from '../utils/logger.js';
 import { getPairLockManager } from './pair-locks.js';
 
@@ -79,7 +80,7 @@ export class ProtectionManager {
     const lockMinutes = configManager.get<number>('protection.stoplossGuard.lockMinutes');
     const onlyPerPair = configManager.get<boolean>('protection.stoplossGuard.onlyPerPair');
 
-    const cutoff = new Date(Date.now() - lookbackMinutes * 60_000).toISOString();
+    const cutoff = new Date(currentTimeMs() - lookbackMinutes * 60_000).toISOString();
     const db = getDb();
 
     // Query recent closed trades with exit reasons containing "stop"
@@ -142,7 +143,7 @@ export class ProtectionManager {
     const lookbackMinutes = configManager.get<number>('protection.maxDrawdownLock.lookbackMinutes');
     const lockMinutes = configManager.get<number>('protection.maxDrawdownLock.lockMinutes');
 
-    const cutoff = new Date(Date.now() - lookbackMinutes * 60_000).toISOString();
+    const cutoff = new Date(currentTimeMs() - lookbackMinutes * 60_000).toISOString();
     const db = getDb();
 
     // Get closed trades in the lookback window, ordered by exit time ascending
@@ -203,7 +204,7 @@ export class ProtectionManager {
     const lookbackMinutes = configManager.get<number>('protection.lowProfitPair.lookbackMinutes');
     const lockMinutes = configManager.get<number>('protection.lowProfitPair.lockMinutes');
 
-    const cutoff = new Date(Date.now() - lookbackMinutes * 60_000).toISOString();
+    const cutoff = new Date(currentTimeMs() - lookbackMinutes * 60_000).toISOString();
     const db = getDb();
 
     // Get closed trades for this specific symbol in the lookback window
@@ -0,0 +1,356 @@
+import { eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import { isBrokerRejection } from '../api/trading212/errors.js';
+import { configManager } from '../config/manager.js';
+import { getDb } from '../db/index.js';
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../db/repositories/order-intents.js';
+import {
+  cancelOrder,
+  createOrder,
+  getOrderByT212Id,
+  updateOrderStatus,
+} from '../db/repositories/orders.js';
+import { positions, trades } from '../db/schema.js';
+import { currentFxRate, signedShares, splitPnl } from '../utils/currency.js';
+import { sleep } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import {
+  accruedFinancing,
+  directionalReturn,
+  isTighterStop,
+  stopPriceFor,
+} from './short-selling.js';
+
+const log = createLogger('protective-stops');
+
+type Position = typeof positions.$inferSelect;
+type StopHolder = Pick<
+  Position,
+  'id' | 'symbol' | 't212Ticker' | 'shares' | 'accountType' | 'stopOrderId' | 'direction'
+>;
+
+/** What happened to a broker stop we tried to cancel. */
+export type StopCancelOutcome = 'none' | 'cancelled' | 'filled' | 'failed';
+
+export interface StopCancelResult {
+  outcome: StopCancelOutcome;
+  /** Set when the stop turned out to be already filled */
+  fillPrice?: number | null;
+  filledQuantity?: number;
+}
+
+/** A position (or part of one) closed by its broker stop. */
+export interface StopFill {
+  symbol: string;
+  accountType: AccountType;
+  /** SELL for a long; a short's stop covers with a BUY */
+  side: 'BUY' | 'SELL';
+  shares: number;
+  exitPrice: number;
+  pnl: number;
+  pnlPct: number;
+}
+
+export const BROKER_STOP_EXIT_REASON = 'Stop-loss filled at broker';
+
+/**
+ * Keeps each position's stop mirrored as a GTC stop order at Trading212, so
+ * it stays protected while the bot is down. The local stop check in
+ * PositionTracker remains the fallback whenever the broker order is missing.
+ * Trading212 has no amend endpoint, so moving a stop is cancel and re-place.
+ */
+export class ProtectiveStops {
+  private t212Client: Trading212Api;
+  private accountType: AccountType | undefined;
+
+  constructor(t212Client: Trading212Api, accountType?: AccountType) {
+    this.t212Client = t212Client;
+    this.accountType = accountType;
+  }
+
+  /**
+   * Place a sell stop for `shares` (a buy stop above the price for shorts)
+   * and track it. Returns the exchange order ID.
+   */
+  async place(
+    position: Pick<Position, 'symbol' | 't212Ticker' | 'accountType'> &
+      Partial<Pick<Position, 'direction'>>,
+    shares: number,
+    stopPrice: number,
+  ): Promise<string> {
+    const side = position.direction === 'SHORT' ? 'BUY' : 'SELL';
+    const localOrderId = createOrder({
+      symbol: position.symbol,
+      side,
+      orderType: 'stop',
+      requestedQuantity: shares,
+      stopPrice,
+      orderTag: 'stoploss',
+      accountType: position.accountType,
+    });
+    const intentId = recordIntent({
+      localOrderId,
+      symbol: position.symbol,
+      t212Ticker: position.t212Ticker,
+      accountType: position.accountType,
+      side,
+      orderType: 'stop',
+      purpose: 'stoploss',
+      quantity: shares,
+      price: stopPrice,
+      context: { direction: position.direction ?? 'LONG' },
+    });
+
+    try {
+      const stopOrder = await this.t212Client.placeStopOrder({
+        ticker: position.t212Ticker,
+        quantity: shares,
+        stopPrice,
+        timeValidity: 'GTC',
+      });
+      const stopOrderId = String(stopOrder.id);
+      markIntentSubmitted(intentId, stopOrderId);
+
+      updateOrderStatus(localOrderId, { status: 'open', t212OrderId: stopOrderId });
+      completeIntent(intentId);
+      log.info({ symbol: position.symbol, stopOrderId, stopPrice }, 'Stop-loss order placed');
+      return stopOrderId;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      updateOrderStatus(localOrderId, { status: 'failed', cancelReason: reason });
+      if (isBrokerRejection(err)) abandonIntent(intentId, reason);
+      throw err;
+    }
+  }
+
+  /**
+   * Cancel the position's broker stop. A failed cancel is checked against the
+   * exchange: the stop may have filled in the meantime, in which case the
+   * caller must reconcile with `recordFill` instead of selling again.
+   */
+  async cancel(position: StopHolder, reason: string): Promise<StopCancelResult> {
+    if (!position.stopOrderId) return { outcome: 'none' };
+
+    const localOrder = getOrderByT212Id(position.stopOrderId);
+    try {
+      await this.t212Client.cancelOrder(Number(position.stopOrderId));
+      if (localOrder) cancelOrder(localOrder.id, reason);
+      log.info(
+        { symbol: position.symbol, stopOrderId: position.stopOrderId },
+        'Cancelled stop order',
+      );
+      return { outcome: 'cancelled' };
+    } catch (err) {
+      log.warn(
+        { symbol: position.symbol, err },
+        'Failed to cancel stop order (may already be filled)',
+      );
+    }
+
+    try {
+      const order = await this.t212Client.getOrder(Number(position.stopOrderId));
+      if (order.status === 'FILLED') {
+        const filledQuantity = order.filledQuantity ?? order.quantity;
+        const fillPrice =
+          order.filledValue != null && filledQuantity ? order.filledValue / filledQuantity : null;
+        return { outcome: 'filled', fillPrice, filledQuantity };
+      }
+      if (order.status === 'CANCELLED' || order.status === 'REJECTED') {
+        if (localOrder) cancelOrder(localOrder.id, `Exchange status: ${order.status}`);
+        return { outcome: 'cancelled' };
+      }
+    } catch (err) {
+      log.warn({ symbol: position.symbol, err }, 'Failed to fetch stop order state');
+    }
+    return { outcome: 'failed' };
+  }
+
+  /**
+   * Move the broker stop to `stopPrice` for `shares`. On success the position
+   * points at the new order. When the re-place fails the position is left
+   * without a broker stop and the local check takes over. Returns false when
+   * the stop could not be moved, including when it had already filled.
+   * `delayMs` is read up front so an account's config override still applies.
+   */
+  async amend(
+    position: StopHolder,
+    stopPrice: number,
+    shares = position.shares,
+    delayMs = configManager.get<number>('execution.stopLossDelay'),
+  ): Promise<boolean> {
+    const { outcome } = await this.cancel(position, 'Stop amended');
+    if (outcome === 'filled' || outcome === 'failed') return false;
+
+    // Wait before placing the new stop (exchange needs time)
+    await sleep(delayMs);
+
+    const db = getDb();
+    try {
+      const stopOrderId = await this.place(position, shares, stopPrice);
+      db.update(positions).set({ stopOrderId }).where(eq(positions.id, position.id)).run();
+      return true;
+    } catch (err) {
+      log.error(
+        { symbol: position.symbol, stopPrice, err },
+        'Failed to re-place stop order — falling back to local stop',
+      );
+      db.update(positions).set({ stopOrderId: null }).where(eq(positions.id, position.id)).run();
+      return false;
+    }
+  }
+
+  /**
+   * Bring broker stops up to each position's trailing stop. Small ratchets
+   * are skipped (`execution.brokerStops.minAmendPct`) so a rising price does
+   * not cancel and re-place on every monitor cycle. Returns the symbols moved.
+   */
+  async syncTrailingStops(): Promise<string[]> {
+    const db = getDb();
+    // Read before the first await so an account's config override applies
+    const minAmendPct = configManager.get<number>('execution.brokerStops.minAmendPct');
+    const stopLossDelay = configManager.get<number>('execution.stopLossDelay');
+    const held = this.accountType
+      ? db.select().from(positions).where(eq(positions.accountType, this.accountType)).all()
+      : db.select().from(positions).all();
+
+    const amended: string[] = [];
+    for (const position of held) {
+      if (!position.stopOrderId || position.trailingStop == null) continue;
+
+      const brokerStop =
+        getOrderByT212Id(position.stopOrderId)?.stopPrice ?? position.stopLoss ?? 0;
+      const threshold = stopPriceFor(brokerStop, -minAmendPct, position.direction);
+      if (!isTighterStop(position.trailingStop, threshold, position.direction)) continue;
+
+      if (await this.amend(position, position.trailingStop, position.shares, stopLossDelay)) {
+        amended.push(position.symbol);
+        log.info(
+          { symbol: position.symbol, oldStop: brokerStop, newStop: position.trailingStop },
+          position.direction === 'SHORT' ? 'Broker stop moved down' : 'Broker stop moved up',
+        );
+      }
+    }
+    return amended;
+  }
+
+  /**
+   * Reconcile a stop that filled at the broker: record the SELL, close the
+   * position and cancel its take-profit order. Returns null when no position
+   * holds this stop any more (already reconciled or replaced).
+   */
+  async recordFill(
+    stopOrderId: string,
+    fillPrice: number | null,
+    filledQuantity?: number,
+  ): Promise<StopFill | null> {
+    const db = getDb();
+    const position = db
+      .select()
+      .from(positions)
+      .where(eq(positions.stopOrderId, stopOrderId))
+      .get();
+    if (!position) return null;
+
+    const localOrder = getOrderByT212Id(stopOrderId);
+    const exitPrice =
+      fillPrice ?? localOrder?.stopPrice ?? position.trailingStop ?? position.stopLoss;
+    if (exitPrice == null) return null;
+
+    const shares = Math.min(filledQuantity || position.shares, position.shares);
+    const exitFxRate = currentFxRate(position);
+    // Short financing is charged in proportion to the shares covered
+    const accrued = accruedFinancing(position);
+    const financingCost =
+      position.direction === 'SHORT' ? (accrued * shares) / position.shares : null;
+    const split = splitPnl(
+      signedShares({ shares, direction: position.direction }),
+      position.entryPrice,
+      exitPrice,
+      position.entryFxRate ?? 1,
+      exitFxRate,
+    );
+    const { pricePnl, fxPnl } = split;
+    const pnl = split.pnl - (financingCost ?? 0);
+    const pnlPct = directionalReturn(position.entryPrice, exitPrice, position.direction);
+    const stopLevel = localOrder?.stopPrice ?? exitPrice;
+    const side = position.direction === 'SHORT' ? 'BUY' : 'SELL';
+    const now = new Date().toISOString();
+
+    db.transaction((tx) => {
+      tx.insert(trades)
+        .values({
+          symbol: position.symbol,
+          t212Ticker: position.t212Ticker,
+          side,
+          direction: position.direction,
+          shares,
+          entryPrice: position.entryPrice,
+          exitPrice,
+          pnl,
+          pnlPct,
+          entryTime: position.entryTime,
+          exitTime: now,
+          exitReason: BROKER_STOP_EXIT_REASON,
+          intendedPrice: stopLevel,
+          slippage: -directionalReturn(stopLevel, exitPrice, position.direction),
+          accountType: position.accountType,
+          currency: position.currency,
+          accountCurrency: position.accountCurrency,
+          entryFxRate: position.entryFxRate,
+          exitFxRate: position.currency ? exitFxRate : null,
+          pricePnl,
+          fxPnl,
+          financingCost,
+        })
+        .run();
+
+      if (shares < position.shares) {
+        const financing =
+          financingCost != null
+            ? { financingCost: accrued - financingCost, financingAccruedAt: now }
+            : {};
+        tx.update(positions)
+          .set({
+            shares: position.shares - shares,
+            stopOrderId: null,
+            ...financing,
+            updatedAt: now,
+          })
+          .where(eq(positions.id, position.id))
+          .run();
+      } else {
+        tx.delete(positions).where(eq(positions.id, position.id)).run();
+      }
+    });
+
+    if (position.takeProfitOrderId && shares >= position.shares) {
+      try {
+        await this.t212Client.cancelOrder(Number(position.takeProfitOrderId));
+        const tpOrder = getOrderByT212Id(position.takeProfitOrderId);
+        if (tpOrder) cancelOrder(tpOrder.id, 'Position closed by stop-loss');
+      } catch (err) {
+        log.warn({ symbol: position.symbol, err }, 'Failed to cancel take-profit after stop fill');
+      }
+    }
+
+    log.info(
+      { symbol: position.symbol, stopOrderId, exitPrice, shares, pnl },
+      'Stop-loss filled at broker — position closed',
+    );
+    return {
+      symbol: position.symbol,
+      accountType: position.accountType,
+      side,
+      shares,
+      exitPrice,
+      pnl,
+      pnlPct,
+    };
+  }
+}
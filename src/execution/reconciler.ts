@@ -0,0 +1,605 @@
+import { and, eq } from 'drizzle-orm';
+import type { Trading212Api } from '../api/trading212/client.js';
+import type {
+  HistoricalOrder,
+  Order as T212Order,
+  Position as T212Position,
+} from '../api/trading212/types.js';
+import { getDb } from '../db/index.js';
+import {
+  getUnresolvedIntents,
+  type OrderIntent,
+  resolveIntent,
+} from '../db/repositories/order-intents.js';
+import {
+  cancelOrder,
+  createOrder,
+  getOrderByT212Id,
+  getOrdersBySymbol,
+  updateOrderStatus,
+} from '../db/repositories/orders.js';
+import { positions, trades } from '../db/schema.js';
+import { getAuditLogger } from '../monitoring/audit-log.js';
+import { getTaxTracker } from '../monitoring/tax-tracker.js';
+import { currentFxRate, signedShares, splitPnl } from '../utils/currency.js';
+import { parseNextCursor } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+import type { AccountType } from './accounts.js';
+import { directionalReturn, stopPriceFor, targetPriceFor } from './short-selling.js';
+
+const log = createLogger('reconciler');
+
+/** Allowance for clock drift between intent timestamps and Trading212 order dates */
+const CLOCK_SKEW_MS = 60_000;
+/** Upper bound on order history pages fetched per account */
+const MAX_HISTORY_PAGES = 20;
+
+export interface ReconcileCorrection {
+  intentId: number;
+  symbol: string;
+  action: string;
+}
+
+export interface ReconcileReport {
+  accountType: AccountType;
+  /** Intents that were pending or submitted at startup */
+  checked: number;
+  corrections: ReconcileCorrection[];
+  /** Intents left open, e.g. orders still working at the broker */
+  unresolved: number;
+}
+
+/** One order as Trading212 reports it, from either the active list or history. */
+interface BrokerOrder {
+  id: string;
+  ticker: string;
+  type: string;
+  quantity: number;
+  createdAt: string | undefined;
+  state: 'working' | 'filled' | 'closed';
+  status: string;
+  fillPrice?: number;
+  filledQuantity?: number;
+  filledAt?: string;
+}
+
+function brokerState(status: string | undefined): BrokerOrder['state'] {
+  if (status === 'FILLED') return 'filled';
+  if (status === 'CANCELLED' || status === 'REJECTED' || status === 'EXPIRED') return 'closed';
+  return 'working';
+}
+
+function fromActive(order: T212Order): BrokerOrder {
+  const filledQuantity = order.filledQuantity ? Math.abs(order.filledQuantity) : undefined;
+  return {
+    id: String(order.id),
+    ticker: order.ticker ?? order.instrument?.ticker ?? '',
+    type: order.type,
+    quantity: Math.abs(order.quantity ?? 0),
+    createdAt: order.createdAt ?? order.createdOn,
+    state: brokerState(order.status),
+    status: order.status,
+    fillPrice:
+      order.filledValue != null && filledQuantity ? order.filledValue / filledQuantity : undefined,
+    filledQuantity,
+  };
+}
+
+function fromHistory(order: HistoricalOrder): BrokerOrder {
+  const filledQuantity = order.filledQuantity ? Math.abs(order.filledQuantity) : undefined;
+  return {
+    id: String(order.id ?? ''),
+    ticker: order.ticker ?? '',
+    type: order.type ?? '',
+    quantity: Math.abs(order.orderedQuantity ?? order.filledQuantity ?? 0),
+    createdAt: order.dateCreated,
+    state: brokerState(order.status),
+    status: order.status ?? '',
+    fillPrice:
+      order.fillPrice ??
+      (order.filledValue != null && filledQuantity
+        ? order.filledValue / filledQuantity
+        : undefined),
+    filledQuantity,
+    filledAt: order.dateExecuted,
+  };
+}
+
+function holdingTicker(holding: T212Position): string {
+  return holding.ticker ?? holding.instrument?.ticker ?? '';
+}
+
+/** Shares outside pies: pie holdings are never the bot's positions. Shorts count by size. */
+function ownShares(holding: T212Position | undefined): number {
+  if (!holding) return 0;
+  return Math.abs(holding.quantity - (holding.quantityInPies ?? holding.pieQuantity ?? 0));
+}
+
+/** The position an intent's order belongs to, in the account that placed it. */
+function intentPosition(intent: OrderIntent) {
+  return and(eq(positions.symbol, intent.symbol), eq(positions.accountType, intent.accountType));
+}
+
+/** Whether the intent adds to its position: buys for longs, sells for shorts. */
+function isOpening(intent: OrderIntent): boolean {
+  return (intent.side === 'BUY') === (intent.context.direction !== 'SHORT');
+}
+
+/**
+ * Resolves order intents left pending or submitted by a crash between a
+ * broker call and the DB transaction that records its result. Each intent is
+ * matched to its Trading212 order (by ID, or by ticker, type, quantity and
+ * time when the crash came before the ID was stored). Fills missing locally
+ * are rebuilt as trades, positions and tax lots; resting stop and limit
+ * orders are re-attached so OrderSynchronizer tracks them. Fills are applied
+ * only up to the portfolio quantity, so running it twice changes nothing.
+ */
+export class StartupReconciler {
+  async reconcile(client: Trading212Api, accountType: AccountType): Promise<ReconcileReport> {
+    const intents = getUnresolvedIntents(accountType);
+    const report: ReconcileReport = {
+      accountType,
+      checked: intents.length,
+      corrections: [],
+      unresolved: 0,
+    };
+    if (intents.length === 0) return report;
+
+    log.info({ accountType, count: intents.length }, 'Reconciling unresolved order intents');
+
+    const since = Date.parse(intents[0].createdAt) - CLOCK_SKEW_MS;
+    const [active, portfolio] = await Promise.all([client.getOrders(), client.getPortfolio()]);
+    const history = await this.fetchHistory(client, since);
+    const brokerOrders = [...active.map(fromActive), ...history.map(fromHistory)];
+    const holdings = new Map(portfolio.map((p) => [holdingTicker(p), p]));
+    const claimed = new Set<string>();
+
+    for (const intent of intents) {
+      try {
+        const action = await this.resolve(intent, brokerOrders, holdings, claimed);
+        if (action == null) {
+          report.unresolved++;
+          continue;
+        }
+        if (action === '') continue;
+
+        report.corrections.push({ intentId: intent.id, symbol: intent.symbol, action });
+        getAuditLogger().logReconciliation(intent.symbol, action, {
+          intentId: intent.id,
+          purpose: intent.purpose,
+          side: intent.side,
+          quantity: intent.quantity,
+          accountType,
+        });
+      } catch (err) {
+        report.unresolved++;
+        log.error(
+          { intentId: intent.id, symbol: intent.symbol, err },
+          'Failed to reconcile intent',
+        );
+      }
+    }
+
+    log.info(
+      {
+        accountType,
+        checked: report.checked,
+        corrected: report.corrections.length,
+        unresolved: report.unresolved,
+      },
+      'Order intent reconciliation complete',
+    );
+    return report;
+  }
+
+  /** Order history back to `since`, newest first. */
+  private async fetchHistory(client: Trading212Api, since: number): Promise<HistoricalOrder[]> {
+    const history: HistoricalOrder[] = [];
+    let cursor: number | undefined;
+
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      const { items, nextPagePath } = await client.getOrderHistory({ cursor, limit: 50 });
+      history.push(...items);
+
+      const reachedSince = items.some(
+        (item) => item.dateCreated != null && Date.parse(item.dateCreated) < since,
+      );
+      cursor = parseNextCursor(nextPagePath);
+      if (reachedSince || cursor == null || items.length === 0) break;
+    }
+    return history;
+  }
+
+  /**
+   * Settle one intent. Returns the correction made, '' when the local records
+   * were already right, or null when the intent has to stay open.
+   */
+  private async resolve(
+    intent: OrderIntent,
+    brokerOrders: BrokerOrder[],
+    holdings: Map<string, T212Position>,
+    claimed: Set<string>,
+  ): Promise<string | null> {
+    const brokerOrder = this.findBrokerOrder(intent, brokerOrders, claimed);
+    const resting = intent.orderType !== 'market';
+
+    if (!brokerOrder) {
+      if (!resting) {
+        const fromPortfolio = await this.applyPortfolioDelta(intent, holdings);
+        if (fromPortfolio) return fromPortfolio;
+      }
+      this.failIntent(intent, 'Not found at broker');
+      return `Order ${intent.purpose} ${intent.side} ${intent.quantity} not found at broker — marked failed`;
+    }
+    claimed.add(brokerOrder.id);
+
+    if (brokerOrder.state === 'closed') {
+      this.failIntent(intent, `Broker status ${brokerOrder.status}`, brokerOrder.id);
+      return `Order ${brokerOrder.id} was ${brokerOrder.status} at broker — marked failed`;
+    }
+
+    // Resting orders are handed back to OrderSynchronizer, which records their fills
+    if (resting) return this.trackRestingOrder(intent, brokerOrder);
+
+    if (brokerOrder.state === 'working') return null;
+
+    const price = brokerOrder.fillPrice ?? intent.price;
+    if (price == null) return null;
+    return this.applyFill(
+      intent,
+      brokerOrder.filledQuantity ?? brokerOrder.quantity,
+      price,
+      brokerOrder.filledAt ?? brokerOrder.createdAt ?? intent.createdAt,
+      ownShares(holdings.get(intent.t212Ticker)),
+      brokerOrder.id,
+    );
+  }
+
+  private findBrokerOrder(
+    intent: OrderIntent,
+    brokerOrders: BrokerOrder[],
+    claimed: Set<string>,
+  ): BrokerOrder | undefined {
+    if (intent.t212OrderId) return brokerOrders.find((o) => o.id === intent.t212OrderId);
+
+    // Crashed before the broker ID was stored: match on what was sent
+    const since = Date.parse(intent.createdAt) - CLOCK_SKEW_MS;
+    const type = intent.orderType.toUpperCase();
+    return brokerOrders
+      .filter(
+        (o) =>
+          !claimed.has(o.id) &&
+          o.ticker === intent.t212Ticker &&
+          o.type === type &&
+          Math.abs(o.quantity - intent.quantity) < 1e-9 &&
+          o.createdAt != null &&
+          Date.parse(o.createdAt) >= since &&
+          !getOrderByT212Id(o.id),
+      )
+      .sort((a, b) => Date.parse(a.createdAt ?? '') - Date.parse(b.createdAt ?? ''))[0];
+  }
+
+  /**
+   * Record a filled market order, capped at the gap between the local
+   * position and the broker's holding so a fill already recorded is not
+   * applied twice.
+   */
+  private async applyFill(
+    intent: OrderIntent,
+    filledQuantity: number,
+    price: number,
+    filledAt: string,
+    brokerShares: number,
+    t212OrderId: string | undefined,
+  ): Promise<string> {
+    const db = getDb();
+    const position = db.select().from(positions).where(intentPosition(intent)).get();
+    const localShares = position?.shares ?? 0;
+    const opening = isOpening(intent);
+    const missing = opening ? brokerShares - localShares : localShares - brokerShares;
+    const shares = Math.min(filledQuantity, missing);
+
+    if (intent.localOrderId) {
+      updateOrderStatus(intent.localOrderId, {
+        status: 'filled',
+        t212OrderId,
+        filledQuantity,
+        filledPrice: price,
+        filledAt,
+      });
+    }
+
+    if (shares <= 0 || (!opening && !position)) {
+      resolveIntent(intent.id, 'completed', 'Fill already recorded', t212OrderId);
+      return '';
+    }
+
+    // Tax lots track long holdings only
+    const long = intent.context.direction !== 'SHORT';
+    if (opening) {
+      this.recordBuy(intent, shares, price, filledAt, position);
+      if (long) {
+        await this.recordTaxLot(() =>
+          getTaxTracker().recordPurchase(
+            intent.symbol,
+            shares,
+            price,
+            intent.accountType,
+            filledAt,
+          ),
+        );
+      }
+    } else if (position) {
+      this.recordSell(intent, shares, price, filledAt, position);
+      if (long) {
+        await this.recordTaxLot(() =>
+          getTaxTracker().recordSale(intent.symbol, shares, price, filledAt),
+        );
+      }
+    }
+
+    const action = `Recorded missing ${intent.purpose} ${intent.side} of ${shares} @ ${price.toFixed(2)}`;
+    resolveIntent(intent.id, 'reconciled', action, t212OrderId);
+    return action;
+  }
+
+  /**
+   * No broker order matched (history can be incomplete); fall back to the
+   * difference between the broker holding and the local position.
+   */
+  private async applyPortfolioDelta(
+    intent: OrderIntent,
+    holdings: Map<string, T212Position>,
+  ): Promise<string | null> {
+    const holding = holdings.get(intent.t212Ticker);
+    const brokerShares = ownShares(holding);
+    const db = getDb();
+    const localShares =
+      db.select().from(positions).where(intentPosition(intent)).get()?.shares ?? 0;
+
+    const opening = isOpening(intent);
+    const missing = opening ? brokerShares - localShares : localShares - brokerShares;
+    if (missing <= 0) return null;
+
+    const price =
+      (opening ? holding?.averagePricePaid : holding?.currentPrice) ??
+      holding?.currentPrice ??
+      intent.price;
+    if (price == null) return null;
+
+    const action = await this.applyFill(
+      intent,
+      Math.min(intent.quantity, missing),
+      price,
+      intent.createdAt,
+      brokerShares,
+      intent.t212OrderId ?? undefined,
+    );
+    return action ? `${action} from portfolio` : null;
+  }
+
+  private recordBuy(
+    intent: OrderIntent,
+    shares: number,
+    price: number,
+    filledAt: string,
+    position: typeof positions.$inferSelect | undefined,
+  ): void {
+    const db = getDb();
+    const ctx = intent.context;
+    const direction = ctx.direction ?? 'LONG';
+    const stopLoss =
+      ctx.stopLossPct != null ? stopPriceFor(price, ctx.stopLossPct, direction) : null;
+    const takeProfit = ctx.takeProfitPct
+      ? targetPriceFor(price, ctx.takeProfitPct, direction)
+      : null;
+    const entryFx = {
+      currency: ctx.currency ?? null,
+      accountCurrency: ctx.accountCurrency ?? null,
+      entryFxRate: ctx.fxRate ?? null,
+    };
+    const now = new Date().toISOString();
+
+    db.transaction((tx) => {
+      tx.insert(trades)
+        .values({
+          symbol: intent.symbol,
+          t212Ticker: intent.t212Ticker,
+          side: intent.side,
+          direction,
+          shares,
+          entryPrice: price,
+          entryTime: filledAt,
+          stopLoss,
+          takeProfit,
+          aiReasoning: ctx.aiReasoning,
+          convictionScore: ctx.conviction,
+          aiModel: ctx.aiModel,
+          intendedPrice: intent.price,
+          slippage: intent.price ? directionalReturn(intent.price, price, direction) : null,
+          accountType: intent.accountType,
+          ...entryFx,
+        })
+        .run();
+
+      if (position) {
+        // Average in, as DCAManager does
+        const currentInvested = position.totalInvested ?? position.shares * position.entryPrice;
+        const totalInvested = currentInvested + shares * price;
+        const totalShares = position.shares + shares;
+        tx.update(positions)
+          .set({
+            shares: totalShares,
+            entryPrice: totalInvested / totalShares,
+            dcaCount: (position.dcaCount ?? 0) + 1,
+            totalInvested,
+            updatedAt: now,
+          })
+          .where(eq(positions.id, position.id))
+          .run();
+        return;
+      }
+
+      const protection = this.findProtectiveOrders(intent);
+      tx.insert(positions)
+        .values({
+          symbol: intent.symbol,
+          t212Ticker: intent.t212Ticker,
+          direction,
+          shares,
+          entryPrice: price,
+          entryTime: filledAt,
+          currentPrice: price,
+          pnl: 0,
+          pnlPct: 0,
+          stopLoss,
+          takeProfit,
+          convictionScore: ctx.conviction,
+          stopOrderId: protection.stopOrderId,
+          takeProfitOrderId: protection.takeProfitOrderId,
+          accountType: intent.accountType,
+          ...entryFx,
+          currentFxRate: entryFx.entryFxRate,
+          updatedAt: now,
+        })
+        .run();
+    });
+  }
+
+  private recordSell(
+    intent: OrderIntent,
+    shares: number,
+    price: number,
+    filledAt: string,
+    position: typeof positions.$inferSelect,
+  ): void {
+    const db = getDb();
+    const exitFxRate = currentFxRate(position);
+    const { pnl, pricePnl, fxPnl } = splitPnl(
+      signedShares({ shares, direction: position.direction }),
+      position.entryPrice,
+      price,
+      position.entryFxRate ?? 1,
+      exitFxRate,
+    );
+
+    db.transaction((tx) => {
+      tx.insert(trades)
+        .values({
+          symbol: position.symbol,
+          t212Ticker: position.t212Ticker,
+          side: intent.side,
+          direction: position.direction,
+          shares,
+          entryPrice: position.entryPrice,
+          exitPrice: price,
+          pnl,
+          pnlPct: directionalReturn(position.entryPrice, price, position.direction),
+          entryTime: position.entryTime,
+          exitTime: filledAt,
+          exitReason: intent.context.exitReason ?? `Reconciled ${intent.purpose}`,
+          intendedPrice: intent.price,
+          slippage: intent.price
+            ? -directionalReturn(intent.price, price, position.direction)
+            : null,
+          accountType: position.accountType,
+          currency: position.currency,
+          accountCurrency: position.accountCurrency,
+          entryFxRate: position.entryFxRate,
+          exitFxRate: position.currency ? exitFxRate : null,
+          pricePnl,
+          fxPnl,
+        })
+        .run();
+
+      if (shares < position.shares) {
+        tx.update(positions)
+          .set({ shares: position.shares - shares, updatedAt: new Date().toISOString() })
+          .where(eq(positions.id, position.id))
+          .run();
+      } else {
+        tx.delete(positions).where(eq(positions.id, position.id)).run();
+      }
+    });
+  }
+
+  /** Open stop and take-profit orders placed for the symbol after the intent. */
+  private findProtectiveOrders(intent: OrderIntent): {
+    stopOrderId: string | null;
+    takeProfitOrderId: string | null;
+  } {
+    const open = getOrdersBySymbol(intent.symbol).filter(
+      (o) => o.status === 'open' && o.t212OrderId && o.createdAt >= intent.createdAt,
+    );
+    return {
+      stopOrderId: open.find((o) => o.orderTag === 'stoploss')?.t212OrderId ?? null,
+      takeProfitOrderId: open.find((o) => o.orderTag === 'take_profit')?.t212OrderId ?? null,
+    };
+  }
+
+  /**
+   * Make sure a stop or limit order live at the broker has an open local
+   * order row and, for protective orders, is the one its position points at.
+   */
+  private trackRestingOrder(intent: OrderIntent, brokerOrder: BrokerOrder): string {
+    const localOrderId =
+      intent.localOrderId ??
+      getOrderByT212Id(brokerOrder.id)?.id ??
+      createOrder({
+        symbol: intent.symbol,
+        side: intent.side,
+        orderType: intent.orderType,
+        requestedQuantity: intent.quantity,
+        ...(intent.orderType === 'stop'
+          ? { stopPrice: intent.price ?? undefined }
+          : { requestedPrice: intent.price ?? undefined }),
+        orderTag: intent.purpose,
+        accountType: intent.accountType,
+      });
+    updateOrderStatus(localOrderId, { status: 'open', t212OrderId: brokerOrder.id });
+
+    const field =
+      intent.purpose === 'stoploss'
+        ? 'stopOrderId'
+        : intent.purpose === 'take_profit'
+          ? 'takeProfitOrderId'
+          : null;
+    if (field) {
+      const db = getDb();
+      const position = db.select().from(positions).where(intentPosition(intent)).get();
+      const current = position?.[field] ? getOrderByT212Id(position[field]) : undefined;
+      if (position && current?.status !== 'open') {
+        db.update(positions)
+          .set({ [field]: brokerOrder.id, updatedAt: new Date().toISOString() })
+          .where(eq(positions.id, position.id))
+          .run();
+      }
+    }
+
+    const action = `Tracking ${intent.purpose} order ${brokerOrder.id} (${brokerOrder.state} at broker)`;
+    resolveIntent(intent.id, 'reconciled', action, brokerOrder.id);
+    return action;
+  }
+
+  private failIntent(intent: OrderIntent, reason: string, t212OrderId?: string): void {
+    if (intent.localOrderId) cancelOrder(intent.localOrderId, reason);
+    resolveIntent(intent.id, 'failed', reason, t212OrderId);
+  }
+
+  private async recordTaxLot(record: () => Promise<void>): Promise<void> {
+    try {
+      await record();
+    } catch (err) {
+      log.error({ err }, 'Tax lot tracking failed during reconciliation');
+    }
+  }
+}
+
+let instance: StartupReconciler | null = null;
+
+export function getStartupReconciler(): StartupReconciler {
+  if (!instance) {
+    instance = new StartupReconciler();
+  }
+  return instance;
+}
@@ -1,9 +1,11 @@
-import { desc, isNotNull } from 'drizzle-orm';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import { PortfolioRiskAnalyzer, type VaRMethod } from '../analysis/portfolio-risk.js';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
 import * as schema from '../db/schema.js';
 import { createLogger } from '../utils/logger.js';
 import { getPairLockManager } from './pair-locks.js';
+import { type PositionDirection, shortSellingAvailable } from './short-selling.js';
 
 const log = createLogger('risk-guard');
 
@@ -16,6 +18,10 @@ export interface PortfolioState {
   sectorExposure: Record<string, number>;
   sectorExposureValue: Record<string, number>;
   peakValue: number;
+  /** Value of long positions in account currency */
+  longExposure?: number;
+  /** Value of short positions in account currency, as a positive number */
+  shortExposure?: number;
 }
 
 export interface TradeProposal {
@@ -26,6 +32,10 @@ export interface TradeProposal {
   stopLossPct: number;
   positionSizePct: number;
   sector?: string;
+  /** Account currency per quote unit; `price` stays in the instrument's currency */
+  fxRate?: number;
+  /** SHORT makes a SELL open a position and a BUY close one; defaults to LONG */
+  direction?: PositionDirection;
 }
 
 export interface ValidationResult {
@@ -33,7 +43,30 @@ export interface ValidationResult {
   reason?: string;
 }
 
+export interface RiskBudgetResult {
+  allowed: boolean;
+  /** Shares that fit the VaR budget; the proposal's own when nothing was trimmed */
+  shares: number;
+  reason?: string;
+  /** Portfolio VaR with the trade at `shares`, as a fraction of portfolio value */
+  varPct?: number;
+}
+
+export interface RiskGuardOptions {
+  /** Restrict trade-history checks (losing streak) and the VaR book to one account */
+  accountType?: 'INVEST' | 'ISA';
+  riskAnalyzer?: PortfolioRiskAnalyzer;
+}
+
 export class RiskGuard {
+  private readonly accountType: 'INVEST' | 'ISA' | undefined;
+  private readonly riskAnalyzer: PortfolioRiskAnalyzer;
+
+  constructor(options: RiskGuardOptions = {}) {
+    this.accountType = options.accountType;
+    this.riskAnalyzer = options.riskAnalyzer ?? new PortfolioRiskAnalyzer();
+  }
+
   validateTrade(proposal: TradeProposal, portfolio: PortfolioState): ValidationResult {
     // Check pair locks before any other validation
     try {
@@ -58,15 +91,23 @@ export class RiskGuard {
     const maxRiskPerTradePct = configManager.get<number>('risk.maxRiskPerTradePct');
     const maxSectorConcentration = configManager.get<number>('risk.maxSectorConcentration');
 
-    // Only validate limits for BUY orders
-    if (proposal.side === 'BUY') {
+    // Only validate limits for orders that open a position
+    const direction = proposal.direction ?? 'LONG';
+    const opening = (proposal.side === 'BUY') === (direction === 'LONG');
+    if (opening) {
+      if (direction === 'SHORT' && !shortSellingAvailable()) {
+        const reason = 'Short selling is disabled or needs the paper broker';
+        log.warn({ symbol: proposal.symbol, reason }, 'Trade rejected');
+        return { allowed: false, reason };
+      }
+
       if (portfolio.openPositions >= maxPositions) {
         const reason = `Max positions reached: ${portfolio.openPositions}/${maxPositions}`;
         log.warn({ symbol: proposal.symbol, reason }, 'Trade rejected');
         return { allowed: false, reason };
       }
 
-      const positionValue = proposal.shares * proposal.price;
+      const positionValue = proposal.shares * proposal.price * (proposal.fxRate ?? 1);
       const maxAllowed = maxPositionSizePct * portfolio.portfolioValue;
       if (positionValue > maxAllowed) {
         const reason = `Position size $${positionValue.toFixed(2)} exceeds max $${maxAllowed.toFixed(2)} (${(maxPositionSizePct * 100).toFixed(1)}% of portfolio)`;
@@ -99,8 +140,19 @@ export class RiskGuard {
         }
       }
 
-      if (positionValue > portfolio.cashAvailable) {
-        const reason = `Insufficient cash: need $${positionValue.toFixed(2)}, have $${portfolio.cashAvailable.toFixed(2)}`;
+      const exposure = this.checkExposure(direction, positionValue, portfolio);
+      if (!exposure.allowed) {
+        log.warn({ symbol: proposal.symbol, reason: exposure.reason }, 'Trade rejected');
+        return exposure;
+      }
+
+      // A short is funded by its own proceeds; free cash only has to cover the margin
+      const cashNeeded =
+        direction === 'SHORT'
+          ? positionValue * configManager.get<number>('shorts.marginPct')
+          : positionValue;
+      if (cashNeeded > portfolio.cashAvailable) {
+        const reason = `Insufficient cash: need $${cashNeeded.toFixed(2)}, have $${portfolio.cashAvailable.toFixed(2)}`;
         log.warn({ symbol: proposal.symbol, reason }, 'Trade rejected');
         return { allowed: false, reason };
       }
@@ -110,6 +162,102 @@ export class RiskGuard {
     return { allowed: true };
   }
 
+  /**
+   * Gross (long + short) and net (long - short) exposure after adding a
+   * position of `positionValue`, each against its multiple of portfolio value.
+   */
+  private checkExposure(
+    direction: PositionDirection,
+    positionValue: number,
+    portfolio: PortfolioState,
+  ): ValidationResult {
+    const long = (portfolio.longExposure ?? 0) + (direction === 'LONG' ? positionValue : 0);
+    const short = (portfolio.shortExposure ?? 0) + (direction === 'SHORT' ? positionValue : 0);
+
+    const maxGrossPct = configManager.get<number>('risk.maxGrossExposurePct');
+    const maxGross = maxGrossPct * portfolio.portfolioValue;
+    if (long + short > maxGross) {
+      return {
+        allowed: false,
+        reason: `Gross exposure $${(long + short).toFixed(2)} would exceed max $${maxGross.toFixed(2)} (${maxGrossPct}x portfolio)`,
+      };
+    }
+
+    const maxNetPct = configManager.get<number>('risk.maxNetExposurePct');
+    const maxNet = maxNetPct * portfolio.portfolioValue;
+    if (Math.abs(long - short) > maxNet) {
+      return {
+        allowed: false,
+        reason: `Net exposure $${(long - short).toFixed(2)} would exceed max ±$${maxNet.toFixed(2)} (${maxNetPct}x portfolio)`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Fit an opening trade into the portfolio VaR budget (`risk.maxPortfolioVaRPct`
+   * of portfolio value). The current book plus the trade is measured with the
+   * configured VaR method; a trade that would breach the budget is cut to the
+   * most shares that fit and rejected only when not even one does. Trades that
+   * lower VaR, and symbols without enough price history, pass unchanged.
+   */
+  fitRiskBudget(proposal: TradeProposal, portfolio: PortfolioState): RiskBudgetResult {
+    const unchanged: RiskBudgetResult = { allowed: true, shares: proposal.shares };
+    const maxVaRPct = configManager.get<number>('risk.maxPortfolioVaRPct');
+    if (!maxVaRPct || portfolio.portfolioValue <= 0) return unchanged;
+
+    const direction = proposal.direction ?? 'LONG';
+    if ((proposal.side === 'BUY') !== (direction === 'LONG')) return unchanged;
+
+    try {
+      const exposures = this.riskAnalyzer.getExposures(this.accountType);
+      const model = this.riskAnalyzer.buildModel([...exposures.keys(), proposal.symbol]);
+      if (!model?.returns.has(proposal.symbol)) {
+        log.debug({ symbol: proposal.symbol }, 'No price history for VaR check — skipped');
+        return unchanged;
+      }
+
+      const confidence = configManager.get<number>('risk.varConfidence');
+      const method = configManager.get<VaRMethod>('risk.varMethod');
+      const perShare = proposal.price * (proposal.fxRate ?? 1) * (direction === 'SHORT' ? -1 : 1);
+      const held = exposures.get(proposal.symbol) ?? 0;
+      const varWith = (shares: number) => {
+        const book = new Map(exposures).set(proposal.symbol, held + shares * perShare);
+        return this.riskAnalyzer.measure(model, book, confidence)[method].var;
+      };
+
+      const limit = maxVaRPct * portfolio.portfolioValue;
+      const fullVaR = varWith(proposal.shares);
+      if (fullVaR <= limit || fullVaR <= varWith(0)) {
+        return { ...unchanged, varPct: fullVaR / portfolio.portfolioValue };
+      }
+
+      // Largest whole number of shares that keeps VaR inside the budget
+      let low = 0;
+      let high = proposal.shares - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (varWith(mid) <= limit) low = mid;
+        else high = mid - 1;
+      }
+
+      if (low < 1) {
+        const reason = `Portfolio VaR ${((fullVaR / portfolio.portfolioValue) * 100).toFixed(2)}% would exceed budget ${(maxVaRPct * 100).toFixed(2)}%`;
+        log.warn({ symbol: proposal.symbol, reason }, 'Trade rejected');
+        return { allowed: false, shares: 0, reason, varPct: fullVaR / portfolio.portfolioValue };
+      }
+
+      const varPct = varWith(low) / portfolio.portfolioValue;
+      const reason = `Sized down from ${proposal.shares} to ${low} shares to keep portfolio VaR within ${(maxVaRPct * 100).toFixed(2)}%`;
+      log.info({ symbol: proposal.symbol, shares: low, varPct }, reason);
+      return { allowed: true, shares: low, reason, varPct };
+    } catch (err) {
+      log.warn({ symbol: proposal.symbol, err }, 'VaR check failed — blocking trade for safety');
+      return { allowed: false, shares: 0, reason: 'VaR check failed — trade blocked for safety' };
+    }
+  }
+
   checkDailyLoss(portfolio: PortfolioState): boolean {
     const dailyLossLimitPct = configManager.get<number>('risk.dailyLossLimitPct');
     const shouldPause = portfolio.todayPnlPct < -dailyLossLimitPct;
@@ -176,7 +324,14 @@ export class RiskGuard {
           entryPrice: schema.trades.entryPrice,
         })
         .from(schema.trades)
-        .where(isNotNull(schema.trades.exitPrice))
+        .where(
+          this.accountType
+            ? and(
+                isNotNull(schema.trades.exitPrice),
+                eq(schema.trades.accountType, this.accountType),
+              )
+            : isNotNull(schema.trades.exitPrice),
+        )
         .orderBy(desc(schema.trades.exitTime))
         .limit(100)
         .all();
@@ -0,0 +1,96 @@
+import { configManager } from '../config/manager.js';
+
+export type PositionDirection = 'LONG' | 'SHORT';
+
+/** Return on the entry price, positive when the price moved in the position's favour. */
+export function directionalReturn(
+  entryPrice: number,
+  price: number,
+  direction?: string | null,
+): number {
+  const move = (price - entryPrice) / entryPrice;
+  return direction === 'SHORT' ? -move : move;
+}
+
+/** Stop level `pct` against the position: below the price for longs, above it for shorts. */
+export function stopPriceFor(price: number, pct: number, direction?: string | null): number {
+  return direction === 'SHORT' ? price * (1 + pct) : price * (1 - pct);
+}
+
+/** Target level `pct` in the position's favour: above the price for longs, below for shorts. */
+export function targetPriceFor(price: number, pct: number, direction?: string | null): number {
+  return direction === 'SHORT' ? price * (1 - pct) : price * (1 + pct);
+}
+
+/** Whether `price` has reached a stop level from the position's side. */
+export function isStopHit(price: number, stop: number, direction?: string | null): boolean {
+  return direction === 'SHORT' ? price >= stop : price <= stop;
+}
+
+/** Whether `price` has reached a target level from the position's side. */
+export function isTargetHit(price: number, target: number, direction?: string | null): boolean {
+  return direction === 'SHORT' ? price <= target : price >= target;
+}
+
+/** Whether `candidate` locks in more than `current`: higher for longs, lower for shorts. */
+export function isTighterStop(
+  candidate: number,
+  current: number,
+  direction?: string | null,
+): boolean {
+  return direction === 'SHORT' ? candidate < current : candidate > current;
+}
+
+/**
+ * Whether new shorts may be opened. Trading212's equity API is long-only —
+ * CFDs are a separate product it does not expose — so shorts run only
+ * against the paper broker or in dry run.
+ */
+export function shortSellingAvailable(): boolean {
+  if (!configManager.get<boolean>('shorts.enabled')) return false;
+  return (
+    configManager.get<boolean>('execution.dryRun') ||
+    configManager.get<boolean>('execution.paperBroker.enabled')
+  );
+}
+
+/** Annual cost of carrying a short: stock borrow plus CFD overnight financing. */
+export function shortFinancingRate(): number {
+  return (
+    (configManager.get<number>('shorts.borrowFeeAnnualPct') ?? 0) +
+    (configManager.get<number>('shorts.overnightFeeAnnualPct') ?? 0)
+  );
+}
+
+/** Financing owed on `value` (account currency) held short for `days` calendar days. */
+export function shortFinancingCost(value: number, days: number, annualRate: number): number {
+  return (Math.abs(value) * annualRate * days) / 365;
+}
+
+interface FinancedPosition {
+  direction?: string | null;
+  shares: number;
+  entryPrice: number;
+  currentPrice?: number | null;
+  entryFxRate?: number | null;
+  currentFxRate?: number | null;
+  entryTime: string;
+  financingCost?: number | null;
+  financingAccruedAt?: string | null;
+}
+
+/**
+ * Financing a position has run up by `now`: what is already booked plus
+ * the days since it was last accrued. Longs carry none.
+ */
+export function accruedFinancing(position: FinancedPosition, now = new Date()): number {
+  const booked = position.financingCost ?? 0;
+  if (position.direction !== 'SHORT') return booked;
+  const since = new Date(position.financingAccruedAt ?? position.entryTime).getTime();
+  const days = Math.max(0, (now.getTime() - since) / 86_400_000);
+  const value =
+    position.shares *
+    (position.currentPrice ?? position.entryPrice) *
+    (position.currentFxRate ?? position.entryFxRate ?? 1);
+  return booked + shortFinancingCost(value, days, shortFinancingRate());
+}
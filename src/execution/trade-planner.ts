@@ -6,6 +6,7 @@ import { tradePlans } from '../db/schema.js';
 import { safeJsonParse } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
 import type { PortfolioState } from './risk-guard.js';
+import { type PositionDirection, stopPriceFor, targetPriceFor } from './short-selling.js';
 
 const log = createLogger('trade-planner');
 
@@ -15,6 +16,8 @@ export interface TradePlan {
   t212Ticker: string;
   status: 'pending' | 'approved' | 'rejected' | 'executed' | 'expired';
   side: 'BUY' | 'SELL';
+  /** SHORT: a SELL plan opens the short and a BUY plan covers it */
+  direction: PositionDirection;
   entryPrice: number;
   shares: number;
   positionValue: number;
@@ -52,30 +55,37 @@ export class TradePlanner {
     technicalScore?: number;
     fundamentalScore?: number;
     sentimentScore?: number;
+    /** Account currency per quote unit when the instrument trades in another currency */
+    fxRate?: number;
+    /** Side of the position the plan opens or closes (default LONG) */
+    direction?: PositionDirection;
   }): TradePlan | null {
     const { symbol, t212Ticker, price, decision, portfolio } = params;
+    const fxRate = params.fxRate ?? 1;
+    const direction = params.direction ?? 'LONG';
+    const opening = (decision.decision === 'BUY') === (direction === 'LONG');
 
-    // Calculate position size
+    // Calculate position size; prices stay in quote currency, values in account currency
     const shares = Math.floor(
-      (portfolio.portfolioValue * decision.suggestedPositionSizePct) / price,
+      (portfolio.portfolioValue * decision.suggestedPositionSizePct) / (price * fxRate),
     );
     if (shares <= 0) {
       log.warn({ symbol, price }, 'Calculated 0 shares, cannot create plan');
       return null;
     }
 
-    const positionValue = shares * price;
+    const positionValue = shares * price * fxRate;
     const positionSizePct = positionValue / portfolio.portfolioValue;
 
-    const stopLossPrice = price * (1 - decision.suggestedStopLossPct);
-    const takeProfitPrice = price * (1 + decision.suggestedTakeProfitPct);
-    const maxLossDollars = (price - stopLossPrice) * shares;
-    const potentialGain = (takeProfitPrice - price) * shares;
+    const stopLossPrice = stopPriceFor(price, decision.suggestedStopLossPct, direction);
+    const takeProfitPrice = targetPriceFor(price, decision.suggestedTakeProfitPct, direction);
+    const maxLossDollars = Math.abs(price - stopLossPrice) * shares * fxRate;
+    const potentialGain = Math.abs(takeProfitPrice - price) * shares * fxRate;
     const riskRewardRatio = maxLossDollars > 0 ? potentialGain / maxLossDollars : 0;
 
     // Check minimum risk/reward ratio
     const minRR = configManager.get<number>('execution.minRiskRewardRatio');
-    if (riskRewardRatio < minRR && decision.decision === 'BUY') {
+    if (riskRewardRatio < minRR && opening) {
       log.warn({ symbol, riskRewardRatio, minRequired: minRR }, 'Risk/reward ratio too low');
       return null;
     }
@@ -96,6 +106,7 @@ export class TradePlanner {
         t212Ticker,
         status: 'pending',
         side: decision.decision as 'BUY' | 'SELL',
+        direction,
         entryPrice: price,
         shares,
         positionValue,
@@ -127,6 +138,7 @@ export class TradePlanner {
       log.info(
         {
           symbol,
+          direction,
           shares,
           entryPrice: price,
           stopLoss: stopLossPrice,
@@ -205,11 +217,11 @@ export class TradePlanner {
     return [
       `TRADE PLAN: ${plan.symbol}`,
       '\u2500'.repeat(30),
-      `Side: ${plan.side}`,
+      `Side: ${plan.side}${plan.direction === 'SHORT' ? ` (${plan.side === 'SELL' ? 'open' : 'cover'} short)` : ''}`,
       `Entry Price: $${plan.entryPrice.toFixed(2)}`,
       `Shares: ${plan.shares} ($${plan.positionValue.toFixed(2)} = ${(plan.positionSizePct * 100).toFixed(1)}% of portfolio)`,
-      `Stop Loss: $${plan.stopLossPrice.toFixed(2)} (-${(plan.stopLossPct * 100).toFixed(1)}%) → max loss: $${plan.maxLossDollars.toFixed(2)}`,
-      `Take Profit: $${plan.takeProfitPrice.toFixed(2)} (+${(plan.takeProfitPct * 100).toFixed(1)}%)`,
+      `Stop Loss: $${plan.stopLossPrice.toFixed(2)} (${plan.direction === 'SHORT' ? '+' : '-'}${(plan.stopLossPct * 100).toFixed(1)}%) → max loss: $${plan.maxLossDollars.toFixed(2)}`,
+      `Take Profit: $${plan.takeProfitPrice.toFixed(2)} (${plan.direction === 'SHORT' ? '-' : '+'}${(plan.takeProfitPct * 100).toFixed(1)}%)`,
       `Risk/Reward: 1:${plan.riskRewardRatio.toFixed(1)}`,
       plan.maxHoldDays ? `Max Hold: ${plan.maxHoldDays} trading days` : '',
       `AI Conviction: ${plan.aiConviction}/100`,
@@ -225,6 +237,7 @@ export class TradePlanner {
       ...row,
       status: row.status as TradePlan['status'],
       side: row.side as 'BUY' | 'SELL',
+      direction: row.direction as PositionDirection,
       accountType: row.accountType as 'INVEST' | 'ISA',
       risks: safeJsonParse<string[]>(row.risks, []),
     };
@@ -1,22 +1,26 @@
 import 'dotenv/config';
 
-import { and, desc, eq, gte, isNotNull } from 'drizzle-orm';
+import { and, desc, eq, gte, inArray, isNotNull } from 'drizzle-orm';
 import {
   type AIAgent,
   type AIContext,
   type AIDecision,
   createAIAgent,
+  createProviderAgent,
   getActiveModelName,
+  modelNameFor,
 } from './ai/agent.js';
 import { MarketResearcher } from './ai/market-research.js';
 import { getAISelfImprovement } from './ai/self-improvement.js';
+import { getAIUsageMeter, runAIJob, technicalOnlyDecision } from './ai/usage.js';
 import { CorrelationAnalyzer } from './analysis/correlation.js';
 import { scoreFundamentals } from './analysis/fundamental/scorer.js';
 import { type SentimentInput, scoreSentiment } from './analysis/sentiment/scorer.js';
 import { analyzeTechnicals } from './analysis/technical/scorer.js';
 import { registerBotCallbacks } from './api/routes.js';
 import { ApiServer } from './api/server.js';
-import { Trading212Client } from './api/trading212/client.js';
+import { type Trading212Api, Trading212Client } from './api/trading212/client.js';
+import { PaperBroker } from './api/trading212/paper-broker.js';
 import { getWebhookManager } from './api/webhooks.js';
 import type { WebSocketManager } from './api/websocket.js';
 import { minutesToWeekdayCron, Scheduler, timeToCron } from './bot/scheduler.js';
@@ -24,25 +28,35 @@ import { configManager } from './config/manager.js';
 import { getStrategyProfileManager } from './config/strategy-profiles.js';
 import { DataAggregator, type StockData } from './data/data-aggregator.js';
 import { FinnhubClient } from './data/finnhub.js';
+import { getFxRateService } from './data/fx-rates.js';
 import { MarketauxClient } from './data/marketaux.js';
+import { getPriceStreamer } from './data/price-streamer.js';
 import { SteerClient } from './data/steer-client.js';
 import { TickerMapper } from './data/ticker-mapper.js';
 import { type WebResearchData, WebResearcher } from './data/web-researcher.js';
 import { YahooFinanceClient } from './data/yahoo-finance.js';
 import { getDb, initDatabase } from './db/index.js';
 import * as schema from './db/schema.js';
+import { getAccountDefinitions, getApiKeyEnv, TradingAccount } from './execution/accounts.js';
 import { ApprovalManager } from './execution/approval-manager.js';
 import { getConditionalOrderManager } from './execution/conditional-orders.js';
 import { getDCAManager } from './execution/dca-manager.js';
-import { type BuyParams, type CloseParams, OrderManager } from './execution/order-manager.js';
-import { OrderReplacer } from './execution/order-replacer.js';
+import { type DividendPolicy, getDividendManager } from './execution/dividend-manager.js';
+import { ExitMonitor, type PartialExitPlan } from './execution/exit-monitor.js';
+import { getHistoryImporter } from './execution/history-importer.js';
+import { type BuyParams, type CloseParams, fillsLocally } from './execution/order-manager.js';
 import { getPairLockManager } from './execution/pair-locks.js';
 import { getPartialExitManager } from './execution/partial-exit-manager.js';
+import { getPieManager } from './execution/pie-manager.js';
 import { PositionTracker } from './execution/position-tracker.js';
 import { getProtectionManager } from './execution/protections.js';
-import { type PortfolioState, RiskGuard, type TradeProposal } from './execution/risk-guard.js';
+import { BROKER_STOP_EXIT_REASON } from './execution/protective-stops.js';
+import { getStartupReconciler } from './execution/reconciler.js';
+import type { PortfolioState, TradeProposal } from './execution/risk-guard.js';
+import { type PositionDirection, shortSellingAvailable } from './execution/short-selling.js';
 import { TradePlanner } from './execution/trade-planner.js';
 import { getAuditLogger } from './monitoring/audit-log.js';
+import { getHealthMetrics } from './monitoring/health-metrics.js';
 import { ModelTracker } from './monitoring/model-tracker.js';
 import { PerformanceTracker } from './monitoring/performance.js';
 import { getReportGenerator } from './monitoring/report-generator.js';
@@ -52,9 +66,11 @@ import { getTradeJournalManager } from './monitoring/trade-journal.js';
 import type { StockInfo } from './pairlist/filters.js';
 import { createPairlistPipeline } from './pairlist/index.js';
 import type { PairlistPipeline } from './pairlist/pipeline.js';
+import { accountValue, signedShares } from './utils/currency.js';
+import { type ExchangeCode, exchangeForSymbol, symbolForTicker } from './utils/exchanges.js';
 import { formatCurrency, formatPercent } from './utils/helpers.js';
 import { createLogger } from './utils/logger.js';
-import { getMarketStatus, isUSMarketOpen } from './utils/market-hours.js';
+import { getMarketStatus, isAnyMarketOpen, isUSMarketOpen } from './utils/market-hours.js';
 
 const log = createLogger('bot');
 
@@ -64,29 +80,26 @@ class TradingBot {
   private apiServer!: ApiServer;
   private pairlistPipeline!: PairlistPipeline;
   private aiAgent!: AIAgent;
-  private orderManager!: OrderManager;
+  private accounts: TradingAccount[] = [];
+  private paperBrokers: PaperBroker[] = [];
   private positionTracker!: PositionTracker;
-  private riskGuard!: RiskGuard;
+  private exitMonitor!: ExitMonitor;
   private performanceTracker!: PerformanceTracker;
   private wsManager!: WebSocketManager;
   private dataAggregator!: DataAggregator;
   private yahoo!: YahooFinanceClient;
   private tickerMapper!: TickerMapper;
-  private t212Client!: Trading212Client;
   private tradePlanner!: TradePlanner;
   private approvalManager!: ApprovalManager;
   private marketResearcher!: MarketResearcher;
   private modelTracker!: ModelTracker;
   private correlationAnalyzer!: CorrelationAnalyzer;
-  private orderReplacer!: OrderReplacer;
   private steerClient!: SteerClient;
   private webResearcher!: WebResearcher;
 
   private paused = false;
   private startedAt = '';
   private activeStocks: StockInfo[] = [];
-  private lastKnownPortfolio: { cash: number; value: number; timestamp: string } | null = null;
-  private lossCooldownUntil: Date | null = null;
 
   async start(): Promise<void> {
     log.info('Starting Trading Bot...');
@@ -97,15 +110,47 @@ class TradingBot {
     // 2. Config
     await configManager.seedDefaults();
     const environment = configManager.get<string>('t212.environment');
-    const accountType = configManager.get<string>('t212.accountType');
     const dryRun = configManager.get<boolean>('execution.dryRun');
-    log.info({ environment, accountType, dryRun }, 'Configuration loaded');
 
-    // 3. Trading212 client
-    this.t212Client = new Trading212Client(process.env.TRADING212_API_KEY ?? '');
+    // 2b. Strategy profiles — seed built-in presets before accounts resolve theirs
+    try {
+      getStrategyProfileManager().seedBuiltinPresets();
+    } catch (err) {
+      log.error({ err }, 'Failed to seed strategy profiles');
+    }
+
+    // 3. Trading212 accounts, each with its own client (or a local paper broker)
+    const paperEnabled = configManager.get<boolean>('execution.paperBroker.enabled');
+    const definitions = getAccountDefinitions();
+    for (const definition of definitions) {
+      const apiKey = process.env[getApiKeyEnv(definition)];
+      let client: Trading212Api;
+      if (paperEnabled) {
+        const paperBroker = new PaperBroker({
+          initialCash: configManager.get<number>('execution.paperBroker.initialCash'),
+          spreadBps: configManager.get<number>('execution.paperBroker.spreadBps'),
+          enforceRateLimits: configManager.get<boolean>('execution.paperBroker.enforceRateLimits'),
+          allowShort: configManager.get<boolean>('shorts.enabled'),
+          metadata: apiKey ? new Trading212Client(apiKey) : undefined,
+          quoteProvider: (tickers) => this.fetchPaperQuotes(tickers),
+        });
+        this.paperBrokers.push(paperBroker);
+        client = paperBroker;
+      } else {
+        const queueName = `t212:${definition.accountType}`;
+        const liveClient = new Trading212Client(apiKey ?? '', queueName);
+        getHealthMetrics().registerRequestQueue(queueName, () => liveClient.getQueueStats());
+        client = liveClient;
+      }
+      this.accounts.push(new TradingAccount(definition, client, definitions.length > 1));
+    }
+    if (paperEnabled) log.info('Paper broker enabled — orders are simulated locally');
+
+    const accountTypes = this.accounts.map((a) => a.accountType);
+    log.info({ environment, accounts: accountTypes, dryRun }, 'Configuration loaded');
 
     // 4. Ticker mapper
-    this.tickerMapper = new TickerMapper(this.t212Client);
+    this.tickerMapper = new TickerMapper(this.primaryAccount.client);
     await this.tickerMapper.load();
 
     // 5. Data sources
@@ -113,6 +158,10 @@ class TradingBot {
     const finnhub = new FinnhubClient();
     const marketaux = new MarketauxClient();
 
+    for (const paperBroker of this.paperBrokers) {
+      paperBroker.start(configManager.get<number>('streaming.intervalSeconds'));
+    }
+
     // 6. Data aggregator
     this.dataAggregator = new DataAggregator(this.yahoo, finnhub, marketaux);
 
@@ -122,11 +171,14 @@ class TradingBot {
     // 8. AI agent
     this.aiAgent = createAIAgent();
 
-    // 9. Execution components
-    this.orderManager = new OrderManager();
-    this.orderManager.setT212Client(this.t212Client);
+    // 9. Execution components (order managers and risk guards live on each account)
     this.positionTracker = new PositionTracker();
-    this.riskGuard = new RiskGuard();
+    this.exitMonitor = new ExitMonitor(this.positionTracker, {
+      withConfig: (pos, fn) => this.getAccount(pos.accountType).withConfig(fn),
+      close: (pos, reason) => this.closeOnExit(pos, reason),
+      partialExitFor: (pos) => this.partialExitFor(pos),
+      partialExit: (pos, plan) => this.executePartialExit(pos, plan),
+    });
 
     // 10. Performance tracker
     this.performanceTracker = new PerformanceTracker();
@@ -167,18 +219,8 @@ class TradingBot {
     // 10e. Correlation analyzer
     this.correlationAnalyzer = new CorrelationAnalyzer();
 
-    // 10f. Order replacer (opt-in repricing of unfilled limit orders)
-    this.orderReplacer = new OrderReplacer(this.t212Client);
-
-    // 10g. Strategy profiles — seed built-in presets
-    try {
-      getStrategyProfileManager().seedBuiltinPresets();
-    } catch (err) {
-      log.error({ err }, 'Failed to seed strategy profiles');
-    }
-
-    // 10h. Partial exit manager — needs T212 client for execution
-    getPartialExitManager().setT212Client(this.t212Client);
+    // 10h. Partial exit manager — default client; exits pass the owning account's
+    getPartialExitManager().setT212Client(this.primaryAccount.client);
 
     // 10i. Web researcher (steer integration)
     const steerUrl = process.env.STEER_URL || 'http://localhost:3010';
@@ -213,20 +255,15 @@ class TradingBot {
         log.info({ paused }, 'Bot pause state changed via API');
       },
       closePosition: async (symbol) => {
-        const db = getDb();
-        const pos = db
-          .select()
-          .from(schema.positions)
-          .where(eq(schema.positions.symbol, symbol))
-          .get();
+        const pos = this.heldPosition(symbol);
         if (!pos) return `No open position for ${symbol}`;
-        const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-        await this.orderManager.executeClose({
+        const account = this.getAccount(pos.accountType);
+        await account.orderManager.executeClose({
           symbol: pos.symbol,
           t212Ticker: pos.t212Ticker,
           shares: pos.shares,
           exitReason: 'Manual close via dashboard',
-          accountType,
+          accountType: account.accountType,
         });
         return `Position ${symbol} close executed`;
       },
@@ -248,18 +285,7 @@ class TradingBot {
 
         const db = getDb();
         const allPositions = db.select().from(schema.positions).all();
-        const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-        const results = await Promise.allSettled(
-          allPositions.map((pos) =>
-            this.orderManager.executeClose({
-              symbol: pos.symbol,
-              t212Ticker: pos.t212Ticker,
-              shares: pos.shares,
-              exitReason: 'Emergency stop',
-              accountType,
-            }),
-          ),
-        );
+        const results = await this.closePositions(allPositions, 'Emergency stop');
         const closed = results.filter((r) => r.status === 'fulfilled' && r.value.success).length;
         const failed = results.filter(
           (r) => r.status === 'rejected' || (r.status === 'fulfilled' && !r.value.success),
@@ -285,10 +311,39 @@ class TradingBot {
       },
       getResearchReports: () => this.marketResearcher.getRecentResearch(),
       getModelStats: () => this.modelTracker.getModelStats(),
+      getAccounts: () =>
+        this.accounts.map((a) => ({
+          accountType: a.accountType,
+          strategyProfile: a.strategyProfile,
+          cashAvailable: a.lastKnownPortfolio?.cash ?? null,
+          portfolioValue: a.lastKnownPortfolio?.value ?? null,
+          lossCooldownUntil: a.isInCooldown() ? (a.lossCooldownUntil?.toISOString() ?? null) : null,
+        })),
+      rebalancePie: (accountType) => {
+        const account = this.getAccount(accountType);
+        return account.withConfig(() =>
+          getPieManager().rebalance(account.client, accountType, (symbol) =>
+            this.tickerMapper.toT212Ticker(symbol),
+          ),
+        );
+      },
+      importHistory: async (accountType, content) => {
+        const account = this.getAccount(accountType);
+        const importer = getHistoryImporter();
+        return content != null
+          ? importer.importCsv(content, accountType, (ticker) =>
+              this.tickerMapper.toT212Ticker(ticker),
+            )
+          : importer.run(account.client, accountType);
+      },
     });
 
+    // 12c. Resolve order intents left open by a crash before anything trades
+    if (!dryRun && !paperEnabled) await this.reconcileIntents();
+
     // 13. Scheduler
     this.scheduler = new Scheduler();
+    this.scheduler.setExchanges(configManager.get<ExchangeCode[]>('pairlist.exchanges'));
     this.scheduler.setOnJobFailure((jobName, error) => {
       const criticalJobs = ['positionMonitor', 'analysisLoop', 't212Sync', 'expirePlans'];
       if (criticalJobs.includes(jobName)) {
@@ -437,13 +492,58 @@ class TradingBot {
       );
     }
 
+    // Dividend history sync (also runs outside market hours; reinvestment waits for the open)
+    if (configManager.get<boolean>('dividends.enabled')) {
+      const dividendSyncHours = configManager.get<number>('dividends.syncIntervalHours');
+      this.scheduler.registerJob(
+        'dividendSync',
+        `0 */${dividendSyncHours} * * *`,
+        () => this.syncDividends(),
+        false,
+      );
+    }
+
+    // Pie mode: recompute the pie allocation when due and snapshot its performance
+    if (configManager.get<boolean>('pies.enabled') && !paperEnabled) {
+      this.scheduler.registerJob(
+        'pieManagement',
+        '0 15 * * 1-5', // 3 PM ET weekdays
+        () => this.managePies(),
+        false,
+      );
+    }
+
+    // Full account history backfill, including trades placed in the Trading212 app
+    if (configManager.get<boolean>('historyImport.enabled') && !paperEnabled) {
+      const importHours = configManager.get<number>('historyImport.intervalHours');
+      this.scheduler.registerJob(
+        'historyImport',
+        `15 */${importHours} * * *`,
+        () => this.importHistory(),
+        false,
+      );
+    }
+
+    // Short financing: borrow and overnight fees accrue every calendar day
+    if (configManager.get<boolean>('shorts.enabled')) {
+      this.scheduler.registerJob(
+        'shortFinancing',
+        '5 0 * * *',
+        () => {
+          this.positionTracker.accrueFinancing();
+        },
+        false,
+      );
+    }
+
     this.scheduler.start();
+    this.startPriceStream();
 
     this.startedAt = new Date().toISOString();
 
     // 14. Send startup notification
     await this.telegram.sendMessage(
-      `<b>Trading Bot Started</b>\nEnv: ${environment}\nAccount: ${accountType}\nDry run: ${dryRun}\nMarket: ${getMarketStatus()}`,
+      `<b>Trading Bot Started</b>\nEnv: ${environment}\nAccount: ${accountTypes.join(', ')}\nDry run: ${dryRun}\nMarket: ${getMarketStatus()}`,
     );
 
     log.info('Trading Bot started successfully');
@@ -451,23 +551,31 @@ class TradingBot {
 
   async stop(): Promise<void> {
     log.info('Shutting down — cancelling pending orders...');
-    try {
-      const orders = await this.t212Client.getOrders();
-      const pending = orders.filter((o) => o.status === 'NEW' || o.status === 'PARTIALLY_FILLED');
-      for (const order of pending) {
-        try {
-          await this.t212Client.cancelOrder(order.id);
-          log.info({ orderId: order.id }, 'Cancelled pending order during shutdown');
-        } catch (err) {
-          log.error({ orderId: order.id, err }, 'Failed to cancel order during shutdown');
+    for (const account of this.accounts) {
+      const { accountType } = account;
+      try {
+        const orders = await account.client.getOrders();
+        const pending = orders.filter((o) => o.status === 'NEW' || o.status === 'PARTIALLY_FILLED');
+        for (const order of pending) {
+          try {
+            await account.client.cancelOrder(order.id);
+            log.info({ orderId: order.id, accountType }, 'Cancelled pending order during shutdown');
+          } catch (err) {
+            log.error(
+              { orderId: order.id, accountType, err },
+              'Failed to cancel order during shutdown',
+            );
+          }
         }
+        if (pending.length > 0) {
+          log.info({ count: pending.length, accountType }, 'Pending orders cancelled');
+        }
+      } catch (err) {
+        log.error({ accountType, err }, 'Failed to cancel orders during shutdown');
       }
-      if (pending.length > 0) {
-        log.info({ count: pending.length }, 'Pending orders cancelled');
-      }
-    } catch (err) {
-      log.error({ err }, 'Failed to cancel orders during shutdown');
     }
+    for (const paperBroker of this.paperBrokers) paperBroker.stop();
+    getPriceStreamer().stop();
     this.scheduler.stop();
     await this.apiServer.stop();
     this.telegram.stop();
@@ -475,6 +583,54 @@ class TradingBot {
     log.info('Trading Bot stopped');
   }
 
+  /**
+   * Poll quotes for open positions while their markets trade and evaluate
+   * exits on every tick; the monitor cron stays as the safety net.
+   */
+  private startPriceStream(): void {
+    const streamer = getPriceStreamer();
+    streamer.setPositionProvider(() => {
+      return getDb()
+        .select()
+        .from(schema.positions)
+        .all()
+        .filter((pos) => isAnyMarketOpen([exchangeForSymbol(pos.symbol).code]))
+        .map((pos) => ({
+          symbol: pos.symbol,
+          entryPrice: pos.entryPrice,
+          stopLossPrice: pos.stopLoss,
+          trailingStop: pos.trailingStop,
+          takeProfitPrice: pos.takeProfit,
+          currentPrice: pos.currentPrice,
+          direction: pos.direction,
+        }));
+    });
+    streamer.setQuoteProvider(async (symbols) => {
+      const prices = new Map<string, number>();
+      for (const symbol of symbols) {
+        const quote = await this.yahoo.getQuote(symbol);
+        if (quote && quote.price > 0) prices.set(symbol, quote.price);
+      }
+      return prices;
+    });
+    streamer.on('price_update', (update) => {
+      this.wsManager.broadcast('price_update', update);
+      void this.exitMonitor.onTick(update);
+    });
+    streamer.start();
+  }
+
+  /** Last prices for the paper broker, keyed by Trading212 ticker. */
+  private async fetchPaperQuotes(tickers: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    for (const ticker of tickers) {
+      const symbol = this.tickerMapper?.toSymbol(ticker) ?? symbolForTicker(ticker) ?? ticker;
+      const quote = await this.yahoo?.getQuote(symbol);
+      if (quote && quote.price > 0) prices.set(ticker, quote.price);
+    }
+    return prices;
+  }
+
   // ─── Core Loops ────────────────────────────────────────
 
   private async refreshPairlist(): Promise<void> {
@@ -484,7 +640,9 @@ class TradingBot {
         log.info('Ticker mapper not loaded, attempting to load...');
         await this.tickerMapper.load();
       }
-      const allStocks = this.tickerMapper.getUSEquities();
+      const allStocks = this.tickerMapper.getEquities(
+        configManager.get<ExchangeCode[]>('pairlist.exchanges'),
+      );
       this.activeStocks = await this.pairlistPipeline.run(allStocks);
       log.info({ count: this.activeStocks.length }, 'Pairlist refreshed');
       this.wsManager.broadcast('pairlist_updated', {
@@ -501,115 +659,163 @@ class TradingBot {
       return;
     }
 
+    for (const account of this.accounts) {
+      await this.checkAccountLossLimits(account);
+    }
+    if (this.paused) return;
+
+    if (this.activeStocks.length === 0) {
+      log.warn('No active stocks in pairlist, running refresh first');
+      await this.refreshPairlist();
+      if (this.activeStocks.length === 0) return;
+    }
+
+    // The loop runs while any configured exchange is open; skip the closed ones
+    let tradable = this.activeStocks.filter((s) =>
+      isAnyMarketOpen([exchangeForSymbol(s.symbol).code]),
+    );
+
+    // Near the AI budget cap, analyse fewer symbols: held ones first, then pairlist order
+    const budget = configManager.get<boolean>('ai.enabled')
+      ? getAIUsageMeter().getBudgetStatus()
+      : null;
+    if (budget && (budget.level === 'reduced' || budget.level === 'fallback')) {
+      const keep = Math.ceil(
+        tradable.length * configManager.get<number>('ai.budget.reducedSymbolsPct'),
+      );
+      const held = new Set(
+        getDb()
+          .select({ symbol: schema.positions.symbol })
+          .from(schema.positions)
+          .all()
+          .map((p) => p.symbol),
+      );
+      log.info(
+        { level: budget.level, utilization: budget.utilization, keep, of: tradable.length },
+        'AI budget running low — analysing fewer symbols',
+      );
+      tradable = [
+        ...tradable.filter((s) => held.has(s.symbol)),
+        ...tradable.filter((s) => !held.has(s.symbol)),
+      ].slice(0, keep);
+    }
+    log.info(
+      { stockCount: tradable.length, skippedClosed: this.activeStocks.length - tradable.length },
+      'Starting analysis loop',
+    );
+
+    for (const stock of tradable) {
+      try {
+        await this.analyzeStock(stock);
+      } catch (err) {
+        log.error({ symbol: stock.symbol, err }, 'Analysis failed for stock');
+      }
+    }
+  }
+
+  /**
+   * Daily loss and drawdown checks for one account, against that account's own
+   * limits. A first breach starts a cool-down with reduced sizing; a breach of
+   * twice the limit during cool-down closes the account's positions and pauses
+   * the bot.
+   */
+  private async checkAccountLossLimits(account: TradingAccount): Promise<void> {
+    const { accountType } = account;
+
     // Clear cool-down if it has expired
-    if (this.lossCooldownUntil && new Date() >= this.lossCooldownUntil) {
-      log.info('Loss cool-down period expired, resuming normal position sizing');
-      this.lossCooldownUntil = null;
+    if (account.lossCooldownUntil && !account.isInCooldown()) {
+      log.info({ accountType }, 'Loss cool-down period expired, resuming normal position sizing');
+      account.lossCooldownUntil = null;
     }
 
     // Check daily loss limit — cool-down recovery instead of permanent pause
-    const portfolio = await this.getPortfolioState();
-    if (this.riskGuard.checkDailyLoss(portfolio)) {
-      const dailyLossLimitPct = configManager.get<number>('risk.dailyLossLimitPct');
-      const isInCooldown = this.lossCooldownUntil && new Date() < this.lossCooldownUntil;
+    const portfolio = await this.getPortfolioState(account);
+    if (account.withConfig(() => account.riskGuard.checkDailyLoss(portfolio))) {
+      const dailyLossLimitPct = account.get<number>('risk.dailyLossLimitPct');
 
-      if (isInCooldown) {
+      if (account.isInCooldown()) {
         // Already in cool-down — check hard limit (2x daily loss)
         const hardLimitPct = dailyLossLimitPct * 2;
         if (Math.abs(portfolio.todayPnlPct) >= hardLimitPct) {
           log.error(
-            { todayPnlPct: portfolio.todayPnlPct, hardLimit: -hardLimitPct },
+            { accountType, todayPnlPct: portfolio.todayPnlPct, hardLimit: -hardLimitPct },
             'HARD LIMIT: Daily loss exceeded 2x limit during cool-down — emergency stop',
           );
           const audit = getAuditLogger();
           audit.logRisk(
-            `Hard loss limit breached (2x): ${formatPercent(portfolio.todayPnlPct)}`,
-            { hardLimitPct, todayPnlPct: portfolio.todayPnlPct },
+            `Hard loss limit breached (2x) on ${accountType}: ${formatPercent(portfolio.todayPnlPct)}`,
+            { accountType, hardLimitPct, todayPnlPct: portfolio.todayPnlPct },
             'error',
           );
-          // Trigger emergency stop via the existing callback
+          // Close this account's positions and pause the bot
           this.paused = true;
-          this.lossCooldownUntil = null;
+          account.lossCooldownUntil = null;
           const db = getDb();
-          const allPositions = db.select().from(schema.positions).all();
-          const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-          const results = await Promise.allSettled(
-            allPositions.map((pos) =>
-              this.orderManager.executeClose({
-                symbol: pos.symbol,
-                t212Ticker: pos.t212Ticker,
-                shares: pos.shares,
-                exitReason: 'Hard loss limit emergency stop',
-                accountType,
-              }),
-            ),
+          const accountPositions = db
+            .select()
+            .from(schema.positions)
+            .where(account.scope ? eq(schema.positions.accountType, account.scope) : undefined)
+            .all();
+          const results = await this.closePositions(
+            accountPositions,
+            'Hard loss limit emergency stop',
           );
           const closed = results.filter((r) => r.status === 'fulfilled' && r.value.success).length;
           await this.telegram.sendAlert(
             'HARD LOSS LIMIT',
-            `Emergency stop: daily loss ${formatPercent(portfolio.todayPnlPct)} exceeded 2x limit. ${closed}/${allPositions.length} positions closed.`,
+            `Emergency stop (${accountType}): daily loss ${formatPercent(portfolio.todayPnlPct)} exceeded 2x limit. ${closed}/${accountPositions.length} positions closed.`,
           );
           this.wsManager.broadcast('bot_status', {
             status: 'paused',
-            message: 'Hard loss limit emergency stop',
+            message: `Hard loss limit emergency stop (${accountType})`,
           });
           return;
         }
         // Still within hard limit — continue with reduced sizing (handled in executeApprovedPlan)
         log.warn(
           {
+            accountType,
             todayPnlPct: portfolio.todayPnlPct,
-            cooldownUntil: this.lossCooldownUntil?.toISOString(),
+            cooldownUntil: account.lossCooldownUntil?.toISOString(),
           },
           'Daily loss limit breached but in cool-down — continuing with reduced position sizes',
         );
       } else {
         // First breach — activate cool-down instead of pausing
-        const cooldownMinutes = configManager.get<number>('risk.lossCooldownMinutes') ?? 60;
-        this.lossCooldownUntil = new Date(Date.now() + cooldownMinutes * 60_000);
+        const cooldownMinutes = account.get<number>('risk.lossCooldownMinutes') ?? 60;
+        const cooldownUntil = new Date(Date.now() + cooldownMinutes * 60_000);
+        account.lossCooldownUntil = cooldownUntil;
         const audit = getAuditLogger();
-        audit.logRisk(`Daily loss limit breached — entering ${cooldownMinutes}min cool-down`, {
-          todayPnlPct: portfolio.todayPnlPct,
-          cooldownUntil: this.lossCooldownUntil.toISOString(),
-        });
+        audit.logRisk(
+          `Daily loss limit breached on ${accountType} — entering ${cooldownMinutes}min cool-down`,
+          {
+            accountType,
+            todayPnlPct: portfolio.todayPnlPct,
+            cooldownUntil: cooldownUntil.toISOString(),
+          },
+        );
         log.warn(
-          { cooldownMinutes, cooldownUntil: this.lossCooldownUntil.toISOString() },
+          { accountType, cooldownMinutes, cooldownUntil: cooldownUntil.toISOString() },
           'Daily loss limit breached — entering cool-down with reduced position sizing',
         );
         await this.telegram.sendAlert(
           'Daily Loss Cool-Down',
-          `Loss limit breached (${formatPercent(portfolio.todayPnlPct)}). Entering ${cooldownMinutes}-minute cool-down with reduced position sizing. Hard stop at 2x loss.`,
+          `${accountType} loss limit breached (${formatPercent(portfolio.todayPnlPct)}). Entering ${cooldownMinutes}-minute cool-down with reduced position sizing. Hard stop at 2x loss.`,
         );
         this.wsManager.broadcast('bot_status', {
           status: 'cooldown',
-          message: `Loss cool-down active until ${this.lossCooldownUntil.toISOString()}`,
+          message: `${accountType} loss cool-down active until ${cooldownUntil.toISOString()}`,
         });
       }
     }
 
     // Check drawdown alert
-    if (this.riskGuard.checkDrawdown(portfolio)) {
+    if (account.withConfig(() => account.riskGuard.checkDrawdown(portfolio))) {
       await this.telegram.sendAlert(
         'Drawdown Alert',
-        `Portfolio drawdown exceeded threshold. Value: ${formatCurrency(portfolio.portfolioValue)}`,
+        `${accountType} drawdown exceeded threshold. Value: ${formatCurrency(portfolio.portfolioValue)}`,
       );
     }
-
-    if (this.activeStocks.length === 0) {
-      log.warn('No active stocks in pairlist, running refresh first');
-      await this.refreshPairlist();
-      if (this.activeStocks.length === 0) return;
-    }
-
-    log.info({ stockCount: this.activeStocks.length }, 'Starting analysis loop');
-
-    for (const stock of this.activeStocks) {
-      try {
-        await this.analyzeStock(stock);
-      } catch (err) {
-        log.error({ symbol: stock.symbol, err }, 'Analysis failed for stock');
-      }
-    }
   }
 
   private async analyzeStock(stock: StockInfo): Promise<void> {
@@ -651,7 +857,7 @@ class TradingBot {
       }
     }
 
-    // 4. Build AI context
+    // 4. Build AI context (analysis is shared, so it sees all accounts combined)
     const portfolio = await this.getPortfolioState();
     const aiContext = this.buildAIContext(
       symbol,
@@ -680,20 +886,32 @@ class TradingBot {
       exitConditions: '',
     };
 
+    let aiModel = getActiveModelName();
     if (aiEnabled) {
-      const aiDecision = await this.aiAgent.analyze(aiContext);
-      if (!aiDecision) {
-        log.warn({ symbol }, 'AI decision parsing failed — skipping symbol');
-        return;
+      const budgeted = this.budgetedAgent();
+      if (budgeted) {
+        const aiDecision = await budgeted.agent.analyze(aiContext);
+        if (!aiDecision) {
+          log.warn({ symbol }, 'AI decision parsing failed — skipping symbol');
+          return;
+        }
+        decision = aiDecision;
+        aiModel = budgeted.model;
+      } else {
+        decision = technicalOnlyDecision(
+          technicalScore,
+          configManager.get<number>('ai.budget.technicalBuyScore'),
+        );
+        aiModel = 'technical';
       }
-      decision = aiDecision;
     }
 
     // 6. Store signal in DB
     const db = getDb();
+    const signalTime = new Date().toISOString();
     db.insert(schema.signals)
       .values({
-        timestamp: new Date().toISOString(),
+        timestamp: signalTime,
         symbol,
         rsi: techAnalysis.rsi,
         macdValue: techAnalysis.macd?.value ?? null,
@@ -731,18 +949,38 @@ class TradingBot {
         decision: decision.decision,
         executed: false,
         aiReasoning: decision.reasoning,
-        aiModel: getActiveModelName(),
+        aiModel,
         suggestedStopLossPct: decision.suggestedStopLossPct,
         suggestedPositionSizePct: decision.suggestedPositionSizePct,
         suggestedTakeProfitPct: decision.suggestedTakeProfitPct,
+        aiDisagreement: decision.ensemble?.disagreement ?? null,
+        aiVotes: decision.ensemble ? JSON.stringify(decision.ensemble.votes) : null,
+        aiToolTrace: decision.toolTrace?.length ? JSON.stringify(decision.toolTrace) : null,
       })
       .run();
 
+    // 6b. Score every ensemble member on the same input, whatever it voted
+    const price = data.quote?.price;
+    if (decision.ensemble && price) {
+      for (const vote of decision.ensemble.votes) {
+        if (!vote.decision) continue;
+        this.modelTracker.recordPrediction({
+          aiModel: vote.model,
+          symbol,
+          decision: vote.decision.decision,
+          conviction: vote.decision.conviction,
+          priceAtSignal: price,
+          signalTimestamp: signalTime,
+        });
+      }
+    }
+
     // 7. Broadcast signal via WebSocket
     this.wsManager.broadcast('signal_generated', {
       symbol,
       decision: decision.decision,
       conviction: decision.conviction,
+      disagreement: decision.ensemble?.disagreement,
       technicalScore,
       fundamentalScore,
       sentimentScore,
@@ -769,7 +1007,6 @@ class TradingBot {
         t212Ticker,
         data,
         decision,
-        portfolio,
         technicalScore,
         fundamentalScore,
         sentimentScore,
@@ -782,7 +1019,6 @@ class TradingBot {
     t212Ticker: string,
     data: StockData,
     decision: AIDecision,
-    portfolio: PortfolioState,
     technicalScore?: number,
     fundamentalScore?: number,
     sentimentScore?: number,
@@ -790,17 +1026,46 @@ class TradingBot {
     const price = data.quote?.price ?? 0;
     const audit = getAuditLogger();
 
+    // A SELL with nothing held opens a short when allowed; a BUY on a held short covers it
+    const held = this.heldPosition(symbol);
+    const direction: PositionDirection =
+      held?.direction ??
+      (decision.decision === 'SELL' &&
+      shortSellingAvailable() &&
+      decision.conviction >= configManager.get<number>('shorts.minConviction')
+        ? 'SHORT'
+        : 'LONG');
+    const opening = (decision.decision === 'BUY') === (direction === 'LONG');
+
+    // Route to an account: held symbols trade where the position is, new entries to the first with room
+    const routed =
+      opening && !held ? await this.selectBuyAccount() : await this.selectSellAccount(held);
+    if (!routed) {
+      log.warn({ symbol, side: decision.decision }, 'No account available for trade');
+      audit.logRisk(`No account available for ${decision.decision} ${symbol}`);
+      return;
+    }
+    const { account, portfolio } = routed;
+    const { accountType } = account;
+
     // Overtrading protection
-    const maxDailyTrades = configManager.get<number>('risk.maxDailyTrades');
+    const maxDailyTrades = account.get<number>('risk.maxDailyTrades');
     const todayStr = new Date().toISOString().split('T')[0];
     const todayTradeCount = getDb()
       .select()
       .from(schema.trades)
-      .where(gte(schema.trades.entryTime, todayStr))
+      .where(
+        account.scope
+          ? and(
+              gte(schema.trades.entryTime, todayStr),
+              eq(schema.trades.accountType, account.scope),
+            )
+          : gte(schema.trades.entryTime, todayStr),
+      )
       .all().length;
     if (todayTradeCount >= maxDailyTrades) {
-      log.warn({ todayTradeCount, maxDailyTrades }, 'Daily trade limit reached');
-      audit.logRisk(`Daily trade limit: ${todayTradeCount}/${maxDailyTrades}`);
+      log.warn({ accountType, todayTradeCount, maxDailyTrades }, 'Daily trade limit reached');
+      audit.logRisk(`Daily trade limit (${accountType}): ${todayTradeCount}/${maxDailyTrades}`);
       return;
     }
 
@@ -813,8 +1078,8 @@ class TradingBot {
       priceAtSignal: price,
     });
 
-    // Check portfolio correlation for BUY orders
-    if (decision.decision === 'BUY') {
+    // Check portfolio correlation for new longs
+    if (opening && direction === 'LONG') {
       const correlations = this.correlationAnalyzer.checkCorrelationWithPortfolio(symbol);
       const highCorr = correlations.filter((c) => c.isHighlyCorrelated);
       if (highCorr.length > 0) {
@@ -846,17 +1111,27 @@ class TradingBot {
       }
     }
 
-    // Create trade plan instead of executing immediately
-    const plan = this.tradePlanner.createPlan({
-      symbol,
-      t212Ticker,
-      price,
-      decision,
-      portfolio,
-      technicalScore,
-      fundamentalScore,
-      sentimentScore,
-    });
+    const conversion = await this.getQuoteConversion(symbol, account);
+    if (!conversion) {
+      log.warn({ symbol }, 'No FX rate for instrument currency, skipping trade');
+      return;
+    }
+
+    // Create trade plan instead of executing immediately (sized and tagged for the account)
+    const plan = account.withConfig(() =>
+      this.tradePlanner.createPlan({
+        symbol,
+        t212Ticker,
+        price,
+        decision,
+        portfolio,
+        technicalScore,
+        fundamentalScore,
+        sentimentScore,
+        fxRate: conversion.fxRate,
+        direction,
+      }),
+    );
 
     if (!plan) {
       log.warn({ symbol }, 'Trade plan creation failed (insufficient R:R or 0 shares)');
@@ -894,11 +1169,12 @@ class TradingBot {
   private async executeApprovedPlan(plan: ReturnType<TradePlanner['getPlan']>): Promise<void> {
     if (!plan) return;
 
-    const accountType = plan.accountType as 'INVEST' | 'ISA';
+    const account = this.getAccount(plan.accountType);
+    const { accountType } = account;
     const audit = getAuditLogger();
 
-    // Validate with risk guard
-    const portfolio = await this.getPortfolioState();
+    // Validate with the account's risk guard
+    const portfolio = await this.getPortfolioState(account);
     const fundRow = getDb()
       .select({ sector: schema.fundamentalCache.sector })
       .from(schema.fundamentalCache)
@@ -907,6 +1183,15 @@ class TradingBot {
       .limit(1)
       .get();
 
+    // Exits use the position's own rates; only new entries need sizing in account currency
+    const opening = (plan.side === 'BUY') === (plan.direction === 'LONG');
+    const conversion = opening ? await this.getQuoteConversion(plan.symbol, account) : {};
+    if (!conversion) {
+      log.warn({ symbol: plan.symbol, accountType }, 'No FX rate for instrument currency');
+      audit.logRisk(`Trade rejected: ${plan.symbol} - FX rate unavailable`, { planId: plan.id });
+      return;
+    }
+
     const proposal: TradeProposal = {
       symbol: plan.symbol,
       side: plan.side,
@@ -915,11 +1200,18 @@ class TradingBot {
       stopLossPct: plan.stopLossPct,
       positionSizePct: plan.positionSizePct,
       sector: fundRow?.sector ?? undefined,
+      fxRate: conversion.fxRate,
+      direction: plan.direction,
     };
 
-    const validation = this.riskGuard.validateTrade(proposal, portfolio);
+    const validation = account.withConfig(() =>
+      account.riskGuard.validateTrade(proposal, portfolio),
+    );
     if (!validation.allowed) {
-      log.warn({ symbol: plan.symbol, reason: validation.reason }, 'Trade rejected by risk guard');
+      log.warn(
+        { symbol: plan.symbol, accountType, reason: validation.reason },
+        'Trade rejected by risk guard',
+      );
       audit.logRisk(`Trade rejected: ${plan.symbol} - ${validation.reason}`, { planId: plan.id });
       return;
     }
@@ -928,18 +1220,22 @@ class TradingBot {
       {
         symbol: plan.symbol,
         side: plan.side,
+        direction: plan.direction,
         shares: plan.shares,
         price: plan.entryPrice,
         conviction: plan.aiConviction,
+        accountType,
       },
       'Executing trade from plan',
     );
 
     try {
-      if (plan.side === 'BUY') {
+      if (opening) {
         // Apply streak-based position size reduction
         let adjustedShares = plan.shares;
-        const streakMultiplier = this.riskGuard.getLosingStreakMultiplier();
+        const streakMultiplier = account.withConfig(() =>
+          account.riskGuard.getLosingStreakMultiplier(),
+        );
         if (streakMultiplier < 1.0) {
           adjustedShares = Math.max(1, Math.floor(plan.shares * streakMultiplier));
           log.info(
@@ -958,8 +1254,9 @@ class TradingBot {
         }
 
         // Apply cool-down position size reduction (stacks with streak reduction)
-        if (this.lossCooldownUntil && new Date() < this.lossCooldownUntil) {
-          const factor = configManager.get<number>('risk.lossCooldownSizeFactor') ?? 0.5;
+        if (account.isInCooldown()) {
+          const cooldownUntil = account.lossCooldownUntil?.toISOString();
+          const factor = account.get<number>('risk.lossCooldownSizeFactor') ?? 0.5;
           const beforeCooldown = adjustedShares;
           adjustedShares = Math.max(1, Math.floor(adjustedShares * factor));
           log.warn(
@@ -968,16 +1265,36 @@ class TradingBot {
               factor,
               beforeCooldown,
               afterCooldown: adjustedShares,
-              cooldownUntil: this.lossCooldownUntil.toISOString(),
+              cooldownUntil,
             },
             'Cool-down: reduced position size',
           );
           audit.logRisk(
             `Cool-down reduction: ${plan.symbol} shares ${beforeCooldown} -> ${adjustedShares} (x${factor})`,
-            { planId: plan.id, factor, cooldownUntil: this.lossCooldownUntil.toISOString() },
+            { planId: plan.id, factor, cooldownUntil },
           );
         }
 
+        // Fit the trade into the portfolio VaR budget, trimming it if needed
+        const budget = account.withConfig(() =>
+          account.riskGuard.fitRiskBudget({ ...proposal, shares: adjustedShares }, portfolio),
+        );
+        if (!budget.allowed) {
+          log.warn(
+            { symbol: plan.symbol, accountType, reason: budget.reason },
+            'Trade rejected by VaR budget',
+          );
+          audit.logRisk(`Trade rejected: ${plan.symbol} - ${budget.reason}`, { planId: plan.id });
+          return;
+        }
+        if (budget.shares < adjustedShares) {
+          audit.logRisk(`VaR budget: ${plan.symbol} shares ${adjustedShares} -> ${budget.shares}`, {
+            planId: plan.id,
+            varPct: budget.varPct,
+          });
+          adjustedShares = budget.shares;
+        }
+
         const buyParams: BuyParams = {
           symbol: plan.symbol,
           t212Ticker: plan.t212Ticker,
@@ -989,8 +1306,10 @@ class TradingBot {
           conviction: plan.aiConviction,
           aiModel: plan.aiModel ?? '',
           accountType,
+          ...conversion,
+          direction: plan.direction,
         };
-        await this.orderManager.executeBuy(buyParams);
+        await account.orderManager.executeBuy(buyParams);
       } else {
         const exitReason = plan.aiReasoning ?? 'AI sell signal';
         const closeParams: CloseParams = {
@@ -1000,7 +1319,7 @@ class TradingBot {
           exitReason,
           accountType,
         };
-        await this.orderManager.executeClose(closeParams);
+        await account.orderManager.executeClose(closeParams);
 
         // Evaluate protections after sell
         try {
@@ -1052,26 +1371,22 @@ class TradingBot {
 
       // Trade journal auto-annotation
       try {
-        getTradeJournalManager().autoAnnotate(
-          plan.symbol,
-          plan.side === 'BUY' ? 'trade_open' : 'trade_close',
-          {
-            price: plan.entryPrice,
-            shares: plan.shares,
-            conviction: plan.aiConviction,
-            reasoning: plan.aiReasoning,
-          },
-        );
+        getTradeJournalManager().autoAnnotate(plan.symbol, opening ? 'trade_open' : 'trade_close', {
+          price: plan.entryPrice,
+          shares: plan.shares,
+          conviction: plan.aiConviction,
+          reasoning: plan.aiReasoning,
+        });
       } catch (jErr) {
         log.error({ jErr }, 'Trade journal annotation failed');
       }
 
-      // Tax lot tracking
+      // Tax lot tracking (long holdings only)
       try {
         const taxTracker = getTaxTracker();
-        if (plan.side === 'BUY') {
+        if (plan.direction === 'LONG' && plan.side === 'BUY') {
           await taxTracker.recordPurchase(plan.symbol, plan.shares, plan.entryPrice, accountType);
-        } else {
+        } else if (plan.direction === 'LONG') {
           await taxTracker.recordSale(plan.symbol, plan.shares, plan.entryPrice);
         }
       } catch (taxErr) {
@@ -1097,58 +1412,18 @@ class TradingBot {
 
       // Update trailing stops for profitable positions
       await this.positionTracker.updateTrailingStops();
+      await this.syncBrokerStops();
 
       // Check exit conditions (stop-loss, take-profit, AI conditions)
-      const exitResult = await this.positionTracker.checkExitConditions();
-      const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-
-      for (const symbol of exitResult.positionsToClose) {
-        const db = getDb();
-        const pos = db
-          .select()
-          .from(schema.positions)
-          .where(eq(schema.positions.symbol, symbol))
-          .get();
-        if (!pos) continue;
-
-        const exitReason = exitResult.exitReasons[symbol] ?? 'Exit condition triggered';
-        log.info({ symbol, exitReason }, 'Auto-closing position due to exit condition');
-
-        try {
-          await this.orderManager.executeClose({
-            symbol: pos.symbol,
-            t212Ticker: pos.t212Ticker,
-            shares: pos.shares,
-            exitReason,
-            accountType,
-          });
-
-          // Evaluate protections after close
-          const pnlPct = pos.pnlPct ?? 0;
-          try {
-            getProtectionManager().evaluateAfterClose(symbol, exitReason, pnlPct);
-          } catch (protErr) {
-            log.error({ symbol, protErr }, 'Protection evaluation failed after position close');
-          }
-
-          await this.telegram.sendTradeNotification({
-            symbol,
-            side: 'SELL',
-            shares: pos.shares,
-            price: pos.currentPrice ?? pos.entryPrice,
-            stopLoss: pos.stopLoss ?? 0,
-            reasoning: exitReason,
-          });
+      const exitResult = await this.positionTracker.checkExitConditions((pos, fn) =>
+        this.getAccount(pos.accountType).withConfig(fn),
+      );
 
-          this.wsManager.broadcast('trade_executed', {
-            symbol,
-            side: 'SELL',
-            shares: pos.shares,
-            price: pos.currentPrice ?? pos.entryPrice,
-          });
-        } catch (err) {
-          log.error({ symbol, err }, 'Failed to auto-close position');
-        }
+      // Safety net for exits the price stream missed; shares the stream's per-position lock.
+      // Each account can hold the symbol, so the exact row that hit its exit is closed.
+      for (const pos of exitResult.positionsToClose) {
+        const exitReason = exitResult.exitReasons[pos.id] ?? 'Exit condition triggered';
+        await this.exitMonitor.exit(pos, () => this.closeOnExit(pos, exitReason));
       }
 
       // Check for stale unfilled orders and reprice if enabled
@@ -1174,17 +1449,208 @@ class TradingBot {
     }
   }
 
-  private async syncPositions(): Promise<void> {
+  /** Close a position whose exit condition fired, then run protections and notify. */
+  private async closeOnExit(
+    pos: typeof schema.positions.$inferSelect,
+    exitReason: string,
+  ): Promise<void> {
+    const { symbol } = pos;
+    const account = this.getAccount(pos.accountType);
+    log.info(
+      { symbol, exitReason, accountType: account.accountType },
+      'Auto-closing position due to exit condition',
+    );
+
     try {
-      await this.positionTracker.syncWithT212(this.t212Client);
+      await account.orderManager.executeClose({
+        symbol: pos.symbol,
+        t212Ticker: pos.t212Ticker,
+        shares: pos.shares,
+        exitReason,
+        accountType: account.accountType,
+      });
+
+      // Evaluate protections after close
+      const pnlPct = pos.pnlPct ?? 0;
+      try {
+        getProtectionManager().evaluateAfterClose(symbol, exitReason, pnlPct);
+      } catch (protErr) {
+        log.error({ symbol, protErr }, 'Protection evaluation failed after position close');
+      }
+
+      await this.telegram.sendTradeNotification({
+        symbol,
+        side: 'SELL',
+        shares: pos.shares,
+        price: pos.currentPrice ?? pos.entryPrice,
+        stopLoss: pos.stopLoss ?? 0,
+        reasoning: exitReason,
+      });
+
+      this.wsManager.broadcast('trade_executed', {
+        symbol,
+        side: 'SELL',
+        shares: pos.shares,
+        price: pos.currentPrice ?? pos.entryPrice,
+      });
     } catch (err) {
-      log.error({ err }, 'T212 position sync failed');
+      log.error({ symbol, err }, 'Failed to auto-close position');
+    }
+  }
+
+  /** Move each account's broker stop orders up to the ratcheted trailing stops. */
+  private async syncBrokerStops(): Promise<void> {
+    if (fillsLocally()) return;
+
+    for (const account of this.accounts) {
+      if (!account.get<boolean>('execution.brokerStops.trailing')) continue;
+      try {
+        await account.withConfig(() => account.protectiveStops.syncTrailingStops());
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'Broker stop sync failed');
+      }
+    }
+  }
+
+  private async syncPositions(): Promise<void> {
+    for (const account of this.accounts) {
+      // Reconcile fills first so a broker stop closes its position at the real
+      // fill price instead of being treated as an external close
+      try {
+        const { stopFills } = await account.orderSync.syncOpenOrders();
+        for (const fill of stopFills) {
+          try {
+            getProtectionManager().evaluateAfterClose(
+              fill.symbol,
+              BROKER_STOP_EXIT_REASON,
+              fill.pnlPct,
+            );
+          } catch (protErr) {
+            log.error(
+              { symbol: fill.symbol, protErr },
+              'Protection evaluation failed after stop fill',
+            );
+          }
+          await this.telegram.sendTradeNotification({
+            symbol: fill.symbol,
+            side: fill.side,
+            shares: fill.shares,
+            price: fill.exitPrice,
+            stopLoss: fill.exitPrice,
+            reasoning: BROKER_STOP_EXIT_REASON,
+          });
+          this.wsManager.broadcast('trade_executed', {
+            symbol: fill.symbol,
+            side: fill.side,
+            shares: fill.shares,
+            price: fill.exitPrice,
+          });
+        }
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'Order sync failed');
+      }
+
+      try {
+        await this.positionTracker.syncWithT212(account.client, account.scope);
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'T212 position sync failed');
+      }
+    }
+  }
+
+  private async reconcileIntents(): Promise<void> {
+    const reconciler = getStartupReconciler();
+    for (const account of this.accounts) {
+      try {
+        const report = await reconciler.reconcile(account.client, account.accountType);
+        if (report.corrections.length > 0) {
+          const lines = report.corrections.map((c) => `${c.symbol}: ${c.action}`).join('\n');
+          await this.telegram.sendAlert(
+            `Startup reconciliation (${account.accountType})`,
+            `${report.corrections.length} correction(s) applied:\n${lines}`,
+          );
+        }
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'Startup reconciliation failed');
+      }
+    }
+  }
+
+  private async managePies(): Promise<void> {
+    const pieManager = getPieManager();
+    const dryRun = configManager.get<boolean>('execution.dryRun');
+    for (const account of this.accounts) {
+      try {
+        if (!dryRun && account.withConfig(() => pieManager.isRebalanceDue(account.accountType))) {
+          const result = await account.withConfig(() =>
+            pieManager.rebalance(account.client, account.accountType, (symbol) =>
+              this.tickerMapper.toT212Ticker(symbol),
+            ),
+          );
+          if (result.action === 'created' || result.action === 'updated') {
+            const shares = Object.entries(result.instrumentShares)
+              .map(([ticker, share]) => `${ticker}: ${(share * 100).toFixed(1)}%`)
+              .join('\n');
+            await this.telegram.sendMessage(
+              `<b>Pie ${result.action}</b> (${account.accountType})\n${shares}`,
+            );
+          }
+        }
+        await pieManager.snapshot(account.client, account.accountType);
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'Pie management failed');
+      }
+    }
+  }
+
+  private async importHistory(): Promise<void> {
+    const importer = getHistoryImporter();
+    for (const account of this.accounts) {
+      try {
+        const summary = await importer.run(account.client, account.accountType);
+        if (summary.orders > 0 || summary.transactions > 0) {
+          log.info(summary, 'Account history imported');
+        }
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'History import failed');
+      }
+    }
+  }
+
+  private async syncDividends(): Promise<void> {
+    const dividendManager = getDividendManager();
+    for (const account of this.accounts) {
+      try {
+        const imported = await dividendManager.sync(
+          account.client,
+          account.accountType,
+          account.scope,
+        );
+        if (imported.length > 0) {
+          const total = imported.reduce((sum, d) => sum + d.amount, 0);
+          const symbols = [...new Set(imported.map((d) => d.symbol))].join(', ');
+          await this.telegram.sendMessage(
+            `<b>Dividends received</b> (${account.accountType})\n${formatCurrency(total)} from ${symbols}`,
+          );
+        }
+
+        if (account.get<DividendPolicy>('dividends.policy') === 'reinvest') {
+          await dividendManager.reinvest(account.client, account.accountType);
+        }
+      } catch (err) {
+        log.error({ accountType: account.accountType, err }, 'Dividend sync failed');
+      }
     }
   }
 
   private async sendDailySummary(): Promise<void> {
     try {
-      const summary = this.performanceTracker.generateDailySummary();
+      let summary = this.performanceTracker.generateDailySummary();
+      try {
+        summary += `\n\n${getAIUsageMeter().formatDailySummary()}`;
+      } catch (usageErr) {
+        log.warn({ usageErr }, 'AI usage summary unavailable');
+      }
       await this.telegram.sendMessage(summary);
       await this.performanceTracker.saveDailyMetrics();
 
@@ -1201,10 +1667,15 @@ class TradingBot {
         log.error({ repErr }, 'Daily report generation failed');
       }
 
-      // Reset cool-down at end of trading day
-      if (this.lossCooldownUntil) {
-        log.info('Clearing loss cool-down at end of trading day');
-        this.lossCooldownUntil = null;
+      // Reset cool-downs at end of trading day
+      for (const account of this.accounts) {
+        if (account.lossCooldownUntil) {
+          log.info(
+            { accountType: account.accountType },
+            'Clearing loss cool-down at end of trading day',
+          );
+          account.lossCooldownUntil = null;
+        }
       }
     } catch (err) {
       log.error({ err }, 'Failed to send daily summary');
@@ -1260,7 +1731,7 @@ class TradingBot {
 
     const statusLabel = this.paused
       ? 'PAUSED'
-      : this.lossCooldownUntil && new Date() < this.lossCooldownUntil
+      : this.accounts.some((a) => a.isInCooldown())
         ? 'COOL-DOWN'
         : 'RUNNING';
 
@@ -1276,12 +1747,23 @@ class TradingBot {
       `Pairlist: ${this.activeStocks.length} stocks`,
     ];
 
-    if (this.lossCooldownUntil && new Date() < this.lossCooldownUntil) {
-      const remainingMs = this.lossCooldownUntil.getTime() - Date.now();
+    if (this.accounts.length > 1) {
+      for (const account of this.accounts) {
+        const cash = account.lastKnownPortfolio?.cash;
+        lines.push(
+          `${account.accountType}: ${cash != null ? `${formatCurrency(cash)} cash` : 'cash unknown'}${account.strategyProfile ? ` (${account.strategyProfile})` : ''}`,
+        );
+      }
+    }
+
+    for (const account of this.accounts) {
+      if (!account.isInCooldown() || !account.lossCooldownUntil) continue;
+      const remainingMs = account.lossCooldownUntil.getTime() - Date.now();
       const remainingMin = Math.ceil(remainingMs / 60_000);
-      const factor = configManager.get<number>('risk.lossCooldownSizeFactor') ?? 0.5;
+      const factor = account.get<number>('risk.lossCooldownSizeFactor') ?? 0.5;
+      const label = this.accounts.length > 1 ? `${account.accountType} cool-down` : 'Cool-down';
       lines.push(
-        `Cool-down: ${remainingMin}min remaining (${(factor * 100).toFixed(0)}% position sizing)`,
+        `${label}: ${remainingMin}min remaining (${(factor * 100).toFixed(0)}% position sizing)`,
       );
     }
 
@@ -1302,21 +1784,16 @@ class TradingBot {
 
   private async handleCloseCommand(ticker: string): Promise<string> {
     try {
-      const db = getDb();
-      const pos = db
-        .select()
-        .from(schema.positions)
-        .where(eq(schema.positions.symbol, ticker))
-        .get();
+      const pos = this.heldPosition(ticker);
       if (!pos) return `No open position for ${ticker}.`;
 
-      const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-      await this.orderManager.executeClose({
+      const account = this.getAccount(pos.accountType);
+      await account.orderManager.executeClose({
         symbol: pos.symbol,
         t212Ticker: pos.t212Ticker,
         shares: pos.shares,
         exitReason: 'Manual close via Telegram',
-        accountType,
+        accountType: account.accountType,
       });
       return `Position ${ticker} close order submitted.`;
     } catch (err) {
@@ -1332,8 +1809,9 @@ class TradingBot {
     const lines = ['<b>Open Positions:</b>'];
     for (const p of allPositions) {
       const emoji = (p.pnlPct ?? 0) >= 0 ? '+' : '';
+      const account = this.accounts.length > 1 ? ` [${p.accountType}]` : '';
       lines.push(
-        `${p.symbol}: ${p.shares} shares @ ${formatCurrency(p.entryPrice)} | ${emoji}${formatPercent(p.pnlPct ?? 0)}`,
+        `${p.symbol}${account}: ${p.shares} shares @ ${formatCurrency(p.entryPrice)} | ${emoji}${formatPercent(p.pnlPct ?? 0)}`,
       );
     }
     return lines.join('\n');
@@ -1439,8 +1917,10 @@ class TradingBot {
         // Add position context to signal re-evaluation
         const aiEnabled = configManager.get<boolean>('ai.enabled');
         if (!aiEnabled) continue;
+        const budgeted = this.budgetedAgent();
+        if (!budgeted) continue;
 
-        const decision = await this.aiAgent.analyze(aiContext);
+        const decision = await runAIJob('reevaluation', () => budgeted.agent.analyze(aiContext));
         if (!decision) {
           log.warn({ symbol: pos.symbol }, 'AI re-evaluation parsing failed — skipping');
           continue;
@@ -1472,7 +1952,7 @@ class TradingBot {
                 }),
                 updatedAt: new Date().toISOString(),
               })
-              .where(eq(schema.positions.symbol, pos.symbol))
+              .where(eq(schema.positions.id, pos.id))
               .run();
 
             log.info(
@@ -1493,34 +1973,38 @@ class TradingBot {
 
     const audit = getAuditLogger();
 
-    try {
-      const result = await this.orderReplacer.processOpenOrders();
-      if (result.replaced > 0) {
-        log.info(
-          { replaced: result.replaced, checked: result.checked },
-          'Order replacements processed',
-        );
-        audit.logTrade(
-          '*',
-          `Order replacement: ${result.replaced} orders repriced (${result.checked} checked)`,
-          {
-            replaced: result.replaced,
-            skipped: result.skipped,
-            filledDuringCancel: result.filledDuringCancel,
-          },
-        );
-      }
-      if (result.errors.length > 0) {
-        for (const error of result.errors) {
-          log.error({ error }, 'Order replacement error');
+    for (const account of this.accounts) {
+      const { accountType } = account;
+      try {
+        const result = await account.orderReplacer.processOpenOrders();
+        if (result.replaced > 0) {
+          log.info(
+            { accountType, replaced: result.replaced, checked: result.checked },
+            'Order replacements processed',
+          );
+          audit.logTrade(
+            '*',
+            `Order replacement (${accountType}): ${result.replaced} orders repriced (${result.checked} checked)`,
+            {
+              accountType,
+              replaced: result.replaced,
+              skipped: result.skipped,
+              filledDuringCancel: result.filledDuringCancel,
+            },
+          );
         }
-        await this.telegram.sendAlert(
-          'Order Replacement Errors',
-          `${result.errors.length} error(s) during order replacement. Check logs.`,
-        );
+        if (result.errors.length > 0) {
+          for (const error of result.errors) {
+            log.error({ accountType, error }, 'Order replacement error');
+          }
+          await this.telegram.sendAlert(
+            'Order Replacement Errors',
+            `${result.errors.length} error(s) during ${accountType} order replacement. Check logs.`,
+          );
+        }
+      } catch (err) {
+        log.error({ accountType, err }, 'Order replacement processing failed');
       }
-    } catch (err) {
-      log.error({ err }, 'Order replacement processing failed');
     }
   }
 
@@ -1566,6 +2050,10 @@ class TradingBot {
 
   private async runScheduledResearch(): Promise<void> {
     try {
+      if (getAIUsageMeter().getBudgetStatus().level === 'technical_only') {
+        log.info('AI budget spent — skipping scheduled research');
+        return;
+      }
       const audit = getAuditLogger();
       const report = await this.marketResearcher.runResearch();
       audit.logResearch(`Market research completed: ${report.results.length} stocks analyzed`);
@@ -1580,27 +2068,164 @@ class TradingBot {
 
   // ─── Helpers ───────────────────────────────────────────
 
-  private async getPortfolioState(): Promise<PortfolioState> {
+  /**
+   * The agent to analyse with under the AI budget: the configured one, the
+   * cheaper fallback model near the cap or while the configured model is
+   * quarantined for unparseable output, or null once the budget is spent or
+   * the fallback is quarantined too.
+   */
+  private budgetedAgent(): { agent: AIAgent; model: string } | null {
+    const { level } = getAIUsageMeter().getBudgetStatus();
+    if (level === 'technical_only') return null;
+    const health = getHealthMetrics();
+    const model = getActiveModelName();
+    if (level === 'fallback' || health.isModelQuarantined(model)) {
+      const fallback = configManager.get<{ provider: string; model?: string }>(
+        'ai.budget.fallback',
+      );
+      const fallbackModel = modelNameFor(fallback.provider, fallback.model);
+      if (health.isModelQuarantined(fallbackModel)) return null;
+      return {
+        agent: createProviderAgent(fallback.provider, fallback.model),
+        model: fallbackModel,
+      };
+    }
+    return { agent: this.aiAgent, model };
+  }
+
+  /** The first configured account; it also serves shared lookups such as instrument metadata. */
+  private get primaryAccount(): TradingAccount {
+    return this.accounts[0];
+  }
+
+  /**
+   * A position in the symbol held by one of the configured accounts. Positions
+   * are unique per account, so rows left by an account no longer configured
+   * are skipped; a single account owns every row.
+   */
+  private heldPosition(symbol: string): typeof schema.positions.$inferSelect | undefined {
+    const scopes = this.accounts.flatMap((a) => (a.scope ? [a.scope] : []));
+    return getDb()
+      .select()
+      .from(schema.positions)
+      .where(
+        scopes.length > 0
+          ? and(eq(schema.positions.symbol, symbol), inArray(schema.positions.accountType, scopes))
+          : eq(schema.positions.symbol, symbol),
+      )
+      .get();
+  }
+
+  /** Account for a row's account tag, falling back to the primary account. */
+  private getAccount(accountType: string | null | undefined): TradingAccount {
+    return this.accounts.find((a) => a.accountType === accountType) ?? this.primaryAccount;
+  }
+
+  /**
+   * Account for a new position: the first, in configured order, with a free
+   * position slot and cash under its own limits. Only used for symbols not
+   * held anywhere, so the bot keeps each symbol in a single account.
+   */
+  private async selectBuyAccount(): Promise<{
+    account: TradingAccount;
+    portfolio: PortfolioState;
+  } | null> {
+    for (const account of this.accounts) {
+      const portfolio = await this.getPortfolioState(account);
+      const maxPositions = account.get<number>('risk.maxPositions');
+      if (portfolio.openPositions < maxPositions && portfolio.cashAvailable > 0) {
+        return { account, portfolio };
+      }
+      log.debug(
+        { accountType: account.accountType, openPositions: portfolio.openPositions, maxPositions },
+        'Account has no room for a new position',
+      );
+    }
+    return null;
+  }
+
+  /** Account holding the position, or the primary account when nothing is held. */
+  private async selectSellAccount(
+    pos: typeof schema.positions.$inferSelect | undefined,
+  ): Promise<{ account: TradingAccount; portfolio: PortfolioState }> {
+    const account = this.getAccount(pos?.accountType);
+    return { account, portfolio: await this.getPortfolioState(account) };
+  }
+
+  /** Close each position through the account that holds it. */
+  private closePositions(positions: (typeof schema.positions.$inferSelect)[], exitReason: string) {
+    return Promise.allSettled(
+      positions.map((pos) => {
+        const account = this.getAccount(pos.accountType);
+        return account.orderManager.executeClose({
+          symbol: pos.symbol,
+          t212Ticker: pos.t212Ticker,
+          shares: pos.shares,
+          exitReason,
+          accountType: account.accountType,
+        });
+      }),
+    );
+  }
+
+  /**
+   * How an instrument's quote currency converts into the account's currency.
+   * Empty when they match; null when the FX rate cannot be fetched, in which
+   * case the trade cannot be sized safely.
+   */
+  private async getQuoteConversion(
+    symbol: string,
+    account: TradingAccount,
+  ): Promise<Pick<BuyParams, 'currency' | 'accountCurrency' | 'fxRate'> | null> {
+    const currency =
+      this.tickerMapper.getStockInfo(symbol)?.currency ?? exchangeForSymbol(symbol).currency;
+    const accountCurrency = account.get<string>('t212.accountCurrency') ?? 'USD';
+    if (currency === accountCurrency) return {};
+
+    const fxRate = await getFxRateService().getRate(currency, accountCurrency);
+    if (fxRate == null) return null;
+    return { currency, accountCurrency, fxRate };
+  }
+
+  /**
+   * Portfolio state for one account, or for all accounts combined when none is
+   * given (the view the shared analysis pipeline and status reports use).
+   */
+  private async getPortfolioState(account?: TradingAccount): Promise<PortfolioState> {
+    const scope = account?.scope;
     try {
       const db = getDb();
-      const allPositions = db.select().from(schema.positions).all();
-      const positionsValue = allPositions.reduce(
-        (sum: number, p) => sum + (p.currentPrice ?? p.entryPrice) * p.shares,
-        0,
-      );
+      const allPositions = db
+        .select()
+        .from(schema.positions)
+        .where(scope ? eq(schema.positions.accountType, scope) : undefined)
+        .all();
+      // Shorts count negative: they are owed back to the lender
+      const positionsValue = allPositions.reduce((sum: number, p) => sum + accountValue(p), 0);
+      const longExposure = allPositions
+        .filter((p) => p.direction !== 'SHORT')
+        .reduce((sum: number, p) => sum + accountValue(p), 0);
+      const shortExposure = positionsValue - longExposure;
 
       const today = new Date().toISOString().split('T')[0];
       const todayTrades = db
         .select()
         .from(schema.trades)
-        .where(and(gte(schema.trades.entryTime, today), isNotNull(schema.trades.exitPrice)))
+        .where(
+          and(
+            gte(schema.trades.entryTime, today),
+            isNotNull(schema.trades.exitPrice),
+            scope ? eq(schema.trades.accountType, scope) : undefined,
+          ),
+        )
         .all();
 
       const closedTradePnl = todayTrades.reduce((sum: number, t) => sum + (t.pnl ?? 0), 0);
 
       // Include unrealized P&L from open positions
       const unrealizedPnl = allPositions.reduce(
-        (sum: number, p) => sum + ((p.currentPrice ?? p.entryPrice) - p.entryPrice) * p.shares,
+        (sum: number, p) =>
+          sum + accountValue(p) - p.entryPrice * signedShares(p) * (p.entryFxRate ?? 1),
         0,
       );
       const todayPnl = closedTradePnl + unrealizedPnl;
@@ -1608,39 +2233,22 @@ class TradingBot {
       // Use T212 API for actual cash balance when available
       let cashAvailable = 0;
       let portfolioValue = 0;
-      try {
-        const accountCash = await this.t212Client.getAccountCash();
-        cashAvailable = accountCash.free ?? accountCash.availableToTrade ?? 0;
-        portfolioValue = (accountCash.total ?? cashAvailable) + positionsValue;
-        if (portfolioValue <= 0) portfolioValue = cashAvailable + positionsValue;
-        this.lastKnownPortfolio = {
-          cash: cashAvailable,
-          value: portfolioValue,
-          timestamp: new Date().toISOString(),
-        };
-      } catch (err) {
-        log.debug({ err }, 'Failed to fetch T212 account cash');
-        if (this.lastKnownPortfolio) {
-          const cacheAgeMs = Date.now() - new Date(this.lastKnownPortfolio.timestamp).getTime();
-          if (cacheAgeMs < 30 * 60 * 1000) {
-            log.warn({ cacheAge: Math.round(cacheAgeMs / 1000) }, 'Using cached portfolio values');
-            cashAvailable = this.lastKnownPortfolio.cash;
-            portfolioValue = this.lastKnownPortfolio.value;
-          } else {
-            log.error('Portfolio cache stale and T212 API unavailable — pausing trading');
-            this.paused = true;
-          }
-        } else {
-          log.error('No portfolio cache and T212 API unavailable — pausing trading');
-          this.paused = true;
-        }
+      for (const acct of account ? [account] : this.accounts) {
+        const acctPositionsValue = acct.scope
+          ? allPositions
+              .filter((p) => p.accountType === acct.scope)
+              .reduce((sum: number, p) => sum + accountValue(p), 0)
+          : positionsValue;
+        const balance = await this.getAccountBalance(acct, acctPositionsValue);
+        cashAvailable += balance.cash;
+        portfolioValue += balance.value;
       }
 
       // Sector exposure: count and dollar-weighted
       const sectorExposure: Record<string, number> = {};
       const sectorExposureValue: Record<string, number> = {};
       for (const p of allPositions) {
-        const posValue = (p.currentPrice ?? p.entryPrice) * p.shares;
+        const posValue = Math.abs(accountValue(p));
         const fundRow = db
           .select({ sector: schema.fundamentalCache.sector })
           .from(schema.fundamentalCache)
@@ -1659,14 +2267,22 @@ class TradingBot {
         }
       }
 
-      // Track peak value in DB for drawdown calculation
-      const latestMetrics = db
-        .select()
-        .from(schema.dailyMetrics)
-        .orderBy(desc(schema.dailyMetrics.date))
-        .limit(1)
-        .get();
-      const peakValue = Math.max(portfolioValue, latestMetrics?.portfolioValue ?? portfolioValue);
+      // Track peak value for drawdown calculation. daily_metrics holds combined
+      // values, so it only seeds the peak when it covers the same scope.
+      const latestMetrics = scope
+        ? undefined
+        : db
+            .select()
+            .from(schema.dailyMetrics)
+            .orderBy(desc(schema.dailyMetrics.date))
+            .limit(1)
+            .get();
+      const peakValue = Math.max(
+        portfolioValue,
+        latestMetrics?.portfolioValue ?? portfolioValue,
+        account?.peakValue ?? 0,
+      );
+      if (account) account.peakValue = peakValue;
 
       return {
         cashAvailable,
@@ -1677,6 +2293,8 @@ class TradingBot {
         sectorExposure,
         sectorExposureValue,
         peakValue,
+        longExposure,
+        shortExposure: Math.abs(shortExposure),
       };
     } catch {
       log.error('getPortfolioState failed completely — pausing trading');
@@ -1694,6 +2312,46 @@ class TradingBot {
     }
   }
 
+  /**
+   * Cash and value for one account from its T212 client, falling back to the
+   * account's cached values for up to 30 minutes. Pauses trading when neither
+   * is available.
+   */
+  private async getAccountBalance(
+    account: TradingAccount,
+    positionsValue: number,
+  ): Promise<{ cash: number; value: number }> {
+    const { accountType } = account;
+    try {
+      const accountCash = await account.client.getAccountCash();
+      const cash = accountCash.free ?? accountCash.availableToTrade ?? 0;
+      let value = (accountCash.total ?? cash) + positionsValue;
+      if (value <= 0) value = cash + positionsValue;
+      account.lastKnownPortfolio = { cash, value, timestamp: new Date().toISOString() };
+      return { cash, value };
+    } catch (err) {
+      log.debug({ accountType, err }, 'Failed to fetch T212 account cash');
+      if (account.lastKnownPortfolio) {
+        const cacheAgeMs = Date.now() - new Date(account.lastKnownPortfolio.timestamp).getTime();
+        if (cacheAgeMs < 30 * 60 * 1000) {
+          log.warn(
+            { accountType, cacheAge: Math.round(cacheAgeMs / 1000) },
+            'Using cached portfolio values',
+          );
+          return { cash: account.lastKnownPortfolio.cash, value: account.lastKnownPortfolio.value };
+        }
+        log.error(
+          { accountType },
+          'Portfolio cache stale and T212 API unavailable — pausing trading',
+        );
+      } else {
+        log.error({ accountType }, 'No portfolio cache and T212 API unavailable — pausing trading');
+      }
+      this.paused = true;
+      return { cash: 0, value: 0 };
+    }
+  }
+
   private buildAIContext(
     symbol: string,
     data: StockData,
@@ -1835,6 +2493,7 @@ class TradingBot {
           pnlPct: p.pnlPct ?? 0,
           entryPrice: p.entryPrice,
           currentPrice: p.currentPrice ?? p.entryPrice,
+          direction: p.direction,
         })),
       },
       marketContext: {
@@ -1849,6 +2508,7 @@ class TradingBot {
         minStopLossPct: configManager.get<number>('risk.minStopLossPct'),
         maxRiskPerTradePct: configManager.get<number>('risk.maxRiskPerTradePct'),
         dailyLossLimitPct: configManager.get<number>('risk.dailyLossLimitPct'),
+        shortSellingAllowed: shortSellingAvailable(),
       },
       portfolioCorrelations: portfolioCorrelations ?? [],
       ...(webResearchData
@@ -1915,24 +2575,35 @@ class TradingBot {
       const dcaManager = getDCAManager();
       const db = getDb();
       const allPositions = db.select().from(schema.positions).all();
-      const portfolio = await this.getPortfolioState();
-      const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
+      const portfolios = new Map<TradingAccount, PortfolioState>();
 
       for (const pos of allPositions) {
-        if (!pos.currentPrice) continue;
+        // Averaging down applies to longs only
+        if (!pos.currentPrice || pos.direction === 'SHORT') continue;
+
+        const account = this.getAccount(pos.accountType);
+        let portfolio = portfolios.get(account);
+        if (!portfolio) {
+          portfolio = await this.getPortfolioState(account);
+          portfolios.set(account, portfolio);
+        }
+        const accountPortfolio = portfolio;
+        const currentPrice = pos.currentPrice;
 
-        const evaluation = dcaManager.evaluatePosition(
-          pos.symbol,
-          pos.currentPrice,
-          {
-            symbol: pos.symbol,
-            shares: pos.shares,
-            entryPrice: pos.entryPrice,
-            entryTime: pos.entryTime,
-            dcaCount: pos.dcaCount ?? 0,
-            totalInvested: pos.totalInvested,
-          },
-          portfolio,
+        const evaluation = account.withConfig(() =>
+          dcaManager.evaluatePosition(
+            pos.symbol,
+            currentPrice,
+            {
+              symbol: pos.symbol,
+              shares: pos.shares,
+              entryPrice: pos.entryPrice,
+              entryTime: pos.entryTime,
+              dcaCount: pos.dcaCount ?? 0,
+              totalInvested: pos.totalInvested,
+            },
+            accountPortfolio,
+          ),
         );
 
         if (evaluation.shouldDCA && evaluation.shares && evaluation.shares > 0) {
@@ -1946,8 +2617,8 @@ class TradingBot {
               pos.t212Ticker,
               evaluation.shares,
               pos.currentPrice,
-              accountType,
-              this.t212Client,
+              pos.accountType,
+              account.client,
             );
           } catch (dcaErr) {
             log.error({ symbol: pos.symbol, dcaErr }, 'DCA execution failed');
@@ -1961,37 +2632,52 @@ class TradingBot {
 
   private async evaluatePartialExits(): Promise<void> {
     try {
-      const partialExitMgr = getPartialExitManager();
-      const db = getDb();
-      const allPositions = db.select().from(schema.positions).all();
-      const accountType = configManager.get<string>('t212.accountType') as 'INVEST' | 'ISA';
-
+      const allPositions = getDb().select().from(schema.positions).all();
       for (const pos of allPositions) {
-        const evaluation = partialExitMgr.evaluatePosition(pos);
-
-        if (evaluation.shouldExit && evaluation.sharesToSell && evaluation.sharesToSell > 0) {
-          log.info(
-            { symbol: pos.symbol, sharesToSell: evaluation.sharesToSell },
-            'Partial exit triggered',
-          );
-          try {
-            await partialExitMgr.executePartialExit(
-              pos.symbol,
-              pos.t212Ticker,
-              evaluation.sharesToSell,
-              evaluation.reason ?? 'Partial exit tier reached',
-              accountType,
-            );
-          } catch (peErr) {
-            log.error({ symbol: pos.symbol, peErr }, 'Partial exit execution failed');
-          }
-        }
+        const plan = this.partialExitFor(pos);
+        if (!plan) continue;
+        await this.exitMonitor.exit(pos, () => this.executePartialExit(pos, plan));
       }
     } catch (err) {
       log.error({ err }, 'Partial exit evaluation failed');
     }
   }
 
+  /** The partial-exit tier a position has reached under its account's config, if any. */
+  private partialExitFor(pos: typeof schema.positions.$inferSelect): PartialExitPlan | null {
+    // Profit tiers sell part of a long; shorts exit whole
+    if (pos.direction === 'SHORT') return null;
+    const account = this.getAccount(pos.accountType);
+    const evaluation = account.withConfig(() => getPartialExitManager().evaluatePosition(pos));
+    if (!evaluation.shouldExit || !evaluation.sharesToSell || evaluation.sharesToSell <= 0) {
+      return null;
+    }
+    return {
+      shares: evaluation.sharesToSell,
+      reason: evaluation.reason ?? 'Partial exit tier reached',
+    };
+  }
+
+  private async executePartialExit(
+    pos: typeof schema.positions.$inferSelect,
+    plan: PartialExitPlan,
+  ): Promise<void> {
+    const account = this.getAccount(pos.accountType);
+    log.info({ symbol: pos.symbol, sharesToSell: plan.shares }, 'Partial exit triggered');
+    try {
+      await getPartialExitManager().executePartialExit(
+        pos.symbol,
+        pos.t212Ticker,
+        plan.shares,
+        plan.reason,
+        pos.accountType,
+        account.client,
+      );
+    } catch (peErr) {
+      log.error({ symbol: pos.symbol, peErr }, 'Partial exit execution failed');
+    }
+  }
+
   private async runAISelfImprovement(): Promise<void> {
     try {
       const selfImprove = getAISelfImprovement();
@@ -53,6 +53,8 @@ export interface AttributionResult {
     afternoon: PeriodStats; // 14:00-16:00 ET
   };
   byDayOfWeek: Record<string, PeriodStats>;
+  /** Bot-placed versus manual (Trading212 app) trades */
+  byOrigin: Record<string, PeriodStats>;
   factorCorrelations: {
     factors: string[];
     matrix: number[][];
@@ -382,6 +384,27 @@ export function computeByDayOfWeek(matchedTrades: TradeWithSignal[]): Record<str
   return result;
 }
 
+/**
+ * Groups trades by who placed them: the bot or the account holder in the app.
+ */
+export function computeByOrigin(matchedTrades: TradeWithSignal[]): Record<string, PeriodStats> {
+  const originMap = new Map<string, Array<{ pnl: number; pnlPct: number }>>();
+
+  for (const { trade } of matchedTrades) {
+    const origin = trade.origin ?? 'bot';
+    const existing = originMap.get(origin) ?? [];
+    existing.push({ pnl: trade.pnl ?? 0, pnlPct: trade.pnlPct ?? 0 });
+    originMap.set(origin, existing);
+  }
+
+  const result: Record<string, PeriodStats> = {};
+  for (const [origin, trades] of originMap) {
+    result[origin] = createPeriodStats(trades);
+  }
+
+  return result;
+}
+
 /**
  * Computes Pearson correlation matrix for factor scores.
  */
@@ -495,6 +518,15 @@ export function generateInsights(result: AttributionResult): string[] {
     }
   }
 
+  // Bot versus manual trades
+  const bot = result.byOrigin?.bot;
+  const manual = result.byOrigin?.manual;
+  if (bot?.count && manual?.count) {
+    insights.push(
+      `Bot trades: ${formatCurrency(bot.totalPnl)} P&L at ${formatPercent(bot.winRate)} win rate; manual trades: ${formatCurrency(manual.totalPnl)} at ${formatPercent(manual.winRate)}`,
+    );
+  }
+
   // Day of week insights
   const weekdayOrder = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
   const weekdays = weekdayOrder
@@ -605,6 +637,7 @@ export class PerformanceAttributor {
     const bySector = computeBySector(matched);
     const byTimeOfDay = computeByTimeOfDay(matched);
     const byDayOfWeek = computeByDayOfWeek(matched);
+    const byOrigin = computeByOrigin(matched);
     const factorCorrelations = computeFactorCorrelations(matched);
 
     const result: AttributionResult = {
@@ -614,6 +647,7 @@ export class PerformanceAttributor {
       bySector,
       byTimeOfDay,
       byDayOfWeek,
+      byOrigin,
       factorCorrelations,
       insights: [],
     };
@@ -708,6 +742,7 @@ export class PerformanceAttributor {
         afternoon: emptyPeriodStats,
       },
       byDayOfWeek: {},
+      byOrigin: {},
       factorCorrelations: {
         factors: ['technical', 'fundamental', 'sentiment', 'ai'],
         matrix: [
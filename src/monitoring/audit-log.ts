@@ -13,7 +13,8 @@ export type AuditEventType =
   | 'config'
   | 'error'
   | 'control'
-  | 'research';
+  | 'research'
+  | 'reconciliation';
 export type AuditCategory = 'execution' | 'analysis' | 'risk' | 'system' | 'user';
 export type AuditSeverity = 'info' | 'warn' | 'error';
 
@@ -89,6 +90,17 @@ export class AuditLogger {
     this.log({ eventType: 'research', category: 'analysis', summary, details });
   }
 
+  logReconciliation(symbol: string, summary: string, details?: Record<string, unknown>): void {
+    this.log({
+      eventType: 'reconciliation',
+      category: 'execution',
+      symbol,
+      summary,
+      details,
+      severity: 'warn',
+    });
+  }
+
   /** Get audit entries for a specific day */
   getEntriesForDate(dateStr: string): AuditEntry[] {
     const db = getDb();
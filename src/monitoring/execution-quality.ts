@@ -0,0 +1,501 @@
+import { and, eq, gte, isNotNull, lte, or } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import { getCandles } from '../db/repositories/candles.js';
+import * as schema from '../db/schema.js';
+import { directionalReturn } from '../execution/short-selling.js';
+import { exchangeForSymbol, getCloseMinutes, toLocalTime } from '../utils/exchanges.js';
+import { round } from '../utils/helpers.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('execution-quality');
+
+type Trade = typeof schema.trades.$inferSelect;
+type Order = typeof schema.orders.$inferSelect;
+type Signal = typeof schema.signals.$inferSelect;
+
+/** How far from a trade's fill its order's fill may be to count as the same execution */
+const ORDER_MATCH_WINDOW_MS = 5 * 60 * 1000;
+/** How long before an entry its signal may have fired (approval can sit for a while) */
+const DECISION_WINDOW_MS = 48 * 60 * 60 * 1000;
+/** Minutes after the open and before the close counted as the open and close auctions' shoulders */
+const SESSION_EDGE_MINUTES = 30;
+/** ATR as a fraction of price separating the volatility buckets */
+const VOLATILITY_BUCKETS = { low: 0.015, high: 0.03 };
+
+const BAR_MS: Record<string, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '1h': 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export type TimeOfDay = 'open' | 'midday' | 'close' | 'outside';
+export type VolatilityBucket = 'low' | 'normal' | 'high' | 'unknown';
+
+export interface DistributionStats {
+  count: number;
+  mean: number;
+  median: number;
+  p90: number;
+  max: number;
+}
+
+/** One fill measured against the price the bot intended to trade at. Positive bps are a cost. */
+export interface SlippageSample {
+  tradeId: number;
+  symbol: string;
+  kind: 'entry' | 'exit';
+  orderType: string;
+  timeOfDay: TimeOfDay;
+  volatility: VolatilityBucket;
+  bps: number;
+}
+
+export interface ShortfallSample {
+  tradeId: number;
+  symbol: string;
+  decisionTime: string;
+  decisionPrice: number;
+  intendedPrice: number | null;
+  fillPrice: number;
+  /** Fill notional in account currency */
+  notional: number;
+  /** Decision to order submission: the price moved while the plan waited */
+  delayBps: number;
+  /** Submission to fill: slippage */
+  executionBps: number;
+  totalBps: number;
+}
+
+export interface ReplacementStats {
+  /** Orders that were replaced at least once, counted at the original */
+  chains: number;
+  avgDepth: number;
+  maxDepth: number;
+  /** Chains by number of replacements */
+  depthCounts: Record<string, number>;
+  /** Chains whose last order filled */
+  filled: number;
+  fillRate: number;
+}
+
+export interface ExecutionQualityReport {
+  period: { from: string; to: string };
+  accountType: 'INVEST' | 'ISA' | null;
+  slippage: {
+    overall: DistributionStats;
+    bySymbol: Record<string, DistributionStats>;
+    byOrderType: Record<string, DistributionStats>;
+    byTimeOfDay: Record<string, DistributionStats>;
+    byVolatility: Record<string, DistributionStats>;
+    bySide: Record<string, DistributionStats>;
+  };
+  /** Seconds from order submission to fill */
+  latency: {
+    overall: DistributionStats;
+    byOrderType: Record<string, DistributionStats>;
+  };
+  replacements: ReplacementStats;
+  shortfall: {
+    trades: number;
+    /** Entries with no signal or no price history at decision time */
+    unmeasured: number;
+    meanDelayBps: number;
+    meanExecutionBps: number;
+    /** Notional-weighted shortfall of all measured entries */
+    weightedBps: number;
+    /** Shortfall in account currency */
+    cost: number;
+    worst: ShortfallSample[];
+  };
+}
+
+export interface ExecutionQualityInput {
+  trades: Trade[];
+  orders: Order[];
+  signals: Signal[];
+  /** Price at a moment in time, used as the decision price of a signal */
+  priceAt: (symbol: string, at: string) => number | null;
+}
+
+// ── Pure Computation Functions ────────────────────────────────────────────
+
+export function distribution(values: number[]): DistributionStats {
+  if (values.length === 0) return { count: 0, mean: 0, median: 0, p90: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)];
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    median: round(
+      sorted.length % 2
+        ? sorted[(sorted.length - 1) / 2]
+        : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2,
+    ),
+    p90: round(at(0.9)),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string, value: (item: T) => number) {
+  const groups = new Map<string, number[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), value(item)]);
+  }
+  return Object.fromEntries([...groups].map(([k, values]) => [k, distribution(values)]));
+}
+
+/** Where in its exchange's session a fill happened. */
+export function timeOfDay(symbol: string, at: string): TimeOfDay {
+  const exchange = exchangeForSymbol(symbol);
+  const local = toLocalTime(exchange.timeZone, new Date(at));
+  const close = getCloseMinutes(exchange.code, local);
+  if (local.minutes < exchange.open || local.minutes >= close) return 'outside';
+  if (local.minutes < exchange.open + SESSION_EDGE_MINUTES) return 'open';
+  if (local.minutes >= close - SESSION_EDGE_MINUTES) return 'close';
+  return 'midday';
+}
+
+export function volatilityBucket(atr: number | null | undefined, price: number): VolatilityBucket {
+  if (atr == null || !(price > 0)) return 'unknown';
+  const pct = atr / price;
+  if (pct < VOLATILITY_BUCKETS.low) return 'low';
+  if (pct >= VOLATILITY_BUCKETS.high) return 'high';
+  return 'normal';
+}
+
+function fillOf(trade: Trade): { time: string; price: number; kind: 'entry' | 'exit' } {
+  return trade.exitTime && trade.exitPrice != null
+    ? { time: trade.exitTime, price: trade.exitPrice, kind: 'exit' }
+    : { time: trade.entryTime, price: trade.entryPrice, kind: 'entry' };
+}
+
+/** Closest item to `time` within `windowMs`, optionally only ones at or before it. */
+function closest<T>(
+  items: T[],
+  timeOf: (item: T) => string | null,
+  time: string,
+  windowMs: number,
+  beforeOnly = false,
+): T | null {
+  const target = new Date(time).getTime();
+  let best: T | null = null;
+  let bestDiff = Number.POSITIVE_INFINITY;
+  for (const item of items) {
+    const at = timeOf(item);
+    if (!at) continue;
+    const diff = target - new Date(at).getTime();
+    if (beforeOnly && diff < 0) continue;
+    if (Math.abs(diff) <= windowMs && Math.abs(diff) < bestDiff) {
+      best = item;
+      bestDiff = Math.abs(diff);
+    }
+  }
+  return best;
+}
+
+function bySymbol<T extends { symbol: string }>(items: T[]): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) map.set(item.symbol, [...(map.get(item.symbol) ?? []), item]);
+  return map;
+}
+
+/** Slippage of every bot fill that recorded the price it meant to trade at. */
+export function slippageSamples(trades: Trade[], orders: Order[], signals: Signal[]) {
+  const ordersBySymbol = bySymbol(orders.filter((o) => o.status === 'filled'));
+  const signalsBySymbol = bySymbol(signals);
+  const samples: SlippageSample[] = [];
+
+  for (const trade of trades) {
+    if (trade.slippage == null || trade.intendedPrice == null || trade.origin !== 'bot') continue;
+    const fill = fillOf(trade);
+    const order = closest(
+      (ordersBySymbol.get(trade.symbol) ?? []).filter((o) => o.side === trade.side),
+      (o) => o.filledAt,
+      fill.time,
+      ORDER_MATCH_WINDOW_MS,
+    );
+    const signal = closest(
+      signalsBySymbol.get(trade.symbol) ?? [],
+      (s) => s.timestamp,
+      fill.time,
+      DECISION_WINDOW_MS,
+      true,
+    );
+    samples.push({
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      kind: fill.kind,
+      orderType: order?.orderType ?? 'unknown',
+      timeOfDay: timeOfDay(trade.symbol, fill.time),
+      volatility: volatilityBucket(signal?.atr, trade.intendedPrice),
+      bps: trade.slippage * 10_000,
+    });
+  }
+  return samples;
+}
+
+/** Seconds from submission to fill of filled bot orders. */
+export function fillLatencies(orders: Order[]): Array<{ orderType: string; seconds: number }> {
+  return orders
+    .filter((o) => o.origin === 'bot' && o.status === 'filled' && o.filledAt)
+    .map((o) => ({
+      orderType: o.orderType,
+      seconds: (new Date(o.filledAt as string).getTime() - new Date(o.createdAt).getTime()) / 1000,
+    }))
+    .filter((l) => l.seconds >= 0);
+}
+
+/**
+ * Depth of the chains OrderReplacer builds by linking each cancelled
+ * order to its replacement through `replacedByOrderId`.
+ */
+export function replacementStats(orders: Order[]): ReplacementStats {
+  const byId = new Map(orders.map((o) => [o.id, o]));
+  const replacements = new Set(orders.map((o) => o.replacedByOrderId).filter((id) => id != null));
+  const roots = orders.filter((o) => o.replacedByOrderId != null && !replacements.has(o.id));
+
+  const depthCounts: Record<string, number> = {};
+  let totalDepth = 0;
+  let maxDepth = 0;
+  let filled = 0;
+  for (const root of roots) {
+    let depth = 0;
+    let current = root;
+    const seen = new Set<number>();
+    while (current.replacedByOrderId != null && !seen.has(current.id)) {
+      seen.add(current.id);
+      const next = byId.get(current.replacedByOrderId);
+      depth++;
+      if (!next) break;
+      current = next;
+    }
+    if (current.status === 'filled') filled++;
+    depthCounts[depth] = (depthCounts[depth] ?? 0) + 1;
+    totalDepth += depth;
+    maxDepth = Math.max(maxDepth, depth);
+  }
+
+  return {
+    chains: roots.length,
+    avgDepth: roots.length > 0 ? round(totalDepth / roots.length) : 0,
+    maxDepth,
+    depthCounts,
+    filled,
+    fillRate: roots.length > 0 ? round(filled / roots.length, 4) : 0,
+  };
+}
+
+/**
+ * Implementation shortfall of bot entries: the fill against the price
+ * when the signal that opened the trade fired, split into the drift
+ * before the order went in and the slippage after.
+ */
+export function shortfallSamples(
+  trades: Trade[],
+  signals: Signal[],
+  priceAt: ExecutionQualityInput['priceAt'],
+): { samples: ShortfallSample[]; unmeasured: number } {
+  const signalsBySymbol = bySymbol(signals);
+  const samples: ShortfallSample[] = [];
+  let unmeasured = 0;
+
+  for (const trade of trades) {
+    if (trade.origin !== 'bot' || trade.exitTime != null) continue;
+    const decision = trade.direction === 'SHORT' ? 'SELL' : 'BUY';
+    const signal = closest(
+      (signalsBySymbol.get(trade.symbol) ?? []).filter((s) => s.decision === decision),
+      (s) => s.timestamp,
+      trade.entryTime,
+      DECISION_WINDOW_MS,
+      true,
+    );
+    const decisionPrice = signal ? priceAt(trade.symbol, signal.timestamp) : null;
+    if (!signal || decisionPrice == null || !(decisionPrice > 0)) {
+      unmeasured++;
+      continue;
+    }
+
+    const fillPrice = trade.entryPrice;
+    const intended = trade.intendedPrice;
+    const totalBps = directionalReturn(decisionPrice, fillPrice, trade.direction) * 10_000;
+    const delayBps =
+      intended != null ? directionalReturn(decisionPrice, intended, trade.direction) * 10_000 : 0;
+    samples.push({
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      decisionTime: signal.timestamp,
+      decisionPrice,
+      intendedPrice: intended,
+      fillPrice,
+      notional: trade.shares * fillPrice * (trade.entryFxRate ?? 1),
+      delayBps: round(delayBps),
+      executionBps: round(totalBps - delayBps),
+      totalBps: round(totalBps),
+    });
+  }
+  return { samples, unmeasured };
+}
+
+// ── Analyzer ──────────────────────────────────────────────────────────────
+
+/**
+ * Execution quality of the bot's own orders: slippage against the
+ * intended price, submit-to-fill latency, how often orders had to be
+ * chased by replacement, and implementation shortfall against the price
+ * at decision time.
+ */
+export class ExecutionQualityAnalyzer {
+  /** Computes the report from already-loaded rows; separate from I/O for testability. */
+  analyze(
+    input: ExecutionQualityInput,
+    period: { from: string; to: string },
+    accountType?: 'INVEST' | 'ISA',
+  ): ExecutionQualityReport {
+    const slippage = slippageSamples(input.trades, input.orders, input.signals);
+    const latencies = fillLatencies(input.orders);
+    const { samples: shortfall, unmeasured } = shortfallSamples(
+      input.trades,
+      input.signals,
+      input.priceAt,
+    );
+
+    const notional = shortfall.reduce((sum, s) => sum + s.notional, 0);
+    const cost = shortfall.reduce((sum, s) => sum + (s.notional * s.totalBps) / 10_000, 0);
+    const mean = (values: number[]) =>
+      values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+    return {
+      period,
+      accountType: accountType ?? null,
+      slippage: {
+        overall: distribution(slippage.map((s) => s.bps)),
+        bySymbol: groupBy(
+          slippage,
+          (s) => s.symbol,
+          (s) => s.bps,
+        ),
+        byOrderType: groupBy(
+          slippage,
+          (s) => s.orderType,
+          (s) => s.bps,
+        ),
+        byTimeOfDay: groupBy(
+          slippage,
+          (s) => s.timeOfDay,
+          (s) => s.bps,
+        ),
+        byVolatility: groupBy(
+          slippage,
+          (s) => s.volatility,
+          (s) => s.bps,
+        ),
+        bySide: groupBy(
+          slippage,
+          (s) => s.kind,
+          (s) => s.bps,
+        ),
+      },
+      latency: {
+        overall: distribution(latencies.map((l) => l.seconds)),
+        byOrderType: groupBy(
+          latencies,
+          (l) => l.orderType,
+          (l) => l.seconds,
+        ),
+      },
+      replacements: replacementStats(input.orders),
+      shortfall: {
+        trades: shortfall.length,
+        unmeasured,
+        meanDelayBps: mean(shortfall.map((s) => s.delayBps)),
+        meanExecutionBps: mean(shortfall.map((s) => s.executionBps)),
+        weightedBps: notional > 0 ? round((cost / notional) * 10_000) : 0,
+        cost: round(cost),
+        worst: [...shortfall].sort((a, b) => b.totalBps - a.totalBps).slice(0, 5),
+      },
+    };
+  }
+
+  /** Loads the period's trades, orders and signals and analyzes them. */
+  getReport(from: string, to: string, accountType?: 'INVEST' | 'ISA'): ExecutionQualityReport {
+    const db = getDb();
+    const account = (
+      column: typeof schema.trades.accountType | typeof schema.orders.accountType,
+    ) => (accountType ? eq(column, accountType) : undefined);
+
+    const trades = db
+      .select()
+      .from(schema.trades)
+      .where(
+        and(
+          or(
+            and(gte(schema.trades.entryTime, from), lte(schema.trades.entryTime, to)),
+            and(
+              isNotNull(schema.trades.exitTime),
+              gte(schema.trades.exitTime, from),
+              lte(schema.trades.exitTime, to),
+            ),
+          ),
+          account(schema.trades.accountType),
+        ),
+      )
+      .all();
+    const orders = db
+      .select()
+      .from(schema.orders)
+      .where(
+        and(
+          gte(schema.orders.createdAt, from),
+          lte(schema.orders.createdAt, to),
+          account(schema.orders.accountType),
+        ),
+      )
+      .all();
+    // Decisions can precede the period's first fill
+    const signalsFrom = new Date(new Date(from).getTime() - DECISION_WINDOW_MS).toISOString();
+    const signals = db
+      .select()
+      .from(schema.signals)
+      .where(and(gte(schema.signals.timestamp, signalsFrom), lte(schema.signals.timestamp, to)))
+      .all();
+
+    const report = this.analyze({ trades, orders, signals, priceAt }, { from, to }, accountType);
+    log.info(
+      {
+        fills: report.slippage.overall.count,
+        orders: report.latency.overall.count,
+        shortfallTrades: report.shortfall.trades,
+      },
+      'Execution quality analyzed',
+    );
+    return report;
+  }
+}
+
+/**
+ * Price at `at` from stored candles, finest timeframe first: the close of
+ * the last bar that ended by then, or the open of the bar in progress.
+ */
+function priceAt(symbol: string, at: string): number | null {
+  const time = new Date(at).getTime();
+  for (const [timeframe, barMs] of Object.entries(BAR_MS)) {
+    const from = new Date(time - Math.max(barMs * 3, BAR_MS['1d'] * 4)).toISOString();
+    const bars = getCandles(symbol, timeframe, from, at);
+    const bar = bars[bars.length - 1];
+    if (!bar) continue;
+    return new Date(bar.timestamp).getTime() + barMs <= time ? bar.close : bar.open;
+  }
+  return null;
+}
+
+let instance: ExecutionQualityAnalyzer | null = null;
+
+export function getExecutionQualityAnalyzer(): ExecutionQualityAnalyzer {
+  if (!instance) instance = new ExecutionQualityAnalyzer();
+  return instance;
+}
@@ -1,9 +1,12 @@
+import type { RequestQueueStats } from '../api/trading212/request-scheduler.js';
 import { createLogger } from '../utils/logger.js';
 
 const log = createLogger('health-metrics');
 
 const RING_BUFFER_SIZE = 100;
 const RECENT_RUNS_SIZE = 5;
+/** Parses per model the failure rate is taken over */
+const RECENT_PARSES_SIZE = 20;
 
 export interface JobMetrics {
   name: string;
@@ -25,6 +28,24 @@ export interface DataSourceHealth {
   lastLatencyMs: number | null;
 }
 
+export interface ModelParseHealth {
+  model: string;
+  totalParses: number;
+  /** Responses that were still invalid after any repair attempts */
+  failures: number;
+  /** Responses that only validated after a repair round */
+  repaired: number;
+  recentFailureRate: number;
+  quarantinedUntil: string | null;
+}
+
+/** When a model's recent parse failures take it out of rotation */
+export interface QuarantinePolicy {
+  failureRate: number;
+  minSamples: number;
+  durationMs: number;
+}
+
 export interface HealthSnapshot {
   status: 'healthy' | 'degraded' | 'unhealthy';
   uptime: number;
@@ -35,6 +56,8 @@ export interface HealthSnapshot {
   lastAnalysisCycleAt: string | null;
   lastAnalysisCycleDurationMs: number | null;
   wsClientCount: number;
+  requestQueues: RequestQueueStats[];
+  models: ModelParseHealth[];
 }
 
 interface JobState {
@@ -52,6 +75,16 @@ interface JobState {
   recentCount: number;
 }
 
+interface ModelParseState {
+  totalParses: number;
+  failures: number;
+  repaired: number;
+  recentFailures: boolean[];
+  recentIndex: number;
+  recentCount: number;
+  quarantinedUntil: number | null;
+}
+
 interface DataSourceState {
   lastCallAt: string | null;
   lastSuccess: boolean;
@@ -71,6 +104,8 @@ export class HealthMetricsCollector {
   private lastAnalysisCycleDurationMs: number | null = null;
   private wsClientCountFn: (() => number) | null = null;
   private activePositionCountFn: (() => number) | null = null;
+  private requestQueueFns = new Map<string, () => RequestQueueStats | null>();
+  private modelParseMetrics = new Map<string, ModelParseState>();
 
   recordJobStart(name: string): void {
     const state = this.getOrCreateJobState(name);
@@ -127,6 +162,54 @@ export class HealthMetricsCollector {
     log.debug({ source, latencyMs, success }, 'Data source call recorded');
   }
 
+  /**
+   * Record whether a model's decision validated, and quarantine the model
+   * once its failure rate over the last parses reaches the policy's limit.
+   * The window restarts when a quarantine begins, so a released model is
+   * judged on fresh responses.
+   */
+  recordModelParse(
+    model: string,
+    outcome: { success: boolean; repaired: boolean },
+    policy: QuarantinePolicy,
+  ): void {
+    const state = this.getOrCreateModelParseState(model);
+    state.totalParses += 1;
+    if (!outcome.success) state.failures += 1;
+    if (outcome.success && outcome.repaired) state.repaired += 1;
+
+    state.recentFailures[state.recentIndex] = !outcome.success;
+    state.recentIndex = (state.recentIndex + 1) % RECENT_PARSES_SIZE;
+    if (state.recentCount < RECENT_PARSES_SIZE) {
+      state.recentCount += 1;
+    }
+
+    const failureRate = this.computeRecentFailureRate(state);
+    if (
+      !this.isModelQuarantined(model) &&
+      state.recentCount >= policy.minSamples &&
+      failureRate >= policy.failureRate
+    ) {
+      state.quarantinedUntil = Date.now() + policy.durationMs;
+      state.recentFailures.fill(false);
+      state.recentIndex = 0;
+      state.recentCount = 0;
+      log.warn(
+        { model, failureRate, until: new Date(state.quarantinedUntil).toISOString() },
+        'Model quarantined for unparseable decisions',
+      );
+    }
+  }
+
+  isModelQuarantined(model: string): boolean {
+    const state = this.modelParseMetrics.get(model);
+    if (!state?.quarantinedUntil) return false;
+    if (state.quarantinedUntil > Date.now()) return true;
+    state.quarantinedUntil = null;
+    log.info({ model }, 'Model quarantine ended');
+    return false;
+  }
+
   recordAnalysisCycle(durationMs: number): void {
     this.lastAnalysisCycleAt = new Date().toISOString();
     this.lastAnalysisCycleDurationMs = durationMs;
@@ -141,6 +224,11 @@ export class HealthMetricsCollector {
     this.activePositionCountFn = fn;
   }
 
+  /** Report a broker request queue's depth under `name` (one per Trading212 account). */
+  registerRequestQueue(name: string, fn: () => RequestQueueStats | null): void {
+    this.requestQueueFns.set(name, fn);
+  }
+
   getSnapshot(): HealthSnapshot {
     const mem = process.memoryUsage();
     const toMB = (bytes: number) => Math.round((bytes / 1024 / 1024) * 100) / 100;
@@ -159,9 +247,38 @@ export class HealthMetricsCollector {
       lastAnalysisCycleAt: this.lastAnalysisCycleAt,
       lastAnalysisCycleDurationMs: this.lastAnalysisCycleDurationMs,
       wsClientCount: this.wsClientCountFn ? this.wsClientCountFn() : 0,
+      requestQueues: this.getRequestQueues(),
+      models: this.getModelParseHealth(),
     };
   }
 
+  getModelParseHealth(): ModelParseHealth[] {
+    const result: ModelParseHealth[] = [];
+    for (const [model, state] of this.modelParseMetrics) {
+      result.push({
+        model,
+        totalParses: state.totalParses,
+        failures: state.failures,
+        repaired: state.repaired,
+        recentFailureRate: Math.round(this.computeRecentFailureRate(state) * 1000) / 1000,
+        quarantinedUntil:
+          this.isModelQuarantined(model) && state.quarantinedUntil
+            ? new Date(state.quarantinedUntil).toISOString()
+            : null,
+      });
+    }
+    return result;
+  }
+
+  getRequestQueues(): RequestQueueStats[] {
+    const result: RequestQueueStats[] = [];
+    for (const fn of this.requestQueueFns.values()) {
+      const stats = fn();
+      if (stats) result.push(stats);
+    }
+    return result;
+  }
+
   getJobMetrics(): JobMetrics[] {
     const result: JobMetrics[] = [];
     for (const [name, state] of this.jobMetrics) {
@@ -195,7 +312,11 @@ export class HealthMetricsCollector {
   }
 
   private computeStatus(): 'healthy' | 'degraded' | 'unhealthy' {
-    if (this.jobMetrics.size === 0 && this.dataSourceMetrics.size === 0) {
+    if (
+      this.jobMetrics.size === 0 &&
+      this.dataSourceMetrics.size === 0 &&
+      this.modelParseMetrics.size === 0
+    ) {
       return 'healthy';
     }
 
@@ -227,10 +348,14 @@ export class HealthMetricsCollector {
       }
     }
 
+    const hasQuarantinedModel = [...this.modelParseMetrics.keys()].some((model) =>
+      this.isModelQuarantined(model),
+    );
+
     if (hasDataSourceDown || hasCriticalJobFailures) {
       return 'unhealthy';
     }
-    if (hasJobFailures || hasDataSourceDegraded) {
+    if (hasJobFailures || hasDataSourceDegraded || hasQuarantinedModel) {
       return 'degraded';
     }
     return 'healthy';
@@ -253,6 +378,15 @@ export class HealthMetricsCollector {
     return Math.round(sum / state.durationCount);
   }
 
+  private computeRecentFailureRate(state: ModelParseState): number {
+    if (state.recentCount === 0) return 0;
+    let failures = 0;
+    for (let i = 0; i < state.recentCount; i++) {
+      if (state.recentFailures[i]) failures += 1;
+    }
+    return failures / state.recentCount;
+  }
+
   private computeAvgLatency(state: DataSourceState): number {
     if (state.latencyCount === 0) return 0;
     let sum = 0;
@@ -284,6 +418,23 @@ export class HealthMetricsCollector {
     return state;
   }
 
+  private getOrCreateModelParseState(model: string): ModelParseState {
+    let state = this.modelParseMetrics.get(model);
+    if (!state) {
+      state = {
+        totalParses: 0,
+        failures: 0,
+        repaired: 0,
+        recentFailures: new Array(RECENT_PARSES_SIZE).fill(false),
+        recentIndex: 0,
+        recentCount: 0,
+        quarantinedUntil: null,
+      };
+      this.modelParseMetrics.set(model, state);
+    }
+    return state;
+  }
+
   private getOrCreateDataSourceState(source: string): DataSourceState {
     let state = this.dataSourceMetrics.get(source);
     if (!state) {
@@ -27,6 +27,8 @@ export class ModelTracker {
     decision: 'BUY' | 'SELL' | 'HOLD';
     conviction: number;
     priceAtSignal: number;
+    /** Shared by predictions made on the same input, e.g. ensemble members */
+    signalTimestamp?: string;
   }): void {
     const db = getDb();
     db.insert(modelPerformance)
@@ -35,7 +37,7 @@ export class ModelTracker {
         symbol: params.symbol,
         decision: params.decision,
         conviction: params.conviction,
-        signalTimestamp: new Date().toISOString(),
+        signalTimestamp: params.signalTimestamp ?? new Date().toISOString(),
         priceAtSignal: params.priceAtSignal,
         actualOutcome: 'pending',
       })
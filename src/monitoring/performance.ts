@@ -1,6 +1,8 @@
 import { and, desc, eq, gte, isNotNull } from 'drizzle-orm';
 import { getDb } from '../db/index.js';
+import { getDividendTotal } from '../db/repositories/dividends.js';
 import * as schema from '../db/schema.js';
+import { accountValue, signedShares } from '../utils/currency.js';
 import { formatCurrency, formatPercent, round } from '../utils/helpers.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -229,6 +231,19 @@ export interface PerformanceMetrics {
   worstTrade: { symbol: string; pnlPct: number } | null;
 }
 
+/** P&L split by instrument currency, separating exchange-rate moves from price moves */
+export interface CurrencyBreakdown {
+  currency: string;
+  accountCurrency: string | null;
+  trades: number;
+  totalPnl: number;
+  pricePnl: number;
+  fxPnl: number;
+  openPositions: number;
+  unrealizedPricePnl: number;
+  unrealizedFxPnl: number;
+}
+
 export interface SectorBreakdown {
   sector: string;
   trades: number;
@@ -238,13 +253,18 @@ export interface SectorBreakdown {
 }
 
 export class PerformanceTracker {
-  getMetrics(): PerformanceMetrics {
+  /** Metrics over all closed trades, or one account's when `accountType` is given. */
+  getMetrics(accountType?: 'INVEST' | 'ISA'): PerformanceMetrics {
     const db = getDb();
 
     const closedTrades = db
       .select()
       .from(schema.trades)
-      .where(isNotNull(schema.trades.exitPrice))
+      .where(
+        accountType
+          ? and(isNotNull(schema.trades.exitPrice), eq(schema.trades.accountType, accountType))
+          : isNotNull(schema.trades.exitPrice),
+      )
       .all();
 
     const totalTrades = closedTrades.length;
@@ -331,7 +351,7 @@ export class PerformanceTracker {
     // Include unrealized P&L from open positions for accurate drawdown
     const openPositions = db.select().from(schema.positions).all();
     const unrealizedPnl = openPositions.reduce(
-      (sum, p) => sum + ((p.currentPrice ?? p.entryPrice) - p.entryPrice) * p.shares,
+      (sum, p) => sum + accountValue(p) - p.entryPrice * signedShares(p) * (p.entryFxRate ?? 1),
       0,
     );
     // Adjust current drawdown with unrealized P&L
@@ -412,6 +432,81 @@ export class PerformanceTracker {
     };
   }
 
+  /** Dividends received, in account currency. Part of total return alongside trade P&L. */
+  getDividendIncome(accountType?: 'INVEST' | 'ISA'): number {
+    return round(getDividendTotal({ accountType }), 2);
+  }
+
+  /**
+   * Realized and unrealized P&L per instrument currency. Rows without a
+   * currency traded in account currency, so all of their P&L is price P&L.
+   */
+  getCurrencyBreakdown(accountType?: 'INVEST' | 'ISA'): CurrencyBreakdown[] {
+    const db = getDb();
+
+    const closedTrades = db
+      .select()
+      .from(schema.trades)
+      .where(
+        accountType
+          ? and(isNotNull(schema.trades.exitPrice), eq(schema.trades.accountType, accountType))
+          : isNotNull(schema.trades.exitPrice),
+      )
+      .all();
+    const openPositions = db
+      .select()
+      .from(schema.positions)
+      .where(accountType ? eq(schema.positions.accountType, accountType) : undefined)
+      .all();
+
+    const groups = new Map<string, CurrencyBreakdown>();
+    const groupFor = (currency: string | null, accountCurrency: string | null) => {
+      const label = currency ?? accountCurrency ?? 'account';
+      const key = `${label}|${accountCurrency ?? ''}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          currency: label,
+          accountCurrency,
+          trades: 0,
+          totalPnl: 0,
+          pricePnl: 0,
+          fxPnl: 0,
+          openPositions: 0,
+          unrealizedPricePnl: 0,
+          unrealizedFxPnl: 0,
+        };
+        groups.set(key, group);
+      }
+      return group;
+    };
+
+    for (const t of closedTrades) {
+      const group = groupFor(t.currency, t.accountCurrency);
+      group.trades++;
+      group.totalPnl += t.pnl ?? 0;
+      group.pricePnl += t.pricePnl ?? t.pnl ?? 0;
+      group.fxPnl += t.fxPnl ?? 0;
+    }
+    for (const p of openPositions) {
+      const group = groupFor(p.currency, p.accountCurrency);
+      group.openPositions++;
+      group.unrealizedPricePnl += p.pricePnl ?? p.pnl ?? 0;
+      group.unrealizedFxPnl += p.fxPnl ?? 0;
+    }
+
+    return [...groups.values()]
+      .map((g) => ({
+        ...g,
+        totalPnl: round(g.totalPnl, 2),
+        pricePnl: round(g.pricePnl, 2),
+        fxPnl: round(g.fxPnl, 2),
+        unrealizedPricePnl: round(g.unrealizedPricePnl, 2),
+        unrealizedFxPnl: round(g.unrealizedFxPnl, 2),
+      }))
+      .sort((a, b) => b.totalPnl - a.totalPnl);
+  }
+
   getPerSectorBreakdown(): SectorBreakdown[] {
     const db = getDb();
 
@@ -1,8 +1,10 @@
 import { and, desc, gte, lte } from 'drizzle-orm';
 import { configManager } from '../config/manager.js';
 import { getDb } from '../db/index.js';
+import { getDividendTotal } from '../db/repositories/dividends.js';
 import { dailyMetrics, positions, trades } from '../db/schema.js';
 import { createLogger } from '../utils/logger.js';
+import { type ExecutionQualityReport, getExecutionQualityAnalyzer } from './execution-quality.js';
 
 const logger = createLogger('report-generator');
 
@@ -16,6 +18,10 @@ export interface ReportData {
     winRate: number;
     totalPnl: number;
     totalPnlPct: number;
+    /** Dividends paid during the period, in account currency */
+    dividendIncome: number;
+    /** Realized trade P&L plus dividends */
+    totalReturn: number;
     bestTrade: { symbol: string; pnlPct: number } | null;
     worstTrade: { symbol: string; pnlPct: number } | null;
   };
@@ -40,6 +46,8 @@ export interface ReportData {
     pnlPct: number;
     holdDays: number;
   }>;
+  /** Weekly reports only */
+  executionQuality?: ExecutionQualityReport;
 }
 
 class ReportGenerator {
@@ -79,7 +87,13 @@ class ReportGenerator {
     const to = `${endDate.toISOString().split('T')[0]}T23:59:59.999Z`;
 
     logger.info({ from, to }, 'Generating weekly report');
-    return this.generateCustomReport(from, to);
+    const report = await this.generateCustomReport(from, to);
+    try {
+      report.executionQuality = getExecutionQualityAnalyzer().getReport(from, to);
+    } catch (err) {
+      logger.warn({ err }, 'Execution quality unavailable for weekly report');
+    }
+    return report;
   }
 
   /**
@@ -102,6 +116,7 @@ class ReportGenerator {
 
     const totalPnl = periodTrades.reduce((sum, t) => sum + (t.pnl ?? 0), 0);
     const totalPnlPct = periodTrades.reduce((sum, t) => sum + (t.pnlPct ?? 0), 0);
+    const dividendIncome = getDividendTotal({ from, to });
 
     const bestTrade =
       periodTrades.length > 0
@@ -150,6 +165,8 @@ class ReportGenerator {
         winRate,
         totalPnl,
         totalPnlPct,
+        dividendIncome,
+        totalReturn: totalPnl + dividendIncome,
         bestTrade: bestTrade ? { symbol: bestTrade.symbol, pnlPct: bestTrade.pnlPct ?? 0 } : null,
         worstTrade: worstTrade
           ? { symbol: worstTrade.symbol, pnlPct: worstTrade.pnlPct ?? 0 }
@@ -181,6 +198,10 @@ class ReportGenerator {
     lines.push(
       `Total P&L: $${report.summary.totalPnl.toFixed(2)} (${report.summary.totalPnlPct.toFixed(2)}%)`,
     );
+    if (report.summary.dividendIncome) {
+      lines.push(`Dividends: $${report.summary.dividendIncome.toFixed(2)}`);
+      lines.push(`Total Return: $${report.summary.totalReturn.toFixed(2)}`);
+    }
 
     if (report.summary.bestTrade) {
       lines.push(
@@ -204,6 +225,33 @@ class ReportGenerator {
     lines.push(`Avg Loss: $${report.riskMetrics.avgLoss.toFixed(2)}`);
     lines.push('');
 
+    // Execution Quality
+    const execution = report.executionQuality;
+    if (execution && execution.slippage.overall.count + execution.latency.overall.count > 0) {
+      const { slippage, latency, replacements, shortfall } = execution;
+      lines.push('⚙️ EXECUTION QUALITY');
+      lines.push(
+        `Slippage: ${slippage.overall.mean.toFixed(1)} bps avg, ${slippage.overall.p90.toFixed(1)} bps p90 (${slippage.overall.count} fills)`,
+      );
+      lines.push(
+        `Fill Latency: ${latency.overall.median.toFixed(1)}s median, ${latency.overall.p90.toFixed(1)}s p90`,
+      );
+      if (replacements.chains > 0) {
+        lines.push(
+          `Replaced Orders: ${replacements.chains} (avg depth ${replacements.avgDepth.toFixed(1)}, ${(replacements.fillRate * 100).toFixed(0)}% filled)`,
+        );
+      }
+      if (shortfall.trades > 0) {
+        lines.push(
+          `Implementation Shortfall: ${shortfall.weightedBps.toFixed(1)} bps ($${shortfall.cost.toFixed(2)})`,
+        );
+        lines.push(
+          `  Delay: ${shortfall.meanDelayBps.toFixed(1)} bps, Execution: ${shortfall.meanExecutionBps.toFixed(1)} bps`,
+        );
+      }
+      lines.push('');
+    }
+
     // Top Performers
     if (report.topPerformers.length > 0) {
       lines.push('🏆 TOP PERFORMERS');
@@ -265,6 +313,10 @@ class ReportGenerator {
     lines.push(
       `- **Total P&L:** $${report.summary.totalPnl.toFixed(2)} (${report.summary.totalPnlPct.toFixed(2)}%)`,
     );
+    if (report.summary.dividendIncome) {
+      lines.push(`- **Dividends:** $${report.summary.dividendIncome.toFixed(2)}`);
+      lines.push(`- **Total Return:** $${report.summary.totalReturn.toFixed(2)}`);
+    }
 
     if (report.summary.bestTrade) {
       const bestSign = report.summary.bestTrade.pnlPct >= 0 ? '+' : '';
@@ -290,6 +342,42 @@ class ReportGenerator {
     lines.push(`- **Avg Loss:** $${report.riskMetrics.avgLoss.toFixed(2)}`);
     lines.push('');
 
+    // Execution Quality
+    const execution = report.executionQuality;
+    if (execution && execution.slippage.overall.count + execution.latency.overall.count > 0) {
+      const { slippage, latency, replacements, shortfall } = execution;
+      lines.push('## ⚙️ Execution Quality');
+      lines.push('');
+      lines.push(
+        `- **Slippage:** ${slippage.overall.mean.toFixed(1)} bps avg, ${slippage.overall.p90.toFixed(1)} bps p90 (${slippage.overall.count} fills)`,
+      );
+      lines.push(
+        `- **Fill Latency:** ${latency.overall.median.toFixed(1)}s median, ${latency.overall.p90.toFixed(1)}s p90`,
+      );
+      if (replacements.chains > 0) {
+        lines.push(
+          `- **Replaced Orders:** ${replacements.chains} (avg depth ${replacements.avgDepth.toFixed(1)}, ${(replacements.fillRate * 100).toFixed(0)}% filled)`,
+        );
+      }
+      if (shortfall.trades > 0) {
+        lines.push(
+          `- **Implementation Shortfall:** ${shortfall.weightedBps.toFixed(1)} bps ($${shortfall.cost.toFixed(2)}; delay ${shortfall.meanDelayBps.toFixed(1)}, execution ${shortfall.meanExecutionBps.toFixed(1)} bps)`,
+        );
+      }
+      const bySymbol = Object.entries(slippage.bySymbol);
+      if (bySymbol.length > 0) {
+        lines.push('');
+        lines.push('| Symbol | Fills | Avg bps | P90 bps |');
+        lines.push('|--------|-------|---------|---------|');
+        for (const [symbol, stats] of bySymbol.sort((a, b) => b[1].mean - a[1].mean)) {
+          lines.push(
+            `| ${symbol} | ${stats.count} | ${stats.mean.toFixed(1)} | ${stats.p90.toFixed(1)} |`,
+          );
+        }
+      }
+      lines.push('');
+    }
+
     // Top Performers
     if (report.topPerformers.length > 0) {
       lines.push('## 🏆 Top Performers');
@@ -1,4 +1,5 @@
 import { configManager } from '../config/manager.js';
+import { getDividendTotal } from '../db/repositories/dividends.js';
 import {
   closeLot,
   createTaxLot,
@@ -25,6 +26,7 @@ export interface YearlyTaxSummary {
   longTermGains: number;
   shortTermLosses: number;
   longTermLosses: number;
+  dividendIncome: number;
   netTaxLiability: number;
   harvestOpportunities: number;
 }
@@ -50,6 +52,7 @@ export class TaxTracker {
     shares: number,
     costBasis: number,
     accountType: 'INVEST' | 'ISA',
+    purchaseDate?: string,
   ): Promise<void> {
     const enabled = configManager.get<boolean>('tax.enabled');
     if (!enabled) {
@@ -57,13 +60,11 @@ export class TaxTracker {
       return;
     }
 
-    const purchaseDate = new Date().toISOString();
-
     await createTaxLot({
       symbol,
       shares,
       costBasis,
-      purchaseDate,
+      purchaseDate: purchaseDate || new Date().toISOString(),
       accountType,
     });
 
@@ -121,6 +122,7 @@ export class TaxTracker {
           costBasis: lot.costBasis,
           purchaseDate: lot.purchaseDate,
           accountType: lot.accountType,
+          origin: lot.origin,
         });
 
         logger.info(
@@ -191,6 +193,7 @@ export class TaxTracker {
         longTermGains: 0,
         shortTermLosses: 0,
         longTermLosses: 0,
+        dividendIncome: 0,
         netTaxLiability: 0,
         harvestOpportunities: 0,
       };
@@ -208,7 +211,13 @@ export class TaxTracker {
     const shortTermTax = Math.max(0, shortTermNet * shortTermRate);
     const longTermTax = Math.max(0, longTermNet * longTermRate);
 
-    const netTaxLiability = shortTermTax + longTermTax;
+    const dividendIncome = getDividendTotal({
+      from: `${targetYear}-01-01`,
+      to: `${targetYear}-12-31T23:59:59.999Z`,
+    });
+    const dividendTax = dividendIncome * configManager.get<number>('tax.dividendRate');
+
+    const netTaxLiability = shortTermTax + longTermTax + dividendTax;
 
     // Count current harvest opportunities
     const harvestCandidates = await this.getHarvestCandidates(new Map());
@@ -219,6 +228,7 @@ export class TaxTracker {
       longTermGains: summary.longTermGains,
       shortTermLosses: summary.shortTermLosses,
       longTermLosses: summary.longTermLosses,
+      dividendIncome,
       netTaxLiability,
       harvestOpportunities,
     };
@@ -321,14 +331,19 @@ export class TaxTracker {
   }
 
   private determineHoldingPeriod(purchaseDate: string, saleDate: string): 'short' | 'long' {
-    const purchase = new Date(purchaseDate);
-    const sale = new Date(saleDate);
+    return holdingPeriod(purchaseDate, saleDate);
+  }
+}
 
-    const oneYearLater = new Date(purchase);
-    oneYearLater.setFullYear(oneYearLater.getFullYear() + 1);
+/** Long-term once the lot has been held for a full year. */
+export function holdingPeriod(purchaseDate: string, saleDate: string): 'short' | 'long' {
+  const purchase = new Date(purchaseDate);
+  const sale = new Date(saleDate);
 
-    return sale >= oneYearLater ? 'long' : 'short';
-  }
+  const oneYearLater = new Date(purchase);
+  oneYearLater.setFullYear(oneYearLater.getFullYear() + 1);
+
+  return sale >= oneYearLater ? 'long' : 'short';
 }
 
 let instance: TaxTracker | null = null;
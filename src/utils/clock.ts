@@ -0,0 +1,33 @@
+/**
+ * Wall-clock indirection for time-dependent execution logic.
+ *
+ * Live code always sees the real clock. Backtests pin the clock to a
+ * historical timestamp for the duration of a synchronous callback, so pair
+ * locks, protections and DCA spacing are evaluated in simulated time.
+ */
+
+let pinnedTimeMs: number | null = null;
+
+/** Current time in epoch milliseconds (real or simulated). */
+export function currentTimeMs(): number {
+  return pinnedTimeMs ?? Date.now();
+}
+
+/** Current time as an ISO-8601 string (real or simulated). */
+export function currentTimeIso(): string {
+  return new Date(currentTimeMs()).toISOString();
+}
+
+/**
+ * Run `fn` with the clock pinned to `timestampMs`. The callback must be
+ * synchronous: the previous clock is restored as soon as it returns.
+ */
+export function withClock<T>(timestampMs: number, fn: () => T): T {
+  const previous = pinnedTimeMs;
+  pinnedTimeMs = timestampMs;
+  try {
+    return fn();
+  } finally {
+    pinnedTimeMs = previous;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Currency helpers for instruments quoted in a currency other than the
+ * account's. Conversion rates are expressed as account currency per quote
+ * unit, so a London price in pence carries the /100 inside its rate.
+ */
+
+/** Minor-unit currency codes and the major currency they belong to */
+const MINOR_UNITS: Record<string, { currency: string; unit: number }> = {
+  GBX: { currency: 'GBP', unit: 0.01 },
+  GBp: { currency: 'GBP', unit: 0.01 },
+  ZAc: { currency: 'ZAR', unit: 0.01 },
+  ILA: { currency: 'ILS', unit: 0.01 },
+};
+
+/** Major currency of a quote currency and the factor from quote units to it. */
+export function normalizeCurrency(code: string | null | undefined): {
+  currency: string;
+  unit: number;
+} {
+  if (!code) return { currency: 'USD', unit: 1 };
+  return MINOR_UNITS[code] ?? { currency: code.toUpperCase(), unit: 1 };
+}
+
+export interface PnlBreakdown {
+  /** Total P&L in account currency */
+  pnl: number;
+  /** Part caused by the instrument's price move, at the entry FX rate */
+  pricePnl: number;
+  /** Part caused by the exchange rate moving since entry */
+  fxPnl: number;
+}
+
+/**
+ * Split P&L into price and FX components. Rates convert one quote unit into
+ * account currency; both are 1 when the instrument trades in account currency.
+ */
+export function splitPnl(
+  shares: number,
+  entryPrice: number,
+  price: number,
+  entryFxRate = 1,
+  fxRate = 1,
+): PnlBreakdown {
+  const pricePnl = (price - entryPrice) * entryFxRate * shares;
+  const fxPnl = price * (fxRate - entryFxRate) * shares;
+  return { pnl: pricePnl + fxPnl, pricePnl, fxPnl };
+}
+
+/** Rate a position row is currently valued at (1 for account-currency positions). */
+export function currentFxRate(position: {
+  entryFxRate?: number | null;
+  currentFxRate?: number | null;
+}): number {
+  return position.currentFxRate ?? position.entryFxRate ?? 1;
+}
+
+/**
+ * Shares carrying the position's sign: negative for shorts, so value and
+ * P&L formulas (`splitPnl`, `accountValue`) hold for both directions.
+ */
+export function signedShares(position: { shares: number; direction?: string | null }): number {
+  return position.direction === 'SHORT' ? -position.shares : position.shares;
+}
+
+/** Market value of a position row in account currency; negative for shorts. */
+export function accountValue(position: {
+  shares: number;
+  entryPrice: number;
+  currentPrice?: number | null;
+  entryFxRate?: number | null;
+  currentFxRate?: number | null;
+  direction?: string | null;
+}): number {
+  return (
+    (position.currentPrice ?? position.entryPrice) *
+    signedShares(position) *
+    currentFxRate(position)
+  );
+}
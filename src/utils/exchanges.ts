@@ -0,0 +1,352 @@
+/**
+ * Exchange definitions for the markets Trading212 lists: trading session in
+ * local time, quote currency, ticker conventions and holiday calendar. The US
+ * calendar comes from holidays.ts; European calendars are derived from Easter
+ * and fixed dates, which covers the regular closures of each exchange.
+ */
+import { getNYSECloseMinutes, isNYSEHoliday } from './holidays.js';
+
+export type ExchangeCode =
+  | 'US'
+  | 'LSE'
+  | 'XETRA'
+  | 'EURONEXT_PARIS'
+  | 'EURONEXT_AMSTERDAM'
+  | 'BORSA_ITALIANA'
+  | 'BME'
+  | 'SIX';
+
+export interface ExchangeDefinition {
+  code: ExchangeCode;
+  name: string;
+  timeZone: string;
+  /** Currency instruments are quoted in (GBX = pence sterling) */
+  currency: string;
+  /** Continuous trading session, minutes from local midnight */
+  open: number;
+  close: number;
+  /** Trading212 ticker suffix, e.g. `l_EQ` in `VODl_EQ` */
+  t212Suffix: string;
+  /** Yahoo Finance symbol suffix, e.g. `.L` in `VOD.L` (empty for US) */
+  yahooSuffix: string;
+}
+
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeDefinition> = {
+  US: {
+    code: 'US',
+    name: 'NYSE / NASDAQ',
+    timeZone: 'America/New_York',
+    currency: 'USD',
+    open: 9 * 60 + 30,
+    close: 16 * 60,
+    t212Suffix: '_US_EQ',
+    yahooSuffix: '',
+  },
+  LSE: {
+    code: 'LSE',
+    name: 'London Stock Exchange',
+    timeZone: 'Europe/London',
+    currency: 'GBX',
+    open: 8 * 60,
+    close: 16 * 60 + 30,
+    t212Suffix: 'l_EQ',
+    yahooSuffix: '.L',
+  },
+  XETRA: {
+    code: 'XETRA',
+    name: 'Xetra',
+    timeZone: 'Europe/Berlin',
+    currency: 'EUR',
+    open: 9 * 60,
+    close: 17 * 60 + 30,
+    t212Suffix: 'd_EQ',
+    yahooSuffix: '.DE',
+  },
+  EURONEXT_PARIS: {
+    code: 'EURONEXT_PARIS',
+    name: 'Euronext Paris',
+    timeZone: 'Europe/Paris',
+    currency: 'EUR',
+    open: 9 * 60,
+    close: 17 * 60 + 30,
+    t212Suffix: 'p_EQ',
+    yahooSuffix: '.PA',
+  },
+  EURONEXT_AMSTERDAM: {
+    code: 'EURONEXT_AMSTERDAM',
+    name: 'Euronext Amsterdam',
+    timeZone: 'Europe/Amsterdam',
+    currency: 'EUR',
+    open: 9 * 60,
+    close: 17 * 60 + 30,
+    t212Suffix: 'a_EQ',
+    yahooSuffix: '.AS',
+  },
+  BORSA_ITALIANA: {
+    code: 'BORSA_ITALIANA',
+    name: 'Borsa Italiana',
+    timeZone: 'Europe/Rome',
+    currency: 'EUR',
+    open: 9 * 60,
+    close: 17 * 60 + 30,
+    t212Suffix: 'm_EQ',
+    yahooSuffix: '.MI',
+  },
+  BME: {
+    code: 'BME',
+    name: 'Bolsa de Madrid',
+    timeZone: 'Europe/Madrid',
+    currency: 'EUR',
+    open: 9 * 60,
+    close: 17 * 60 + 30,
+    t212Suffix: 'e_EQ',
+    yahooSuffix: '.MC',
+  },
+  SIX: {
+    code: 'SIX',
+    name: 'SIX Swiss Exchange',
+    timeZone: 'Europe/Zurich',
+    currency: 'CHF',
+    open: 9 * 60,
+    close: 17 * 60 + 20,
+    t212Suffix: 'z_EQ',
+    yahooSuffix: '.SW',
+  },
+};
+
+export const EXCHANGE_CODES = Object.keys(EXCHANGES) as ExchangeCode[];
+
+const NON_US = EXCHANGE_CODES.filter((code) => code !== 'US').map((code) => EXCHANGES[code]);
+
+/** Exchange a Trading212 ticker trades on, or null for unsupported venues. */
+export function exchangeForTicker(t212Ticker: string): ExchangeDefinition | null {
+  if (t212Ticker.endsWith(EXCHANGES.US.t212Suffix)) return EXCHANGES.US;
+  return NON_US.find((ex) => t212Ticker.endsWith(ex.t212Suffix)) ?? null;
+}
+
+/**
+ * Exchange for a data-layer symbol. Non-US symbols carry their Yahoo suffix
+ * (VOD.L, SAP.DE); anything else — including BRK.B — is US.
+ */
+export function exchangeForSymbol(symbol: string): ExchangeDefinition {
+  return NON_US.find((ex) => symbol.endsWith(ex.yahooSuffix)) ?? EXCHANGES.US;
+}
+
+/** Data-layer symbol for a Trading212 ticker: `AAPL_US_EQ` → AAPL, `VODl_EQ` → VOD.L. */
+export function symbolForTicker(t212Ticker: string): string | null {
+  const exchange = exchangeForTicker(t212Ticker);
+  if (!exchange) return null;
+  const base = t212Ticker.slice(0, -exchange.t212Suffix.length);
+  return `${base}${exchange.yahooSuffix}`;
+}
+
+/** Easter Sunday (Gregorian, anonymous algorithm). */
+function easterSunday(year: number): LocalDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { year, month, day };
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function weekday(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function key(date: LocalDate): string {
+  return `${date.month}-${date.day}`;
+}
+
+/** nth (1-based) or last (-1) Monday of a month. */
+function monday(year: number, month: number, nth: number): LocalDate {
+  if (nth > 0) {
+    const first = { year, month, day: 1 };
+    const offset = (8 - weekday(first)) % 7;
+    return addDays(first, offset + (nth - 1) * 7);
+  }
+  const last = addDays({ year, month: month + 1, day: 1 }, -1);
+  return addDays(last, -((weekday(last) + 6) % 7));
+}
+
+/** UK bank holidays, with weekend New Year and Christmas moved to the next weekdays. */
+function ukHolidays(year: number): LocalDate[] {
+  const newYear = { year, month: 1, day: 1 };
+  const newYearWd = weekday(newYear);
+  const christmasWd = weekday({ year, month: 12, day: 25 });
+  // Christmas on Fri → Boxing Day Mon 28; Sat → Mon 27 + Tue 28; Sun → Mon 26 + Tue 27
+  const christmas =
+    christmasWd === 5
+      ? [25, 28]
+      : christmasWd === 6
+        ? [27, 28]
+        : christmasWd === 0
+          ? [26, 27]
+          : [25, 26];
+
+  return [
+    addDays(newYear, newYearWd === 6 ? 2 : newYearWd === 0 ? 1 : 0),
+    monday(year, 5, 1),
+    monday(year, 5, -1),
+    monday(year, 8, -1),
+    ...christmas.map((day) => ({ year, month: 12, day })),
+  ];
+}
+
+function holidaysFor(code: ExchangeCode, year: number): LocalDate[] {
+  const easter = easterSunday(year);
+  const goodFriday = addDays(easter, -2);
+  const easterMonday = addDays(easter, 1);
+  const fixed = (...dates: [number, number][]) =>
+    dates.map(([month, day]) => ({ year, month, day }));
+
+  switch (code) {
+    case 'US':
+      return [];
+    case 'LSE':
+      return [goodFriday, easterMonday, ...ukHolidays(year)];
+    case 'XETRA':
+      return [
+        goodFriday,
+        easterMonday,
+        ...fixed([1, 1], [5, 1], [12, 24], [12, 25], [12, 26], [12, 31]),
+      ];
+    case 'BORSA_ITALIANA':
+      return [
+        goodFriday,
+        easterMonday,
+        ...fixed([1, 1], [5, 1], [8, 15], [12, 24], [12, 25], [12, 26], [12, 31]),
+      ];
+    case 'SIX':
+      return [
+        goodFriday,
+        easterMonday,
+        addDays(easter, 39), // Ascension
+        addDays(easter, 50), // Whit Monday
+        ...fixed([1, 1], [1, 2], [5, 1], [8, 1], [12, 24], [12, 25], [12, 26], [12, 31]),
+      ];
+    default:
+      // Euronext venues and BME share the harmonised European calendar
+      return [goodFriday, easterMonday, ...fixed([1, 1], [5, 1], [12, 25], [12, 26])];
+  }
+}
+
+/** Whether the exchange is closed all day on a local calendar date (weekends excluded). */
+export function isExchangeHoliday(code: ExchangeCode, date: LocalDate): boolean {
+  if (code === 'US') return isNYSEHoliday(new Date(date.year, date.month - 1, date.day));
+  const target = key(date);
+  return holidaysFor(code, date.year).some((d) => key(d) === target);
+}
+
+export function isTradingDay(code: ExchangeCode, date: LocalDate): boolean {
+  const wd = weekday(date);
+  return wd !== 0 && wd !== 6 && !isExchangeHoliday(code, date);
+}
+
+/** Session close in local minutes, accounting for half days. */
+export function getCloseMinutes(code: ExchangeCode, date: LocalDate): number {
+  if (code === 'US') return getNYSECloseMinutes(new Date(date.year, date.month - 1, date.day));
+  // LSE trades until 12:30 on Christmas Eve and New Year's Eve
+  if (code === 'LSE' && date.month === 12 && (date.day === 24 || date.day === 31)) {
+    return 12 * 60 + 30;
+  }
+  return EXCHANGES[code].close;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock date and minutes-from-midnight of an instant in a time zone. */
+export function toLocalTime(timeZone: string, at: Date): LocalDate & { minutes: number } {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  const parts = Object.fromEntries(fmt.formatToParts(at).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** Instant at which a local wall-clock time occurs in a time zone. */
+function fromLocalTime(timeZone: string, date: LocalDate, minutes: number): Date {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  let instant = wall;
+  // Two passes settle the offset across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const local = toLocalTime(timeZone, new Date(instant));
+    const localMs = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+    instant += wall - localMs;
+  }
+  return new Date(instant);
+}
+
+export interface ExchangeSession {
+  code: ExchangeCode;
+  isOpen: boolean;
+  isHoliday: boolean;
+  /** Start of the next session that has not opened yet */
+  nextOpen: Date;
+  /** Close of the current session, or of the next one when closed */
+  nextClose: Date;
+}
+
+export function isExchangeOpen(code: ExchangeCode, now = new Date()): boolean {
+  const local = toLocalTime(EXCHANGES[code].timeZone, now);
+  if (!isTradingDay(code, local)) return false;
+  return local.minutes >= EXCHANGES[code].open && local.minutes < getCloseMinutes(code, local);
+}
+
+export function getExchangeSession(code: ExchangeCode, now = new Date()): ExchangeSession {
+  const { timeZone, open } = EXCHANGES[code];
+  const local = toLocalTime(timeZone, now);
+  const isOpen = isExchangeOpen(code, now);
+
+  // Today's session still counts as "next" while it has not opened yet
+  let day: LocalDate = local;
+  if (!isTradingDay(code, day) || local.minutes >= open) {
+    do {
+      day = addDays(day, 1);
+    } while (!isTradingDay(code, day));
+  }
+
+  const closeDay = isOpen ? local : day;
+  return {
+    code,
+    isOpen,
+    isHoliday: isExchangeHoliday(code, local),
+    nextOpen: fromLocalTime(timeZone, day, open),
+    nextClose: fromLocalTime(timeZone, closeDay, getCloseMinutes(code, closeDay)),
+  };
+}
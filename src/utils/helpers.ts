@@ -35,6 +35,14 @@ export async function retryAsync<T>(fn: () => Promise<T>, attempts = 3, delay =
   throw lastError;
 }
 
+/** Cursor for the next page of a Trading212 history endpoint, from its `nextPagePath`. */
+export function parseNextCursor(nextPagePath: string | undefined): number | undefined {
+  if (!nextPagePath) return undefined;
+  const query = nextPagePath.split('?')[1] ?? '';
+  const cursor = Number(new URLSearchParams(query).get('cursor'));
+  return Number.isFinite(cursor) && cursor > 0 ? cursor : undefined;
+}
+
 export function round(n: number, decimals = 2): number {
   const factor = 10 ** decimals;
   return Math.round(n * factor) / factor;
@@ -1,3 +1,4 @@
+import { EXCHANGES, type ExchangeCode, getExchangeSession, isExchangeOpen } from './exchanges.js';
 import {
   getNextTradingDay,
   getNYSECloseMinutes,
@@ -18,6 +19,16 @@ export interface MarketTimes {
   isEarlyClose: boolean;
 }
 
+export interface ExchangeTimes {
+  code: ExchangeCode;
+  name: string;
+  timeZone: string;
+  status: 'open' | 'closed';
+  nextOpen: string;
+  nextClose: string;
+  isHoliday: boolean;
+}
+
 function getETTime(): Date {
   const now = new Date();
   const etString = now.toLocaleString('en-US', { timeZone: 'America/New_York' });
@@ -189,3 +200,23 @@ export function getMarketTimes(): MarketTimes {
     isEarlyClose: isNYSEEarlyClose(et),
   };
 }
+
+/** Whether any of the given exchanges is in its regular session. */
+export function isAnyMarketOpen(exchanges: ExchangeCode[] = ['US']): boolean {
+  return exchanges.some((code) => (code === 'US' ? isUSMarketOpen() : isExchangeOpen(code)));
+}
+
+export function getExchangeTimes(exchanges: ExchangeCode[]): ExchangeTimes[] {
+  return exchanges.map((code) => {
+    const session = getExchangeSession(code);
+    return {
+      code,
+      name: EXCHANGES[code].name,
+      timeZone: EXCHANGES[code].timeZone,
+      status: session.isOpen ? 'open' : 'closed',
+      nextOpen: session.nextOpen.toISOString(),
+      nextClose: session.nextClose.toISOString(),
+      isHoliday: session.isHoliday,
+    };
+  });
+}
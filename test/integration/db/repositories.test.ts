@@ -1,4 +1,38 @@
 import { describe, expect, it } from 'vitest';
+import {
+  getCassetteEntry,
+  getLatestCassetteEntryFor,
+  markCassetteReplayed,
+  recordCassetteEntry,
+} from '../../../src/db/repositories/ai-cassette.js';
+import {
+  getAISpendSince,
+  getAIUsageSummary,
+  recordAIUsage,
+} from '../../../src/db/repositories/ai-usage.js';
+import {
+  getAccountTransactions,
+  insertAccountTransaction,
+} from '../../../src/db/repositories/account-transactions.js';
+import {
+  getDividendTotal,
+  getUnreinvestedDividends,
+  insertDividend,
+  markReinvested,
+} from '../../../src/db/repositories/dividends.js';
+import {
+  getHistoryImport,
+  saveHistoryImportProgress,
+  startHistoryImport,
+} from '../../../src/db/repositories/history-imports.js';
+import {
+  abandonIntent,
+  completeIntent,
+  getUnresolvedIntents,
+  markIntentSubmitted,
+  recordIntent,
+  resolveIntent,
+} from '../../../src/db/repositories/order-intents.js';
 import {
   createOrder,
   getOrderById,
@@ -6,6 +40,12 @@ import {
   getRecentOrders,
   updateOrderStatus,
 } from '../../../src/db/repositories/orders.js';
+import {
+  getManagedPie,
+  getPieSnapshots,
+  insertPieSnapshot,
+  saveManagedPie,
+} from '../../../src/db/repositories/pies.js';
 import {
   getAllPositions,
   getPosition,
@@ -220,6 +260,255 @@ describe('Order Repository', () => {
   });
 });
 
+describe('Dividend Repository', () => {
+  const base = {
+    symbol: 'DIVCO',
+    t212Ticker: 'DIVCO_US_EQ',
+    accountType: 'INVEST' as const,
+    amount: 12.5,
+    quantity: 50,
+  };
+
+  it('should ignore a payment that was already recorded', () => {
+    const first = insertDividend({ ...base, reference: 'ref-dup', paidOn: '2025-03-01T00:00:00Z' });
+    const again = insertDividend({ ...base, reference: 'ref-dup', paidOn: '2025-03-01T00:00:00Z' });
+
+    expect(first?.id).toBeGreaterThan(0);
+    expect(again).toBeNull();
+    // The same reference in the other account is a different payment
+    expect(
+      insertDividend({
+        ...base,
+        accountType: 'ISA',
+        reference: 'ref-dup',
+        paidOn: '2025-03-01T00:00:00Z',
+      }),
+    ).not.toBeNull();
+  });
+
+  it('should total dividends by date range and account', () => {
+    insertDividend({ ...base, symbol: 'DIVSUM', reference: 'sum-1', paidOn: '2023-06-01T00:00:00Z' });
+    insertDividend({
+      ...base,
+      symbol: 'DIVSUM',
+      reference: 'sum-2',
+      paidOn: '2023-12-31T14:00:00Z',
+      amount: 7.5,
+    });
+
+    expect(
+      getDividendTotal({ symbol: 'DIVSUM', from: '2023-01-01', to: '2023-12-31T23:59:59.999Z' }),
+    ).toBe(20);
+    expect(getDividendTotal({ symbol: 'DIVSUM', accountType: 'ISA' })).toBe(0);
+  });
+
+  it('should track which credited dividends are still to be reinvested', () => {
+    const row = insertDividend({
+      ...base,
+      reference: 'reinvest-1',
+      paidOn: '2025-04-01T00:00:00Z',
+      positionId: 99,
+    });
+
+    expect(getUnreinvestedDividends('INVEST').map((d) => d.id)).toContain(row!.id);
+    markReinvested([row!.id], new Date().toISOString());
+    expect(getUnreinvestedDividends('INVEST').map((d) => d.id)).not.toContain(row!.id);
+  });
+});
+
+describe('Order Intent Repository', () => {
+  const base = {
+    t212Ticker: 'INTENT_US_EQ',
+    accountType: 'INVEST' as const,
+    side: 'BUY' as const,
+    orderType: 'market' as const,
+    purpose: 'entry',
+    quantity: 10,
+  };
+
+  it('should keep intents unresolved until completed or resolved', () => {
+    const completed = recordIntent({ ...base, symbol: 'INT_A' });
+    const submitted = recordIntent({
+      ...base,
+      symbol: 'INT_B',
+      context: { stopLossPct: 0.05, aiReasoning: 'Breakout' },
+    });
+    const reconciled = recordIntent({ ...base, symbol: 'INT_C' });
+
+    markIntentSubmitted(completed, '1001');
+    completeIntent(completed);
+    markIntentSubmitted(submitted, '1002');
+    resolveIntent(reconciled, 'reconciled', 'Recorded missing fill', '1003');
+
+    const open = getUnresolvedIntents('INVEST').filter((i) => i.symbol.startsWith('INT_'));
+    expect(open.map((i) => i.id)).toEqual([submitted]);
+    expect(open[0].status).toBe('submitted');
+    expect(open[0].t212OrderId).toBe('1002');
+    expect(open[0].context).toEqual({ stopLossPct: 0.05, aiReasoning: 'Breakout' });
+    expect(getUnresolvedIntents('ISA').some((i) => i.id === submitted)).toBe(false);
+  });
+
+  it('should only abandon intents that never reached the broker', () => {
+    const pending = recordIntent({ ...base, symbol: 'ABANDON_A' });
+    const submitted = recordIntent({ ...base, symbol: 'ABANDON_B' });
+    markIntentSubmitted(submitted, '2001');
+
+    abandonIntent(pending, 'Rejected');
+    abandonIntent(submitted, 'Fill timeout');
+
+    const open = getUnresolvedIntents('INVEST').map((i) => i.id);
+    expect(open).not.toContain(pending);
+    expect(open).toContain(submitted);
+  });
+});
+
+describe('Account Transaction Repository', () => {
+  it('should ignore a transaction already recorded', () => {
+    const deposit = {
+      reference: 'dep-1',
+      accountType: 'ISA' as const,
+      type: 'DEPOSIT',
+      amount: 500,
+      currency: 'GBP',
+      dateTime: '2025-01-02T10:00:00.000Z',
+    };
+
+    expect(insertAccountTransaction(deposit)).not.toBeNull();
+    expect(insertAccountTransaction(deposit)).toBeNull();
+    expect(getAccountTransactions({ accountType: 'ISA', type: 'DEPOSIT' })).toHaveLength(1);
+    expect(getAccountTransactions({ accountType: 'INVEST' })).toHaveLength(0);
+  });
+});
+
+describe('History Import Repository', () => {
+  it('should stop the next pass at the newest item of the last completed one', () => {
+    const first = startHistoryImport('INVEST', 'orders');
+    saveHistoryImportProgress(first.id, {
+      cursor: 1738000000000,
+      newestSeen: '2025-02-03T15:00:00.000Z',
+      pages: 1,
+      imported: 50,
+      completed: false,
+    });
+    expect(getHistoryImport('INVEST', 'orders')).toMatchObject({
+      status: 'running',
+      cursor: 1738000000000,
+    });
+
+    saveHistoryImportProgress(first.id, {
+      cursor: null,
+      newestSeen: '2025-02-03T15:00:00.000Z',
+      pages: 2,
+      imported: 60,
+      completed: true,
+    });
+    const next = startHistoryImport('INVEST', 'orders');
+
+    expect(next.id).toBe(first.id);
+    expect(next).toMatchObject({
+      status: 'running',
+      cursor: null,
+      stopAt: '2025-02-03T15:00:00.000Z',
+      pages: 0,
+    });
+  });
+});
+
+describe('AI Cassette Repository', () => {
+  const base = {
+    promptHash: 'prompt-1',
+    provider: 'anthropic',
+    model: 'claude',
+    params: { temperature: 0.1 },
+    label: 'CASS',
+  };
+
+  it('should replace a recording of the same call and count replays', () => {
+    recordCassetteEntry({ ...base, key: 'cassette-1', response: 'first' });
+    const first = getCassetteEntry('cassette-1')!;
+    markCassetteReplayed(first.id);
+    expect(getCassetteEntry('cassette-1')!.replays).toBe(1);
+
+    recordCassetteEntry({ ...base, key: 'cassette-1', response: 'second' });
+
+    const again = getCassetteEntry('cassette-1')!;
+    expect(again.id).toBe(first.id);
+    expect(again.response).toBe('second');
+    expect(again.replays).toBe(0);
+    expect(JSON.parse(again.params)).toEqual({ temperature: 0.1 });
+  });
+
+  it('should find the latest recording for a subject and model', async () => {
+    recordCassetteEntry({ ...base, key: 'cassette-old', promptHash: 'old', response: 'a' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    recordCassetteEntry({ ...base, key: 'cassette-new', promptHash: 'new', response: 'b' });
+
+    expect(getLatestCassetteEntryFor('CASS', 'claude')?.promptHash).toBe('new');
+    expect(getLatestCassetteEntryFor('CASS', 'llama')).toBeUndefined();
+  });
+});
+
+describe('AI Usage Repository', () => {
+  it('should total spend and break usage down by model, job and symbol', () => {
+    const since = new Date(Date.now() - 1000).toISOString();
+    const call = { provider: 'anthropic', model: 'claude', latencyMs: 1000 };
+    recordAIUsage({ ...call, job: 'analysis', symbol: 'USG1', inputTokens: 1000, outputTokens: 100, cost: 0.5 });
+    recordAIUsage({ ...call, job: 'analysis', symbol: 'USG1', inputTokens: 500, outputTokens: 50, cost: 0.25, latencyMs: 3000 });
+    recordAIUsage({ ...call, job: 'research', symbol: null, inputTokens: 0, outputTokens: 0, cost: 0, success: false });
+
+    expect(getAISpendSince(since)).toBeCloseTo(0.75);
+
+    const summary = getAIUsageSummary(since);
+    expect(summary.totals).toMatchObject({ calls: 3, failures: 1, inputTokens: 1500, outputTokens: 150 });
+    expect(summary.byJob.map((j) => j.job)).toEqual(['analysis', 'research']);
+    expect(summary.bySymbol).toEqual([
+      expect.objectContaining({ symbol: 'USG1', calls: 2, avgLatencyMs: 2000 }),
+    ]);
+    expect(getAIUsageSummary(since, since).totals?.calls).toBe(0);
+  });
+});
+
+describe('Pie Repository', () => {
+  it('should keep one managed pie per account and its snapshots', () => {
+    saveManagedPie({
+      accountType: 'ISA',
+      pieId: 77,
+      name: 'Core',
+      method: 'riskParity',
+      instrumentShares: { SPY_US_EQ: 0.6, QQQ_US_EQ: 0.4 },
+    });
+    saveManagedPie({
+      accountType: 'ISA',
+      pieId: 77,
+      name: 'Core',
+      method: 'minVariance',
+      instrumentShares: { SPY_US_EQ: 0.7, QQQ_US_EQ: 0.3 },
+      goal: 5000,
+    });
+
+    const pie = getManagedPie('ISA');
+    expect(pie).toMatchObject({ pieId: 77, method: 'minVariance', goal: 5000 });
+    expect(pie?.instrumentShares).toEqual({ SPY_US_EQ: 0.7, QQQ_US_EQ: 0.3 });
+    expect(getManagedPie('INVEST')).toBeNull();
+
+    insertPieSnapshot({
+      accountType: 'ISA',
+      pieId: 77,
+      value: 1100,
+      invested: 1000,
+      result: 100,
+      returnPct: 0.1,
+      cash: 2,
+      progress: 0.22,
+      drift: 0.05,
+      currentShares: { SPY_US_EQ: 0.75, QQQ_US_EQ: 0.25 },
+    });
+    const [snapshot] = getPieSnapshots(77);
+    expect(snapshot.value).toBe(1100);
+    expect(snapshot.currentShares).toEqual({ SPY_US_EQ: 0.75, QQQ_US_EQ: 0.25 });
+  });
+});
+
 describe('AuditLogger', () => {
   it('should log a trade and retrieve by type', () => {
     const logger = getAuditLogger();
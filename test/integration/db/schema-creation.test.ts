@@ -27,9 +27,21 @@ describe('Schema Creation', () => {
     'webhook_logs',
     'strategy_profiles',
     'conditional_orders',
+    'optimization_runs',
+    'candles',
+    'candle_backfills',
+    'backtest_runs',
+    'dividends',
+    'order_intents',
+    'account_transactions',
+    'history_imports',
+    'managed_pies',
+    'pie_snapshots',
+    'ai_cassette',
+    'ai_usage',
   ];
 
-  it('should create all 23 tables', () => {
+  it('should create all 33 tables', () => {
     const db = getDb();
     const rows = db.all<{ name: string }>(
       sql`SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name`,
@@ -39,7 +51,7 @@ describe('Schema Creation', () => {
     for (const table of expectedTables) {
       expect(tableNames, `Missing table: ${table}`).toContain(table);
     }
-    expect(tableNames.length).toBe(23);
+    expect(tableNames.length).toBe(35);
   });
 
   it('should create key indexes', () => {
@@ -94,7 +106,7 @@ describe('Schema Creation', () => {
     }).toThrow();
   });
 
-  it('should enforce UNIQUE constraint on positions.symbol', () => {
+  it('should enforce UNIQUE constraint on positions.symbol within an account', () => {
     const db = getDb();
     db.run(
       sql`INSERT INTO positions (symbol, t212Ticker, shares, entryPrice, entryTime, accountType)
@@ -108,6 +120,20 @@ describe('Schema Creation', () => {
     }).toThrow();
   });
 
+  it('should allow the same symbol in each account', () => {
+    const db = getDb();
+    db.run(
+      sql`INSERT INTO positions (symbol, t212Ticker, shares, entryPrice, entryTime, accountType)
+          VALUES ('TEST_BOTH', 'TEST_US_EQ', 10, 150, '2024-01-01T00:00:00Z', 'INVEST')`,
+    );
+    db.run(
+      sql`INSERT INTO positions (symbol, t212Ticker, shares, entryPrice, entryTime, accountType)
+          VALUES ('TEST_BOTH', 'TEST_US_EQ', 5, 160, '2024-01-02T00:00:00Z', 'ISA')`,
+    );
+    const rows = db.all(sql`SELECT accountType FROM positions WHERE symbol = 'TEST_BOTH'`);
+    expect(rows).toHaveLength(2);
+  });
+
   it('should enforce UNIQUE constraint on daily_metrics.date', () => {
     const db = getDb();
     db.run(
@@ -30,6 +30,9 @@ export function resetAllTables(): void {
     schema.webhookLogs,
     schema.strategyProfiles,
     schema.conditionalOrders,
+    schema.optimizationRuns,
+    schema.candles,
+    schema.backtestRuns,
   ];
 
   for (const table of tables) {
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock configManager with real override scoping
+const configValues = new Map<string, unknown>();
+let configOverrides: Map<string, unknown> | null = null;
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: (key: string) =>
+      configOverrides?.has(key) ? configOverrides.get(key) : configValues.get(key),
+    withOverrides: <T>(overrides: Record<string, unknown>, fn: () => T): T => {
+      const previous = configOverrides;
+      configOverrides = new Map([...(previous ?? []), ...Object.entries(overrides)]);
+      try {
+        return fn();
+      } finally {
+        configOverrides = previous;
+      }
+    },
+  },
+}));
+
+// Mock logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock strategy profiles
+const mockGetProfileConfig = vi.fn();
+vi.mock('../../src/config/strategy-profiles.js', () => ({
+  getStrategyProfileManager: () => ({ getProfileConfig: mockGetProfileConfig }),
+}));
+
+// Mock execution components — only their wiring matters here
+vi.mock('../../src/execution/order-manager.js', () => ({
+  OrderManager: class {
+    client: unknown = null;
+    setT212Client(client: unknown) {
+      this.client = client;
+    }
+  },
+}));
+vi.mock('../../src/execution/risk-guard.js', () => ({
+  RiskGuard: class {
+    constructor(public options: unknown) {}
+  },
+}));
+vi.mock('../../src/execution/order-replacer.js', () => ({
+  OrderReplacer: class {
+    constructor(
+      public client: unknown,
+      public accountType: unknown,
+    ) {}
+  },
+}));
+vi.mock('../../src/execution/order-sync.js', () => ({
+  OrderSynchronizer: class {
+    constructor(
+      public client: unknown,
+      public accountType: unknown,
+    ) {}
+  },
+}));
+vi.mock('../../src/execution/protective-stops.js', () => ({
+  ProtectiveStops: class {
+    constructor(
+      public client: unknown,
+      public accountType: unknown,
+    ) {}
+  },
+}));
+
+import type { Trading212Api } from '../../src/api/trading212/client.js';
+import {
+  getAccountDefinitions,
+  getApiKeyEnv,
+  resolveAccountOverrides,
+  TradingAccount,
+} from '../../src/execution/accounts.js';
+
+const client = {} as Trading212Api;
+
+describe('accounts', () => {
+  beforeEach(() => {
+    configValues.clear();
+    configOverrides = null;
+    configValues.set('t212.accountType', 'INVEST');
+    configValues.set('t212.accounts', []);
+    configValues.set('risk.maxPositions', 5);
+    mockGetProfileConfig.mockReset();
+  });
+
+  describe('getAccountDefinitions', () => {
+    it('falls back to the single t212.accountType account', () => {
+      configValues.set('t212.accountType', 'ISA');
+      expect(getAccountDefinitions()).toEqual([
+        { accountType: 'ISA', apiKeyEnv: 'TRADING212_API_KEY' },
+      ]);
+    });
+
+    it('returns configured accounts in order', () => {
+      configValues.set('t212.accounts', [
+        { accountType: 'ISA', strategyProfile: 'conservative' },
+        { accountType: 'INVEST' },
+      ]);
+      expect(getAccountDefinitions().map((d) => d.accountType)).toEqual(['ISA', 'INVEST']);
+    });
+  });
+
+  it('derives the API key variable from the account type', () => {
+    expect(getApiKeyEnv({ accountType: 'ISA' })).toBe('TRADING212_ISA_API_KEY');
+    expect(getApiKeyEnv({ accountType: 'ISA', apiKeyEnv: 'MY_KEY' })).toBe('MY_KEY');
+  });
+
+  describe('resolveAccountOverrides', () => {
+    it('layers profile, then overrides, then the account type', () => {
+      mockGetProfileConfig.mockReturnValue({ 'risk.maxPositions': 3, 'risk.maxDailyTrades': 4 });
+
+      expect(
+        resolveAccountOverrides({
+          accountType: 'ISA',
+          strategyProfile: 'conservative',
+          overrides: { 'risk.maxPositions': 2, 't212.accountType': 'INVEST' },
+        }),
+      ).toEqual({
+        'risk.maxPositions': 2,
+        'risk.maxDailyTrades': 4,
+        't212.accountType': 'ISA',
+      });
+    });
+
+    it('falls back to global config when the profile is unavailable', () => {
+      mockGetProfileConfig.mockImplementation(() => {
+        throw new Error("Strategy profile 'missing' not found");
+      });
+
+      expect(resolveAccountOverrides({ accountType: 'ISA', strategyProfile: 'missing' })).toEqual({
+        't212.accountType': 'ISA',
+      });
+    });
+  });
+
+  describe('TradingAccount', () => {
+    it('scopes config to the account only inside withConfig', () => {
+      const account = new TradingAccount(
+        { accountType: 'ISA', overrides: { 'risk.maxPositions': 2 } },
+        client,
+      );
+
+      expect(account.get('risk.maxPositions')).toBe(2);
+      expect(account.get('t212.accountType')).toBe('ISA');
+      expect(account.get('t212.accounts')).toEqual([]);
+
+      // Outside the account scope the global values apply again
+      expect(configOverrides).toBeNull();
+    });
+
+    it('wires its own client and filters rows by account when scoped', () => {
+      const account = new TradingAccount({ accountType: 'ISA' }, client);
+
+      expect(account.scope).toBe('ISA');
+      expect((account.orderManager as unknown as { client: unknown }).client).toBe(client);
+      expect(account.riskGuard).toMatchObject({ options: { accountType: 'ISA' } });
+      expect(account.orderReplacer).toMatchObject({ client, accountType: 'ISA' });
+      expect(account.orderSync).toMatchObject({ client, accountType: 'ISA' });
+      expect(account.protectiveStops).toMatchObject({ client, accountType: 'ISA' });
+    });
+
+    it('owns every row when it is the only account', () => {
+      const account = new TradingAccount({ accountType: 'INVEST' }, client, false);
+
+      expect(account.scope).toBeUndefined();
+      expect(account.riskGuard).toMatchObject({ options: { accountType: undefined } });
+    });
+
+    it('reports an active loss cool-down until it expires', () => {
+      const account = new TradingAccount({ accountType: 'INVEST' }, client);
+      const now = new Date('2024-03-04T15:00:00Z');
+
+      expect(account.isInCooldown(now)).toBe(false);
+      account.lossCooldownUntil = new Date('2024-03-04T16:00:00Z');
+      expect(account.isInCooldown(now)).toBe(true);
+      expect(account.isInCooldown(new Date('2024-03-04T16:00:01Z'))).toBe(false);
+    });
+  });
+});
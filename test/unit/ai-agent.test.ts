@@ -34,7 +34,8 @@ vi.mock('../../src/utils/logger.js', () => ({
   }),
 }));
 
-import { createAIAgent } from '../../src/ai/agent.js';
+import { createAIAgent, getActiveModelName } from '../../src/ai/agent.js';
+import { EnsembleAgent } from '../../src/ai/ensemble.js';
 import { configManager } from '../../src/config/manager.js';
 import { AnthropicAdapter } from '../../src/ai/adapters/anthropic.js';
 import { OllamaAdapter } from '../../src/ai/adapters/ollama.js';
@@ -80,4 +81,25 @@ describe('createAIAgent', () => {
     const agent = createAIAgent();
     expect(AnthropicAdapter).toHaveBeenCalledOnce();
   });
+
+  it('returns an EnsembleAgent with one adapter per member', () => {
+    const config: Record<string, unknown> = {
+      'ai.provider': 'ensemble',
+      'ai.model': 'claude-default',
+      'ai.ensemble.members': [
+        { provider: 'anthropic' },
+        { provider: 'ollama', model: 'llama3' },
+        { provider: 'ollama', model: 'qwen3' },
+      ],
+    };
+    vi.mocked(configManager.get).mockImplementation((key: string) => config[key]);
+
+    const agent = createAIAgent();
+
+    expect(agent).toBeInstanceOf(EnsembleAgent);
+    expect(AnthropicAdapter).toHaveBeenCalledWith(undefined);
+    expect(OllamaAdapter).toHaveBeenCalledWith('llama3');
+    expect(OllamaAdapter).toHaveBeenCalledWith('qwen3');
+    expect(getActiveModelName()).toBe('ensemble');
+  });
 });
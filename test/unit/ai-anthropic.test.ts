@@ -28,6 +28,8 @@ vi.mock('../../src/ai/prompt-builder.js', () => ({
     system: 'mock system prompt',
     user: 'mock user prompt',
   }),
+  buildToolGuidance: vi.fn().mockReturnValue('\n\nTOOLS'),
+  buildRepairPrompt: vi.fn().mockReturnValue('mock repair prompt'),
 }));
 
 vi.mock('../../src/ai/decision-processor.js', () => ({
@@ -42,11 +44,28 @@ vi.mock('../../src/ai/decision-processor.js', () => ({
     urgency: 'no_rush',
     exitConditions: 'test',
   }),
+  decisionErrors: vi.fn().mockReturnValue(['conviction: Invalid input']),
+  decisionJsonSchema: vi.fn().mockReturnValue({ type: 'object', properties: {} }),
+}));
+
+vi.mock('../../src/db/repositories/ai-cassette.js', () => ({
+  getCassetteEntry: vi.fn(),
+  markCassetteReplayed: vi.fn(),
+  recordCassetteEntry: vi.fn(),
+  getLatestCassetteEntryFor: vi.fn(),
+}));
+
+vi.mock('../../src/db/repositories/journal.js', () => ({
+  getEntriesForSymbol: vi.fn(() => [
+    { id: 1, symbol: 'AAPL', note: 'Stopped out last time', tags: null, createdAt: '2026-01-10' },
+  ]),
 }));
 
 import { AnthropicAdapter } from '../../src/ai/adapters/anthropic.js';
+import { getCassetteEntry } from '../../src/db/repositories/ai-cassette.js';
 import { configManager } from '../../src/config/manager.js';
 import { processAIDecision } from '../../src/ai/decision-processor.js';
+import { buildRepairPrompt } from '../../src/ai/prompt-builder.js';
 import type { AIContext } from '../../src/ai/agent.js';
 
 function makeContext(): AIContext {
@@ -165,6 +184,165 @@ describe('AnthropicAdapter', () => {
       const adapter = new AnthropicAdapter();
       await expect(adapter.analyze(makeContext())).rejects.toThrow('API rate limit');
     });
+
+    it('replays a recorded response offline, without an API key', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.model') return 'claude-sonnet-4-20250514';
+        if (key === 'ai.cassette.mode') return 'replay';
+        return undefined;
+      });
+      vi.mocked(getCassetteEntry).mockReturnValue({
+        id: 1,
+        response: '{"decision":"BUY"}',
+      } as ReturnType<typeof getCassetteEntry>);
+
+      const adapter = new AnthropicAdapter();
+      await adapter.analyze(makeContext());
+
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(processAIDecision).toHaveBeenCalledWith('{"decision":"BUY"}');
+    });
+  });
+
+  describe('analyze with tools', () => {
+    beforeEach(() => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.model') return 'claude-sonnet-4-20250514';
+        if (key === 'ai.tools.enabled') return true;
+        if (key === 'ai.tools.maxRounds') return 1;
+        return undefined;
+      });
+    });
+
+    const journalCall = {
+      content: [
+        { type: 'text', text: 'Checking the journal.' },
+        { type: 'tool_use', id: 'tu_1', name: 'get_journal_entries', input: { symbol: 'AAPL' } },
+      ],
+      usage: { input_tokens: 900, output_tokens: 40 },
+    };
+
+    it('runs requested tools and feeds the results back before deciding', async () => {
+      mockCreate.mockResolvedValueOnce(journalCall).mockResolvedValueOnce({
+        content: [{ type: 'text', text: '{"decision":"HOLD"}' }],
+      });
+
+      const result = await new AnthropicAdapter().analyze(makeContext());
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      const first = mockCreate.mock.calls[0][0];
+      expect(first.system).toBe('mock system prompt\n\nTOOLS');
+      expect(first.tool_choice).toEqual({ type: 'auto' });
+      expect(first.tools.map((t: { name: string }) => t.name)).toContain('get_journal_entries');
+
+      const followUp = mockCreate.mock.calls[1][0].messages;
+      expect(followUp[1]).toEqual({ role: 'assistant', content: journalCall.content });
+      expect(followUp[2].content[0]).toMatchObject({
+        type: 'tool_result',
+        tool_use_id: 'tu_1',
+        is_error: false,
+        content: expect.stringContaining('Stopped out last time'),
+      });
+      expect(processAIDecision).toHaveBeenCalledWith('{"decision":"HOLD"}');
+      expect(result?.toolTrace).toEqual([
+        expect.objectContaining({ round: 1, name: 'get_journal_entries', input: { symbol: 'AAPL' } }),
+      ]);
+    });
+
+    it('switches tools off after the last round', async () => {
+      mockCreate.mockResolvedValueOnce(journalCall).mockResolvedValueOnce({
+        content: [{ type: 'text', text: '{"decision":"BUY"}' }],
+      });
+
+      await new AnthropicAdapter().analyze(makeContext());
+
+      expect(mockCreate.mock.calls[1][0].tool_choice).toEqual({ type: 'none' });
+    });
+  });
+
+  describe('structured output', () => {
+    beforeEach(() => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.model') return 'claude-sonnet-4-20250514';
+        if (key === 'ai.structuredOutput.enabled') return true;
+        if (key === 'ai.structuredOutput.maxRepairs') return 1;
+        return undefined;
+      });
+    });
+
+    it('forces the decision tool and parses its input', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'submit_decision', input: { decision: 'BUY' } }],
+      });
+
+      await new AnthropicAdapter().analyze(makeContext());
+
+      const request = mockCreate.mock.calls[0][0];
+      expect(request.tool_choice).toEqual({ type: 'tool', name: 'submit_decision' });
+      expect(request.tools).toEqual([
+        expect.objectContaining({ name: 'submit_decision', input_schema: { type: 'object', properties: {} } }),
+      ]);
+      expect(processAIDecision).toHaveBeenCalledWith('{"decision":"BUY"}');
+    });
+
+    it('sends validation errors back once and uses the repaired decision', async () => {
+      vi.mocked(processAIDecision).mockReturnValueOnce(null);
+      mockCreate
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: '{"decision":"BUY"}' }] })
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'tu_2', name: 'submit_decision', input: { decision: 'HOLD' } }],
+        });
+
+      const result = await new AnthropicAdapter().analyze(makeContext());
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(buildRepairPrompt).toHaveBeenCalledWith(['conviction: Invalid input']);
+      expect(mockCreate.mock.calls[1][0].messages).toEqual([
+        { role: 'user', content: 'mock user prompt' },
+        { role: 'assistant', content: '{"decision":"BUY"}' },
+        { role: 'user', content: 'mock repair prompt' },
+      ]);
+      expect(processAIDecision).toHaveBeenLastCalledWith('{"decision":"HOLD"}');
+      expect(result?.decision).toBe('HOLD');
+    });
+
+    it('gives up after the repair budget is spent', async () => {
+      vi.mocked(processAIDecision).mockReturnValueOnce(null).mockReturnValueOnce(null);
+      mockCreate.mockResolvedValue({ content: [{ type: 'text', text: 'not json' }] });
+
+      const result = await new AnthropicAdapter().analyze(makeContext());
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(result).toBeNull();
+    });
+
+    it('ends the tool loop on the decision tool and forces it in the last round', async () => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.model') return 'claude-sonnet-4-20250514';
+        if (key === 'ai.structuredOutput.enabled') return true;
+        if (key === 'ai.tools.enabled') return true;
+        if (key === 'ai.tools.maxRounds') return 1;
+        return undefined;
+      });
+      mockCreate
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'tu_1', name: 'get_journal_entries', input: { symbol: 'AAPL' } }],
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'tu_2', name: 'submit_decision', input: { decision: 'SELL' } }],
+        });
+
+      const result = await new AnthropicAdapter().analyze(makeContext());
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(mockCreate.mock.calls[0][0].tools.map((t: { name: string }) => t.name)).toContain(
+        'submit_decision',
+      );
+      expect(mockCreate.mock.calls[1][0].tool_choice).toEqual({ type: 'tool', name: 'submit_decision' });
+      expect(processAIDecision).toHaveBeenCalledWith('{"decision":"SELL"}');
+      expect(result?.toolTrace).toHaveLength(1);
+    });
   });
 
   describe('rawChat', () => {
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// In-memory stand-in for the ai_cassette table
+const recordings = new Map<string, Record<string, unknown>>();
+vi.mock('../../src/db/repositories/ai-cassette.js', () => ({
+  recordCassetteEntry: vi.fn((data: Record<string, unknown>) => {
+    recordings.set(data.key as string, {
+      ...data,
+      id: recordings.size + 1,
+      recordedAt: new Date(Date.now() + recordings.size).toISOString(),
+    });
+  }),
+  getCassetteEntry: vi.fn((key: string) => recordings.get(key)),
+  markCassetteReplayed: vi.fn(),
+  getLatestCassetteEntryFor: vi.fn((label: string, model: string) =>
+    [...recordings.values()]
+      .filter((r) => r.label === label && r.model === model)
+      .sort((a, b) => String(b.recordedAt).localeCompare(String(a.recordedAt)))[0],
+  ),
+  getCassetteCounts: vi.fn(() => []),
+}));
+
+import {
+  type AICall,
+  AICassette,
+  CassetteMissError,
+  cassetteKey,
+} from '../../src/ai/cassette.js';
+import { configManager } from '../../src/config/manager.js';
+import { markCassetteReplayed } from '../../src/db/repositories/ai-cassette.js';
+
+const call: AICall = {
+  provider: 'anthropic',
+  model: 'claude',
+  params: { temperature: 0.1, maxTokens: 2048 },
+  system: 'You are a trading analyst.',
+  user: 'Analyze AAPL at 190.00',
+  label: 'AAPL',
+};
+
+describe('cassetteKey', () => {
+  it('ignores parameter order but not values', () => {
+    expect(cassetteKey({ ...call, params: { maxTokens: 2048, temperature: 0.1 } })).toBe(
+      cassetteKey(call),
+    );
+    expect(cassetteKey({ ...call, params: { ...call.params, temperature: 0.2 } })).not.toBe(
+      cassetteKey(call),
+    );
+    expect(cassetteKey({ ...call, model: 'other' })).not.toBe(cassetteKey(call));
+  });
+});
+
+describe('AICassette', () => {
+  const config: Record<string, unknown> = {};
+  let cassette: AICassette;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    recordings.clear();
+    for (const key of Object.keys(config)) delete config[key];
+    vi.mocked(configManager.get).mockImplementation((key: string) => config[key]);
+    cassette = new AICassette();
+  });
+
+  it('passes calls straight through when off', async () => {
+    const send = vi.fn().mockResolvedValue('live');
+
+    await expect(cassette.run(call, send)).resolves.toBe('live');
+    expect(recordings.size).toBe(0);
+  });
+
+  it('replays a recorded response without calling the model', async () => {
+    config['ai.cassette.mode'] = 'record';
+    await cassette.run(call, vi.fn().mockResolvedValue('{"decision":"BUY"}'));
+
+    config['ai.cassette.mode'] = 'replay';
+    const send = vi.fn();
+    await expect(cassette.run(call, send)).resolves.toBe('{"decision":"BUY"}');
+
+    expect(send).not.toHaveBeenCalled();
+    expect(markCassetteReplayed).toHaveBeenCalledOnce();
+    expect(cassette.getStatus()).toMatchObject({ mode: 'replay', hits: 1, recorded: 1, misses: 0 });
+  });
+
+  it('fails a replay miss and says the prompt changed', async () => {
+    config['ai.cassette.mode'] = 'record';
+    await cassette.run(call, vi.fn().mockResolvedValue('recorded'));
+
+    config['ai.cassette.mode'] = 'replay';
+    const send = vi.fn();
+    const changed = { ...call, user: 'Analyze AAPL at 191.00' };
+
+    await expect(cassette.run(changed, send)).rejects.toThrow(CassetteMissError);
+    expect(send).not.toHaveBeenCalled();
+    expect(cassette.getStatus().recentMisses).toEqual([
+      expect.objectContaining({ label: 'AAPL', reason: 'prompt_changed' }),
+    ]);
+  });
+
+  it('tells parameter changes and unseen subjects apart', async () => {
+    config['ai.cassette.mode'] = 'record';
+    await cassette.run(call, vi.fn().mockResolvedValue('recorded'));
+    config['ai.cassette.mode'] = 'replay';
+
+    await expect(
+      cassette.run({ ...call, params: { ...call.params, temperature: 0.7 } }, vi.fn()),
+    ).rejects.toThrow('params changed');
+    await expect(
+      cassette.run({ ...call, user: 'Analyze MSFT at 420.00', label: 'MSFT' }, vi.fn()),
+    ).rejects.toThrow('new');
+
+    expect(cassette.getStatus().misses).toBe(2);
+  });
+
+  it('goes live and records on a miss when configured to', async () => {
+    config['ai.cassette.mode'] = 'replay';
+    config['ai.cassette.onMiss'] = 'live';
+    const send = vi.fn().mockResolvedValue('fresh');
+
+    await expect(cassette.run(call, send)).resolves.toBe('fresh');
+    await expect(cassette.run(call, send)).resolves.toBe('fresh');
+
+    expect(send).toHaveBeenCalledOnce();
+    expect(cassette.getStatus()).toMatchObject({ hits: 1, misses: 1, recorded: 1 });
+  });
+
+  it('does not record a failed call', async () => {
+    config['ai.cassette.mode'] = 'record';
+
+    await expect(cassette.run(call, vi.fn().mockRejectedValue(new Error('429')))).rejects.toThrow(
+      '429',
+    );
+    expect(recordings.size).toBe(0);
+  });
+});
@@ -15,7 +15,11 @@ vi.mock('../../src/utils/logger.js', () => ({
   }),
 }));
 
-import { processAIDecision } from '../../src/ai/decision-processor.js';
+import {
+  decisionErrors,
+  decisionJsonSchema,
+  processAIDecision,
+} from '../../src/ai/decision-processor.js';
 import { configManager } from '../../src/config/manager.js';
 
 describe('processAIDecision', () => {
@@ -330,4 +334,38 @@ That concludes my analysis.`;
       expect(result).toBeNull();
     });
   });
+
+  describe('decisionErrors', () => {
+    it('is empty for a valid decision', () => {
+      expect(decisionErrors(JSON.stringify(validDecision))).toEqual([]);
+    });
+
+    it('names each invalid field', () => {
+      const errors = decisionErrors(
+        JSON.stringify({ ...validDecision, urgency: 'now', conviction: undefined }),
+      );
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatch(/^conviction: /);
+      expect(errors[1]).toMatch(/^urgency: /);
+    });
+
+    it('reports text that is not JSON', () => {
+      expect(decisionErrors('I would buy this')[0]).toMatch(/^Not valid JSON: /);
+    });
+  });
+
+  describe('decisionJsonSchema', () => {
+    it('requires every field and allows no others', () => {
+      const schema = decisionJsonSchema();
+
+      expect(schema).not.toHaveProperty('$schema');
+      expect(schema).toMatchObject({
+        type: 'object',
+        additionalProperties: false,
+        properties: { decision: { enum: ['BUY', 'SELL', 'HOLD'] } },
+      });
+      expect(schema.required).toEqual(Object.keys(validDecision));
+    });
+  });
 });
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import type { AIAgent, AIContext, AIDecision } from '../../src/ai/agent.js';
+import {
+  EnsembleAgent,
+  type MemberVote,
+  accuracyWeights,
+  combineDecisions,
+} from '../../src/ai/ensemble.js';
+import { configManager } from '../../src/config/manager.js';
+import { getHealthMetrics } from '../../src/monitoring/health-metrics.js';
+import type { ModelStats } from '../../src/monitoring/model-tracker.js';
+
+function decision(overrides: Partial<AIDecision> = {}): AIDecision {
+  return {
+    decision: 'BUY',
+    conviction: 80,
+    reasoning: 'Breakout',
+    risks: ['Earnings'],
+    suggestedStopLossPct: 0.05,
+    suggestedPositionSizePct: 0.1,
+    suggestedTakeProfitPct: 0.15,
+    urgency: 'no_rush',
+    exitConditions: '',
+    ...overrides,
+  };
+}
+
+function vote(model: string, overrides: Partial<AIDecision> | null = {}): MemberVote {
+  return {
+    provider: 'ollama',
+    model,
+    decision: overrides ? decision(overrides) : null,
+    latencyMs: 10,
+  };
+}
+
+function stats(model: string, accuracy: number, totalPredictions = 20): ModelStats {
+  return {
+    model,
+    totalPredictions,
+    correctPredictions: Math.round(accuracy * totalPredictions),
+    accuracy,
+    convictionWeightedAccuracy: accuracy,
+    avgConviction: 70,
+    buyAccuracy: accuracy,
+    sellAccuracy: accuracy,
+    holdAccuracy: accuracy,
+    avgReturnOnBuy: 0,
+    avgReturnOnSell: 0,
+  };
+}
+
+function agent(result: AIDecision | null | Error): AIAgent {
+  return {
+    analyze: vi.fn(() => (result instanceof Error ? Promise.reject(result) : Promise.resolve(result))),
+    rawChat: vi.fn().mockResolvedValue('chat'),
+  };
+}
+
+const context = { symbol: 'AAPL' } as AIContext;
+
+describe('combineDecisions', () => {
+  it('takes the majority and averages the winning side', () => {
+    const result = combineDecisions(
+      [
+        vote('a', { conviction: 80, suggestedStopLossPct: 0.04 }),
+        vote('b', { conviction: 60, suggestedStopLossPct: 0.06 }),
+        vote('c', { decision: 'SELL', conviction: 90, risks: ['Valuation'] }),
+      ],
+      'majority',
+    );
+
+    expect(result?.decision).toMatchObject({
+      decision: 'BUY',
+      conviction: 70,
+      risks: ['Earnings', 'Valuation'],
+    });
+    expect(result?.decision.suggestedStopLossPct).toBeCloseTo(0.05);
+    expect(result?.disagreement).toBeCloseTo(0.333);
+    expect(result?.decision.reasoning).toContain('2/3 members agree');
+  });
+
+  it('holds on a tied vote', () => {
+    const result = combineDecisions(
+      [vote('a'), vote('b', { decision: 'SELL' })],
+      'majority',
+    );
+
+    expect(result?.decision.decision).toBe('HOLD');
+    expect(result?.disagreement).toBe(1);
+  });
+
+  it('nets opposing convictions when averaging', () => {
+    const result = combineDecisions(
+      [
+        vote('a', { conviction: 90 }),
+        vote('b', { decision: 'SELL', conviction: 30 }),
+        vote('c', { decision: 'HOLD', conviction: 50 }),
+      ],
+      'conviction',
+    );
+
+    expect(result?.decision.decision).toBe('BUY');
+    expect(result?.decision.conviction).toBe(20);
+  });
+
+  it('weights votes by tracked accuracy', () => {
+    const votes = [
+      vote('sharp', { decision: 'SELL', conviction: 70 }),
+      vote('noisy-1'),
+      vote('noisy-2'),
+    ];
+    const weights = { sharp: 0.9, 'noisy-1': 0.3, 'noisy-2': 0.3 };
+
+    expect(combineDecisions(votes, 'majority')?.decision.decision).toBe('BUY');
+    const result = combineDecisions(votes, 'accuracy', weights);
+    expect(result?.decision.decision).toBe('SELL');
+    expect(result?.disagreement).toBeCloseTo(0.4);
+  });
+
+  it('ignores members that failed', () => {
+    const result = combineDecisions([vote('a'), vote('b', null)], 'majority');
+
+    expect(result?.decision.decision).toBe('BUY');
+    expect(result?.disagreement).toBe(0);
+    expect(combineDecisions([vote('b', null)], 'majority')).toBeNull();
+  });
+});
+
+describe('accuracyWeights', () => {
+  it('weights models with enough history by accuracy', () => {
+    expect(accuracyWeights([stats('a', 0.7), stats('b', 0), stats('c', 0.9, 3)])).toEqual({
+      a: 0.7,
+      b: 0.05,
+    });
+  });
+});
+
+describe('EnsembleAgent', () => {
+  const config: Record<string, unknown> = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(config, {
+      'ai.ensemble.strategy': 'majority',
+      'ai.ensemble.minResponses': 1,
+      'ai.ensemble.maxDisagreement': 1,
+    });
+    vi.mocked(configManager.get).mockImplementation((key: string) => config[key]);
+  });
+
+  it('sends the same context to every member and keeps their votes', async () => {
+    const members = [
+      { provider: 'anthropic', model: 'claude', agent: agent(decision()) },
+      { provider: 'ollama', model: 'llama', agent: agent(decision({ conviction: 60 })) },
+      { provider: 'openai-compatible', model: 'gpt', agent: agent(new Error('timeout')) },
+    ];
+
+    const result = await new EnsembleAgent(members).analyze(context);
+
+    for (const m of members) expect(m.agent.analyze).toHaveBeenCalledWith(context);
+    expect(result).toMatchObject({ decision: 'BUY', conviction: 70 });
+    expect(result?.ensemble?.disagreement).toBe(0);
+    expect(result?.ensemble?.votes.map((v) => [v.model, v.decision?.conviction ?? v.error])).toEqual([
+      ['claude', 80],
+      ['llama', 60],
+      ['gpt', 'timeout'],
+    ]);
+  });
+
+  it('returns null without a quorum', async () => {
+    config['ai.ensemble.minResponses'] = 2;
+    const members = [
+      { provider: 'anthropic', model: 'claude', agent: agent(decision()) },
+      { provider: 'ollama', model: 'llama', agent: agent(null) },
+    ];
+
+    await expect(new EnsembleAgent(members).analyze(context)).resolves.toBeNull();
+  });
+
+  it('holds when the vote is too divided', async () => {
+    config['ai.ensemble.maxDisagreement'] = 0.25;
+    const members = [
+      { provider: 'anthropic', model: 'a', agent: agent(decision()) },
+      { provider: 'anthropic', model: 'b', agent: agent(decision()) },
+      { provider: 'ollama', model: 'c', agent: agent(decision({ decision: 'SELL' })) },
+    ];
+
+    const result = await new EnsembleAgent(members).analyze(context);
+
+    expect(result?.decision).toBe('HOLD');
+    expect(result?.reasoning).toMatch(/^Held: disagreement 0.333/);
+  });
+
+  it('loads accuracy weights for the accuracy strategy', async () => {
+    config['ai.ensemble.strategy'] = 'accuracy';
+    const loadStats = vi.fn(() => [stats('sharp', 0.9), stats('noisy', 0.2)]);
+    const members = [
+      { provider: 'anthropic', model: 'sharp', agent: agent(decision({ decision: 'SELL' })) },
+      { provider: 'ollama', model: 'noisy', agent: agent(decision()) },
+    ];
+
+    const result = await new EnsembleAgent(members, loadStats).analyze(context);
+
+    expect(loadStats).toHaveBeenCalledOnce();
+    expect(result?.decision).toBe('SELL');
+  });
+
+  it('skips quarantined members without calling them', async () => {
+    getHealthMetrics().recordModelParse(
+      'flaky',
+      { success: false, repaired: true },
+      { failureRate: 0.5, minSamples: 1, durationMs: 60_000 },
+    );
+    const members = [
+      { provider: 'anthropic', model: 'claude', agent: agent(decision()) },
+      { provider: 'ollama', model: 'flaky', agent: agent(decision({ decision: 'SELL' })) },
+    ];
+
+    const result = await new EnsembleAgent(members).analyze(context);
+
+    expect(members[1].agent.analyze).not.toHaveBeenCalled();
+    expect(result?.decision).toBe('BUY');
+    expect(result?.ensemble?.votes[1]).toMatchObject({ model: 'flaky', error: 'quarantined' });
+  });
+
+  it('falls back to the next member for raw chat', async () => {
+    const failing = agent(decision());
+    vi.mocked(failing.rawChat).mockRejectedValueOnce(new Error('down'));
+    const members = [
+      { provider: 'anthropic', model: 'a', agent: failing },
+      { provider: 'ollama', model: 'b', agent: agent(decision()) },
+    ];
+
+    await expect(new EnsembleAgent(members).rawChat('system', 'user')).resolves.toBe('chat');
+  });
+});
@@ -28,6 +28,7 @@ vi.mock('../../src/ai/prompt-builder.js', () => ({
     system: 'mock system prompt',
     user: 'mock user prompt',
   }),
+  buildRepairPrompt: vi.fn().mockReturnValue('mock repair prompt'),
 }));
 
 vi.mock('../../src/ai/decision-processor.js', () => ({
@@ -42,6 +43,8 @@ vi.mock('../../src/ai/decision-processor.js', () => ({
     urgency: 'immediate',
     exitConditions: 'stop loss hit',
   }),
+  decisionErrors: vi.fn().mockReturnValue(['urgency: Invalid option']),
+  decisionJsonSchema: vi.fn().mockReturnValue({ type: 'object', properties: {} }),
 }));
 
 import { OllamaAdapter } from '../../src/ai/adapters/ollama.js';
@@ -166,6 +169,34 @@ describe('OllamaAdapter', () => {
     });
   });
 
+  describe('structured output', () => {
+    it('passes the decision schema as the format and repairs an invalid answer', async () => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.ollama.baseUrl') return 'http://localhost:11434';
+        if (key === 'ai.ollama.model') return 'llama3';
+        if (key === 'ai.timeoutSeconds') return 120;
+        if (key === 'ai.structuredOutput.enabled') return true;
+        if (key === 'ai.structuredOutput.maxRepairs') return 1;
+        return undefined;
+      });
+      vi.mocked(processAIDecision).mockReturnValueOnce(null);
+      mockPost
+        .mockResolvedValueOnce({ data: { message: { content: '{"decision":"BUY","urgency":"now"}' } } })
+        .mockResolvedValueOnce({ data: { message: { content: '{"decision":"BUY"}' } } });
+
+      const result = await new OllamaAdapter().analyze(makeContext());
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(mockPost.mock.calls[0][1].format).toEqual({ type: 'object', properties: {} });
+      expect(mockPost.mock.calls[1][1].messages.slice(1)).toEqual([
+        { role: 'user', content: 'mock user prompt' },
+        { role: 'assistant', content: '{"decision":"BUY","urgency":"now"}' },
+        { role: 'user', content: 'mock repair prompt' },
+      ]);
+      expect(result?.decision).toBe('BUY');
+    });
+  });
+
   describe('rawChat', () => {
     it('calls Ollama API and returns raw content', async () => {
       mockPost.mockResolvedValue({
@@ -28,6 +28,18 @@ vi.mock('../../src/ai/prompt-builder.js', () => ({
     system: 'mock system prompt',
     user: 'mock user prompt',
   }),
+  buildToolGuidance: vi.fn().mockReturnValue('\n\nTOOLS'),
+  buildRepairPrompt: vi.fn().mockReturnValue('mock repair prompt'),
+}));
+
+vi.mock('../../src/analysis/correlation.js', () => ({
+  CorrelationAnalyzer: vi.fn().mockImplementation(function () {
+    return {
+      checkCorrelationWithPortfolio: () => [
+        { symbol1: 'TSLA', symbol2: 'RIVN', correlation: 0.75, isHighlyCorrelated: true },
+      ],
+    };
+  }),
 }));
 
 vi.mock('../../src/ai/decision-processor.js', () => ({
@@ -42,6 +54,8 @@ vi.mock('../../src/ai/decision-processor.js', () => ({
     urgency: 'immediate',
     exitConditions: 'take profit hit',
   }),
+  decisionErrors: vi.fn().mockReturnValue(['Not valid JSON: Unexpected token']),
+  decisionJsonSchema: vi.fn().mockReturnValue({ type: 'object', properties: {} }),
 }));
 
 import { OpenAICompatibleAdapter } from '../../src/ai/adapters/openai-compat.js';
@@ -175,6 +189,119 @@ describe('OpenAICompatibleAdapter', () => {
     });
   });
 
+  describe('analyze with tools', () => {
+    beforeEach(() => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.openaiCompat.baseUrl') return 'http://localhost:8080/v1';
+        if (key === 'ai.openaiCompat.model') return 'gpt-4';
+        if (key === 'ai.timeoutSeconds') return 90;
+        if (key === 'ai.tools.enabled') return true;
+        if (key === 'ai.tools.maxRounds') return 3;
+        return undefined;
+      });
+    });
+
+    it('answers function calls with tool messages until the model decides', async () => {
+      const toolCall = {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'get_portfolio_correlation', arguments: '{"symbol":"TSLA"}' },
+      };
+      mockPost
+        .mockResolvedValueOnce({
+          data: {
+            choices: [{ message: { role: 'assistant', content: null, tool_calls: [toolCall] } }],
+            usage: { prompt_tokens: 800, completion_tokens: 20 },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { choices: [{ message: { role: 'assistant', content: '{"decision":"SELL"}' } }] },
+        });
+
+      const result = await new OpenAICompatibleAdapter().analyze(makeContext());
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      const first = mockPost.mock.calls[0][1];
+      expect(first.tool_choice).toBe('auto');
+      expect(first.tools[0]).toMatchObject({ type: 'function', function: { name: expect.any(String) } });
+
+      const messages = mockPost.mock.calls[1][1].messages;
+      expect(messages[0]).toEqual({ role: 'system', content: 'mock system prompt\n\nTOOLS' });
+      expect(messages[2]).toMatchObject({ role: 'assistant', tool_calls: [toolCall] });
+      expect(messages[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_1' });
+      expect(JSON.parse(messages[3].content)).toEqual([
+        { holding: 'RIVN', correlation: 0.75, highlyCorrelated: true },
+      ]);
+      expect(processAIDecision).toHaveBeenCalledWith('{"decision":"SELL"}');
+      expect(result?.toolTrace).toHaveLength(1);
+    });
+
+    it('reports unparseable arguments back to the model', async () => {
+      mockPost
+        .mockResolvedValueOnce({
+          data: {
+            choices: [
+              {
+                message: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    { id: 'c', type: 'function', function: { name: 'get_recent_news', arguments: '{sym' } },
+                  ],
+                },
+              },
+            ],
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { choices: [{ message: { role: 'assistant', content: '{"decision":"HOLD"}' } }] },
+        });
+
+      const result = await new OpenAICompatibleAdapter().analyze(makeContext());
+
+      expect(mockPost.mock.calls[1][1].messages[3].content).toContain('Invalid input');
+      expect(result?.toolTrace?.[0].error).toContain('Invalid input');
+    });
+  });
+
+  describe('structured output', () => {
+    beforeEach(() => {
+      vi.mocked(configManager.get).mockImplementation((key: string) => {
+        if (key === 'ai.openaiCompat.baseUrl') return 'http://localhost:8080/v1';
+        if (key === 'ai.openaiCompat.model') return 'gpt-4';
+        if (key === 'ai.timeoutSeconds') return 90;
+        if (key === 'ai.structuredOutput.enabled') return true;
+        if (key === 'ai.structuredOutput.maxRepairs') return 1;
+        return undefined;
+      });
+    });
+
+    it('asks for a strict JSON schema response and repairs an invalid one', async () => {
+      vi.mocked(processAIDecision).mockReturnValueOnce(null);
+      mockPost
+        .mockResolvedValueOnce({ data: { choices: [{ message: { content: 'Sure! Here it is' } }] } })
+        .mockResolvedValueOnce({ data: { choices: [{ message: { content: '{"decision":"SELL"}' } }] } });
+
+      const result = await new OpenAICompatibleAdapter().analyze(makeContext());
+
+      expect(mockPost.mock.calls[0][1].response_format).toEqual({
+        type: 'json_schema',
+        json_schema: {
+          name: 'trading_decision',
+          strict: true,
+          schema: { type: 'object', properties: {} },
+        },
+      });
+      const repair = mockPost.mock.calls[1][1];
+      expect(repair.messages.slice(2)).toEqual([
+        { role: 'assistant', content: 'Sure! Here it is' },
+        { role: 'user', content: 'mock repair prompt' },
+      ]);
+      expect(repair.response_format).toBeDefined();
+      expect(result?.decision).toBe('SELL');
+    });
+  });
+
   describe('rawChat', () => {
     it('calls OpenAI-compatible API and returns raw text', async () => {
       mockPost.mockResolvedValue({
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { decideWithRepair, structuredOutputEnabled } from '../../src/ai/structured-output.js';
+import { configManager } from '../../src/config/manager.js';
+import { getHealthMetrics } from '../../src/monitoring/health-metrics.js';
+
+const valid = JSON.stringify({
+  decision: 'BUY',
+  conviction: 75,
+  reasoning: 'Breakout on volume',
+  risks: ['Earnings next week'],
+  suggestedStopLossPct: 0.05,
+  suggestedPositionSizePct: 0.08,
+  suggestedTakeProfitPct: 0.15,
+  urgency: 'immediate',
+  exitConditions: 'Close below the 20-day average',
+});
+
+describe('decideWithRepair', () => {
+  const config: Record<string, unknown> = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(config)) delete config[key];
+    Object.assign(config, {
+      'risk.minStopLossPct': 0.02,
+      'risk.maxStopLossPct': 0.08,
+      'risk.maxPositionSizePct': 0.15,
+      'ai.structuredOutput.maxRepairs': 2,
+      'ai.quarantine.failureRate': 0.5,
+      'ai.quarantine.minSamples': 2,
+      'ai.quarantine.minutes': 60,
+    });
+    vi.mocked(configManager.get).mockImplementation((key: string) => config[key]);
+  });
+
+  it('takes a valid decision without asking for a repair', async () => {
+    const repair = vi.fn();
+
+    const decision = await decideWithRepair('model-a', valid, repair);
+
+    expect(decision?.decision).toBe('BUY');
+    expect(repair).not.toHaveBeenCalled();
+    expect(getHealthMetrics().getModelParseHealth()).toContainEqual(
+      expect.objectContaining({ model: 'model-a', totalParses: 1, failures: 0, repaired: 0 }),
+    );
+  });
+
+  it('sends the validation errors back until the decision parses', async () => {
+    const broken = JSON.stringify({ ...JSON.parse(valid), urgency: 'asap' });
+    const repair = vi.fn().mockResolvedValueOnce('still not json').mockResolvedValueOnce(valid);
+
+    const decision = await decideWithRepair('model-b', broken, repair);
+
+    expect(decision?.conviction).toBe(75);
+    expect(repair).toHaveBeenNthCalledWith(1, broken, [expect.stringMatching(/^urgency: /)]);
+    expect(repair).toHaveBeenNthCalledWith(2, 'still not json', [
+      expect.stringMatching(/^Not valid JSON/),
+    ]);
+    expect(getHealthMetrics().getModelParseHealth()).toContainEqual(
+      expect.objectContaining({ model: 'model-b', failures: 0, repaired: 1 }),
+    );
+  });
+
+  it('quarantines a model whose decisions keep failing', async () => {
+    config['ai.structuredOutput.maxRepairs'] = 0;
+
+    await expect(decideWithRepair('model-c', 'no idea', vi.fn())).resolves.toBeNull();
+    expect(getHealthMetrics().isModelQuarantined('model-c')).toBe(false);
+    await decideWithRepair('model-c', 'no idea', vi.fn());
+
+    expect(getHealthMetrics().isModelQuarantined('model-c')).toBe(true);
+  });
+});
+
+describe('structuredOutputEnabled', () => {
+  it('is on only when configured', () => {
+    vi.mocked(configManager.get).mockReturnValue(undefined);
+    expect(structuredOutputEnabled()).toBe(false);
+
+    vi.mocked(configManager.get).mockReturnValue(true);
+    expect(structuredOutputEnabled()).toBe(true);
+  });
+});
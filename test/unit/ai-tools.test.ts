@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../../src/db/repositories/journal.js', () => ({
+  getEntriesForSymbol: vi.fn(() => [
+    { id: 1, symbol: 'AAPL', note: 'Sold into earnings spike', tags: ['earnings'], createdAt: '2026-01-10' },
+  ]),
+}));
+
+vi.mock('../../src/analysis/correlation.js', () => ({
+  CorrelationAnalyzer: vi.fn().mockImplementation(function () {
+    return {
+      checkCorrelationWithPortfolio: () => [
+        { symbol1: 'AAPL', symbol2: 'MSFT', correlation: 0.81234, isHighlyCorrelated: true },
+      ],
+    };
+  }),
+}));
+
+const mockGetCandles = vi.fn();
+vi.mock('../../src/data/candle-store.js', () => ({
+  CANDLE_TIMEFRAMES: ['1d', '1h', '15m', '5m', '1m'],
+  getCandleStore: () => ({ getCandles: mockGetCandles, load: vi.fn() }),
+}));
+
+import { AI_TOOLS, enabledTools, ToolSession, toolInputSchema } from '../../src/ai/tools.js';
+import { configManager } from '../../src/config/manager.js';
+
+function bars(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    date: `2026-01-0${1 + Math.floor(i / 7)}T${String(14 + (i % 7)).padStart(2, '0')}:00:00Z`,
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100 + i,
+    volume: 1000,
+  }));
+}
+
+describe('ToolSession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(configManager.get).mockReturnValue(undefined);
+  });
+
+  it('runs a tool and records the call', async () => {
+    const session = new ToolSession();
+
+    const [result] = await session.execute(1, [
+      { id: 't1', name: 'get_journal_entries', input: { symbol: 'AAPL' } },
+    ]);
+
+    expect(result).toMatchObject({ id: 't1', isError: false });
+    expect(JSON.parse(result.content)).toEqual([
+      { createdAt: '2026-01-10', note: 'Sold into earnings spike', tags: ['earnings'] },
+    ]);
+    expect(session.trace).toEqual([
+      expect.objectContaining({ round: 1, name: 'get_journal_entries', latencyMs: expect.any(Number) }),
+    ]);
+  });
+
+  it('answers unknown tools and bad input with errors the model can read', async () => {
+    const session = new ToolSession();
+
+    const results = await session.execute(1, [
+      { id: 'a', name: 'place_order', input: {} },
+      { id: 'b', name: 'get_recent_news', input: { symbol: 'AAPL', limit: 500 } },
+    ]);
+
+    expect(results.map((r) => r.isError)).toEqual([true, true]);
+    expect(results[0].content).toContain('Unknown tool: place_order');
+    expect(results[1].content).toContain('Invalid input: limit');
+    expect(session.trace.map((t) => t.error)).toEqual([
+      'Unknown tool: place_order',
+      expect.stringContaining('limit'),
+    ]);
+  });
+
+  it('stops running tools once the call cap is reached', async () => {
+    const session = new ToolSession(AI_TOOLS, 1);
+    const call = { name: 'get_portfolio_correlation', input: { symbol: 'AAPL' } };
+
+    const results = await session.execute(1, [
+      { id: 'a', ...call },
+      { id: 'b', ...call },
+    ]);
+
+    expect(session.exhausted).toBe(true);
+    expect(JSON.parse(results[0].content)).toEqual([
+      { holding: 'MSFT', correlation: 0.812, highlyCorrelated: true },
+    ]);
+    expect(results[1]).toMatchObject({ isError: true, content: expect.stringContaining('limit') });
+    expect(session.trace).toHaveLength(1);
+  });
+
+  it('scores stored candles on the requested timeframe', async () => {
+    mockGetCandles.mockReturnValue(bars(30));
+    const session = new ToolSession();
+
+    const [result] = await session.execute(1, [
+      { id: 't', name: 'get_timeframe_analysis', input: { symbol: 'AAPL', timeframe: '1h', bars: 20 } },
+    ]);
+
+    expect(mockGetCandles).toHaveBeenCalledWith('AAPL', expect.any(String), undefined, {
+      timeframe: '1h',
+    });
+    expect(JSON.parse(result.content)).toMatchObject({
+      symbol: 'AAPL',
+      timeframe: '1h',
+      candleCount: 20,
+      lastClose: 129,
+      changePct: 17.27,
+      high: 130,
+      low: 109,
+    });
+  });
+});
+
+describe('tool definitions', () => {
+  it('narrows the tools to the allowed list', () => {
+    vi.mocked(configManager.get).mockReturnValue(['get_recent_news']);
+    expect(enabledTools().map((t) => t.name)).toEqual(['get_recent_news']);
+
+    vi.mocked(configManager.get).mockReturnValue([]);
+    expect(enabledTools()).toHaveLength(AI_TOOLS.length);
+  });
+
+  it('describes inputs as JSON schema with defaults optional', () => {
+    const tool = AI_TOOLS.find((t) => t.name === 'get_timeframe_analysis');
+    const schema = toolInputSchema(tool!);
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      required: ['symbol', 'timeframe'],
+      properties: { timeframe: { enum: ['1d', '1h', '15m', '5m', '1m'] } },
+    });
+    expect(schema).not.toHaveProperty('$schema');
+  });
+});
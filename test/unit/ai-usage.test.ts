@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../../src/db/repositories/ai-usage.js', () => ({
+  recordAIUsage: vi.fn(),
+  getAISpendSince: vi.fn(() => 0),
+  getAIUsageSummary: vi.fn(() => ({ totals: undefined, byModel: [], byJob: [], bySymbol: [] })),
+}));
+
+vi.mock('../../src/db/repositories/ai-cassette.js', () => ({
+  getCassetteEntry: vi.fn(),
+  markCassetteReplayed: vi.fn(),
+  recordCassetteEntry: vi.fn(),
+  getLatestCassetteEntryFor: vi.fn(),
+}));
+
+import type { AICall } from '../../src/ai/cassette.js';
+import {
+  AIUsageMeter,
+  budgetLevel,
+  estimateCost,
+  priceFor,
+  runAIJob,
+  technicalOnlyDecision,
+} from '../../src/ai/usage.js';
+import { configManager } from '../../src/config/manager.js';
+import { getCassetteEntry } from '../../src/db/repositories/ai-cassette.js';
+import {
+  getAISpendSince,
+  getAIUsageSummary,
+  recordAIUsage,
+} from '../../src/db/repositories/ai-usage.js';
+
+const prices = {
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-sonnet-4-5': { input: 4, output: 20 },
+};
+
+const call: AICall = {
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-5-20250929',
+  params: {},
+  system: 'system',
+  user: 'Analyze AAPL',
+  label: 'AAPL',
+};
+
+describe('priceFor', () => {
+  it('prefers an exact entry, then the longest matching prefix', () => {
+    expect(priceFor('claude-sonnet-4', prices)).toEqual({ input: 3, output: 15 });
+    expect(priceFor('claude-sonnet-4-5-20250929', prices)).toEqual({ input: 4, output: 20 });
+    expect(priceFor('claude-sonnet-4-20250514', prices)).toEqual({ input: 3, output: 15 });
+    expect(priceFor('llama3.1:8b', prices)).toBeNull();
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices tokens per million and leaves unlisted models free', () => {
+    expect(
+      estimateCost('claude-sonnet-4-0', { inputTokens: 2000, outputTokens: 500 }, prices),
+    ).toBeCloseTo(0.0135);
+    expect(estimateCost('llama3.1:8b', { inputTokens: 2000, outputTokens: 500 }, prices)).toBe(0);
+  });
+});
+
+describe('budgetLevel', () => {
+  it('steps down as the budget is used up', () => {
+    const thresholds = { reduceAt: 0.7, fallbackAt: 0.9 };
+    expect(budgetLevel(0.5, thresholds)).toBe('normal');
+    expect(budgetLevel(0.7, thresholds)).toBe('reduced');
+    expect(budgetLevel(0.95, thresholds)).toBe('fallback');
+    expect(budgetLevel(1.2, thresholds)).toBe('technical_only');
+  });
+});
+
+describe('technicalOnlyDecision', () => {
+  it('buys strong scores, sells their mirror image and holds in between', () => {
+    expect(technicalOnlyDecision(82, 70)).toMatchObject({ decision: 'BUY', conviction: 82 });
+    expect(technicalOnlyDecision(25, 70)).toMatchObject({ decision: 'SELL', conviction: 75 });
+    expect(technicalOnlyDecision(55, 70)).toMatchObject({ decision: 'HOLD', conviction: 0 });
+  });
+});
+
+describe('AIUsageMeter', () => {
+  const config: Record<string, unknown> = {};
+  let meter: AIUsageMeter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(config)) delete config[key];
+    Object.assign(config, { 'ai.pricing': prices, 'ai.cassette.mode': 'off' });
+    vi.mocked(configManager.get).mockImplementation((key: string) => config[key]);
+    meter = new AIUsageMeter();
+  });
+
+  it('records tokens, latency and cost for the symbol and job', async () => {
+    const text = await meter.track(call, 'analysis', async () => ({
+      text: '{"decision":"HOLD"}',
+      inputTokens: 1000,
+      outputTokens: 200,
+    }));
+
+    expect(text).toBe('{"decision":"HOLD"}');
+    expect(recordAIUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'claude-sonnet-4-5-20250929',
+        job: 'analysis',
+        symbol: 'AAPL',
+        inputTokens: 1000,
+        outputTokens: 200,
+        cost: 0.008,
+        success: true,
+        latencyMs: expect.any(Number),
+      }),
+    );
+  });
+
+  it('accounts calls to the job they run under', async () => {
+    const send = async () => ({ text: 'ok', inputTokens: 1, outputTokens: 1 });
+    await runAIJob('reevaluation', () => meter.track(call, 'analysis', send));
+
+    expect(vi.mocked(recordAIUsage).mock.calls[0][0].job).toBe('reevaluation');
+  });
+
+  it('records failed calls without tokens and rethrows', async () => {
+    await expect(
+      meter.track(call, 'chat', () => Promise.reject(new Error('overloaded'))),
+    ).rejects.toThrow('overloaded');
+
+    expect(recordAIUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 0, outputTokens: 0, cost: 0, success: false }),
+    );
+  });
+
+  it('does not charge replayed responses', async () => {
+    config['ai.cassette.mode'] = 'replay';
+    vi.mocked(getCassetteEntry).mockReturnValueOnce({ id: 1, response: 'recorded' } as never);
+    const send = vi.fn();
+
+    await expect(meter.track(call, 'analysis', send)).resolves.toBe('recorded');
+    expect(send).not.toHaveBeenCalled();
+    expect(recordAIUsage).not.toHaveBeenCalled();
+  });
+
+  it('still returns the response when usage cannot be stored', async () => {
+    vi.mocked(recordAIUsage).mockImplementationOnce(() => {
+      throw new Error('Database not initialized');
+    });
+
+    await expect(
+      meter.track(call, 'analysis', async () => ({ text: 'ok', inputTokens: 1, outputTokens: 1 })),
+    ).resolves.toBe('ok');
+  });
+
+  it('takes the budget level from the fuller of the two caps', () => {
+    Object.assign(config, {
+      'ai.budget.dailyUsd': 10,
+      'ai.budget.monthlyUsd': 100,
+      'ai.budget.reduceAtPct': 0.7,
+      'ai.budget.fallbackAtPct': 0.9,
+    });
+    // Today's spend first, then the month's
+    vi.mocked(getAISpendSince).mockReturnValueOnce(5).mockReturnValueOnce(92);
+
+    const status = meter.getBudgetStatus(new Date('2026-03-17T12:00:00Z'));
+
+    expect(getAISpendSince).toHaveBeenNthCalledWith(1, '2026-03-17T00:00:00.000Z');
+    expect(getAISpendSince).toHaveBeenNthCalledWith(2, '2026-03-01T00:00:00.000Z');
+    expect(status).toMatchObject({ level: 'fallback', utilization: 0.92 });
+  });
+
+  it('never degrades without a cap', () => {
+    vi.mocked(getAISpendSince).mockReturnValue(500);
+
+    expect(meter.getBudgetStatus()).toMatchObject({ level: 'normal', utilization: 0 });
+  });
+
+  it('summarises the day for Telegram', () => {
+    config['ai.budget.dailyUsd'] = 5;
+    vi.mocked(getAISpendSince).mockReturnValue(4);
+    vi.mocked(getAIUsageSummary).mockReturnValueOnce({
+      totals: {
+        calls: 40,
+        failures: 2,
+        inputTokens: 80000,
+        outputTokens: 12000,
+        cost: 4,
+        avgLatencyMs: 2400.4,
+      },
+      byModel: [],
+      byJob: [
+        { job: 'analysis', calls: 38, failures: 2, inputTokens: 0, outputTokens: 0, cost: 3.5, avgLatencyMs: 0 },
+        { job: 'research', calls: 2, failures: 0, inputTokens: 0, outputTokens: 0, cost: 0.5, avgLatencyMs: 0 },
+      ],
+      bySymbol: [
+        { symbol: 'NVDA', calls: 5, failures: 0, inputTokens: 0, outputTokens: 0, cost: 0.6, avgLatencyMs: 0 },
+      ],
+    });
+
+    const text = meter.formatDailySummary();
+
+    expect(text).toContain('Calls: 40 (2 failed), avg 2400ms');
+    expect(text).toContain('Cost today: $4.00 / $5.00');
+    expect(text).toContain('Budget mode: reduced');
+    expect(text).toContain('By job: analysis $3.50, research $0.50');
+    expect(text).toContain('Top symbols: NVDA $0.60');
+  });
+});
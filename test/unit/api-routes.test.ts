@@ -64,6 +64,7 @@ const mockMarketTimes = {
 
 vi.mock('../../src/utils/market-hours.js', () => ({
   getMarketTimes: () => mockMarketTimes,
+  getExchangeTimes: () => [],
 }));
 
 const mockConfigManager = {
@@ -119,10 +120,16 @@ const mockPerformanceMetrics = {
 };
 
 const mockGetMetrics = vi.fn(() => ({ ...mockPerformanceMetrics }));
+const mockGetCurrencyBreakdown = vi.fn(() => []);
+const mockGetDividendIncome = vi.fn(() => 0);
 
 vi.mock('../../src/monitoring/performance.js', () => ({
   PerformanceTracker: vi.fn().mockImplementation(function () {
-    return { getMetrics: mockGetMetrics };
+    return {
+      getMetrics: mockGetMetrics,
+      getCurrencyBreakdown: mockGetCurrencyBreakdown,
+      getDividendIncome: mockGetDividendIncome,
+    };
   }),
 }));
 
@@ -150,6 +157,16 @@ vi.mock('../../src/monitoring/health-metrics.js', () => ({
   }),
 }));
 
+vi.mock('../../src/ai/usage.js', () => ({
+  getAIUsageMeter: () => ({
+    getStatus: () => ({
+      budget: { level: 'normal', spentTodayUsd: 0.42, spentMonthUsd: 3.1, dailyCapUsd: 5, monthlyCapUsd: 0, utilization: 0.084 },
+      today: { totals: { calls: 12 }, byModel: [], byJob: [], bySymbol: [] },
+      month: { calls: 90 },
+    }),
+  }),
+}));
+
 // ── Helpers ─────────────────────────────────────────────────────────────
 
 function mockReq(overrides: Record<string, unknown> = {}) {
@@ -168,7 +185,7 @@ function mockRes() {
   return res;
 }
 
-// Extract route handlers from the router
+// Extract route handlers from the router; the handler follows any route middleware
 type RouteHandler = (req: any, res: any) => void | Promise<void>;
 type RouteEntry = { method: string; path: string; handler: RouteHandler };
 
@@ -185,7 +202,7 @@ async function getRouteHandlers(): Promise<RouteEntry[]> {
           routes.push({
             method,
             path: layer.route.path,
-            handler: layer.route.stack[0].handle,
+            handler: layer.route.stack.at(-1).handle,
           });
         }
       }
@@ -243,6 +260,9 @@ describe('api/routes', () => {
           accountType: 'INVEST',
           environment: 'demo',
           dryRun: true,
+          ai: expect.objectContaining({
+            budget: expect.objectContaining({ level: 'normal', spentTodayUsd: 0.42 }),
+          }),
         })
       );
     });
@@ -410,6 +430,26 @@ describe('api/routes', () => {
       expect(res.json).toHaveBeenCalledWith({ trades: [], total: 0 });
     });
 
+    it('filters by account', () => {
+      mockDb.select.mockReturnValue(chain([]));
+
+      const handler = findHandler(routes, 'get', '/api/trades');
+      const res = mockRes();
+      handler(mockReq({ query: { account: 'ISA' } }), res);
+
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalled();
+    });
+
+    it('returns 400 for an unknown account', () => {
+      const handler = findHandler(routes, 'get', '/api/trades');
+      const res = mockRes();
+      handler(mockReq({ query: { account: 'SIPP' } }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'account must be INVEST or ISA' });
+    });
+
     it('handles errors', () => {
       mockDb.select.mockImplementation(() => { throw new Error('err'); });
 
@@ -623,6 +663,21 @@ describe('api/routes', () => {
       expect(result.sqn).toBe(1.2);
     });
 
+    it('adds dividends to total return', () => {
+      mockGetMetrics.mockReturnValueOnce({ ...mockPerformanceMetrics });
+      mockGetDividendIncome.mockReturnValueOnce(42.5);
+      mockDb.select.mockReturnValue(chain([{ pnl: 100, fxPnl: null }]));
+
+      const handler = findHandler(routes, 'get', '/api/performance');
+      const res = mockRes();
+      handler(mockReq(), res);
+
+      const result = res.json.mock.calls[0][0];
+      expect(result.totalPnl).toBe(100);
+      expect(result.dividendIncome).toBe(42.5);
+      expect(result.totalReturn).toBe(142.5);
+    });
+
     it('handles all winning trades (grossLoss = 0)', () => {
       mockGetMetrics.mockReturnValueOnce({
         ...mockPerformanceMetrics,
@@ -1679,6 +1734,54 @@ describe('api/routes', () => {
     });
   });
 
+  describe('POST /api/pies/rebalance', () => {
+    const pieConfig = (overrides: Record<string, unknown>) =>
+      mockConfigManager.get.mockImplementation((key: string) => {
+        const values: Record<string, unknown> = {
+          'pies.enabled': true,
+          'execution.dryRun': false,
+          'execution.paperBroker.enabled': false,
+          ...overrides,
+        };
+        return values[key] ?? null;
+      });
+
+    async function rebalance(rebalancePie: ReturnType<typeof vi.fn>) {
+      const { registerBotCallbacks } = await import('../../src/api/routes.js');
+      registerBotCallbacks({ rebalancePie } as any);
+      routes = await getRouteHandlers();
+      const handler = findHandler(routes, 'post', '/api/pies/rebalance');
+      const res = mockRes();
+      await handler(mockReq({ body: { account: 'ISA' } }), res);
+      return res;
+    }
+
+    it('rebalances the account pie when pie mode is live', async () => {
+      pieConfig({});
+      const rebalancePie = vi.fn().mockResolvedValue({ action: 'unchanged' });
+
+      const res = await rebalance(rebalancePie);
+
+      expect(rebalancePie).toHaveBeenCalledWith('ISA');
+      expect(res.json).toHaveBeenCalledWith({ action: 'unchanged' });
+    });
+
+    it.each([
+      [{ 'pies.enabled': false }, 'Pie mode is disabled'],
+      [{ 'execution.dryRun': true }, 'Pies are not changed in dry run'],
+      [{ 'execution.paperBroker.enabled': true }, 'Pies are not supported by the paper broker'],
+    ])('refuses with %o', async (overrides, error) => {
+      pieConfig(overrides);
+      const rebalancePie = vi.fn();
+
+      const res = await rebalance(rebalancePie);
+
+      expect(rebalancePie).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error });
+    });
+  });
+
   describe('POST /api/pairlist/static', () => {
     it('adds a symbol to static pairlist', async () => {
       mockConfigManager.get.mockImplementation((key: string) => {
@@ -1841,6 +1944,43 @@ describe('api/routes', () => {
     });
   });
 
+  describe('GET /api/accounts', () => {
+    it('returns the accounts reported by the bot', async () => {
+      const { registerBotCallbacks } = await import('../../src/api/routes.js');
+      const accounts = [
+        {
+          accountType: 'ISA' as const,
+          strategyProfile: 'conservative',
+          cashAvailable: 5000,
+          portfolioValue: 12000,
+          lossCooldownUntil: null,
+        },
+      ];
+      registerBotCallbacks({
+        getStatus: () => ({ paused: false, startedAt: '2024-01-15T00:00:00.000Z' }),
+        setPaused: vi.fn(),
+        closePosition: vi.fn(),
+        analyzeSymbol: vi.fn(),
+        refreshPairlist: vi.fn(),
+        emergencyStop: vi.fn(),
+        getTradePlans: vi.fn(),
+        approveTradePlan: vi.fn(),
+        rejectTradePlan: vi.fn(),
+        runResearch: vi.fn(),
+        getResearchReports: vi.fn(),
+        getModelStats: vi.fn(),
+        getAccounts: () => accounts,
+      });
+
+      routes = await getRouteHandlers();
+      const handler = findHandler(routes, 'get', '/api/accounts');
+      const res = mockRes();
+      handler(mockReq(), res);
+
+      expect(res.json).toHaveBeenCalledWith({ accounts });
+    });
+  });
+
   describe('registerBotCallbacks', () => {
     it('default callbacks return expected values', async () => {
       // Reset module to get default callbacks
@@ -15,12 +15,13 @@ const mockUse = vi.fn();
 const mockExpressApp = {
   use: mockUse,
 };
+const mockJsonParser = vi.fn();
 const mockExpress = vi.fn(() => mockExpressApp);
 (mockExpress as any).json = vi.fn(() => 'json-middleware');
 
 vi.mock('express', () => {
   const fn: any = () => mockExpressApp;
-  fn.json = () => 'json-middleware';
+  fn.json = () => mockJsonParser;
   fn.default = fn;
   return { default: fn, __esModule: true };
 });
@@ -128,6 +129,23 @@ describe('api/server', () => {
       expect(mockUse).toHaveBeenCalled();
     });
 
+    it('leaves candle imports to their own body parser', async () => {
+      const { ApiServer } = await import('../../src/api/server.js');
+      new ApiServer();
+      const bodyParser = mockUse.mock.calls
+        .map(([middleware]) => middleware)
+        .find((middleware) => typeof middleware === 'function' && middleware.length === 3);
+      const next = vi.fn();
+
+      for (const path of ['/api/candles/import', '/api/candles/import/', '/API/Candles/Import']) {
+        bodyParser({ path }, {}, next);
+      }
+      bodyParser({ path: '/api/settings' }, {}, next);
+
+      expect(next).toHaveBeenCalledTimes(3);
+      expect(mockJsonParser).toHaveBeenCalledTimes(1);
+    });
+
     it('creates the router and adds it to express', async () => {
       const { createRouter } = await import('../../src/api/routes.js');
       const { ApiServer } = await import('../../src/api/server.js');
@@ -0,0 +1,252 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestConfig, Candle } from '../../src/backtest/types.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { BacktestDataLoader } from '../../src/backtest/data-loader.js';
+import {
+  DecisionReplay,
+  loadRecordedDecisions,
+  type RecordedDecision,
+} from '../../src/backtest/decision-replay.js';
+import { BacktestEngine } from '../../src/backtest/engine.js';
+import { createDatabase, withDatabase } from '../../src/db/index.js';
+import { modelPerformance, signals } from '../../src/db/schema.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function decision(
+  symbol: string,
+  timestamp: string,
+  kind: RecordedDecision['decision'],
+  conviction = 80,
+): RecordedDecision {
+  return {
+    symbol,
+    timestamp,
+    decision: kind,
+    conviction,
+    aiModel: 'model-a',
+    reasoning: null,
+    source: 'signals',
+  };
+}
+
+function candlesFor(dates: string[], close = 100): Candle[] {
+  return dates.map((date) => ({
+    date,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1_000_000,
+  }));
+}
+
+function createMockDataLoader(data: Map<string, Candle[]>): BacktestDataLoader {
+  const loader = new BacktestDataLoader();
+  loader.loadMultiple = vi.fn(async () => data);
+  return loader;
+}
+
+function defaultConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    symbols: ['AAPL'],
+    startDate: '2024-06-03',
+    endDate: '2024-06-14',
+    initialCapital: 10000,
+    maxPositions: 5,
+    maxPositionSizePct: 0.15,
+    stopLossPct: 0.05,
+    trailingStop: false,
+    commission: 0,
+    entryThreshold: 0.6,
+    signalSource: 'recorded',
+    ...overrides,
+  };
+}
+
+const WEEK = ['2024-06-03', '2024-06-04', '2024-06-05', '2024-06-06', '2024-06-07'];
+const TWO_WEEKS = [
+  ...WEEK,
+  '2024-06-10',
+  '2024-06-11',
+  '2024-06-12',
+  '2024-06-13',
+  '2024-06-14',
+];
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('DecisionReplay', () => {
+  it('assigns weekend decisions to the preceding session', () => {
+    const replay = new DecisionReplay([decision('AAPL', '2024-06-08T15:00:00.000Z', 'BUY')]);
+    replay.align([...WEEK, '2024-06-10']);
+
+    expect(replay.get('AAPL', '2024-06-07')?.decision).toBe('BUY');
+    expect(replay.get('AAPL', '2024-06-10')).toBeUndefined();
+  });
+
+  it('keeps the latest decision per symbol and session', () => {
+    const replay = new DecisionReplay([
+      decision('AAPL', '2024-06-03T18:00:00.000Z', 'SELL'),
+      decision('AAPL', '2024-06-03T14:00:00.000Z', 'BUY'),
+    ]);
+    replay.align(WEEK);
+
+    expect(replay.get('AAPL', '2024-06-03')?.decision).toBe('SELL');
+  });
+
+  it('ignores decisions made before the first session', () => {
+    const replay = new DecisionReplay([decision('AAPL', '2024-05-31T15:00:00.000Z', 'BUY')]);
+    replay.align(WEEK);
+
+    expect(replay.buildReport(['AAPL'], WEEK).coveredSymbolDays).toBe(0);
+  });
+
+  it('reports coverage and gaps per symbol', () => {
+    const replay = new DecisionReplay(
+      [
+        decision('AAPL', '2024-06-03T15:00:00.000Z', 'HOLD'),
+        decision('AAPL', '2024-06-07T15:00:00.000Z', 'HOLD'),
+        decision('MSFT', '2024-06-05T15:00:00.000Z', 'HOLD'),
+      ],
+      'model-a',
+    );
+    replay.align(WEEK);
+
+    const report = replay.buildReport(['AAPL', 'MSFT'], WEEK);
+    expect(report.model).toBe('model-a');
+    expect(report.symbolDays).toBe(10);
+    expect(report.coveredSymbolDays).toBe(3);
+    expect(report.coveragePct).toBe(0.3);
+    expect(report.gaps).toEqual([
+      { symbol: 'AAPL', from: '2024-06-04', to: '2024-06-06', days: 3 },
+      { symbol: 'MSFT', from: '2024-06-03', to: '2024-06-04', days: 2 },
+      { symbol: 'MSFT', from: '2024-06-06', to: '2024-06-07', days: 2 },
+    ]);
+  });
+});
+
+describe('loadRecordedDecisions', () => {
+  function seed() {
+    const db = createDatabase();
+    db.insert(signals)
+      .values([
+        {
+          timestamp: '2024-06-03T15:00:00.000Z',
+          symbol: 'AAPL',
+          decision: 'BUY',
+          aiScore: 85,
+          aiModel: 'model-a',
+          aiReasoning: 'breakout',
+        },
+        {
+          timestamp: '2024-06-04T15:00:00.000Z',
+          symbol: 'AAPL',
+          decision: 'HOLD',
+          aiScore: 50,
+          aiModel: 'model-b',
+        },
+        // Technical-only row without an AI decision
+        { timestamp: '2024-06-05T15:00:00.000Z', symbol: 'AAPL', technicalScore: 70 },
+      ])
+      .run();
+    db.insert(modelPerformance)
+      .values([
+        {
+          aiModel: 'model-a',
+          symbol: 'AAPL',
+          decision: 'SELL',
+          conviction: 40,
+          signalTimestamp: '2024-06-03T15:00:05.000Z',
+          priceAtSignal: 100,
+        },
+        {
+          aiModel: 'model-a',
+          symbol: 'AAPL',
+          decision: 'SELL',
+          conviction: 70,
+          signalTimestamp: '2024-06-06T15:00:00.000Z',
+          priceAtSignal: 100,
+        },
+      ])
+      .run();
+    return db;
+  }
+
+  it('prefers signals and fills uncovered days from model_performance', () => {
+    const db = seed();
+    const loaded = withDatabase(db, () =>
+      loadRecordedDecisions(['AAPL'], '2024-06-01', '2024-06-30'),
+    );
+
+    expect(loaded.map((d) => [d.timestamp.slice(0, 10), d.decision, d.source])).toEqual([
+      ['2024-06-03', 'BUY', 'signals'],
+      ['2024-06-04', 'HOLD', 'signals'],
+      ['2024-06-06', 'SELL', 'model_performance'],
+    ]);
+    expect(loaded[0].reasoning).toBe('breakout');
+  });
+
+  it('filters by model', () => {
+    const db = seed();
+    const loaded = withDatabase(db, () =>
+      loadRecordedDecisions(['AAPL'], '2024-06-01', '2024-06-30', 'model-b'),
+    );
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].aiModel).toBe('model-b');
+  });
+});
+
+describe('BacktestEngine with recorded decisions', () => {
+  it('enters on recorded BUYs and exits on recorded SELLs at the next open', async () => {
+    const data = new Map([['AAPL', candlesFor(TWO_WEEKS)]]);
+    const scoreFn = vi.fn(() => 100);
+    const replay = new DecisionReplay([
+      decision('AAPL', '2024-06-04T15:00:00.000Z', 'BUY', 80),
+      decision('AAPL', '2024-06-10T15:00:00.000Z', 'SELL', 70),
+    ]);
+    const engine = new BacktestEngine({
+      config: defaultConfig(),
+      scoreFn,
+      dataLoader: createMockDataLoader(data),
+      decisionReplay: replay,
+    });
+
+    const result = await engine.run();
+
+    expect(scoreFn).not.toHaveBeenCalled();
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      entryTime: '2024-06-05',
+      exitTime: '2024-06-11',
+      exitReason: 'ai_sell',
+    });
+    expect(result.replay?.decisionsUsed).toBe(2);
+    expect(result.replay?.coveredSymbolDays).toBe(2);
+  });
+
+  it('skips BUYs below the entry threshold', async () => {
+    const data = new Map([['AAPL', candlesFor(TWO_WEEKS)]]);
+    const engine = new BacktestEngine({
+      config: defaultConfig(),
+      dataLoader: createMockDataLoader(data),
+      decisionReplay: new DecisionReplay([decision('AAPL', '2024-06-04T15:00:00.000Z', 'BUY', 55)]),
+    });
+
+    const result = await engine.run();
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.replay?.decisionsUsed).toBe(0);
+  });
+});
@@ -796,4 +796,68 @@ describe('BacktestEngine', () => {
       }
     });
   });
+
+  describe('short positions', () => {
+    it('ignores bearish scores unless shorting is allowed', async () => {
+      const candles = generateFullData('2024-06-01', 60, 200, 'down');
+      const loader = createMockDataLoader(new Map([['AAPL', candles]]));
+
+      const engine = new BacktestEngine({
+        config: defaultConfig({ entryThreshold: 0.6 }),
+        scoreFn: () => 20,
+        dataLoader: loader,
+      });
+
+      const result = await engine.run();
+      expect(result.trades).toHaveLength(0);
+    });
+
+    it('profits from a falling market and charges financing', async () => {
+      const candles = generateFullData('2024-06-01', 60, 200, 'down');
+      const loader = createMockDataLoader(new Map([['AAPL', candles]]));
+
+      const engine = new BacktestEngine({
+        config: defaultConfig({
+          entryThreshold: 0.6,
+          stopLossPct: 0.1,
+          allowShort: true,
+          shortFinancingAnnualPct: 0.05,
+        }),
+        scoreFn: () => 20, // 1 - 0.20 = 0.80 bearish conviction
+        dataLoader: loader,
+      });
+
+      const result = await engine.run();
+
+      expect(result.trades.length).toBeGreaterThan(0);
+      for (const trade of result.trades) {
+        expect(trade.direction).toBe('SHORT');
+        expect(trade.exitPrice).toBeLessThan(trade.entryPrice);
+        expect(trade.pnl).toBeGreaterThan(0);
+        expect(trade.financingCost).toBeGreaterThan(0);
+      }
+      expect(result.costs?.financing).toBeGreaterThan(0);
+      expect(result.metrics.finalEquity).toBeGreaterThan(10000);
+    });
+
+    it('stops out a short when the price rallies', async () => {
+      const candles = generateFullData('2024-06-01', 60, 100, 'up');
+      const loader = createMockDataLoader(new Map([['AAPL', candles]]));
+
+      const engine = new BacktestEngine({
+        config: defaultConfig({ entryThreshold: 0.6, stopLossPct: 0.05, allowShort: true }),
+        scoreFn: () => 20,
+        dataLoader: loader,
+      });
+
+      const result = await engine.run();
+
+      const stops = result.trades.filter((t) => t.exitReason === 'stoploss');
+      expect(stops.length).toBeGreaterThan(0);
+      for (const trade of stops) {
+        expect(trade.exitPrice).toBeGreaterThan(trade.entryPrice);
+        expect(trade.pnl).toBeLessThan(0);
+      }
+    });
+  });
 });
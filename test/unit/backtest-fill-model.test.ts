@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestConfig, Candle, FillModelConfig } from '../../src/backtest/types.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { BacktestDataLoader } from '../../src/backtest/data-loader.js';
+import { BacktestEngine } from '../../src/backtest/engine.js';
+import {
+  IdealFillModel,
+  RealisticFillModel,
+  T212_FX_FEE_PCT,
+  createFillModel,
+} from '../../src/backtest/fill-model.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const HISTORY_BARS = 50;
+
+function bar(date: string, close: number, volume = 1_000_000, open = close): Candle {
+  return {
+    date,
+    open,
+    high: Math.max(open, close) + 1,
+    low: Math.min(open, close) - 1,
+    close,
+    volume,
+  };
+}
+
+/** Weekday dates starting 2024-01-01 */
+function weekdays(count: number): string[] {
+  const dates: string[] = [];
+  const day = new Date('2024-01-01T00:00:00Z');
+  while (dates.length < count) {
+    const dow = day.getUTCDay();
+    if (dow !== 0 && dow !== 6) dates.push(day.toISOString().split('T')[0]);
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * 60 flat bars at 100; the engine signals on the first backtest day and
+ * enters at the next open. `tweak` edits individual bars by index.
+ */
+function scenario(tweak: (candles: Candle[], dates: string[]) => void = () => {}) {
+  const dates = weekdays(60);
+  const candles = dates.map((d) => bar(d, 100));
+  tweak(candles, dates);
+  return { candles, startDate: dates[HISTORY_BARS], endDate: dates[dates.length - 1] };
+}
+
+async function runEngine(
+  candles: Candle[],
+  startDate: string,
+  endDate: string,
+  fillModel?: FillModelConfig,
+  overrides: Partial<BacktestConfig> = {},
+) {
+  const loader = new BacktestDataLoader();
+  loader.loadMultiple = vi.fn(async () => new Map([['AAPL', candles]]));
+  const engine = new BacktestEngine({
+    config: {
+      symbols: ['AAPL'],
+      startDate,
+      endDate,
+      initialCapital: 10000,
+      maxPositions: 1,
+      maxPositionSizePct: 0.2,
+      stopLossPct: 0.05,
+      trailingStop: false,
+      commission: 0,
+      entryThreshold: 0.6,
+      fillModel,
+      ...overrides,
+    },
+    // Signal once, on the first backtest day
+    scoreFn: (history) => (history.length === HISTORY_BARS + 1 ? 70 : 0),
+    dataLoader: loader,
+  });
+  return engine.run();
+}
+
+// ── Fill model ───────────────────────────────────────────────────────────
+
+describe('RealisticFillModel', () => {
+  const liquid = bar('2024-06-03', 100, 1_000_000);
+
+  it('charges half the spread plus percentage slippage against the trader', () => {
+    const model = new RealisticFillModel({ spreadBps: 2, slippage: { type: 'pct', pct: 0.001 } });
+
+    const buy = model.fill({ side: 'BUY', shares: 10, price: 100, candle: liquid, atr: null });
+    const sell = model.fill({ side: 'SELL', shares: 10, price: 100, candle: liquid, atr: null });
+
+    expect(buy.price).toBeCloseTo(100.11, 6);
+    expect(sell.price).toBeCloseTo(99.89, 6);
+    expect(buy.spreadCost).toBeCloseTo(0.1, 6);
+    expect(buy.slippageCost).toBeCloseTo(1, 6);
+    expect(buy.fxCost).toBe(0);
+  });
+
+  it('widens the spread for thinly traded names', () => {
+    const model = new RealisticFillModel({ spreadBps: 2 });
+    const thin = bar('2024-06-03', 10, 5_000);
+    const liquidTen = bar('2024-06-03', 10, 10_000_000);
+
+    const thinFill = model.fill({ side: 'BUY', shares: 1, price: 10, candle: thin, atr: null });
+    const liquidFill = model.fill({
+      side: 'BUY',
+      shares: 1,
+      price: 10,
+      candle: liquidTen,
+      atr: null,
+    });
+
+    // Liquidity multiplier caps at 20x the quoted spread
+    expect(thinFill.spreadCost).toBeCloseTo((10 * 0.004) / 2, 6);
+    expect(thinFill.spreadCost).toBeGreaterThan(liquidFill.spreadCost);
+  });
+
+  it('scales ATR slippage by the configured multiple', () => {
+    const model = new RealisticFillModel({
+      spreadBps: 0,
+      slippage: { type: 'atr', atrMultiple: 0.5, period: 10 },
+    });
+
+    expect(model.atrPeriod).toBe(10);
+    const fill = model.fill({ side: 'SELL', shares: 4, price: 100, candle: liquid, atr: 2 });
+    expect(fill.slippageCost).toBeCloseTo(4, 6);
+    const noAtr = model.fill({ side: 'SELL', shares: 4, price: 100, candle: liquid, atr: null });
+    expect(noAtr.slippageCost).toBe(0);
+  });
+
+  it('caps fills at the participation rate unless told to ignore it', () => {
+    const model = new RealisticFillModel({ maxParticipationRate: 0.1 });
+    const quiet = bar('2024-06-03', 100, 1_000);
+
+    const capped = model.fill({ side: 'BUY', shares: 500, price: 100, candle: quiet, atr: null });
+    expect(capped.shares).toBe(100);
+    expect(
+      model.fill({
+        side: 'SELL',
+        shares: 500,
+        price: 100,
+        candle: quiet,
+        atr: null,
+        ignoreParticipation: true,
+      }).shares,
+    ).toBe(500);
+  });
+
+  it('adds the FX fee only for non-USD accounts', () => {
+    const gbp = new RealisticFillModel({ spreadBps: 0, accountCurrency: 'GBP' });
+    const usd = new RealisticFillModel({ spreadBps: 0, accountCurrency: 'USD' });
+
+    const gbpFill = gbp.fill({ side: 'BUY', shares: 10, price: 100, candle: liquid, atr: null });
+    const usdFill = usd.fill({ side: 'BUY', shares: 10, price: 100, candle: liquid, atr: null });
+
+    expect(gbpFill.fxCost).toBeCloseTo(10 * 100.005 * T212_FX_FEE_PCT, 6);
+    expect(usdFill.fxCost).toBe(0);
+  });
+
+  it('falls back to ideal fills when no config is given', () => {
+    expect(createFillModel()).toBeInstanceOf(IdealFillModel);
+    expect(createFillModel({})).toBeInstanceOf(RealisticFillModel);
+  });
+});
+
+// ── Engine integration ──────────────────────────────────────────────────
+
+describe('BacktestEngine fill model', () => {
+  function gapDown(candles: Candle[]): void {
+    // Bar 54 opens well below the 95 stop
+    for (let i = HISTORY_BARS + 4; i < candles.length; i++) {
+      candles[i] = bar(candles[i].date, 90, candles[i].volume, 90);
+    }
+  }
+
+  it('fills stops that gap through at the open', async () => {
+    const { candles, startDate, endDate } = scenario(gapDown);
+
+    const ideal = await runEngine(candles, startDate, endDate);
+    const realistic = await runEngine(candles, startDate, endDate, {
+      spreadBps: 0,
+      gapThroughStops: true,
+    });
+
+    expect(ideal.trades[0].exitReason).toBe('stoploss');
+    expect(ideal.trades[0].exitPrice).toBe(95);
+
+    expect(realistic.trades[0].exitReason).toBe('stoploss');
+    // Open of 90 less half a one-cent tick spread
+    expect(realistic.trades[0].exitPrice).toBeCloseTo(89.995, 6);
+    expect(realistic.costs?.gapFills).toBe(1);
+  });
+
+  it('spreads an exit over several sessions when the participation cap binds', async () => {
+    const { candles, startDate, endDate } = scenario((c) => {
+      gapDown(c);
+      for (let i = HISTORY_BARS + 4; i < c.length; i++) c[i].volume = 50;
+    });
+
+    const result = await runEngine(candles, startDate, endDate, {
+      spreadBps: 0,
+      maxParticipationRate: 0.1,
+    });
+
+    // 20 shares entered; at most 5 can be sold per session afterwards
+    const exits = result.trades.filter((t) => t.exitReason === 'stoploss');
+    expect(exits.map((t) => t.shares)).toEqual([5, 5, 5, 5]);
+    expect(new Set(exits.map((t) => t.exitTime)).size).toBe(4);
+    expect(result.costs?.partialFills).toBe(3);
+  });
+
+  it('reports gross and net P&L with a cost breakdown', async () => {
+    const { candles, startDate, endDate } = scenario();
+
+    const result = await runEngine(
+      candles,
+      startDate,
+      endDate,
+      { spreadBps: 10, slippage: { type: 'pct', pct: 0.001 }, accountCurrency: 'GBP' },
+      { commission: 1 },
+    );
+    const costs = result.costs;
+
+    expect(costs).toBeDefined();
+    expect(costs?.grossPnl).toBe(0);
+    expect(costs?.spread).toBeGreaterThan(0);
+    expect(costs?.slippage).toBeGreaterThan(0);
+    expect(costs?.fx).toBeGreaterThan(0);
+    expect(costs?.commission).toBe(2);
+    // Trade P&L carries the exit commission; the entry commission came out of cash
+    const tradePnl = result.trades.reduce((sum, t) => sum + t.pnl, 0);
+    expect(costs?.netPnl).toBeCloseTo(tradePnl - 1, 1);
+    expect(costs?.netPnl).toBeCloseTo(-(costs?.totalCosts ?? 0), 6);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestConfig, BacktestMetrics, Candle } from '../../src/backtest/types.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { BacktestDataLoader } from '../../src/backtest/data-loader.js';
+import { BacktestEngine } from '../../src/backtest/engine.js';
+import {
+  BacktestOptimizer,
+  buildCandidates,
+  exportOptimizationProfile,
+  paramsToProfileConfig,
+  scoreMetrics,
+  splitWalkForward,
+} from '../../src/backtest/optimizer.js';
+import { createDatabase, withDatabase } from '../../src/db/index.js';
+import {
+  getOptimizationRun,
+  insertOptimizationRun,
+} from '../../src/db/repositories/optimization-runs.js';
+import { getProfileByName } from '../../src/db/repositories/strategy-profiles.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** Weekday candles starting 300 calendar days before `backtestStart`. */
+function generateData(backtestStart: string, days: number, closeAt: (i: number) => number): Candle[] {
+  const candles: Candle[] = [];
+  const date = new Date(backtestStart);
+  date.setDate(date.getDate() - 300);
+  let i = 0;
+  while (candles.length < 300 + days) {
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      const close = closeAt(i++);
+      candles.push({
+        date: date.toISOString().split('T')[0],
+        open: close - 0.1,
+        high: close + 1,
+        low: close - 1,
+        close,
+        volume: 1_000_000,
+      });
+    }
+    date.setDate(date.getDate() + 1);
+  }
+  return candles;
+}
+
+function createMockDataLoader(data: Map<string, Candle[]>): BacktestDataLoader {
+  const loader = new BacktestDataLoader();
+  loader.loadMultiple = vi.fn(async () => data);
+  return loader;
+}
+
+function baseConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    symbols: ['AAPL'],
+    startDate: '2024-06-01',
+    endDate: '2024-09-01',
+    initialCapital: 10000,
+    maxPositions: 5,
+    maxPositionSizePct: 0.15,
+    stopLossPct: 0.05,
+    trailingStop: false,
+    commission: 0,
+    entryThreshold: 0.6,
+    ...overrides,
+  };
+}
+
+function metrics(overrides: Partial<BacktestMetrics> = {}): BacktestMetrics {
+  return {
+    totalTrades: 10,
+    winCount: 6,
+    lossCount: 4,
+    winRate: 0.6,
+    totalPnl: 100,
+    totalPnlPct: 0.01,
+    avgWin: 30,
+    avgLoss: -20,
+    maxDrawdown: 50,
+    maxDrawdownPct: 0.005,
+    currentDrawdown: 0,
+    sharpeRatio: 1.2,
+    sortinoRatio: 1.5,
+    calmarRatio: 2,
+    sqn: 1.8,
+    expectancy: 10,
+    profitFactor: 2.25,
+    avgHoldMinutes: 1440,
+    bestTrade: null,
+    worstTrade: null,
+    finalEquity: 10100,
+    returnPct: 0.01,
+    ...overrides,
+  };
+}
+
+/** Rising prices with periodic pullbacks, so the stop-loss width changes the outcome. */
+const choppyUptrend = (i: number) => 100 + i * 0.3 - (i % 10 < 3 ? 4 : 0);
+
+const engineFactory = async (config: BacktestConfig, dataLoader: BacktestDataLoader) =>
+  new BacktestEngine({ config, scoreFn: () => 80, dataLoader });
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('buildCandidates', () => {
+  it('expands stepped ranges and lists into a full grid', () => {
+    const candidates = buildCandidates({
+      base: baseConfig(),
+      space: { stopLossPct: { min: 0.02, max: 0.06, step: 0.02 }, trailingStop: [false, true] },
+      method: 'grid',
+      objective: 'sharpe',
+    });
+
+    expect(candidates).toHaveLength(6);
+    expect(candidates[0]).toEqual({ stopLossPct: 0.02, trailingStop: false });
+    expect(candidates.map((c) => c.stopLossPct)).toEqual([0.02, 0.02, 0.04, 0.04, 0.06, 0.06]);
+  });
+
+  it('refuses grids larger than maxEvaluations', () => {
+    expect(() =>
+      buildCandidates({
+        base: baseConfig(),
+        space: { stopLossPct: { min: 0.01, max: 0.1, step: 0.01 }, maxPositions: [1, 2, 3] },
+        method: 'grid',
+        objective: 'sharpe',
+        maxEvaluations: 20,
+      }),
+    ).toThrow('Grid search would run 30 backtests (limit 20)');
+  });
+
+  it('samples unique combinations reproducibly for a seed', () => {
+    const config = {
+      base: baseConfig(),
+      space: { stopLossPct: { min: 0.01, max: 0.1, step: 0.01 }, entryThreshold: [0.5, 0.6, 0.7] },
+      method: 'random' as const,
+      objective: 'sharpe' as const,
+      maxEvaluations: 12,
+      seed: 42,
+    };
+
+    const first = buildCandidates(config);
+    expect(first).toHaveLength(12);
+    expect(new Set(first.map((c) => JSON.stringify(c))).size).toBe(12);
+    expect(buildCandidates(config)).toEqual(first);
+  });
+
+  it('rejects an empty parameter space', () => {
+    expect(() =>
+      buildCandidates({ base: baseConfig(), space: {}, method: 'grid', objective: 'sharpe' }),
+    ).toThrow('Parameter space is empty');
+  });
+});
+
+describe('splitWalkForward', () => {
+  it('tiles out-of-sample blocks to the end of the range', () => {
+    const windows = splitWalkForward('2024-01-01', '2024-12-31', { windows: 3, inSamplePct: 0.75 });
+
+    expect(windows).toHaveLength(3);
+    expect(windows[0].inSample.startDate).toBe('2024-01-01');
+    expect(windows[2].outOfSample.endDate).toBe('2024-12-31');
+    for (let k = 1; k < windows.length; k++) {
+      const prevEnd = new Date(windows[k - 1].outOfSample.endDate);
+      prevEnd.setUTCDate(prevEnd.getUTCDate() + 1);
+      expect(windows[k].outOfSample.startDate).toBe(prevEnd.toISOString().slice(0, 10));
+    }
+  });
+
+  it('rejects ranges too short for the requested windows', () => {
+    expect(() =>
+      splitWalkForward('2024-01-01', '2024-01-05', { windows: 10, inSamplePct: 0.9 }),
+    ).toThrow('Date range too short');
+  });
+});
+
+describe('scoreMetrics', () => {
+  it('reads the objective metric', () => {
+    expect(scoreMetrics(metrics(), 'calmar')).toBe(2);
+    expect(scoreMetrics(metrics(), 'profitFactor')).toBe(2.25);
+  });
+
+  it('leaves runs with too few trades unscored', () => {
+    expect(scoreMetrics(metrics({ totalTrades: 3 }), 'sharpe', 5)).toBeNull();
+    expect(scoreMetrics(metrics({ sqn: null }), 'sqn')).toBeNull();
+  });
+});
+
+describe('BacktestOptimizer', () => {
+  it('runs every candidate on one data load and picks the best score', async () => {
+    const loader = createMockDataLoader(
+      new Map([['AAPL', generateData('2024-06-01', 70, choppyUptrend)]]),
+    );
+    const optimizer = new BacktestOptimizer({ dataLoader: loader, engineFactory, persist: false });
+
+    const result = await optimizer.run({
+      base: baseConfig(),
+      space: { stopLossPct: [0.02, 0.1] },
+      method: 'grid',
+      objective: 'profitFactor',
+    });
+
+    expect(loader.loadMultiple).toHaveBeenCalledTimes(1);
+    expect(result.trials).toHaveLength(2);
+    expect(result.runId).toBeNull();
+    const best = Math.max(...result.trials.map((t) => t.score ?? Number.NEGATIVE_INFINITY));
+    expect(result.bestScore).toBe(best);
+    expect(result.trials.find((t) => t.score === best)?.params).toEqual(result.bestParams);
+  });
+
+  it('scores each window winner out-of-sample in walk-forward mode', async () => {
+    const loader = createMockDataLoader(
+      new Map([['AAPL', generateData('2024-06-01', 70, choppyUptrend)]]),
+    );
+    const optimizer = new BacktestOptimizer({ dataLoader: loader, engineFactory, persist: false });
+
+    const result = await optimizer.run({
+      base: baseConfig(),
+      space: { stopLossPct: [0.02, 0.1] },
+      method: 'grid',
+      objective: 'sharpe',
+      walkForward: { windows: 2, inSamplePct: 0.7 },
+    });
+
+    expect(result.windows).toHaveLength(2);
+    expect(result.trials.filter((t) => t.window === 1)).toHaveLength(2);
+    const latest = result.windows?.[1];
+    expect(result.bestParams).toEqual(latest?.bestParams);
+    expect(latest?.outOfSampleMetrics?.totalTrades).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('exportOptimizationProfile', () => {
+  function seedRun(bestParams: unknown) {
+    return insertOptimizationRun({
+      method: 'grid',
+      objective: 'sharpe',
+      symbols: ['AAPL'],
+      startDate: '2024-01-01',
+      endDate: '2024-06-30',
+      baseConfig: baseConfig(),
+      parameterSpace: {},
+      trials: [],
+      bestParams,
+      bestScore: 1.4,
+    });
+  }
+
+  it('maps tuned parameters onto live config keys', () => {
+    expect(
+      paramsToProfileConfig({ maxPositions: 4, stopLossPct: 0.04, entryThreshold: 0.7 }),
+    ).toEqual({
+      config: { 'risk.maxPositions': 4, 'risk.maxStopLossPct': 0.04 },
+      backtestOnly: { entryThreshold: 0.7 },
+    });
+  });
+
+  it('saves the best parameter set as an inactive strategy profile', () => {
+    const db = createDatabase();
+    withDatabase(db, () => {
+      const runId = seedRun({ stopLossPct: 0.04, roiTable: { '0': 0.05 }, trailingStop: true });
+
+      const { config } = exportOptimizationProfile(runId, 'Hyperopt-1');
+
+      expect(config).toEqual({
+        'risk.maxStopLossPct': 0.04,
+        'exit.roiEnabled': true,
+        'exit.roiTable': { '0': 0.05 },
+      });
+      const profile = getProfileByName('Hyperopt-1');
+      expect(profile?.active).toBe(false);
+      expect(profile?.description).toContain('"trailingStop":true');
+      expect(getOptimizationRun(runId)?.exportedProfile).toBe('Hyperopt-1');
+      expect(() => exportOptimizationProfile(runId, 'Hyperopt-1')).toThrow('already exists');
+    });
+  });
+
+  it('refuses runs without a scored parameter set', () => {
+    const db = createDatabase();
+    withDatabase(db, () => {
+      const runId = seedRun(null);
+      expect(() => exportOptimizationProfile(runId, 'Empty')).toThrow('no scored parameter set');
+    });
+  });
+});
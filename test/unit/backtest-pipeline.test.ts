@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestConfig, Candle } from '../../src/backtest/types.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { BacktestDataLoader } from '../../src/backtest/data-loader.js';
+import { PipelineBacktestEngine } from '../../src/backtest/pipeline-engine.js';
+import { SimulationContext } from '../../src/backtest/simulation.js';
+import { getDb } from '../../src/db/index.js';
+import { trades } from '../../src/db/schema.js';
+import { currentTimeMs } from '../../src/utils/clock.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** Weekday candles starting 300 calendar days before `backtestStart`. */
+function generateData(backtestStart: string, days: number, closeAt: (i: number) => number): Candle[] {
+  const candles: Candle[] = [];
+  const date = new Date(backtestStart);
+  date.setDate(date.getDate() - 300);
+  let i = 0;
+  while (candles.length < 300 + days) {
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      const close = closeAt(i++);
+      candles.push({
+        date: date.toISOString().split('T')[0],
+        open: close - 0.1,
+        high: close + 1,
+        low: close - 1,
+        close,
+        volume: 1_000_000,
+      });
+    }
+    date.setDate(date.getDate() + 1);
+  }
+  return candles;
+}
+
+function createMockDataLoader(data: Map<string, Candle[]>): BacktestDataLoader {
+  const loader = new BacktestDataLoader();
+  loader.loadMultiple = vi.fn(async (symbols: string[]) => {
+    const result = new Map<string, Candle[]>();
+    for (const symbol of symbols) {
+      const candles = data.get(symbol);
+      if (candles) result.set(symbol, candles);
+    }
+    return result;
+  });
+  return loader;
+}
+
+function defaultConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    symbols: ['AAPL'],
+    startDate: '2024-06-01',
+    endDate: '2024-09-01',
+    initialCapital: 10000,
+    maxPositions: 5,
+    maxPositionSizePct: 0.15,
+    stopLossPct: 0.05,
+    trailingStop: false,
+    commission: 0,
+    entryThreshold: 0.6,
+    mode: 'pipeline',
+    ...overrides,
+  };
+}
+
+/** Flat price with a single 10% dip a few weeks into the backtest window. */
+const dipOnce = (i: number) => (i >= 230 && i < 235 ? 90 : 100);
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('SimulationContext', () => {
+  it('rejects invalid config overrides', () => {
+    expect(() => new SimulationContext({ 'risk.maxPositions': -1 })).toThrow(
+      'Invalid value for config key "risk.maxPositions"',
+    );
+  });
+
+  it('scopes the scratch database and clock to the callback', () => {
+    const sim = new SimulationContext({ 'risk.maxPositions': 2 });
+    sim.setTime('2024-06-03T20:00:00.000Z');
+
+    const inside = sim.run(() => ({ db: getDb(), now: currentTimeMs() }));
+    expect(inside.db).toBe(sim.db);
+    expect(inside.now).toBe(Date.parse('2024-06-03T20:00:00.000Z'));
+    expect(sim.get<number>('risk.maxPositions')).toBe(2);
+    expect(() => getDb()).toThrow('Database not initialized');
+  });
+});
+
+describe('PipelineBacktestEngine', () => {
+  it('trades through the live modules and records fills in the scratch ledger', async () => {
+    const data = new Map([['AAPL', generateData('2024-06-01', 70, (i) => 100 + i * 0.2)]]);
+    const sim = new SimulationContext();
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig(),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+      simulation: sim,
+    });
+
+    const result = await engine.run();
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(result.pipeline).toBeDefined();
+    const sells = sim.run(() => sim.db.select().from(trades).all()).filter((t) => t.side === 'SELL');
+    expect(sells.length).toBe(result.trades.length);
+  });
+
+  it('blocks entries the risk guard would reject under a config override', async () => {
+    const data = new Map([['AAPL', generateData('2024-06-01', 70, () => 100)]]);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({ configOverrides: { 'risk.maxRiskPerTradePct': 0.001 } }),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+    });
+
+    const result = await engine.run();
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.pipeline?.rejectionsByStage.risk_guard).toBeGreaterThan(0);
+    expect(result.pipeline?.rejections[0].reason).toContain('Trade risk');
+  });
+
+  it('applies protection locks in simulated time after a stop-loss', async () => {
+    const data = new Map([['AAPL', generateData('2024-06-01', 70, dipOnce)]]);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({ configOverrides: { 'protection.cooldownMinutes': 10080 } }),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+    });
+
+    const result = await engine.run();
+
+    expect(result.trades.some((t) => t.exitReason === 'stoploss')).toBe(true);
+    expect(result.pipeline?.rejectionsByStage.protection).toBeGreaterThan(0);
+    expect(result.pipeline?.rejections.find((r) => r.stage === 'protection')?.reason).toBe(
+      'cooldown',
+    );
+  });
+
+  it('closes positions on exit-condition DSL triggers', async () => {
+    const data = new Map([['AAPL', generateData('2024-06-01', 70, () => 100)]]);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({ exitConditions: 'hold for 5 days' }),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+    });
+
+    const result = await engine.run();
+
+    expect(result.pipeline?.conditionExits).toBeGreaterThan(0);
+    expect(result.trades[0].exitReason).toBe('exit_condition: Days held > 5');
+  });
+
+  it('takes partial profits through PartialExitManager', async () => {
+    const data = new Map([['AAPL', generateData('2024-06-01', 70, (i) => 100 + i)]]);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({
+        maxPositionSizePct: 0.5,
+        configOverrides: {
+          'risk.maxRiskPerTradePct': 0.05,
+          'partialExit.enabled': true,
+          'partialExit.tiers': [{ pctGain: 0.02, sellPct: 0.5 }],
+        },
+      }),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+    });
+
+    const result = await engine.run();
+
+    expect(result.pipeline?.partialExits).toBe(1);
+    expect(result.trades.some((t) => t.exitReason === 'partial_exit')).toBe(true);
+  });
+
+  it('scales into losers through DCAManager', async () => {
+    const data = new Map([
+      ['AAPL', generateData('2024-06-01', 70, (i) => (i < 220 ? 100 : 100 - (i - 220) * 0.5))],
+    ]);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({
+        stopLossPct: 0.3,
+        maxPositionSizePct: 0.05,
+        configOverrides: { 'dca.enabled': true, 'dca.dropPctPerRound': 0.03 },
+      }),
+      scoreFn: () => 80,
+      dataLoader: createMockDataLoader(data),
+    });
+
+    const result = await engine.run();
+
+    expect(result.pipeline?.dcaFills).toBeGreaterThan(0);
+  });
+
+  it('raises the entry threshold in a down-trending regime', async () => {
+    const data = new Map([
+      ['AAPL', generateData('2024-06-01', 70, () => 100)],
+      ['SPY', generateData('2024-06-01', 70, (i) => 500 * 0.997 ** i)],
+    ]);
+    const loader = createMockDataLoader(data);
+    const engine = new PipelineBacktestEngine({
+      config: defaultConfig({ configOverrides: { 'regime.enabled': true } }),
+      scoreFn: () => 65,
+      dataLoader: loader,
+    });
+
+    // Only AAPL is traded; SPY is fetched separately as the regime benchmark
+    const result = await engine.run();
+
+    expect(loader.loadMultiple).toHaveBeenCalledWith(['SPY'], '2024-06-01', '2024-09-01');
+    expect(result.pipeline?.regimeDays.trending_down).toBeGreaterThan(0);
+    expect(result.trades).toHaveLength(0);
+    expect(result.pipeline?.rejectionsByStage.regime).toBeGreaterThan(0);
+  });
+});
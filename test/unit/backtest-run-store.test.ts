@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestMetrics, BacktestResult } from '../../src/backtest/types.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { computeMonthlyReturns, generateHtmlReport } from '../../src/backtest/html-report.js';
+import { compareResults, generateComparisonSummary } from '../../src/backtest/reporter.js';
+import {
+  compareBacktestRuns,
+  getCodeVersion,
+  hashBacktestConfig,
+  loadBacktestRun,
+  saveBacktestRun,
+} from '../../src/backtest/run-store.js';
+import { createDatabase, withDatabase } from '../../src/db/index.js';
+import { deleteBacktestRun, listBacktestRuns } from '../../src/db/repositories/backtest-runs.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function metrics(overrides: Partial<BacktestMetrics> = {}): BacktestMetrics {
+  return {
+    totalTrades: 4,
+    winCount: 2,
+    lossCount: 2,
+    winRate: 0.5,
+    totalPnl: 200,
+    totalPnlPct: 0.02,
+    avgWin: 150,
+    avgLoss: -50,
+    maxDrawdown: 300,
+    maxDrawdownPct: 0.03,
+    currentDrawdown: 0,
+    sharpeRatio: 1.2,
+    sortinoRatio: 1.5,
+    calmarRatio: 0.8,
+    sqn: 1.1,
+    expectancy: 50,
+    profitFactor: 1.6,
+    avgHoldMinutes: 2880,
+    bestTrade: { symbol: 'AAPL', pnlPct: 0.05 },
+    worstTrade: { symbol: 'MSFT', pnlPct: -0.02 },
+    finalEquity: 10200,
+    returnPct: 0.02,
+    ...overrides,
+  };
+}
+
+function result(overrides: Partial<BacktestResult> = {}): BacktestResult {
+  return {
+    config: {
+      symbols: ['AAPL', 'MSFT'],
+      startDate: '2024-01-01',
+      endDate: '2024-03-31',
+      initialCapital: 10000,
+      maxPositions: 5,
+      maxPositionSizePct: 0.15,
+      stopLossPct: 0.05,
+      trailingStop: false,
+      commission: 0,
+      entryThreshold: 0.6,
+    },
+    trades: [
+      {
+        symbol: 'AAPL',
+        side: 'SELL',
+        entryPrice: 100,
+        exitPrice: 105,
+        shares: 10,
+        entryTime: '2024-01-10',
+        exitTime: '2024-01-20',
+        pnl: 50,
+        pnlPct: 0.05,
+        exitReason: '<script>alert(1)</script>',
+        holdMinutes: 14400,
+        technicalScore: 0.7,
+      },
+    ],
+    metrics: metrics(),
+    equityCurve: [
+      { date: '2024-01-02', equity: 10000 },
+      { date: '2024-01-31', equity: 10500 },
+      { date: '2024-02-29', equity: 9975 },
+      { date: '2024-03-28', equity: 10200 },
+    ],
+    dailyReturns: [0.05, -0.05, 0.023],
+    ...overrides,
+  };
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('hashBacktestConfig', () => {
+  it('ignores key order and undefined fields but not values', () => {
+    const { config } = result();
+    const reordered = Object.fromEntries(Object.entries(config).reverse()) as typeof config;
+
+    expect(hashBacktestConfig(reordered)).toBe(hashBacktestConfig(config));
+    expect(hashBacktestConfig({ ...config, takeProfitPct: undefined })).toBe(
+      hashBacktestConfig(config),
+    );
+    expect(hashBacktestConfig({ ...config, stopLossPct: 0.06 })).not.toBe(
+      hashBacktestConfig(config),
+    );
+    expect(hashBacktestConfig(config)).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('backtest run store', () => {
+  it('saves a run with provenance and loads it back', () => {
+    const db = createDatabase();
+    const original = result();
+
+    const { info, loaded, listed } = withDatabase(db, () => {
+      const info = saveBacktestRun(original, 'baseline');
+      return { info, loaded: loadBacktestRun(info.id), listed: listBacktestRuns() };
+    });
+
+    expect(info.label).toBe('baseline');
+    expect(info.configHash).toBe(hashBacktestConfig(original.config));
+    expect(info.codeVersion).toBe(getCodeVersion());
+    expect(info.dataStart).toBe('2024-01-02');
+    expect(info.dataEnd).toBe('2024-03-28');
+
+    expect(loaded?.result).toEqual(original);
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).not.toHaveProperty('result');
+  });
+
+  it('filters the list by config hash and deletes runs', () => {
+    const db = createDatabase();
+    const a = result();
+    const b = result({ config: { ...a.config, stopLossPct: 0.08 } });
+
+    withDatabase(db, () => {
+      saveBacktestRun(a);
+      const second = saveBacktestRun(b);
+
+      expect(listBacktestRuns(50, hashBacktestConfig(b.config)).map((r) => r.id)).toEqual([
+        second.id,
+      ]);
+      expect(deleteBacktestRun(second.id)).toBe(true);
+      expect(deleteBacktestRun(second.id)).toBe(false);
+      expect(listBacktestRuns()).toHaveLength(1);
+    });
+  });
+
+  it('compares two stored runs and returns null when one is missing', () => {
+    const db = createDatabase();
+
+    withDatabase(db, () => {
+      const a = saveBacktestRun(result());
+      const b = saveBacktestRun(result({ metrics: metrics({ sharpeRatio: 1.5 }) }));
+
+      const diff = compareBacktestRuns(a.id, b.id);
+      expect(diff?.a.id).toBe(a.id);
+      expect(diff?.comparison.metrics.find((m) => m.metric === 'sharpeRatio')?.delta).toBe(0.3);
+      expect(compareBacktestRuns(a.id, 9999)).toBeNull();
+    });
+  });
+});
+
+describe('compareResults', () => {
+  it('diffs metrics with the right better-direction', () => {
+    const a = result();
+    const b = result({
+      metrics: metrics({ sharpeRatio: 1.0, maxDrawdownPct: 0.02, totalTrades: 6, sqn: null }),
+    });
+
+    const { metrics: diffs } = compareResults(a, b);
+    const byName = new Map(diffs.map((d) => [d.metric, d]));
+
+    expect(byName.get('sharpeRatio')).toMatchObject({ delta: -0.2, improved: false });
+    expect(byName.get('maxDrawdownPct')).toMatchObject({ delta: -0.01, improved: true });
+    expect(byName.get('totalTrades')).toMatchObject({ delta: 2, improved: null });
+    expect(byName.get('sqn')).toMatchObject({ a: 1.1, b: null, delta: null, improved: null });
+    expect(byName.get('returnPct')).toMatchObject({ delta: 0, improved: null });
+  });
+
+  it('lists changed config keys', () => {
+    const a = result();
+    const b = result({ config: { ...a.config, stopLossPct: 0.08, takeProfitPct: 0.1 } });
+
+    const comparison = compareResults(a, b);
+
+    expect(comparison.sameConfig).toBe(false);
+    expect(comparison.configChanges).toEqual([
+      { key: 'stopLossPct', a: 0.05, b: 0.08 },
+      { key: 'takeProfitPct', a: undefined, b: 0.1 },
+    ]);
+    expect(generateComparisonSummary(comparison)).toContain('stopLossPct: 0.05 -> 0.08');
+    expect(compareResults(a, a).sameConfig).toBe(true);
+  });
+});
+
+describe('HTML report', () => {
+  it('computes monthly returns chained from the previous month end', () => {
+    const { equityCurve } = result();
+
+    expect(computeMonthlyReturns(equityCurve, 10000)).toEqual([
+      { month: '2024-01', returnPct: 0.05 },
+      { month: '2024-02', returnPct: -0.05 },
+      { month: '2024-03', returnPct: 0.0226 },
+    ]);
+  });
+
+  it('renders a self-contained page with every section and escaped text', () => {
+    const html = generateHtmlReport(result(), {
+      id: 7,
+      label: 'tight stops',
+      configHash: 'abc123',
+      codeVersion: '1.0.0+deadbee',
+      dataStart: '2024-01-02',
+      dataEnd: '2024-03-28',
+      createdAt: '2024-04-01T00:00:00.000Z',
+    });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Backtest #7: tight stops');
+    for (const section of ['Equity Curve', 'Drawdown', 'Monthly Returns', 'Trades (1)']) {
+      expect(html).toContain(section);
+    }
+    expect(html).toContain('1.0.0+deadbee');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    // Nothing loaded from the network
+    expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+  });
+});
@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppDatabase } from '../../src/db/index.js';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const mockConfig: Record<string, unknown> = {};
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn((key: string) => mockConfig[key]),
+  },
+}));
+
+// Route the repositories to a fresh in-memory database per test
+let testDb: AppDatabase;
+vi.mock('../../src/db/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/db/index.js')>();
+  return { ...actual, getDb: () => testDb };
+});
+
+import { BacktestDataLoader } from '../../src/backtest/data-loader.js';
+import { CandleStore } from '../../src/data/candle-store.js';
+import type { OHLCVCandle, YahooFinanceClient } from '../../src/data/yahoo-finance.js';
+import { createDatabase } from '../../src/db/index.js';
+import { getCandles } from '../../src/db/repositories/candles.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function bar(date: string, close: number): OHLCVCandle {
+  return { date, open: close, high: close + 1, low: close - 1, close, volume: 1000 };
+}
+
+function createStore(history: OHLCVCandle[] = []) {
+  const getHistoricalData = vi.fn(async (_symbol: string, _days?: number) => history);
+  const yahoo = { getHistoricalData } as unknown as YahooFinanceClient;
+  return { store: new CandleStore(yahoo), getHistoricalData };
+}
+
+const JUNE_WEEK = ['2024-06-10', '2024-06-11', '2024-06-12', '2024-06-13', '2024-06-14'];
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('CandleStore', () => {
+  beforeEach(() => {
+    testDb = createDatabase();
+    mockConfig['data.candleStore.offline'] = false;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-15T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('import', () => {
+    it('imports CSV with flags and skips malformed rows', () => {
+      const { store } = createStore();
+      const csv = [
+        'Date,Open,High,Low,Close,Adj Close,Volume',
+        '2024-06-10,100,101,99,100.5,99.5,1200',
+        '2024-06-11,101,102,100,101.5,100.5,1300',
+        '2024-06-12,bad,102,100,101,,0',
+      ].join('\n');
+
+      const result = store.importText(csv, 'csv', { symbol: 'aapl', splitAdjusted: true });
+
+      expect(result).toEqual({ imported: 2, skipped: 1, symbols: ['AAPL'] });
+      const rows = getCandles('AAPL');
+      expect(rows[0]).toMatchObject({
+        timestamp: '2024-06-10',
+        adjClose: 99.5,
+        splitAdjusted: true,
+        dividendAdjusted: false,
+        source: 'import',
+      });
+    });
+
+    it('imports columnar JSON with a ticker column', () => {
+      const { store } = createStore();
+      const columnar = {
+        ticker: ['MSFT', 'MSFT'],
+        date: ['2024-06-10', '2024-06-11'],
+        open: [400, 401],
+        high: [402, 403],
+        low: [399, 400],
+        close: [401, 402],
+        volume: [10, 20],
+      };
+
+      const result = store.importText(JSON.stringify(columnar), 'json');
+
+      expect(result.imported).toBe(2);
+      expect(store.getCandles('MSFT').map((c) => c.close)).toEqual([401, 402]);
+    });
+
+    it('keeps full timestamps for intraday JSONL bars', () => {
+      const { store } = createStore();
+      const jsonl = [
+        { t: 1718026200, o: 1, h: 2, l: 0.5, c: 1.5 },
+        { timestamp: 1718026200, open: 1, high: 2, low: 0.5, close: 1.5 },
+      ]
+        .map((r) => JSON.stringify(r))
+        .join('\n');
+
+      const result = store.importText(jsonl, 'jsonl', { symbol: 'SPY', timeframe: '5m' });
+
+      // The first row uses unknown column names and is skipped
+      expect(result).toMatchObject({ imported: 1, skipped: 1 });
+      expect(getCandles('SPY', '5m')[0].timestamp).toBe('2024-06-10T13:30:00.000Z');
+    });
+
+    it('requires a symbol', () => {
+      const { store } = createStore();
+      expect(() => store.importText('date,open,high,low,close\n2024-06-10,1,1,1,1', 'csv')).toThrow(
+        'Candle import needs a symbol',
+      );
+    });
+
+    it('rejects unsupported file extensions', () => {
+      const { store } = createStore();
+      expect(() => store.importFile('/tmp/bars.parquet', { symbol: 'AAPL' })).toThrow(
+        'Unsupported candle file format: .parquet',
+      );
+    });
+  });
+
+  it('applies dividend adjustment from adjClose on request', () => {
+    const { store } = createStore();
+    store.importRows([{ date: '2024-06-10', open: 100, high: 110, low: 90, close: 100, adjClose: 98 }], {
+      symbol: 'AAPL',
+    });
+
+    expect(store.getCandles('AAPL')[0].close).toBe(100);
+    const [adjusted] = store.getCandles('AAPL', undefined, undefined, { adjustDividends: true });
+    expect(adjusted.close).toBeCloseTo(98);
+    expect(adjusted.high).toBeCloseTo(107.8);
+  });
+
+  it('reports missing sessions, ignoring weekends and NYSE holidays', () => {
+    const { store } = createStore();
+    store.importRows(
+      ['2024-06-10', '2024-06-13', '2024-06-14', '2024-06-17', '2024-06-18', '2024-06-20'].map(
+        (date) => ({ date, open: 1, high: 1, low: 1, close: 1 }),
+      ),
+      { symbol: 'AAPL' },
+    );
+
+    // 2024-06-19 is Juneteenth
+    expect(store.findGaps('AAPL', '2024-06-10', '2024-06-21')).toEqual([
+      { from: '2024-06-11', to: '2024-06-12', missingDays: 2 },
+      { from: '2024-06-21', to: '2024-06-21', missingDays: 1 },
+    ]);
+  });
+
+  it('reports gaps against the calendar of the symbol\'s exchange', () => {
+    const { store } = createStore();
+    for (const symbol of ['AAPL', 'VOD.L']) {
+      store.importRows(
+        ['2024-03-28', '2024-04-02'].map((date) => ({ date, open: 1, high: 1, low: 1, close: 1 })),
+        { symbol },
+      );
+    }
+
+    // Good Friday closes both; Easter Monday only closes London
+    expect(store.findGaps('AAPL', '2024-03-28', '2024-04-02')).toEqual([
+      { from: '2024-04-01', to: '2024-04-01', missingDays: 1 },
+    ]);
+    expect(store.findGaps('VOD.L', '2024-03-28', '2024-04-02')).toEqual([]);
+  });
+
+  describe('topUp', () => {
+    it('backfills an empty store', async () => {
+      const { store, getHistoricalData } = createStore(JUNE_WEEK.map((d) => bar(d, 100)));
+
+      const result = await store.topUp('AAPL', '2024-06-10');
+
+      expect(result).toMatchObject({ mode: 'backfill', stored: 5 });
+      expect(getHistoricalData).toHaveBeenCalledWith('AAPL', 6);
+      expect(getCandles('AAPL')[0]).toMatchObject({ source: 'yahoo', splitAdjusted: true });
+    });
+
+    it('fetches only recent bars once history is stored', async () => {
+      const { store, getHistoricalData } = createStore(JUNE_WEEK.map((d) => bar(d, 100)));
+      await store.topUp('AAPL', '2024-06-10');
+      getHistoricalData.mockResolvedValue([bar('2024-06-14', 100), bar('2024-06-17', 101)]);
+      vi.setSystemTime(new Date('2024-06-18T12:00:00.000Z'));
+
+      const result = await store.topUp('AAPL', '2024-06-10');
+
+      expect(result.mode).toBe('incremental');
+      expect(getHistoricalData).toHaveBeenLastCalledWith('AAPL', 5 + 7);
+      expect(getCandles('AAPL')).toHaveLength(6);
+    });
+
+    it('refetches everything when the source re-adjusted history', async () => {
+      const { store, getHistoricalData } = createStore(JUNE_WEEK.map((d) => bar(d, 100)));
+      await store.topUp('AAPL', '2024-06-10');
+      // A 2:1 split halves every historical price
+      const split = [...JUNE_WEEK, '2024-06-17'].map((d) => bar(d, 50));
+      getHistoricalData.mockResolvedValue(split);
+      vi.setSystemTime(new Date('2024-06-18T12:00:00.000Z'));
+
+      const result = await store.topUp('AAPL', '2024-06-10');
+
+      expect(result.mode).toBe('readjusted');
+      expect(getHistoricalData).toHaveBeenCalledTimes(3);
+      expect(store.getCandles('AAPL').every((c) => c.close === 50)).toBe(true);
+    });
+  });
+
+  describe('load', () => {
+    it('never touches the network in offline mode', async () => {
+      mockConfig['data.candleStore.offline'] = true;
+      const { store, getHistoricalData } = createStore(JUNE_WEEK.map((d) => bar(d, 100)));
+
+      expect(await store.load('AAPL', '2024-06-10', '2024-06-14')).toEqual([]);
+      expect(getHistoricalData).not.toHaveBeenCalled();
+    });
+
+    it('skips the top-up when stored bars already cover the range', async () => {
+      const { store, getHistoricalData } = createStore();
+      store.importRows(
+        JUNE_WEEK.map((date) => ({ date, open: 1, high: 1, low: 1, close: 1 })),
+        { symbol: 'AAPL' },
+      );
+
+      const candles = await store.load('AAPL', '2024-06-10', '2024-06-14');
+
+      expect(candles).toHaveLength(5);
+      expect(getHistoricalData).not.toHaveBeenCalled();
+    });
+
+    it('does not backfill again when the source has no earlier history', async () => {
+      // Listed mid-week: nothing exists before 2024-06-12
+      const { store, getHistoricalData } = createStore(JUNE_WEEK.slice(2).map((d) => bar(d, 100)));
+
+      await store.load('NEWCO', '2024-06-03', '2024-06-14');
+      const candles = await store.load('NEWCO', '2024-06-03', '2024-06-14');
+
+      expect(candles).toHaveLength(3);
+      expect(getHistoricalData).toHaveBeenCalledTimes(1);
+
+      // Asking for an earlier start than the source was asked for backfills again
+      await store.load('NEWCO', '2024-05-01', '2024-06-14');
+      expect(getHistoricalData).toHaveBeenCalledTimes(2);
+    });
+
+    it('feeds BacktestDataLoader when passed in', async () => {
+      const { store } = createStore();
+      store.importRows(
+        JUNE_WEEK.map((date) => ({ date, open: 1, high: 1, low: 1, close: 1 })),
+        { symbol: 'AAPL' },
+      );
+      mockConfig['data.candleStore.offline'] = true;
+
+      const loader = new BacktestDataLoader({} as YahooFinanceClient, store);
+      const candles = await loader.loadOHLCV('AAPL', '2024-06-11', '2024-06-13');
+
+      expect(candles.map((c) => c.date)).toEqual(['2024-06-10', '2024-06-11', '2024-06-12', '2024-06-13']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../../src/data/yahoo-finance.js', () => ({
+  YahooFinanceClient: class {},
+}));
+
+import { FxRateService } from '../../src/data/fx-rates.js';
+import { accountValue, normalizeCurrency, splitPnl } from '../../src/utils/currency.js';
+
+describe('currency', () => {
+  it('normalizes minor-unit currencies', () => {
+    expect(normalizeCurrency('GBX')).toEqual({ currency: 'GBP', unit: 0.01 });
+    expect(normalizeCurrency('EUR')).toEqual({ currency: 'EUR', unit: 1 });
+    expect(normalizeCurrency(undefined)).toEqual({ currency: 'USD', unit: 1 });
+  });
+
+  describe('splitPnl', () => {
+    it('is all price P&L when rates are unchanged', () => {
+      expect(splitPnl(10, 100, 110)).toEqual({ pnl: 100, pricePnl: 100, fxPnl: 0 });
+    });
+
+    it('separates the exchange-rate move from the price move', () => {
+      // 100 shares bought at €50 with EURUSD 1.10, now €55 with EURUSD 1.00
+      const result = splitPnl(100, 50, 55, 1.1, 1.0);
+
+      expect(result.pricePnl).toBeCloseTo(550);
+      expect(result.fxPnl).toBeCloseTo(-550);
+      expect(result.pnl).toBeCloseTo(55 * 100 * 1.0 - 50 * 100 * 1.1);
+    });
+  });
+
+  it('values positions in account currency', () => {
+    // 10 shares at 250p with GBPUSD 1.25
+    expect(
+      accountValue({ shares: 10, entryPrice: 200, currentPrice: 250, currentFxRate: 0.0125 }),
+    ).toBeCloseTo(31.25);
+    expect(accountValue({ shares: 10, entryPrice: 200 })).toBe(2000);
+  });
+
+  describe('FxRateService', () => {
+    it('folds pence into the rate and caches pairs', async () => {
+      const fetchRate = vi.fn().mockResolvedValue(1.25);
+      const service = new FxRateService(fetchRate);
+
+      expect(await service.getRate('GBX', 'USD')).toBeCloseTo(0.0125);
+      expect(await service.getRate('GBP', 'USD')).toBeCloseTo(1.25);
+      expect(fetchRate).toHaveBeenCalledTimes(1);
+      expect(fetchRate).toHaveBeenCalledWith('GBPUSD=X');
+    });
+
+    it('needs no lookup within the same currency', async () => {
+      const fetchRate = vi.fn();
+      const service = new FxRateService(fetchRate);
+
+      expect(await service.getRate('USD', 'USD')).toBe(1);
+      expect(await service.getRate('GBX', 'GBP')).toBe(0.01);
+      expect(fetchRate).not.toHaveBeenCalled();
+    });
+
+    it('returns null when the rate is unavailable', async () => {
+      const service = new FxRateService(vi.fn().mockResolvedValue(null));
+      expect(await service.getRate('EUR', 'USD')).toBeNull();
+    });
+  });
+});
@@ -2,10 +2,15 @@ import { describe, expect, it, vi, beforeEach } from 'vitest';
 
 // Mock better-sqlite3 before importing the module under test
 const mockExec = vi.fn();
-const mockPragma = vi.fn();
+const mockPragma = vi.fn((pragma: string): unknown =>
+  pragma.startsWith('table_info') ? [] : undefined,
+);
+const mockTableSql = vi.fn((): { sql: string } | undefined => undefined);
 const mockSqliteInstance = {
   exec: mockExec,
   pragma: mockPragma,
+  prepare: vi.fn(() => ({ get: mockTableSql })),
+  transaction: vi.fn((fn: () => void) => fn),
 };
 const MockDatabase = vi.fn(function () { return mockSqliteInstance; });
 
@@ -109,6 +114,26 @@ describe('db/index', () => {
     expect(mockDrizzle).toHaveBeenCalledWith(mockSqliteInstance, expect.objectContaining({ schema: expect.any(Object) }));
   });
 
+  it('createDatabase opens a standalone database without replacing getDb()', async () => {
+    const mod = await import('../../src/db/index.js');
+    const standalone = mod.createDatabase();
+    expect(MockDatabase).toHaveBeenCalledWith(':memory:');
+    expect(mockExec).toHaveBeenCalledTimes(1);
+    expect(standalone).toBe('mock-drizzle-db');
+    expect(() => mod.getDb()).toThrow('Database not initialized');
+  });
+
+  it('withDatabase swaps getDb() only for the duration of the callback', async () => {
+    const mod = await import('../../src/db/index.js');
+    mod.initDatabase('/tmp/test.db');
+    const other = 'other-db' as unknown as ReturnType<typeof mod.getDb>;
+
+    const inside = mod.withDatabase(other, () => mod.getDb());
+
+    expect(inside).toBe('other-db');
+    expect(mod.getDb()).toBe('mock-drizzle-db');
+  });
+
   it('creates indexes for price_cache, news_cache, earnings, insider, fundamental, trade_plans, ai_research, model_performance, and audit_log', async () => {
     const mod = await import('../../src/db/index.js');
     mod.initDatabase('/tmp/test.db');
@@ -123,4 +148,50 @@ describe('db/index', () => {
     expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_model_perf');
     expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_audit_ts');
   });
+
+  it('adds columns released after a table was created to existing databases', async () => {
+    mockPragma.mockImplementation((pragma: string) =>
+      pragma === 'table_info(positions)' ? [{ name: 'id' }, { name: 'symbol' }] : [],
+    );
+    const mod = await import('../../src/db/index.js');
+    mod.initDatabase('/tmp/test.db');
+
+    const statements = mockExec.mock.calls.slice(1).map((c) => c[0] as string);
+    expect(statements).toContain('ALTER TABLE positions ADD COLUMN currency TEXT');
+    expect(statements).toContain('ALTER TABLE positions ADD COLUMN entryFxRate REAL');
+    expect(statements.every((sql) => sql.startsWith('ALTER TABLE positions'))).toBe(true);
+    mockPragma.mockImplementation((pragma: string) =>
+      pragma.startsWith('table_info') ? [] : undefined,
+    );
+  });
+
+  it('rebuilds a positions table that is unique per symbol', async () => {
+    mockTableSql.mockReturnValueOnce({
+      sql: 'CREATE TABLE positions (id INTEGER PRIMARY KEY, symbol TEXT NOT NULL UNIQUE, accountType TEXT)',
+    });
+    const mod = await import('../../src/db/index.js');
+    mod.initDatabase('/tmp/test.db');
+
+    const statements = mockExec.mock.calls.map((c) => c[0] as string);
+    expect(statements.slice(0, 4)).toEqual([
+      'ALTER TABLE positions RENAME TO positions_old',
+      'CREATE TABLE positions (id INTEGER PRIMARY KEY, symbol TEXT NOT NULL, accountType TEXT)',
+      'INSERT INTO positions SELECT * FROM positions_old',
+      'DROP TABLE positions_old',
+    ]);
+    expect(statements[4]).toContain(
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_positions_symbol_account ON positions(symbol, accountType)',
+    );
+  });
+
+  it('leaves a positions table that is already unique per account', async () => {
+    mockTableSql.mockReturnValueOnce({
+      sql: 'CREATE TABLE positions (id INTEGER PRIMARY KEY, symbol TEXT NOT NULL, accountType TEXT)',
+    });
+    const mod = await import('../../src/db/index.js');
+    mod.initDatabase('/tmp/test.db');
+
+    const statements = mockExec.mock.calls.map((c) => c[0] as string);
+    expect(statements.some((sql) => sql.includes('positions_old'))).toBe(false);
+  });
 });
@@ -22,6 +22,7 @@ vi.mock('../../src/utils/helpers.js', () => ({
 }));
 
 vi.mock('drizzle-orm', () => ({
+  and: vi.fn((...conditions) => ({ conditions, type: 'and' })),
   eq: vi.fn((field, value) => ({ field, value, type: 'eq' })),
 }));
 
@@ -534,6 +535,40 @@ describe('DCAManager', () => {
       );
     });
 
+    it('should not count dividend reinvestment as a DCA round', async () => {
+      const manager = new DCAManager();
+
+      mockDbInstance.get.mockReturnValue({
+        symbol: 'AAPL',
+        shares: 10,
+        entryPrice: 150,
+        entryTime: new Date().toISOString(),
+        dcaCount: 1,
+        totalInvested: 1500,
+      });
+
+      const { createOrder } = await import('../../src/db/repositories/orders.js');
+      await manager.executeDCA(
+        'AAPL',
+        'AAPL_US_EQ',
+        1,
+        150,
+        'INVEST',
+        undefined,
+        'dividend_reinvest',
+      );
+
+      expect(createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ orderTag: 'dividend_reinvest' }),
+      );
+      expect(mockDbInstance.values).toHaveBeenCalledWith(
+        expect.objectContaining({ aiReasoning: 'Dividend reinvestment', dcaRound: null }),
+      );
+      expect(mockDbInstance.set).toHaveBeenCalledWith(
+        expect.objectContaining({ shares: 11, dcaCount: 1 }),
+      );
+    });
+
     it('should increment DCA count', async () => {
       const manager = new DCAManager();
 
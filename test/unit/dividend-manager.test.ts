@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('drizzle-orm', () => ({
+  and: vi.fn((...conditions) => ({ conditions, type: 'and' })),
+  eq: vi.fn((field, value) => ({ field, value, type: 'eq' })),
+}));
+
+vi.mock('../../src/db/schema.js', () => ({
+  positions: { id: 'id', t212Ticker: 't212Ticker', accountType: 'accountType' },
+}));
+
+let mockDb: any;
+
+vi.mock('../../src/db/index.js', () => ({
+  getDb: () => mockDb,
+}));
+
+vi.mock('../../src/db/repositories/dividends.js', () => ({
+  insertDividend: vi.fn(),
+  getUnreinvestedDividends: vi.fn(() => []),
+  markReinvested: vi.fn(),
+}));
+
+vi.mock('../../src/db/repositories/tax-lots.js', () => ({
+  getLotsBySymbol: vi.fn(async () => []),
+  addLotDividendIncome: vi.fn(async () => {}),
+}));
+
+const mockExecuteDCA = vi.fn();
+
+vi.mock('../../src/execution/dca-manager.js', () => ({
+  getDCAManager: () => ({ executeDCA: mockExecuteDCA }),
+}));
+
+vi.mock('../../src/utils/exchanges.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/exchanges.js')>()),
+  isExchangeOpen: vi.fn(() => true),
+}));
+
+import {
+  getUnreinvestedDividends,
+  insertDividend,
+  markReinvested,
+} from '../../src/db/repositories/dividends.js';
+import { addLotDividendIncome, getLotsBySymbol } from '../../src/db/repositories/tax-lots.js';
+import { DividendManager } from '../../src/execution/dividend-manager.js';
+import { isExchangeOpen } from '../../src/utils/exchanges.js';
+
+function dividend(overrides: Record<string, unknown> = {}) {
+  return {
+    ticker: 'AAPL_US_EQ',
+    paidOn: '2025-05-15T00:00:00.000Z',
+    amount: 2.5,
+    quantity: 10,
+    grossAmountPerShare: 0.25,
+    reference: 'div-1',
+    type: 'ORDINARY',
+    ...overrides,
+  };
+}
+
+function storedRow(input: Record<string, any>, id = 1) {
+  return {
+    id,
+    grossAmountPerShare: null,
+    currency: null,
+    type: null,
+    reinvestedAt: null,
+    createdAt: '2025-05-16T00:00:00.000Z',
+    ...input,
+    positionId: input.positionId ?? null,
+  };
+}
+
+function position(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    symbol: 'AAPL',
+    t212Ticker: 'AAPL_US_EQ',
+    shares: 10,
+    entryPrice: 150,
+    entryTime: '2025-01-02T15:00:00.000Z',
+    currentPrice: 200,
+    accountType: 'INVEST',
+    dividendIncome: 1,
+    ...overrides,
+  };
+}
+
+describe('DividendManager', () => {
+  let manager: DividendManager;
+  let positionRow: ReturnType<typeof position> | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    positionRow = position();
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      get: vi.fn(() => positionRow),
+      update: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      run: vi.fn(),
+    };
+    vi.mocked(insertDividend).mockImplementation((data) => storedRow(data) as any);
+    manager = new DividendManager();
+  });
+
+  describe('sync', () => {
+    it('pages through history until it reaches a recorded payment', async () => {
+      const client = {
+        getDividends: vi
+          .fn()
+          .mockResolvedValueOnce({
+            items: [dividend({ reference: 'new-1' }), dividend({ reference: 'new-2' })],
+            nextPagePath: '/api/v0/history/dividends?limit=50&cursor=1700000000000',
+          })
+          .mockResolvedValueOnce({
+            items: [dividend({ reference: 'new-3' }), dividend({ reference: 'old-1' })],
+            nextPagePath: '/api/v0/history/dividends?limit=50&cursor=1600000000000',
+          }),
+      };
+      vi.mocked(insertDividend).mockImplementation((data) =>
+        data.reference === 'old-1' ? null : (storedRow(data) as any),
+      );
+
+      const imported = await manager.sync(client as any, 'INVEST');
+
+      expect(imported.map((d) => d.reference)).toEqual(['new-1', 'new-2', 'new-3']);
+      expect(client.getDividends).toHaveBeenCalledTimes(2);
+      expect(client.getDividends).toHaveBeenLastCalledWith({ cursor: 1700000000000, limit: 50 });
+    });
+
+    it('derives a reference when Trading212 omits one', async () => {
+      const client = {
+        getDividends: vi.fn().mockResolvedValue({
+          items: [dividend({ reference: undefined })],
+        }),
+      };
+
+      await manager.sync(client as any, 'INVEST');
+
+      expect(insertDividend).toHaveBeenCalledWith(
+        expect.objectContaining({ reference: 'AAPL_US_EQ:2025-05-15T00:00:00.000Z:2.5:10' }),
+      );
+    });
+  });
+
+  describe('recordDividend', () => {
+    it('credits the open position and splits the amount across held lots', async () => {
+      vi.mocked(getLotsBySymbol).mockResolvedValue([
+        { id: 1, shares: 6, accountType: 'INVEST', purchaseDate: '2025-01-02T15:00:00.000Z' },
+        { id: 2, shares: 4, accountType: 'INVEST', purchaseDate: '2025-03-01T15:00:00.000Z' },
+        // Bought after the payment date
+        { id: 3, shares: 5, accountType: 'INVEST', purchaseDate: '2025-06-01T15:00:00.000Z' },
+        // Held in the other account
+        { id: 4, shares: 5, accountType: 'ISA', purchaseDate: '2025-01-02T15:00:00.000Z' },
+      ] as any);
+
+      const record = await manager.recordDividend(dividend() as any, 'INVEST');
+
+      expect(record?.positionId).toBe(7);
+      expect(record?.symbol).toBe('AAPL');
+      expect(mockDb.set).toHaveBeenCalledWith({ dividendIncome: 3.5 });
+      expect(addLotDividendIncome).toHaveBeenCalledTimes(2);
+      expect(addLotDividendIncome).toHaveBeenCalledWith(1, 1.5);
+      expect(addLotDividendIncome).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('does not credit a position opened after the payment', async () => {
+      positionRow = position({ entryTime: '2025-06-01T15:00:00.000Z' });
+
+      const record = await manager.recordDividend(dividend() as any, 'INVEST');
+
+      expect(record?.positionId).toBeNull();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('maps tickers without a position to data symbols', async () => {
+      positionRow = undefined;
+
+      const record = await manager.recordDividend(dividend({ ticker: 'VODl_EQ' }) as any, 'ISA');
+
+      expect(record?.symbol).toBe('VOD.L');
+      expect(record?.accountType).toBe('ISA');
+    });
+
+    it('skips attribution for payments already recorded', async () => {
+      vi.mocked(insertDividend).mockReturnValue(null);
+
+      expect(await manager.recordDividend(dividend() as any, 'INVEST')).toBeNull();
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(getLotsBySymbol).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reinvest', () => {
+    const pending = [
+      storedRow({ amount: 250, positionId: 7, symbol: 'AAPL' }, 1),
+      storedRow({ amount: 200, positionId: 7, symbol: 'AAPL' }, 2),
+    ];
+
+    it('buys whole shares of the paying position', async () => {
+      vi.mocked(getUnreinvestedDividends).mockReturnValue(pending as any);
+      mockExecuteDCA.mockResolvedValue({ success: true });
+
+      const shares = await manager.reinvest(undefined, 'INVEST');
+
+      // $450 at $200 a share
+      expect(shares).toBe(2);
+      expect(mockExecuteDCA).toHaveBeenCalledWith(
+        'AAPL',
+        'AAPL_US_EQ',
+        2,
+        200,
+        'INVEST',
+        undefined,
+        'dividend_reinvest',
+      );
+      expect(markReinvested).toHaveBeenCalledWith([1, 2], expect.any(String));
+    });
+
+    it('keeps accumulating while the cash is below one share', async () => {
+      vi.mocked(getUnreinvestedDividends).mockReturnValue([pending[0]] as any);
+      positionRow = position({ currentPrice: 300 });
+
+      expect(await manager.reinvest(undefined, 'INVEST')).toBe(0);
+      expect(mockExecuteDCA).not.toHaveBeenCalled();
+      expect(markReinvested).not.toHaveBeenCalled();
+    });
+
+    it('waits for the exchange to open', async () => {
+      vi.mocked(getUnreinvestedDividends).mockReturnValue(pending as any);
+      vi.mocked(isExchangeOpen).mockReturnValueOnce(false);
+
+      expect(await manager.reinvest(undefined, 'INVEST')).toBe(0);
+      expect(mockExecuteDCA).not.toHaveBeenCalled();
+    });
+
+    it('leaves dividends pending when the buy fails', async () => {
+      vi.mocked(getUnreinvestedDividends).mockReturnValue(pending as any);
+      mockExecuteDCA.mockResolvedValue({ success: false, error: 'rejected' });
+
+      expect(await manager.reinvest(undefined, 'INVEST')).toBe(0);
+      expect(markReinvested).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  exchangeForSymbol,
+  exchangeForTicker,
+  getCloseMinutes,
+  getExchangeSession,
+  isExchangeHoliday,
+  isExchangeOpen,
+  symbolForTicker,
+} from '../../src/utils/exchanges.js';
+
+describe('exchanges', () => {
+  describe('ticker conventions', () => {
+    it('maps Trading212 tickers to exchanges and Yahoo symbols', () => {
+      expect(exchangeForTicker('AAPL_US_EQ')?.code).toBe('US');
+      expect(exchangeForTicker('VODl_EQ')?.code).toBe('LSE');
+      expect(exchangeForTicker('SAPd_EQ')?.code).toBe('XETRA');
+      expect(exchangeForTicker('XYZ_CFD')).toBeNull();
+
+      expect(symbolForTicker('AAPL_US_EQ')).toBe('AAPL');
+      expect(symbolForTicker('VODl_EQ')).toBe('VOD.L');
+      expect(symbolForTicker('ASMLa_EQ')).toBe('ASML.AS');
+    });
+
+    it('treats unsuffixed and share-class symbols as US', () => {
+      expect(exchangeForSymbol('BRK.B').code).toBe('US');
+      expect(exchangeForSymbol('AAPL').code).toBe('US');
+      expect(exchangeForSymbol('MC.PA').code).toBe('EURONEXT_PARIS');
+      expect(exchangeForSymbol('NESN.SW').currency).toBe('CHF');
+    });
+  });
+
+  describe('calendars', () => {
+    it('closes European exchanges on Good Friday and Easter Monday', () => {
+      // Easter 2025 was 20 April
+      for (const code of ['LSE', 'XETRA', 'EURONEXT_PARIS', 'SIX'] as const) {
+        expect(isExchangeHoliday(code, { year: 2025, month: 4, day: 18 })).toBe(true);
+        expect(isExchangeHoliday(code, { year: 2025, month: 4, day: 21 })).toBe(true);
+      }
+    });
+
+    it('applies exchange-specific closures', () => {
+      // UK early and late May bank holidays
+      expect(isExchangeHoliday('LSE', { year: 2025, month: 5, day: 5 })).toBe(true);
+      expect(isExchangeHoliday('LSE', { year: 2025, month: 5, day: 26 })).toBe(true);
+      expect(isExchangeHoliday('XETRA', { year: 2025, month: 5, day: 26 })).toBe(false);
+      // Christmas 2021 fell on a Saturday: the substitute days are 27 and 28 December
+      expect(isExchangeHoliday('LSE', { year: 2021, month: 12, day: 27 })).toBe(true);
+      expect(isExchangeHoliday('LSE', { year: 2021, month: 12, day: 28 })).toBe(true);
+      // Swiss National Day
+      expect(isExchangeHoliday('SIX', { year: 2025, month: 8, day: 1 })).toBe(true);
+      expect(isExchangeHoliday('EURONEXT_PARIS', { year: 2025, month: 8, day: 1 })).toBe(false);
+    });
+
+    it('shortens the LSE session on Christmas Eve', () => {
+      expect(getCloseMinutes('LSE', { year: 2025, month: 12, day: 24 })).toBe(12 * 60 + 30);
+      expect(getCloseMinutes('LSE', { year: 2025, month: 12, day: 23 })).toBe(16 * 60 + 30);
+    });
+  });
+
+  describe('sessions', () => {
+    it('follows each exchange in its own time zone', () => {
+      // 08:30 UTC on a Tuesday in winter: London 08:30, Frankfurt 09:30, New York 03:30
+      const now = new Date('2025-01-14T08:30:00Z');
+      expect(isExchangeOpen('LSE', now)).toBe(true);
+      expect(isExchangeOpen('XETRA', now)).toBe(true);
+      expect(isExchangeOpen('US', now)).toBe(false);
+    });
+
+    it('handles daylight saving time', () => {
+      // 07:30 UTC in July is 08:30 BST
+      expect(isExchangeOpen('LSE', new Date('2025-07-15T07:30:00Z'))).toBe(true);
+      // The same UTC time in January is 07:30 GMT, before the open
+      expect(isExchangeOpen('LSE', new Date('2025-01-14T07:30:00Z'))).toBe(false);
+    });
+
+    it('finds the next session across weekends and holidays', () => {
+      // Thursday evening before Good Friday 2025 in London
+      const session = getExchangeSession('LSE', new Date('2025-04-17T18:00:00Z'));
+
+      expect(session.isOpen).toBe(false);
+      // Next open is Tuesday 22 April, 08:00 BST
+      expect(session.nextOpen.toISOString()).toBe('2025-04-22T07:00:00.000Z');
+      expect(session.nextClose.toISOString()).toBe('2025-04-22T15:30:00.000Z');
+    });
+
+    it('reports the current session close while open', () => {
+      const session = getExchangeSession('XETRA', new Date('2025-01-14T10:00:00Z'));
+
+      expect(session.isOpen).toBe(true);
+      expect(session.nextClose.toISOString()).toBe('2025-01-14T16:30:00.000Z');
+      expect(session.nextOpen.toISOString()).toBe('2025-01-15T08:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import type * as schema from '../../src/db/schema.js';
+import {
+  ExecutionQualityAnalyzer,
+  distribution,
+  fillLatencies,
+  replacementStats,
+  shortfallSamples,
+  slippageSamples,
+  timeOfDay,
+  volatilityBucket,
+} from '../../src/monitoring/execution-quality.js';
+
+type Trade = typeof schema.trades.$inferSelect;
+type Order = typeof schema.orders.$inferSelect;
+type Signal = typeof schema.signals.$inferSelect;
+
+// 15:00 UTC on a January Thursday is 10:00 in New York
+const FILL_TIME = '2025-01-02T15:00:00.000Z';
+
+function createTrade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    id: 1,
+    symbol: 'AAPL',
+    side: 'BUY',
+    shares: 10,
+    entryPrice: 100.1,
+    entryTime: FILL_TIME,
+    exitPrice: null,
+    exitTime: null,
+    intendedPrice: 100,
+    slippage: 0.001,
+    direction: 'LONG',
+    origin: 'bot',
+    entryFxRate: 1,
+    accountType: 'INVEST',
+    ...overrides,
+  } as Trade;
+}
+
+function createOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: 1,
+    symbol: 'AAPL',
+    side: 'BUY',
+    orderType: 'market',
+    status: 'filled',
+    origin: 'bot',
+    replacedByOrderId: null,
+    accountType: 'INVEST',
+    createdAt: '2025-01-02T14:59:58.000Z',
+    filledAt: FILL_TIME,
+    ...overrides,
+  } as Order;
+}
+
+function createSignal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    id: 1,
+    symbol: 'AAPL',
+    timestamp: '2025-01-02T14:30:00.000Z',
+    decision: 'BUY',
+    atr: 2,
+    ...overrides,
+  } as Signal;
+}
+
+describe('execution-quality', () => {
+  describe('distribution', () => {
+    it('summarizes values', () => {
+      expect(distribution([4, 1, 3, 2, 10])).toEqual({
+        count: 5,
+        mean: 4,
+        median: 3,
+        p90: 10,
+        max: 10,
+      });
+    });
+
+    it('returns zeros for no values', () => {
+      expect(distribution([])).toEqual({ count: 0, mean: 0, median: 0, p90: 0, max: 0 });
+    });
+  });
+
+  describe('timeOfDay', () => {
+    it('buckets fills by the exchange session', () => {
+      expect(timeOfDay('AAPL', '2025-01-02T14:45:00.000Z')).toBe('open');
+      expect(timeOfDay('AAPL', '2025-01-02T17:00:00.000Z')).toBe('midday');
+      expect(timeOfDay('AAPL', '2025-01-02T20:45:00.000Z')).toBe('close');
+      expect(timeOfDay('AAPL', '2025-01-02T22:00:00.000Z')).toBe('outside');
+    });
+
+    it('uses the listing exchange', () => {
+      // 08:10 in London is the LSE open, but New York is still closed
+      expect(timeOfDay('VOD.L', '2025-01-02T08:10:00.000Z')).toBe('open');
+      expect(timeOfDay('AAPL', '2025-01-02T08:10:00.000Z')).toBe('outside');
+    });
+  });
+
+  describe('volatilityBucket', () => {
+    it('buckets ATR as a fraction of price', () => {
+      expect(volatilityBucket(1, 100)).toBe('low');
+      expect(volatilityBucket(2, 100)).toBe('normal');
+      expect(volatilityBucket(3, 100)).toBe('high');
+      expect(volatilityBucket(null, 100)).toBe('unknown');
+    });
+  });
+
+  describe('slippageSamples', () => {
+    it('tags fills with order type, session and volatility', () => {
+      const samples = slippageSamples(
+        [createTrade()],
+        [createOrder({ orderType: 'limit' })],
+        [createSignal({ atr: 4 })],
+      );
+
+      expect(samples).toEqual([
+        expect.objectContaining({
+          kind: 'entry',
+          orderType: 'limit',
+          timeOfDay: 'midday',
+          volatility: 'high',
+        }),
+      ]);
+      expect(samples[0].bps).toBeCloseTo(10);
+    });
+
+    it('measures exits at their exit time and skips manual or unmeasured fills', () => {
+      const samples = slippageSamples(
+        [
+          createTrade({
+            side: 'SELL',
+            exitPrice: 99,
+            exitTime: '2025-01-02T17:00:00.000Z',
+            slippage: -0.0005,
+          }),
+          createTrade({ id: 2, origin: 'manual' }),
+          createTrade({ id: 3, slippage: null }),
+        ],
+        [],
+        [],
+      );
+
+      expect(samples).toHaveLength(1);
+      expect(samples[0]).toMatchObject({
+        kind: 'exit',
+        orderType: 'unknown',
+        timeOfDay: 'midday',
+        volatility: 'unknown',
+      });
+      expect(samples[0].bps).toBeCloseTo(-5);
+    });
+  });
+
+  describe('fillLatencies', () => {
+    it('measures filled bot orders only', () => {
+      const latencies = fillLatencies([
+        createOrder(),
+        createOrder({ id: 2, origin: 'manual' }),
+        createOrder({ id: 3, status: 'cancelled', filledAt: null }),
+      ]);
+
+      expect(latencies).toEqual([{ orderType: 'market', seconds: 2 }]);
+    });
+  });
+
+  describe('replacementStats', () => {
+    it('walks replacement chains from their original order', () => {
+      const stats = replacementStats([
+        createOrder({ id: 1, status: 'cancelled', replacedByOrderId: 2 }),
+        createOrder({ id: 2, status: 'cancelled', replacedByOrderId: 3 }),
+        createOrder({ id: 3, status: 'filled' }),
+        createOrder({ id: 4, status: 'cancelled', replacedByOrderId: 5 }),
+        createOrder({ id: 5, status: 'expired' }),
+        createOrder({ id: 6 }),
+      ]);
+
+      expect(stats).toEqual({
+        chains: 2,
+        avgDepth: 1.5,
+        maxDepth: 2,
+        depthCounts: { 1: 1, 2: 1 },
+        filled: 1,
+        fillRate: 0.5,
+      });
+    });
+  });
+
+  describe('shortfallSamples', () => {
+    it('splits shortfall into delay and execution cost', () => {
+      const { samples, unmeasured } = shortfallSamples(
+        [createTrade({ entryPrice: 101, intendedPrice: 100.5 })],
+        [createSignal()],
+        () => 100,
+      );
+
+      expect(unmeasured).toBe(0);
+      expect(samples[0]).toMatchObject({
+        decisionPrice: 100,
+        delayBps: 50,
+        executionBps: 50,
+        totalBps: 100,
+        notional: 1010,
+      });
+    });
+
+    it('treats a lower fill as a cost for shorts', () => {
+      const { samples } = shortfallSamples(
+        [createTrade({ side: 'SELL', direction: 'SHORT', entryPrice: 99, intendedPrice: 99 })],
+        [createSignal({ decision: 'SELL' })],
+        () => 100,
+      );
+
+      expect(samples[0].totalBps).toBe(100);
+    });
+
+    it('counts entries without a decision price as unmeasured', () => {
+      const { samples, unmeasured } = shortfallSamples(
+        [createTrade(), createTrade({ id: 2, symbol: 'MSFT' }), createTrade({ id: 3 })],
+        [createSignal()],
+        (_symbol, at) => (at === '2025-01-02T14:30:00.000Z' ? null : 100),
+      );
+
+      expect(samples).toHaveLength(0);
+      expect(unmeasured).toBe(3);
+    });
+
+    it('ignores signals after the entry and exit rows', () => {
+      const { samples, unmeasured } = shortfallSamples(
+        [createTrade({ exitTime: FILL_TIME, exitPrice: 101 }), createTrade({ id: 2 })],
+        [createSignal({ timestamp: '2025-01-02T15:30:00.000Z' })],
+        () => 100,
+      );
+
+      expect(samples).toHaveLength(0);
+      expect(unmeasured).toBe(1);
+    });
+  });
+
+  describe('ExecutionQualityAnalyzer', () => {
+    it('weights shortfall by notional', () => {
+      const report = new ExecutionQualityAnalyzer().analyze(
+        {
+          trades: [
+            createTrade({ entryPrice: 101, intendedPrice: 101 }),
+            createTrade({ id: 2, shares: 30, entryPrice: 100, intendedPrice: 100 }),
+          ],
+          orders: [createOrder()],
+          signals: [createSignal()],
+          priceAt: () => 100,
+        },
+        { from: '2025-01-01T00:00:00.000Z', to: '2025-01-07T23:59:59.999Z' },
+      );
+
+      expect(report.shortfall.trades).toBe(2);
+      expect(report.shortfall.cost).toBeCloseTo(10.1);
+      expect(report.shortfall.weightedBps).toBeCloseTo(25.19, 1);
+      expect(report.shortfall.worst[0].tradeId).toBe(1);
+      expect(report.slippage.bySymbol.AAPL.count).toBe(2);
+      expect(report.latency.byOrderType.market.count).toBe(1);
+      expect(report.accountType).toBeNull();
+    });
+  });
+});
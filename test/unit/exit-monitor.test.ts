@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn((key: string) => (key === 'streaming.exitDebounceSeconds' ? 30 : undefined)),
+  },
+}));
+
+import type { PriceUpdate } from '../../src/data/price-streamer.js';
+import { type ExitHandlers, ExitMonitor } from '../../src/execution/exit-monitor.js';
+import type { PositionTracker } from '../../src/execution/position-tracker.js';
+
+const NOW = Date.UTC(2025, 0, 2, 15, 0, 0);
+
+type PositionRow = Parameters<ExitMonitor['exit']>[0];
+
+function held(id: number): PositionRow {
+  return { id, symbol: 'AAPL', accountType: 'INVEST' } as PositionRow;
+}
+
+function tick(price: number, previousPrice = 100): PriceUpdate {
+  return {
+    symbol: 'AAPL',
+    price,
+    previousPrice,
+    changePct: (price - previousPrice) / previousPrice,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe('ExitMonitor', () => {
+  let tracker: {
+    markPrice: ReturnType<typeof vi.fn>;
+    trailStop: ReturnType<typeof vi.fn>;
+    exitReason: ReturnType<typeof vi.fn>;
+  };
+  let handlers: {
+    withConfig: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    partialExitFor: ReturnType<typeof vi.fn>;
+    partialExit: ReturnType<typeof vi.fn>;
+  };
+  let monitor: ExitMonitor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    tracker = {
+      markPrice: vi.fn(async (symbol: string, price: number) => [
+        { id: 1, symbol, accountType: 'INVEST', currentPrice: price, stopLoss: 95 },
+      ]),
+      trailStop: vi.fn((pos) => pos),
+      exitReason: vi.fn((pos) => (pos.currentPrice <= pos.stopLoss ? 'Stop-loss triggered' : null)),
+    };
+    handlers = {
+      withConfig: vi.fn((_pos, fn) => fn()),
+      close: vi.fn().mockResolvedValue(undefined),
+      partialExitFor: vi.fn().mockReturnValue(null),
+      partialExit: vi.fn().mockResolvedValue(undefined),
+    };
+    monitor = new ExitMonitor(
+      tracker as unknown as PositionTracker,
+      handlers as unknown as ExitHandlers,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('closes on the tick that crosses the stop', async () => {
+    await monitor.onTick(tick(99));
+    expect(handlers.close).not.toHaveBeenCalled();
+
+    await monitor.onTick(tick(94, 99));
+
+    expect(tracker.exitReason).toHaveBeenLastCalledWith(
+      expect.objectContaining({ currentPrice: 94 }),
+      99,
+    );
+    expect(handlers.close).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'AAPL' }),
+      'Stop-loss triggered',
+    );
+  });
+
+  it('ignores ticks while a close is in flight', async () => {
+    let release: () => void = () => {};
+    handlers.close.mockReturnValueOnce(
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+
+    const first = monitor.onTick(tick(94));
+    await vi.advanceTimersByTimeAsync(0);
+    await monitor.onTick(tick(93, 94));
+    await expect(monitor.exit(held(1), handlers.close)).resolves.toBe(false);
+    release();
+    await first;
+
+    expect(handlers.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('debounces exits until the fill has had time to land', async () => {
+    await monitor.onTick(tick(94));
+    await monitor.onTick(tick(93, 94));
+    expect(handlers.close).toHaveBeenCalledTimes(1);
+
+    // The cron safety net is debounced too
+    const cronClose = vi.fn().mockResolvedValue(undefined);
+    await expect(monitor.exit(held(1), cronClose)).resolves.toBe(false);
+    expect(cronClose).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30_000);
+    await monitor.onTick(tick(92, 93));
+    expect(handlers.close).toHaveBeenCalledTimes(2);
+  });
+
+  it('locks per position', async () => {
+    await monitor.onTick(tick(94));
+    const other = vi.fn().mockResolvedValue(undefined);
+
+    await expect(monitor.exit(held(2), other)).resolves.toBe(true);
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('evaluates each account\'s copy of the symbol under its own config', async () => {
+    tracker.markPrice.mockImplementation(async (symbol: string, price: number) => [
+      { id: 1, symbol, accountType: 'INVEST', currentPrice: price, stopLoss: 95 },
+      { id: 2, symbol, accountType: 'ISA', currentPrice: price, stopLoss: 90 },
+    ]);
+
+    await monitor.onTick(tick(94));
+
+    expect(handlers.withConfig).toHaveBeenCalledTimes(2);
+    expect(handlers.withConfig).toHaveBeenCalledWith(
+      expect.objectContaining({ accountType: 'ISA' }),
+      expect.any(Function),
+    );
+    expect(handlers.close).toHaveBeenCalledTimes(1);
+    expect(handlers.close).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      'Stop-loss triggered',
+    );
+
+    // The other account's copy is not held back by the first one's debounce
+    await monitor.onTick(tick(89, 94));
+    expect(handlers.close).toHaveBeenCalledTimes(2);
+    expect(handlers.close).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: 2 }),
+      'Stop-loss triggered',
+    );
+  });
+
+  it('sells a partial tier when no full exit fires', async () => {
+    handlers.partialExitFor.mockReturnValueOnce({ shares: 3, reason: 'Tier 1' });
+
+    await monitor.onTick(tick(110));
+
+    expect(handlers.close).not.toHaveBeenCalled();
+    expect(handlers.partialExit).toHaveBeenCalledWith(
+      expect.objectContaining({ currentPrice: 110 }),
+      { shares: 3, reason: 'Tier 1' },
+    );
+  });
+
+  it('skips symbols that are no longer held', async () => {
+    tracker.markPrice.mockResolvedValueOnce([]);
+
+    await monitor.onTick(tick(50));
+
+    expect(tracker.exitReason).not.toHaveBeenCalled();
+    expect(handlers.close).not.toHaveBeenCalled();
+  });
+
+  it('contains handler errors and releases the lock', async () => {
+    handlers.close.mockRejectedValueOnce(new Error('broker down'));
+    await expect(monitor.onTick(tick(94))).resolves.toBeUndefined();
+
+    const retry = vi.fn().mockResolvedValue(undefined);
+    vi.advanceTimersByTime(30_000);
+    await expect(monitor.exit(held(1), retry)).resolves.toBe(true);
+  });
+});
@@ -141,6 +141,22 @@ describe('HealthMetricsCollector', () => {
 			expect(snapshot.wsClientCount).toBe(3);
 		});
 
+		it('reports registered request queues, skipping those without stats', () => {
+			const stats = {
+				name: 't212:ISA',
+				queued: 4,
+				inFlight: 1,
+				queuedByPriority: { critical: 1, normal: 1, low: 2 },
+				coalesced: 0,
+				rateLimited: 0,
+				blockedEndpoints: [],
+			};
+			collector.registerRequestQueue('t212:ISA', () => stats);
+			collector.registerRequestQueue('t212:INVEST', () => null);
+
+			expect(collector.getSnapshot().requestQueues).toEqual([stats]);
+		});
+
 		it('returns healthy when all jobs succeed', () => {
 			collector.recordJobStart('job1');
 			collector.recordJobEnd('job1', true);
@@ -181,6 +197,58 @@ describe('HealthMetricsCollector', () => {
 		});
 	});
 
+	describe('model parse health', () => {
+		const policy = { failureRate: 0.5, minSamples: 4, durationMs: 60_000 };
+
+		it('counts failures and repairs per model', () => {
+			collector.recordModelParse('llama3', { success: true, repaired: false }, policy);
+			collector.recordModelParse('llama3', { success: true, repaired: true }, policy);
+			collector.recordModelParse('llama3', { success: false, repaired: true }, policy);
+
+			expect(collector.getModelParseHealth()).toEqual([
+				{
+					model: 'llama3',
+					totalParses: 3,
+					failures: 1,
+					repaired: 1,
+					recentFailureRate: 0.333,
+					quarantinedUntil: null,
+				},
+			]);
+		});
+
+		it('quarantines a model once enough recent parses fail', () => {
+			collector.recordModelParse('llama3', { success: false, repaired: true }, policy);
+			collector.recordModelParse('llama3', { success: false, repaired: true }, policy);
+			collector.recordModelParse('llama3', { success: true, repaired: false }, policy);
+			expect(collector.isModelQuarantined('llama3')).toBe(false);
+
+			collector.recordModelParse('llama3', { success: true, repaired: false }, policy);
+
+			expect(collector.isModelQuarantined('llama3')).toBe(true);
+			expect(collector.isModelQuarantined('gpt-4')).toBe(false);
+			expect(collector.getModelParseHealth()[0].quarantinedUntil).toBeTruthy();
+			expect(collector.getSnapshot().status).toBe('degraded');
+		});
+
+		it('releases the model when the quarantine runs out', () => {
+			vi.useFakeTimers();
+			try {
+				for (let i = 0; i < 4; i++) {
+					collector.recordModelParse('llama3', { success: false, repaired: true }, policy);
+				}
+				expect(collector.isModelQuarantined('llama3')).toBe(true);
+
+				vi.advanceTimersByTime(60_001);
+
+				expect(collector.isModelQuarantined('llama3')).toBe(false);
+				expect(collector.getModelParseHealth()[0].recentFailureRate).toBe(0);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+
 	describe('getHealthMetrics singleton', () => {
 		it('returns same instance', () => {
 			const a = getHealthMetrics();
@@ -0,0 +1,381 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('drizzle-orm', () => ({
+  and: vi.fn((...conditions) => ({ conditions, type: 'and' })),
+  eq: vi.fn((field, value) => ({ field, value, type: 'eq' })),
+  isNull: vi.fn((field) => ({ field, type: 'isNull' })),
+}));
+
+vi.mock('../../src/db/schema.js', () => ({
+  orders: { id: 'orders.id' },
+  taxLots: { id: 'taxLots.id', symbol: 'symbol', purchaseDate: 'purchaseDate' },
+  trades: {},
+}));
+
+let mockDb: any;
+
+vi.mock('../../src/db/index.js', () => ({
+  getDb: () => mockDb,
+}));
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: { get: vi.fn(() => 20) },
+}));
+
+vi.mock('../../src/utils/helpers.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/helpers.js')>()),
+  sleep: vi.fn(async () => {}),
+}));
+
+vi.mock('../../src/db/repositories/account-transactions.js', () => ({
+  insertAccountTransaction: vi.fn((data) => ({ id: 1, ...data })),
+}));
+
+vi.mock('../../src/db/repositories/history-imports.js', () => ({
+  getHistoryImport: vi.fn(() => null),
+  startHistoryImport: vi.fn(() => ({
+    id: 1,
+    status: 'running',
+    cursor: null,
+    newestSeen: null,
+    stopAt: null,
+    pages: 0,
+    imported: 0,
+  })),
+  saveHistoryImportProgress: vi.fn(),
+}));
+
+vi.mock('../../src/db/repositories/orders.js', () => ({
+  findFilledOrder: vi.fn(() => undefined),
+  getFilledOrdersWithoutTrade: vi.fn(() => []),
+  getOrderByT212Id: vi.fn(() => undefined),
+  insertFilledOrder: vi.fn(() => 1),
+}));
+
+import { insertAccountTransaction } from '../../src/db/repositories/account-transactions.js';
+import {
+  getHistoryImport,
+  saveHistoryImportProgress,
+} from '../../src/db/repositories/history-imports.js';
+import {
+  findFilledOrder,
+  getFilledOrdersWithoutTrade,
+  getOrderByT212Id,
+  insertFilledOrder,
+} from '../../src/db/repositories/orders.js';
+import { HISTORY_IMPORT_TAG, HistoryImporter } from '../../src/execution/history-importer.js';
+
+function historical(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 500,
+    ticker: 'AAPL_US_EQ',
+    type: 'MARKET',
+    status: 'FILLED',
+    executor: 'IOS',
+    dateCreated: '2025-02-03T15:00:00.000Z',
+    dateExecuted: '2025-02-03T15:00:01.000Z',
+    orderedQuantity: 4,
+    filledQuantity: 4,
+    fillPrice: 150,
+    ...overrides,
+  };
+}
+
+function importedOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 21,
+    symbol: 'AAPL',
+    t212Ticker: 'AAPL_US_EQ',
+    side: 'BUY',
+    orderType: 'market',
+    requestedQuantity: 4,
+    requestedPrice: null,
+    filledQuantity: 4,
+    filledPrice: 150,
+    filledAt: '2025-02-03T15:00:01.000Z',
+    createdAt: '2025-02-03T15:00:00.000Z',
+    t212OrderId: '500',
+    accountType: 'INVEST',
+    origin: 'manual',
+    ...overrides,
+  };
+}
+
+function mockClient(opts: { history?: any[]; transactions?: any[] } = {}) {
+  return {
+    getOrderHistory: vi.fn().mockResolvedValue({ items: opts.history ?? [] }),
+    getTransactions: vi.fn().mockResolvedValue({ items: opts.transactions ?? [] }),
+  };
+}
+
+describe('HistoryImporter', () => {
+  let importer: HistoryImporter;
+  let openLots: any[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    openLots = [];
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      orderBy: vi.fn().mockReturnThis(),
+      all: vi.fn(() => openLots),
+      insert: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      run: vi.fn(() => ({ lastInsertRowid: 9 })),
+      transaction: vi.fn((fn) => fn(mockDb)),
+    };
+    importer = new HistoryImporter();
+  });
+
+  describe('run', () => {
+    it('records filled app orders as manual and skips unfilled ones', async () => {
+      const client = mockClient({
+        history: [
+          historical(),
+          historical({ id: 501, executor: 'API', orderedQuantity: -2, filledQuantity: -2 }),
+          historical({ id: 502, status: 'CANCELLED', filledQuantity: 0 }),
+        ],
+      });
+
+      const summary = await importer.run(client as any, 'INVEST');
+
+      expect(summary).toMatchObject({ orders: 2, complete: true });
+      expect(insertFilledOrder).toHaveBeenCalledTimes(2);
+      expect(insertFilledOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          symbol: 'AAPL',
+          side: 'BUY',
+          origin: 'manual',
+          orderTag: HISTORY_IMPORT_TAG,
+          t212OrderId: '500',
+          filledPrice: 150,
+          filledAt: '2025-02-03T15:00:01.000Z',
+        }),
+      );
+      expect(insertFilledOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'SELL', origin: 'bot', filledQuantity: 2 }),
+      );
+    });
+
+    it('skips orders already on record', async () => {
+      vi.mocked(getOrderByT212Id).mockReturnValueOnce({ id: 3 } as any);
+      vi.mocked(findFilledOrder).mockReturnValueOnce({ id: 4 } as any);
+      const client = mockClient({ history: [historical(), historical({ id: 501 })] });
+
+      const summary = await importer.run(client as any, 'INVEST');
+
+      expect(summary.orders).toBe(0);
+      expect(insertFilledOrder).not.toHaveBeenCalled();
+    });
+
+    it('records cash transactions', async () => {
+      const client = mockClient({
+        transactions: [
+          {
+            type: 'DEPOSIT',
+            amount: 1000,
+            reference: 'tx-1',
+            dateTime: '2025-01-02T10:00:00.000Z',
+          },
+        ],
+      });
+
+      const summary = await importer.run(client as any, 'ISA');
+
+      expect(summary.transactions).toBe(1);
+      expect(insertAccountTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ reference: 'tx-1', accountType: 'ISA', amount: 1000 }),
+      );
+    });
+
+    it('pauses after the page budget and resumes from the saved cursor', async () => {
+      const client = mockClient();
+      client.getOrderHistory.mockResolvedValue({
+        items: [historical()],
+        nextPagePath: '/api/v0/equity/history/orders?limit=50&cursor=1738000000000',
+      });
+      const { configManager } = await import('../../src/config/manager.js');
+      vi.mocked(configManager.get).mockReturnValue(2);
+
+      const summary = await importer.run(client as any, 'INVEST');
+
+      expect(summary.complete).toBe(false);
+      expect(client.getOrderHistory).toHaveBeenCalledTimes(2);
+      expect(getFilledOrdersWithoutTrade).not.toHaveBeenCalled();
+      expect(saveHistoryImportProgress).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ cursor: 1738000000000, completed: false }),
+      );
+
+      vi.mocked(getHistoryImport).mockReturnValue({
+        id: 1,
+        status: 'running',
+        cursor: 1738000000000,
+        newestSeen: '2025-02-03T15:00:00.000Z',
+        stopAt: null,
+        pages: 2,
+        imported: 2,
+      } as any);
+      client.getOrderHistory.mockClear();
+
+      await importer.run(client as any, 'INVEST');
+
+      expect(client.getOrderHistory).toHaveBeenCalledWith({ cursor: 1738000000000, limit: 50 });
+      vi.mocked(configManager.get).mockReturnValue(20);
+      vi.mocked(getHistoryImport).mockReturnValue(null as any);
+    });
+
+    it('stops at history a previous pass already covered', async () => {
+      vi.mocked(getHistoryImport).mockReturnValueOnce(null as any);
+      const { startHistoryImport } = await import('../../src/db/repositories/history-imports.js');
+      vi.mocked(startHistoryImport).mockReturnValueOnce({
+        id: 1,
+        status: 'running',
+        cursor: null,
+        newestSeen: null,
+        stopAt: '2025-02-01T00:00:00.000Z',
+        pages: 0,
+        imported: 0,
+      } as any);
+      const client = mockClient();
+      client.getOrderHistory.mockResolvedValue({
+        items: [historical(), historical({ id: 400, dateCreated: '2025-01-15T15:00:00.000Z' })],
+        nextPagePath: '/api/v0/equity/history/orders?limit=50&cursor=1736000000000',
+      });
+
+      const summary = await importer.run(client as any, 'INVEST');
+
+      expect(client.getOrderHistory).toHaveBeenCalledTimes(1);
+      expect(summary.orders).toBe(1);
+      expect(saveHistoryImportProgress).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ newestSeen: '2025-02-03T15:00:00.000Z', completed: true }),
+      );
+    });
+  });
+
+  describe('buildTrades', () => {
+    it('opens a trade and tax lot for an imported purchase', () => {
+      vi.mocked(getFilledOrdersWithoutTrade).mockReturnValue([importedOrder()] as any);
+
+      const result = importer.buildTrades('INVEST');
+
+      expect(result).toEqual({ trades: 1, taxLots: 1 });
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'BUY', shares: 4, entryPrice: 150, origin: 'manual' }),
+      );
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', shares: 4, costBasis: 150, origin: 'manual' }),
+      );
+      expect(mockDb.set).toHaveBeenCalledWith({ tradeId: 9 });
+    });
+
+    it('closes lots FIFO for an imported sale and splits a partly sold lot', () => {
+      vi.mocked(getFilledOrdersWithoutTrade).mockReturnValue([
+        importedOrder({ side: 'SELL', filledQuantity: 6, filledPrice: 200 }),
+      ] as any);
+      const lot = { symbol: 'AAPL', accountType: 'INVEST' };
+      openLots = [
+        { ...lot, id: 1, shares: 4, costBasis: 100, purchaseDate: '2024-01-02T15:00:00.000Z' },
+        { ...lot, id: 2, shares: 5, costBasis: 150, purchaseDate: '2025-01-02T15:00:00.000Z' },
+      ];
+
+      const result = importer.buildTrades('INVEST');
+
+      expect(result).toEqual({ trades: 1, taxLots: 2 });
+      expect(mockDb.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          saleDate: '2025-02-03T15:00:01.000Z',
+          pnl: 400,
+          holdingPeriod: 'long',
+        }),
+      );
+      expect(mockDb.set).toHaveBeenCalledWith({ shares: 3 });
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({ shares: 2, costBasis: 150, pnl: 100, holdingPeriod: 'short' }),
+      );
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          side: 'SELL',
+          shares: 6,
+          exitPrice: 200,
+          pnl: 500,
+          entryTime: '2024-01-02T15:00:00.000Z',
+          exitReason: 'Manual sale',
+        }),
+      );
+    });
+
+    it('records shares sold without a purchase on record with no exit price', () => {
+      vi.mocked(getFilledOrdersWithoutTrade).mockReturnValue([
+        importedOrder({ side: 'SELL', filledPrice: 200 }),
+      ] as any);
+
+      const result = importer.buildTrades('INVEST');
+
+      expect(result).toEqual({ trades: 1, taxLots: 0 });
+      const sell = mockDb.values.mock.calls[0][0];
+      expect(sell).toMatchObject({ side: 'SELL', shares: 4 });
+      expect(sell.exitPrice).toBeUndefined();
+      expect(sell.exitReason).toContain('cost basis unknown');
+    });
+  });
+
+  describe('importCsv', () => {
+    const csv = [
+      'Action,Time,ISIN,Ticker,Name,ID,No. of shares,Price / share,Currency (Price / share),Total,Currency (Total)',
+      'Market buy,2025-02-03 15:00:01,US0378331005,AAPL,"Apple, Inc.",EOF123,4,150,USD,600,USD',
+      'Deposit,2025-01-02 10:00:00,,,,dep-1,,,,1000,GBP',
+      'Dividend (Ordinary),2025-02-10 10:00:00,US0378331005,AAPL,"Apple, Inc.",,4,0.25,USD,1,USD',
+    ].join('\n');
+
+    it('imports order rows as manual fills and cash rows as transactions', () => {
+      const summary = importer.importCsv(csv, 'INVEST', (ticker) => `${ticker}_US_EQ`);
+
+      expect(summary).toMatchObject({ orders: 1, transactions: 1 });
+      expect(insertFilledOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          symbol: 'AAPL',
+          t212Ticker: 'AAPL_US_EQ',
+          side: 'BUY',
+          origin: 'manual',
+          t212OrderId: 'EOF123',
+          filledQuantity: 4,
+          filledPrice: 150,
+          filledAt: '2025-02-03T15:00:01.000Z',
+        }),
+      );
+      expect(insertAccountTransaction).toHaveBeenCalledTimes(1);
+      expect(insertAccountTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reference: 'dep-1',
+          type: 'DEPOSIT',
+          amount: 1000,
+          currency: 'GBP',
+        }),
+      );
+    });
+
+    it('skips rows already imported from the API history', () => {
+      vi.mocked(findFilledOrder).mockReturnValueOnce({ id: 4 } as any);
+
+      const summary = importer.importCsv(csv, 'INVEST');
+
+      expect(summary.orders).toBe(0);
+      expect(insertFilledOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -311,6 +311,45 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('withOverrides', () => {
+    it('returns pinned values inside the callback only', () => {
+      mockGet.mockReturnValue({ key: 'risk.maxPositions', value: '5' });
+
+      const inside = manager.withOverrides({ 'risk.maxPositions': 2 }, () =>
+        manager.get<number>('risk.maxPositions'),
+      );
+
+      expect(inside).toBe(2);
+      expect(manager.get<number>('risk.maxPositions')).toBe(5);
+    });
+
+    it('takes precedence over env overrides', () => {
+      vi.stubEnv('RISK_MAX_POSITIONS', '9');
+      const inside = manager.withOverrides({ 'risk.maxPositions': 2 }, () =>
+        manager.get<number>('risk.maxPositions'),
+      );
+      expect(inside).toBe(2);
+    });
+
+    it('restores the outer overrides when nested', () => {
+      const result = manager.withOverrides({ a: 1, b: 1 }, () => {
+        const nested = manager.withOverrides({ b: 2 }, () => [manager.get('a'), manager.get('b')]);
+        return [...nested, manager.get('b')];
+      });
+      expect(result).toEqual([1, 2, 1]);
+    });
+
+    it('restores state when the callback throws', () => {
+      mockGet.mockReturnValue({ key: 'x', value: '"db"' });
+      expect(() =>
+        manager.withOverrides({ x: 'pinned' }, () => {
+          throw new Error('boom');
+        }),
+      ).toThrow('boom');
+      expect(manager.get('x')).toBe('db');
+    });
+  });
+
   describe('configKeyToEnvVar (tested via get with env overrides)', () => {
     it('converts simple dotted key', () => {
       vi.stubEnv('T212_ENVIRONMENT', '"test"');
@@ -28,9 +28,18 @@ vi.mock('../../src/utils/helpers.js', () => ({
 const mockCreateOrder = vi.fn().mockReturnValue(1);
 const mockUpdateOrderStatus = vi.fn();
 
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  recordIntent: vi.fn(() => 1),
+  markIntentSubmitted: vi.fn(),
+  completeIntent: vi.fn(),
+  abandonIntent: vi.fn(),
+}));
+
 vi.mock('../../src/db/repositories/orders.js', () => ({
   createOrder: (...args: unknown[]) => mockCreateOrder(...args),
   updateOrderStatus: (...args: unknown[]) => mockUpdateOrderStatus(...args),
+  cancelOrder: vi.fn(),
+  getOrderByT212Id: vi.fn(),
 }));
 
 // Mock DB
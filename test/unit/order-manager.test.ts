@@ -25,9 +25,18 @@ vi.mock('../../src/utils/helpers.js', () => ({
 }));
 
 // Mock orders repository (used by order-manager for order tracking)
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  recordIntent: vi.fn(() => 1),
+  markIntentSubmitted: vi.fn(),
+  completeIntent: vi.fn(),
+  abandonIntent: vi.fn(),
+}));
+
 vi.mock('../../src/db/repositories/orders.js', () => ({
   createOrder: vi.fn().mockReturnValue(1),
   updateOrderStatus: vi.fn(),
+  cancelOrder: vi.fn(),
+  getOrderByT212Id: vi.fn(),
 }));
 
 // Mock DB
@@ -88,6 +97,8 @@ vi.mock('drizzle-orm', () => ({
 }));
 
 // ── Import SUT after mocks ─────────────────────────────────────────────────
+import { ApiError } from '../../src/api/trading212/errors.js';
+import { abandonIntent } from '../../src/db/repositories/order-intents.js';
 import { OrderManager, type BuyParams, type CloseParams } from '../../src/execution/order-manager.js';
 
 function makeBuyParams(overrides: Partial<BuyParams> = {}): BuyParams {
@@ -195,6 +206,33 @@ describe('OrderManager', () => {
     });
   });
 
+  // ── executeBuy: paper broker ───────────────────────────────────────────
+  describe('executeBuy - paper broker', () => {
+    it('sends orders to the paper broker even in dry run', async () => {
+      mockConfigGet.mockImplementation((key: string) => {
+        const defaults: Record<string, unknown> = {
+          'execution.dryRun': true,
+          'execution.paperBroker.enabled': true,
+          'execution.orderTimeoutSeconds': 10,
+          'execution.stopLossDelay': 3000,
+        };
+        return defaults[key];
+      });
+      const client = makeMockT212Client();
+      client.placeMarketOrder.mockResolvedValue({ id: 130 });
+      client.getOrder.mockResolvedValue({ status: 'FILLED', filledValue: 1500, filledQuantity: 10 });
+      client.placeStopOrder.mockResolvedValue({ id: 230 });
+      orderManager.setT212Client(client);
+      mockSelectChain.get.mockReturnValueOnce(undefined);
+      mockTxInsertChain.run.mockReturnValue({ lastInsertRowid: 7n });
+
+      const result = await orderManager.executeBuy(makeBuyParams());
+
+      expect(result).toMatchObject({ success: true, orderId: '130' });
+      expect(client.placeMarketOrder).toHaveBeenCalledOnce();
+    });
+  });
+
   // ── executeBuy: live ───────────────────────────────────────────────────
   describe('executeBuy - live', () => {
     beforeEach(() => {
@@ -315,6 +353,23 @@ describe('OrderManager', () => {
       expect(result.error).toBe('API down');
     });
 
+    it('fails the intent only when the broker rejected the order', async () => {
+      const client = makeMockT212Client();
+      client.placeMarketOrder
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockRejectedValueOnce(new ApiError('Insufficient funds', 400));
+      orderManager.setT212Client(client);
+
+      mockSelectChain.get.mockReturnValueOnce(undefined);
+      await orderManager.executeBuy(makeBuyParams());
+      // The order may have reached Trading212: reconciliation decides
+      expect(abandonIntent).not.toHaveBeenCalled();
+
+      mockSelectChain.get.mockReturnValueOnce(undefined);
+      await orderManager.executeBuy(makeBuyParams());
+      expect(abandonIntent).toHaveBeenCalledOnce();
+    });
+
     it('handles non-Error thrown values', async () => {
       const client = makeMockT212Client();
       client.placeMarketOrder.mockRejectedValue('string error');
@@ -691,6 +746,72 @@ describe('OrderManager', () => {
       expect(result.success).toBe(true);
     });
 
+    it('reconciles instead of selling when the stop already filled at the broker', async () => {
+      const client = makeMockT212Client();
+      client.cancelOrder.mockRejectedValue(new Error('Order not found'));
+      client.getOrder.mockResolvedValue({
+        status: 'FILLED',
+        filledValue: 1330,
+        filledQuantity: 10,
+      });
+
+      orderManager.setT212Client(client);
+      const position = {
+        symbol: 'AAPL',
+        shares: 10,
+        entryPrice: 140,
+        currentPrice: 135,
+        entryTime: '2024-01-01T00:00:00Z',
+        stopOrderId: '997',
+      };
+      mockSelectChain.get.mockReturnValueOnce(position).mockReturnValueOnce(position);
+
+      const result = await orderManager.executeClose(makeCloseParams());
+
+      expect(result.success).toBe(true);
+      expect(result.orderId).toBe('997');
+      expect(client.placeMarketOrder).not.toHaveBeenCalled();
+      expect(mockTxInsertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ exitPrice: 133, exitReason: 'Stop-loss filled at broker' }),
+      );
+    });
+
+    it('closes the shares a partial broker stop fill left open', async () => {
+      const client = makeMockT212Client();
+      client.cancelOrder.mockRejectedValue(new Error('Order not found'));
+      client.getOrder
+        .mockResolvedValueOnce({ status: 'FILLED', filledValue: 532, filledQuantity: 4 })
+        .mockResolvedValue({ status: 'FILLED', filledValue: 804, filledQuantity: 6 });
+      client.placeMarketOrder.mockResolvedValue({ id: 304 });
+
+      orderManager.setT212Client(client);
+      const position = {
+        id: 1,
+        symbol: 'AAPL',
+        shares: 10,
+        entryPrice: 140,
+        currentPrice: 135,
+        entryTime: '2024-01-01T00:00:00Z',
+        stopOrderId: '996',
+      };
+      const remainder = { ...position, shares: 6, stopOrderId: null };
+      mockSelectChain.get
+        .mockReturnValueOnce(position)
+        .mockReturnValueOnce(position)
+        .mockReturnValueOnce(remainder)
+        .mockReturnValueOnce(remainder);
+      mockTxInsertChain.run.mockReturnValue({ lastInsertRowid: 14n });
+
+      const result = await orderManager.executeClose(makeCloseParams());
+
+      expect(result.success).toBe(true);
+      expect(result.orderId).toBe('304');
+      expect(client.placeMarketOrder).toHaveBeenCalledTimes(1);
+      expect(client.placeMarketOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 6 }),
+      );
+    });
+
     it('returns error when sell order fill times out', async () => {
       const client = makeMockT212Client();
       client.placeMarketOrder.mockResolvedValue({ id: 303 });
@@ -33,6 +33,13 @@ const mockCancelOrder = vi.fn();
 const mockFindOrderReplacedBy = vi.fn().mockReturnValue(undefined);
 const mockSetReplacedByOrderId = vi.fn();
 
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  recordIntent: vi.fn(() => 1),
+  markIntentSubmitted: vi.fn(),
+  completeIntent: vi.fn(),
+  abandonIntent: vi.fn(),
+}));
+
 vi.mock('../../src/db/repositories/orders.js', () => ({
   createOrder: (...args: unknown[]) => mockCreateOrder(...args),
   updateOrderStatus: (...args: unknown[]) => mockUpdateOrderStatus(...args),
@@ -0,0 +1,342 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Mock the logger
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { ApiError, RateLimitError } from '../../src/api/trading212/errors.js';
+import { PaperBroker, type PaperBrokerOptions } from '../../src/api/trading212/paper-broker.js';
+import type { Order } from '../../src/db/repositories/orders.js';
+import { OrderSynchronizer } from '../../src/execution/order-sync.js';
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const START = Date.parse('2024-03-04T15:00:00Z');
+
+function broker(options: PaperBrokerOptions = {}) {
+  let now = START;
+  const paper = new PaperBroker({ initialCash: 10_000, now: () => now, ...options });
+  return {
+    paper,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+async function expectApiError(promise: Promise<unknown>, status: number, code: string) {
+  const err = await promise.catch((e: unknown) => e);
+  expect(err).toBeInstanceOf(ApiError);
+  expect((err as ApiError).statusCode).toBe(status);
+  expect(JSON.parse((err as ApiError).response as string).code).toBe(code);
+}
+
+function localOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 1,
+    symbol: 'AAPL',
+    side: 'BUY',
+    orderType: 'limit',
+    status: 'open',
+    requestedQuantity: 10,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  } as Order;
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+describe('PaperBroker', () => {
+  it('fills a market buy at the ask and books the position and cash', async () => {
+    const { paper } = broker({ spreadBps: 20 });
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    const placed = await paper.placeMarketOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 10,
+      timeValidity: 'DAY',
+    });
+    expect(placed.status).toBe('NEW');
+
+    const order = await paper.getOrder(placed.id);
+    expect(order.status).toBe('FILLED');
+    expect(order.filledQuantity).toBe(10);
+    expect(order.filledValue).toBeCloseTo(1001, 6);
+
+    const [position] = await paper.getPortfolio();
+    expect(position).toMatchObject({ ticker: 'AAPL_US_EQ', quantity: 10, averagePrice: 100.1 });
+    expect((await paper.getAccountCash()).free).toBe(8999);
+  });
+
+  it('treats a negative quantity as a sell and realises the P&L', async () => {
+    const { paper } = broker();
+    paper.updateQuote('AAPL_US_EQ', 100);
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 10, timeValidity: 'DAY' });
+
+    paper.updateQuote('AAPL_US_EQ', 110);
+    const sell = await paper.placeMarketOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: -4,
+      timeValidity: 'DAY',
+    });
+
+    const order = await paper.getOrder(sell.id);
+    expect(order).toMatchObject({ side: 'SELL', status: 'FILLED', filledQuantity: -4 });
+    expect((await paper.getPosition('AAPL_US_EQ')).quantity).toBe(6);
+    expect((await paper.getAccountSummary()).investments?.realizedProfitLoss).toBe(40);
+  });
+
+  it('rests a limit order until the quote crosses it', async () => {
+    const { paper } = broker();
+    paper.updateQuote('MSFT_US_EQ', 400);
+
+    const placed = await paper.placeLimitOrder({
+      ticker: 'MSFT_US_EQ',
+      quantity: 5,
+      limitPrice: 390,
+      timeValidity: 'GTC',
+    });
+    expect((await paper.getOrder(placed.id)).status).toBe('WORKING');
+    expect((await paper.getAccountCash()).reservedForOrders).toBe(1950);
+    expect(await paper.getOrders()).toHaveLength(1);
+
+    paper.updateQuote('MSFT_US_EQ', 389);
+    const filled = await paper.getOrder(placed.id);
+    expect(filled.status).toBe('FILLED');
+    expect(filled.filledValue).toBe(1945);
+    expect((await paper.getAccountCash()).reservedForOrders).toBe(0);
+    expect(await paper.getOrders()).toHaveLength(0);
+  });
+
+  it('fills a triggered sell stop at the gapped price, not the stop', async () => {
+    const { paper } = broker();
+    paper.updateQuote('AAPL_US_EQ', 100);
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 10, timeValidity: 'DAY' });
+
+    const stop = await paper.placeStopOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: -10,
+      stopPrice: 95,
+      timeValidity: 'GTC',
+    });
+    paper.updateQuote('AAPL_US_EQ', 96);
+    expect((await paper.getOrder(stop.id)).status).toBe('WORKING');
+    expect((await paper.getPosition('AAPL_US_EQ')).quantityAvailableForTrading).toBe(0);
+
+    paper.updateQuote('AAPL_US_EQ', 90);
+    const filled = await paper.getOrder(stop.id);
+    expect(filled.status).toBe('FILLED');
+    expect(filled.filledValue).toBe(900);
+    expect(await paper.getPortfolio()).toEqual([]);
+  });
+
+  it('holds a triggered stop-limit until the limit is marketable', async () => {
+    const { paper } = broker();
+    paper.updateQuote('AAPL_US_EQ', 100);
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 10, timeValidity: 'DAY' });
+
+    const stop = await paper.placeStopLimitOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: -10,
+      stopPrice: 95,
+      limitPrice: 94,
+      timeValidity: 'GTC',
+    });
+    paper.updateQuote('AAPL_US_EQ', 90);
+    expect((await paper.getOrder(stop.id)).status).toBe('WORKING');
+
+    paper.updateQuote('AAPL_US_EQ', 94.5);
+    expect((await paper.getOrder(stop.id)).status).toBe('FILLED');
+  });
+
+  it('rejects orders it cannot cover with the API error codes', async () => {
+    const { paper } = broker({ initialCash: 1000 });
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    await expectApiError(
+      paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 11, timeValidity: 'DAY' }),
+      400,
+      'InsufficientFreeForStocksBuy',
+    );
+    await expectApiError(
+      paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: -1, timeValidity: 'DAY' }),
+      400,
+      'SellingEquityNotOwned',
+    );
+    await expectApiError(paper.getOrder(999), 404, 'OrderNotFound');
+    await expectApiError(paper.getPosition('AAPL_US_EQ'), 404, 'PositionNotFound');
+  });
+
+  it('opens and covers a short when shorting is allowed', async () => {
+    const { paper } = broker({ allowShort: true });
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: -10, timeValidity: 'DAY' });
+    expect((await paper.getPosition('AAPL_US_EQ')).quantity).toBe(-10);
+    expect(await paper.getAccountCash()).toMatchObject({ free: 11_000, total: 10_000 });
+
+    // A buy stop above the market protects the short
+    const stop = await paper.placeStopOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 10,
+      stopPrice: 105,
+      timeValidity: 'GTC',
+    });
+    paper.updateQuote('AAPL_US_EQ', 90);
+    expect((await paper.getOrder(stop.id)).status).toBe('WORKING');
+    await paper.cancelOrder(stop.id);
+
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 10, timeValidity: 'DAY' });
+    expect(await paper.getPortfolio()).toEqual([]);
+    expect((await paper.getAccountSummary()).investments?.realizedProfitLoss).toBe(100);
+    expect((await paper.getAccountCash()).free).toBe(10_100);
+  });
+
+  it('triggers a buy stop above a short', async () => {
+    const { paper } = broker({ allowShort: true });
+    paper.updateQuote('AAPL_US_EQ', 100);
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: -10, timeValidity: 'DAY' });
+
+    const stop = await paper.placeStopOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 10,
+      stopPrice: 105,
+      timeValidity: 'GTC',
+    });
+    paper.updateQuote('AAPL_US_EQ', 106);
+
+    expect((await paper.getOrder(stop.id)).status).toBe('FILLED');
+    expect(await paper.getPortfolio()).toEqual([]);
+    expect((await paper.getAccountSummary()).investments?.realizedProfitLoss).toBe(-60);
+  });
+
+  it('rejects a resting buy at fill time when cash has gone elsewhere', async () => {
+    const { paper } = broker({ initialCash: 1000 });
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    // Stop buys reserve at the stop but fill at market, which may gap higher
+    const stop = await paper.placeStopOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 9,
+      stopPrice: 105,
+      timeValidity: 'GTC',
+    });
+    paper.updateQuote('AAPL_US_EQ', 120);
+
+    expect((await paper.getOrder(stop.id)).status).toBe('REJECTED');
+    expect((await paper.getAccountCash()).free).toBe(1000);
+  });
+
+  it('cancels orders and expires DAY orders at the next session', async () => {
+    const { paper, advance } = broker();
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    const gtc = await paper.placeLimitOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 1,
+      limitPrice: 90,
+      timeValidity: 'GTC',
+    });
+    const day = await paper.placeLimitOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 1,
+      limitPrice: 90,
+      timeValidity: 'DAY',
+    });
+
+    await paper.cancelOrder(gtc.id);
+    expect((await paper.getOrder(gtc.id)).status).toBe('CANCELLED');
+    await expectApiError(paper.cancelOrder(gtc.id), 400, 'OrderNotCancellable');
+
+    advance(24 * 60 * 60 * 1000);
+    paper.updateQuote('AAPL_US_EQ', 85);
+    expect((await paper.getOrder(day.id)).status).toBe('CANCELLED');
+    expect((await paper.getAccountCash()).reservedForOrders).toBe(0);
+  });
+
+  it('pulls stale quotes from the provider before answering', async () => {
+    const quoteProvider = vi.fn(async (tickers: string[]) => new Map(tickers.map((t) => [t, 50])));
+    const { paper } = broker({ quoteProvider });
+
+    const placed = await paper.placeMarketOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 2,
+      timeValidity: 'DAY',
+    });
+
+    expect(quoteProvider).toHaveBeenCalledWith(['AAPL_US_EQ']);
+    expect((await paper.getOrder(placed.id)).filledValue).toBe(100);
+  });
+
+  it('reports rate-limit headers and raises 429s when enforcing', async () => {
+    const { paper, advance } = broker({ enforceRateLimits: true });
+
+    await paper.getPortfolio();
+    expect(paper.getRateLimitInfo('/equity/portfolio')).toMatchObject({
+      limit: 1,
+      period: 5,
+      remaining: 0,
+      used: 1,
+    });
+
+    await expect(paper.getPortfolio()).rejects.toBeInstanceOf(RateLimitError);
+
+    advance(5000);
+    await expect(paper.getPortfolio()).resolves.toEqual([]);
+  });
+
+  it('drives OrderSynchronizer through the live status mapping', async () => {
+    const { paper } = broker();
+    const sync = new OrderSynchronizer(paper);
+    paper.updateQuote('AAPL_US_EQ', 100);
+
+    const placed = await paper.placeLimitOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 10,
+      limitPrice: 95,
+      timeValidity: 'GTC',
+    });
+    const local = localOrder({ status: 'pending', t212OrderId: String(placed.id) });
+
+    expect(await sync.syncOrder(local)).toMatchObject({ status: 'open' });
+
+    paper.updateQuote('AAPL_US_EQ', 94);
+    expect(await sync.syncOrder({ ...local, status: 'open' })).toMatchObject({
+      status: 'filled',
+      filledQuantity: 10,
+      filledPrice: 94,
+    });
+
+    const cancelled = await paper.placeLimitOrder({
+      ticker: 'AAPL_US_EQ',
+      quantity: 1,
+      limitPrice: 80,
+      timeValidity: 'GTC',
+    });
+    await paper.cancelOrder(cancelled.id);
+    expect(
+      await sync.syncOrder(localOrder({ id: 2, t212OrderId: String(cancelled.id) })),
+    ).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('lists closed orders in the order history, newest first', async () => {
+    const { paper } = broker();
+    paper.updateQuote('AAPL_US_EQ', 100);
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: 1, timeValidity: 'DAY' });
+    await paper.placeMarketOrder({ ticker: 'AAPL_US_EQ', quantity: -1, timeValidity: 'DAY' });
+
+    const page = await paper.getOrderHistory({ limit: 1 });
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0]).toMatchObject({ id: 2, status: 'FILLED', filledQuantity: -1 });
+    expect(page.nextPagePath).toContain('cursor=2');
+
+    const next = await paper.getOrderHistory({ cursor: 2, limit: 1 });
+    expect(next.items[0]?.id).toBe(1);
+  });
+});
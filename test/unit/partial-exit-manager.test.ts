@@ -14,12 +14,22 @@ vi.mock('../../src/db/index.js', () => ({
   getDb: vi.fn(),
 }));
 
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  recordIntent: vi.fn(() => 1),
+  markIntentSubmitted: vi.fn(),
+  completeIntent: vi.fn(),
+  abandonIntent: vi.fn(),
+}));
+
 vi.mock('../../src/db/repositories/orders.js', () => ({
   createOrder: vi.fn(() => 1),
   updateOrderStatus: vi.fn(),
+  cancelOrder: vi.fn(),
+  getOrderByT212Id: vi.fn(),
 }));
 
 vi.mock('drizzle-orm', () => ({
+  and: vi.fn(),
   eq: vi.fn(),
 }));
 
@@ -434,6 +444,7 @@ describe('PartialExitManager', () => {
       vi.mocked(configManager.get).mockImplementation((key: string) => {
         if (key === 'partialExit.moveStopToBreakeven') return false;
         if (key === 'execution.dryRun') return true;
+        if (key === 'execution.paperBroker.enabled') return false;
         return true;
       });
 
@@ -434,6 +434,40 @@ describe('PerformanceTracker', () => {
     });
   });
 
+  describe('getCurrencyBreakdown', () => {
+    it('separates FX from price P&L per instrument currency', () => {
+      mockTradesAll
+        .mockReturnValueOnce([
+          { pnl: 100, exitPrice: 110, currency: null, accountCurrency: null },
+          {
+            pnl: 30,
+            pricePnl: 50,
+            fxPnl: -20,
+            exitPrice: 260,
+            currency: 'GBX',
+            accountCurrency: 'USD',
+          },
+        ])
+        .mockReturnValueOnce([
+          { pnl: 12, pricePnl: 10, fxPnl: 2, currency: 'EUR', accountCurrency: 'USD' },
+        ]);
+
+      const result = tracker.getCurrencyBreakdown();
+
+      expect(result).toEqual([
+        expect.objectContaining({ currency: 'account', trades: 1, pricePnl: 100, fxPnl: 0 }),
+        expect.objectContaining({ currency: 'GBX', trades: 1, pricePnl: 50, fxPnl: -20 }),
+        expect.objectContaining({
+          currency: 'EUR',
+          trades: 0,
+          openPositions: 1,
+          unrealizedPricePnl: 10,
+          unrealizedFxPnl: 2,
+        }),
+      ]);
+    });
+  });
+
   // ── generateDailySummary ───────────────────────────────────────────────
   describe('generateDailySummary', () => {
     it('generates summary with trades and open positions', () => {
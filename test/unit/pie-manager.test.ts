@@ -0,0 +1,248 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const config: Record<string, unknown> = {};
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: { get: vi.fn((key: string) => config[key]) },
+}));
+
+const mockLoad = vi.fn();
+
+vi.mock('../../src/data/candle-store.js', () => ({
+  getCandleStore: () => ({ load: mockLoad }),
+}));
+
+vi.mock('../../src/db/repositories/pies.js', () => ({
+  deleteManagedPie: vi.fn(),
+  getManagedPie: vi.fn(() => null),
+  getPieSnapshots: vi.fn(() => []),
+  insertPieSnapshot: vi.fn((snapshot) => ({ id: 1, timestamp: 'now', ...snapshot })),
+  markManagedPieChecked: vi.fn(),
+  saveManagedPie: vi.fn(),
+}));
+
+import { ApiError } from '../../src/api/trading212/errors.js';
+import {
+  deleteManagedPie,
+  getManagedPie,
+  insertPieSnapshot,
+  markManagedPieChecked,
+  saveManagedPie,
+} from '../../src/db/repositories/pies.js';
+import { PieManager } from '../../src/execution/pie-manager.js';
+
+/** Daily closes swinging by `swing` around 100, so volatility scales with it. */
+function candles(swing: number, bars = 60) {
+  return Array.from({ length: bars }, (_, i) => ({
+    date: new Date(Date.UTC(2025, 0, 1 + i)).toISOString(),
+    open: 100,
+    high: 100,
+    low: 100,
+    close: 100 * (1 + (i % 2 === 0 ? swing : -swing)),
+    volume: 1000,
+  }));
+}
+
+const SWINGS: Record<string, number> = { SPY: 0.01, QQQ: 0.02, GLD: 0.04 };
+const resolveTicker = (symbol: string) => `${symbol}_US_EQ`;
+
+function mockClient() {
+  return {
+    createPie: vi.fn().mockResolvedValue({ id: 77 }),
+    updatePie: vi.fn().mockResolvedValue({ id: 77 }),
+    getPie: vi.fn(),
+    getPies: vi.fn(),
+  };
+}
+
+function managed(instrumentShares: Record<string, number>) {
+  return {
+    id: 1,
+    accountType: 'INVEST',
+    pieId: 77,
+    name: 'Core',
+    method: 'riskParity',
+    instrumentShares,
+    goal: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    rebalancedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('PieManager', () => {
+  let manager: PieManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(config, {
+      'pies.name': 'Core',
+      'pies.symbols': ['SPY', 'QQQ', 'GLD'],
+      'pies.method': 'riskParity',
+      'pies.lookbackDays': 180,
+      'pies.maxInstrumentShare': 1,
+      'pies.goal': 0,
+      'pies.dividendCashAction': 'REINVEST',
+      'pies.rebalanceIntervalDays': 30,
+      'pies.minShareChange': 0.03,
+      'riskParity.lookbackDays': 60,
+    });
+    mockLoad.mockImplementation(async (symbol: string) => candles(SWINGS[symbol] ?? 0.01));
+    manager = new PieManager();
+  });
+
+  describe('computeShares', () => {
+    it('weights instruments by inverse volatility in shares summing to 1', async () => {
+      const shares = await manager.computeShares(['SPY', 'QQQ', 'GLD'], 'riskParity', resolveTicker);
+
+      expect(Object.values(shares).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+      expect(shares.SPY_US_EQ).toBeCloseTo(4 / 7, 2);
+      expect(shares.QQQ_US_EQ).toBeCloseTo(2 / 7, 2);
+      expect(shares.GLD_US_EQ).toBeCloseTo(1 / 7, 2);
+    });
+
+    it('caps each share and spreads the excess', async () => {
+      config['pies.maxInstrumentShare'] = 0.4;
+
+      const shares = await manager.computeShares(['SPY', 'QQQ', 'GLD'], 'riskParity', resolveTicker);
+
+      expect(shares.SPY_US_EQ).toBe(0.4);
+      expect(shares.QQQ_US_EQ + shares.GLD_US_EQ).toBeCloseTo(0.6, 10);
+      expect(shares.QQQ_US_EQ).toBeGreaterThan(shares.GLD_US_EQ);
+    });
+
+    it('skips instruments without a ticker or enough history', async () => {
+      mockLoad.mockImplementation(async (symbol: string) =>
+        symbol === 'QQQ' ? candles(0.02, 10) : candles(0.01),
+      );
+
+      const shares = await manager.computeShares(['SPY', 'QQQ', 'XYZ'], 'riskParity', (s) =>
+        s === 'XYZ' ? null : resolveTicker(s),
+      );
+
+      expect(shares).toEqual({ SPY_US_EQ: 1 });
+    });
+  });
+
+  describe('rebalance', () => {
+    it('creates the pie on first use', async () => {
+      const client = mockClient();
+
+      const result = await manager.rebalance(client as any, 'INVEST', resolveTicker);
+
+      expect(result.action).toBe('created');
+      expect(client.createPie).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Core', dividendCashAction: 'REINVEST' }),
+      );
+      expect(client.createPie.mock.calls[0][0]).not.toHaveProperty('goal');
+      expect(saveManagedPie).toHaveBeenCalledWith(
+        expect.objectContaining({ accountType: 'INVEST', pieId: 77, method: 'riskParity' }),
+      );
+    });
+
+    it('leaves the pie alone when the allocation barely moved', async () => {
+      vi.mocked(getManagedPie).mockReturnValue(
+        managed({ SPY_US_EQ: 0.56, QQQ_US_EQ: 0.29, GLD_US_EQ: 0.15 }) as any,
+      );
+      const client = mockClient();
+
+      const result = await manager.rebalance(client as any, 'INVEST', resolveTicker);
+
+      expect(result.action).toBe('unchanged');
+      expect(client.updatePie).not.toHaveBeenCalled();
+      expect(saveManagedPie).not.toHaveBeenCalled();
+      expect(markManagedPieChecked).toHaveBeenCalledWith('INVEST');
+    });
+
+    it('rewrites the shares when the allocation moved', async () => {
+      vi.mocked(getManagedPie).mockReturnValue(
+        managed({ SPY_US_EQ: 0.34, QQQ_US_EQ: 0.33, GLD_US_EQ: 0.33 }) as any,
+      );
+      config['pies.goal'] = 10_000;
+      const client = mockClient();
+
+      const result = await manager.rebalance(client as any, 'INVEST', resolveTicker);
+
+      expect(result.action).toBe('updated');
+      expect(client.updatePie).toHaveBeenCalledWith(77, expect.objectContaining({ goal: 10_000 }));
+      expect(saveManagedPie).toHaveBeenCalled();
+    });
+
+    it('recreates a pie deleted in the app', async () => {
+      vi.mocked(getManagedPie).mockReturnValue(managed({ SPY_US_EQ: 1 }) as any);
+      const client = mockClient();
+      client.updatePie.mockRejectedValue(new ApiError('Pie not found', 404));
+
+      const result = await manager.rebalance(client as any, 'INVEST', resolveTicker);
+
+      expect(result.action).toBe('created');
+      expect(deleteManagedPie).toHaveBeenCalledWith('INVEST');
+      expect(client.createPie).toHaveBeenCalled();
+    });
+  });
+
+  it('is due for a rebalance once the interval has passed', () => {
+    vi.mocked(getManagedPie).mockReturnValue(managed({ SPY_US_EQ: 1 }) as any);
+
+    expect(manager.isRebalanceDue('INVEST', new Date('2025-01-20T00:00:00.000Z'))).toBe(false);
+    expect(manager.isRebalanceDue('INVEST', new Date('2025-02-01T00:00:00.000Z'))).toBe(true);
+  });
+
+  it('waits a full interval after a check that left the shares unchanged', () => {
+    vi.mocked(getManagedPie).mockReturnValue({
+      ...managed({ SPY_US_EQ: 1 }),
+      checkedAt: '2025-01-25T00:00:00.000Z',
+    } as any);
+
+    expect(manager.isRebalanceDue('INVEST', new Date('2025-02-01T00:00:00.000Z'))).toBe(false);
+    expect(manager.isRebalanceDue('INVEST', new Date('2025-02-24T00:00:00.000Z'))).toBe(true);
+  });
+
+  it('snapshots value, return and drift', async () => {
+    vi.mocked(getManagedPie).mockReturnValue(
+      managed({ SPY_US_EQ: 0.6, QQQ_US_EQ: 0.4 }) as any,
+    );
+    const client = mockClient();
+    client.getPie.mockResolvedValue({
+      instruments: [
+        { ticker: 'SPY_US_EQ', expectedShare: 0.6, currentShare: 0.7 },
+        { ticker: 'QQQ_US_EQ', expectedShare: 0.4, currentShare: 0.3 },
+      ],
+    });
+    client.getPies.mockResolvedValue([
+      {
+        id: 77,
+        cash: 5,
+        progress: 0.25,
+        result: {
+          priceAvgInvestedValue: 1000,
+          priceAvgValue: 1100,
+          priceAvgResult: 100,
+          priceAvgResultCoef: 0.1,
+        },
+      },
+    ]);
+
+    const snapshot = await manager.snapshot(client as any, 'INVEST');
+
+    expect(snapshot?.drift).toBeCloseTo(0.1, 10);
+    expect(insertPieSnapshot).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pieId: 77,
+        value: 1100,
+        invested: 1000,
+        returnPct: 0.1,
+        cash: 5,
+        currentShares: { SPY_US_EQ: 0.7, QQQ_US_EQ: 0.3 },
+      }),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const config: Record<string, unknown> = {};
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: { get: vi.fn((key: string) => config[key]) },
+}));
+
+let positionRows: Array<Record<string, unknown>> = [];
+
+vi.mock('../../src/db/index.js', () => ({
+  getDb: () => ({
+    select: () => ({
+      from: () => ({
+        where: () => ({ all: () => positionRows }),
+      }),
+    }),
+  }),
+}));
+
+import type { CorrelationAnalyzer } from '../../src/analysis/correlation.js';
+import { PortfolioOptimizer } from '../../src/analysis/portfolio-optimizer.js';
+import {
+  historicalRisk,
+  normalQuantile,
+  PortfolioRiskAnalyzer,
+  parametricRisk,
+} from '../../src/analysis/portfolio-risk.js';
+
+/** 40 days alternating between +up and -down */
+const swing = (up: number, down = up) =>
+  Array.from({ length: 40 }, (_, i) => (i % 2 === 0 ? up : -down));
+
+function analyzerWith(returns: Record<string, number[]>) {
+  const correlation = { getReturns: (symbol: string) => returns[symbol] ?? [] };
+  return new PortfolioRiskAnalyzer(
+    correlation as unknown as CorrelationAnalyzer,
+    new PortfolioOptimizer(),
+  );
+}
+
+function position(symbol: string, shares: number, price: number, direction = 'LONG') {
+  return { symbol, shares, entryPrice: price, currentPrice: price, direction };
+}
+
+describe('portfolio risk statistics', () => {
+  it('inverts the normal CDF', () => {
+    expect(normalQuantile(0.95)).toBeCloseTo(1.644854, 5);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.326348, 5);
+    expect(normalQuantile(0.05)).toBeCloseTo(-1.644854, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+  });
+
+  it('reads historical VaR and CVaR off the loss tail', () => {
+    const pnls = Array.from({ length: 20 }, (_, i) => i - 10);
+    // 10% tail of 20 days = the two worst: -10 and -9
+    expect(historicalRisk(pnls, 0.9)).toEqual({ var: 9, cvar: 9.5 });
+    expect(historicalRisk([1, 2, 3], 0.95)).toEqual({ var: 0, cvar: 0 });
+  });
+
+  it('scales parametric VaR and CVaR with sigma', () => {
+    const { var: v, cvar } = parametricRisk(100, 0.95);
+    expect(v).toBeCloseTo(164.49, 2);
+    expect(cvar).toBeCloseTo(206.27, 2);
+  });
+});
+
+describe('PortfolioRiskAnalyzer', () => {
+  beforeEach(() => {
+    Object.assign(config, {
+      'risk.maxPortfolioVaRPct': 0.02,
+      'risk.varConfidence': 0.95,
+      'risk.varMethod': 'historical',
+      'risk.varLookbackDays': 120,
+    });
+    positionRows = [];
+  });
+
+  it('nets a short against a long with the same returns', () => {
+    const analyzer = analyzerWith({ AAPL: swing(0.02), MSFT: swing(0.02) });
+    const model = analyzer.buildModel(['AAPL', 'MSFT']);
+    if (!model) throw new Error('expected a model');
+
+    const longOnly = analyzer.measure(model, new Map([['AAPL', 10_000]]), 0.95);
+    expect(longOnly.historical.var).toBeCloseTo(200, 6);
+    expect(longOnly.parametric.var).toBeGreaterThan(300);
+
+    const hedged = analyzer.measure(
+      model,
+      new Map([
+        ['AAPL', 10_000],
+        ['MSFT', -10_000],
+      ]),
+      0.95,
+    );
+    expect(hedged.historical.var).toBeCloseTo(0, 6);
+    expect(hedged.parametric.var).toBeCloseTo(0, 6);
+  });
+
+  it('aligns series on the most recent days and leaves out short histories', () => {
+    const analyzer = analyzerWith({
+      AAPL: [...swing(0.05), ...swing(0.01).slice(0, 30)],
+      MSFT: swing(0.01).slice(0, 30),
+      NEW: [0.01, 0.02],
+    });
+
+    const model = analyzer.buildModel(['AAPL', 'MSFT', 'NEW']);
+
+    expect(model?.observations).toBe(30);
+    expect(model?.missing).toEqual(['NEW']);
+    expect(model?.returns.get('AAPL')).toEqual(swing(0.01).slice(0, 30));
+  });
+
+  it('reports VaR, budget use and per-position contributions', () => {
+    positionRows = [position('AAPL', 100, 100), position('MSFT', 50, 100, 'SHORT')];
+    const analyzer = analyzerWith({ AAPL: swing(0.02), MSFT: swing(0.01) });
+
+    const report = analyzer.report('INVEST', 50_000);
+
+    expect(report).toMatchObject({
+      accountType: 'INVEST',
+      method: 'historical',
+      observations: 40,
+      grossExposure: 15_000,
+      netExposure: 5_000,
+      missing: [],
+    });
+    // Worst day: AAPL -2% on 10,000 and MSFT -1% on a 5,000 short = -150
+    expect(report.historical.var).toBe(150);
+    expect(report.varPct).toBe(0.003);
+    expect(report.budgetUsed).toBe(0.15);
+    const total = report.positions.reduce((sum, p) => sum + p.contribution, 0);
+    expect(total).toBeCloseTo(report.parametric.var, 1);
+    expect(report.positions[0].symbol).toBe('AAPL');
+  });
+});
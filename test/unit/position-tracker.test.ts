@@ -232,6 +232,22 @@ describe('PositionTracker', () => {
       await tracker.syncWithT212(mockClient);
       expect(mockClient.getPortfolio).toHaveBeenCalledOnce();
     });
+
+    it('ignores shares held in pies', async () => {
+      mockDbAll.mockReturnValueOnce([
+        { symbol: 'AAPL', t212Ticker: 'AAPL_US_EQ', shares: 10 },
+      ]);
+
+      const mockClient = {
+        getPortfolio: vi.fn().mockResolvedValue([
+          { ticker: 'AAPL_US_EQ', quantity: 14, quantityInPies: 4, currentPrice: 150 },
+          { ticker: 'SPY_US_EQ', quantity: 3, quantityInPies: 3, currentPrice: 500 },
+        ]),
+      } as any;
+
+      await tracker.syncWithT212(mockClient);
+      expect(mockDbRun).not.toHaveBeenCalled();
+    });
   });
 
   // ── updateTrailingStops ────────────────────────────────────────────────
@@ -335,6 +351,7 @@ describe('PositionTracker', () => {
     it('triggers stop-loss exit', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 90,
           stopLoss: 95,
@@ -346,12 +363,13 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
     });
 
     it('triggers trailing stop exit', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 108,
           stopLoss: 95,
@@ -363,12 +381,13 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
     });
 
     it('triggers take-profit exit', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 200,
           stopLoss: 95,
@@ -380,13 +399,14 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
     });
 
     it('triggers max hold duration exit', async () => {
       const longAgo = new Date(Date.now() - 35 * 24 * 60 * 60 * 1000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 150,
           entryTime: longAgo,
@@ -399,12 +419,13 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
     });
 
     it('triggers AI price target exit', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 200,
           entryTime: new Date().toISOString(),
@@ -417,12 +438,13 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
     });
 
     it('skips positions with null currentPrice', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: null,
           stopLoss: 95,
@@ -440,6 +462,7 @@ describe('PositionTracker', () => {
     it('handles malformed aiExitConditions JSON gracefully', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 150,
           entryTime: new Date().toISOString(),
@@ -459,6 +482,7 @@ describe('PositionTracker', () => {
     it('does not trigger when conditions are not met', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 150,
           entryTime: new Date().toISOString(),
@@ -477,6 +501,7 @@ describe('PositionTracker', () => {
     it('does not trigger when no stop/tp values are set', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 150,
           stopLoss: null,
@@ -494,6 +519,7 @@ describe('PositionTracker', () => {
     it('returns exitReasons for stop-loss triggered positions', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 90,
           stopLoss: 95,
@@ -505,12 +531,13 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.exitReasons.AAPL).toBe('Stop-loss triggered');
+      expect(result.exitReasons[1]).toBe('Stop-loss triggered');
     });
 
     it('returns exitReasons for take-profit triggered positions', async () => {
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           currentPrice: 200,
           stopLoss: 95,
@@ -522,7 +549,7 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.exitReasons.AAPL).toBe('Take-profit triggered');
+      expect(result.exitReasons[1]).toBe('Take-profit triggered');
     });
 
     it('triggers ROI exit when enabled and profit exceeds threshold', async () => {
@@ -531,6 +558,7 @@ describe('PositionTracker', () => {
       const entryTime = new Date(Date.now() - 100 * 60000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           entryPrice: 100,
           currentPrice: 107,
@@ -548,14 +576,15 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
-      expect(result.exitReasons.AAPL).toBe('roi_table');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
+      expect(result.exitReasons[1]).toBe('roi_table');
     });
 
     it('does not trigger ROI exit when disabled', async () => {
       const entryTime = new Date(Date.now() - 100 * 60000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           entryPrice: 100,
           currentPrice: 107,
@@ -580,6 +609,7 @@ describe('PositionTracker', () => {
       const entryTime = new Date(Date.now() - 30 * 60000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           entryPrice: 100,
           currentPrice: 102,
@@ -605,6 +635,7 @@ describe('PositionTracker', () => {
       const entryTime = new Date(Date.now() - 1500 * 60000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           entryPrice: 100,
           currentPrice: 90, // below stop-loss
@@ -620,14 +651,15 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
-      expect(result.exitReasons.AAPL).toBe('Stop-loss triggered'); // NOT roi_table
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
+      expect(result.exitReasons[1]).toBe('Stop-loss triggered'); // NOT roi_table
     });
 
     it('handles ROI table as already-parsed object from configManager', async () => {
       const entryTime = new Date(Date.now() - 500 * 60000).toISOString();
       mockDbAll.mockReturnValueOnce([
         {
+          id: 1,
           symbol: 'AAPL',
           entryPrice: 100,
           currentPrice: 102,
@@ -646,8 +678,203 @@ describe('PositionTracker', () => {
 
       const result = await tracker.checkExitConditions();
 
-      expect(result.positionsToClose).toContain('AAPL');
-      expect(result.exitReasons.AAPL).toBe('roi_table');
+      expect(result.positionsToClose.map((p) => p.symbol)).toContain('AAPL');
+      expect(result.exitReasons[1]).toBe('roi_table');
+    });
+
+    it('closes only the account whose copy of the symbol breached its stop', async () => {
+      const held = {
+        symbol: 'AAPL',
+        currentPrice: 90,
+        trailingStop: null,
+        takeProfit: 200,
+        aiExitConditions: null,
+      };
+      mockDbAll.mockReturnValueOnce([
+        { ...held, id: 1, accountType: 'INVEST', stopLoss: 95 },
+        { ...held, id: 2, accountType: 'ISA', stopLoss: 85 },
+      ]);
+
+      const result = await tracker.checkExitConditions();
+
+      expect(result.positionsToClose.map((p) => p.id)).toEqual([1]);
+      expect(result.positionsToClose[0].accountType).toBe('INVEST');
+      expect(result.exitReasons).toEqual({ 1: 'Stop-loss triggered' });
+    });
+
+    it('evaluates each position under its account\'s config', async () => {
+      mockDbAll.mockReturnValueOnce([
+        { id: 1, symbol: 'AAPL', accountType: 'INVEST', currentPrice: 100 },
+        { id: 2, symbol: 'AAPL', accountType: 'ISA', currentPrice: 100 },
+      ]);
+      const withConfig = vi.fn((_pos, fn) => fn());
+
+      await tracker.checkExitConditions(withConfig);
+
+      expect(withConfig.mock.calls.map(([pos]) => pos.accountType)).toEqual(['INVEST', 'ISA']);
+    });
+  });
+
+  // ── streamed ticks ─────────────────────────────────────────────────────
+  describe('markPrice', () => {
+    it('revalues the position at the tick price and returns the row', async () => {
+      mockDbAll.mockReturnValueOnce([
+        {
+          symbol: 'AAPL',
+          entryPrice: 100,
+          shares: 10,
+          currentPrice: 100,
+          currency: null,
+          accountCurrency: null,
+        },
+      ]);
+
+      const [pos] = await tracker.markPrice('AAPL', 110);
+
+      expect(pos).toMatchObject({ currentPrice: 110, pnl: 100, pnlPct: expect.closeTo(0.1, 6) });
+      expect(mockChain.set).toHaveBeenCalledWith(expect.objectContaining({ currentPrice: 110 }));
+    });
+
+    it('revalues the copy held in each account', async () => {
+      const held = { symbol: 'AAPL', currentPrice: 100, currency: null, accountCurrency: null };
+      mockDbAll.mockReturnValueOnce([
+        { ...held, id: 1, accountType: 'INVEST', entryPrice: 100, shares: 10 },
+        { ...held, id: 2, accountType: 'ISA', entryPrice: 90, shares: 5 },
+      ]);
+
+      const marked = await tracker.markPrice('AAPL', 110);
+
+      expect(marked.map((p) => [p.accountType, p.pnl])).toEqual([
+        ['INVEST', 100],
+        ['ISA', 100],
+      ]);
+      expect(mockDbRun).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns no rows for a symbol that is not held', async () => {
+      mockDbAll.mockReturnValueOnce([]);
+
+      expect(await tracker.markPrice('NOPE', 10)).toEqual([]);
+      expect(mockDbRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exitReason', () => {
+    const pos = {
+      symbol: 'AAPL',
+      entryPrice: 100,
+      shares: 10,
+      currentPrice: 94,
+      pnl: -60,
+      entryTime: new Date().toISOString(),
+      stopLoss: 80,
+      trailingStop: null,
+      takeProfit: null,
+      aiExitConditions: null,
+    } as unknown as Parameters<PositionTracker['exitReason']>[0];
+
+    it('fires exit.conditions rules using the previous tick for crossings', () => {
+      mockConfigGet.mockImplementation((key: string) =>
+        key === 'exit.conditions' ? 'price crosses below 95' : false,
+      );
+
+      expect(tracker.exitReason(pos, 96)).toMatch(/^exit_condition: /);
+      expect(tracker.exitReason(pos, 94.5)).toBeNull();
+      mockConfigGet.mockReturnValue(false);
+    });
+
+    it('lets the stop-loss win over exit rules', () => {
+      mockConfigGet.mockImplementation((key: string) =>
+        key === 'exit.conditions' ? 'price below 95' : false,
+      );
+
+      expect(tracker.exitReason({ ...pos, currentPrice: 79 }, 81)).toBe('Stop-loss triggered');
+      mockConfigGet.mockReturnValue(false);
+    });
+  });
+
+  // ── short positions ────────────────────────────────────────────────────
+  describe('short positions', () => {
+    const short = {
+      id: 7,
+      symbol: 'TSLA',
+      direction: 'SHORT',
+      entryPrice: 100,
+      shares: 10,
+      entryTime: '2025-01-01T00:00:00.000Z',
+      stopLoss: 105,
+      trailingStop: null,
+      takeProfit: 90,
+      aiExitConditions: null,
+    };
+
+    it('trails the stop down as the price falls', async () => {
+      mockDbAll.mockReturnValueOnce([{ ...short, currentPrice: 80 }]);
+
+      await tracker.updateTrailingStops();
+
+      // 5% above 80
+      expect(mockChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ trailingStop: expect.closeTo(84, 6) }),
+      );
+    });
+
+    it('does not trail a short that is under water', async () => {
+      mockDbAll.mockReturnValueOnce([{ ...short, currentPrice: 102 }]);
+
+      await tracker.updateTrailingStops();
+
+      expect(mockDbRun).not.toHaveBeenCalled();
+    });
+
+    it('stops out when the price rises through the stop', async () => {
+      mockDbAll.mockReturnValueOnce([{ ...short, currentPrice: 106 }]);
+
+      const result = await tracker.checkExitConditions();
+
+      expect(result.exitReasons[7]).toBe('Stop-loss triggered');
+    });
+
+    it('takes profit when the price falls to the target', async () => {
+      mockDbAll.mockReturnValueOnce([{ ...short, currentPrice: 89 }]);
+
+      const result = await tracker.checkExitConditions();
+
+      expect(result.exitReasons[7]).toBe('Take-profit triggered');
+    });
+
+    it('holds between target and stop', async () => {
+      mockDbAll.mockReturnValueOnce([{ ...short, currentPrice: 97 }]);
+
+      const result = await tracker.checkExitConditions();
+
+      expect(result.positionsToClose).toHaveLength(0);
+    });
+
+    it('accrues borrow and overnight fees since the last accrual', () => {
+      mockDbAll.mockReturnValueOnce([
+        {
+          ...short,
+          id: 7,
+          currentPrice: 100,
+          financingCost: 1,
+          financingAccruedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ]);
+      mockConfigGet
+        .mockReturnValueOnce(0.03) // shorts.borrowFeeAnnualPct
+        .mockReturnValueOnce(0.02); // shorts.overnightFeeAnnualPct
+
+      const charged = tracker.accrueFinancing(new Date('2025-01-11T00:00:00.000Z'));
+
+      // $1,000 short x 5% x 10/365
+      expect(charged).toBeCloseTo((1000 * 0.05 * 10) / 365, 6);
+      expect(mockChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          financingCost: expect.closeTo(1 + (1000 * 0.05 * 10) / 365, 6),
+          financingAccruedAt: '2025-01-11T00:00:00.000Z',
+        }),
+      );
     });
   });
 });
@@ -323,6 +323,32 @@ describe('PriceStreamer', () => {
 
 			expect(triggers).toHaveLength(0);
 		});
+
+		it('inverts the checks for short positions', async () => {
+			const positions: PositionForStreaming[] = [
+				{
+					symbol: 'TSLA',
+					entryPrice: 200,
+					stopLossPrice: 210,
+					trailingStop: null,
+					takeProfitPrice: 180,
+					currentPrice: 200,
+					direction: 'SHORT',
+				},
+			];
+
+			streamer.setPositionProvider(() => positions);
+			streamer.setQuoteProvider(async () => new Map([['TSLA', 212]])); // Above the short's stop
+
+			const triggers: StopTriggered[] = [];
+			streamer.on('stop_triggered', (t) => triggers.push(t));
+
+			streamer.start();
+			await flushPolling();
+
+			expect(triggers).toHaveLength(1);
+			expect(triggers[0].stopType).toBe('stop_loss');
+		});
 	});
 
 	describe('error handling', () => {
@@ -0,0 +1,324 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: {
+    get: vi.fn((key: string) => {
+      const values: Record<string, unknown> = {
+        'execution.stopLossDelay': 3000,
+        'execution.brokerStops.minAmendPct': 0.005,
+      };
+      return values[key];
+    }),
+  },
+}));
+
+vi.mock('../../src/utils/helpers.js', () => ({
+  sleep: vi.fn(async () => {}),
+}));
+
+vi.mock('drizzle-orm', () => ({
+  eq: vi.fn((field, value) => ({ field, value, type: 'eq' })),
+}));
+
+vi.mock('../../src/db/schema.js', () => ({
+  positions: { id: 'id', stopOrderId: 'stopOrderId', accountType: 'accountType' },
+  trades: {},
+}));
+
+let mockDb: any;
+
+vi.mock('../../src/db/index.js', () => ({
+  getDb: () => mockDb,
+}));
+
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  recordIntent: vi.fn(() => 1),
+  markIntentSubmitted: vi.fn(),
+  completeIntent: vi.fn(),
+  abandonIntent: vi.fn(),
+}));
+
+vi.mock('../../src/db/repositories/orders.js', () => ({
+  createOrder: vi.fn(() => 41),
+  updateOrderStatus: vi.fn(),
+  cancelOrder: vi.fn(),
+  getOrderByT212Id: vi.fn(),
+}));
+
+import {
+  abandonIntent,
+  completeIntent,
+  markIntentSubmitted,
+  recordIntent,
+} from '../../src/db/repositories/order-intents.js';
+import {
+  cancelOrder,
+  createOrder,
+  getOrderByT212Id,
+  updateOrderStatus,
+} from '../../src/db/repositories/orders.js';
+import { ApiError } from '../../src/api/trading212/errors.js';
+import { configManager } from '../../src/config/manager.js';
+import { ProtectiveStops } from '../../src/execution/protective-stops.js';
+import { sleep } from '../../src/utils/helpers.js';
+
+function position(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    symbol: 'AAPL',
+    t212Ticker: 'AAPL_US_EQ',
+    shares: 10,
+    entryPrice: 100,
+    entryTime: '2025-01-02T15:00:00.000Z',
+    currentPrice: 120,
+    stopLoss: 95,
+    trailingStop: null as number | null,
+    stopOrderId: '500',
+    takeProfitOrderId: null as string | null,
+    accountType: 'INVEST',
+    currency: null,
+    accountCurrency: null,
+    entryFxRate: null,
+    currentFxRate: null,
+    ...overrides,
+  };
+}
+
+function mockClient() {
+  return {
+    placeStopOrder: vi.fn().mockResolvedValue({ id: 600 }),
+    cancelOrder: vi.fn().mockResolvedValue(undefined),
+    getOrder: vi.fn(),
+  };
+}
+
+describe('ProtectiveStops', () => {
+  let client: ReturnType<typeof mockClient>;
+  let stops: ProtectiveStops;
+  let rows: ReturnType<typeof position>[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rows = [position()];
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      all: vi.fn(() => rows),
+      get: vi.fn(() => rows[0]),
+      update: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      run: vi.fn(),
+      transaction: vi.fn((fn) => fn(mockDb)),
+    };
+    client = mockClient();
+    stops = new ProtectiveStops(client as any, 'INVEST');
+  });
+
+  describe('place', () => {
+    it('places a GTC stop and tracks it as a stoploss order', async () => {
+      const id = await stops.place(position() as any, 10, 95);
+
+      expect(id).toBe('600');
+      expect(createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ orderType: 'stop', orderTag: 'stoploss', stopPrice: 95 }),
+      );
+      expect(client.placeStopOrder).toHaveBeenCalledWith({
+        ticker: 'AAPL_US_EQ',
+        quantity: 10,
+        stopPrice: 95,
+        timeValidity: 'GTC',
+      });
+      expect(updateOrderStatus).toHaveBeenCalledWith(41, { status: 'open', t212OrderId: '600' });
+    });
+
+    it('writes an intent before the broker call and completes it afterwards', async () => {
+      await stops.place(position() as any, 10, 95);
+
+      expect(recordIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ localOrderId: 41, orderType: 'stop', purpose: 'stoploss' }),
+      );
+      expect(vi.mocked(recordIntent).mock.invocationCallOrder[0]).toBeLessThan(
+        client.placeStopOrder.mock.invocationCallOrder[0],
+      );
+      expect(markIntentSubmitted).toHaveBeenCalledWith(1, '600');
+      expect(completeIntent).toHaveBeenCalledWith(1);
+    });
+
+    it('marks the local order failed when the broker rejects it', async () => {
+      client.placeStopOrder.mockRejectedValue(new ApiError('Rejected', 400));
+
+      await expect(stops.place(position() as any, 10, 95)).rejects.toThrow('Rejected');
+      expect(updateOrderStatus).toHaveBeenCalledWith(41, {
+        status: 'failed',
+        cancelReason: 'Rejected',
+      });
+      expect(abandonIntent).toHaveBeenCalledWith(1, 'Rejected');
+    });
+
+    it('leaves the intent pending for reconciliation when the request may have landed', async () => {
+      client.placeStopOrder.mockRejectedValue(new Error('socket hang up'));
+
+      await expect(stops.place(position() as any, 10, 95)).rejects.toThrow('socket hang up');
+      expect(abandonIntent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels the broker stop and its local record', async () => {
+      vi.mocked(getOrderByT212Id).mockReturnValue({ id: 9 } as any);
+
+      expect(await stops.cancel(position() as any, 'Closing')).toEqual({ outcome: 'cancelled' });
+      expect(client.cancelOrder).toHaveBeenCalledWith(500);
+      expect(cancelOrder).toHaveBeenCalledWith(9, 'Closing');
+    });
+
+    it('reports a stop that filled before the cancel arrived', async () => {
+      client.cancelOrder.mockRejectedValue(new Error('Order not found'));
+      client.getOrder.mockResolvedValue({ status: 'FILLED', filledValue: 940, filledQuantity: 10 });
+
+      expect(await stops.cancel(position() as any, 'Closing')).toEqual({
+        outcome: 'filled',
+        fillPrice: 94,
+        filledQuantity: 10,
+      });
+      expect(cancelOrder).not.toHaveBeenCalled();
+    });
+
+    it('does nothing without a broker stop', async () => {
+      const result = await stops.cancel(position({ stopOrderId: null }) as any, 'Closing');
+
+      expect(result.outcome).toBe('none');
+      expect(client.cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('amend', () => {
+    it('cancels and re-places the stop, then points the position at it', async () => {
+      expect(await stops.amend(position() as any, 110, 5)).toBe(true);
+
+      expect(client.cancelOrder).toHaveBeenCalledWith(500);
+      expect(sleep).toHaveBeenCalledWith(3000);
+      expect(client.placeStopOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 5, stopPrice: 110 }),
+      );
+      expect(mockDb.set).toHaveBeenCalledWith({ stopOrderId: '600' });
+    });
+
+    it('falls back to the local stop when the re-place fails', async () => {
+      client.placeStopOrder.mockRejectedValue(new Error('Market closed'));
+
+      expect(await stops.amend(position() as any, 110)).toBe(false);
+      expect(mockDb.set).toHaveBeenCalledWith({ stopOrderId: null });
+    });
+
+    it('leaves a filled stop for reconciliation', async () => {
+      client.cancelOrder.mockRejectedValue(new Error('Order not found'));
+      client.getOrder.mockResolvedValue({ status: 'FILLED', filledValue: 950, filledQuantity: 10 });
+
+      expect(await stops.amend(position() as any, 110)).toBe(false);
+      expect(client.placeStopOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncTrailingStops', () => {
+    it('moves broker stops that trail meaningfully below the trailing stop', async () => {
+      rows = [
+        position({ trailingStop: 110 }),
+        // Within 0.5% of the broker stop
+        position({ id: 8, symbol: 'MSFT', stopOrderId: '501', trailingStop: 95.3 }),
+        // Nothing to mirror
+        position({ id: 9, symbol: 'NVDA', stopOrderId: null, trailingStop: 200 }),
+      ];
+      vi.mocked(getOrderByT212Id).mockReturnValue({ id: 9, stopPrice: 95 } as any);
+
+      expect(await stops.syncTrailingStops()).toEqual(['AAPL']);
+      expect(client.placeStopOrder).toHaveBeenCalledTimes(1);
+      expect(client.placeStopOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ ticker: 'AAPL_US_EQ', quantity: 10, stopPrice: 110 }),
+      );
+    });
+
+    it('reads the account config before the first await', async () => {
+      rows = [
+        position({ trailingStop: 110 }),
+        position({ id: 8, symbol: 'MSFT', stopOrderId: '501', trailingStop: 120 }),
+      ];
+      vi.mocked(getOrderByT212Id).mockReturnValue({ id: 9, stopPrice: 95 } as any);
+      const get = vi.mocked(configManager.get);
+      const global = get.getMockImplementation();
+      // The account override is only visible synchronously
+      get.mockImplementation((key: string) =>
+        key === 'execution.stopLossDelay' ? 500 : global?.(key),
+      );
+      const sync = stops.syncTrailingStops();
+      get.mockImplementation(global as any);
+
+      expect(await sync).toEqual(['AAPL', 'MSFT']);
+      expect(vi.mocked(sleep).mock.calls).toEqual([[500], [500]]);
+    });
+  });
+
+  describe('recordFill', () => {
+    it('records the SELL, closes the position and cancels its take-profit', async () => {
+      rows = [position({ takeProfitOrderId: '700' })];
+      vi.mocked(getOrderByT212Id).mockImplementation(
+        (id) => (id === '500' ? { id: 9, stopPrice: 95 } : { id: 10 }) as any,
+      );
+
+      const fill = await stops.recordFill('500', 94, 10);
+
+      expect(fill).toEqual({
+        symbol: 'AAPL',
+        accountType: 'INVEST',
+        side: 'SELL',
+        shares: 10,
+        exitPrice: 94,
+        pnl: -60,
+        pnlPct: -0.06,
+      });
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          side: 'SELL',
+          exitPrice: 94,
+          exitReason: 'Stop-loss filled at broker',
+          intendedPrice: 95,
+        }),
+      );
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(client.cancelOrder).toHaveBeenCalledWith(700);
+      expect(cancelOrder).toHaveBeenCalledWith(10, 'Position closed by stop-loss');
+    });
+
+    it('records a short stop fill as a BUY', async () => {
+      rows = [position({ direction: 'SHORT' })];
+      vi.mocked(getOrderByT212Id).mockReturnValue({ id: 9, stopPrice: 105 } as any);
+
+      const fill = await stops.recordFill('500', 106, 10);
+
+      expect(fill).toMatchObject({ side: 'BUY', shares: 10, exitPrice: 106 });
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'BUY', direction: 'SHORT' }),
+      );
+    });
+
+    it('ignores a stop no position holds any more', async () => {
+      rows = [];
+
+      expect(await stops.recordFill('500', 94, 10)).toBeNull();
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
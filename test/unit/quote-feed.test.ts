@@ -0,0 +1,415 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const config: Record<string, unknown> = {};
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: { get: vi.fn((key: string) => config[key]) },
+}));
+
+import type WebSocket from 'ws';
+import { PriceStreamer } from '../../src/data/price-streamer.js';
+import {
+  candlesToQuotes,
+  createQuoteFeed,
+  FailoverQuoteFeed,
+  FinnhubQuoteFeed,
+  PollingQuoteFeed,
+  type Quote,
+  type QuoteFeed,
+  ReplayQuoteFeed,
+} from '../../src/data/quote-feed.js';
+import { type ExitHandlers, ExitMonitor } from '../../src/execution/exit-monitor.js';
+import type { PositionTracker } from '../../src/execution/position-tracker.js';
+
+const NOW = Date.UTC(2025, 0, 2, 15, 0, 0);
+
+function collect(feed: QuoteFeed): Quote[] {
+  const quotes: Quote[] = [];
+  feed.on('quote', (q) => quotes.push(q));
+  return quotes;
+}
+
+/** A feed driven by hand */
+class ManualFeed extends EventEmitter implements Partial<QuoteFeed> {
+  symbols: string[] = [];
+  running = false;
+  constructor(readonly name: string) {
+    super();
+  }
+  start() {
+    this.running = true;
+  }
+  stop() {
+    this.running = false;
+  }
+  isRunning() {
+    return this.running;
+  }
+  subscribe(symbols: string[]) {
+    this.symbols = symbols;
+  }
+  push(symbol: string, price: number) {
+    this.emit('quote', { symbol, price, timestamp: new Date().toISOString() });
+  }
+}
+
+class FakeSocket extends EventEmitter {
+  sent: Array<{ type: string; symbol: string }> = [];
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  close = vi.fn();
+  trade(s: string, p: number, t: number) {
+    this.emit('message', Buffer.from(JSON.stringify({ type: 'trade', data: [{ s, p, t, v: 1 }] })));
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  for (const key of Object.keys(config)) delete config[key];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('PollingQuoteFeed', () => {
+  it('polls on the interval and straight away for new symbols', async () => {
+    const poll = vi.fn(async (symbols: string[]) => new Map(symbols.map((s) => [s, 10])));
+    const feed = new PollingQuoteFeed(poll, () => 15);
+    const quotes = collect(feed);
+
+    feed.subscribe(['AAPL']);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    feed.subscribe(['AAPL', 'MSFT']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(poll).toHaveBeenNthCalledWith(1, ['AAPL']);
+    expect(poll).toHaveBeenNthCalledWith(2, ['MSFT']);
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(poll).toHaveBeenNthCalledWith(3, ['AAPL', 'MSFT']);
+    expect(quotes.map((q) => q.symbol)).toEqual(['AAPL', 'MSFT', 'AAPL', 'MSFT']);
+    feed.stop();
+  });
+
+  it('reports poll failures as errors', async () => {
+    const feed = new PollingQuoteFeed(() => Promise.reject(new Error('timeout')), () => 15);
+    const errors: Error[] = [];
+    feed.on('error', (err) => errors.push(err));
+
+    feed.subscribe(['AAPL']);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(errors.map((e) => e.message)).toEqual(['timeout']);
+    feed.stop();
+  });
+});
+
+describe('FinnhubQuoteFeed', () => {
+  let socket: FakeSocket;
+  let feed: FinnhubQuoteFeed;
+
+  beforeEach(() => {
+    socket = new FakeSocket();
+    feed = new FinnhubQuoteFeed({
+      token: 'key',
+      throttleMs: 1_000,
+      connect: () => socket as unknown as WebSocket,
+    });
+  });
+
+  it('subscribes on open and coalesces trades to the last price per symbol', async () => {
+    const quotes = collect(feed);
+    feed.subscribe(['AAPL']);
+    feed.start();
+    socket.emit('open');
+
+    socket.trade('AAPL', 100, NOW);
+    socket.trade('AAPL', 101, NOW + 10);
+    socket.trade('TSLA', 5, NOW); // not subscribed
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(socket.sent).toEqual([{ type: 'subscribe', symbol: 'AAPL' }]);
+    expect(quotes).toEqual([
+      { symbol: 'AAPL', price: 101, timestamp: new Date(NOW + 10).toISOString() },
+    ]);
+  });
+
+  it('follows subscription changes once connected', () => {
+    feed.subscribe(['AAPL']);
+    feed.start();
+    socket.emit('open');
+    feed.subscribe(['MSFT']);
+
+    expect(socket.sent).toEqual([
+      { type: 'subscribe', symbol: 'AAPL' },
+      { type: 'unsubscribe', symbol: 'AAPL' },
+      { type: 'subscribe', symbol: 'MSFT' },
+    ]);
+  });
+
+  it('goes down when the socket closes but not when stopped', () => {
+    const down = vi.fn();
+    feed.on('down', down);
+    feed.start();
+    socket.emit('open');
+    socket.emit('close', 1006);
+
+    expect(down).toHaveBeenCalledWith('Finnhub socket closed (1006)');
+    expect(feed.isRunning()).toBe(false);
+
+    feed.start();
+    feed.stop();
+    socket.emit('close', 1000);
+    expect(down).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes down without an API key', () => {
+    const keyless = new FinnhubQuoteFeed({ token: null });
+    const down = vi.fn();
+    keyless.on('down', down);
+
+    keyless.start();
+
+    expect(down).toHaveBeenCalledWith('No Finnhub API key configured');
+    expect(keyless.isRunning()).toBe(false);
+  });
+});
+
+describe('candlesToQuotes', () => {
+  it('walks each bar open, low, high, close when up and open, high, low, close when down', () => {
+    const quotes = candlesToQuotes('AAPL', [
+      { date: '2025-01-02T14:30:00.000Z', open: 10, high: 12, low: 9, close: 11, volume: 1 },
+      { date: '2025-01-02T14:35:00.000Z', open: 11, high: 11.5, low: 8, close: 8.5, volume: 1 },
+    ]);
+
+    expect(quotes.map((q) => q.price)).toEqual([10, 9, 12, 11, 11, 11.5, 8, 8.5]);
+    expect(quotes[1].timestamp).toBe('2025-01-02T14:31:15.000Z');
+    // The last bar spans as long as the one before it
+    expect(quotes[7].timestamp).toBe('2025-01-02T14:38:45.000Z');
+  });
+});
+
+describe('ReplayQuoteFeed', () => {
+  const tape: Quote[] = [
+    { symbol: 'AAPL', price: 100, timestamp: '2025-01-02T14:30:00.000Z' },
+    { symbol: 'MSFT', price: 400, timestamp: '2025-01-02T14:30:30.000Z' },
+    { symbol: 'AAPL', price: 101, timestamp: '2025-01-02T14:31:00.000Z' },
+  ];
+
+  it('plays subscribed symbols in order at the chosen speed', async () => {
+    const feed = new ReplayQuoteFeed([...tape].reverse(), 60);
+    const quotes = collect(feed);
+    const end = vi.fn();
+    feed.on('end', end);
+
+    feed.subscribe(['AAPL']);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(quotes.map((q) => q.price)).toEqual([100]);
+
+    // A minute of tape in a second
+    await vi.advanceTimersByTimeAsync(999);
+    expect(quotes).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(quotes.map((q) => q.price)).toEqual([100, 101]);
+    expect(end).toHaveBeenCalled();
+    expect(feed.getProgress()).toEqual({ played: 3, total: 3 });
+  });
+
+  it('can change speed mid-tape', async () => {
+    const feed = new ReplayQuoteFeed(tape, 1);
+    const quotes = collect(feed);
+    feed.subscribe(['AAPL', 'MSFT']);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    feed.setSpeed(0);
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(quotes).toHaveLength(3);
+  });
+
+  it('loads the tape for the subscribed symbols on start', () => {
+    const source = vi.fn(() => tape);
+    const feed = new ReplayQuoteFeed(source, 0);
+
+    feed.subscribe(['AAPL']);
+    feed.start();
+
+    expect(source).toHaveBeenCalledWith(['AAPL']);
+    feed.stop();
+  });
+});
+
+describe('FailoverQuoteFeed', () => {
+  let primary: ManualFeed;
+  let backup: ManualFeed;
+  let feed: FailoverQuoteFeed;
+  let quotes: Quote[];
+
+  beforeEach(() => {
+    primary = new ManualFeed('primary');
+    backup = new ManualFeed('backup');
+    feed = new FailoverQuoteFeed([primary, backup] as unknown as QuoteFeed[], {
+      staleAfterMs: 60_000,
+      failbackMs: 300_000,
+    });
+    quotes = collect(feed);
+    feed.subscribe(['AAPL', 'VOD.L']);
+    feed.start();
+  });
+
+  afterEach(() => {
+    feed.stop();
+  });
+
+  it('routes everything to the preferred feed', () => {
+    expect(primary.symbols).toEqual(['AAPL', 'VOD.L']);
+    expect(primary.running).toBe(true);
+    expect(backup.running).toBe(false);
+
+    primary.push('AAPL', 100);
+    backup.push('AAPL', 99); // not routed there
+    expect(quotes.map((q) => q.price)).toEqual([100]);
+  });
+
+  it('moves every symbol off a feed that goes down and fails back later', async () => {
+    primary.running = false;
+    primary.emit('down', 'socket closed');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(backup.symbols).toEqual(['AAPL', 'VOD.L']);
+    expect(backup.running).toBe(true);
+    backup.push('AAPL', 101);
+    expect(quotes.map((q) => q.price)).toEqual([101]);
+
+    await vi.advanceTimersByTimeAsync(300_000);
+    expect(primary.running).toBe(true);
+    expect(primary.symbols).toEqual(['AAPL', 'VOD.L']);
+    expect(backup.running).toBe(false);
+  });
+
+  it('moves only the symbol that went stale', async () => {
+    const stale = vi.fn();
+    feed.on('stale', stale);
+
+    await vi.advanceTimersByTimeAsync(45_000);
+    primary.push('AAPL', 100);
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(stale).toHaveBeenCalledWith({ symbol: 'VOD.L', feed: 'primary', lastQuoteAt: null });
+    expect(primary.symbols).toEqual(['AAPL']);
+    expect(backup.symbols).toEqual(['VOD.L']);
+    expect(feed.getRoutes()).toEqual([
+      {
+        symbol: 'AAPL',
+        feed: 'primary',
+        lastQuoteAt: new Date(NOW + 45_000).toISOString(),
+        stale: false,
+      },
+      { symbol: 'VOD.L', feed: 'backup', lastQuoteAt: null, stale: true },
+    ]);
+  });
+
+  it('keeps the last feed when every feed has gone stale', async () => {
+    const stale = vi.fn();
+    feed.on('stale', stale);
+
+    await vi.advanceTimersByTimeAsync(75_000); // stale on primary
+    await vi.advanceTimersByTimeAsync(75_000); // stale on backup
+
+    expect(stale).toHaveBeenCalledWith(expect.objectContaining({ feed: 'backup' }));
+    expect(backup.symbols).toEqual(['AAPL', 'VOD.L']);
+  });
+
+  it('drops routes for unsubscribed symbols', () => {
+    feed.subscribe(['AAPL']);
+
+    expect(primary.symbols).toEqual(['AAPL']);
+    expect(feed.getRoutes().map((r) => r.symbol)).toEqual(['AAPL']);
+  });
+});
+
+describe('createQuoteFeed', () => {
+  it('refuses the replay feed outside dry run and paper trading', () => {
+    config['streaming.feeds'] = ['replay'];
+
+    const feed = createQuoteFeed(async () => new Map());
+
+    feed.subscribe(['AAPL']);
+    feed.start();
+    expect(feed.getRoutes()[0].feed).toBe('polling');
+    feed.stop();
+  });
+});
+
+describe('live exit loop on a replayed tape', () => {
+  it('closes a position on the tick that crosses its stop', async () => {
+    config['streaming.enabled'] = true;
+    config['streaming.intervalSeconds'] = 15;
+    config['streaming.exitDebounceSeconds'] = 30;
+
+    const tape = candlesToQuotes('AAPL', [
+      { date: '2025-01-02T14:30:00.000Z', open: 100, high: 101, low: 99, close: 100.5, volume: 1 },
+      { date: '2025-01-02T14:35:00.000Z', open: 100.5, high: 100.8, low: 94, close: 96, volume: 1 },
+      { date: '2025-01-02T14:40:00.000Z', open: 96, high: 97, low: 90, close: 91, volume: 1 },
+    ]);
+    const position = {
+      symbol: 'AAPL',
+      entryPrice: 100,
+      stopLossPrice: 95,
+      trailingStop: null,
+      takeProfitPrice: null,
+      currentPrice: 100,
+    };
+
+    const tracker = {
+      markPrice: vi.fn(async (symbol: string, price: number) => [
+        { id: 1, symbol, currentPrice: price, stopLoss: 95 },
+      ]),
+      trailStop: vi.fn((pos) => pos),
+      exitReason: vi.fn((pos) => (pos.currentPrice <= pos.stopLoss ? 'Stop-loss triggered' : null)),
+    };
+    const close = vi.fn().mockResolvedValue(undefined);
+    const monitor = new ExitMonitor(tracker as unknown as PositionTracker, {
+      withConfig: (_pos, fn) => fn(),
+      close,
+      partialExitFor: () => null,
+      partialExit: vi.fn(),
+    } as ExitHandlers);
+
+    const streamer = new PriceStreamer();
+    streamer.setPositionProvider(() => [position]);
+    streamer.setFeed(new ReplayQuoteFeed(tape, 0));
+    streamer.on('price_update', (update) => {
+      void monitor.onTick(update);
+    });
+
+    streamer.start();
+    await vi.advanceTimersByTimeAsync(100);
+    streamer.stop();
+
+    // Closed once, at the first print below 95; later ticks are marked but fall inside the
+    // debounce window, so they are not evaluated
+    expect(tracker.markPrice).toHaveBeenCalledTimes(12);
+    expect(tracker.exitReason).toHaveBeenCalledTimes(7);
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledWith(
+      expect.objectContaining({ currentPrice: 94 }),
+      'Stop-loss triggered',
+    );
+  });
+});
@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('drizzle-orm', () => ({
+  and: vi.fn((...conditions) => ({ conditions, type: 'and' })),
+  eq: vi.fn((field, value) => ({ field, value, type: 'eq' })),
+}));
+
+vi.mock('../../src/db/schema.js', () => ({
+  positions: { id: 'id', symbol: 'symbol' },
+  trades: {},
+}));
+
+let mockDb: any;
+
+vi.mock('../../src/db/index.js', () => ({
+  getDb: () => mockDb,
+}));
+
+vi.mock('../../src/db/repositories/order-intents.js', () => ({
+  getUnresolvedIntents: vi.fn(() => []),
+  resolveIntent: vi.fn(),
+}));
+
+vi.mock('../../src/db/repositories/orders.js', () => ({
+  cancelOrder: vi.fn(),
+  createOrder: vi.fn(() => 77),
+  getOrderByT212Id: vi.fn(),
+  getOrdersBySymbol: vi.fn(() => []),
+  updateOrderStatus: vi.fn(),
+}));
+
+const mockAudit = { logReconciliation: vi.fn() };
+vi.mock('../../src/monitoring/audit-log.js', () => ({
+  getAuditLogger: () => mockAudit,
+}));
+
+const mockTax = { recordPurchase: vi.fn(async () => {}), recordSale: vi.fn(async () => {}) };
+vi.mock('../../src/monitoring/tax-tracker.js', () => ({
+  getTaxTracker: () => mockTax,
+}));
+
+import { getUnresolvedIntents, resolveIntent } from '../../src/db/repositories/order-intents.js';
+import {
+  cancelOrder,
+  getOrdersBySymbol,
+  updateOrderStatus,
+} from '../../src/db/repositories/orders.js';
+import { StartupReconciler } from '../../src/execution/reconciler.js';
+
+function intent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    localOrderId: 11,
+    symbol: 'AAPL',
+    t212Ticker: 'AAPL_US_EQ',
+    accountType: 'INVEST',
+    side: 'BUY',
+    orderType: 'market',
+    purpose: 'entry',
+    quantity: 10,
+    price: 100,
+    context: { stopLossPct: 0.05, takeProfitPct: 0.1, conviction: 80, aiReasoning: 'Breakout' },
+    status: 'submitted',
+    t212OrderId: '900',
+    resolution: null,
+    createdAt: '2025-03-03T15:00:00.000Z',
+    updatedAt: '2025-03-03T15:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function filled(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 900,
+    ticker: 'AAPL_US_EQ',
+    type: 'MARKET',
+    status: 'FILLED',
+    dateCreated: '2025-03-03T15:00:01.000Z',
+    dateExecuted: '2025-03-03T15:00:02.000Z',
+    orderedQuantity: 10,
+    filledQuantity: 10,
+    fillPrice: 101,
+    ...overrides,
+  };
+}
+
+function mockClient(opts: { orders?: any[]; history?: any[]; portfolio?: any[] } = {}) {
+  return {
+    getOrders: vi.fn().mockResolvedValue(opts.orders ?? []),
+    getPortfolio: vi.fn().mockResolvedValue(opts.portfolio ?? []),
+    getOrderHistory: vi.fn().mockResolvedValue({ items: opts.history ?? [] }),
+  };
+}
+
+describe('StartupReconciler', () => {
+  let reconciler: StartupReconciler;
+  let positionRow: Record<string, any> | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    positionRow = undefined;
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      get: vi.fn(() => positionRow),
+      insert: vi.fn().mockReturnThis(),
+      values: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      run: vi.fn(),
+      transaction: vi.fn((fn) => fn(mockDb)),
+    };
+    reconciler = new StartupReconciler();
+  });
+
+  it('does not call the broker when nothing is pending', async () => {
+    const client = mockClient();
+
+    const report = await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(report).toEqual({ accountType: 'INVEST', checked: 0, corrections: [], unresolved: 0 });
+    expect(client.getOrders).not.toHaveBeenCalled();
+  });
+
+  it('rebuilds the trade, position and tax lot of a fill missing locally', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([intent()] as any);
+    vi.mocked(getOrdersBySymbol).mockReturnValue([
+      {
+        status: 'open',
+        orderTag: 'stoploss',
+        t212OrderId: '901',
+        createdAt: '2025-03-03T15:00:05.000Z',
+      },
+    ] as any);
+    const client = mockClient({
+      history: [filled()],
+      portfolio: [{ ticker: 'AAPL_US_EQ', quantity: 10, currentPrice: 102 }],
+    });
+
+    const report = await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(report.corrections).toHaveLength(1);
+    expect(mockDb.values).toHaveBeenCalledWith(
+      expect.objectContaining({ side: 'BUY', shares: 10, entryPrice: 101, aiReasoning: 'Breakout' }),
+    );
+    expect(mockDb.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        symbol: 'AAPL',
+        shares: 10,
+        stopLoss: 101 * 0.95,
+        stopOrderId: '901',
+        entryTime: '2025-03-03T15:00:02.000Z',
+      }),
+    );
+    expect(updateOrderStatus).toHaveBeenCalledWith(
+      11,
+      expect.objectContaining({ status: 'filled', filledPrice: 101 }),
+    );
+    expect(mockTax.recordPurchase).toHaveBeenCalledWith(
+      'AAPL',
+      10,
+      101,
+      'INVEST',
+      '2025-03-03T15:00:02.000Z',
+    );
+    expect(resolveIntent).toHaveBeenCalledWith(1, 'reconciled', expect.any(String), '900');
+    expect(mockAudit.logReconciliation).toHaveBeenCalledWith(
+      'AAPL',
+      expect.stringContaining('Recorded missing entry BUY'),
+      expect.objectContaining({ intentId: 1 }),
+    );
+  });
+
+  it('leaves a fill that is already recorded alone', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([intent()] as any);
+    positionRow = { id: 3, symbol: 'AAPL', shares: 10, entryPrice: 101 };
+    const client = mockClient({
+      history: [filled()],
+      portfolio: [{ ticker: 'AAPL_US_EQ', quantity: 10, currentPrice: 102 }],
+    });
+
+    const report = await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(report.corrections).toEqual([]);
+    expect(mockDb.transaction).not.toHaveBeenCalled();
+    expect(resolveIntent).toHaveBeenCalledWith(1, 'completed', 'Fill already recorded', '900');
+    expect(mockAudit.logReconciliation).not.toHaveBeenCalled();
+  });
+
+  it('matches an order placed before its ID was stored', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([
+      intent({ status: 'pending', t212OrderId: null }),
+    ] as any);
+    const client = mockClient({
+      history: [
+        // Different quantity
+        filled({ id: 899, orderedQuantity: 5, filledQuantity: 5 }),
+        filled(),
+      ],
+      portfolio: [{ ticker: 'AAPL_US_EQ', quantity: 10, currentPrice: 102 }],
+    });
+
+    await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(resolveIntent).toHaveBeenCalledWith(1, 'reconciled', expect.any(String), '900');
+  });
+
+  it('records a missing exit and closes the position', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([
+      intent({ side: 'SELL', purpose: 'exit', context: { exitReason: 'Take profit' } }),
+    ] as any);
+    positionRow = {
+      id: 3,
+      symbol: 'AAPL',
+      t212Ticker: 'AAPL_US_EQ',
+      shares: 10,
+      entryPrice: 90,
+      entryTime: '2025-03-01T15:00:00.000Z',
+      accountType: 'INVEST',
+    };
+    const client = mockClient({ history: [filled({ orderedQuantity: -10, filledQuantity: -10 })] });
+
+    await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(mockDb.values).toHaveBeenCalledWith(
+      expect.objectContaining({ side: 'SELL', exitPrice: 101, pnl: 110, exitReason: 'Take profit' }),
+    );
+    expect(mockDb.delete).toHaveBeenCalled();
+    expect(mockTax.recordSale).toHaveBeenCalledWith(
+      'AAPL',
+      10,
+      101,
+      '2025-03-03T15:00:02.000Z',
+    );
+  });
+
+  it('keeps intents open while the market order is still working', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([intent()] as any);
+    const client = mockClient({
+      orders: [{ id: 900, ticker: 'AAPL_US_EQ', type: 'MARKET', side: 'BUY', status: 'NEW' }],
+    });
+
+    const report = await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(report.unresolved).toBe(1);
+    expect(resolveIntent).not.toHaveBeenCalled();
+  });
+
+  it('fails intents whose order the broker rejected', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([intent()] as any);
+    const client = mockClient({ history: [filled({ status: 'REJECTED', filledQuantity: 0 })] });
+
+    await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(cancelOrder).toHaveBeenCalledWith(11, 'Broker status REJECTED');
+    expect(resolveIntent).toHaveBeenCalledWith(1, 'failed', 'Broker status REJECTED', '900');
+  });
+
+  it('re-attaches a resting stop to its position', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([
+      intent({ side: 'SELL', orderType: 'stop', purpose: 'stoploss', price: 95, t212OrderId: '950' }),
+    ] as any);
+    positionRow = { id: 3, symbol: 'AAPL', shares: 10, stopOrderId: null };
+    const client = mockClient({
+      orders: [{ id: 950, ticker: 'AAPL_US_EQ', type: 'STOP', side: 'SELL', status: 'NEW' }],
+    });
+
+    await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(updateOrderStatus).toHaveBeenCalledWith(11, { status: 'open', t212OrderId: '950' });
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ stopOrderId: '950' }));
+    expect(resolveIntent).toHaveBeenCalledWith(1, 'reconciled', expect.any(String), '950');
+  });
+
+  it('pages order history back to the oldest intent', async () => {
+    vi.mocked(getUnresolvedIntents).mockReturnValue([intent()] as any);
+    const client = mockClient();
+    client.getOrderHistory
+      .mockResolvedValueOnce({
+        items: [filled({ id: 1000, dateCreated: '2025-03-04T15:00:00.000Z' })],
+        nextPagePath: '/api/v0/equity/history/orders?limit=50&cursor=1741100000000',
+      })
+      .mockResolvedValueOnce({
+        items: [filled(), filled({ id: 800, dateCreated: '2025-03-02T15:00:00.000Z' })],
+        nextPagePath: '/api/v0/equity/history/orders?limit=50&cursor=1740900000000',
+      });
+
+    await reconciler.reconcile(client as any, 'INVEST');
+
+    expect(client.getOrderHistory).toHaveBeenCalledTimes(2);
+    expect(client.getOrderHistory).toHaveBeenLastCalledWith({ cursor: 1741100000000, limit: 50 });
+  });
+});
@@ -631,6 +631,122 @@ describe("ReportGenerator", () => {
 			expect(text).toContain("GOOGL: +2.50% (3d)");
 		});
 
+		it("should show dividends and total return when dividends were paid", async () => {
+			const mockReport: ReportData = {
+				period: {
+					from: "2026-02-14T00:00:00.000Z",
+					to: "2026-02-14T23:59:59.999Z",
+				},
+				summary: {
+					totalTrades: 1,
+					winRate: 100,
+					totalPnl: 100,
+					totalPnlPct: 5,
+					dividendIncome: 12.5,
+					totalReturn: 112.5,
+					bestTrade: null,
+					worstTrade: null,
+				},
+				dailyBreakdown: [],
+				topPerformers: [],
+				worstPerformers: [],
+				riskMetrics: {
+					sharpeRatio: 0,
+					maxDrawdown: 0,
+					profitFactor: 0,
+					avgWin: 0,
+					avgLoss: 0,
+				},
+				openPositions: [],
+			};
+
+			const generator = getReportGenerator();
+			const text = generator.formatAsText(mockReport);
+
+			expect(text).toContain("Dividends: $12.50");
+			expect(text).toContain("Total Return: $112.50");
+		});
+
+		it("should show execution quality on weekly reports", async () => {
+			const stats = (mean: number, count: number) => ({
+				count,
+				mean,
+				median: mean,
+				p90: mean * 2,
+				max: mean * 3,
+			});
+			const mockReport: ReportData = {
+				period: {
+					from: "2026-02-08T00:00:00.000Z",
+					to: "2026-02-14T23:59:59.999Z",
+				},
+				summary: {
+					totalTrades: 2,
+					winRate: 50,
+					totalPnl: 10,
+					totalPnlPct: 1,
+					dividendIncome: 0,
+					totalReturn: 10,
+					bestTrade: null,
+					worstTrade: null,
+				},
+				dailyBreakdown: [],
+				topPerformers: [],
+				worstPerformers: [],
+				riskMetrics: {
+					sharpeRatio: 0,
+					maxDrawdown: 0,
+					profitFactor: 0,
+					avgWin: 0,
+					avgLoss: 0,
+				},
+				openPositions: [],
+				executionQuality: {
+					period: {
+						from: "2026-02-08T00:00:00.000Z",
+						to: "2026-02-14T23:59:59.999Z",
+					},
+					accountType: null,
+					slippage: {
+						overall: stats(4.5, 4),
+						bySymbol: { AAPL: stats(4.5, 4) },
+						byOrderType: {},
+						byTimeOfDay: {},
+						byVolatility: {},
+						bySide: {},
+					},
+					latency: { overall: stats(1.5, 4), byOrderType: {} },
+					replacements: {
+						chains: 1,
+						avgDepth: 2,
+						maxDepth: 2,
+						depthCounts: { 2: 1 },
+						filled: 1,
+						fillRate: 1,
+					},
+					shortfall: {
+						trades: 2,
+						unmeasured: 0,
+						meanDelayBps: 6,
+						meanExecutionBps: 4,
+						weightedBps: 10,
+						cost: 2.5,
+						worst: [],
+					},
+				},
+			};
+
+			const generator = getReportGenerator();
+			const text = generator.formatAsText(mockReport);
+			const markdown = generator.formatAsMarkdown(mockReport);
+
+			expect(text).toContain("EXECUTION QUALITY");
+			expect(text).toContain("Slippage: 4.5 bps avg, 9.0 bps p90 (4 fills)");
+			expect(text).toContain("Replaced Orders: 1 (avg depth 2.0, 100% filled)");
+			expect(text).toContain("Implementation Shortfall: 10.0 bps ($2.50)");
+			expect(markdown).toContain("| AAPL | 4 | 4.5 | 9.0 |");
+		});
+
 		it("should handle empty sections in text format", async () => {
 			const mockReport: ReportData = {
 				period: {
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import { RateLimitError } from '../../src/api/trading212/errors.js';
+import { rateLimitKey } from '../../src/api/trading212/rate-limits.js';
+import {
+  RequestScheduler,
+  requestPriority,
+} from '../../src/api/trading212/request-scheduler.js';
+
+const NOW = Date.UTC(2025, 0, 2, 15, 0, 0);
+
+describe('rateLimitKey', () => {
+  it('replaces IDs and tickers and drops the query', () => {
+    expect(rateLimitKey('delete', '/equity/orders/123')).toBe('DELETE /equity/orders/:id');
+    expect(rateLimitKey('GET', '/equity/portfolio/AAPL_US_EQ')).toBe(
+      'GET /equity/portfolio/:ticker',
+    );
+    expect(rateLimitKey('GET', '/equity/history/orders?limit=50&cursor=9')).toBe(
+      'GET /equity/history/orders',
+    );
+    expect(rateLimitKey('POST', '/equity/orders/market')).toBe('POST /equity/orders/market');
+  });
+});
+
+describe('requestPriority', () => {
+  it('puts order placement first and history last', () => {
+    expect(requestPriority('POST', '/equity/orders/market')).toBe('critical');
+    expect(requestPriority('DELETE', '/equity/orders/7')).toBe('critical');
+    expect(requestPriority('GET', '/equity/orders/7')).toBe('normal');
+    expect(requestPriority('GET', '/equity/account/cash')).toBe('normal');
+    expect(requestPriority('GET', '/history/transactions?limit=50')).toBe('low');
+    expect(requestPriority('POST', '/equity/pies')).toBe('low');
+  });
+});
+
+describe('RequestScheduler', () => {
+  let scheduler: RequestScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    scheduler = new RequestScheduler('t212:ISA', { maxConcurrent: 4, maxRetries: 2 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the endpoint bucket to refill', async () => {
+    const run = vi.fn().mockResolvedValue('cash');
+
+    const first = scheduler.schedule('GET', '/equity/account/cash', run);
+    await first;
+    const second = scheduler.schedule('GET', '/equity/account/cash', run);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats().queued).toBe(1);
+
+    // 1 request per 2 seconds
+    await vi.advanceTimersByTimeAsync(2_000);
+    await expect(second).resolves.toBe('cash');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs queued order placement before polling and history', async () => {
+    const order: string[] = [];
+    const track = (label: string) => async () => {
+      order.push(label);
+      return label;
+    };
+    // Drain the only token of each endpoint so everything below has to queue
+    scheduler.observe('GET', '/history/transactions', {
+      limit: 1,
+      period: 1,
+      remaining: 0,
+      reset: NOW / 1000 + 1,
+      used: 1,
+    });
+    scheduler.observe('GET', '/equity/portfolio', {
+      limit: 1,
+      period: 1,
+      remaining: 0,
+      reset: NOW / 1000 + 1,
+      used: 1,
+    });
+    scheduler.observe('POST', '/equity/orders/limit', {
+      limit: 1,
+      period: 1,
+      remaining: 0,
+      reset: NOW / 1000 + 1,
+      used: 1,
+    });
+
+    const pending = [
+      scheduler.schedule('GET', '/history/transactions', track('history')),
+      scheduler.schedule('GET', '/equity/portfolio', track('portfolio')),
+      scheduler.schedule('POST', '/equity/orders/limit', track('order')),
+    ];
+    expect(scheduler.getStats().queuedByPriority).toEqual({ critical: 1, normal: 1, low: 1 });
+    expect(scheduler.getStats().blockedEndpoints).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await Promise.all(pending);
+
+    expect(order).toEqual(['order', 'portfolio', 'history']);
+  });
+
+  it('shares one response between identical reads', async () => {
+    let release: (value: string) => void = () => {};
+    const run = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          release = resolve;
+        }),
+    );
+
+    const a = scheduler.schedule('GET', '/equity/orders/5', run);
+    const b = scheduler.schedule('GET', '/equity/orders/5', run);
+    const other = scheduler.schedule('GET', '/equity/orders/6', vi.fn().mockResolvedValue('six'));
+    release('five');
+
+    await expect(Promise.all([a, b])).resolves.toEqual(['five', 'five']);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(other).resolves.toBe('six');
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats().coalesced).toBe(1);
+  });
+
+  it('never coalesces writes', async () => {
+    const run = vi.fn().mockResolvedValue({ id: 1 });
+
+    await Promise.all([
+      scheduler.schedule('POST', '/equity/orders/market', run),
+      scheduler.schedule('POST', '/equity/orders/market', run),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('parks the endpoint until the reset after a 429 and retries', async () => {
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('Too many requests', NOW / 1000 + 10, 1))
+      .mockResolvedValueOnce('ok');
+
+    const result = scheduler.schedule('GET', '/equity/account/summary', run);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({
+      queued: 1,
+      rateLimited: 1,
+      blockedEndpoints: ['GET /equity/account/summary'],
+    });
+
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially when the reset has passed and gives up after maxRetries', async () => {
+    const err = new RateLimitError('Too many requests', 0, 0);
+    const run = vi.fn().mockRejectedValue(err);
+
+    const result = scheduler.schedule('GET', '/equity/unlisted', run);
+    const rejected = expect(result).rejects.toBe(err);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    await rejected;
+    expect(scheduler.getStats().rateLimited).toBe(3);
+  });
+
+  it('passes other errors straight through', async () => {
+    const err = new Error('boom');
+
+    await expect(
+      scheduler.schedule('GET', '/equity/account/info', vi.fn().mockRejectedValue(err)),
+    ).rejects.toBe(err);
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+
+  it('caps requests in flight', async () => {
+    scheduler = new RequestScheduler('t212:ISA', { maxConcurrent: 1, maxRetries: 0 });
+    let release: () => void = () => {};
+    const slow = () =>
+      new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    const fast = vi.fn().mockResolvedValue(undefined);
+
+    const first = scheduler.schedule('POST', '/equity/orders/market', slow);
+    const second = scheduler.schedule('GET', '/equity/account/cash', fast);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({ inFlight: 1, queued: 1 });
+    expect(fast).not.toHaveBeenCalled();
+
+    release();
+    await Promise.all([first, second]);
+    expect(fast).toHaveBeenCalledTimes(1);
+  });
+});
@@ -47,6 +47,9 @@ vi.mock('drizzle-orm', () => ({
 }));
 
 // ── Import SUT ──────────────────────────────────────────────────────────────
+import type { CorrelationAnalyzer } from '../../src/analysis/correlation.js';
+import { PortfolioOptimizer } from '../../src/analysis/portfolio-optimizer.js';
+import { PortfolioRiskAnalyzer } from '../../src/analysis/portfolio-risk.js';
 import { RiskGuard, type PortfolioState, type TradeProposal } from '../../src/execution/risk-guard.js';
 
 function makePortfolio(overrides: Partial<PortfolioState> = {}): PortfolioState {
@@ -212,6 +215,93 @@ describe('RiskGuard', () => {
     });
   });
 
+  // ── Shorts and exposure ────────────────────────────────────────────────
+  describe('shorts and exposure', () => {
+    const config: Record<string, unknown> = {};
+
+    beforeEach(() => {
+      Object.assign(config, {
+        'risk.maxPositions': 5,
+        'risk.maxPositionSizePct': 0.15,
+        'risk.maxRiskPerTradePct': 0.02,
+        'risk.maxSectorConcentration': 3,
+        'risk.maxGrossExposurePct': 1.5,
+        'risk.maxNetExposurePct': 1,
+        'shorts.enabled': true,
+        'shorts.marginPct': 0.2,
+        'execution.dryRun': true,
+        'execution.paperBroker.enabled': false,
+      });
+      mockConfigGet.mockImplementation((key: string) => config[key]);
+    });
+
+    it('rejects opening a short when short selling is disabled', () => {
+      config['shorts.enabled'] = false;
+      const result = guard.validateTrade(
+        makeProposal({ side: 'SELL', direction: 'SHORT' }),
+        makePortfolio(),
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Short selling is disabled');
+    });
+
+    it('rejects opening a short against the live broker', () => {
+      config['execution.dryRun'] = false;
+      const result = guard.validateTrade(
+        makeProposal({ side: 'SELL', direction: 'SHORT' }),
+        makePortfolio(),
+      );
+      expect(result.allowed).toBe(false);
+    });
+
+    it('only needs margin in cash for a short', () => {
+      // $1,500 short at 20% margin needs $300
+      const result = guard.validateTrade(
+        makeProposal({ side: 'SELL', direction: 'SHORT' }),
+        makePortfolio({ cashAvailable: 400 }),
+      );
+      expect(result.allowed).toBe(true);
+    });
+
+    it('applies no entry limits to covering a short', () => {
+      const result = guard.validateTrade(
+        makeProposal({ side: 'BUY', direction: 'SHORT', shares: 1000 }),
+        makePortfolio({ openPositions: 10, cashAvailable: 0 }),
+      );
+      expect(result.allowed).toBe(true);
+    });
+
+    it('rejects a trade that takes gross exposure over the limit', () => {
+      // 40k long + 34k short + 1.5k = 75.5k > 1.5 x 50k
+      const result = guard.validateTrade(
+        makeProposal({ side: 'SELL', direction: 'SHORT' }),
+        makePortfolio({ longExposure: 40_000, shortExposure: 34_000 }),
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Gross exposure');
+    });
+
+    it('rejects a trade that takes net exposure over the limit', () => {
+      config['risk.maxNetExposurePct'] = 0.5;
+      // 24k long + 1.5k = 25.5k net > 0.5 x 50k
+      const result = guard.validateTrade(
+        makeProposal(),
+        makePortfolio({ longExposure: 24_000 }),
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Net exposure');
+    });
+
+    it('allows a short that reduces net exposure', () => {
+      config['risk.maxNetExposurePct'] = 0.5;
+      const result = guard.validateTrade(
+        makeProposal({ side: 'SELL', direction: 'SHORT' }),
+        makePortfolio({ longExposure: 26_000 }),
+      );
+      expect(result.allowed).toBe(true);
+    });
+  });
+
   // ── checkDailyLoss ─────────────────────────────────────────────────────
   describe('checkDailyLoss', () => {
     it('returns true when daily loss exceeds limit', () => {
@@ -482,4 +572,71 @@ describe('RiskGuard', () => {
       expect(result).toBe(0.125);
     });
   });
+
+  // ── fitRiskBudget ──────────────────────────────────────────────────────
+  describe('fitRiskBudget', () => {
+    // 40 days swinging ±2%: the worst day loses 2% of the exposure
+    const swing = Array.from({ length: 40 }, (_, i) => (i % 2 === 0 ? 0.02 : -0.02));
+    const returns: Record<string, number[]> = { AAPL: swing, MSFT: swing };
+    let analyzer: PortfolioRiskAnalyzer;
+    let exposures: Map<string, number>;
+
+    beforeEach(() => {
+      const correlation = { getReturns: (symbol: string) => returns[symbol] ?? [] };
+      analyzer = new PortfolioRiskAnalyzer(
+        correlation as unknown as CorrelationAnalyzer,
+        new PortfolioOptimizer(),
+      );
+      exposures = new Map();
+      vi.spyOn(analyzer, 'getExposures').mockImplementation(() => exposures);
+      guard = new RiskGuard({ riskAnalyzer: analyzer });
+
+      const config: Record<string, unknown> = {
+        'risk.maxPortfolioVaRPct': 0.01,
+        'risk.varConfidence': 0.95,
+        'risk.varMethod': 'historical',
+        'risk.varLookbackDays': 120,
+      };
+      mockConfigGet.mockImplementation((key: string) => config[key]);
+    });
+
+    it('leaves a trade inside the budget unchanged', () => {
+      const result = guard.fitRiskBudget(makeProposal({ shares: 10 }), makePortfolio());
+      expect(result).toMatchObject({ allowed: true, shares: 10 });
+      expect(result.varPct).toBeCloseTo(0.0006, 6);
+    });
+
+    it('sizes a trade down to the most shares that fit', () => {
+      // Budget $500 of VaR = $25,000 of exposure at 2% = 166 shares at $150
+      const result = guard.fitRiskBudget(makeProposal({ shares: 200 }), makePortfolio());
+      expect(result.allowed).toBe(true);
+      expect(result.shares).toBe(166);
+      expect(result.reason).toContain('Sized down from 200 to 166');
+      expect(result.varPct).toBeLessThanOrEqual(0.01);
+    });
+
+    it('rejects when the book already uses the whole budget', () => {
+      exposures.set('MSFT', 25_000);
+      const result = guard.fitRiskBudget(makeProposal({ shares: 5 }), makePortfolio());
+      expect(result.allowed).toBe(false);
+      expect(result.shares).toBe(0);
+      expect(result.reason).toContain('Portfolio VaR');
+    });
+
+    it('lets a trade through that lowers VaR', () => {
+      exposures.set('AAPL', 30_000);
+      const result = guard.fitRiskBudget(
+        makeProposal({ symbol: 'MSFT', side: 'SELL', direction: 'SHORT', shares: 10 }),
+        makePortfolio(),
+      );
+      expect(result).toMatchObject({ allowed: true, shares: 10 });
+    });
+
+    it('skips symbols without price history and closing trades', () => {
+      expect(guard.fitRiskBudget(makeProposal({ symbol: 'NEW', shares: 1000 }), makePortfolio()))
+        .toMatchObject({ allowed: true, shares: 1000 });
+      expect(guard.fitRiskBudget(makeProposal({ side: 'SELL', shares: 1000 }), makePortfolio()))
+        .toMatchObject({ allowed: true, shares: 1000 });
+    });
+  });
 });
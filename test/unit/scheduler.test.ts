@@ -20,9 +20,11 @@ vi.mock('../../src/utils/logger.js', () => ({
 
 // Mock market-hours
 const mockIsUSMarketOpen = vi.fn();
+const mockIsAnyMarketOpen = vi.fn();
 const mockGetMarketStatus = vi.fn();
 vi.mock('../../src/utils/market-hours.js', () => ({
   isUSMarketOpen: (...args: unknown[]) => mockIsUSMarketOpen(...args),
+  isAnyMarketOpen: (...args: unknown[]) => mockIsAnyMarketOpen(...args),
   getMarketStatus: (...args: unknown[]) => mockGetMarketStatus(...args),
 }));
 
@@ -54,6 +56,7 @@ describe('Scheduler', () => {
     scheduler = new Scheduler();
     vi.clearAllMocks();
     mockIsUSMarketOpen.mockReturnValue(true);
+    mockIsAnyMarketOpen.mockReturnValue(true);
     mockGetMarketStatus.mockReturnValue('open');
   });
 
@@ -92,7 +95,7 @@ describe('Scheduler', () => {
     });
 
     it('wrapped handler runs when marketHoursOnly=true and market is open', async () => {
-      mockIsUSMarketOpen.mockReturnValue(true);
+      mockIsAnyMarketOpen.mockReturnValue(true);
       const handler = vi.fn();
       scheduler.registerJob('test-job', '*/5 * * * *', handler, true);
 
@@ -103,7 +106,7 @@ describe('Scheduler', () => {
     });
 
     it('wrapped handler skips when marketHoursOnly=true and market is closed', async () => {
-      mockIsUSMarketOpen.mockReturnValue(false);
+      mockIsAnyMarketOpen.mockReturnValue(false);
       mockGetMarketStatus.mockReturnValue('closed');
       const handler = vi.fn();
       scheduler.registerJob('test-job', '*/5 * * * *', handler, true);
@@ -114,6 +117,16 @@ describe('Scheduler', () => {
       expect(handler).not.toHaveBeenCalled();
     });
 
+    it('checks the sessions of the configured exchanges', async () => {
+      scheduler.setExchanges(['US', 'LSE']);
+      scheduler.registerJob('test-job', '*/5 * * * *', vi.fn(), true);
+
+      const wrappedHandler = mockSchedule.mock.calls[0][1] as () => Promise<void>;
+      await wrappedHandler();
+
+      expect(mockIsAnyMarketOpen).toHaveBeenCalledWith(['US', 'LSE']);
+    });
+
     it('wrapped handler catches errors thrown by the handler', async () => {
       const handler = vi.fn().mockRejectedValue(new Error('handler error'));
       scheduler.registerJob('test-job', '*/5 * * * *', handler, false);
@@ -894,6 +894,40 @@ describe('AISelfImprovement', () => {
 			expect(result.recommendation).toContain('claude-opus-4');
 		});
 
+		it('should compare models head to head on shared inputs', async () => {
+			const prediction = (id: number, aiModel: string, signalTimestamp: string, correct: boolean) => ({
+				id,
+				aiModel,
+				symbol: 'AAPL',
+				decision: 'BUY' as const,
+				conviction: 70,
+				signalTimestamp,
+				priceAtSignal: 150,
+				priceAfter1d: null,
+				priceAfter5d: null,
+				priceAfter10d: null,
+				actualOutcome: correct ? ('correct' as const) : ('incorrect' as const),
+				actualReturnPct: correct ? 0.02 : -0.02,
+				evaluatedAt: new Date().toISOString(),
+			});
+			mockDb.all.mockReturnValue([
+				// Both members answered these two signals
+				prediction(1, 'claude', '2026-01-05T15:00:00.000Z', true),
+				prediction(2, 'llama', '2026-01-05T15:00:00.000Z', false),
+				prediction(3, 'claude', '2026-01-06T15:00:00.000Z', true),
+				prediction(4, 'llama', '2026-01-06T15:00:00.000Z', true),
+				// Only one model saw this one
+				prediction(5, 'llama', '2026-01-07T15:00:00.000Z', true),
+			]);
+
+			const result = await getAISelfImprovement().compareModels();
+
+			expect(result.headToHead).toEqual([
+				{ model: 'claude', accuracy: 1, sampleSize: 2 },
+				{ model: 'llama', accuracy: 0.5, sampleSize: 2 },
+			]);
+		});
+
 		it('should recommend significantly better model', async () => {
 			const predictions = [
 				...Array.from({ length: 10 }, (_, i) => ({
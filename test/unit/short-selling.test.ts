@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const config: Record<string, unknown> = {};
+
+vi.mock('../../src/config/manager.js', () => ({
+  configManager: { get: vi.fn((key: string) => config[key]) },
+}));
+
+import {
+  accruedFinancing,
+  directionalReturn,
+  isStopHit,
+  isTargetHit,
+  isTighterStop,
+  shortSellingAvailable,
+  stopPriceFor,
+  targetPriceFor,
+} from '../../src/execution/short-selling.js';
+
+describe('short-selling', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(config)) delete config[key];
+  });
+
+  it('mirrors prices and returns for shorts', () => {
+    expect(directionalReturn(100, 110, 'LONG')).toBeCloseTo(0.1, 10);
+    expect(directionalReturn(100, 110, 'SHORT')).toBeCloseTo(-0.1, 10);
+    expect(stopPriceFor(100, 0.05, 'LONG')).toBeCloseTo(95, 10);
+    expect(stopPriceFor(100, 0.05, 'SHORT')).toBeCloseTo(105, 10);
+    expect(targetPriceFor(100, 0.1, 'SHORT')).toBeCloseTo(90, 10);
+    expect(isStopHit(106, 105, 'SHORT')).toBe(true);
+    expect(isStopHit(106, 105)).toBe(false);
+    expect(isTargetHit(89, 90, 'SHORT')).toBe(true);
+    expect(isTighterStop(102, 105, 'SHORT')).toBe(true);
+    expect(isTighterStop(102, 105, 'LONG')).toBe(false);
+  });
+
+  it('allows shorts only in dry run or against the paper broker', () => {
+    Object.assign(config, {
+      'shorts.enabled': true,
+      'execution.dryRun': false,
+      'execution.paperBroker.enabled': false,
+    });
+    expect(shortSellingAvailable()).toBe(false);
+
+    config['execution.paperBroker.enabled'] = true;
+    expect(shortSellingAvailable()).toBe(true);
+
+    config['shorts.enabled'] = false;
+    expect(shortSellingAvailable()).toBe(false);
+  });
+
+  it('accrues financing on shorts since the last accrual', () => {
+    config['shorts.borrowFeeAnnualPct'] = 0.03;
+    config['shorts.overnightFeeAnnualPct'] = 0.0365;
+    const position = {
+      direction: 'SHORT',
+      shares: 10,
+      entryPrice: 100,
+      currentPrice: 100,
+      entryTime: '2025-01-01T00:00:00.000Z',
+      financingCost: 1,
+      financingAccruedAt: '2025-01-11T00:00:00.000Z',
+    };
+    const now = new Date('2025-01-21T00:00:00.000Z');
+
+    // 1000 held for 10 days at 6.65% a year
+    expect(accruedFinancing(position, now)).toBeCloseTo(1 + (1000 * 0.0665 * 10) / 365, 10);
+    expect(accruedFinancing({ ...position, direction: 'LONG' }, now)).toBe(1);
+  });
+});
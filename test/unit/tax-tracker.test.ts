@@ -11,6 +11,10 @@ vi.mock('../../src/db/index.js', () => ({
 	getDb: vi.fn(),
 }));
 
+vi.mock('../../src/db/repositories/dividends.js', () => ({
+	getDividendTotal: vi.fn(() => 0),
+}));
+
 vi.mock('../../src/db/repositories/tax-lots.js', () => ({
 	createTaxLot: vi.fn(),
 	getOpenLots: vi.fn(),
@@ -22,6 +26,7 @@ vi.mock('../../src/db/repositories/tax-lots.js', () => ({
 
 import { configManager } from '../../src/config/manager.js';
 import { getDb } from '../../src/db/index.js';
+import { getDividendTotal } from '../../src/db/repositories/dividends.js';
 import {
 	closeLot,
 	createTaxLot,
@@ -41,6 +46,7 @@ describe('TaxTracker', () => {
 				'tax.shortTermRate': 0.37,
 				'tax.longTermRate': 0.2,
 				'tax.harvestThreshold': -500,
+				'tax.dividendRate': 0.15,
 			};
 			return defaults[key];
 		});
@@ -601,6 +607,29 @@ describe('TaxTracker', () => {
 			expect(summary.netTaxLiability).toBeCloseTo(596);
 		});
 
+		it('should add tax on dividends paid during the year', async () => {
+			vi.mocked(getYearSummary).mockResolvedValue({
+				year: 2025,
+				shortTermGains: 1000,
+				longTermGains: 0,
+				shortTermLosses: 0,
+				longTermLosses: 0,
+			});
+			vi.mocked(getDividendTotal).mockReturnValueOnce(400);
+			vi.mocked(getOpenLots).mockResolvedValue([]);
+
+			const tracker = getTaxTracker();
+			const summary = await tracker.getYearlyTaxSummary(2025);
+
+			expect(getDividendTotal).toHaveBeenCalledWith({
+				from: '2025-01-01',
+				to: '2025-12-31T23:59:59.999Z',
+			});
+			expect(summary.dividendIncome).toBe(400);
+			// 1000 * 0.37 + 400 * 0.15
+			expect(summary.netTaxLiability).toBeCloseTo(430);
+		});
+
 		it('should not apply negative tax liability', async () => {
 			vi.mocked(getYearSummary).mockResolvedValue({
 				year: 2025,
@@ -652,6 +681,7 @@ describe('TaxTracker', () => {
 				longTermGains: 0,
 				shortTermLosses: 0,
 				longTermLosses: 0,
+				dividendIncome: 0,
 				netTaxLiability: 0,
 				harvestOpportunities: 0,
 			});
@@ -17,6 +17,7 @@ function createMockClient(instruments: Array<{
   shortName?: string;
   minTradeQuantity?: number;
   type?: string;
+  currencyCode?: string;
 }>): Trading212ClientLike {
   return {
     getInstruments: vi.fn().mockResolvedValue(instruments),
@@ -195,6 +196,34 @@ describe('TickerMapper', () => {
     });
   });
 
+  describe('getEquities', () => {
+    const listings = [
+      { ticker: 'AAPL_US_EQ', name: 'Apple Inc.', type: 'STOCK', currencyCode: 'USD' },
+      { ticker: 'VODl_EQ', name: 'Vodafone Group', type: 'STOCK', currencyCode: 'GBX' },
+      { ticker: 'SAPd_EQ', name: 'SAP', type: 'STOCK', currencyCode: 'EUR' },
+      { ticker: 'XYZ_CFD', name: 'Unsupported', type: 'STOCK' },
+    ];
+
+    it('maps non-US listings to Yahoo-style symbols with exchange and currency', async () => {
+      const m = new TickerMapper(createMockClient(listings));
+      await m.load();
+
+      expect(m.toT212Ticker('VOD.L')).toBe('VODl_EQ');
+      expect(m.toSymbol('SAPd_EQ')).toBe('SAP.DE');
+      expect(m.getStockInfo('VOD.L')).toMatchObject({ exchange: 'LSE', currency: 'GBX' });
+      expect(m.isAvailable('XYZ')).toBe(false);
+    });
+
+    it('filters by exchange and keeps getUSEquities US-only', async () => {
+      const m = new TickerMapper(createMockClient(listings));
+      await m.load();
+
+      expect(m.getEquities().map((e) => e.symbol)).toEqual(['AAPL', 'VOD.L', 'SAP.DE']);
+      expect(m.getEquities(['LSE', 'XETRA']).map((e) => e.symbol)).toEqual(['VOD.L', 'SAP.DE']);
+      expect(m.getUSEquities().map((e) => e.symbol)).toEqual(['AAPL']);
+    });
+  });
+
   describe('getStockInfo', () => {
     it('returns stock info for a known symbol', async () => {
       await mapper.load();
@@ -204,6 +233,8 @@ describe('TickerMapper', () => {
         t212Ticker: 'AAPL_US_EQ',
         name: 'Apple Inc.',
         minTradeQuantity: 0.001,
+        exchange: 'US',
+        currency: 'USD',
       });
     });
 
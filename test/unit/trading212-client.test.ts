@@ -280,6 +280,29 @@ describe('Trading212Client', () => {
       expect(client.getRateLimitInfo('/unknown')).toBeNull();
     });
 
+    it('has no queue stats while the request scheduler is disabled', () => {
+      expect(client.getQueueStats()).toBeNull();
+    });
+
+    it('routes requests through the scheduler when enabled', async () => {
+      mockConfigGet.mockImplementation((key: string) => {
+        if (key === 't212.environment') return 'demo';
+        if (key === 't212.requestScheduler.enabled') return true;
+        if (key === 't212.requestScheduler.maxConcurrent') return 4;
+        if (key === 't212.requestScheduler.maxRetries') return 0;
+        return null;
+      });
+      const scheduled = new Trading212Client('test-api-key', 't212:ISA');
+      mockFetch().mockResolvedValue(createMockResponse({ json: [] }) as unknown as Response);
+
+      const [a, b] = await Promise.all([scheduled.getPortfolio(), scheduled.getPortfolio()]);
+
+      expect(a).toEqual([]);
+      expect(b).toBe(a);
+      expect(mockFetch()).toHaveBeenCalledTimes(1);
+      expect(scheduled.getQueueStats()).toMatchObject({ name: 't212:ISA', queued: 0, coalesced: 1 });
+    });
+
     it('warns when rate limit is nearly exhausted (remaining <= 2)', async () => {
       mockFetch().mockResolvedValueOnce(
         createMockResponse({
@@ -646,6 +669,36 @@ describe('Trading212Client', () => {
       });
       expect(result.reportId).toBe(42);
     });
+
+    it('getExports', async () => {
+      const data = [{ reportId: 42, status: 'Finished', downloadLink: 'https://files/42.csv' }];
+      mockFetch().mockResolvedValueOnce(
+        createMockResponse({ json: data }) as unknown as Response,
+      );
+
+      const result = await client.getExports();
+      expect(result[0].downloadLink).toBe('https://files/42.csv');
+    });
+
+    it('downloadExport returns the CSV text', async () => {
+      mockFetch().mockResolvedValueOnce(
+        createMockResponse({ text: 'Action,Time\n' }) as unknown as Response,
+      );
+
+      const csv = await client.downloadExport('https://files/42.csv');
+      expect(csv).toBe('Action,Time\n');
+      expect(mockFetch()).toHaveBeenLastCalledWith('https://files/42.csv');
+    });
+
+    it('downloadExport throws when the download fails', async () => {
+      mockFetch().mockResolvedValueOnce(
+        createMockResponse({ ok: false, status: 403, text: 'Expired' }) as unknown as Response,
+      );
+
+      await expect(client.downloadExport('https://files/42.csv')).rejects.toThrow(
+        'Export download failed (403)',
+      );
+    });
   });
 
   describe('Zod schema validation', () => {
@@ -15,6 +15,7 @@ const EVENT_TYPES = [
   { value: 'error', label: 'Error' },
   { value: 'control', label: 'Control' },
   { value: 'research', label: 'Research' },
+  { value: 'reconciliation', label: 'Reconciliation' },
 ];
 
 const SEVERITY_STYLES: Record<string, string> = {
@@ -31,6 +32,7 @@ const EVENT_BADGE_STYLES: Record<string, string> = {
   error: 'bg-red-500/20 text-red-400',
   control: 'bg-orange-500/20 text-orange-400',
   research: 'bg-cyan-500/20 text-cyan-400',
+  reconciliation: 'bg-yellow-500/20 text-yellow-400',
 };
 
 function todayStr(): string {
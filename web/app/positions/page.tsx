@@ -1,18 +1,36 @@
 'use client';
 
+import { useState } from 'react';
 import useSWR from 'swr';
 import { Clock, Shield, Target, X } from 'lucide-react';
 import { api, fetcher } from '@/lib/api';
-import type { PortfolioResponse } from '@/lib/types';
+import type {
+  PieStatus,
+  PiesResponse,
+  PortfolioResponse,
+  PortfolioRiskReport,
+} from '@/lib/types';
+import { AccountSelect } from '@/components/account-select';
 import { PnlDisplay } from '@/components/pnl-display';
 import { cn, formatCurrency, formatDateTime } from '@/lib/utils';
 
 export default function PositionsPage() {
+  const [account, setAccount] = useState('');
   const { data: portfolio, mutate } = useSWR<PortfolioResponse>(
-    '/api/portfolio',
+    account ? `/api/portfolio?account=${account}` : '/api/portfolio',
     fetcher,
     { refreshInterval: 10_000 },
   );
+  const { data: pieData } = useSWR<PiesResponse>(
+    account ? `/api/pies?account=${account}` : '/api/pies',
+    fetcher,
+    { refreshInterval: 60_000 },
+  );
+  const { data: risk } = useSWR<PortfolioRiskReport>(
+    account ? `/api/risk/portfolio?account=${account}` : '/api/risk/portfolio',
+    fetcher,
+    { refreshInterval: 30_000 },
+  );
 
   async function handleClose(symbol: string) {
     await api.closePosition(symbol);
@@ -23,13 +41,22 @@ export default function PositionsPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Positions</h1>
-        <p className="text-sm text-muted-foreground">
-          {positions.length} open position{positions.length !== 1 ? 's' : ''}
-        </p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Positions</h1>
+          <p className="text-sm text-muted-foreground">
+            {positions.length} open position{positions.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <AccountSelect value={account} onChange={setAccount} />
       </div>
 
+      {risk?.positions?.length ? <RiskCard risk={risk} /> : null}
+
+      {pieData?.pies?.map((status) => (
+        <PieCard key={status.accountType} status={status} />
+      ))}
+
       {positions.length === 0 && (
         <div className="flex h-64 items-center justify-center rounded-lg border border-border bg-card text-muted-foreground">
           No open positions
@@ -56,6 +83,11 @@ export default function PositionsPage() {
                 <div>
                   <div className="flex items-center gap-2">
                     <h3 className="text-lg font-bold">{pos.symbol}</h3>
+                    {pos.direction === 'SHORT' && (
+                      <span className="rounded bg-red-500/10 px-2 py-0.5 text-xs font-medium text-red-400">
+                        SHORT
+                      </span>
+                    )}
                     {pos.convictionScore != null && (
                       <span className="rounded bg-muted px-2 py-0.5 text-xs text-muted-foreground">
                         Conviction: {pos.convictionScore}
@@ -145,3 +177,105 @@ function PriceBox({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+
+function PieCard({ status }: { status: PieStatus }) {
+  const { pie, latest } = status;
+  const tickers = Object.keys(pie.instrumentShares).sort(
+    (a, b) => pie.instrumentShares[b] - pie.instrumentShares[a],
+  );
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-bold">{pie.name}</h3>
+          <div className="mt-1 text-xs text-muted-foreground">
+            Pie sleeve · {status.accountType} · {pie.method} · rebalanced{' '}
+            {formatDateTime(pie.rebalancedAt)}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <PriceBox
+          label="Value"
+          value={latest?.value != null ? formatCurrency(latest.value) : '—'}
+        />
+        <div className="rounded-md bg-muted/50 px-3 py-2 text-center">
+          <div className="text-xs text-muted-foreground">Return</div>
+          <PnlDisplay
+            value={latest?.result ?? 0}
+            percentage={latest?.returnPct ?? undefined}
+            size="sm"
+          />
+        </div>
+        <PriceBox
+          label="Drift"
+          value={latest ? `${(latest.drift * 100).toFixed(1)}%` : '—'}
+        />
+      </div>
+
+      <div className="space-y-1 text-xs">
+        {tickers.map((ticker) => (
+          <div key={ticker} className="flex justify-between text-muted-foreground">
+            <span className="font-medium text-foreground">{ticker}</span>
+            <span>
+              {((latest?.currentShares[ticker] ?? 0) * 100).toFixed(1)}% of{' '}
+              {(pie.instrumentShares[ticker] * 100).toFixed(1)}% target
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RiskCard({ risk }: { risk: PortfolioRiskReport }) {
+  const confidence = `${Math.round(risk.confidence * 100)}%`;
+  const overBudget = risk.budgetUsed != null && risk.budgetUsed > 1;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Portfolio risk</h3>
+        <div className="mt-1 text-xs text-muted-foreground">
+          One-day {confidence} · {risk.method} · {risk.observations} days of returns
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <PriceBox label="Historical VaR" value={formatCurrency(risk.historical.var)} />
+        <PriceBox label="Historical CVaR" value={formatCurrency(risk.historical.cvar)} />
+        <PriceBox label="Parametric VaR" value={formatCurrency(risk.parametric.var)} />
+        <PriceBox label="Parametric CVaR" value={formatCurrency(risk.parametric.cvar)} />
+      </div>
+
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">
+          Gross {formatCurrency(risk.grossExposure)} · Net {formatCurrency(risk.netExposure)}
+        </span>
+        <span className={cn('font-medium', overBudget ? 'text-red-400' : 'text-foreground')}>
+          VaR {(risk.varPct * 100).toFixed(2)}%
+          {risk.limitPct > 0 && ` of ${(risk.limitPct * 100).toFixed(2)}% budget`}
+        </span>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        {risk.positions.map((pos) => (
+          <div key={pos.symbol} className="flex justify-between text-muted-foreground">
+            <span className="font-medium text-foreground">{pos.symbol}</span>
+            <span>
+              {formatCurrency(pos.contribution)} of VaR · {formatCurrency(pos.standaloneVaR)}{' '}
+              alone
+            </span>
+          </div>
+        ))}
+        {risk.missing.length > 0 && (
+          <div className="text-muted-foreground">
+            Not enough price history: {risk.missing.join(', ')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ const CATEGORY_ORDER = [
   'risk',
   'execution',
   'exit',
+  'streaming',
   'dca',
   'partialExit',
   'multiTimeframe',
@@ -24,6 +25,10 @@ const CATEGORY_ORDER = [
   'attribution',
   'riskParity',
   'tax',
+  'dividends',
+  'historyImport',
+  'pies',
+  'shorts',
   'monteCarlo',
   'portfolioOptimization',
   'socialSentiment',
@@ -44,6 +49,7 @@ const CATEGORY_LABELS: Record<string, string> = {
   execution: 'Execution',
   monitoring: 'Monitoring',
   exit: 'Exit Rules',
+  streaming: 'Price Streaming',
   dca: 'DCA (Dollar Cost Averaging)',
   partialExit: 'Partial Exit / Scale-Out',
   multiTimeframe: 'Multi-Timeframe Analysis',
@@ -53,6 +59,10 @@ const CATEGORY_LABELS: Record<string, string> = {
   attribution: 'Performance Attribution',
   riskParity: 'Risk Parity Sizing',
   tax: 'Tax Awareness',
+  dividends: 'Dividends',
+  historyImport: 'History Import',
+  pies: 'Pie Mode',
+  shorts: 'Short Selling',
   monteCarlo: 'Monte Carlo Simulation',
   portfolioOptimization: 'Portfolio Optimization',
   socialSentiment: 'Social Sentiment',
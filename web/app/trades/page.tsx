@@ -4,18 +4,21 @@ import { useState } from 'react';
 import useSWR from 'swr';
 import { fetcher } from '@/lib/api';
 import type { TradesResponse } from '@/lib/types';
+import { AccountSelect } from '@/components/account-select';
 import { PnlDisplay } from '@/components/pnl-display';
 import { cn, formatCurrency, formatDateTime } from '@/lib/utils';
 
 export default function TradesPage() {
   const [symbol, setSymbol] = useState('');
   const [side, setSide] = useState('');
+  const [account, setAccount] = useState('');
   const [page, setPage] = useState(0);
   const limit = 25;
 
   const params = new URLSearchParams();
   if (symbol) params.set('symbol', symbol);
   if (side) params.set('side', side);
+  if (account) params.set('account', account);
   params.set('limit', String(limit));
   params.set('offset', String(page * limit));
   const qs = params.toString();
@@ -59,6 +62,13 @@ export default function TradesPage() {
           <option value="BUY">BUY</option>
           <option value="SELL">SELL</option>
         </select>
+        <AccountSelect
+          value={account}
+          onChange={(value) => {
+            setAccount(value);
+            setPage(0);
+          }}
+        />
       </div>
 
       {/* Table */}
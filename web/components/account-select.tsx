@@ -0,0 +1,34 @@
+'use client';
+
+import useSWR from 'swr';
+import { fetcher } from '@/lib/api';
+import type { AccountSummary } from '@/lib/types';
+
+interface AccountSelectProps {
+  value: string;
+  onChange: (account: string) => void;
+}
+
+/** Account filter; renders nothing unless the bot trades more than one account. */
+export function AccountSelect({ value, onChange }: AccountSelectProps) {
+  const { data } = useSWR<{ accounts: AccountSummary[] }>('/api/accounts', fetcher, {
+    refreshInterval: 60_000,
+  });
+  const accounts = data?.accounts ?? [];
+  if (accounts.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-md border border-border bg-muted px-3 py-1.5 text-sm text-foreground outline-none focus:border-ring"
+    >
+      <option value="">All accounts</option>
+      {accounts.map((a) => (
+        <option key={a.accountType} value={a.accountType}>
+          {a.accountType}
+        </option>
+      ))}
+    </select>
+  );
+}
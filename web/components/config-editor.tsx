@@ -10,7 +10,10 @@ import { cn } from '@/lib/utils';
 const ENUM_OPTIONS: Record<string, string[]> = {
   't212.environment': ['demo', 'live'],
   't212.accountType': ['INVEST', 'ISA'],
-  'ai.provider': ['anthropic', 'ollama', 'openai-compatible'],
+  'ai.provider': ['anthropic', 'ollama', 'openai-compatible', 'ensemble'],
+  'ai.ensemble.strategy': ['majority', 'conviction', 'accuracy'],
+  'ai.cassette.mode': ['off', 'record', 'replay'],
+  'ai.cassette.onMiss': ['fail', 'live'],
   'pairlist.mode': ['dynamic', 'static', 'hybrid'],
   'reports.schedule': ['daily', 'weekly', 'both'],
   'monitoring.weeklyReportDay': [
@@ -1,4 +1,5 @@
 import type {
+  AccountSummary,
   AuditEntry,
   ConfigResponse,
   DailyMetricsResponse,
@@ -28,7 +29,8 @@ async function fetchApi<T>(path: string, init?: RequestInit): Promise<T> {
 
 export const api = {
   // Portfolio
-  getPortfolio: () => fetchApi<PortfolioResponse>('/api/portfolio'),
+  getPortfolio: (account?: string) =>
+    fetchApi<PortfolioResponse>(`/api/portfolio${account ? `?account=${account}` : ''}`),
 
   // Trades
   getTrades: (params?: {
@@ -38,12 +40,14 @@ export const api = {
     side?: string;
     limit?: number;
     offset?: number;
+    account?: string;
   }) => {
     const qs = new URLSearchParams();
     if (params?.symbol) qs.set('symbol', params.symbol);
     if (params?.from) qs.set('from', params.from);
     if (params?.to) qs.set('to', params.to);
     if (params?.side) qs.set('side', params.side);
+    if (params?.account) qs.set('account', params.account);
     if (params?.limit) qs.set('limit', String(params.limit));
     if (params?.offset) qs.set('offset', String(params.offset));
     const q = qs.toString();
@@ -72,7 +76,9 @@ export const api = {
     fetchApi<{ signal: import('./types').Signal }>(`/api/signals/${symbol}/latest`),
 
   // Performance
-  getPerformance: () => fetchApi<PerformanceResponse>('/api/performance'),
+  getPerformance: (account?: string) =>
+    fetchApi<PerformanceResponse>(`/api/performance${account ? `?account=${account}` : ''}`),
+  getAccounts: () => fetchApi<{ accounts: AccountSummary[] }>('/api/accounts'),
   getDailyMetrics: () => fetchApi<DailyMetricsResponse>('/api/performance/daily'),
 
   // Status
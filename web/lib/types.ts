@@ -15,6 +15,9 @@ export interface Position {
   stopOrderId?: string;
   aiExitConditions?: string;
   accountType: string;
+  direction?: 'LONG' | 'SHORT';
+  /** Borrow and overnight fees booked on a short */
+  financingCost?: number;
   updatedAt?: string;
 }
 
@@ -128,6 +131,23 @@ export interface PerformanceResponse {
   profitFactor: number;
   totalTrades: number;
   totalPnl: number;
+  pricePnl?: number;
+  fxPnl?: number;
+  dividendIncome?: number;
+  totalReturn?: number;
+  currencies?: CurrencyBreakdown[];
+}
+
+export interface CurrencyBreakdown {
+  currency: string;
+  accountCurrency: string | null;
+  trades: number;
+  totalPnl: number;
+  pricePnl: number;
+  fxPnl: number;
+  openPositions: number;
+  unrealizedPricePnl: number;
+  unrealizedFxPnl: number;
 }
 
 export interface DailyMetricsResponse {
@@ -143,6 +163,88 @@ export interface StatusResponse {
   environment: string;
   dryRun: boolean;
   marketTimes: MarketTimes;
+  exchanges?: ExchangeTimes[];
+  accounts?: AccountSummary[];
+}
+
+export interface ExchangeTimes {
+  code: string;
+  name: string;
+  timeZone: string;
+  status: 'open' | 'closed';
+  nextOpen: string;
+  nextClose: string;
+  isHoliday: boolean;
+}
+
+export interface AccountSummary {
+  accountType: 'INVEST' | 'ISA';
+  strategyProfile: string | null;
+  cashAvailable: number | null;
+  portfolioValue: number | null;
+  lossCooldownUntil: string | null;
+}
+
+export interface PieSnapshot {
+  id: number;
+  timestamp: string;
+  value: number | null;
+  invested: number | null;
+  result: number | null;
+  returnPct: number | null;
+  cash: number | null;
+  progress: number | null;
+  drift: number;
+  currentShares: Record<string, number>;
+}
+
+export interface ManagedPie {
+  pieId: number;
+  name: string;
+  method: string;
+  instrumentShares: Record<string, number>;
+  goal: number | null;
+  rebalancedAt: string;
+}
+
+export interface PieStatus {
+  accountType: 'INVEST' | 'ISA';
+  pie: ManagedPie;
+  latest: PieSnapshot | null;
+  history: PieSnapshot[];
+}
+
+export interface PiesResponse {
+  pies: PieStatus[];
+}
+
+export interface RiskMeasures {
+  var: number;
+  cvar: number;
+}
+
+export interface PositionRisk {
+  symbol: string;
+  exposure: number;
+  standaloneVaR: number;
+  contribution: number;
+}
+
+export interface PortfolioRiskReport {
+  accountType: 'INVEST' | 'ISA' | null;
+  portfolioValue: number;
+  confidence: number;
+  method: 'historical' | 'parametric';
+  observations: number;
+  grossExposure: number;
+  netExposure: number;
+  historical: RiskMeasures;
+  parametric: RiskMeasures;
+  varPct: number;
+  limitPct: number;
+  budgetUsed: number | null;
+  positions: PositionRisk[];
+  missing: string[];
 }
 
 export interface ConfigItem {